@@ -24,6 +24,7 @@ import {
   Database,
   TrendingUp,
   Calendar,
+  GitCompare,
 } from 'lucide-react';
 import type { Account } from '@/lib/supabase';
 import { accountKeys, useAccount } from '@/lib/hooks/use-accounts';
@@ -297,6 +298,10 @@ export default function AccountOverviewPage() {
                 <Download className="h-4 w-4 mr-2" />
                 Export Data
               </Button>
+              <Button variant="outline" onClick={() => router.push(`/accounts/${accountId}/reconciliation`)}>
+                <GitCompare className="h-4 w-4 mr-2" />
+                Reconcile
+              </Button>
             </div>
           </div>
 
@@ -0,0 +1,423 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useRouter, useParams } from 'next/navigation';
+import { useTenant } from '@/lib/tenant-context';
+import { Navigation } from '@/components/navigation';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, Calendar, CheckCircle2, Link2, RefreshCw, Sparkles, Unlink } from 'lucide-react';
+import {
+  useAccountReconciliation,
+  useAutoMatch,
+  useCreateMatch,
+  useUnmatch,
+} from '@/lib/hooks/use-reconciliation';
+import type { ReconciliationItem } from '@/lib/types/reconciliation';
+
+function monthStart() {
+  return `${new Date().toISOString().slice(0, 7)}-01`;
+}
+
+function today() {
+  return new Date().toISOString().split('T')[0];
+}
+
+export default function AccountReconciliationPage() {
+  const router = useRouter();
+  const params = useParams();
+  const { currentTenant } = useTenant();
+  const accountId = params.id as string;
+
+  const [period, setPeriod] = useState({ startDate: monthStart(), endDate: today() });
+  const [selectedBank, setSelectedBank] = useState<Set<string>>(new Set());
+  const [selectedLedger, setSelectedLedger] = useState<Set<string>>(new Set());
+
+  const { data, isLoading, refetch, isFetching } = useAccountReconciliation(currentTenant?.id, accountId, period);
+  const autoMatch = useAutoMatch();
+  const createMatch = useCreateMatch();
+  const unmatch = useUnmatch();
+
+  const currency = data?.currency || 'USD';
+
+  const itemsById = useMemo(() => {
+    const map = new Map<string, ReconciliationItem>();
+    for (const item of [
+      ...(data?.unmatched_bank || []),
+      ...(data?.unmatched_ledger || []),
+      ...(data?.counterparts || []),
+    ]) {
+      map.set(item.transaction_id, item);
+    }
+    return map;
+  }, [data]);
+
+  const selectionTotal = (ids: Set<string>) =>
+    Array.from(ids).reduce((sum, id) => sum + (itemsById.get(id)?.amount || 0), 0);
+  const bankTotal = selectionTotal(selectedBank);
+  const ledgerTotal = selectionTotal(selectedLedger);
+  const difference = Math.round((bankTotal - ledgerTotal) * 100) / 100;
+  const canMatch = selectedBank.size > 0 && selectedLedger.size > 0 && difference === 0;
+
+  const formatCurrency = (value: number) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency, minimumFractionDigits: 2 }).format(value);
+
+  const formatDate = (date: string) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+  const toggle = (set: Set<string>, setter: (next: Set<string>) => void, id: string) => {
+    const next = new Set(set);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setter(next);
+  };
+
+  const clearSelection = () => {
+    setSelectedBank(new Set());
+    setSelectedLedger(new Set());
+  };
+
+  const handleMatch = (bankTransactionIds: string[], ledgerTransactionIds: string[]) => {
+    if (!currentTenant) return;
+    createMatch.mutate(
+      { tenantId: currentTenant.id, accountId, bankTransactionIds, ledgerTransactionIds },
+      { onSuccess: clearSelection }
+    );
+  };
+
+  const describe = (ids: string[]) =>
+    ids
+      .map((id) => itemsById.get(id))
+      .filter((item): item is ReconciliationItem => !!item)
+      .map((item) => `${formatDate(item.date)} · ${item.description || item.reference || item.transaction_id}`);
+
+  if (!currentTenant) {
+    return (
+      <div className="flex h-screen">
+        <Navigation />
+        <main className="flex-1 overflow-y-auto bg-background p-8">
+          <Card className="p-12 text-center max-w-2xl mx-auto">
+            <h2 className="text-2xl font-semibold mb-4">No Organization Selected</h2>
+            <p className="text-muted-foreground">Please select an organization from the sidebar.</p>
+          </Card>
+        </main>
+      </div>
+    );
+  }
+
+  const renderItems = (
+    items: ReconciliationItem[],
+    selected: Set<string>,
+    setter: (next: Set<string>) => void,
+    emptyText: string
+  ) =>
+    items.length === 0 ? (
+      <div className="p-8 text-center text-sm text-muted-foreground">{emptyText}</div>
+    ) : (
+      <table className="w-full text-sm">
+        <tbody>
+          {items.map((item) => (
+            <tr
+              key={item.transaction_id}
+              className={`border-b cursor-pointer transition-colors ${
+                selected.has(item.transaction_id) ? 'bg-stone-100' : 'hover:bg-muted/30'
+              }`}
+              onClick={() => toggle(selected, setter, item.transaction_id)}
+            >
+              <td className="p-3 w-8">
+                <input type="checkbox" checked={selected.has(item.transaction_id)} readOnly />
+              </td>
+              <td className="p-3 text-muted-foreground whitespace-nowrap">{formatDate(item.date)}</td>
+              <td className="p-3">
+                <div className="font-medium">{item.description || '-'}</div>
+                <div className="text-xs text-muted-foreground">
+                  {[item.reference, item.counterparty_name].filter(Boolean).join(' • ')}
+                </div>
+              </td>
+              <td className={`p-3 text-right font-semibold ${item.amount < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                {formatCurrency(item.amount)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    );
+
+  return (
+    <div className="flex h-screen">
+      <Navigation />
+
+      <main className="flex-1 overflow-y-auto bg-background">
+        <div className="p-8 space-y-6">
+          {/* Header */}
+          <div>
+            <Button variant="ghost" onClick={() => router.push(`/accounts/${accountId}`)} className="mb-4">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Account
+            </Button>
+            <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+              <div>
+                <h1 className="text-3xl font-bold">Reconciliation</h1>
+                <p className="text-muted-foreground mt-1">
+                  {data?.account_name || 'Account'} • Bank feed against ledger entries
+                </p>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <Calendar className="h-4 w-4 text-muted-foreground" />
+                <input
+                  type="date"
+                  value={period.startDate}
+                  max={period.endDate}
+                  onChange={(e) => {
+                    setPeriod((prev) => ({ ...prev, startDate: e.target.value }));
+                    clearSelection();
+                  }}
+                  className="border rounded px-2 py-1 text-sm"
+                />
+                <span className="text-sm text-muted-foreground">to</span>
+                <input
+                  type="date"
+                  value={period.endDate}
+                  min={period.startDate}
+                  onChange={(e) => {
+                    setPeriod((prev) => ({ ...prev, endDate: e.target.value }));
+                    clearSelection();
+                  }}
+                  className="border rounded px-2 py-1 text-sm"
+                />
+                <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+                  <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+                </Button>
+                <Button
+                  onClick={() => autoMatch.mutate({ tenantId: currentTenant.id, accountId, ...period })}
+                  disabled={autoMatch.isPending}
+                >
+                  <Sparkles className="h-4 w-4 mr-2" />
+                  {autoMatch.isPending ? 'Matching...' : 'Run Auto-Match'}
+                </Button>
+              </div>
+            </div>
+          </div>
+
+          {isLoading || !data ? (
+            <div className="text-center py-12">
+              <RefreshCw className="h-8 w-8 animate-spin mx-auto mb-4 text-muted-foreground" />
+              <p className="text-muted-foreground">Loading reconciliation…</p>
+            </div>
+          ) : (
+            <>
+              {/* Summary Cards */}
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <Card className="p-4">
+                  <div className="text-sm text-muted-foreground mb-1">Bank Lines Matched</div>
+                  <div className="text-2xl font-bold">
+                    {data.summary.matched_bank_count} / {data.summary.bank_count}
+                  </div>
+                </Card>
+                <Card className="p-4">
+                  <div className="text-sm text-muted-foreground mb-1">Ledger Entries Matched</div>
+                  <div className="text-2xl font-bold">
+                    {data.summary.matched_ledger_count} / {data.summary.ledger_count}
+                  </div>
+                </Card>
+                <Card className="p-4">
+                  <div className="text-sm text-muted-foreground mb-1">Unmatched Bank</div>
+                  <div className="text-2xl font-bold">{formatCurrency(data.summary.unmatched_bank_total)}</div>
+                </Card>
+                <Card className="p-4">
+                  <div className="text-sm text-muted-foreground mb-1">Unmatched Ledger</div>
+                  <div className="text-2xl font-bold">{formatCurrency(data.summary.unmatched_ledger_total)}</div>
+                </Card>
+              </div>
+
+              {/* Suggestions */}
+              {data.suggestions.length > 0 && (
+                <Card>
+                  <div className="p-4 border-b flex items-center gap-2">
+                    <Sparkles className="h-5 w-5 text-stone-600" />
+                    <h2 className="text-lg font-semibold">Suggested Matches</h2>
+                    <Badge variant="outline">{data.suggestions.length}</Badge>
+                  </div>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead className="border-b bg-muted/50">
+                        <tr>
+                          <th className="text-left p-3 font-medium">Bank</th>
+                          <th className="text-left p-3 font-medium">Ledger</th>
+                          <th className="text-left p-3 font-medium">Why</th>
+                          <th className="text-right p-3 font-medium">Score</th>
+                          <th className="p-3" />
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {data.suggestions.map((suggestion) => (
+                          <tr
+                            key={[...suggestion.bank_transaction_ids, ...suggestion.ledger_transaction_ids].join('|')}
+                            className="border-b"
+                          >
+                            <td className="p-3">
+                              {describe(suggestion.bank_transaction_ids).map((line) => (
+                                <div key={line}>{line}</div>
+                              ))}
+                            </td>
+                            <td className="p-3">
+                              {describe(suggestion.ledger_transaction_ids).map((line) => (
+                                <div key={line}>{line}</div>
+                              ))}
+                            </td>
+                            <td className="p-3">
+                              <div className="flex flex-wrap gap-1">
+                                {suggestion.reasons.map((reason) => (
+                                  <Badge key={reason} variant="outline" className="text-xs">
+                                    {reason.replace(/_/g, ' ')}
+                                  </Badge>
+                                ))}
+                              </div>
+                            </td>
+                            <td className="p-3 text-right font-semibold">{Math.round(suggestion.score * 100)}%</td>
+                            <td className="p-3 text-right">
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={createMatch.isPending}
+                                onClick={() =>
+                                  handleMatch(suggestion.bank_transaction_ids, suggestion.ledger_transaction_ids)
+                                }
+                              >
+                                <CheckCircle2 className="h-4 w-4 mr-1" />
+                                Accept
+                              </Button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </Card>
+              )}
+
+              {/* Manual Matching */}
+              <Card className="p-4 flex flex-wrap items-center gap-4">
+                <div className="text-sm">
+                  <span className="text-muted-foreground">Bank selected:</span>{' '}
+                  <span className="font-semibold">{formatCurrency(bankTotal)}</span>
+                </div>
+                <div className="text-sm">
+                  <span className="text-muted-foreground">Ledger selected:</span>{' '}
+                  <span className="font-semibold">{formatCurrency(ledgerTotal)}</span>
+                </div>
+                <div className="text-sm">
+                  <span className="text-muted-foreground">Difference:</span>{' '}
+                  <span className={`font-semibold ${difference === 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {formatCurrency(difference)}
+                  </span>
+                </div>
+                <div className="ml-auto flex gap-2">
+                  <Button variant="outline" onClick={clearSelection} disabled={!selectedBank.size && !selectedLedger.size}>
+                    Clear
+                  </Button>
+                  <Button
+                    onClick={() => handleMatch(Array.from(selectedBank), Array.from(selectedLedger))}
+                    disabled={!canMatch || createMatch.isPending}
+                  >
+                    <Link2 className="h-4 w-4 mr-2" />
+                    Match Selected
+                  </Button>
+                </div>
+              </Card>
+
+              {/* Unmatched Items */}
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <Card>
+                  <div className="p-4 border-b flex items-center justify-between">
+                    <h2 className="text-lg font-semibold">Unmatched Bank Lines</h2>
+                    <Badge variant="outline">{data.unmatched_bank.length}</Badge>
+                  </div>
+                  {renderItems(data.unmatched_bank, selectedBank, setSelectedBank, 'Every bank line is matched.')}
+                </Card>
+                <Card>
+                  <div className="p-4 border-b flex items-center justify-between">
+                    <h2 className="text-lg font-semibold">Unmatched Ledger Entries</h2>
+                    <Badge variant="outline">{data.unmatched_ledger.length}</Badge>
+                  </div>
+                  {renderItems(
+                    data.unmatched_ledger,
+                    selectedLedger,
+                    setSelectedLedger,
+                    'No unmatched ledger entries. Connect Xero to reconcile against your books.'
+                  )}
+                </Card>
+              </div>
+
+              {/* Matched */}
+              <Card>
+                <div className="p-4 border-b flex items-center gap-2">
+                  <CheckCircle2 className="h-5 w-5 text-green-600" />
+                  <h2 className="text-lg font-semibold">Matched</h2>
+                  <Badge variant="outline">{data.matches.length}</Badge>
+                </div>
+                {data.matches.length === 0 ? (
+                  <div className="p-8 text-center text-sm text-muted-foreground">No matches in this period yet.</div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead className="border-b bg-muted/50">
+                        <tr>
+                          <th className="text-left p-3 font-medium">Bank</th>
+                          <th className="text-left p-3 font-medium">Ledger</th>
+                          <th className="text-right p-3 font-medium">Amount</th>
+                          <th className="text-left p-3 font-medium">Type</th>
+                          <th className="p-3" />
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {data.matches.map((match) => (
+                          <tr key={match.id} className="border-b">
+                            <td className="p-3">
+                              {match.bank_items.map((item) => (
+                                <div key={item.transaction_id}>
+                                  {formatDate(item.date)} · {item.description || item.reference || '-'}
+                                </div>
+                              ))}
+                            </td>
+                            <td className="p-3">
+                              {match.ledger_items.map((item) => (
+                                <div key={item.transaction_id}>
+                                  {formatDate(item.date)} · {item.description || item.reference || '-'}
+                                </div>
+                              ))}
+                            </td>
+                            <td className="p-3 text-right font-semibold">{formatCurrency(Number(match.bank_amount))}</td>
+                            <td className="p-3">
+                              <Badge variant={match.match_type === 'auto' ? 'secondary' : 'outline'} className="text-xs">
+                                {match.match_type === 'auto' && match.score != null
+                                  ? `Auto ${Math.round(Number(match.score) * 100)}%`
+                                  : 'Manual'}
+                              </Badge>
+                            </td>
+                            <td className="p-3 text-right">
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                disabled={unmatch.isPending}
+                                onClick={() => unmatch.mutate({ tenantId: currentTenant.id, accountId, matchId: match.id })}
+                              >
+                                <Unlink className="h-4 w-4 mr-1" />
+                                Unmatch
+                              </Button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </Card>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
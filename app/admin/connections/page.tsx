@@ -72,7 +72,7 @@ export default function ConnectionsPage() {
       });
       const data = await res.json();
       if (data.success) {
-        alert('Sync triggered successfully!');
+        alert(data.created ? 'Sync queued' : 'A sync is already queued for this connection');
         await loadConnections();
       } else {
         alert(`Sync failed: ${data.error}`);
@@ -0,0 +1,54 @@
+// API route for reversing a reconciliation match
+// DELETE /api/accounts/[id]/reconciliation/[matchId]?tenantId=xxx
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { unmatchReconciliation } from '@/lib/services/reconciliation-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function DELETE(req: NextRequest, { params }: { params: { id: string; matchId: string } }) {
+  const tenantId = new URL(req.url).searchParams.get('tenantId');
+
+  try {
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const supabaseClient = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabaseClient.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: membership } = await supabaseClient
+      .from('user_tenants')
+      .select('role')
+      .eq('user_id', user.id)
+      .eq('tenant_id', tenantId)
+      .single();
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const match = await unmatchReconciliation(tenantId, params.matchId, { userId: user.id, role: membership.role });
+
+    return NextResponse.json({
+      success: true,
+      match,
+    });
+  } catch (error) {
+    return handleApiError(error, {
+      endpoint: '/api/accounts/[id]/reconciliation/[matchId]',
+      method: 'DELETE',
+      tenantId: tenantId || undefined,
+    });
+  }
+}
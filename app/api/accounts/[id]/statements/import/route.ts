@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import Papa from 'papaparse';
 import { createClient } from '@/lib/supabase-server';
 import { supabase, upsertAccountStatement, convertAmountToUsd } from '@/lib/supabase';
+import { backfillForecastActuals } from '@/lib/services/forecast-service';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -171,6 +172,13 @@ export async function POST(
       }
     }
 
+    // New balances can close out past forecast points
+    if (results.imported > 0) {
+      await backfillForecastActuals(tenantId).catch((error) =>
+        console.error('Forecast actuals backfill failed:', error)
+      );
+    }
+
     return NextResponse.json({
       success: results.errors.length === 0,
       results,
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase, getAccountStatements, upsertAccountStatement, convertAmountToUsd } from '@/lib/supabase';
+import { backfillForecastActuals } from '@/lib/services/forecast-service';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -136,6 +137,11 @@ export async function POST(
       metadata,
     });
 
+    // New balances can close out past forecast points
+    await backfillForecastActuals(tenantId).catch((error) =>
+      console.error('Forecast actuals backfill failed:', error)
+    );
+
     return NextResponse.json({
       success: true,
       statement,
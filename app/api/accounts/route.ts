@@ -199,6 +199,9 @@ export async function PATCH(req: NextRequest) {
     if ('entity_id' in updates && updates.entity_id === '') {
       updates.entity_id = null;
     }
+    if ('financial_institution_id' in updates && updates.financial_institution_id === '') {
+      updates.financial_institution_id = null;
+    }
 
     // Update using account_id field
     const { data, error } = await supabase
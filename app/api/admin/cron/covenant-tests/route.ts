@@ -0,0 +1,57 @@
+// Vercel Cron - Monthly Covenant Tests
+// Tests every covenant due at the month end just closed, for every tenant.
+// Runs a few days into the month so late month-end statements are in. New breaches
+// and near breaches are logged as alerts.
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase';
+import { evaluateCovenants } from '@/lib/services/covenant-service';
+
+export const maxDuration = 300; // 5 minutes max
+
+export async function GET(req: NextRequest) {
+  try {
+    // Verify this is a cron request
+    const authHeader = req.headers.get('authorization');
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const periodEnd = new Date();
+    periodEnd.setUTCDate(0);
+    const periodEndDate = periodEnd.toISOString().split('T')[0];
+
+    console.log(`📐 Testing covenants due at ${periodEndDate} for all tenants...`);
+
+    const { data: tenants, error } = await supabase
+      .from('covenants')
+      .select('tenant_id')
+      .eq('is_active', true);
+    if (error) throw error;
+
+    const results = [];
+    for (const tenantId of new Set((tenants || []).map((row) => row.tenant_id))) {
+      try {
+        const run = await evaluateCovenants(tenantId, { periodEnd: periodEndDate, dueOnly: true }, null);
+        results.push({ tenant_id: tenantId, status: 'success', tested: run.tests.length, alerts: run.alerts });
+      } catch (tenantError) {
+        console.error(`Error testing covenants for tenant ${tenantId}:`, tenantError);
+        results.push({ tenant_id: tenantId, status: 'failed' });
+      }
+    }
+
+    console.log(`✅ Covenant tests completed. ${results.length} tenants processed`);
+
+    return NextResponse.json({
+      success: true,
+      period_end: periodEndDate,
+      processed: results.length,
+      results,
+    });
+  } catch (error) {
+    console.error('Covenant cron job error:', error);
+    return NextResponse.json(
+      { error: 'Cron job failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,12 +1,9 @@
 // Vercel Cron - Daily Bank Account Refresh for All Tenants
-// Syncs all banking provider connections scheduled for daily refresh
+// Queues a sync for all banking provider connections scheduled for daily
+// refresh; the sync worker runs them
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '@/lib/supabase';
-import {
-  getConnectionsReadyForSync,
-  triggerImmediateSync,
-  recordSyncResult,
-} from '@/lib/services/orchestration-service';
+import { enqueueScheduledSyncs } from '@/lib/services/sync-queue-service';
 
 export const maxDuration = 300; // 5 minutes max
 
@@ -20,49 +17,8 @@ export async function GET(req: NextRequest) {
 
     console.log('🔄 Starting daily bank account refresh for all tenants...');
 
-    // Get all connections scheduled for daily sync that are enabled
-    const connections = await getConnectionsReadyForSync('daily');
-    console.log(`Found ${connections.length} connections scheduled for daily refresh`);
-
-    const results = [];
-    const errors: string[] = [];
-
-    // Process up to 50 connections per run (to avoid timeout)
-    for (const conn of connections.slice(0, 50)) {
-      try {
-        console.log(`Syncing connection: ${conn.name} (${conn.provider})`);
-        
-        const result = await triggerImmediateSync(
-          conn.connection_id,
-          conn.provider,
-          conn.tenant_id
-        );
-        
-        await recordSyncResult(conn.connection_id, result);
-        
-        results.push({
-          connection_id: conn.connection_id,
-          connection_name: conn.name,
-          tenant_id: conn.tenant_id,
-          provider: conn.provider,
-          status: result.status,
-          records_synced: result.records_synced || 0,
-        });
-      } catch (error) {
-        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-        console.error(`Error syncing ${conn.connection_id}:`, errorMsg);
-        errors.push(`${conn.name}: ${errorMsg}`);
-        
-        results.push({
-          connection_id: conn.connection_id,
-          connection_name: conn.name,
-          tenant_id: conn.tenant_id,
-          provider: conn.provider,
-          status: 'failed',
-          error: errorMsg,
-        });
-      }
-    }
+    // Queue every connection scheduled for daily sync that is enabled
+    const queued = await enqueueScheduledSyncs('daily');
 
     // Update health scores for all connections
     console.log('🏥 Updating connection health scores...');
@@ -80,25 +36,12 @@ export async function GET(req: NextRequest) {
       console.log(`Updated health scores for ${allConnections.length} connections`);
     }
 
-    const successful = results.filter((r) => r.status === 'success').length;
-    const failed = results.filter((r) => r.status === 'failed').length;
-    const totalRecordsSynced = results.reduce((sum, r) => sum + (r.records_synced || 0), 0);
-
-    console.log(`✅ Daily bank refresh completed:`);
-    console.log(`   - ${successful} successful, ${failed} failed`);
-    console.log(`   - ${totalRecordsSynced} total records synced`);
+    console.log(`✅ Daily bank refresh queued:`);
+    console.log(`   - ${queued.enqueued} new, ${queued.already_queued} already queued`);
 
     return NextResponse.json({
       success: true,
-      summary: {
-        total_connections: connections.length,
-        processed: results.length,
-        successful,
-        failed,
-        total_records_synced: totalRecordsSynced,
-      },
-      results,
-      errors: errors.length > 0 ? errors : undefined,
+      summary: queued,
     });
   } catch (error) {
     console.error('Daily bank refresh cron error:', error);
@@ -0,0 +1,47 @@
+// Vercel Cron - Weekly Rolling Forecast Refresh
+// Regenerates the 13-week cash forecast and backfills actuals for every tenant
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase';
+import { generateRollingForecast } from '@/lib/services/forecast-service';
+
+export const maxDuration = 300; // 5 minutes max
+
+export async function GET(req: NextRequest) {
+  try {
+    // Verify this is a cron request
+    const authHeader = req.headers.get('authorization');
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.log('📈 Starting rolling forecast refresh for all tenants...');
+
+    const { data: tenants, error } = await supabase.from('tenants').select('id');
+    if (error) throw error;
+
+    const results = [];
+    for (const tenant of tenants || []) {
+      try {
+        const result = await generateRollingForecast(tenant.id);
+        results.push({ tenant_id: tenant.id, status: 'success', ...result });
+      } catch (tenantError) {
+        console.error(`Error generating forecast for tenant ${tenant.id}:`, tenantError);
+        results.push({ tenant_id: tenant.id, status: 'failed' });
+      }
+    }
+
+    console.log(`✅ Forecast refresh completed. ${results.length} tenants processed`);
+
+    return NextResponse.json({
+      success: true,
+      processed: results.length,
+      results,
+    });
+  } catch (error) {
+    console.error('Forecast cron job error:', error);
+    return NextResponse.json(
+      { error: 'Cron job failed' },
+      { status: 500 }
+    );
+  }
+}
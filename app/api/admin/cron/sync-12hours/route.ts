@@ -1,12 +1,9 @@
 // Vercel Cron - Sync Connections on 12-Hour Schedule
+// Queues a sync job for every connection due; the sync worker runs them
 import { NextRequest, NextResponse } from 'next/server';
-import {
-  getConnectionsReadyForSync,
-  triggerImmediateSync,
-  recordSyncResult,
-} from '@/lib/services/orchestration-service';
+import { enqueueScheduledSyncs } from '@/lib/services/sync-queue-service';
 
-export const maxDuration = 300; // 5 minutes max
+export const maxDuration = 60;
 
 export async function GET(req: NextRequest) {
   try {
@@ -16,42 +13,15 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    console.log('🔄 Starting 12-hour sync cron job...');
+    console.log('🔄 Queueing 12-hour syncs...');
 
-    const connections = await getConnectionsReadyForSync('12hours');
-    console.log(`Found ${connections.length} connections to sync`);
+    const result = await enqueueScheduledSyncs('12hours');
 
-    const results = [];
-
-    for (const conn of connections.slice(0, 20)) {
-      try {
-        const result = await triggerImmediateSync(
-          conn.connection_id,
-          conn.provider,
-          conn.tenant_id
-        );
-
-        await recordSyncResult(conn.connection_id, result);
-
-        results.push({
-          connection_id: conn.connection_id,
-          status: result.status,
-        });
-      } catch (error) {
-        console.error(`Error syncing ${conn.connection_id}:`, error);
-        results.push({
-          connection_id: conn.connection_id,
-          status: 'failed',
-        });
-      }
-    }
-
-    console.log(`✅ 12-hour sync completed. ${results.length} connections processed`);
+    console.log(`✅ 12-hour syncs queued: ${result.enqueued} new, ${result.already_queued} already queued`);
 
     return NextResponse.json({
       success: true,
-      processed: results.length,
-      results,
+      ...result,
     });
   } catch (error) {
     console.error('Cron job error:', error);
@@ -61,4 +31,3 @@ export async function GET(req: NextRequest) {
     );
   }
 }
-
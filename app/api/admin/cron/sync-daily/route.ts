@@ -1,11 +1,7 @@
 // Vercel Cron - Daily Sync and Health Check
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '@/lib/supabase';
-import {
-  getConnectionsReadyForSync,
-  triggerImmediateSync,
-  recordSyncResult,
-} from '@/lib/services/orchestration-service';
+import { enqueueScheduledSyncs } from '@/lib/services/sync-queue-service';
 
 export const maxDuration = 300; // 5 minutes max
 
@@ -19,27 +15,9 @@ export async function GET(req: NextRequest) {
 
     console.log('🔄 Starting daily sync and maintenance job...');
 
-    // PART 1: Sync connections scheduled for daily
-    const connections = await getConnectionsReadyForSync('daily');
-    console.log(`Found ${connections.length} connections to sync`);
-
-    const results = [];
-    for (const conn of connections.slice(0, 50)) {
-      try {
-        const result = await triggerImmediateSync(
-          conn.connection_id,
-          conn.provider,
-          conn.tenant_id
-        );
-        await recordSyncResult(conn.connection_id, result);
-        results.push({ connection_id: conn.connection_id, status: result.status });
-      } catch (error) {
-        console.error(`Error syncing ${conn.connection_id}:`, error);
-        results.push({ connection_id: conn.connection_id, status: 'failed' });
-      }
-    }
-
-    console.log(`✅ Daily sync completed. ${results.length} connections processed`);
+    // PART 1: Queue connections scheduled for daily; the sync worker runs them
+    const queued = await enqueueScheduledSyncs('daily');
+    console.log(`✅ Daily syncs queued: ${queued.enqueued} new, ${queued.already_queued} already queued`);
 
     // PART 2: Health check and maintenance
     console.log('🏥 Starting health check...');
@@ -92,10 +70,7 @@ export async function GET(req: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      sync: {
-        processed: results.length,
-        results,
-      },
+      sync: queued,
       health: {
         avg_health: avgHealth,
         connections_checked: allConnections?.length || 0,
@@ -1,13 +1,9 @@
 // Vercel Cron - Sync Connections on Hourly Schedule
+// Queues a sync job for every connection due; the sync worker runs them
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
-import {
-  getConnectionsReadyForSync,
-  triggerImmediateSync,
-  recordSyncResult,
-} from '@/lib/services/orchestration-service';
+import { enqueueScheduledSyncs } from '@/lib/services/sync-queue-service';
 
-export const maxDuration = 300; // 5 minutes max
+export const maxDuration = 60;
 
 export async function GET(req: NextRequest) {
   try {
@@ -17,48 +13,15 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    console.log('🔄 Starting hourly sync cron job...');
+    console.log('🔄 Queueing hourly syncs...');
 
-    // Get connections ready for hourly sync
-    const connections = await getConnectionsReadyForSync('hourly');
+    const result = await enqueueScheduledSyncs('hourly');
 
-    console.log(`Found ${connections.length} connections to sync`);
-
-    const results = [];
-
-    // Process connections in batches to avoid timeout
-    for (const conn of connections.slice(0, 20)) {
-      // Limit to 20 per run
-      try {
-        console.log(`Syncing connection: ${conn.name}`);
-        const result = await triggerImmediateSync(
-          conn.connection_id,
-          conn.provider,
-          conn.tenant_id
-        );
-
-        await recordSyncResult(conn.connection_id, result);
-
-        results.push({
-          connection_id: conn.connection_id,
-          status: result.status,
-        });
-      } catch (error) {
-        console.error(`Error syncing ${conn.connection_id}:`, error);
-        results.push({
-          connection_id: conn.connection_id,
-          status: 'failed',
-          error: error instanceof Error ? error.message : 'Unknown error',
-        });
-      }
-    }
-
-    console.log(`✅ Hourly sync completed. ${results.length} connections processed`);
+    console.log(`✅ Hourly syncs queued: ${result.enqueued} new, ${result.already_queued} already queued`);
 
     return NextResponse.json({
       success: true,
-      processed: results.length,
-      results,
+      ...result,
     });
   } catch (error) {
     console.error('Cron job error:', error);
@@ -68,4 +31,3 @@ export async function GET(req: NextRequest) {
     );
   }
 }
-
@@ -0,0 +1,42 @@
+// Vercel Cron - Sync Worker
+// Drains the sync job queue: reclaims jobs whose worker died, leases due jobs
+// within each provider's concurrency limit and runs them through the sync
+// orchestrator. Stops leasing well before the time limit so running syncs can
+// finish; anything cut off is picked up by the next run once its lease expires.
+import { NextRequest, NextResponse } from 'next/server';
+import { drainSyncQueue } from '@/lib/services/sync-queue-service';
+
+export const maxDuration = 300; // 5 minutes max
+
+// Leave the rest of maxDuration for syncs leased near the end
+const LEASE_BUDGET_MS = 180_000;
+
+export async function GET(req: NextRequest) {
+  try {
+    // Verify this is a cron request
+    const authHeader = req.headers.get('authorization');
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.log('🔄 Draining sync job queue...');
+
+    const result = await drainSyncQueue({ budgetMs: LEASE_BUDGET_MS });
+
+    console.log(
+      `✅ Sync worker ${result.worker_id} finished: ${result.succeeded} succeeded, ` +
+        `${result.retried} retrying, ${result.dead} dead, ${result.reclaimed} reclaimed`
+    );
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    console.error('Sync worker error:', error);
+    return NextResponse.json(
+      { error: 'Cron job failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+// Admin API - Normalization Replay
+// Re-normalizes stored raw provider transactions for a connection or provider,
+// optionally within a date range, without calling the provider. A dry run
+// reports the field-level changes without writing them.
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { listNormalizationReplays, replayNormalization } from '@/lib/services/normalization-replay-service';
+import { logAdminAction } from '@/lib/services/admin-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300; // 5 minutes max
+
+async function getSuperAdmin() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  // Check if user is super admin
+  if (user.user_metadata?.is_super_admin !== true) {
+    return { error: NextResponse.json({ error: 'Admin access required' }, { status: 403 }) };
+  }
+
+  return { user };
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const { error } = await getSuperAdmin();
+    if (error) return error;
+
+    const limit = Math.min(parseInt(req.nextUrl.searchParams.get('limit') || '20'), 100);
+    const replays = await listNormalizationReplays(limit);
+
+    return NextResponse.json({ success: true, replays });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/admin/normalization/replay', method: 'GET' });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  let userId: string | undefined;
+
+  try {
+    const { user, error } = await getSuperAdmin();
+    if (error) return error;
+    userId = user.id;
+
+    const body = await req.json();
+    const { connectionId, provider, startDate, endDate, dryRun } = body;
+
+    const replay = await replayNormalization(
+      { connectionId, provider, startDate, endDate },
+      { dryRun: dryRun === true, source: 'api', userId: user.id }
+    );
+
+    await logAdminAction(
+      'replay_normalization',
+      connectionId ? 'connection' : 'provider',
+      connectionId || provider,
+      {
+        replay_id: replay.id,
+        start_date: startDate,
+        end_date: endDate,
+        dry_run: replay.dry_run,
+        transactions_updated: replay.transactions_updated,
+        transactions_created: replay.transactions_created,
+      }
+    );
+
+    return NextResponse.json({ success: true, replay });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/admin/normalization/replay', method: 'POST', userId });
+  }
+}
@@ -1,7 +1,8 @@
 // Admin API - Orchestration - Trigger Immediate Sync
+// Queues the sync ahead of scheduled jobs; the sync worker runs it
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase-server';
-import { triggerImmediateSync } from '@/lib/services/orchestration-service';
+import { enqueueSyncJob } from '@/lib/services/sync-queue-service';
 import { logAdminAction } from '@/lib/services/admin-service';
 
 export async function POST(req: NextRequest) {
@@ -36,18 +37,25 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Trigger sync
-    const result = await triggerImmediateSync(connectionId, provider, tenantId);
+    // Queue sync ahead of scheduled jobs
+    const { job, created } = await enqueueSyncJob({
+      tenantId,
+      connectionId,
+      provider,
+      source: 'manual',
+      priority: 100,
+      createdBy: user.id,
+    });
 
     // Log admin action
     await logAdminAction(
       'trigger_sync',
       'connection',
       connectionId,
-      { provider, result }
+      { provider, job_id: job.id, already_queued: !created }
     );
 
-    return NextResponse.json({ success: true, result });
+    return NextResponse.json({ success: true, job, created });
   } catch (error) {
     console.error('Error triggering sync:', error);
     return NextResponse.json(
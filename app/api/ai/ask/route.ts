@@ -0,0 +1,58 @@
+// API route for natural-language treasury questions
+// POST /api/ai/ask - { tenantId, question }
+// Returns the answer, the validated query plan, the underlying rows and a chart spec
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { askTreasuryQuestion } from '@/lib/services/treasury-query-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(req: NextRequest) {
+  let tenantId: string | undefined;
+
+  try {
+    const body = await req.json();
+    tenantId = body.tenantId;
+
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    if (!body.question || typeof body.question !== 'string') {
+      return NextResponse.json({ error: 'Question is required' }, { status: 400 });
+    }
+
+    const supabaseClient = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabaseClient.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: membership } = await supabaseClient
+      .from('user_tenants')
+      .select('role')
+      .eq('user_id', user.id)
+      .eq('tenant_id', tenantId)
+      .single();
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const answer = await askTreasuryQuestion(tenantId, body.question);
+
+    return NextResponse.json({
+      success: true,
+      answer,
+    });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/ai/ask', method: 'POST', tenantId });
+  }
+}
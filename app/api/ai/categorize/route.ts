@@ -0,0 +1,64 @@
+// API route for AI-assisted categorization runs
+// POST /api/ai/categorize - { tenantId, limit?, accountId?, startDate?, endDate? }
+// High-confidence suggestions are applied; the rest are queued for review
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { runAiCategorization } from '@/lib/services/ai-categorization-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+export async function POST(req: NextRequest) {
+  let tenantId: string | undefined;
+
+  try {
+    const body = await req.json();
+    tenantId = body.tenantId;
+
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const supabaseClient = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabaseClient.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: membership } = await supabaseClient
+      .from('user_tenants')
+      .select('role')
+      .eq('user_id', user.id)
+      .eq('tenant_id', tenantId)
+      .single();
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const result = await runAiCategorization(
+      tenantId,
+      {
+        limit: body.limit || undefined,
+        accountId: body.accountId || undefined,
+        startDate: body.startDate || undefined,
+        endDate: body.endDate || undefined,
+      },
+      { userId: user.id, role: membership.role }
+    );
+
+    return NextResponse.json({
+      success: true,
+      result,
+    });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/ai/categorize', method: 'POST', tenantId });
+  }
+}
@@ -0,0 +1,68 @@
+// API route for reviewing a queued AI categorization suggestion
+// POST /api/ai/categorize/suggestions/[suggestionId] - { tenantId, decision, categoryCode?, counterpartyName?, createRule? }
+// Accepting applies the category to every pending transaction with the same description
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { reviewSuggestion } from '@/lib/services/ai-categorization-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(req: NextRequest, { params }: { params: { suggestionId: string } }) {
+  let tenantId: string | undefined;
+
+  try {
+    const body = await req.json();
+    tenantId = body.tenantId;
+
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const supabaseClient = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabaseClient.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: membership } = await supabaseClient
+      .from('user_tenants')
+      .select('role')
+      .eq('user_id', user.id)
+      .eq('tenant_id', tenantId)
+      .single();
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const review = await reviewSuggestion(
+      tenantId,
+      params.suggestionId,
+      {
+        decision: body.decision,
+        categoryCode: body.categoryCode || undefined,
+        counterpartyName: body.counterpartyName,
+        createRule: body.createRule === true,
+      },
+      { userId: user.id, role: membership.role }
+    );
+
+    return NextResponse.json({
+      success: true,
+      ...review,
+    });
+  } catch (error) {
+    return handleApiError(error, {
+      endpoint: '/api/ai/categorize/suggestions/[suggestionId]',
+      method: 'POST',
+      tenantId,
+    });
+  }
+}
@@ -0,0 +1,63 @@
+// API route for the AI categorization review queue
+// GET /api/ai/categorize/suggestions?tenantId=xxx&status=pending
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { listSuggestions } from '@/lib/services/ai-categorization-service';
+import type { AiSuggestionStatus } from '@/lib/types/categorization';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const STATUSES: AiSuggestionStatus[] = ['pending', 'applied', 'accepted', 'rejected'];
+
+export async function GET(req: NextRequest) {
+  const searchParams = new URL(req.url).searchParams;
+  const tenantId = searchParams.get('tenantId');
+
+  try {
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const status = (searchParams.get('status') || 'pending') as AiSuggestionStatus;
+    if (!STATUSES.includes(status)) {
+      return NextResponse.json({ error: `Status must be one of ${STATUSES.join(', ')}` }, { status: 400 });
+    }
+
+    const supabaseClient = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabaseClient.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: membership } = await supabaseClient
+      .from('user_tenants')
+      .select('role')
+      .eq('user_id', user.id)
+      .eq('tenant_id', tenantId)
+      .single();
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const suggestions = await listSuggestions(tenantId, status);
+
+    return NextResponse.json({
+      success: true,
+      suggestions,
+    });
+  } catch (error) {
+    return handleApiError(error, {
+      endpoint: '/api/ai/categorize/suggestions',
+      method: 'GET',
+      tenantId: tenantId || undefined,
+    });
+  }
+}
@@ -0,0 +1,83 @@
+// API route for consolidated daily cash from reconstructed account balances
+// GET /api/balances/daily?tenantId=xxx&startDate=2025-06-01&endDate=2025-06-30&groupBy=entity|currency|bank&rateType=SPOT
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { getConsolidatedCash } from '@/lib/services/balance-reconstruction-service';
+import { REPORTING_RATE_TYPES } from '@/lib/fx/reporting';
+import type { RateType } from '@/lib/currency';
+import type { CashSeriesGrouping } from '@/lib/types/balances';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const GROUPINGS: CashSeriesGrouping[] = ['entity', 'currency', 'bank'];
+
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const tenantId = searchParams.get('tenantId');
+
+  try {
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const supabaseClient = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabaseClient.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: membership } = await supabaseClient
+      .from('user_tenants')
+      .select('role')
+      .eq('user_id', user.id)
+      .eq('tenant_id', tenantId)
+      .single();
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const startDate = searchParams.get('startDate');
+    const endDate = searchParams.get('endDate');
+    if ((startDate && !DATE_PATTERN.test(startDate)) || (endDate && !DATE_PATTERN.test(endDate))) {
+      return NextResponse.json({ error: 'startDate and endDate must be YYYY-MM-DD' }, { status: 400 });
+    }
+
+    const groupBy = (searchParams.get('groupBy') || 'entity') as CashSeriesGrouping;
+    if (!GROUPINGS.includes(groupBy)) {
+      return NextResponse.json({ error: 'groupBy must be entity, currency or bank' }, { status: 400 });
+    }
+
+    const rateType = (searchParams.get('rateType') || 'SPOT').toUpperCase() as RateType;
+    if (!REPORTING_RATE_TYPES.includes(rateType)) {
+      return NextResponse.json({ error: 'rateType must be SPOT, EOM or AVG' }, { status: 400 });
+    }
+
+    const cash = await getConsolidatedCash(tenantId, user.id, {
+      startDate: startDate || undefined,
+      endDate: endDate || undefined,
+      accountIds: searchParams.get('accountIds')?.split(',').filter(Boolean),
+      groupBy,
+      rateType,
+    });
+
+    return NextResponse.json({
+      success: true,
+      cash,
+    });
+  } catch (error) {
+    return handleApiError(error, {
+      endpoint: '/api/balances/daily',
+      method: 'GET',
+      tenantId: tenantId || undefined,
+    });
+  }
+}
@@ -0,0 +1,68 @@
+// API route to save reconstructed daily balances to account_statements
+// POST /api/balances/reconstruct - { tenantId, startDate?, endDate?, accountIds? }
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { saveReconstructedBalances } from '@/lib/services/balance-reconstruction-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function POST(req: NextRequest) {
+  let tenantId: string | undefined;
+
+  try {
+    const body = await req.json();
+    tenantId = body.tenantId;
+
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const supabaseClient = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabaseClient.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: membership } = await supabaseClient
+      .from('user_tenants')
+      .select('role')
+      .eq('user_id', user.id)
+      .eq('tenant_id', tenantId)
+      .single();
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const { startDate, endDate, accountIds } = body;
+    if ((startDate && !DATE_PATTERN.test(startDate)) || (endDate && !DATE_PATTERN.test(endDate))) {
+      return NextResponse.json({ error: 'startDate and endDate must be YYYY-MM-DD' }, { status: 400 });
+    }
+
+    const result = await saveReconstructedBalances(
+      tenantId,
+      { startDate, endDate, accountIds: Array.isArray(accountIds) ? accountIds : undefined },
+      { userId: user.id, role: membership.role }
+    );
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    return handleApiError(error, {
+      endpoint: '/api/balances/reconstruct',
+      method: 'POST',
+      tenantId,
+    });
+  }
+}
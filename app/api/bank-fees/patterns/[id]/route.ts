@@ -0,0 +1,59 @@
+// API route for a single tenant bank fee pattern
+// DELETE /api/bank-fees/patterns/[id]?tenantId=xxx
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { deleteFeePattern } from '@/lib/services/bank-fee-service';
+import type { BankFeeActor } from '@/lib/types/bank-fees';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+async function getActor(tenantId: string): Promise<BankFeeActor | NextResponse> {
+  const supabaseClient = await createClient();
+  const {
+    data: { user },
+    error: authError,
+  } = await supabaseClient.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: membership } = await supabaseClient
+    .from('user_tenants')
+    .select('role')
+    .eq('user_id', user.id)
+    .eq('tenant_id', tenantId)
+    .single();
+
+  if (!membership) {
+    return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+  }
+
+  return { userId: user.id, role: membership.role };
+}
+
+export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
+  const tenantId = new URL(req.url).searchParams.get('tenantId');
+
+  try {
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    await deleteFeePattern(tenantId, params.id, actor);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error, {
+      endpoint: '/api/bank-fees/patterns/[id]',
+      method: 'DELETE',
+      tenantId: tenantId || undefined,
+    });
+  }
+}
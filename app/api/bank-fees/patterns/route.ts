@@ -0,0 +1,89 @@
+// API route for bank fee patterns
+// GET  /api/bank-fees/patterns?tenantId=xxx - curated and tenant patterns, with the institutions they can target
+// POST /api/bank-fees/patterns - add a tenant pattern
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { createFeePattern, listFeePatterns, listFinancialInstitutions } from '@/lib/services/bank-fee-service';
+import type { BankFeeActor } from '@/lib/types/bank-fees';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+async function getActor(tenantId: string): Promise<BankFeeActor | NextResponse> {
+  const supabaseClient = await createClient();
+  const {
+    data: { user },
+    error: authError,
+  } = await supabaseClient.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: membership } = await supabaseClient
+    .from('user_tenants')
+    .select('role')
+    .eq('user_id', user.id)
+    .eq('tenant_id', tenantId)
+    .single();
+
+  if (!membership) {
+    return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+  }
+
+  return { userId: user.id, role: membership.role };
+}
+
+export async function GET(req: NextRequest) {
+  const tenantId = new URL(req.url).searchParams.get('tenantId');
+
+  try {
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    const [patterns, institutions] = await Promise.all([listFeePatterns(tenantId), listFinancialInstitutions()]);
+
+    return NextResponse.json({
+      success: true,
+      patterns,
+      institutions,
+    });
+  } catch (error) {
+    return handleApiError(error, {
+      endpoint: '/api/bank-fees/patterns',
+      method: 'GET',
+      tenantId: tenantId || undefined,
+    });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  let tenantId: string | undefined;
+
+  try {
+    const { tenantId: bodyTenantId, ...input } = await req.json();
+    tenantId = bodyTenantId;
+
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    const pattern = await createFeePattern(tenantId, input, actor);
+
+    return NextResponse.json({
+      success: true,
+      pattern,
+    });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/bank-fees/patterns', method: 'POST', tenantId });
+  }
+}
@@ -0,0 +1,79 @@
+// API route for the bank fee report
+// GET /api/bank-fees?tenantId=xxx&startMonth=2025-01&endMonth=2025-06&entityId=&thresholdPct=20&minIncrease=0&rateType=SPOT
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { getBankFeeReport } from '@/lib/services/bank-fee-service';
+import { REPORTING_RATE_TYPES } from '@/lib/fx/reporting';
+import type { RateType } from '@/lib/currency';
+import type { BankFeeActor } from '@/lib/types/bank-fees';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+async function getActor(tenantId: string): Promise<BankFeeActor | NextResponse> {
+  const supabaseClient = await createClient();
+  const {
+    data: { user },
+    error: authError,
+  } = await supabaseClient.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: membership } = await supabaseClient
+    .from('user_tenants')
+    .select('role')
+    .eq('user_id', user.id)
+    .eq('tenant_id', tenantId)
+    .single();
+
+  if (!membership) {
+    return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+  }
+
+  return { userId: user.id, role: membership.role };
+}
+
+export async function GET(req: NextRequest) {
+  const searchParams = new URL(req.url).searchParams;
+  const tenantId = searchParams.get('tenantId');
+
+  try {
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    const rateType = (searchParams.get('rateType') || 'SPOT').toUpperCase() as RateType;
+    if (!REPORTING_RATE_TYPES.includes(rateType)) {
+      return NextResponse.json({ error: 'rateType must be SPOT, EOM or AVG' }, { status: 400 });
+    }
+
+    const thresholdPct = searchParams.get('thresholdPct');
+    const minIncrease = searchParams.get('minIncrease');
+    if ((thresholdPct && !(Number(thresholdPct) >= 0)) || (minIncrease && !(Number(minIncrease) >= 0))) {
+      return NextResponse.json({ error: 'thresholdPct and minIncrease must be non-negative numbers' }, { status: 400 });
+    }
+
+    const report = await getBankFeeReport(tenantId, actor.userId, {
+      startMonth: searchParams.get('startMonth') || undefined,
+      endMonth: searchParams.get('endMonth') || undefined,
+      entityId: searchParams.get('entityId') || undefined,
+      thresholdPct: thresholdPct ? Number(thresholdPct) : undefined,
+      minIncrease: minIncrease ? Number(minIncrease) : undefined,
+      rateType,
+    });
+
+    return NextResponse.json({
+      success: true,
+      report,
+    });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/bank-fees', method: 'GET', tenantId: tenantId || undefined });
+  }
+}
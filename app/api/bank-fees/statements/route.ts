@@ -0,0 +1,64 @@
+// API route to import an account analysis statement
+// POST /api/bank-fees/statements - { tenantId, accountId, lines: [{ period_month, service_code, fee_amount, ... }] }
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { importAnalysisStatement } from '@/lib/services/bank-fee-service';
+import type { BankFeeActor } from '@/lib/types/bank-fees';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+async function getActor(tenantId: string): Promise<BankFeeActor | NextResponse> {
+  const supabaseClient = await createClient();
+  const {
+    data: { user },
+    error: authError,
+  } = await supabaseClient.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: membership } = await supabaseClient
+    .from('user_tenants')
+    .select('role')
+    .eq('user_id', user.id)
+    .eq('tenant_id', tenantId)
+    .single();
+
+  if (!membership) {
+    return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+  }
+
+  return { userId: user.id, role: membership.role };
+}
+
+export async function POST(req: NextRequest) {
+  let tenantId: string | undefined;
+
+  try {
+    const body = await req.json();
+    tenantId = body.tenantId;
+
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+    if (!body.accountId || !Array.isArray(body.lines)) {
+      return NextResponse.json({ error: 'accountId and lines are required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    const result = await importAnalysisStatement(tenantId, body.accountId, body.lines, actor);
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/bank-fees/statements', method: 'POST', tenantId });
+  }
+}
@@ -61,6 +61,7 @@ export async function POST(
       transactionStartDate,
       transactionEndDate,
       accountIds, // Optional: specific accounts to sync
+      dryRun = false, // Preview: return what would change without saving it
     } = body;
 
     console.log(`🔑 SYNC PARAMS: connectionId=${connectionId}, tenantId=${tenantId}, syncAccounts=${syncAccounts}, syncTransactions=${syncTransactions}`);
@@ -147,6 +148,41 @@ export async function POST(
       tokens.expiresAt = newTokens.expiresAt;
     }
 
+    // Prepare credentials for orchestrator
+    const credentials = {
+      connectionId,
+      tenantId,
+      tokens,
+      // Include provider metadata (e.g., xeroTenantId for Xero)
+      metadata: tokenData.provider_metadata || {},
+    };
+
+    // Dry runs save nothing, so there's no ingestion job to track
+    if (dryRun) {
+      console.log(`🔍 SYNC DRY RUN: provider=${providerId}, connection=${connectionId}`);
+      const result = await orchestrateSync({
+        provider,
+        connectionId,
+        tenantId,
+        credentials,
+        syncAccounts,
+        syncTransactions,
+        userId: user.id,
+        accountIds,
+        startDate: transactionStartDate,
+        endDate: transactionEndDate,
+        dryRun: true,
+      });
+
+      return NextResponse.json({
+        success: result.success,
+        dryRun: true,
+        message: result.success ? 'Sync preview ready' : result.errors.join('; '),
+        diff: result.diff,
+        summary: result,
+      });
+    }
+
     // Create ingestion job for tracking
     const ingestionJob = await createIngestionJob({
       tenant_id: tenantId,
@@ -156,15 +192,6 @@ export async function POST(
     });
 
     try {
-      // Prepare credentials for orchestrator
-      const credentials = {
-        connectionId,
-        tenantId,
-        tokens,
-        // Include provider metadata (e.g., xeroTenantId for Xero)
-        metadata: tokenData.provider_metadata || {},
-      };
-
       // ==========================================
       // SINGLE LINE: Universal sync for ALL providers
       // ==========================================
@@ -0,0 +1,29 @@
+// Provider webhook receiver
+// POST /api/banking/[provider]/webhook - Plaid, Tink and any provider with a registered webhook handler
+// Events are verified against the provider's signature, stored once and routed
+// to a targeted sync or connection status change. Xero has its own route.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { ingestWebhook } from '@/lib/services/webhook-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(req: NextRequest, { params }: { params: { provider: string } }) {
+  try {
+    // Signatures cover the exact bytes sent, so read the body before parsing it
+    const rawBody = await req.text();
+    const result = await ingestWebhook(params.provider, rawBody, req.headers);
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    return handleApiError(error, {
+      endpoint: `/api/banking/${params.provider}/webhook`,
+      method: 'POST',
+    });
+  }
+}
@@ -0,0 +1,108 @@
+// API route for a single cash pool
+// GET    /api/cash-pools/[id]?tenantId=xxx
+// PATCH  /api/cash-pools/[id] - update settings; participants are replaced when given
+// DELETE /api/cash-pools/[id]?tenantId=xxx
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { deleteCashPool, getCashPool, updateCashPool } from '@/lib/services/cash-pool-service';
+import type { CashPoolActor } from '@/lib/types/cash-pool';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+async function getActor(tenantId: string): Promise<CashPoolActor | NextResponse> {
+  const supabaseClient = await createClient();
+  const {
+    data: { user },
+    error: authError,
+  } = await supabaseClient.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: membership } = await supabaseClient
+    .from('user_tenants')
+    .select('role')
+    .eq('user_id', user.id)
+    .eq('tenant_id', tenantId)
+    .single();
+
+  if (!membership) {
+    return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+  }
+
+  return { userId: user.id, role: membership.role };
+}
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  const tenantId = new URL(req.url).searchParams.get('tenantId');
+
+  try {
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    const pool = await getCashPool(tenantId, params.id);
+
+    return NextResponse.json({
+      success: true,
+      pool,
+    });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/cash-pools/[id]', method: 'GET', tenantId: tenantId || undefined });
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: { params: { id: string } }) {
+  let tenantId: string | undefined;
+
+  try {
+    const { tenantId: bodyTenantId, ...updates } = await req.json();
+    tenantId = bodyTenantId;
+
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    const pool = await updateCashPool(tenantId, params.id, updates, actor);
+
+    return NextResponse.json({
+      success: true,
+      pool,
+    });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/cash-pools/[id]', method: 'PATCH', tenantId });
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
+  const tenantId = new URL(req.url).searchParams.get('tenantId');
+
+  try {
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    await deleteCashPool(tenantId, params.id, actor);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error, {
+      endpoint: '/api/cash-pools/[id]',
+      method: 'DELETE',
+      tenantId: tenantId || undefined,
+    });
+  }
+}
@@ -0,0 +1,71 @@
+// API route to simulate a cash pool over historical daily balances
+// GET /api/cash-pools/[id]/simulate?tenantId=xxx&startDate=YYYY-MM-DD&endDate=YYYY-MM-DD
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { simulatePool } from '@/lib/services/cash-pool-service';
+import type { CashPoolActor } from '@/lib/types/cash-pool';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+async function getActor(tenantId: string): Promise<CashPoolActor | NextResponse> {
+  const supabaseClient = await createClient();
+  const {
+    data: { user },
+    error: authError,
+  } = await supabaseClient.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: membership } = await supabaseClient
+    .from('user_tenants')
+    .select('role')
+    .eq('user_id', user.id)
+    .eq('tenant_id', tenantId)
+    .single();
+
+  if (!membership) {
+    return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+  }
+
+  return { userId: user.id, role: membership.role };
+}
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  const searchParams = new URL(req.url).searchParams;
+  const tenantId = searchParams.get('tenantId');
+
+  try {
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    const startDate = searchParams.get('startDate') || undefined;
+    const endDate = searchParams.get('endDate') || undefined;
+    if ((startDate && !DATE_PATTERN.test(startDate)) || (endDate && !DATE_PATTERN.test(endDate))) {
+      return NextResponse.json({ error: 'startDate and endDate must be YYYY-MM-DD' }, { status: 400 });
+    }
+
+    const simulation = await simulatePool(tenantId, params.id, { startDate, endDate });
+
+    return NextResponse.json({
+      success: true,
+      simulation,
+    });
+  } catch (error) {
+    return handleApiError(error, {
+      endpoint: '/api/cash-pools/[id]/simulate',
+      method: 'GET',
+      tenantId: tenantId || undefined,
+    });
+  }
+}
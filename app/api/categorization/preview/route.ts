@@ -0,0 +1,61 @@
+// API route for dry-running categorization rules against historical transactions
+// POST /api/categorization/preview - { tenantId, rule?, startDate?, endDate?, accountId? }
+// Nothing is written; the response lists what would change
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { previewRules } from '@/lib/services/categorization-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(req: NextRequest) {
+  let tenantId: string | undefined;
+
+  try {
+    const body = await req.json();
+    tenantId = body.tenantId;
+
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const supabaseClient = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabaseClient.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: membership } = await supabaseClient
+      .from('user_tenants')
+      .select('role')
+      .eq('user_id', user.id)
+      .eq('tenant_id', tenantId)
+      .single();
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const preview = await previewRules(tenantId, {
+      draft: body.rule || undefined,
+      scope: {
+        startDate: body.startDate || undefined,
+        endDate: body.endDate || undefined,
+        accountId: body.accountId || undefined,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      preview,
+    });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/categorization/preview', method: 'POST', tenantId });
+  }
+}
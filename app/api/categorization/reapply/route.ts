@@ -0,0 +1,92 @@
+// API route for bulk re-applying categorization rules
+// GET  /api/categorization/reapply?tenantId=xxx - recent runs
+// POST /api/categorization/reapply - { tenantId, startDate?, endDate?, accountId? }
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { listRuleRuns, reapplyRules, type RuleActor } from '@/lib/services/categorization-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+async function getActor(tenantId: string): Promise<RuleActor | NextResponse> {
+  const supabaseClient = await createClient();
+  const {
+    data: { user },
+    error: authError,
+  } = await supabaseClient.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: membership } = await supabaseClient
+    .from('user_tenants')
+    .select('role')
+    .eq('user_id', user.id)
+    .eq('tenant_id', tenantId)
+    .single();
+
+  if (!membership) {
+    return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+  }
+
+  return { userId: user.id, role: membership.role };
+}
+
+export async function GET(req: NextRequest) {
+  const tenantId = new URL(req.url).searchParams.get('tenantId');
+
+  try {
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    const runs = await listRuleRuns(tenantId);
+
+    return NextResponse.json({
+      success: true,
+      runs,
+    });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/categorization/reapply', method: 'GET', tenantId: tenantId || undefined });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  let tenantId: string | undefined;
+
+  try {
+    const body = await req.json();
+    tenantId = body.tenantId;
+
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    const run = await reapplyRules(
+      tenantId,
+      {
+        startDate: body.startDate || undefined,
+        endDate: body.endDate || undefined,
+        accountId: body.accountId || undefined,
+      },
+      actor
+    );
+
+    return NextResponse.json({
+      success: true,
+      run,
+    });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/categorization/reapply', method: 'POST', tenantId });
+  }
+}
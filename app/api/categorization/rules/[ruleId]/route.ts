@@ -0,0 +1,84 @@
+// API route for a single categorization rule
+// PATCH  /api/categorization/rules/[ruleId] - update conditions, assignments or priority
+// DELETE /api/categorization/rules/[ruleId]?tenantId=xxx
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { deleteRule, updateRule, type RuleActor } from '@/lib/services/categorization-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+async function getActor(tenantId: string): Promise<RuleActor | NextResponse> {
+  const supabaseClient = await createClient();
+  const {
+    data: { user },
+    error: authError,
+  } = await supabaseClient.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: membership } = await supabaseClient
+    .from('user_tenants')
+    .select('role')
+    .eq('user_id', user.id)
+    .eq('tenant_id', tenantId)
+    .single();
+
+  if (!membership) {
+    return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+  }
+
+  return { userId: user.id, role: membership.role };
+}
+
+export async function PATCH(req: NextRequest, { params }: { params: { ruleId: string } }) {
+  let tenantId: string | undefined;
+
+  try {
+    const { tenantId: bodyTenantId, ...updates } = await req.json();
+    tenantId = bodyTenantId;
+
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    const rule = await updateRule(tenantId, params.ruleId, updates, actor);
+
+    return NextResponse.json({
+      success: true,
+      rule,
+    });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/categorization/rules/[ruleId]', method: 'PATCH', tenantId });
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: { params: { ruleId: string } }) {
+  const tenantId = new URL(req.url).searchParams.get('tenantId');
+
+  try {
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    await deleteRule(tenantId, params.ruleId, actor);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error, {
+      endpoint: '/api/categorization/rules/[ruleId]',
+      method: 'DELETE',
+      tenantId: tenantId || undefined,
+    });
+  }
+}
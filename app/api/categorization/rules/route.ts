@@ -0,0 +1,83 @@
+// API route for tenant categorization rules
+// GET  /api/categorization/rules?tenantId=xxx - rules in priority order
+// POST /api/categorization/rules - create a rule
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { createRule, listRules, type RuleActor } from '@/lib/services/categorization-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+async function getActor(tenantId: string): Promise<RuleActor | NextResponse> {
+  const supabaseClient = await createClient();
+  const {
+    data: { user },
+    error: authError,
+  } = await supabaseClient.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: membership } = await supabaseClient
+    .from('user_tenants')
+    .select('role')
+    .eq('user_id', user.id)
+    .eq('tenant_id', tenantId)
+    .single();
+
+  if (!membership) {
+    return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+  }
+
+  return { userId: user.id, role: membership.role };
+}
+
+export async function GET(req: NextRequest) {
+  const tenantId = new URL(req.url).searchParams.get('tenantId');
+
+  try {
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    const rules = await listRules(tenantId);
+
+    return NextResponse.json({
+      success: true,
+      rules,
+    });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/categorization/rules', method: 'GET', tenantId: tenantId || undefined });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  let tenantId: string | undefined;
+
+  try {
+    const { tenantId: bodyTenantId, ...input } = await req.json();
+    tenantId = bodyTenantId;
+
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    const rule = await createRule(tenantId, input, actor);
+
+    return NextResponse.json({
+      success: true,
+      rule,
+    });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/categorization/rules', method: 'POST', tenantId });
+  }
+}
@@ -0,0 +1,112 @@
+// API route for a single covenant
+// GET    /api/covenants/[id]?tenantId=xxx - covenant and its test history
+// PATCH  /api/covenants/[id]
+// DELETE /api/covenants/[id]?tenantId=xxx
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { deleteCovenant, getCovenant, listCovenantTests, updateCovenant } from '@/lib/services/covenant-service';
+import type { FacilityActor } from '@/lib/types/facility';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+async function getActor(tenantId: string): Promise<FacilityActor | NextResponse> {
+  const supabaseClient = await createClient();
+  const {
+    data: { user },
+    error: authError,
+  } = await supabaseClient.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: membership } = await supabaseClient
+    .from('user_tenants')
+    .select('role')
+    .eq('user_id', user.id)
+    .eq('tenant_id', tenantId)
+    .single();
+
+  if (!membership) {
+    return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+  }
+
+  return { userId: user.id, role: membership.role };
+}
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  const tenantId = new URL(req.url).searchParams.get('tenantId');
+
+  try {
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    const [covenant, tests] = await Promise.all([
+      getCovenant(tenantId, params.id),
+      listCovenantTests(tenantId, params.id),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      covenant,
+      tests,
+    });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/covenants/[id]', method: 'GET', tenantId: tenantId || undefined });
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: { params: { id: string } }) {
+  let tenantId: string | undefined;
+
+  try {
+    const { tenantId: bodyTenantId, ...updates } = await req.json();
+    tenantId = bodyTenantId;
+
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    const covenant = await updateCovenant(tenantId, params.id, updates, actor);
+
+    return NextResponse.json({
+      success: true,
+      covenant,
+    });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/covenants/[id]', method: 'PATCH', tenantId });
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
+  const tenantId = new URL(req.url).searchParams.get('tenantId');
+
+  try {
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    await deleteCovenant(tenantId, params.id, actor);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error, {
+      endpoint: '/api/covenants/[id]',
+      method: 'DELETE',
+      tenantId: tenantId || undefined,
+    });
+  }
+}
@@ -0,0 +1,58 @@
+// API route for a covenant alert
+// POST /api/covenants/alerts/[id] - acknowledge a breach or near breach (editor+)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { acknowledgeCovenantTest } from '@/lib/services/covenant-service';
+import type { FacilityActor } from '@/lib/types/facility';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+async function getActor(tenantId: string): Promise<FacilityActor | NextResponse> {
+  const supabaseClient = await createClient();
+  const {
+    data: { user },
+    error: authError,
+  } = await supabaseClient.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: membership } = await supabaseClient
+    .from('user_tenants')
+    .select('role')
+    .eq('user_id', user.id)
+    .eq('tenant_id', tenantId)
+    .single();
+
+  if (!membership) {
+    return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+  }
+
+  return { userId: user.id, role: membership.role };
+}
+
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  let tenantId: string | undefined;
+
+  try {
+    const { tenantId: bodyTenantId } = await req.json();
+    tenantId = bodyTenantId;
+
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    await acknowledgeCovenantTest(tenantId, params.id, actor);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/covenants/alerts/[id]', method: 'POST', tenantId });
+  }
+}
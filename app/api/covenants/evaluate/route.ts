@@ -0,0 +1,65 @@
+// API route for testing covenants
+// POST /api/covenants/evaluate - test every active covenant at a month end (editor+)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { evaluateCovenants } from '@/lib/services/covenant-service';
+import type { FacilityActor } from '@/lib/types/facility';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+async function getActor(tenantId: string): Promise<FacilityActor | NextResponse> {
+  const supabaseClient = await createClient();
+  const {
+    data: { user },
+    error: authError,
+  } = await supabaseClient.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: membership } = await supabaseClient
+    .from('user_tenants')
+    .select('role')
+    .eq('user_id', user.id)
+    .eq('tenant_id', tenantId)
+    .single();
+
+  if (!membership) {
+    return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+  }
+
+  return { userId: user.id, role: membership.role };
+}
+
+export async function POST(req: NextRequest) {
+  let tenantId: string | undefined;
+
+  try {
+    const { tenantId: bodyTenantId, periodEnd } = await req.json();
+    tenantId = bodyTenantId;
+
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    if (!periodEnd) {
+      return NextResponse.json({ error: 'periodEnd is required' }, { status: 400 });
+    }
+
+    const run = await evaluateCovenants(tenantId, { periodEnd }, actor);
+
+    return NextResponse.json({
+      success: true,
+      run,
+    });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/covenants/evaluate', method: 'POST', tenantId });
+  }
+}
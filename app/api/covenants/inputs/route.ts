@@ -0,0 +1,94 @@
+// API route for manual covenant figures
+// GET /api/covenants/inputs?tenantId=xxx&periodEnd=YYYY-MM-DD
+// PUT /api/covenants/inputs - upsert a period's figures; null values remove them (editor+)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { listCovenantInputs, saveCovenantInputs } from '@/lib/services/covenant-service';
+import type { FacilityActor } from '@/lib/types/facility';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+async function getActor(tenantId: string): Promise<FacilityActor | NextResponse> {
+  const supabaseClient = await createClient();
+  const {
+    data: { user },
+    error: authError,
+  } = await supabaseClient.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: membership } = await supabaseClient
+    .from('user_tenants')
+    .select('role')
+    .eq('user_id', user.id)
+    .eq('tenant_id', tenantId)
+    .single();
+
+  if (!membership) {
+    return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+  }
+
+  return { userId: user.id, role: membership.role };
+}
+
+export async function GET(req: NextRequest) {
+  const searchParams = new URL(req.url).searchParams;
+  const tenantId = searchParams.get('tenantId');
+
+  try {
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    const periodEnd = searchParams.get('periodEnd');
+    if (!periodEnd) {
+      return NextResponse.json({ error: 'periodEnd is required' }, { status: 400 });
+    }
+
+    const inputs = await listCovenantInputs(tenantId, periodEnd);
+
+    return NextResponse.json({
+      success: true,
+      inputs,
+    });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/covenants/inputs', method: 'GET', tenantId: tenantId || undefined });
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  let tenantId: string | undefined;
+
+  try {
+    const { tenantId: bodyTenantId, periodEnd, inputs } = await req.json();
+    tenantId = bodyTenantId;
+
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    if (!periodEnd || !Array.isArray(inputs)) {
+      return NextResponse.json({ error: 'periodEnd and inputs are required' }, { status: 400 });
+    }
+
+    const saved = await saveCovenantInputs(tenantId, periodEnd, inputs, actor);
+
+    return NextResponse.json({
+      success: true,
+      inputs: saved,
+    });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/covenants/inputs', method: 'PUT', tenantId });
+  }
+}
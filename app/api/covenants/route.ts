@@ -0,0 +1,85 @@
+// API route for covenants
+// GET  /api/covenants?tenantId=xxx[&facilityId=...] - covenants with their latest test
+// POST /api/covenants - create a covenant (admin+)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { createCovenant, listCovenants } from '@/lib/services/covenant-service';
+import type { FacilityActor } from '@/lib/types/facility';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+async function getActor(tenantId: string): Promise<FacilityActor | NextResponse> {
+  const supabaseClient = await createClient();
+  const {
+    data: { user },
+    error: authError,
+  } = await supabaseClient.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: membership } = await supabaseClient
+    .from('user_tenants')
+    .select('role')
+    .eq('user_id', user.id)
+    .eq('tenant_id', tenantId)
+    .single();
+
+  if (!membership) {
+    return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+  }
+
+  return { userId: user.id, role: membership.role };
+}
+
+export async function GET(req: NextRequest) {
+  const searchParams = new URL(req.url).searchParams;
+  const tenantId = searchParams.get('tenantId');
+
+  try {
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    const covenants = await listCovenants(tenantId, { facilityId: searchParams.get('facilityId') || undefined });
+
+    return NextResponse.json({
+      success: true,
+      covenants,
+    });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/covenants', method: 'GET', tenantId: tenantId || undefined });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  let tenantId: string | undefined;
+
+  try {
+    const { tenantId: bodyTenantId, ...input } = await req.json();
+    tenantId = bodyTenantId;
+
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    const covenant = await createCovenant(tenantId, input, actor);
+
+    return NextResponse.json({
+      success: true,
+      covenant,
+    });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/covenants', method: 'POST', tenantId });
+  }
+}
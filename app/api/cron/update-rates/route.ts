@@ -1,10 +1,9 @@
 import { NextResponse } from 'next/server'
-import { fetchLatestRates, storeRates } from '@/lib/services/exchange-rate-service'
+import { updateRatesFromSources } from '@/lib/services/exchange-rate-service'
 
 export async function GET() {
   try {
-    const latest = await fetchLatestRates()
-    const result = await storeRates(latest)
+    const result = await updateRatesFromSources({ historyDays: 0 })
     return NextResponse.json({ success: true, result })
   } catch (error: any) {
     console.error('[Cron] update rates failed', error)
@@ -2,6 +2,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase-server';
 import { getAccountsByTenant, getTransactionsByTenant, getEntitiesByTenant } from '@/lib/supabase';
 import { supabase } from '@/lib/supabase';
+import { getReportingContext, loadReportingRates } from '@/lib/services/reporting-currency-service';
+import { REPORTING_RATE_TYPES, sumInReportingCurrency } from '@/lib/fx/reporting';
+import type { RateType } from '@/lib/currency';
+import { accountBalance } from '@/lib/utils';
 
 export async function GET(req: NextRequest) {
   try {
@@ -23,6 +27,7 @@ export async function GET(req: NextRequest) {
     const accountIds = searchParams.get('accountIds')?.split(',').filter(Boolean) || [];
     const entityIds = searchParams.get('entityIds')?.split(',').filter(Boolean) || [];
     const currencies = searchParams.get('currencies')?.split(',').filter(Boolean) || [];
+    const rateType = (searchParams.get('rateType') || 'SPOT').toUpperCase() as RateType;
 
     if (!tenantId) {
       return NextResponse.json(
@@ -31,6 +36,13 @@ export async function GET(req: NextRequest) {
       );
     }
 
+    if (!REPORTING_RATE_TYPES.includes(rateType)) {
+      return NextResponse.json(
+        { error: 'rateType must be SPOT, EOM or AVG' },
+        { status: 400 }
+      );
+    }
+
     // Fetch all data in parallel
     let [accounts, transactions, entities] = await Promise.all([
       getAccountsByTenant(tenantId, false),
@@ -173,13 +185,29 @@ export async function GET(req: NextRequest) {
       }
     });
 
+    // Everything below is converted into the viewer's reporting currency;
+    // entity totals use the entity's own reporting currency when it has one
+    const reporting = await getReportingContext(tenantId, user.id, { rateType });
+    const entityCurrency = (entityId?: string | null) =>
+      entities.find(entity => entity.entity_id === entityId)?.reporting_currency?.toUpperCase() || reporting.currency;
+
+    const rates = await loadReportingRates(
+      tenantId,
+      [
+        ...accounts.map(account => ({ from: account.currency || 'USD', to: reporting.currency })),
+        ...accounts.map(account => ({ from: account.currency || 'USD', to: entityCurrency(account.entity_id) })),
+        ...transactions.map(t => ({ from: t.currency || 'USD', to: reporting.currency })),
+      ],
+      reporting.rate_type,
+      reporting.as_of
+    );
+    const toReporting = (items: Array<{ amount: number; currency?: string | null }>, currency = reporting.currency) =>
+      sumInReportingCurrency(items, currency, reporting.rate_type, rates);
+
     // Calculate total cash position (sum of all account balances)
-    const totalCashUSD = accounts.reduce((sum, account) => {
-      const balance = account.balance ?? account.current_balance ?? account.available_balance ?? 0;
-      // For now, assume all balances are in their native currency
-      // TODO: Add currency conversion when exchange rates are available
-      return sum + balance;
-    }, 0);
+    const totalCash = toReporting(
+      accounts.map(account => ({ amount: accountBalance(account), currency: account.currency }))
+    );
 
     // Calculate cash flow based on date range
     const cashFlowStartDate = dateFilterStart || (() => {
@@ -193,15 +221,35 @@ export async function GET(req: NextRequest) {
       return txnDate >= cashFlowStartDate;
     });
 
-    const inflows = recentTransactions
-      .filter(t => t.amount > 0)
-      .reduce((sum, t) => sum + Math.abs(t.amount), 0);
+    // Intercompany legs move cash between entities, not in or out of the group
+    const intercompanyTransactions = recentTransactions.filter(t => t.intercompany_match_id);
+    const externalTransactions = recentTransactions.filter(t => !t.intercompany_match_id);
+
+    const inflows = toReporting(
+      externalTransactions.filter(t => t.amount > 0).map(t => ({ amount: Math.abs(t.amount), currency: t.currency }))
+    );
+
+    const outflows = toReporting(
+      externalTransactions.filter(t => t.amount < 0).map(t => ({ amount: Math.abs(t.amount), currency: t.currency }))
+    );
 
-    const outflows = recentTransactions
-      .filter(t => t.amount < 0)
-      .reduce((sum, t) => sum + Math.abs(t.amount), 0);
+    const intercompanyExcluded = {
+      count: intercompanyTransactions.length,
+      inflows: toReporting(
+        intercompanyTransactions
+          .filter(t => t.amount > 0)
+          .map(t => ({ amount: Math.abs(t.amount), currency: t.currency }))
+      ),
+      outflows: toReporting(
+        intercompanyTransactions
+          .filter(t => t.amount < 0)
+          .map(t => ({ amount: Math.abs(t.amount), currency: t.currency }))
+      ),
+    };
 
-    const netCashFlow = inflows - outflows;
+    const netCashFlow = toReporting(
+      externalTransactions.map(t => ({ amount: t.amount, currency: t.currency }))
+    );
 
     // Get recent transactions (last 5)
     const recentTransactionsList = transactions
@@ -227,33 +275,43 @@ export async function GET(req: NextRequest) {
       accountsByCurrency[currency].push(account);
     });
 
+    // Each currency's share of the total, in the reporting currency
+    const currencyTotals = Object.fromEntries(
+      Object.entries(accountsByCurrency).map(([currency, currencyAccounts]) => [
+        currency,
+        toReporting(currencyAccounts.map(account => ({ amount: accountBalance(account), currency }))),
+      ])
+    );
+
     // Calculate entity statistics
     const entityStats = entities.map(entity => {
       const entityAccounts = accounts.filter(acc => acc.entity_id === entity.entity_id);
-      const entityBalance = entityAccounts.reduce((sum, acc) => {
-        const balance = acc.balance ?? acc.current_balance ?? acc.available_balance ?? 0;
-        return sum + balance;
-      }, 0);
       return {
         entity_id: entity.entity_id,
         entity_name: entity.entity_name,
         account_count: entityAccounts.length,
-        total_balance: entityBalance,
+        total_balance: toReporting(
+          entityAccounts.map(account => ({ amount: accountBalance(account), currency: account.currency })),
+          entityCurrency(entity.entity_id)
+        ),
       };
     });
 
     return NextResponse.json({
       success: true,
       data: {
-        totalCashUSD,
+        reporting,
+        totalCash,
         inflows,
         outflows,
         netCashFlow,
+        intercompanyExcluded,
         accountCount: accounts.length,
         entityCount: entities.length,
         transactionCount: transactions.length,
         recentTransactions: recentTransactionsList,
         accountsByCurrency,
+        currencyTotals,
         entityStats,
       },
     });
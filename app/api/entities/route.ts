@@ -93,6 +93,8 @@ export async function POST(req: NextRequest) {
         entity_name: entity.entity_name,
         type: entity.type,
         jurisdiction: entity.jurisdiction,
+        functional_currency: entity.functional_currency?.toUpperCase(),
+        reporting_currency: entity.reporting_currency?.toUpperCase() || null,
         tax_id: entity.tax_id,
         contact_email: entity.contact_email,
         description: entity.description,
@@ -136,6 +138,11 @@ export async function PATCH(req: NextRequest) {
       );
     }
 
+    // An empty reporting currency clears the override
+    if ('reporting_currency' in updates) {
+      updates.reporting_currency = updates.reporting_currency?.toUpperCase() || null;
+    }
+
     const { data, error } = await supabase
       .from('entities')
       .update(updates)
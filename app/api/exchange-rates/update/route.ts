@@ -1,6 +1,5 @@
 import { NextResponse } from 'next/server'
-import { fetchLatestRates, fetchHistoricalRates, storeRates } from '@/lib/services/exchange-rate-service'
-import { subDays, format } from 'date-fns'
+import { updateRatesFromSources } from '@/lib/services/exchange-rate-service'
 
 export const maxDuration = 300 // 5 minutes for serverless function
 
@@ -18,33 +17,10 @@ export async function GET(request: Request) {
       }
     }
 
-    const results = []
-
-    // 1. Fetch Latest Rates (Today)
+    // Latest rates plus the last 2 days from every configured source; this
+    // covers weekends or missed cron runs
     console.log('[FX] Starting daily update...')
-    const latestData = await fetchLatestRates()
-    const latestResult = await storeRates(latestData)
-    results.push({ date: 'latest', ...latestResult })
-
-    // 2. Fetch Last 2 Days (Historical) to ensure we have recent history
-    // This covers weekends or missed cron runs
-    const today = new Date()
-    for (let i = 1; i <= 2; i++) {
-      const historicalDate = subDays(today, i)
-      const dateStr = format(historicalDate, 'yyyy-MM-dd')
-      
-      console.log(`[FX] Backfilling historical rates for ${dateStr}...`)
-      try {
-        const histData = await fetchHistoricalRates(dateStr)
-        // Ensure timestamp in data matches requested date (Open Exchange Rates returns timestamp)
-        // storeRates uses the timestamp from the response
-        const histResult = await storeRates(histData)
-        results.push({ date: dateStr, ...histResult })
-      } catch (err) {
-        console.error(`[FX] Failed to fetch historical for ${dateStr}:`, err)
-        results.push({ date: dateStr, error: err instanceof Error ? err.message : 'Unknown error' })
-      }
-    }
+    const results = await updateRatesFromSources({ historyDays: 2 })
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,65 @@
+// API route for a facility's repayment schedule
+// PUT /api/facilities/[id]/repayments - replace the schedule (admin+)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { replaceRepaymentSchedule } from '@/lib/services/facility-service';
+import type { FacilityActor } from '@/lib/types/facility';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+async function getActor(tenantId: string): Promise<FacilityActor | NextResponse> {
+  const supabaseClient = await createClient();
+  const {
+    data: { user },
+    error: authError,
+  } = await supabaseClient.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: membership } = await supabaseClient
+    .from('user_tenants')
+    .select('role')
+    .eq('user_id', user.id)
+    .eq('tenant_id', tenantId)
+    .single();
+
+  if (!membership) {
+    return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+  }
+
+  return { userId: user.id, role: membership.role };
+}
+
+export async function PUT(req: NextRequest, { params }: { params: { id: string } }) {
+  let tenantId: string | undefined;
+
+  try {
+    const { tenantId: bodyTenantId, repayments } = await req.json();
+    tenantId = bodyTenantId;
+
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    if (!Array.isArray(repayments)) {
+      return NextResponse.json({ error: 'repayments must be an array' }, { status: 400 });
+    }
+
+    const facility = await replaceRepaymentSchedule(tenantId, params.id, repayments, actor);
+
+    return NextResponse.json({
+      success: true,
+      facility,
+    });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/facilities/[id]/repayments', method: 'PUT', tenantId });
+  }
+}
@@ -1,15 +1,104 @@
-import { NextResponse } from 'next/server'
-import { getForecasts } from '@/lib/csv-parser'
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { generateRollingForecast, getTenantForecasts } from '@/lib/services/forecast-service';
 
-export async function GET() {
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+async function getMembership(tenantId: string) {
+  const supabaseClient = await createClient();
+  const {
+    data: { user },
+    error: authError,
+  } = await supabaseClient.auth.getUser();
+
+  if (authError || !user) {
+    return { user: null, role: null };
+  }
+
+  const { data: membership } = await supabaseClient
+    .from('user_tenants')
+    .select('role')
+    .eq('user_id', user.id)
+    .eq('tenant_id', tenantId)
+    .single();
+
+  return { user, role: (membership?.role as string | undefined) ?? null };
+}
+
+// GET /api/forecast?tenantId=...&entityId=...&currency=...&from=...&to=...&horizonWeek=...
+export async function GET(req: NextRequest) {
   try {
-    const forecasts = await getForecasts()
-    return NextResponse.json(forecasts)
+    const { searchParams } = new URL(req.url);
+    const tenantId = searchParams.get('tenantId');
+
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const { user, role } = await getMembership(tenantId);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!role) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const forecasts = await getTenantForecasts(tenantId, {
+      entityId: searchParams.get('entityId') || undefined,
+      currency: searchParams.get('currency') || undefined,
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined,
+      horizonWeek: Number(searchParams.get('horizonWeek')) || undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      forecasts,
+    });
   } catch (error) {
+    console.error('Get forecasts error:', error);
     return NextResponse.json(
       { error: 'Failed to fetch forecasts' },
       { status: 500 }
-    )
+    );
   }
 }
 
+// POST /api/forecast - regenerate the rolling 13-week forecast
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const { tenantId, entityId, asOf, weeks, historyDays } = body;
+
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const { user, role } = await getMembership(tenantId);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!role || !['owner', 'admin', 'editor'].includes(role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const result = await generateRollingForecast(tenantId, {
+      entityId,
+      asOf,
+      weeks,
+      historyDays,
+    });
+
+    return NextResponse.json({
+      success: true,
+      result,
+    });
+  } catch (error) {
+    console.error('Generate forecast error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to generate forecast' },
+      { status: 500 }
+    );
+  }
+}
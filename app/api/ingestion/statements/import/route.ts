@@ -0,0 +1,74 @@
+// API route for importing bank statement files (camt.053, camt.052, MT940, MT942, BAI2)
+// POST /api/ingestion/statements/import
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { importBankStatementFile } from '@/lib/services/bank-statement-import-service';
+import type { BankStatementFormat } from '@/lib/parsers/bank-statement-parser';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const FORMATS: BankStatementFormat[] = ['camt.053', 'camt.052', 'mt940', 'mt942', 'bai2'];
+
+// 10 MB of statement text is far beyond a normal daily file
+const MAX_CONTENT_LENGTH = 10 * 1024 * 1024;
+
+export async function POST(req: NextRequest) {
+  let tenantId: string | undefined;
+
+  try {
+    const body = await req.json();
+    const { content, fileName, format, mode = 'validate' } = body;
+    tenantId = body.tenantId;
+
+    if (!tenantId || !content) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required fields: tenantId or content' },
+        { status: 400 }
+      );
+    }
+    if (typeof content !== 'string' || content.length > MAX_CONTENT_LENGTH) {
+      return NextResponse.json({ success: false, error: 'File content is too large' }, { status: 413 });
+    }
+    if (format && !FORMATS.includes(format)) {
+      return NextResponse.json(
+        { success: false, error: `Unsupported format. Use one of: ${FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const supabaseClient = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabaseClient.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: membership } = await supabaseClient
+      .from('user_tenants')
+      .select('role')
+      .eq('user_id', user.id)
+      .eq('tenant_id', tenantId)
+      .single();
+
+    if (!membership || !['owner', 'admin'].includes(membership.role)) {
+      return NextResponse.json({ success: false, error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const result = await importBankStatementFile(tenantId, user.id, {
+      content,
+      fileName,
+      format,
+      dryRun: mode === 'validate',
+    });
+
+    return NextResponse.json(result, { status: result.success ? 200 : 400 });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/ingestion/statements/import', method: 'POST', tenantId });
+  }
+}
@@ -0,0 +1,73 @@
+// API route for the intercompany balance matrix and netting settlements
+// GET /api/intercompany/report?tenantId=xxx&startDate=xxx&endDate=xxx&currency=USD
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { getIntercompanyReport } from '@/lib/services/intercompany-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const CURRENCY_PATTERN = /^[A-Za-z]{3}$/;
+
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const tenantId = searchParams.get('tenantId');
+
+  try {
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const supabaseClient = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabaseClient.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: membership } = await supabaseClient
+      .from('user_tenants')
+      .select('role')
+      .eq('user_id', user.id)
+      .eq('tenant_id', tenantId)
+      .single();
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    // Defaults to the year to date
+    const today = new Date().toISOString().split('T')[0];
+    const startParam = searchParams.get('startDate');
+    const endParam = searchParams.get('endDate');
+    const startDate = startParam && DATE_PATTERN.test(startParam) ? startParam : `${today.slice(0, 4)}-01-01`;
+    const endDate = endParam && DATE_PATTERN.test(endParam) ? endParam : today;
+    if (startDate > endDate) {
+      return NextResponse.json({ error: 'startDate must be on or before endDate' }, { status: 400 });
+    }
+
+    const currency = searchParams.get('currency') || 'USD';
+    if (!CURRENCY_PATTERN.test(currency)) {
+      return NextResponse.json({ error: 'currency must be a 3-letter code' }, { status: 400 });
+    }
+
+    const report = await getIntercompanyReport(tenantId, { startDate, endDate, currency });
+
+    return NextResponse.json({
+      success: true,
+      report,
+    });
+  } catch (error) {
+    return handleApiError(error, {
+      endpoint: '/api/intercompany/report',
+      method: 'GET',
+      tenantId: tenantId || undefined,
+    });
+  }
+}
@@ -0,0 +1,125 @@
+// API route for intercompany transfers across a tenant's entities
+// GET  /api/intercompany?tenantId=xxx&startDate=xxx&endDate=xxx
+// POST /api/intercompany - { tenantId, action: 'detect' | 'match', ... }
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import {
+  createIntercompanyMatch,
+  detectIntercompanyTransfers,
+  listIntercompanyMatches,
+} from '@/lib/services/intercompany-service';
+import type { IntercompanyActor } from '@/lib/types/intercompany';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+async function getActor(tenantId: string): Promise<IntercompanyActor | NextResponse> {
+  const supabaseClient = await createClient();
+  const {
+    data: { user },
+    error: authError,
+  } = await supabaseClient.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: membership } = await supabaseClient
+    .from('user_tenants')
+    .select('role')
+    .eq('user_id', user.id)
+    .eq('tenant_id', tenantId)
+    .single();
+
+  if (!membership) {
+    return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+  }
+
+  return { userId: user.id, role: membership.role };
+}
+
+// Defaults to the current month to date
+function resolvePeriod(startDate?: string | null, endDate?: string | null) {
+  const today = new Date().toISOString().split('T')[0];
+  const start = startDate && DATE_PATTERN.test(startDate) ? startDate : `${today.slice(0, 7)}-01`;
+  const end = endDate && DATE_PATTERN.test(endDate) ? endDate : today;
+  return start <= end ? { startDate: start, endDate: end } : null;
+}
+
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const tenantId = searchParams.get('tenantId');
+
+  try {
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    const period = resolvePeriod(searchParams.get('startDate'), searchParams.get('endDate'));
+    if (!period) {
+      return NextResponse.json({ error: 'startDate must be on or before endDate' }, { status: 400 });
+    }
+
+    const matches = await listIntercompanyMatches(tenantId, period);
+
+    return NextResponse.json({
+      success: true,
+      matches,
+    });
+  } catch (error) {
+    return handleApiError(error, {
+      endpoint: '/api/intercompany',
+      method: 'GET',
+      tenantId: tenantId || undefined,
+    });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  let tenantId: string | undefined;
+
+  try {
+    const body = await req.json();
+    tenantId = body.tenantId;
+
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    if (body.action === 'detect') {
+      const period = resolvePeriod(body.startDate, body.endDate);
+      if (!period) {
+        return NextResponse.json({ error: 'startDate must be on or before endDate' }, { status: 400 });
+      }
+
+      const result = await detectIntercompanyTransfers(tenantId, period, actor);
+      return NextResponse.json({ success: true, ...result });
+    }
+
+    if (body.action === 'match') {
+      const match = await createIntercompanyMatch(
+        tenantId,
+        {
+          outgoingTransactionId: body.outgoingTransactionId,
+          incomingTransactionId: body.incomingTransactionId,
+        },
+        actor
+      );
+      return NextResponse.json({ success: true, match });
+    }
+
+    return NextResponse.json({ error: "action must be 'detect' or 'match'" }, { status: 400 });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/intercompany', method: 'POST', tenantId });
+  }
+}
@@ -0,0 +1,61 @@
+// API route for an account's interest terms
+// PATCH /api/interest/accounts/[id] - { tenantId, interest_rate?, day_count_convention?, credit_limit?, overdraft_limit? }
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { updateInterestTerms } from '@/lib/services/interest-service';
+import type { InterestActor } from '@/lib/types/interest';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+async function getActor(tenantId: string): Promise<InterestActor | NextResponse> {
+  const supabaseClient = await createClient();
+  const {
+    data: { user },
+    error: authError,
+  } = await supabaseClient.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: membership } = await supabaseClient
+    .from('user_tenants')
+    .select('role')
+    .eq('user_id', user.id)
+    .eq('tenant_id', tenantId)
+    .single();
+
+  if (!membership) {
+    return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+  }
+
+  return { userId: user.id, role: membership.role };
+}
+
+export async function PATCH(req: NextRequest, { params }: { params: { id: string } }) {
+  let tenantId: string | undefined;
+
+  try {
+    const { tenantId: bodyTenantId, ...terms } = await req.json();
+    tenantId = bodyTenantId;
+
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    const account = await updateInterestTerms(tenantId, params.id, terms, actor);
+
+    return NextResponse.json({
+      success: true,
+      account,
+    });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/interest/accounts/[id]', method: 'PATCH', tenantId });
+  }
+}
@@ -0,0 +1,77 @@
+// API route for expected vs posted interest on deposit and loan accounts
+// GET /api/interest?tenantId=xxx&startDate=2025-04-01&endDate=2025-06-30&entityId=&tolerancePct=5
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { getInterestReport } from '@/lib/services/interest-service';
+import type { InterestActor } from '@/lib/types/interest';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+async function getActor(tenantId: string): Promise<InterestActor | NextResponse> {
+  const supabaseClient = await createClient();
+  const {
+    data: { user },
+    error: authError,
+  } = await supabaseClient.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: membership } = await supabaseClient
+    .from('user_tenants')
+    .select('role')
+    .eq('user_id', user.id)
+    .eq('tenant_id', tenantId)
+    .single();
+
+  if (!membership) {
+    return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+  }
+
+  return { userId: user.id, role: membership.role };
+}
+
+export async function GET(req: NextRequest) {
+  const searchParams = new URL(req.url).searchParams;
+  const tenantId = searchParams.get('tenantId');
+
+  try {
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    const startDate = searchParams.get('startDate') || undefined;
+    const endDate = searchParams.get('endDate') || undefined;
+    if ((startDate && !DATE_PATTERN.test(startDate)) || (endDate && !DATE_PATTERN.test(endDate))) {
+      return NextResponse.json({ error: 'startDate and endDate must be YYYY-MM-DD' }, { status: 400 });
+    }
+
+    const tolerancePct = searchParams.get('tolerancePct');
+    if (tolerancePct && !(Number(tolerancePct) >= 0)) {
+      return NextResponse.json({ error: 'tolerancePct must be a non-negative number' }, { status: 400 });
+    }
+
+    const report = await getInterestReport(tenantId, {
+      startDate,
+      endDate,
+      entityId: searchParams.get('entityId') || undefined,
+      tolerancePct: tolerancePct ? Number(tolerancePct) : undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      report,
+    });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/interest', method: 'GET', tenantId: tenantId || undefined });
+  }
+}
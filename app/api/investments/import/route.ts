@@ -0,0 +1,70 @@
+// API route for importing investment holdings from CSV
+// POST /api/investments/import - multipart form: tenantId, file, accountId (optional, for rows without an account)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { importHoldings } from '@/lib/services/investment-service';
+import type { InvestmentActor } from '@/lib/types/investment';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+async function getActor(tenantId: string): Promise<InvestmentActor | NextResponse> {
+  const supabaseClient = await createClient();
+  const {
+    data: { user },
+    error: authError,
+  } = await supabaseClient.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: membership } = await supabaseClient
+    .from('user_tenants')
+    .select('role')
+    .eq('user_id', user.id)
+    .eq('tenant_id', tenantId)
+    .single();
+
+  if (!membership) {
+    return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+  }
+
+  return { userId: user.id, role: membership.role };
+}
+
+export async function POST(req: NextRequest) {
+  let tenantId: string | undefined;
+
+  try {
+    const formData = await req.formData();
+    tenantId = (formData.get('tenantId') as string) || undefined;
+    const file = formData.get('file') as File | null;
+    const accountId = (formData.get('accountId') as string) || null;
+
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    if (!file) {
+      return NextResponse.json({ error: 'A CSV file is required' }, { status: 400 });
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json({ error: 'File is larger than 5 MB' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    const result = await importHoldings(tenantId, { content: await file.text(), accountId }, actor);
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/investments/import', method: 'POST', tenantId });
+  }
+}
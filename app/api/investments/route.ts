@@ -0,0 +1,103 @@
+// API route for investment holdings
+// GET  /api/investments?tenantId=xxx[&asOf=YYYY-MM-DD&entityId=...&rateType=SPOT] - holdings, maturity ladder and liquidity
+// POST /api/investments - add a holding by hand (editor+)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { REPORTING_RATE_TYPES } from '@/lib/fx/reporting';
+import { createHolding, getInvestmentPortfolio } from '@/lib/services/investment-service';
+import type { RateType } from '@/lib/currency';
+import type { InvestmentActor } from '@/lib/types/investment';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+async function getActor(tenantId: string): Promise<InvestmentActor | NextResponse> {
+  const supabaseClient = await createClient();
+  const {
+    data: { user },
+    error: authError,
+  } = await supabaseClient.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: membership } = await supabaseClient
+    .from('user_tenants')
+    .select('role')
+    .eq('user_id', user.id)
+    .eq('tenant_id', tenantId)
+    .single();
+
+  if (!membership) {
+    return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+  }
+
+  return { userId: user.id, role: membership.role };
+}
+
+export async function GET(req: NextRequest) {
+  const searchParams = new URL(req.url).searchParams;
+  const tenantId = searchParams.get('tenantId');
+
+  try {
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    const asOf = searchParams.get('asOf');
+    if (asOf && !DATE_PATTERN.test(asOf)) {
+      return NextResponse.json({ error: 'asOf must be YYYY-MM-DD' }, { status: 400 });
+    }
+
+    const rateType = (searchParams.get('rateType') || 'SPOT').toUpperCase() as RateType;
+    if (!REPORTING_RATE_TYPES.includes(rateType)) {
+      return NextResponse.json({ error: 'rateType must be SPOT, EOM or AVG' }, { status: 400 });
+    }
+
+    const portfolio = await getInvestmentPortfolio(tenantId, actor.userId, {
+      asOf: asOf || undefined,
+      entityId: searchParams.get('entityId') || undefined,
+      rateType,
+    });
+
+    return NextResponse.json({
+      success: true,
+      portfolio,
+    });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/investments', method: 'GET', tenantId: tenantId || undefined });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  let tenantId: string | undefined;
+
+  try {
+    const { tenantId: bodyTenantId, ...input } = await req.json();
+    tenantId = bodyTenantId;
+
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    const holding = await createHolding(tenantId, input, actor);
+
+    return NextResponse.json({
+      success: true,
+      holding,
+    });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/investments', method: 'POST', tenantId });
+  }
+}
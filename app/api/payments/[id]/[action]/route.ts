@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import {
+  approvePayment,
+  cancelPayment,
+  recordPaymentOutcome,
+  rejectPayment,
+  releasePayment,
+  submitPayment,
+  type PaymentActor,
+} from '@/lib/services/payment-service';
+import type { PaymentAction, TenantRole } from '@/lib/types/payment';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const ACTIONS: PaymentAction[] = ['submit', 'approve', 'reject', 'cancel', 'release', 'complete', 'fail'];
+
+// POST /api/payments/[id]/[action] - workflow actions
+// Body: { tenantId, comment? }
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string; action: string } }
+) {
+  let tenantId: string | undefined;
+
+  try {
+    const action = params.action as PaymentAction;
+    if (!ACTIONS.includes(action)) {
+      return NextResponse.json({ error: `Unknown payment action: ${params.action}` }, { status: 404 });
+    }
+
+    const body = await req.json();
+    tenantId = body.tenantId;
+    const comment: string | undefined = body.comment;
+
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const supabaseClient = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabaseClient.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: membership } = await supabaseClient
+      .from('user_tenants')
+      .select('role')
+      .eq('user_id', user.id)
+      .eq('tenant_id', tenantId)
+      .single();
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const actor: PaymentActor = { userId: user.id, email: user.email, role: membership.role as TenantRole };
+
+    let payment;
+    switch (action) {
+      case 'submit':
+        payment = await submitPayment(tenantId, params.id, actor);
+        break;
+      case 'approve':
+        payment = await approvePayment(tenantId, params.id, actor, comment);
+        break;
+      case 'reject':
+        payment = await rejectPayment(tenantId, params.id, actor, comment);
+        break;
+      case 'cancel':
+        payment = await cancelPayment(tenantId, params.id, actor, comment);
+        break;
+      case 'release':
+        payment = await releasePayment(tenantId, params.id, actor);
+        break;
+      case 'complete':
+        payment = await recordPaymentOutcome(tenantId, params.id, actor, 'Completed');
+        break;
+      case 'fail':
+        payment = await recordPaymentOutcome(tenantId, params.id, actor, 'Failed', comment);
+        break;
+    }
+
+    return NextResponse.json({
+      success: true,
+      payment,
+    });
+  } catch (error) {
+    return handleApiError(error, {
+      endpoint: `/api/payments/[id]/${params.action}`,
+      method: 'POST',
+      tenantId,
+    });
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { getPayment } from '@/lib/services/payment-service';
+import { DEFAULT_APPROVAL_CHAIN, evaluateApprover, getApprovalProgress } from '@/lib/payment-workflow';
+import type { TenantRole } from '@/lib/types/payment';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET /api/payments/[id]?tenantId=... - payment with approval progress
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const { searchParams } = new URL(req.url);
+  const tenantId = searchParams.get('tenantId');
+
+  try {
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const supabaseClient = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabaseClient.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: membership } = await supabaseClient
+      .from('user_tenants')
+      .select('role')
+      .eq('user_id', user.id)
+      .eq('tenant_id', tenantId)
+      .single();
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const payment = await getPayment(tenantId, params.id);
+    const chain = payment.approval_chain?.length ? payment.approval_chain : DEFAULT_APPROVAL_CHAIN;
+    const approvals = payment.approvals || [];
+
+    return NextResponse.json({
+      success: true,
+      payment,
+      approval: {
+        chain,
+        progress: getApprovalProgress(chain, approvals),
+        canDecide:
+          payment.status === 'Pending Approval' &&
+          evaluateApprover({
+            chain,
+            approvals,
+            createdBy: payment.created_by,
+            actor: { userId: user.id, email: user.email, role: membership.role as TenantRole },
+          }).allowed,
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/payments/[id]', method: 'GET', tenantId: tenantId || undefined });
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import {
+  getPaymentFile,
+  hashPaymentFile,
+  recordPaymentFileDownload,
+} from '@/lib/services/payment-file-service';
+import type { TenantRole } from '@/lib/types/payment';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const CONTENT_TYPES: Record<string, string> = {
+  'pain.001.001.09': 'application/xml; charset=utf-8',
+  nacha: 'text/plain; charset=us-ascii',
+};
+
+// GET /api/payments/files/:fileId?tenantId=... - download the stored file
+export async function GET(req: NextRequest, { params }: { params: { fileId: string } }) {
+  const tenantId = new URL(req.url).searchParams.get('tenantId');
+
+  try {
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const supabaseClient = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabaseClient.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: membership } = await supabaseClient
+      .from('user_tenants')
+      .select('role')
+      .eq('user_id', user.id)
+      .eq('tenant_id', tenantId)
+      .single();
+
+    if (!membership || !['owner', 'admin'].includes(membership.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const file = await getPaymentFile(tenantId, params.fileId);
+    const content = file.content || '';
+
+    // Refuse to hand out content that no longer matches the stored hash
+    if (hashPaymentFile(content) !== file.sha256) {
+      return NextResponse.json({ error: 'Payment file integrity check failed' }, { status: 409 });
+    }
+    if (file.status === 'void') {
+      return NextResponse.json({ error: 'Payment file has been voided' }, { status: 409 });
+    }
+
+    await recordPaymentFileDownload(file, {
+      userId: user.id,
+      email: user.email,
+      role: membership.role as TenantRole,
+    });
+
+    return new NextResponse(content, {
+      status: 200,
+      headers: {
+        'Content-Type': CONTENT_TYPES[file.format] || 'application/octet-stream',
+        'Content-Disposition': `attachment; filename="${file.file_name}"`,
+        'X-Content-SHA256': file.sha256,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, {
+      endpoint: '/api/payments/files/[fileId]',
+      method: 'GET',
+      tenantId: tenantId || undefined,
+    });
+  }
+}
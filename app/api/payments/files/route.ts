@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { generatePaymentFile, listPaymentFiles } from '@/lib/services/payment-file-service';
+import type { PaymentActor } from '@/lib/services/payment-service';
+import type { PaymentFileFormat, TenantRole } from '@/lib/types/payment';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+async function getActor(tenantId: string): Promise<PaymentActor | NextResponse> {
+  const supabaseClient = await createClient();
+  const {
+    data: { user },
+    error: authError,
+  } = await supabaseClient.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: membership } = await supabaseClient
+    .from('user_tenants')
+    .select('role')
+    .eq('user_id', user.id)
+    .eq('tenant_id', tenantId)
+    .single();
+
+  if (!membership) {
+    return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+  }
+
+  return { userId: user.id, email: user.email, role: membership.role as TenantRole };
+}
+
+// GET /api/payments/files?tenantId=... - generated payment files (without content)
+export async function GET(req: NextRequest) {
+  const tenantId = new URL(req.url).searchParams.get('tenantId');
+
+  try {
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    const files = await listPaymentFiles(tenantId);
+
+    return NextResponse.json({
+      success: true,
+      files,
+    });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/payments/files', method: 'GET', tenantId: tenantId || undefined });
+  }
+}
+
+// POST /api/payments/files - export approved payments as pain.001 or NACHA
+export async function POST(req: NextRequest) {
+  let tenantId: string | undefined;
+
+  try {
+    const body = await req.json();
+    tenantId = body.tenantId;
+
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    const file = await generatePaymentFile(tenantId, actor, {
+      paymentIds: Array.isArray(body.paymentIds) ? body.paymentIds : [],
+      format: body.format as PaymentFileFormat,
+    });
+
+    return NextResponse.json({
+      success: true,
+      file,
+    });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/payments/files', method: 'POST', tenantId });
+  }
+}
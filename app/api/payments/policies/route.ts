@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import {
+  deleteApprovalPolicy,
+  listApprovalPolicies,
+  saveApprovalPolicy,
+  type PaymentActor,
+} from '@/lib/services/payment-service';
+import type { TenantRole } from '@/lib/types/payment';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+async function getActor(tenantId: string, requireAdmin: boolean): Promise<PaymentActor | NextResponse> {
+  const supabaseClient = await createClient();
+  const {
+    data: { user },
+    error: authError,
+  } = await supabaseClient.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: membership } = await supabaseClient
+    .from('user_tenants')
+    .select('role')
+    .eq('user_id', user.id)
+    .eq('tenant_id', tenantId)
+    .single();
+
+  if (!membership) {
+    return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+  }
+
+  if (requireAdmin && !['owner', 'admin'].includes(membership.role)) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  return { userId: user.id, email: user.email, role: membership.role as TenantRole };
+}
+
+// GET /api/payments/policies?tenantId=...
+export async function GET(req: NextRequest) {
+  const tenantId = new URL(req.url).searchParams.get('tenantId');
+
+  try {
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId, false);
+    if (actor instanceof NextResponse) return actor;
+
+    const policies = await listApprovalPolicies(tenantId);
+
+    return NextResponse.json({
+      success: true,
+      policies,
+    });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/payments/policies', method: 'GET', tenantId: tenantId || undefined });
+  }
+}
+
+// POST /api/payments/policies - create or update (when id is given) a policy
+export async function POST(req: NextRequest) {
+  let tenantId: string | undefined;
+
+  try {
+    const { tenantId: bodyTenantId, ...policy } = await req.json();
+    tenantId = bodyTenantId;
+
+    if (!tenantId || !policy.name || !policy.steps) {
+      return NextResponse.json(
+        { error: 'Missing required fields: tenantId, name, steps' },
+        { status: 400 }
+      );
+    }
+
+    const actor = await getActor(tenantId, true);
+    if (actor instanceof NextResponse) return actor;
+
+    const saved = await saveApprovalPolicy(tenantId, actor, policy);
+
+    return NextResponse.json({
+      success: true,
+      policy: saved,
+    });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/payments/policies', method: 'POST', tenantId });
+  }
+}
+
+// DELETE /api/payments/policies?tenantId=...&id=...
+export async function DELETE(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const tenantId = searchParams.get('tenantId');
+  const policyId = searchParams.get('id');
+
+  try {
+    if (!tenantId || !policyId) {
+      return NextResponse.json({ error: 'Tenant ID and policy ID are required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId, true);
+    if (actor instanceof NextResponse) return actor;
+
+    await deleteApprovalPolicy(tenantId, actor, policyId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/payments/policies', method: 'DELETE', tenantId: tenantId || undefined });
+  }
+}
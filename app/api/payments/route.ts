@@ -1,15 +1,86 @@
-import { NextResponse } from 'next/server'
-import { getPayments } from '@/lib/csv-parser'
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { createPayment, listPayments, type PaymentActor } from '@/lib/services/payment-service';
+import type { PaymentStatus, TenantRole } from '@/lib/types/payment';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+async function getActor(tenantId: string): Promise<PaymentActor | NextResponse> {
+  const supabaseClient = await createClient();
+  const {
+    data: { user },
+    error: authError,
+  } = await supabaseClient.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: membership } = await supabaseClient
+    .from('user_tenants')
+    .select('role')
+    .eq('user_id', user.id)
+    .eq('tenant_id', tenantId)
+    .single();
+
+  if (!membership) {
+    return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+  }
+
+  return { userId: user.id, email: user.email, role: membership.role as TenantRole };
+}
+
+// GET /api/payments?tenantId=...&status=Pending%20Approval,Approved
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const tenantId = searchParams.get('tenantId');
 
-export async function GET() {
   try {
-    const payments = await getPayments()
-    return NextResponse.json(payments)
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    const status = searchParams.get('status');
+    const payments = await listPayments(tenantId, {
+      status: status ? (status.split(',') as PaymentStatus[]) : undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      payments,
+    });
   } catch (error) {
-    return NextResponse.json(
-      { error: 'Failed to fetch payments' },
-      { status: 500 }
-    )
+    return handleApiError(error, { endpoint: '/api/payments', method: 'GET', tenantId: tenantId || undefined });
   }
 }
 
+// POST /api/payments - create a payment (optionally submitting it for approval)
+export async function POST(req: NextRequest) {
+  let tenantId: string | undefined;
+
+  try {
+    const body = await req.json();
+    tenantId = body.tenantId;
+
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    const payment = await createPayment(actor, { ...body, tenant_id: tenantId });
+
+    return NextResponse.json({
+      success: true,
+      payment,
+    });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/payments', method: 'POST', tenantId });
+  }
+}
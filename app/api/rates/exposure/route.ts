@@ -0,0 +1,82 @@
+// API route for FX exposure by entity, currency and tenor
+// GET /api/rates/exposure?tenantId=xxx&asOf=xxx&horizonDays=365&entityId=xxx&reportingCurrency=USD
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { getFxExposure } from '@/lib/services/fx-exposure-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const CURRENCY_PATTERN = /^[A-Za-z]{3}$/;
+const MAX_HORIZON_DAYS = 730;
+
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const tenantId = searchParams.get('tenantId');
+
+  try {
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const supabaseClient = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabaseClient.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: membership } = await supabaseClient
+      .from('user_tenants')
+      .select('role')
+      .eq('user_id', user.id)
+      .eq('tenant_id', tenantId)
+      .single();
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const asOf = searchParams.get('asOf');
+    if (asOf && !DATE_PATTERN.test(asOf)) {
+      return NextResponse.json({ error: 'asOf must be YYYY-MM-DD' }, { status: 400 });
+    }
+
+    const horizonParam = searchParams.get('horizonDays');
+    const horizonDays = horizonParam ? Number(horizonParam) : undefined;
+    const validHorizon =
+      horizonDays === undefined || (Number.isInteger(horizonDays) && horizonDays >= 0 && horizonDays <= MAX_HORIZON_DAYS);
+    if (!validHorizon) {
+      return NextResponse.json({ error: `horizonDays must be between 0 and ${MAX_HORIZON_DAYS}` }, { status: 400 });
+    }
+
+    const reportingCurrency = searchParams.get('reportingCurrency') || undefined;
+    if (reportingCurrency && !CURRENCY_PATTERN.test(reportingCurrency)) {
+      return NextResponse.json({ error: 'reportingCurrency must be a 3-letter code' }, { status: 400 });
+    }
+
+    const exposure = await getFxExposure(tenantId, {
+      asOf: asOf || undefined,
+      horizonDays,
+      entityId: searchParams.get('entityId') || undefined,
+      reportingCurrency,
+    });
+
+    return NextResponse.json({
+      success: true,
+      exposure,
+    });
+  } catch (error) {
+    return handleApiError(error, {
+      endpoint: '/api/rates/exposure',
+      method: 'GET',
+      tenantId: tenantId || undefined,
+    });
+  }
+}
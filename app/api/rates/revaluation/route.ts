@@ -0,0 +1,67 @@
+// API route for period-end FX revaluation with realized/unrealized gain or loss
+// GET /api/rates/revaluation?tenantId=xxx&periodEnd=2025-06-30&entityId=xxx&realizedGlCode=xxx&unrealizedGlCode=xxx
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { getFxRevaluation } from '@/lib/services/fx-revaluation-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const tenantId = searchParams.get('tenantId');
+
+  try {
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const supabaseClient = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabaseClient.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: membership } = await supabaseClient
+      .from('user_tenants')
+      .select('role')
+      .eq('user_id', user.id)
+      .eq('tenant_id', tenantId)
+      .single();
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const periodEnd = searchParams.get('periodEnd');
+    if (periodEnd && !DATE_PATTERN.test(periodEnd)) {
+      return NextResponse.json({ error: 'periodEnd must be YYYY-MM-DD' }, { status: 400 });
+    }
+
+    const revaluation = await getFxRevaluation(tenantId, {
+      periodEnd: periodEnd || undefined,
+      entityId: searchParams.get('entityId') || undefined,
+      realizedGlCode: searchParams.get('realizedGlCode') || null,
+      unrealizedGlCode: searchParams.get('unrealizedGlCode') || null,
+    });
+
+    return NextResponse.json({
+      success: true,
+      revaluation,
+    });
+  } catch (error) {
+    return handleApiError(error, {
+      endpoint: '/api/rates/revaluation',
+      method: 'GET',
+      tenantId: tenantId || undefined,
+    });
+  }
+}
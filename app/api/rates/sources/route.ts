@@ -0,0 +1,125 @@
+// API route for FX rate sources and tenant source precedence
+// GET    /api/rates/sources?tenantId=xxx
+// PUT    /api/rates/sources - { tenantId, currencyFrom, currencyTo, sources }
+// DELETE /api/rates/sources?tenantId=xxx&id=xxx
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { listRateSources } from '@/lib/fx/sources/source-registry';
+import {
+  deleteSourcePreference,
+  listSourcePreferences,
+  saveSourcePreference,
+} from '@/lib/services/fx-source-service';
+import type { FxActor } from '@/lib/types/fx';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+async function getActor(tenantId: string): Promise<FxActor | NextResponse> {
+  const supabaseClient = await createClient();
+  const {
+    data: { user },
+    error: authError,
+  } = await supabaseClient.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: membership } = await supabaseClient
+    .from('user_tenants')
+    .select('role')
+    .eq('user_id', user.id)
+    .eq('tenant_id', tenantId)
+    .single();
+
+  if (!membership) {
+    return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+  }
+
+  return { userId: user.id, role: membership.role };
+}
+
+export async function GET(req: NextRequest) {
+  const tenantId = new URL(req.url).searchParams.get('tenantId');
+
+  try {
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    const preferences = await listSourcePreferences(tenantId);
+
+    return NextResponse.json({
+      success: true,
+      sources: listRateSources(),
+      preferences,
+    });
+  } catch (error) {
+    return handleApiError(error, {
+      endpoint: '/api/rates/sources',
+      method: 'GET',
+      tenantId: tenantId || undefined,
+    });
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  let tenantId: string | undefined;
+
+  try {
+    const body = await req.json();
+    tenantId = body.tenantId;
+
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    if (!Array.isArray(body.sources)) {
+      return NextResponse.json({ error: 'sources must be an array of source ids' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    const preference = await saveSourcePreference(
+      tenantId,
+      { currencyFrom: body.currencyFrom, currencyTo: body.currencyTo, sources: body.sources },
+      actor
+    );
+
+    return NextResponse.json({ success: true, preference });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/rates/sources', method: 'PUT', tenantId });
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const tenantId = searchParams.get('tenantId');
+  const preferenceId = searchParams.get('id');
+
+  try {
+    if (!tenantId || !preferenceId) {
+      return NextResponse.json({ error: 'Tenant ID and preference id are required' }, { status: 400 });
+    }
+
+    const actor = await getActor(tenantId);
+    if (actor instanceof NextResponse) return actor;
+
+    await deleteSourcePreference(tenantId, preferenceId, actor);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error, {
+      endpoint: '/api/rates/sources',
+      method: 'DELETE',
+      tenantId: tenantId || undefined,
+    });
+  }
+}
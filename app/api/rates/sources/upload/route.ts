@@ -0,0 +1,78 @@
+// API route for uploading a tenant's own FX rates (CSV or JSON)
+// POST /api/rates/sources/upload - multipart form: tenantId, source, file
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import { importUploadedRates } from '@/lib/services/fx-source-service';
+import type { RateUploadFormat } from '@/lib/fx/sources/upload-source';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+function detectFormat(fileName: string, explicit: FormDataEntryValue | null): RateUploadFormat | null {
+  const format =
+    typeof explicit === 'string' && explicit ? explicit.toLowerCase() : fileName.split('.').pop()?.toLowerCase();
+  return format === 'csv' || format === 'json' ? format : null;
+}
+
+export async function POST(req: NextRequest) {
+  let tenantId: string | undefined;
+
+  try {
+    const formData = await req.formData();
+    tenantId = (formData.get('tenantId') as string) || undefined;
+    const source = formData.get('source') as string | null;
+    const file = formData.get('file') as File | null;
+
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    if (!file || !source) {
+      return NextResponse.json({ error: 'A file and a source label are required' }, { status: 400 });
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json({ error: 'File is larger than 5 MB' }, { status: 400 });
+    }
+
+    const format = detectFormat(file.name, formData.get('format'));
+    if (!format) {
+      return NextResponse.json({ error: 'Only CSV and JSON files are supported' }, { status: 400 });
+    }
+
+    const supabaseClient = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabaseClient.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: membership } = await supabaseClient
+      .from('user_tenants')
+      .select('role')
+      .eq('user_id', user.id)
+      .eq('tenant_id', tenantId)
+      .single();
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const result = await importUploadedRates(
+      tenantId,
+      { source, format, content: await file.text() },
+      { userId: user.id, role: membership.role }
+    );
+
+    return NextResponse.json({ success: true, source, ...result });
+  } catch (error) {
+    return handleApiError(error, { endpoint: '/api/rates/sources/upload', method: 'POST', tenantId });
+  }
+}
@@ -0,0 +1,114 @@
+// API route for the tenant reporting currency and converted balances
+// GET /api/reporting-currency?tenantId=xxx&rateType=SPOT|EOM|AVG&asOf=2025-06-30
+// PUT /api/reporting-currency - Set or clear the current user's override
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { handleApiError } from '@/lib/security/error-handler';
+import {
+  getReportingBalances,
+  getReportingPreferences,
+  setUserReportingCurrency,
+} from '@/lib/services/reporting-currency-service';
+import { REPORTING_RATE_TYPES } from '@/lib/fx/reporting';
+import type { RateType } from '@/lib/currency';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+async function getMemberId(tenantId: string) {
+  const supabaseClient = await createClient();
+  const {
+    data: { user },
+    error: authError,
+  } = await supabaseClient.auth.getUser();
+
+  if (authError || !user) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const { data: membership } = await supabaseClient
+    .from('user_tenants')
+    .select('role')
+    .eq('user_id', user.id)
+    .eq('tenant_id', tenantId)
+    .single();
+
+  if (!membership) {
+    return { response: NextResponse.json({ error: 'Access denied' }, { status: 403 }) };
+  }
+
+  return { userId: user.id };
+}
+
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const tenantId = searchParams.get('tenantId');
+
+  try {
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const { userId, response } = await getMemberId(tenantId);
+    if (!userId) return response;
+
+    const rateType = (searchParams.get('rateType') || 'SPOT').toUpperCase() as RateType;
+    if (!REPORTING_RATE_TYPES.includes(rateType)) {
+      return NextResponse.json({ error: 'rateType must be SPOT, EOM or AVG' }, { status: 400 });
+    }
+
+    const asOf = searchParams.get('asOf');
+    if (asOf && !DATE_PATTERN.test(asOf)) {
+      return NextResponse.json({ error: 'asOf must be YYYY-MM-DD' }, { status: 400 });
+    }
+
+    const [preferences, balances] = await Promise.all([
+      getReportingPreferences(tenantId, userId),
+      getReportingBalances(tenantId, userId, { rateType, asOf: asOf || undefined }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      preferences,
+      balances,
+    });
+  } catch (error) {
+    return handleApiError(error, {
+      endpoint: '/api/reporting-currency',
+      method: 'GET',
+      tenantId: tenantId || undefined,
+    });
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  let tenantId: string | undefined;
+
+  try {
+    const body = await req.json();
+    tenantId = body.tenantId;
+
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 });
+    }
+
+    const { userId, response } = await getMemberId(tenantId);
+    if (!userId) return response;
+
+    const preferences = await setUserReportingCurrency(tenantId, userId, body.reportingCurrency || null);
+
+    return NextResponse.json({
+      success: true,
+      preferences,
+    });
+  } catch (error) {
+    return handleApiError(error, {
+      endpoint: '/api/reporting-currency',
+      method: 'PUT',
+      tenantId,
+    });
+  }
+}
@@ -0,0 +1,565 @@
+'use client';
+
+import { useState } from 'react';
+import Papa from 'papaparse';
+import { useTenant } from '@/lib/tenant-context';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, Plus, RefreshCw, Trash2, TrendingUp, Upload } from 'lucide-react';
+import { RateTypeToggle } from '@/components/reporting-currency-controls';
+import { useAccounts } from '@/lib/hooks/use-accounts';
+import { useEntities } from '@/lib/hooks/use-entities';
+import {
+  useBankFeeReport,
+  useCreateFeePattern,
+  useDeleteFeePattern,
+  useFeePatterns,
+  useImportAnalysisStatement,
+  useLinkAccountInstitution,
+} from '@/lib/hooks/use-bank-fees';
+import type { RateType } from '@/lib/currency';
+import type { BankFeeRow, BankFeeType, ImportStatementLineInput } from '@/lib/types/bank-fees';
+
+const FEE_TYPE_LABELS: Record<BankFeeType, string> = {
+  maintenance: 'Account maintenance',
+  wire: 'Wires',
+  ach: 'ACH / SEPA',
+  card: 'Card',
+  check: 'Checks',
+  fx: 'FX',
+  overdraft: 'Overdraft / NSF',
+  analysis: 'Analysis charge',
+  other: 'Other',
+};
+
+function currentMonth(offset = 0) {
+  const d = new Date();
+  d.setUTCDate(1);
+  d.setUTCMonth(d.getUTCMonth() + offset);
+  return d.toISOString().slice(0, 7);
+}
+
+function formatAmount(value: number, currency: string) {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 0 }).format(value);
+}
+
+function FeeTable({
+  title,
+  rows,
+  months,
+  currency,
+  labelFor = (row) => row.label,
+}: {
+  title: string;
+  rows: BankFeeRow[];
+  months: string[];
+  currency: string;
+  labelFor?: (row: BankFeeRow) => string;
+}) {
+  return (
+    <Card>
+      <div className="p-4 border-b">
+        <h2 className="text-lg font-semibold">{title}</h2>
+      </div>
+      {rows.length === 0 ? (
+        <div className="p-8 text-center text-sm text-muted-foreground">No fees found.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="border-b bg-muted/50">
+              <tr>
+                <th className="text-left p-3 font-medium"></th>
+                {months.map((month) => (
+                  <th key={month} className="text-right p-3 font-medium">
+                    {month}
+                  </th>
+                ))}
+                <th className="text-right p-3 font-medium">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.key} className="border-b">
+                  <td className="p-3">{labelFor(row)}</td>
+                  {months.map((month) => (
+                    <td key={month} className="p-3 text-right">
+                      {row.months[month] ? formatAmount(row.months[month], currency) : '—'}
+                    </td>
+                  ))}
+                  <td className="p-3 text-right font-semibold">{formatAmount(row.total, currency)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Card>
+  );
+}
+
+export default function BankFeesPage() {
+  const { currentTenant, userRole } = useTenant();
+  const [startMonth, setStartMonth] = useState(currentMonth(-5));
+  const [endMonth, setEndMonth] = useState(currentMonth());
+  const [entityId, setEntityId] = useState('');
+  const [thresholdPct, setThresholdPct] = useState(20);
+  const [rateType, setRateType] = useState<RateType>('SPOT');
+
+  const { data: entities = [] } = useEntities(currentTenant?.id);
+  const { data: accounts = [] } = useAccounts(currentTenant?.id);
+  const { data, isLoading, error, refetch, isFetching } = useBankFeeReport(currentTenant?.id, {
+    startMonth,
+    endMonth,
+    entityId: entityId || undefined,
+    thresholdPct,
+    rateType,
+  });
+  const { data: patternData } = useFeePatterns(currentTenant?.id);
+  const linkAccount = useLinkAccountInstitution();
+
+  const canEdit = !!userRole && userRole !== 'viewer';
+  const institutions = patternData?.institutions || [];
+  const feeTypeLabel = (row: BankFeeRow) => FEE_TYPE_LABELS[row.key as BankFeeType] || row.label;
+
+  if (!currentTenant) {
+    return (
+      <div className="p-8">
+        <Card className="p-12 text-center max-w-2xl mx-auto">
+          <h2 className="text-2xl font-semibold mb-4">No Organization Selected</h2>
+          <p className="text-muted-foreground">Please select an organization from the sidebar.</p>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Bank Fees</h1>
+          <p className="text-muted-foreground mt-1">
+            Charges found in transactions and account analysis statements, per bank, entity and fee type
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="month"
+            value={startMonth}
+            max={endMonth}
+            onChange={(e) => e.target.value && setStartMonth(e.target.value)}
+            className="border rounded px-2 py-1 text-sm"
+          />
+          <span className="text-sm text-muted-foreground">to</span>
+          <input
+            type="month"
+            value={endMonth}
+            min={startMonth}
+            onChange={(e) => e.target.value && setEndMonth(e.target.value)}
+            className="border rounded px-2 py-1 text-sm"
+          />
+          <select
+            value={entityId}
+            onChange={(e) => setEntityId(e.target.value)}
+            className="border rounded px-2 py-1 text-sm"
+          >
+            <option value="">All entities</option>
+            {entities.map((entity) => (
+              <option key={entity.entity_id} value={entity.entity_id}>
+                {entity.entity_name}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1 text-sm text-muted-foreground">
+            Flag over
+            <input
+              type="number"
+              min={0}
+              defaultValue={thresholdPct}
+              onBlur={(e) => setThresholdPct(Math.max(0, Number(e.target.value) || 0))}
+              className="border rounded px-2 py-1 text-sm w-16"
+            />
+            %
+          </label>
+          <RateTypeToggle value={rateType} onChange={setRateType} />
+          <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </div>
+
+      {error ? (
+        <Card className="p-6 text-sm text-red-600">{(error as Error).message}</Card>
+      ) : isLoading || !data ? (
+        <div className="text-center py-12">
+          <RefreshCw className="h-8 w-8 animate-spin mx-auto mb-4 text-muted-foreground" />
+          <p className="text-muted-foreground">Analysing bank fees…</p>
+        </div>
+      ) : (
+        <>
+          {data.unconverted.length > 0 && (
+            <Card className="p-4 border-amber-200 bg-amber-50 flex items-start gap-3">
+              <AlertTriangle className="h-5 w-5 text-amber-600 mt-0.5" />
+              <p className="text-sm text-amber-900">
+                No {data.rate_type} rate to {data.currency} for {data.unconverted.join(', ')}. Those fees are left out.
+              </p>
+            </Card>
+          )}
+
+          {/* Summary */}
+          <div className="grid gap-4 md:grid-cols-3">
+            <Card className="p-6">
+              <p className="text-sm text-muted-foreground">Total bank fees</p>
+              <p className="text-2xl font-bold mt-1">{formatAmount(data.total, data.currency)}</p>
+              <p className="text-xs text-muted-foreground mt-1">
+                {data.months[0]} to {data.months[data.months.length - 1]}
+                {data.rate_date && `, ${data.rate_type} rates at ${data.rate_date}`}
+              </p>
+            </Card>
+            <Card className="p-6">
+              <p className="text-sm text-muted-foreground">Banks charging</p>
+              <p className="text-2xl font-bold mt-1">{data.by_bank.length}</p>
+            </Card>
+            <Card className="p-6">
+              <p className="text-sm text-muted-foreground">Increases over {data.threshold_pct}%</p>
+              <p className={`text-2xl font-bold mt-1 ${data.increases.length > 0 ? 'text-red-600' : ''}`}>
+                {data.increases.length}
+              </p>
+            </Card>
+          </div>
+
+          {/* Increases */}
+          {data.increases.length > 0 && (
+            <Card>
+              <div className="p-4 border-b flex items-center gap-2">
+                <TrendingUp className="h-5 w-5 text-red-600" />
+                <h2 className="text-lg font-semibold">Flagged Increases</h2>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="border-b bg-muted/50">
+                    <tr>
+                      <th className="text-left p-3 font-medium">Month</th>
+                      <th className="text-left p-3 font-medium">By</th>
+                      <th className="text-left p-3 font-medium">Name</th>
+                      <th className="text-right p-3 font-medium">Previous</th>
+                      <th className="text-right p-3 font-medium">This month</th>
+                      <th className="text-right p-3 font-medium">Change</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.increases.map((increase) => (
+                      <tr key={`${increase.dimension}:${increase.key}:${increase.month}`} className="border-b">
+                        <td className="p-3">{increase.month}</td>
+                        <td className="p-3">
+                          <Badge variant="outline">{increase.dimension.replace('_', ' ')}</Badge>
+                        </td>
+                        <td className="p-3">
+                          {increase.dimension === 'fee_type'
+                            ? FEE_TYPE_LABELS[increase.key as BankFeeType] || increase.label
+                            : increase.label}
+                        </td>
+                        <td className="p-3 text-right">{formatAmount(increase.previous_amount, data.currency)}</td>
+                        <td className="p-3 text-right">{formatAmount(increase.amount, data.currency)}</td>
+                        <td className="p-3 text-right text-red-600">
+                          {increase.change_pct === null ? 'New' : `+${increase.change_pct}%`}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </Card>
+          )}
+
+          <FeeTable
+            title="By Fee Type"
+            rows={data.by_fee_type}
+            months={data.months}
+            currency={data.currency}
+            labelFor={feeTypeLabel}
+          />
+          <FeeTable title="By Bank" rows={data.by_bank} months={data.months} currency={data.currency} />
+          <FeeTable title="By Entity" rows={data.by_entity} months={data.months} currency={data.currency} />
+
+          {/* Largest fees */}
+          {data.fees.length > 0 && (
+            <Card>
+              <div className="p-4 border-b">
+                <h2 className="text-lg font-semibold">Largest Charges</h2>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="border-b bg-muted/50">
+                    <tr>
+                      <th className="text-left p-3 font-medium">Month</th>
+                      <th className="text-left p-3 font-medium">Bank</th>
+                      <th className="text-left p-3 font-medium">Description</th>
+                      <th className="text-left p-3 font-medium">Type</th>
+                      <th className="text-left p-3 font-medium">Found by</th>
+                      <th className="text-right p-3 font-medium">Amount</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.fees.slice(0, 25).map((fee) => (
+                      <tr key={`${fee.source}:${fee.reference}`} className="border-b">
+                        <td className="p-3">{fee.month}</td>
+                        <td className="p-3">{fee.bank_name}</td>
+                        <td className="p-3">{fee.description}</td>
+                        <td className="p-3">{FEE_TYPE_LABELS[fee.fee_type]}</td>
+                        <td className="p-3 text-xs text-muted-foreground">{fee.matched_by.replace('_', ' ')}</td>
+                        <td className="p-3 text-right">{formatAmount(fee.amount, fee.currency)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </Card>
+          )}
+
+          {/* Unlinked accounts */}
+          {data.unlinked_accounts.length > 0 && (
+            <Card>
+              <div className="p-4 border-b">
+                <h2 className="text-lg font-semibold">Accounts Without an Institution</h2>
+                <p className="text-sm text-muted-foreground">
+                  Only generic fee patterns apply until the account is linked to its bank
+                </p>
+              </div>
+              <div className="divide-y">
+                {data.unlinked_accounts.map((account) => (
+                  <div key={account.account_id} className="flex items-center justify-between gap-4 p-3 text-sm">
+                    <span>
+                      {account.account_name}
+                      <span className="ml-2 text-xs text-muted-foreground">{account.bank_name}</span>
+                    </span>
+                    {canEdit && (
+                      <select
+                        defaultValue=""
+                        disabled={linkAccount.isPending}
+                        onChange={(e) =>
+                          e.target.value &&
+                          linkAccount.mutate({
+                            tenantId: currentTenant.id,
+                            accountId: account.account_id,
+                            institutionId: e.target.value,
+                          })
+                        }
+                        className="border rounded px-2 py-1 text-sm"
+                      >
+                        <option value="">Link to institution…</option>
+                        {institutions.map((institution) => (
+                          <option key={institution.institution_id} value={institution.institution_id}>
+                            {institution.institution_name}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </Card>
+          )}
+        </>
+      )}
+
+      {canEdit && (
+        <div className="grid gap-6 lg:grid-cols-2">
+          <FeePatternsCard tenantId={currentTenant.id} />
+          <AnalysisStatementImport
+            tenantId={currentTenant.id}
+            accounts={accounts.filter((account) => account.id).map((account) => ({
+              id: account.id!,
+              name: account.account_name,
+            }))}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function FeePatternsCard({ tenantId }: { tenantId: string }) {
+  const { data } = useFeePatterns(tenantId);
+  const createPattern = useCreateFeePattern();
+  const deletePattern = useDeleteFeePattern();
+  const [formData, setFormData] = useState({
+    fee_type: 'other' as BankFeeType,
+    institution_id: '',
+    pattern: '',
+    description: '',
+  });
+
+  const tenantPatterns = (data?.patterns || []).filter((pattern) => pattern.tenant_id);
+  const curatedCount = (data?.patterns || []).length - tenantPatterns.length;
+  const institutionName = (id: string | null) =>
+    id ? data?.institutions.find((institution) => institution.institution_id === id)?.institution_name || id : 'Any bank';
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    createPattern.mutate(
+      {
+        tenantId,
+        fee_type: formData.fee_type,
+        institution_id: formData.institution_id || null,
+        pattern: formData.pattern,
+        description: formData.description || null,
+      },
+      { onSuccess: () => setFormData({ ...formData, pattern: '', description: '' }) }
+    );
+  }
+
+  return (
+    <Card>
+      <div className="p-4 border-b">
+        <h2 className="text-lg font-semibold">Fee Patterns</h2>
+        <p className="text-sm text-muted-foreground">
+          {curatedCount} curated pattern(s) apply to every organization. Add your own for wording they miss.
+        </p>
+      </div>
+      <div className="divide-y">
+        {tenantPatterns.map((pattern) => (
+          <div key={pattern.id} className="flex items-center justify-between gap-4 p-3 text-sm">
+            <div>
+              <code className="text-xs">{pattern.pattern}</code>
+              <div className="text-xs text-muted-foreground mt-1">
+                {FEE_TYPE_LABELS[pattern.fee_type]} · {institutionName(pattern.institution_id)}
+              </div>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => deletePattern.mutate({ tenantId, patternId: pattern.id })}
+              disabled={deletePattern.isPending}
+            >
+              <Trash2 className="h-4 w-4 text-red-600" />
+            </Button>
+          </div>
+        ))}
+      </div>
+      <form onSubmit={handleSubmit} className="p-4 border-t space-y-2">
+        <input
+          required
+          value={formData.pattern}
+          onChange={(e) => setFormData({ ...formData, pattern: e.target.value })}
+          placeholder="Description pattern, e.g. lockbox fee|lockbox charge"
+          className="w-full border rounded px-2 py-1 text-sm"
+        />
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={formData.fee_type}
+            onChange={(e) => setFormData({ ...formData, fee_type: e.target.value as BankFeeType })}
+            className="border rounded px-2 py-1 text-sm"
+          >
+            {Object.entries(FEE_TYPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={formData.institution_id}
+            onChange={(e) => setFormData({ ...formData, institution_id: e.target.value })}
+            className="border rounded px-2 py-1 text-sm"
+          >
+            <option value="">Any bank</option>
+            {(data?.institutions || []).map((institution) => (
+              <option key={institution.institution_id} value={institution.institution_id}>
+                {institution.institution_name}
+              </option>
+            ))}
+          </select>
+          <Button type="submit" size="sm" disabled={createPattern.isPending}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </div>
+      </form>
+    </Card>
+  );
+}
+
+function AnalysisStatementImport({ tenantId, accounts }: { tenantId: string; accounts: { id: string; name: string }[] }) {
+  const importStatement = useImportAnalysisStatement();
+  const [accountId, setAccountId] = useState('');
+  const [lines, setLines] = useState<ImportStatementLineInput[]>([]);
+  const [fileName, setFileName] = useState('');
+
+  function handleFile(file: File) {
+    setFileName(file.name);
+    Papa.parse<Record<string, string>>(file, {
+      header: true,
+      skipEmptyLines: true,
+      transformHeader: (header: string) => header.trim().toLowerCase().replace(/ /g, '_'),
+      complete: (result) => {
+        setLines(
+          result.data.map((row) => ({
+            period_month: row.period_month || row.month || '',
+            service_code: row.service_code || row.afp_code || '',
+            description: row.description || null,
+            fee_type: (row.fee_type || undefined) as BankFeeType | undefined,
+            volume: row.volume ? Number(row.volume) : null,
+            unit_price: row.unit_price ? Number(row.unit_price) : null,
+            fee_amount: Number(row.fee_amount || row.amount),
+            currency: row.currency || undefined,
+          }))
+        );
+      },
+    });
+  }
+
+  return (
+    <Card>
+      <div className="p-4 border-b">
+        <h2 className="text-lg font-semibold">Import Analysis Statement</h2>
+        <p className="text-sm text-muted-foreground">
+          CSV with period_month, service_code, description, fee_type, volume, unit_price, fee_amount, currency. Its
+          lines replace that month&apos;s analysis charge debit.
+        </p>
+      </div>
+      <div className="p-4 space-y-3">
+        <select
+          value={accountId}
+          onChange={(e) => setAccountId(e.target.value)}
+          className="w-full border rounded px-2 py-1 text-sm"
+        >
+          <option value="">Select account</option>
+          {accounts.map((account) => (
+            <option key={account.id} value={account.id}>
+              {account.name}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-sm cursor-pointer">
+          <Upload className="h-4 w-4" />
+          <span>{fileName || 'Choose CSV file'}</span>
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+          />
+        </label>
+        {lines.length > 0 && <p className="text-xs text-muted-foreground">{lines.length} line(s) ready</p>}
+        <Button
+          size="sm"
+          disabled={!accountId || lines.length === 0 || importStatement.isPending}
+          onClick={() =>
+            importStatement.mutate(
+              { tenantId, accountId, lines },
+              {
+                onSuccess: () => {
+                  setLines([]);
+                  setFileName('');
+                },
+              }
+            )
+          }
+        >
+          {importStatement.isPending ? 'Importing…' : 'Import'}
+        </Button>
+      </div>
+    </Card>
+  );
+}
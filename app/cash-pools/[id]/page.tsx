@@ -0,0 +1,278 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useTenant } from '@/lib/tenant-context';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, ArrowLeft, RefreshCw } from 'lucide-react';
+import { useCashPoolSimulation } from '@/lib/hooks/use-cash-pools';
+
+function daysAgo(days: number) {
+  const d = new Date();
+  d.setUTCDate(d.getUTCDate() - days);
+  return d.toISOString().split('T')[0];
+}
+
+function formatAmount(value: number, currency: string) {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 2 }).format(value);
+}
+
+function amountClass(value: number) {
+  return value < 0 ? 'text-red-600' : value > 0 ? 'text-green-600' : '';
+}
+
+export default function CashPoolDetailPage() {
+  const params = useParams<{ id: string }>();
+  const { currentTenant } = useTenant();
+  const [startDate, setStartDate] = useState(daysAgo(90));
+  const [endDate, setEndDate] = useState(daysAgo(0));
+
+  const { data, isLoading, error, refetch, isFetching } = useCashPoolSimulation(currentTenant?.id, params.id, {
+    startDate,
+    endDate,
+  });
+
+  if (!currentTenant) {
+    return (
+      <div className="p-8">
+        <Card className="p-12 text-center max-w-2xl mx-auto">
+          <h2 className="text-2xl font-semibold mb-4">No Organization Selected</h2>
+          <p className="text-muted-foreground">Please select an organization from the sidebar.</p>
+        </Card>
+      </div>
+    );
+  }
+
+  const isPhysical = data?.pool_type === 'physical';
+  const latestDays = data ? [...data.days].reverse().slice(0, 31) : [];
+
+  return (
+    <div className="p-8 space-y-6">
+      {/* Header */}
+      <div>
+        <Link href="/cash-pools">
+          <Button variant="ghost" className="mb-4">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Cash Pools
+          </Button>
+        </Link>
+        <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">{data?.pool_name || 'Cash Pool'}</h1>
+            <p className="text-muted-foreground mt-1">
+              Simulated over historical daily balances
+              {data && (
+                <>
+                  {' '}
+                  <Badge variant="outline" className="ml-1">
+                    {data.pool_type === 'physical' ? 'Physical' : 'Notional'}
+                  </Badge>
+                  {isPhysical && (
+                    <Badge variant="outline" className="ml-1">
+                      {data.sweep_rule === 'zero_balancing' ? 'Zero balancing' : 'Target balancing'}
+                    </Badge>
+                  )}
+                </>
+              )}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="date"
+              value={startDate}
+              max={endDate}
+              onChange={(e) => e.target.value && setStartDate(e.target.value)}
+              className="border rounded px-2 py-1 text-sm"
+            />
+            <span className="text-sm text-muted-foreground">to</span>
+            <input
+              type="date"
+              value={endDate}
+              min={startDate}
+              onChange={(e) => e.target.value && setEndDate(e.target.value)}
+              className="border rounded px-2 py-1 text-sm"
+            />
+            <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+              <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {error ? (
+        <Card className="p-6 text-sm text-red-600">{(error as Error).message}</Card>
+      ) : isLoading || !data ? (
+        <div className="text-center py-12">
+          <RefreshCw className="h-8 w-8 animate-spin mx-auto mb-4 text-muted-foreground" />
+          <p className="text-muted-foreground">Simulating pool…</p>
+        </div>
+      ) : (
+        <>
+          {data.warnings.length > 0 && (
+            <Card className="p-4 border-amber-200 bg-amber-50 flex items-start gap-3">
+              <AlertTriangle className="h-5 w-5 text-amber-600 mt-0.5" />
+              <div className="text-sm text-amber-900 space-y-1">
+                {data.warnings.map((warning) => (
+                  <p key={warning}>{warning}</p>
+                ))}
+              </div>
+            </Card>
+          )}
+
+          {/* Summary */}
+          <div className="grid gap-4 md:grid-cols-3">
+            <Card className="p-6">
+              <p className="text-sm text-muted-foreground">Closing pool balance</p>
+              <p className="text-2xl font-bold mt-1">
+                {formatAmount(data.days[data.days.length - 1]?.pool_balance ?? 0, data.currency)}
+              </p>
+              <p className="text-xs text-muted-foreground mt-1">
+                {data.start_date} to {data.end_date} ({data.days.length} days)
+              </p>
+            </Card>
+            <Card className="p-6">
+              <p className="text-sm text-muted-foreground">Pool interest</p>
+              <p className={`text-2xl font-bold mt-1 ${amountClass(data.pool_interest)}`}>
+                {formatAmount(data.pool_interest, data.currency)}
+              </p>
+            </Card>
+            <Card className="p-6">
+              <p className="text-sm text-muted-foreground">Retained by {data.header.account_name}</p>
+              <p className={`text-2xl font-bold mt-1 ${amountClass(data.header.interest_retained)}`}>
+                {formatAmount(data.header.interest_retained, data.currency)}
+              </p>
+            </Card>
+          </div>
+
+          {/* Participants */}
+          <Card>
+            <div className="p-4 border-b">
+              <h2 className="text-lg font-semibold">Participants</h2>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="border-b bg-muted/50">
+                  <tr>
+                    <th className="text-left p-3 font-medium">Account</th>
+                    {isPhysical && <th className="text-right p-3 font-medium">Target</th>}
+                    {isPhysical && <th className="text-right p-3 font-medium">Swept to header</th>}
+                    {isPhysical && <th className="text-right p-3 font-medium">Funded by header</th>}
+                    <th className="text-right p-3 font-medium">{isPhysical ? 'Closing position' : 'Closing balance'}</th>
+                    <th className="text-right p-3 font-medium">Interest allocated</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.participants.map((participant) => (
+                    <tr key={participant.account_id} className="border-b">
+                      <td className="p-3">
+                        {participant.account_name}
+                        {participant.entity_id && (
+                          <span className="ml-2 text-xs text-muted-foreground">{participant.entity_id}</span>
+                        )}
+                      </td>
+                      {isPhysical && (
+                        <td className="p-3 text-right">{formatAmount(participant.target_balance, data.currency)}</td>
+                      )}
+                      {isPhysical && (
+                        <td className="p-3 text-right">{formatAmount(participant.swept_to_header, data.currency)}</td>
+                      )}
+                      {isPhysical && (
+                        <td className="p-3 text-right">{formatAmount(participant.swept_from_header, data.currency)}</td>
+                      )}
+                      <td className={`p-3 text-right ${amountClass(participant.closing_position)}`}>
+                        {formatAmount(participant.closing_position, data.currency)}
+                      </td>
+                      <td className={`p-3 text-right ${amountClass(participant.interest_allocated)}`}>
+                        {formatAmount(participant.interest_allocated, data.currency)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+
+          {/* Intercompany loans */}
+          {isPhysical && (
+            <Card>
+              <div className="p-4 border-b">
+                <h2 className="text-lg font-semibold">Intercompany Positions</h2>
+                <p className="text-sm text-muted-foreground">Closing loans created by sweeps, netted per entity pair</p>
+              </div>
+              {data.loans.length === 0 ? (
+                <div className="p-8 text-center text-sm text-muted-foreground">
+                  No positions between different entities.
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="border-b bg-muted/50">
+                      <tr>
+                        <th className="text-left p-3 font-medium">Lender</th>
+                        <th className="text-left p-3 font-medium">Borrower</th>
+                        <th className="text-right p-3 font-medium">Amount</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {data.loans.map((loan) => (
+                        <tr key={`${loan.lender_entity_id}:${loan.borrower_entity_id}`} className="border-b">
+                          <td className="p-3">{loan.lender_entity_id}</td>
+                          <td className="p-3">{loan.borrower_entity_id}</td>
+                          <td className="p-3 text-right">{formatAmount(loan.amount, data.currency)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </Card>
+          )}
+
+          {/* Daily */}
+          <Card>
+            <div className="p-4 border-b">
+              <h2 className="text-lg font-semibold">Daily Activity</h2>
+              <p className="text-sm text-muted-foreground">Most recent {latestDays.length} days</p>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="border-b bg-muted/50">
+                  <tr>
+                    <th className="text-left p-3 font-medium">Date</th>
+                    {isPhysical && <th className="text-right p-3 font-medium">Net swept</th>}
+                    <th className="text-right p-3 font-medium">{isPhysical ? 'Header balance' : 'Header own balance'}</th>
+                    <th className="text-right p-3 font-medium">Pool balance</th>
+                    <th className="text-right p-3 font-medium">Interest</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {latestDays.map((day) => (
+                    <tr key={day.date} className="border-b">
+                      <td className="p-3">{day.date}</td>
+                      {isPhysical && (
+                        <td className="p-3 text-right">
+                          {formatAmount(
+                            day.sweeps.reduce((sum, sweep) => sum + sweep.amount, 0),
+                            data.currency
+                          )}
+                        </td>
+                      )}
+                      <td className="p-3 text-right">{formatAmount(day.header_balance, data.currency)}</td>
+                      <td className="p-3 text-right">{formatAmount(day.pool_balance, data.currency)}</td>
+                      <td className={`p-3 text-right ${amountClass(day.interest)}`}>
+                        {formatAmount(day.interest, data.currency)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
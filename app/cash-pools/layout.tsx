@@ -0,0 +1,17 @@
+import { Navigation } from '@/components/navigation'
+
+export default function CashPoolsLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  return (
+    <div className="flex h-screen">
+      <Navigation />
+      <main className="flex-1 overflow-y-auto bg-background">
+        {children}
+      </main>
+    </div>
+  )
+}
+
@@ -0,0 +1,399 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useTenant } from '@/lib/tenant-context';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Layers, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { useAccounts } from '@/lib/hooks/use-accounts';
+import { useCashPools, useCreateCashPool, useDeleteCashPool } from '@/lib/hooks/use-cash-pools';
+import type { Account } from '@/lib/supabase';
+import type { CashPoolType, CreateCashPoolInput, SweepRule } from '@/lib/types/cash-pool';
+
+const POOL_TYPE_LABELS: Record<CashPoolType, string> = {
+  physical: 'Physical',
+  notional: 'Notional',
+};
+
+const SWEEP_RULE_LABELS: Record<SweepRule, string> = {
+  zero_balancing: 'Zero balancing',
+  target_balancing: 'Target balancing',
+};
+
+function formatRate(rate: number) {
+  return `${(Number(rate) * 100).toFixed(2)}%`;
+}
+
+export default function CashPoolsPage() {
+  const { currentTenant, userRole } = useTenant();
+  const [showCreate, setShowCreate] = useState(false);
+
+  const { data: pools = [], isLoading, error, refetch, isFetching } = useCashPools(currentTenant?.id);
+  const { data: accounts = [] } = useAccounts(currentTenant?.id);
+  const createPool = useCreateCashPool();
+  const deletePool = useDeleteCashPool();
+
+  const canManage = userRole === 'owner' || userRole === 'admin';
+  const accountName = (id: string) => accounts.find((account) => account.id === id)?.account_name || id;
+
+  if (!currentTenant) {
+    return (
+      <div className="p-8">
+        <Card className="p-12 text-center max-w-2xl mx-auto">
+          <h2 className="text-2xl font-semibold mb-4">No Organization Selected</h2>
+          <p className="text-muted-foreground">Please select an organization from the sidebar.</p>
+        </Card>
+      </div>
+    );
+  }
+
+  const handleDelete = (poolId: string, name: string) => {
+    if (!confirm(`Delete cash pool "${name}"? Participant accounts are not affected.`)) return;
+    deletePool.mutate({ tenantId: currentTenant.id, poolId });
+  };
+
+  return (
+    <div className="p-8 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Cash Pools</h1>
+          <p className="text-muted-foreground mt-1">
+            Concentrate entity balances on a header account and simulate sweeps, interest and intercompany positions
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+          </Button>
+          {canManage && (
+            <Button onClick={() => setShowCreate(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Pool
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {error ? (
+        <Card className="p-6 text-sm text-red-600">{(error as Error).message}</Card>
+      ) : isLoading ? (
+        <div className="text-center py-12">
+          <RefreshCw className="h-8 w-8 animate-spin mx-auto mb-4 text-muted-foreground" />
+          <p className="text-muted-foreground">Loading cash pools…</p>
+        </div>
+      ) : pools.length === 0 ? (
+        <Card className="p-12 text-center">
+          <Layers className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+          <h2 className="text-xl font-semibold mb-2">No cash pools yet</h2>
+          <p className="text-muted-foreground">
+            {canManage ? 'Create a pool to simulate sweeps across your entity accounts.' : 'Ask an admin to set up a cash pool.'}
+          </p>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {pools.map((pool) => (
+            <Card key={pool.id} className="p-6">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <Link href={`/cash-pools/${pool.id}`} className="text-lg font-semibold hover:underline">
+                    {pool.name}
+                  </Link>
+                  {pool.description && <p className="text-sm text-muted-foreground mt-1">{pool.description}</p>}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">{POOL_TYPE_LABELS[pool.pool_type]}</Badge>
+                  {!pool.is_active && <Badge variant="secondary">Inactive</Badge>}
+                </div>
+              </div>
+              <dl className="mt-4 grid grid-cols-2 gap-2 text-sm">
+                <dt className="text-muted-foreground">Header account</dt>
+                <dd>{accountName(pool.header_account_id)}</dd>
+                <dt className="text-muted-foreground">Participants</dt>
+                <dd>{pool.participants.length}</dd>
+                <dt className="text-muted-foreground">Sweep rule</dt>
+                <dd>{pool.pool_type === 'physical' ? SWEEP_RULE_LABELS[pool.sweep_rule] : 'No sweeps'}</dd>
+                <dt className="text-muted-foreground">Credit / debit rate</dt>
+                <dd>
+                  {formatRate(pool.credit_rate)} / {formatRate(pool.debit_rate)} (ACT/{pool.day_count}, {pool.currency})
+                </dd>
+              </dl>
+              <div className="mt-4 flex items-center gap-2">
+                <Link href={`/cash-pools/${pool.id}`}>
+                  <Button variant="outline" size="sm">
+                    Simulate
+                  </Button>
+                </Link>
+                {canManage && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(pool.id, pool.name)}
+                    disabled={deletePool.isPending}
+                  >
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </Button>
+                )}
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {showCreate && (
+        <CashPoolModal
+          accounts={accounts}
+          isPending={createPool.isPending}
+          onClose={() => setShowCreate(false)}
+          onCreate={(input) =>
+            createPool.mutate({ tenantId: currentTenant.id, ...input }, { onSuccess: () => setShowCreate(false) })
+          }
+        />
+      )}
+    </div>
+  );
+}
+
+// Cash Pool Modal Component
+interface CashPoolModalProps {
+  accounts: Account[];
+  isPending: boolean;
+  onClose: () => void;
+  onCreate: (input: CreateCashPoolInput) => void;
+}
+
+function CashPoolModal({ accounts, isPending, onClose, onCreate }: CashPoolModalProps) {
+  const [formData, setFormData] = useState({
+    name: '',
+    description: '',
+    pool_type: 'physical' as CashPoolType,
+    sweep_rule: 'zero_balancing' as SweepRule,
+    header_account_id: '',
+    credit_rate: '0',
+    debit_rate: '0',
+    day_count: 360 as 360 | 365,
+  });
+  // accounts.id -> target balance as typed
+  const [participants, setParticipants] = useState<Record<string, string>>({});
+
+  const header = accounts.find((account) => account.id === formData.header_account_id);
+  const eligible = accounts.filter(
+    (account) => account.id && account.id !== formData.header_account_id && (!header || account.currency === header.currency)
+  );
+
+  function toggleParticipant(accountId: string) {
+    setParticipants((current) => {
+      const next = { ...current };
+      if (accountId in next) delete next[accountId];
+      else next[accountId] = '0';
+      return next;
+    });
+  }
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+
+    onCreate({
+      name: formData.name,
+      description: formData.description || null,
+      pool_type: formData.pool_type,
+      sweep_rule: formData.sweep_rule,
+      header_account_id: formData.header_account_id,
+      credit_rate: Number(formData.credit_rate) / 100,
+      debit_rate: Number(formData.debit_rate) / 100,
+      day_count: formData.day_count,
+      participants: Object.entries(participants)
+        .filter(([accountId]) => eligible.some((account) => account.id === accountId))
+        .map(([accountId, target]) => ({
+          account_id: accountId,
+          target_balance: formData.sweep_rule === 'target_balancing' ? Number(target) || 0 : 0,
+        })),
+    });
+  }
+
+  const inputClass = 'w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <Card className="max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit} className="p-6">
+          <h2 className="text-2xl font-bold mb-6">Create Cash Pool</h2>
+
+          <div className="space-y-4">
+            {/* Name */}
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                Name <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="text"
+                required
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className={inputClass}
+                placeholder="e.g., EUR Concentration"
+              />
+            </div>
+
+            {/* Description */}
+            <div>
+              <label className="block text-sm font-medium mb-2">Description</label>
+              <input
+                type="text"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+
+            {/* Type and rule */}
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">Pool Type</label>
+                <select
+                  value={formData.pool_type}
+                  onChange={(e) => setFormData({ ...formData, pool_type: e.target.value as CashPoolType })}
+                  className={inputClass}
+                >
+                  {Object.entries(POOL_TYPE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Sweep Rule</label>
+                <select
+                  value={formData.sweep_rule}
+                  onChange={(e) => setFormData({ ...formData, sweep_rule: e.target.value as SweepRule })}
+                  disabled={formData.pool_type === 'notional'}
+                  className={inputClass}
+                >
+                  {Object.entries(SWEEP_RULE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {/* Header account */}
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                Header Account <span className="text-red-500">*</span>
+              </label>
+              <select
+                required
+                value={formData.header_account_id}
+                onChange={(e) => setFormData({ ...formData, header_account_id: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">Select an account</option>
+                {accounts
+                  .filter((account) => account.id)
+                  .map((account) => (
+                    <option key={account.id} value={account.id}>
+                      {account.account_name} ({account.currency || 'USD'})
+                    </option>
+                  ))}
+              </select>
+              <p className="text-xs text-muted-foreground mt-1">
+                Participants must be held in the header account&apos;s currency
+              </p>
+            </div>
+
+            {/* Participants */}
+            {formData.header_account_id && (
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Participants <span className="text-red-500">*</span>
+                </label>
+                {eligible.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No other accounts in this currency.</p>
+                ) : (
+                  <div className="border rounded-lg divide-y max-h-60 overflow-y-auto">
+                    {eligible.map((account) => (
+                      <div key={account.id} className="flex items-center gap-3 px-4 py-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={account.id! in participants}
+                          onChange={() => toggleParticipant(account.id!)}
+                        />
+                        <span className="flex-1">
+                          {account.account_name}
+                          {account.entity_id && (
+                            <span className="ml-2 text-xs text-muted-foreground">{account.entity_id}</span>
+                          )}
+                        </span>
+                        {formData.sweep_rule === 'target_balancing' &&
+                          formData.pool_type === 'physical' &&
+                          account.id! in participants && (
+                            <input
+                              type="number"
+                              step="0.01"
+                              value={participants[account.id!]}
+                              onChange={(e) => setParticipants({ ...participants, [account.id!]: e.target.value })}
+                              className="w-32 px-2 py-1 border rounded text-right"
+                              placeholder="Target"
+                            />
+                          )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Interest */}
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">Credit Rate (%)</label>
+                <input
+                  type="number"
+                  step="0.001"
+                  value={formData.credit_rate}
+                  onChange={(e) => setFormData({ ...formData, credit_rate: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Debit Rate (%)</label>
+                <input
+                  type="number"
+                  step="0.001"
+                  value={formData.debit_rate}
+                  onChange={(e) => setFormData({ ...formData, debit_rate: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Day Count</label>
+                <select
+                  value={formData.day_count}
+                  onChange={(e) => setFormData({ ...formData, day_count: Number(e.target.value) as 360 | 365 })}
+                  className={inputClass}
+                >
+                  <option value={360}>ACT/360</option>
+                  <option value={365}>ACT/365</option>
+                </select>
+              </div>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2 mt-6">
+            <Button type="button" variant="outline" onClick={onClose} disabled={isPending}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isPending || Object.keys(participants).length === 0}>
+              {isPending ? 'Creating…' : 'Create Pool'}
+            </Button>
+          </div>
+        </form>
+      </Card>
+    </div>
+  );
+}
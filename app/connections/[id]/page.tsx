@@ -8,11 +8,14 @@ import { Navigation } from '@/components/navigation';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, RefreshCw, Trash2, CheckCircle2, AlertCircle, Clock, Building2, CreditCard, TrendingUp, Activity, Zap, AlertTriangle } from 'lucide-react';
+import { ArrowLeft, RefreshCw, Trash2, CheckCircle2, AlertCircle, Clock, Building2, CreditCard, TrendingUp, Activity, Zap, AlertTriangle, Eye } from 'lucide-react';
 import { toast } from 'sonner';
-import { useConnection, useSyncConnection, useDeleteConnection } from '@/lib/hooks/use-connections';
+import { useConnection, useSyncConnection, useDeleteConnection, usePreviewSync } from '@/lib/hooks/use-connections';
 import { useAccounts } from '@/lib/hooks/use-accounts';
 import { useQueryClient } from '@tanstack/react-query';
+import { SyncPreviewCard } from '@/components/connections/sync-preview-card';
+import type { SyncDiff } from '@/lib/types/sync-diff';
+import { accountBalance } from '@/lib/utils';
 
 interface Connection {
   id: string;
@@ -107,6 +110,7 @@ export default function ConnectionDetailPage() {
   const [jobs, setJobs] = useState<IngestionJob[]>([]);
   const [isSyncing, setIsSyncing] = useState(false);
   const [syncJobId, setSyncJobId] = useState<string | null>(null);
+  const [preview, setPreview] = useState<SyncDiff | null>(null);
 
   const connectionId = params.id as string;
   const syncingParam = searchParams.get('syncing') === 'true';
@@ -116,6 +120,7 @@ export default function ConnectionDetailPage() {
   const { data: connection, isLoading: loading } = useConnection(currentTenant?.id, connectionId);
   const { data: tenantAccounts = [] } = useAccounts(currentTenant?.id);
   const syncMutation = useSyncConnection();
+  const previewMutation = usePreviewSync();
   const deleteMutation = useDeleteConnection();
 
   // Initialize sync if redirected from OAuth
@@ -291,6 +296,8 @@ export default function ConnectionDetailPage() {
       onSuccess: (data) => {
         // Remove temp job and fetch real jobs
         setJobs(jobs.filter(j => !j.id.startsWith('temp-')));
+        // A preview is out of date once the sync has run
+        setPreview(null);
         
         // Fetch updated job list
         fetch(`/api/connections/jobs?connectionId=${connectionId}&tenantId=${currentTenant.id}`)
@@ -333,6 +340,19 @@ export default function ConnectionDetailPage() {
     });
   }
 
+  function handlePreview() {
+    if (!currentTenant || !connection || !connection.provider) return;
+
+    previewMutation.mutate(
+      {
+        provider: connection.provider,
+        connectionId: connection.id,
+        tenantId: currentTenant.id,
+      },
+      { onSuccess: (diff) => setPreview(diff) }
+    );
+  }
+
   async function handleDelete() {
     if (!currentTenant || !connection) return;
     if (!confirm('Are you sure you want to delete this connection?')) return;
@@ -474,10 +494,20 @@ export default function ConnectionDetailPage() {
               </div>
               <div className="flex gap-2">
                 {connection.provider && (
-                  <Button onClick={handleSync} disabled={syncMutation.isPending}>
-                    <RefreshCw className={`h-4 w-4 mr-2 ${syncMutation.isPending ? 'animate-spin' : ''}`} />
-                    Sync Now
-                  </Button>
+                  <>
+                    <Button
+                      variant="outline"
+                      onClick={handlePreview}
+                      disabled={previewMutation.isPending || syncMutation.isPending}
+                    >
+                      <Eye className="h-4 w-4 mr-2" />
+                      {previewMutation.isPending ? 'Previewing...' : 'Preview Sync'}
+                    </Button>
+                    <Button onClick={handleSync} disabled={syncMutation.isPending}>
+                      <RefreshCw className={`h-4 w-4 mr-2 ${syncMutation.isPending ? 'animate-spin' : ''}`} />
+                      Sync Now
+                    </Button>
+                  </>
                 )}
                 <Button variant="destructive" onClick={handleDelete} disabled={deleteMutation.isPending}>
                   <Trash2 className="h-4 w-4 mr-2" />
@@ -487,6 +517,15 @@ export default function ConnectionDetailPage() {
             </div>
           </div>
 
+          {preview && (
+            <SyncPreviewCard
+              diff={preview}
+              isApplying={syncMutation.isPending}
+              onApply={handleSync}
+              onDismiss={() => setPreview(null)}
+            />
+          )}
+
           {/* Connection Overview */}
           <div className="grid gap-6 md:grid-cols-4 mb-6">
             {/* Health Score Card */}
@@ -738,7 +777,7 @@ export default function ConnectionDetailPage() {
                   // Handle both account types (from accounts table or provider_accounts)
                   const accountName = account.account_name || account.name;
                   const accountType = account.account_type || account.type;
-                  const balance = account.current_balance ?? account.balance ?? 0;
+                  const balance = accountBalance(account);
                   const currency = account.currency || 'EUR';
                   const status = account.account_status || account.status || 'active';
                   
@@ -23,12 +23,24 @@ import {
 import Link from 'next/link';
 import { useAccounts } from '@/lib/hooks/use-accounts';
 import { useEntities } from '@/lib/hooks/use-entities';
+import { TreasuryQuestionPanel } from '@/components/treasury-question-panel';
+import { RateDateNote, RateTypeToggle } from '@/components/reporting-currency-controls';
+import { CashPositionTrend } from '@/components/cash-position-trend';
+import type { RateType } from '@/lib/currency';
+import type { ReportingAmount, ReportingContext } from '@/lib/types/fx';
+import { accountBalance } from '@/lib/utils';
 
 interface DashboardData {
-  totalCashUSD: number;
-  inflows: number;
-  outflows: number;
-  netCashFlow: number;
+  reporting: ReportingContext;
+  totalCash: ReportingAmount;
+  inflows: ReportingAmount;
+  outflows: ReportingAmount;
+  netCashFlow: ReportingAmount;
+  intercompanyExcluded?: {
+    count: number;
+    inflows: ReportingAmount;
+    outflows: ReportingAmount;
+  };
   accountCount: number;
   entityCount: number;
   transactionCount: number;
@@ -43,11 +55,12 @@ interface DashboardData {
     status: string;
   }>;
   accountsByCurrency: Record<string, any[]>;
+  currencyTotals: Record<string, ReportingAmount>;
   entityStats: Array<{
     entity_id: string;
     entity_name: string;
     account_count: number;
-    total_balance: number;
+    total_balance: ReportingAmount; // In the entity's reporting currency
   }>;
 }
 
@@ -78,7 +91,7 @@ function getStatusColor(status: string) {
 }
 
 export default function DashboardPage() {
-  const { currentTenant } = useTenant();
+  const { currentTenant, userRole } = useTenant();
   const [data, setData] = useState<DashboardData | null>(null);
   const [initialLoading, setInitialLoading] = useState(true);
   const [filterLoading, setFilterLoading] = useState(false);
@@ -91,6 +104,7 @@ export default function DashboardPage() {
   const [selectedEntities, setSelectedEntities] = useState<string[]>([]);
   const [selectedCurrencies, setSelectedCurrencies] = useState<string[]>([]);
   const [transactionType, setTransactionType] = useState<string>('all');
+  const [rateType, setRateType] = useState<RateType>('SPOT');
   
   // Dynamic custom filters
   const [customFilters, setCustomFilters] = useState<FilterConfig[]>([]);
@@ -160,6 +174,7 @@ export default function DashboardPage() {
           tenantId: currentTenant!.id,
           dateRange,
           transactionType,
+          rateType,
         });
 
         if (selectedAccounts.length > 0) {
@@ -201,7 +216,7 @@ export default function DashboardPage() {
     }
 
     fetchDashboardData();
-  }, [currentTenant, dateRange, selectedAccounts, selectedEntities, selectedCurrencies, transactionType, customFilters]);
+  }, [currentTenant, dateRange, selectedAccounts, selectedEntities, selectedCurrencies, transactionType, customFilters, rateType]);
 
   function addCustomFilter() {
     if (!newFilterField || !newFilterValue) return;
@@ -321,6 +336,8 @@ export default function DashboardPage() {
             Real-time treasury insights and cash visibility
           </p>
         </div>
+        <div className="flex items-center gap-2">
+        <RateTypeToggle value={rateType} onChange={setRateType} />
         <Button
           variant={showFilters ? 'default' : 'outline'}
           onClick={() => setShowFilters(!showFilters)}
@@ -334,8 +351,11 @@ export default function DashboardPage() {
             </Badge>
           )}
         </Button>
+        </div>
       </div>
 
+      <TreasuryQuestionPanel tenantId={currentTenant.id} />
+
       {/* Active Filter Chips - Industry Standard Pattern */}
       {hasActiveFilters && (
         <div className="mb-6 flex flex-wrap items-center gap-2">
@@ -728,28 +748,38 @@ export default function DashboardPage() {
               <DollarSign className="h-4 w-4 text-stone-400" />
             </div>
             <div className="text-3xl font-display font-black text-stone-900 tracking-tight tabular-nums">
-              {formatCurrency(data.totalCashUSD, 'USD')}
+              {formatCurrency(data.totalCash.amount, data.totalCash.currency)}
             </div>
             <p className="text-xs text-stone-500">
               Across {data.accountCount} account{data.accountCount !== 1 ? 's' : ''}
             </p>
+            <RateDateNote amount={data.totalCash} />
           </div>
 
           <div className="bg-white rounded-xl border border-stone-200 shadow-sm p-6">
             <div className="flex flex-row items-center justify-between space-y-0 pb-2">
               <div className="text-xs font-bold text-stone-400 uppercase tracking-wider">Net Cash Flow (7d)</div>
-              {data.netCashFlow >= 0 ? (
+              {data.netCashFlow.amount >= 0 ? (
                 <TrendingUp className="h-4 w-4 text-primary" />
               ) : (
                 <TrendingDown className="h-4 w-4 text-red-600" />
               )}
             </div>
-            <div className={`text-3xl font-display font-black tracking-tight tabular-nums ${data.netCashFlow >= 0 ? 'text-primary' : 'text-red-600'}`}>
-              {data.netCashFlow >= 0 ? '+' : ''}{formatCurrency(data.netCashFlow, 'USD')}
+            <div className={`text-3xl font-display font-black tracking-tight tabular-nums ${data.netCashFlow.amount >= 0 ? 'text-primary' : 'text-red-600'}`}>
+              {data.netCashFlow.amount >= 0 ? '+' : ''}
+              {formatCurrency(data.netCashFlow.amount, data.netCashFlow.currency)}
             </div>
             <p className="text-xs text-stone-500">
-              In: {formatCurrency(data.inflows, 'USD')} | Out: {formatCurrency(data.outflows, 'USD')}
+              In: {formatCurrency(data.inflows.amount, data.inflows.currency)} | Out:{' '}
+              {formatCurrency(data.outflows.amount, data.outflows.currency)}
             </p>
+            <RateDateNote amount={data.netCashFlow} />
+            {data.intercompanyExcluded && data.intercompanyExcluded.count > 0 && (
+              <p className="text-xs text-stone-400">
+                Excludes {data.intercompanyExcluded.count} intercompany transaction
+                {data.intercompanyExcluded.count !== 1 ? 's' : ''}
+              </p>
+            )}
           </div>
 
           <div className="bg-white rounded-xl border border-stone-200 shadow-sm p-6">
@@ -777,6 +807,8 @@ export default function DashboardPage() {
           </div>
         </div>
 
+        <CashPositionTrend tenantId={currentTenant.id} rateType={rateType} canSave={!!userRole && userRole !== 'viewer'} />
+
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-7">
           {/* Recent Transactions */}
           <div className="col-span-4 bg-white rounded-xl border border-stone-200 shadow-sm">
@@ -839,12 +871,10 @@ export default function DashboardPage() {
               ) : (
               <div className="space-y-4">
                 {Object.entries(data.accountsByCurrency).map(([currency, accounts]) => {
-                    const totalBalance = accounts.reduce((sum, acc) => {
-                      const balance = acc.balance ?? acc.current_balance ?? acc.available_balance ?? 0;
-                      return sum + balance;
-                    }, 0);
-                    const percentage = data.totalCashUSD > 0
-                      ? (totalBalance / data.totalCashUSD) * 100
+                    const totalBalance = accounts.reduce((sum, acc) => sum + accountBalance(acc), 0);
+                    const converted = data.currencyTotals[currency];
+                    const percentage = data.totalCash.amount > 0 && converted
+                      ? (converted.amount / data.totalCash.amount) * 100
                       : 0;
 
                   return (
@@ -861,6 +891,9 @@ export default function DashboardPage() {
                             {formatCurrency(totalBalance, currency)}
                           </p>
                           <p className="text-xs text-stone-500">
+                            {converted && currency !== converted.currency && (
+                              <>≈ {formatCurrency(converted.amount, converted.currency)} · </>
+                            )}
                             {percentage.toFixed(1)}%
                           </p>
                         </div>
@@ -900,8 +933,9 @@ export default function DashboardPage() {
                       <Badge variant="outline" className="border-stone-300 text-stone-600">{entity.account_count} accounts</Badge>
                 </div>
                     <p className="text-2xl font-display font-black tabular-nums text-stone-900">
-                      {formatCurrency(entity.total_balance, 'USD')}
+                      {formatCurrency(entity.total_balance.amount, entity.total_balance.currency)}
                     </p>
+                    <RateDateNote amount={entity.total_balance} />
                   </Link>
                 ))}
             </div>
@@ -11,9 +11,13 @@ import { ArrowLeft, Building2, Wallet, Globe, Mail, Phone, Edit, Trash2, Plus, X
 import { useEntity, useUpdateEntity, useDeleteEntity, useEntities } from '@/lib/hooks/use-entities';
 import { useAccounts } from '@/lib/hooks/use-accounts';
 import { useUpdateAccountEntity } from '@/lib/hooks/use-update-account-entity';
+import { useReportingBalances } from '@/lib/hooks/use-reporting-currency';
+import { RateDateNote, RateTypeToggle } from '@/components/reporting-currency-controls';
+import type { RateType } from '@/lib/currency';
 import { toast } from 'sonner';
 import Link from 'next/link';
 import type { EntityType, EntityStatus, UpdateEntityInput } from '@/lib/types/entity';
+import { accountBalance } from '@/lib/utils';
 
 export default function EntityDetailPage() {
   const router = useRouter();
@@ -21,6 +25,7 @@ export default function EntityDetailPage() {
   const { currentTenant, userRole } = useTenant();
   const { user } = useAuth();
   const [showEditModal, setShowEditModal] = useState(false);
+  const [rateType, setRateType] = useState<RateType>('SPOT');
 
   const entityId = params.id as string;
 
@@ -28,6 +33,7 @@ export default function EntityDetailPage() {
   const { data: entity, isLoading: entityLoading } = useEntity(currentTenant?.id, entityId);
   const { data: accounts = [], isLoading: accountsLoading } = useAccounts(currentTenant?.id);
   const { data: allEntities = [] } = useEntities(currentTenant?.id);
+  const { data: reporting } = useReportingBalances(currentTenant?.id, rateType);
   const updateAccountEntityMutation = useUpdateAccountEntity();
   const updateEntityMutation = useUpdateEntity();
   const deleteEntityMutation = useDeleteEntity();
@@ -46,12 +52,12 @@ export default function EntityDetailPage() {
 
   // Calculate statistics
   const totalBalance = useMemo(() => {
-    return entityAccounts.reduce((sum, acc) => {
-      const balance = acc.balance ?? acc.current_balance ?? acc.available_balance ?? 0;
-      return sum + balance;
-    }, 0);
+    return entityAccounts.reduce((sum, acc) => sum + accountBalance(acc), 0);
   }, [entityAccounts]);
 
+  // Converted into the entity's reporting currency
+  const reportingTotal = reporting?.balances.entities[entityId];
+
   const currencies = useMemo(() => {
     return [...new Set(entityAccounts.map(acc => acc.currency || 'USD').filter(Boolean))];
   }, [entityAccounts]);
@@ -227,16 +233,20 @@ export default function EntityDetailPage() {
         </Card>
 
         <Card className="p-6">
-          <p className="text-xs text-muted-foreground mb-1">Total Balance</p>
+          <div className="flex items-center justify-between mb-1">
+            <p className="text-xs text-muted-foreground">Total Balance</p>
+            <RateTypeToggle value={rateType} onChange={setRateType} />
+          </div>
           <p className="text-2xl font-bold">
             {new Intl.NumberFormat('en-US', {
               style: 'currency',
-              currency: currencies[0] || 'USD',
+              currency: reportingTotal?.currency || currencies[0] || 'USD',
               minimumFractionDigits: 0,
               maximumFractionDigits: 0,
-            }).format(totalBalance)}
+            }).format(reportingTotal?.amount ?? totalBalance)}
           </p>
-          {currencies.length > 1 && (
+          {reportingTotal && <RateDateNote amount={reportingTotal} className="mt-1" />}
+          {!reportingTotal && currencies.length > 1 && (
             <p className="text-xs text-muted-foreground mt-1">
               +{currencies.length - 1} more {currencies.length - 1 === 1 ? 'currency' : 'currencies'}
             </p>
@@ -355,7 +365,7 @@ export default function EntityDetailPage() {
                       {new Intl.NumberFormat('en-US', {
                         style: 'currency',
                         currency: account.currency || 'USD',
-                      }).format(account.balance ?? account.current_balance ?? 0)}
+                      }).format(accountBalance(account))}
                     </p>
                   </div>
                   {canEdit && (
@@ -453,6 +463,7 @@ function EditEntityModal({ entity, isOpen, onClose, onSubmit, isLoading }: EditE
     type: entity.type as EntityType,
     jurisdiction: entity.jurisdiction,
     status: entity.status as EntityStatus,
+    reporting_currency: entity.reporting_currency || '',
     tax_id: entity.tax_id || '',
     contact_email: entity.contact_email || '',
     phone: entity.phone || '',
@@ -563,6 +574,18 @@ function EditEntityModal({ entity, isOpen, onClose, onSubmit, isLoading }: EditE
                 className="w-full border rounded-lg px-4 py-2"
               />
             </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">Reporting Currency</label>
+              <input
+                type="text"
+                maxLength={3}
+                value={formData.reporting_currency || ''}
+                onChange={(e) => setFormData({ ...formData, reporting_currency: e.target.value.toUpperCase() })}
+                placeholder="Organization default"
+                className="w-full border rounded-lg px-4 py-2"
+              />
+            </div>
           </div>
 
           {/* Contact Information */}
@@ -11,10 +11,14 @@ import { Badge } from '@/components/ui/badge';
 import { Plus, Building2, Trash2, Edit, Search, Filter, Globe, Mail, Phone, LayoutGrid, List, Upload } from 'lucide-react';
 import { useEntities, useCreateEntity, useUpdateEntity, useDeleteEntity } from '@/lib/hooks/use-entities';
 import { useAccounts } from '@/lib/hooks/use-accounts';
+import { useReportingBalances } from '@/lib/hooks/use-reporting-currency';
+import type { RateType } from '@/lib/currency';
 import type { Entity, EntityType, EntityStatus, CreateEntityInput, UpdateEntityInput } from '@/lib/types/entity';
 import { toast } from 'sonner';
 import { EntityGroupedView } from '@/components/EntityGroupedView';
 import { BulkImportModal } from '@/components/BulkImportModal';
+import { RateDateNote, RateTypeToggle } from '@/components/reporting-currency-controls';
+import { accountBalance } from '@/lib/utils';
 
 export default function EntitiesPage() {
   const router = useRouter();
@@ -26,10 +30,12 @@ export default function EntitiesPage() {
   const [statusFilter, setStatusFilter] = useState<EntityStatus | 'all'>('all');
   const [viewMode, setViewMode] = useState<'grid' | 'grouped'>('grouped');
   const [showBulkImport, setShowBulkImport] = useState(false);
+  const [rateType, setRateType] = useState<RateType>('SPOT');
 
   // Use React Query hooks
   const { data: entities = [], isLoading: entitiesLoading } = useEntities(currentTenant?.id);
   const { data: accounts = [], isLoading: accountsLoading } = useAccounts(currentTenant?.id);
+  const { data: reporting } = useReportingBalances(currentTenant?.id, rateType);
   const createEntityMutation = useCreateEntity();
   const updateEntityMutation = useUpdateEntity();
   const deleteEntityMutation = useDeleteEntity();
@@ -57,14 +63,7 @@ export default function EntitiesPage() {
   const entityStats = useMemo(() => {
     return filteredEntities.map(entity => {
       const entityAccounts = accounts.filter(acc => acc.entity_id === entity.entity_id);
-      const totalBalance = entityAccounts.reduce((sum, acc) => {
-        const balance =
-          acc.current_balance ??
-          acc.available_balance ??
-          acc.balance ??
-          0;
-        return sum + balance;
-      }, 0);
+      const totalBalance = entityAccounts.reduce((sum, acc) => sum + accountBalance(acc), 0);
       const currencies = [...new Set(entityAccounts.map(acc => acc.currency || 'USD').filter(Boolean))];
       
       return {
@@ -72,9 +71,10 @@ export default function EntitiesPage() {
         account_count: entityAccounts.length,
         total_balance: totalBalance,
         currencies: currencies.length > 0 ? currencies : ['USD'],
+        reporting_total: reporting?.balances.entities[entity.entity_id],
       };
     });
-  }, [filteredEntities, accounts]);
+  }, [filteredEntities, accounts, reporting]);
 
   async function handleDelete(entityId: string) {
     if (!currentTenant) return;
@@ -123,6 +123,7 @@ export default function EntitiesPage() {
           </p>
         </div>
         <div className="flex items-center gap-3">
+          {!loading && entities.length > 0 && <RateTypeToggle value={rateType} onChange={setRateType} />}
           {/* View Mode Toggle */}
           {!loading && entities.length > 0 && (
             <div className="flex items-center gap-1 p-1 bg-muted rounded-lg">
@@ -230,11 +231,12 @@ export default function EntitiesPage() {
               accounts={accounts}
               onEntityClick={(entityId) => router.push(`/entities/${entityId}`)}
               onAccountClick={(accountId) => router.push(`/accounts/${accountId}`)}
+              reportingTotals={reporting?.balances.entities}
             />
           ) : (
             /* Grid View */
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {entityStats.map(({ entity, account_count, total_balance, currencies }) => (
+              {entityStats.map(({ entity, account_count, total_balance, currencies, reporting_total }) => (
                 <Card 
                   key={entity.entity_id} 
                   className="p-6 hover:shadow-lg transition-shadow cursor-pointer"
@@ -307,12 +309,13 @@ export default function EntitiesPage() {
                         <p className="text-2xl font-bold">
                           {new Intl.NumberFormat('en-US', {
                             style: 'currency',
-                            currency: currencies[0] || 'USD',
+                            currency: reporting_total?.currency || currencies[0] || 'USD',
                             minimumFractionDigits: 0,
                             maximumFractionDigits: 0,
-                          }).format(total_balance)}
+                          }).format(reporting_total?.amount ?? total_balance)}
                         </p>
-                        {currencies.length > 1 && (
+                        {reporting_total && <RateDateNote amount={reporting_total} className="mt-1" />}
+                        {!reporting_total && currencies.length > 1 && (
                           <p className="text-xs text-muted-foreground mt-1">
                             +{currencies.length - 1} more {currencies.length - 1 === 1 ? 'currency' : 'currencies'}
                           </p>
@@ -385,6 +388,8 @@ function EntityModal({ entity, tenantId, onClose, onCreate, onUpdate, isCreating
     entity_name: entity?.entity_name || '',
     type: (entity?.type || 'Corporation') as EntityType,
     jurisdiction: entity?.jurisdiction || '',
+    functional_currency: entity?.functional_currency || '',
+    reporting_currency: entity?.reporting_currency || '',
     tax_id: entity?.tax_id || '',
     contact_email: entity?.contact_email || '',
     description: entity?.description || '',
@@ -405,6 +410,8 @@ function EntityModal({ entity, tenantId, onClose, onCreate, onUpdate, isCreating
         entity_name: formData.entity_name,
         type: formData.type,
         jurisdiction: formData.jurisdiction,
+        functional_currency: formData.functional_currency.toUpperCase() || undefined,
+        reporting_currency: formData.reporting_currency.toUpperCase() || null,
         tax_id: formData.tax_id || undefined,
         contact_email: formData.contact_email || undefined,
         description: formData.description || undefined,
@@ -419,6 +426,8 @@ function EntityModal({ entity, tenantId, onClose, onCreate, onUpdate, isCreating
         entity_name: formData.entity_name,
         type: formData.type,
         jurisdiction: formData.jurisdiction,
+        functional_currency: formData.functional_currency.toUpperCase() || undefined,
+        reporting_currency: formData.reporting_currency.toUpperCase() || undefined,
         tax_id: formData.tax_id || undefined,
         contact_email: formData.contact_email || undefined,
         description: formData.description || undefined,
@@ -508,6 +517,38 @@ function EntityModal({ entity, tenantId, onClose, onCreate, onUpdate, isCreating
               />
             </div>
 
+            {/* Functional Currency */}
+            <div>
+              <label className="block text-sm font-medium mb-2">Functional Currency</label>
+              <input
+                type="text"
+                maxLength={3}
+                value={formData.functional_currency}
+                onChange={(e) => setFormData({ ...formData, functional_currency: e.target.value.toUpperCase() })}
+                className="w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="e.g., USD, EUR, GBP"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                FX exposure is measured against this currency (defaults to USD)
+              </p>
+            </div>
+
+            {/* Reporting Currency */}
+            <div>
+              <label className="block text-sm font-medium mb-2">Reporting Currency</label>
+              <input
+                type="text"
+                maxLength={3}
+                value={formData.reporting_currency}
+                onChange={(e) => setFormData({ ...formData, reporting_currency: e.target.value.toUpperCase() })}
+                className="w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="Organization default"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                This entity&apos;s balance totals are shown in this currency (leave blank for the organization default)
+              </p>
+            </div>
+
             {/* Tax ID */}
             <div>
               <label className="block text-sm font-medium mb-2">Tax ID / EIN</label>
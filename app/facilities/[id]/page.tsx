@@ -0,0 +1,446 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { useTenant } from '@/lib/tenant-context';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, Pencil, Plus, RefreshCw, Save, Trash2 } from 'lucide-react';
+import { FACILITY_TYPE_LABELS, FacilityModal } from '@/components/FacilityModal';
+import { useAccounts } from '@/lib/hooks/use-accounts';
+import { useEntities } from '@/lib/hooks/use-entities';
+import { useDeleteFacility, useFacility, useReplaceRepayments, useUpdateFacility } from '@/lib/hooks/use-facilities';
+import { useCovenants } from '@/lib/hooks/use-covenants';
+import { COVENANT_METRICS } from '@/lib/facilities/covenants';
+import { generateRepaymentSchedule } from '@/lib/facilities/register';
+import type { CovenantTestStatus, RepaymentFrequency, RepaymentInput } from '@/lib/types/facility';
+
+const STATUS_STYLES: Record<CovenantTestStatus, string> = {
+  compliant: 'bg-green-100 text-green-800',
+  near_breach: 'bg-amber-100 text-amber-800',
+  breach: 'bg-red-100 text-red-800',
+  insufficient_data: 'bg-stone-100 text-stone-600',
+};
+
+function formatAmount(value: number, currency: string) {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 2 }).format(value);
+}
+
+function formatRate(rate: number | null) {
+  return rate == null ? '—' : `${(rate * 100).toFixed(3)}%`;
+}
+
+export default function FacilityDetailPage() {
+  const params = useParams<{ id: string }>();
+  const router = useRouter();
+  const { currentTenant, userRole } = useTenant();
+  const [showEdit, setShowEdit] = useState(false);
+  // Unsaved schedule edits; null shows the saved schedule
+  const [draft, setDraft] = useState<RepaymentInput[] | null>(null);
+  const [generator, setGenerator] = useState({
+    amount: '',
+    firstDueDate: '',
+    frequency: 'quarterly' as RepaymentFrequency,
+    balloonPct: '0',
+  });
+
+  const { data: facility, isLoading, error, refetch, isFetching } = useFacility(currentTenant?.id, params.id);
+  const { data: covenants = [] } = useCovenants(currentTenant?.id, params.id);
+  const { data: entities = [] } = useEntities(currentTenant?.id);
+  const { data: accounts = [] } = useAccounts(currentTenant?.id);
+  const updateFacility = useUpdateFacility();
+  const deleteFacility = useDeleteFacility();
+  const replaceRepayments = useReplaceRepayments();
+
+  const canManage = userRole === 'owner' || userRole === 'admin';
+
+  if (!currentTenant) {
+    return (
+      <div className="p-8">
+        <Card className="p-12 text-center max-w-2xl mx-auto">
+          <h2 className="text-2xl font-semibold mb-4">No Organization Selected</h2>
+          <p className="text-muted-foreground">Please select an organization from the sidebar.</p>
+        </Card>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-8">
+        <Card className="p-6 text-sm text-red-600">{(error as Error).message}</Card>
+      </div>
+    );
+  }
+
+  if (isLoading || !facility) {
+    return (
+      <div className="text-center py-12">
+        <RefreshCw className="h-8 w-8 animate-spin mx-auto mb-4 text-muted-foreground" />
+        <p className="text-muted-foreground">Loading facility…</p>
+      </div>
+    );
+  }
+
+  const schedule: RepaymentInput[] =
+    draft ??
+    [...facility.repayments]
+      .sort((a, b) => a.due_date.localeCompare(b.due_date))
+      .map(({ due_date, principal_amount, status }) => ({ due_date, principal_amount, status }));
+  const scheduled = schedule.reduce((sum, row) => sum + Number(row.principal_amount || 0), 0);
+  const accountName = (id: string) => accounts.find((account) => account.id === id)?.account_name || id;
+
+  const updateRow = (index: number, changes: Partial<RepaymentInput>) =>
+    setDraft(schedule.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+
+  const handleGenerate = () => {
+    setDraft(
+      generateRepaymentSchedule({
+        amount: Number(generator.amount || facility.position.drawn || facility.commitment_amount),
+        firstDueDate: generator.firstDueDate,
+        maturityDate: facility.maturity_date,
+        frequency: generator.frequency,
+        balloonPct: Number(generator.balloonPct) || 0,
+      })
+    );
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`Delete facility "${facility.name}" with its schedule and covenants?`)) return;
+    deleteFacility.mutate(
+      { tenantId: currentTenant.id, facilityId: facility.id },
+      { onSuccess: () => router.push('/facilities') }
+    );
+  };
+
+  return (
+    <div className="p-8 space-y-6">
+      {/* Header */}
+      <div>
+        <Link href="/facilities">
+          <Button variant="ghost" className="mb-4">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Facilities
+          </Button>
+        </Link>
+        <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">{facility.name}</h1>
+            <p className="text-muted-foreground mt-1">
+              {facility.lender} to {facility.entity_id}
+              <Badge variant="outline" className="ml-2">
+                {FACILITY_TYPE_LABELS[facility.facility_type]}
+              </Badge>
+              {facility.status !== 'active' && (
+                <Badge variant="secondary" className="ml-1">
+                  {facility.status}
+                </Badge>
+              )}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+              <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+            </Button>
+            {canManage && (
+              <>
+                <Button variant="outline" onClick={() => setShowEdit(true)}>
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Edit
+                </Button>
+                <Button variant="outline" onClick={handleDelete} disabled={deleteFacility.isPending}>
+                  <Trash2 className="h-4 w-4 text-red-600" />
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Position */}
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card className="p-4">
+          <p className="text-sm text-muted-foreground">Commitment</p>
+          <p className="text-2xl font-semibold">{formatAmount(facility.commitment_amount, facility.currency)}</p>
+        </Card>
+        <Card className="p-4">
+          <p className="text-sm text-muted-foreground">
+            Drawn {facility.position.drawn_source === 'accounts' ? '(from accounts)' : '(entered)'}
+          </p>
+          <p className="text-2xl font-semibold">{formatAmount(facility.position.drawn, facility.currency)}</p>
+          {facility.position.utilization != null && (
+            <p className="text-xs text-muted-foreground">{(facility.position.utilization * 100).toFixed(1)}% utilized</p>
+          )}
+        </Card>
+        <Card className="p-4">
+          <p className="text-sm text-muted-foreground">All-in rate</p>
+          <p className="text-2xl font-semibold">{formatRate(facility.position.all_in_rate)}</p>
+          <p className="text-xs text-muted-foreground">
+            {facility.reference_rate === 'FIXED'
+              ? 'Fixed'
+              : `${facility.reference_rate} ${formatRate(facility.reference_rate_value)} + ${(facility.margin * 10_000).toFixed(0)} bps`}
+            {facility.rate_floor != null && `, floor ${formatRate(facility.rate_floor)}`}
+            {facility.commitment_fee != null && `; ${formatRate(facility.commitment_fee)} on undrawn`}
+          </p>
+        </Card>
+        <Card className="p-4">
+          <p className="text-sm text-muted-foreground">Maturity</p>
+          <p className="text-2xl font-semibold">{facility.maturity_date}</p>
+          <p
+            className={`text-xs ${facility.position.days_to_maturity < 365 ? 'text-amber-700' : 'text-muted-foreground'}`}
+          >
+            {facility.position.days_to_maturity} days
+          </p>
+        </Card>
+      </div>
+
+      {facility.accounts.length > 0 && (
+        <Card className="p-4 text-sm">
+          <span className="text-muted-foreground">Loan accounts: </span>
+          {facility.accounts.map((link) => accountName(link.account_id)).join(', ')}
+        </Card>
+      )}
+
+      {/* Repayment schedule */}
+      <Card>
+        <div className="p-4 border-b flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold">Repayment Schedule</h2>
+            <p className="text-sm text-muted-foreground">
+              {formatAmount(scheduled, facility.currency)} scheduled in {schedule.length} repayment(s)
+            </p>
+          </div>
+          {canManage && draft && (
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => setDraft(null)} disabled={replaceRepayments.isPending}>
+                Discard
+              </Button>
+              <Button
+                size="sm"
+                onClick={() =>
+                  replaceRepayments.mutate(
+                    { tenantId: currentTenant.id, facilityId: facility.id, repayments: draft },
+                    { onSuccess: () => setDraft(null) }
+                  )
+                }
+                disabled={replaceRepayments.isPending}
+              >
+                <Save className="h-4 w-4 mr-2" />
+                Save Schedule
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {canManage && (
+          <div className="p-4 border-b flex flex-wrap items-end gap-3 text-sm">
+            <label className="flex flex-col gap-1">
+              <span className="text-muted-foreground">Amount</span>
+              <input
+                type="number"
+                min={0}
+                value={generator.amount}
+                placeholder={String(facility.position.drawn || facility.commitment_amount)}
+                onChange={(e) => setGenerator({ ...generator, amount: e.target.value })}
+                className="border rounded px-2 py-1 w-36"
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-muted-foreground">First due date</span>
+              <input
+                type="date"
+                value={generator.firstDueDate}
+                max={facility.maturity_date}
+                onChange={(e) => setGenerator({ ...generator, firstDueDate: e.target.value })}
+                className="border rounded px-2 py-1"
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-muted-foreground">Frequency</span>
+              <select
+                value={generator.frequency}
+                onChange={(e) => setGenerator({ ...generator, frequency: e.target.value as RepaymentFrequency })}
+                className="border rounded px-2 py-1"
+              >
+                <option value="monthly">Monthly</option>
+                <option value="quarterly">Quarterly</option>
+                <option value="semiannual">Semi-annual</option>
+                <option value="annual">Annual</option>
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-muted-foreground">Balloon (%)</span>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={generator.balloonPct}
+                onChange={(e) => setGenerator({ ...generator, balloonPct: e.target.value })}
+                className="border rounded px-2 py-1 w-20"
+              />
+            </label>
+            <Button variant="outline" size="sm" onClick={handleGenerate} disabled={!generator.firstDueDate}>
+              Generate
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() =>
+                setDraft([...schedule, { due_date: facility.maturity_date, principal_amount: 0, status: 'scheduled' }])
+              }
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Row
+            </Button>
+          </div>
+        )}
+
+        {schedule.length === 0 ? (
+          <div className="p-8 text-center text-sm text-muted-foreground">No repayments scheduled.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="border-b bg-muted/50">
+                <tr>
+                  <th className="text-left p-3 font-medium">Due date</th>
+                  <th className="text-right p-3 font-medium">Principal</th>
+                  <th className="text-left p-3 font-medium">Status</th>
+                  {canManage && <th className="p-3" />}
+                </tr>
+              </thead>
+              <tbody>
+                {schedule.map((row, index) => (
+                  <tr key={index} className="border-b">
+                    <td className="p-3">
+                      {canManage ? (
+                        <input
+                          type="date"
+                          value={row.due_date}
+                          onChange={(e) => updateRow(index, { due_date: e.target.value })}
+                          className="border rounded px-2 py-1"
+                        />
+                      ) : (
+                        row.due_date
+                      )}
+                    </td>
+                    <td className="p-3 text-right">
+                      {canManage ? (
+                        <input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={row.principal_amount}
+                          onChange={(e) => updateRow(index, { principal_amount: Number(e.target.value) })}
+                          className="border rounded px-2 py-1 w-36 text-right"
+                        />
+                      ) : (
+                        formatAmount(row.principal_amount, facility.currency)
+                      )}
+                    </td>
+                    <td className="p-3">
+                      {canManage ? (
+                        <label className="flex items-center gap-2">
+                          <input
+                            type="checkbox"
+                            checked={row.status === 'paid'}
+                            onChange={(e) => updateRow(index, { status: e.target.checked ? 'paid' : 'scheduled' })}
+                          />
+                          Paid
+                        </label>
+                      ) : (
+                        <Badge variant={row.status === 'paid' ? 'secondary' : 'outline'}>{row.status}</Badge>
+                      )}
+                    </td>
+                    {canManage && (
+                      <td className="p-3 text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setDraft(schedule.filter((_, i) => i !== index))}
+                        >
+                          <Trash2 className="h-4 w-4 text-red-600" />
+                        </Button>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+
+      {/* Covenants */}
+      <Card>
+        <div className="p-4 border-b flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Covenants</h2>
+          <Link href="/facilities/covenants">
+            <Button variant="outline" size="sm">
+              Manage Covenants
+            </Button>
+          </Link>
+        </div>
+        {covenants.length === 0 ? (
+          <div className="p-8 text-center text-sm text-muted-foreground">No covenants on this facility.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="border-b bg-muted/50">
+                <tr>
+                  <th className="text-left p-3 font-medium">Covenant</th>
+                  <th className="text-right p-3 font-medium">Threshold</th>
+                  <th className="text-left p-3 font-medium">Last test</th>
+                  <th className="text-right p-3 font-medium">Value</th>
+                  <th className="text-left p-3 font-medium">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {covenants.map((covenant) => (
+                  <tr key={covenant.id} className="border-b">
+                    <td className="p-3">
+                      {covenant.name}
+                      <div className="text-xs text-muted-foreground">{COVENANT_METRICS[covenant.metric].label}</div>
+                    </td>
+                    <td className="p-3 text-right">
+                      {COVENANT_METRICS[covenant.metric].direction === 'min' ? '≥ ' : '≤ '}
+                      {covenant.threshold}
+                    </td>
+                    <td className="p-3">{covenant.latest_test?.period_end || '—'}</td>
+                    <td className="p-3 text-right">{covenant.latest_test?.value ?? '—'}</td>
+                    <td className="p-3">
+                      {covenant.latest_test ? (
+                        <span className={`rounded px-2 py-0.5 text-xs ${STATUS_STYLES[covenant.latest_test.status]}`}>
+                          {covenant.latest_test.status.replace('_', ' ')}
+                        </span>
+                      ) : (
+                        <span className="text-muted-foreground">Not tested</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+
+      {showEdit && (
+        <FacilityModal
+          entities={entities}
+          accounts={accounts}
+          initial={{ ...facility, account_ids: facility.accounts.map((link) => link.account_id) }}
+          isPending={updateFacility.isPending}
+          onClose={() => setShowEdit(false)}
+          onSave={(updates) =>
+            updateFacility.mutate(
+              { tenantId: currentTenant.id, facilityId: facility.id, updates },
+              { onSuccess: () => setShowEdit(false) }
+            )
+          }
+        />
+      )}
+    </div>
+  );
+}
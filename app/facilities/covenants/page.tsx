@@ -0,0 +1,569 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useTenant } from '@/lib/tenant-context';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, ArrowLeft, Play, Plus, RefreshCw, Save, Trash2 } from 'lucide-react';
+import { useEntities } from '@/lib/hooks/use-entities';
+import { useFacilities } from '@/lib/hooks/use-facilities';
+import {
+  useCovenantInputs,
+  useCovenants,
+  useCreateCovenant,
+  useDeleteCovenant,
+  useEvaluateCovenants,
+  useSaveCovenantInputs,
+} from '@/lib/hooks/use-covenants';
+import { COVENANT_METRICS } from '@/lib/facilities/covenants';
+import type { Entity } from '@/lib/types/entity';
+import type {
+  CovenantInputKey,
+  CovenantMetric,
+  CovenantTestStatus,
+  CreateCovenantInput,
+  FacilityWithPosition,
+  RepaymentFrequency,
+} from '@/lib/types/facility';
+
+const STATUS_STYLES: Record<CovenantTestStatus, string> = {
+  compliant: 'bg-green-100 text-green-800',
+  near_breach: 'bg-amber-100 text-amber-800',
+  breach: 'bg-red-100 text-red-800',
+  insufficient_data: 'bg-stone-100 text-stone-600',
+};
+
+const STATUS_LABELS: Record<CovenantTestStatus, string> = {
+  compliant: 'Compliant',
+  near_breach: 'Near breach',
+  breach: 'Breach',
+  insufficient_data: 'Missing figures',
+};
+
+const INPUT_LABELS: Record<CovenantInputKey, string> = {
+  ebitda: 'EBITDA (LTM)',
+  interest_expense: 'Interest expense (LTM)',
+  total_debt: 'Total debt override',
+  cash: 'Cash override',
+};
+
+// Last day of the previous month
+function lastMonthEnd() {
+  const d = new Date();
+  d.setUTCDate(0);
+  return d.toISOString().split('T')[0];
+}
+
+function toMonthEnd(month: string) {
+  const d = new Date(`${month}-01T00:00:00Z`);
+  d.setUTCMonth(d.getUTCMonth() + 1);
+  d.setUTCDate(0);
+  return d.toISOString().split('T')[0];
+}
+
+function formatThreshold(metric: CovenantMetric, value: number) {
+  const { direction, unit } = COVENANT_METRICS[metric];
+  const formatted = unit === 'multiple' ? `${Number(value).toFixed(2)}x` : Number(value).toLocaleString('en-US');
+  return `${direction === 'min' ? '≥' : '≤'} ${formatted}`;
+}
+
+function formatValue(metric: CovenantMetric, value: number | null) {
+  if (value == null) return '—';
+  return COVENANT_METRICS[metric].unit === 'multiple' ? `${value.toFixed(2)}x` : value.toLocaleString('en-US');
+}
+
+export default function CovenantsPage() {
+  const { currentTenant, userRole } = useTenant();
+  const [periodEnd, setPeriodEnd] = useState(lastMonthEnd());
+  const [showCreate, setShowCreate] = useState(false);
+
+  const { data: covenants = [], isLoading, error, refetch, isFetching } = useCovenants(currentTenant?.id);
+  const { data: facilities = [] } = useFacilities(currentTenant?.id);
+  const { data: entities = [] } = useEntities(currentTenant?.id);
+  const createCovenant = useCreateCovenant();
+  const deleteCovenant = useDeleteCovenant();
+  const evaluate = useEvaluateCovenants();
+
+  const canManage = userRole === 'owner' || userRole === 'admin';
+  const canEdit = canManage || userRole === 'editor';
+
+  if (!currentTenant) {
+    return (
+      <div className="p-8">
+        <Card className="p-12 text-center max-w-2xl mx-auto">
+          <h2 className="text-2xl font-semibold mb-4">No Organization Selected</h2>
+          <p className="text-muted-foreground">Please select an organization from the sidebar.</p>
+        </Card>
+      </div>
+    );
+  }
+
+  const handleDelete = (covenantId: string, name: string) => {
+    if (!confirm(`Delete covenant "${name}" and its test history?`)) return;
+    deleteCovenant.mutate({ tenantId: currentTenant.id, covenantId });
+  };
+
+  // The group plus every entity a covenant is tested on
+  const scopes = ['', ...Array.from(new Set(covenants.map((covenant) => covenant.entity_id).filter(Boolean)))] as string[];
+  const run = evaluate.data?.period_end === periodEnd ? evaluate.data : null;
+
+  return (
+    <div className="p-8 space-y-6">
+      {/* Header */}
+      <div>
+        <Link href="/facilities">
+          <Button variant="ghost" className="mb-4">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Facilities
+          </Button>
+        </Link>
+        <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Covenants</h1>
+            <p className="text-muted-foreground mt-1">
+              Liquidity, leverage and interest cover tests against facility terms, each period end
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="month"
+              value={periodEnd.slice(0, 7)}
+              onChange={(e) => e.target.value && setPeriodEnd(toMonthEnd(e.target.value))}
+              className="border rounded px-2 py-1 text-sm"
+            />
+            <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+              <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+            </Button>
+            {canEdit && (
+              <Button
+                variant="outline"
+                onClick={() => evaluate.mutate({ tenantId: currentTenant.id, periodEnd })}
+                disabled={evaluate.isPending || covenants.length === 0}
+              >
+                <Play className="h-4 w-4 mr-2" />
+                {evaluate.isPending ? 'Testing…' : `Test at ${periodEnd}`}
+              </Button>
+            )}
+            {canManage && (
+              <Button onClick={() => setShowCreate(true)} disabled={facilities.length === 0}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Covenant
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {run && run.warnings.length > 0 && (
+        <Card className="p-4 border-amber-200 bg-amber-50 flex items-start gap-3">
+          <AlertTriangle className="h-5 w-5 text-amber-600 mt-0.5" />
+          <div className="text-sm text-amber-900 space-y-1">
+            {run.warnings.map((warning) => (
+              <p key={warning}>{warning}</p>
+            ))}
+          </div>
+        </Card>
+      )}
+
+      {/* Definitions and latest results */}
+      {error ? (
+        <Card className="p-6 text-sm text-red-600">{(error as Error).message}</Card>
+      ) : isLoading ? (
+        <div className="text-center py-12">
+          <RefreshCw className="h-8 w-8 animate-spin mx-auto mb-4 text-muted-foreground" />
+          <p className="text-muted-foreground">Loading covenants…</p>
+        </div>
+      ) : (
+        <Card>
+          <div className="p-4 border-b">
+            <h2 className="text-lg font-semibold">Covenants</h2>
+            <p className="text-sm text-muted-foreground">
+              Near breach when headroom falls under the covenant&apos;s warning level
+            </p>
+          </div>
+          {covenants.length === 0 ? (
+            <div className="p-8 text-center text-sm text-muted-foreground">
+              {facilities.length === 0 ? 'Add a facility before defining its covenants.' : 'No covenants defined yet.'}
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="border-b bg-muted/50">
+                  <tr>
+                    <th className="text-left p-3 font-medium">Covenant</th>
+                    <th className="text-left p-3 font-medium">Tested on</th>
+                    <th className="text-right p-3 font-medium">Threshold</th>
+                    <th className="text-left p-3 font-medium">Last test</th>
+                    <th className="text-right p-3 font-medium">Value</th>
+                    <th className="text-right p-3 font-medium">Headroom</th>
+                    <th className="text-left p-3 font-medium">Status</th>
+                    {canManage && <th className="p-3" />}
+                  </tr>
+                </thead>
+                <tbody>
+                  {covenants.map((covenant) => {
+                    const test = covenant.latest_test;
+                    return (
+                      <tr key={covenant.id} className="border-b align-top">
+                        <td className="p-3">
+                          {covenant.name}
+                          {!covenant.is_active && (
+                            <Badge variant="secondary" className="ml-2">
+                              Inactive
+                            </Badge>
+                          )}
+                          <div className="text-xs text-muted-foreground">
+                            {covenant.facility_name} · {COVENANT_METRICS[covenant.metric].label}
+                          </div>
+                        </td>
+                        <td className="p-3">
+                          {covenant.entity_id || 'Group'}
+                          <div className="text-xs text-muted-foreground">{covenant.test_frequency}</div>
+                        </td>
+                        <td className="p-3 text-right">{formatThreshold(covenant.metric, covenant.threshold)}</td>
+                        <td className="p-3">{test?.period_end || '—'}</td>
+                        <td className="p-3 text-right">{test ? formatValue(covenant.metric, test.value) : '—'}</td>
+                        <td className="p-3 text-right">{test?.headroom_pct != null ? `${test.headroom_pct}%` : '—'}</td>
+                        <td className="p-3">
+                          {test ? (
+                            <span className={`rounded px-2 py-0.5 text-xs ${STATUS_STYLES[test.status]}`} title={test.note || ''}>
+                              {STATUS_LABELS[test.status]}
+                            </span>
+                          ) : (
+                            <span className="text-muted-foreground">Not tested</span>
+                          )}
+                          {test?.note && <div className="text-xs text-muted-foreground mt-1">{test.note}</div>}
+                        </td>
+                        {canManage && (
+                          <td className="p-3 text-right">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDelete(covenant.id, covenant.name)}
+                              disabled={deleteCovenant.isPending}
+                            >
+                              <Trash2 className="h-4 w-4 text-red-600" />
+                            </Button>
+                          </td>
+                        )}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </Card>
+      )}
+
+      {covenants.length > 0 && (
+        <CovenantInputsCard
+          tenantId={currentTenant.id}
+          periodEnd={periodEnd}
+          scopes={scopes}
+          entities={entities}
+          defaultCurrency={facilities[0]?.currency || 'USD'}
+          canEdit={canEdit}
+        />
+      )}
+
+      {showCreate && (
+        <CovenantModal
+          facilities={facilities}
+          entities={entities}
+          isPending={createCovenant.isPending}
+          onClose={() => setShowCreate(false)}
+          onCreate={(input) =>
+            createCovenant.mutate({ tenantId: currentTenant.id, ...input }, { onSuccess: () => setShowCreate(false) })
+          }
+        />
+      )}
+    </div>
+  );
+}
+
+// Manual figures for the period: one row per scope, one column per input
+function CovenantInputsCard({
+  tenantId,
+  periodEnd,
+  scopes,
+  entities,
+  defaultCurrency,
+  canEdit,
+}: {
+  tenantId: string;
+  periodEnd: string;
+  scopes: string[];
+  entities: Entity[];
+  defaultCurrency: string;
+  canEdit: boolean;
+}) {
+  const { data: inputs, isLoading } = useCovenantInputs(tenantId, periodEnd);
+  const saveInputs = useSaveCovenantInputs();
+  // `${scope}|${key}` -> value as typed; scope -> currency
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [currencies, setCurrencies] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const nextValues: Record<string, string> = {};
+    const nextCurrencies: Record<string, string> = {};
+    for (const input of inputs || []) {
+      nextValues[`${input.entity_id}|${input.input_key}`] = String(input.value);
+      nextCurrencies[input.entity_id] = input.currency;
+    }
+    setValues(nextValues);
+    setCurrencies(nextCurrencies);
+  }, [inputs]);
+
+  const entityName = (id: string) =>
+    id ? entities.find((entity) => entity.entity_id === id)?.entity_name || id : 'Group';
+
+  const handleSave = () => {
+    saveInputs.mutate({
+      tenantId,
+      periodEnd,
+      inputs: scopes.flatMap((scope) =>
+        (Object.keys(INPUT_LABELS) as CovenantInputKey[]).map((key) => {
+          const raw = values[`${scope}|${key}`];
+          return {
+            entity_id: scope,
+            input_key: key,
+            value: raw === undefined || raw === '' ? null : Number(raw),
+            currency: currencies[scope] || defaultCurrency,
+          };
+        })
+      ),
+    });
+  };
+
+  return (
+    <Card>
+      <div className="p-4 border-b flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold">Figures at {periodEnd}</h2>
+          <p className="text-sm text-muted-foreground">
+            EBITDA and interest are entered here. Cash and debt come from account balances and the facility register
+            unless overridden.
+          </p>
+        </div>
+        {canEdit && (
+          <Button size="sm" onClick={handleSave} disabled={saveInputs.isPending || isLoading}>
+            <Save className="h-4 w-4 mr-2" />
+            Save Figures
+          </Button>
+        )}
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="border-b bg-muted/50">
+            <tr>
+              <th className="text-left p-3 font-medium">Scope</th>
+              <th className="text-left p-3 font-medium">Currency</th>
+              {Object.values(INPUT_LABELS).map((label) => (
+                <th key={label} className="text-right p-3 font-medium">
+                  {label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {scopes.map((scope) => (
+              <tr key={scope || 'group'} className="border-b">
+                <td className="p-3">{entityName(scope)}</td>
+                <td className="p-3">
+                  <input
+                    maxLength={3}
+                    value={currencies[scope] || defaultCurrency}
+                    disabled={!canEdit}
+                    onChange={(e) => setCurrencies({ ...currencies, [scope]: e.target.value.toUpperCase() })}
+                    className="border rounded px-2 py-1 w-16"
+                  />
+                </td>
+                {(Object.keys(INPUT_LABELS) as CovenantInputKey[]).map((key) => (
+                  <td key={key} className="p-3 text-right">
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={values[`${scope}|${key}`] ?? ''}
+                      disabled={!canEdit}
+                      onChange={(e) => setValues({ ...values, [`${scope}|${key}`]: e.target.value })}
+                      className="border rounded px-2 py-1 w-36 text-right"
+                      placeholder="—"
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </Card>
+  );
+}
+
+// Covenant Modal Component
+interface CovenantModalProps {
+  facilities: FacilityWithPosition[];
+  entities: Entity[];
+  isPending: boolean;
+  onClose: () => void;
+  onCreate: (input: CreateCovenantInput) => void;
+}
+
+function CovenantModal({ facilities, entities, isPending, onClose, onCreate }: CovenantModalProps) {
+  const [formData, setFormData] = useState({
+    facility_id: facilities[0]?.id || '',
+    name: '',
+    metric: 'net_leverage' as CovenantMetric,
+    threshold: '',
+    entity_id: '',
+    test_frequency: 'quarterly' as RepaymentFrequency,
+    warning_headroom_pct: '10',
+  });
+
+  const metric = COVENANT_METRICS[formData.metric];
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+
+    onCreate({
+      facility_id: formData.facility_id,
+      name: formData.name,
+      metric: formData.metric,
+      threshold: Number(formData.threshold),
+      entity_id: formData.entity_id || null,
+      test_frequency: formData.test_frequency,
+      warning_headroom_pct: Number(formData.warning_headroom_pct),
+    });
+  }
+
+  const inputClass = 'w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <Card className="max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit} className="p-6">
+          <h2 className="text-2xl font-bold mb-6">Add Covenant</h2>
+
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                Facility <span className="text-red-500">*</span>
+              </label>
+              <select
+                required
+                value={formData.facility_id}
+                onChange={(e) => setFormData({ ...formData, facility_id: e.target.value })}
+                className={inputClass}
+              >
+                {facilities.map((facility) => (
+                  <option key={facility.id} value={facility.id}>
+                    {facility.name} ({facility.currency})
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                Name <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="text"
+                required
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className={inputClass}
+                placeholder="e.g., Leverage ratio"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">Metric</label>
+                <select
+                  value={formData.metric}
+                  onChange={(e) => setFormData({ ...formData, metric: e.target.value as CovenantMetric })}
+                  className={inputClass}
+                >
+                  {Object.entries(COVENANT_METRICS).map(([value, definition]) => (
+                    <option key={value} value={value}>
+                      {definition.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  {metric.direction === 'min' ? 'At least' : 'At most'} <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="number"
+                  required
+                  step="0.01"
+                  value={formData.threshold}
+                  onChange={(e) => setFormData({ ...formData, threshold: e.target.value })}
+                  className={inputClass}
+                  placeholder={metric.unit === 'multiple' ? 'e.g., 3.5' : 'Amount in facility currency'}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">Tested On</label>
+                <select
+                  value={formData.entity_id}
+                  onChange={(e) => setFormData({ ...formData, entity_id: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">Group (all entities)</option>
+                  {entities.map((entity) => (
+                    <option key={entity.entity_id} value={entity.entity_id}>
+                      {entity.entity_name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Frequency</label>
+                <select
+                  value={formData.test_frequency}
+                  onChange={(e) => setFormData({ ...formData, test_frequency: e.target.value as RepaymentFrequency })}
+                  className={inputClass}
+                >
+                  <option value="monthly">Monthly</option>
+                  <option value="quarterly">Quarterly</option>
+                  <option value="semiannual">Semi-annual</option>
+                  <option value="annual">Annual</option>
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">Near-breach Warning at Headroom Below (%)</label>
+              <input
+                type="number"
+                min={0}
+                value={formData.warning_headroom_pct}
+                onChange={(e) => setFormData({ ...formData, warning_headroom_pct: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2 mt-6">
+            <Button type="button" variant="outline" onClick={onClose} disabled={isPending}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isPending || !formData.facility_id}>
+              {isPending ? 'Creating…' : 'Create Covenant'}
+            </Button>
+          </div>
+        </form>
+      </Card>
+    </div>
+  );
+}
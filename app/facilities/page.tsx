@@ -0,0 +1,216 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useTenant } from '@/lib/tenant-context';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, Check, Landmark, Plus, RefreshCw, ShieldCheck } from 'lucide-react';
+import { useAccounts } from '@/lib/hooks/use-accounts';
+import { useEntities } from '@/lib/hooks/use-entities';
+import { useCreateFacility, useFacilities } from '@/lib/hooks/use-facilities';
+import { useAcknowledgeCovenantAlert, useCovenantAlerts } from '@/lib/hooks/use-covenants';
+import { FACILITY_TYPE_LABELS, FacilityModal } from '@/components/FacilityModal';
+
+function formatAmount(value: number, currency: string) {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 0 }).format(value);
+}
+
+function formatRate(rate: number | null) {
+  return rate == null ? '—' : `${(rate * 100).toFixed(2)}%`;
+}
+
+export default function FacilitiesPage() {
+  const { currentTenant, userRole } = useTenant();
+  const [showCreate, setShowCreate] = useState(false);
+  const [includeInactive, setIncludeInactive] = useState(false);
+
+  const { data: facilities = [], isLoading, error, refetch, isFetching } = useFacilities(currentTenant?.id, {
+    includeInactive,
+  });
+  const { data: alerts = [] } = useCovenantAlerts(currentTenant?.id);
+  const { data: entities = [] } = useEntities(currentTenant?.id);
+  const { data: accounts = [] } = useAccounts(currentTenant?.id);
+  const createFacility = useCreateFacility();
+  const acknowledge = useAcknowledgeCovenantAlert();
+
+  const canManage = userRole === 'owner' || userRole === 'admin';
+  const canEdit = canManage || userRole === 'editor';
+
+  if (!currentTenant) {
+    return (
+      <div className="p-8">
+        <Card className="p-12 text-center max-w-2xl mx-auto">
+          <h2 className="text-2xl font-semibold mb-4">No Organization Selected</h2>
+          <p className="text-muted-foreground">Please select an organization from the sidebar.</p>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Facilities</h1>
+          <p className="text-muted-foreground mt-1">
+            Loans and credit facilities by entity, with drawn amounts, maturities and repayments
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            <input type="checkbox" checked={includeInactive} onChange={(e) => setIncludeInactive(e.target.checked)} />
+            Show repaid and cancelled
+          </label>
+          <Link href="/facilities/covenants">
+            <Button variant="outline">
+              <ShieldCheck className="h-4 w-4 mr-2" />
+              Covenants
+            </Button>
+          </Link>
+          <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+          </Button>
+          {canManage && (
+            <Button onClick={() => setShowCreate(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Facility
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Covenant alerts */}
+      {alerts.length > 0 && (
+        <Card className="p-4 border-red-200 bg-red-50">
+          <div className="flex items-center gap-2 mb-2">
+            <AlertTriangle className="h-5 w-5 text-red-600" />
+            <h2 className="font-semibold text-red-900">Covenant Alerts</h2>
+          </div>
+          <div className="space-y-2 text-sm">
+            {alerts.map((alert) => (
+              <div key={alert.id} className="flex items-center justify-between gap-4">
+                <span className="text-red-900">
+                  <Badge variant={alert.status === 'breach' ? 'destructive' : 'outline'} className="mr-2">
+                    {alert.status === 'breach' ? 'Breach' : 'Near breach'}
+                  </Badge>
+                  {alert.facility_name} · {alert.covenant_name} at {alert.period_end}: {alert.value ?? '—'} against{' '}
+                  {alert.threshold}
+                  {alert.headroom_pct != null && ` (${alert.headroom_pct}% headroom)`}
+                </span>
+                {canEdit && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => acknowledge.mutate({ tenantId: currentTenant.id, testId: alert.id })}
+                    disabled={acknowledge.isPending}
+                  >
+                    <Check className="h-4 w-4 mr-1" />
+                    Acknowledge
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+
+      {error ? (
+        <Card className="p-6 text-sm text-red-600">{(error as Error).message}</Card>
+      ) : isLoading ? (
+        <div className="text-center py-12">
+          <RefreshCw className="h-8 w-8 animate-spin mx-auto mb-4 text-muted-foreground" />
+          <p className="text-muted-foreground">Loading facilities…</p>
+        </div>
+      ) : facilities.length === 0 ? (
+        <Card className="p-12 text-center">
+          <Landmark className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+          <h2 className="text-xl font-semibold mb-2">No facilities yet</h2>
+          <p className="text-muted-foreground">
+            {canManage ? 'Add your loans and credit lines to track drawings and covenants.' : 'Ask an admin to add facilities.'}
+          </p>
+        </Card>
+      ) : (
+        <Card>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="border-b bg-muted/50">
+                <tr>
+                  <th className="text-left p-3 font-medium">Facility</th>
+                  <th className="text-left p-3 font-medium">Borrower</th>
+                  <th className="text-right p-3 font-medium">Commitment</th>
+                  <th className="text-right p-3 font-medium">Drawn</th>
+                  <th className="text-right p-3 font-medium">Available</th>
+                  <th className="text-right p-3 font-medium">All-in rate</th>
+                  <th className="text-left p-3 font-medium">Maturity</th>
+                  <th className="text-left p-3 font-medium">Next repayment</th>
+                </tr>
+              </thead>
+              <tbody>
+                {facilities.map((facility) => (
+                  <tr key={facility.id} className="border-b">
+                    <td className="p-3">
+                      <Link href={`/facilities/${facility.id}`} className="font-medium hover:underline">
+                        {facility.name}
+                      </Link>
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {facility.lender} · {FACILITY_TYPE_LABELS[facility.facility_type]}
+                        {facility.status !== 'active' && (
+                          <Badge variant="secondary" className="ml-2">
+                            {facility.status}
+                          </Badge>
+                        )}
+                      </div>
+                    </td>
+                    <td className="p-3">{facility.entity_id}</td>
+                    <td className="p-3 text-right">{formatAmount(facility.commitment_amount, facility.currency)}</td>
+                    <td className="p-3 text-right">
+                      {formatAmount(facility.position.drawn, facility.currency)}
+                      <div className="text-xs text-muted-foreground">
+                        {facility.position.utilization != null && `${(facility.position.utilization * 100).toFixed(0)}% · `}
+                        {facility.position.drawn_source === 'accounts' ? 'from accounts' : 'entered'}
+                      </div>
+                    </td>
+                    <td className="p-3 text-right">{formatAmount(facility.position.available, facility.currency)}</td>
+                    <td className="p-3 text-right">
+                      {formatRate(facility.position.all_in_rate)}
+                      <div className="text-xs text-muted-foreground">
+                        {facility.reference_rate === 'FIXED'
+                          ? 'Fixed'
+                          : `${facility.reference_rate} + ${(facility.margin * 10_000).toFixed(0)} bps`}
+                      </div>
+                    </td>
+                    <td className={`p-3 ${facility.position.days_to_maturity < 365 ? 'text-amber-700 font-medium' : ''}`}>
+                      {facility.maturity_date}
+                    </td>
+                    <td className="p-3">
+                      {facility.position.next_repayment
+                        ? `${formatAmount(facility.position.next_repayment.principal_amount, facility.currency)} on ${
+                            facility.position.next_repayment.due_date
+                          }`
+                        : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+
+      {showCreate && (
+        <FacilityModal
+          entities={entities}
+          accounts={accounts}
+          isPending={createFacility.isPending}
+          onClose={() => setShowCreate(false)}
+          onSave={(input) =>
+            createFacility.mutate({ tenantId: currentTenant.id, ...input }, { onSuccess: () => setShowCreate(false) })
+          }
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,356 @@
+'use client';
+
+import { useState } from 'react';
+import { useTenant } from '@/lib/tenant-context';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, RefreshCw, Save } from 'lucide-react';
+import { useAccounts } from '@/lib/hooks/use-accounts';
+import { useEntities } from '@/lib/hooks/use-entities';
+import { useInterestReport, useUpdateInterestTerms } from '@/lib/hooks/use-interest';
+import { accountKind } from '@/lib/interest/accrual';
+import type { Account } from '@/lib/supabase';
+import type { DayCountConvention, InterestCheckStatus } from '@/lib/types/interest';
+
+const STATUS_STYLES: Record<InterestCheckStatus, string> = {
+  matched: 'bg-green-100 text-green-800',
+  mismatch: 'bg-red-100 text-red-800',
+  missing_posting: 'bg-red-100 text-red-800',
+  unexpected_posting: 'bg-amber-100 text-amber-800',
+  partial: 'bg-stone-100 text-stone-600',
+};
+
+const STATUS_LABELS: Record<InterestCheckStatus, string> = {
+  matched: 'Matched',
+  mismatch: 'Mismatch',
+  missing_posting: 'Not posted',
+  unexpected_posting: 'Unexpected',
+  partial: 'Partial month',
+};
+
+function monthStart(offset: number) {
+  const d = new Date();
+  d.setUTCDate(1);
+  d.setUTCMonth(d.getUTCMonth() + offset);
+  return d.toISOString().split('T')[0];
+}
+
+function lastMonthEnd() {
+  const d = new Date();
+  d.setUTCDate(0);
+  return d.toISOString().split('T')[0];
+}
+
+function formatAmount(value: number, currency: string) {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 2 }).format(value);
+}
+
+function formatRate(rate: number | null) {
+  return rate == null ? '—' : `${(rate * 100).toFixed(3)}%`;
+}
+
+export default function InterestPage() {
+  const { currentTenant, userRole } = useTenant();
+  const [startDate, setStartDate] = useState(monthStart(-3));
+  const [endDate, setEndDate] = useState(lastMonthEnd());
+  const [entityId, setEntityId] = useState('');
+  const [tolerancePct, setTolerancePct] = useState(5);
+
+  const { data: entities = [] } = useEntities(currentTenant?.id);
+  const { data: accounts = [] } = useAccounts(currentTenant?.id);
+  const { data, isLoading, error, refetch, isFetching } = useInterestReport(currentTenant?.id, {
+    startDate,
+    endDate,
+    entityId: entityId || undefined,
+    tolerancePct,
+  });
+
+  const canEdit = !!userRole && userRole !== 'viewer';
+
+  if (!currentTenant) {
+    return (
+      <div className="p-8">
+        <Card className="p-12 text-center max-w-2xl mx-auto">
+          <h2 className="text-2xl font-semibold mb-4">No Organization Selected</h2>
+          <p className="text-muted-foreground">Please select an organization from the sidebar.</p>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Interest</h1>
+          <p className="text-muted-foreground mt-1">
+            Expected interest on deposit and loan accounts against what the banks posted
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="date"
+            value={startDate}
+            max={endDate}
+            onChange={(e) => e.target.value && setStartDate(e.target.value)}
+            className="border rounded px-2 py-1 text-sm"
+          />
+          <span className="text-sm text-muted-foreground">to</span>
+          <input
+            type="date"
+            value={endDate}
+            min={startDate}
+            onChange={(e) => e.target.value && setEndDate(e.target.value)}
+            className="border rounded px-2 py-1 text-sm"
+          />
+          <select
+            value={entityId}
+            onChange={(e) => setEntityId(e.target.value)}
+            className="border rounded px-2 py-1 text-sm"
+          >
+            <option value="">All entities</option>
+            {entities.map((entity) => (
+              <option key={entity.entity_id} value={entity.entity_id}>
+                {entity.entity_name}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1 text-sm text-muted-foreground">
+            Tolerance
+            <input
+              type="number"
+              min={0}
+              defaultValue={tolerancePct}
+              onBlur={(e) => setTolerancePct(Math.max(0, Number(e.target.value) || 0))}
+              className="border rounded px-2 py-1 text-sm w-16"
+            />
+            %
+          </label>
+          <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </div>
+
+      {error ? (
+        <Card className="p-6 text-sm text-red-600">{(error as Error).message}</Card>
+      ) : isLoading || !data ? (
+        <div className="text-center py-12">
+          <RefreshCw className="h-8 w-8 animate-spin mx-auto mb-4 text-muted-foreground" />
+          <p className="text-muted-foreground">Accruing interest…</p>
+        </div>
+      ) : (
+        <>
+          {data.warnings.length > 0 && (
+            <Card className="p-4 border-amber-200 bg-amber-50 flex items-start gap-3">
+              <AlertTriangle className="h-5 w-5 text-amber-600 mt-0.5" />
+              <div className="text-sm text-amber-900 space-y-1">
+                {data.warnings.map((warning) => (
+                  <p key={warning}>{warning}</p>
+                ))}
+              </div>
+            </Card>
+          )}
+
+          {/* Yield and cost of funds */}
+          <Card>
+            <div className="p-4 border-b">
+              <h2 className="text-lg font-semibold">Yield and Cost of Funds</h2>
+              <p className="text-sm text-muted-foreground">
+                Contract rates weighted by average balance; realized rates from posted interest
+              </p>
+            </div>
+            {data.summary.length === 0 ? (
+              <div className="p-8 text-center text-sm text-muted-foreground">
+                No accounts with an interest rate. Set rates below to start accruing.
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="border-b bg-muted/50">
+                    <tr>
+                      <th className="text-left p-3 font-medium">Entity</th>
+                      <th className="text-left p-3 font-medium">Currency</th>
+                      <th className="text-left p-3 font-medium">Measure</th>
+                      <th className="text-right p-3 font-medium">Accounts</th>
+                      <th className="text-right p-3 font-medium">Average balance</th>
+                      <th className="text-right p-3 font-medium">Expected</th>
+                      <th className="text-right p-3 font-medium">Posted</th>
+                      <th className="text-right p-3 font-medium">Weighted rate</th>
+                      <th className="text-right p-3 font-medium">Realized rate</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.summary.map((row) => (
+                      <tr key={`${row.entity_id}|${row.currency}|${row.kind}`} className="border-b">
+                        <td className="p-3">{row.entity_id || 'Unassigned'}</td>
+                        <td className="p-3">{row.currency}</td>
+                        <td className="p-3">
+                          <Badge variant="outline">{row.kind === 'deposit' ? 'Yield' : 'Cost of funds'}</Badge>
+                        </td>
+                        <td className="p-3 text-right">{row.accounts}</td>
+                        <td className="p-3 text-right">{formatAmount(row.average_principal, row.currency)}</td>
+                        <td className="p-3 text-right">{formatAmount(row.expected_interest, row.currency)}</td>
+                        <td className="p-3 text-right">{formatAmount(row.posted_interest, row.currency)}</td>
+                        <td className="p-3 text-right font-semibold">{formatRate(row.weighted_rate)}</td>
+                        <td className="p-3 text-right">{formatRate(row.realized_rate)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </Card>
+
+          {/* Accounts */}
+          {data.accounts.length > 0 && (
+            <Card>
+              <div className="p-4 border-b">
+                <h2 className="text-lg font-semibold">Accruals vs Postings</h2>
+                <p className="text-sm text-muted-foreground">
+                  {data.discrepancies} month(s) outside the {data.tolerance_pct}% tolerance
+                </p>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="border-b bg-muted/50">
+                    <tr>
+                      <th className="text-left p-3 font-medium">Account</th>
+                      <th className="text-right p-3 font-medium">Rate</th>
+                      <th className="text-right p-3 font-medium">Expected</th>
+                      <th className="text-right p-3 font-medium">Posted</th>
+                      <th className="text-left p-3 font-medium">Months</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.accounts.map((account) => (
+                      <tr key={account.account_id} className="border-b align-top">
+                        <td className="p-3">
+                          {account.account_name}
+                          <div className="text-xs text-muted-foreground mt-1">
+                            {account.kind === 'loan' ? 'Loan' : 'Deposit'} · {account.day_count_convention}
+                            {account.limit_breaches.length > 0 && (
+                              <span className="ml-2 text-red-600">
+                                {account.limit_breaches.length} day(s) over the {formatAmount(account.limit!, account.currency)}{' '}
+                                limit
+                              </span>
+                            )}
+                          </div>
+                        </td>
+                        <td className="p-3 text-right">{formatRate(account.interest_rate)}</td>
+                        <td className="p-3 text-right">{formatAmount(account.expected_interest, account.currency)}</td>
+                        <td className="p-3 text-right">{formatAmount(account.posted_interest, account.currency)}</td>
+                        <td className="p-3">
+                          <div className="flex flex-wrap gap-1">
+                            {account.months.map((month) => (
+                              <span
+                                key={month.month}
+                                title={`Expected ${formatAmount(month.expected, account.currency)}, posted ${formatAmount(month.posted, account.currency)}`}
+                                className={`rounded px-2 py-0.5 text-xs ${STATUS_STYLES[month.status]}`}
+                              >
+                                {month.month} {STATUS_LABELS[month.status]}
+                              </span>
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </Card>
+          )}
+        </>
+      )}
+
+      {canEdit && (
+        <Card>
+          <div className="p-4 border-b">
+            <h2 className="text-lg font-semibold">Interest Terms</h2>
+            <p className="text-sm text-muted-foreground">
+              Annual rate, day count (blank uses the currency&apos;s convention) and facility or overdraft limit
+            </p>
+          </div>
+          <div className="divide-y">
+            {accounts
+              .filter((account) => account.id)
+              .map((account) => (
+                <InterestTermsRow key={account.id} tenantId={currentTenant.id} account={account} />
+              ))}
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+function InterestTermsRow({ tenantId, account }: { tenantId: string; account: Account }) {
+  const updateTerms = useUpdateInterestTerms();
+  const isLoan = accountKind(account.account_type) === 'loan';
+  const [rate, setRate] = useState(account.interest_rate != null ? String(Number(account.interest_rate) * 100) : '');
+  const [convention, setConvention] = useState<DayCountConvention | ''>(account.day_count_convention || '');
+  const [limit, setLimit] = useState(
+    String((isLoan ? account.credit_limit : account.overdraft_limit) ?? '')
+  );
+
+  function handleSave() {
+    updateTerms.mutate({
+      tenantId,
+      accountId: account.id!,
+      terms: {
+        interest_rate: rate === '' ? null : Number(rate) / 100,
+        day_count_convention: convention || null,
+        [isLoan ? 'credit_limit' : 'overdraft_limit']: limit === '' ? null : Number(limit),
+      },
+    });
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 p-3 text-sm">
+      <span className="flex-1 min-w-[12rem]">
+        {account.account_name}
+        <span className="ml-2 text-xs text-muted-foreground">
+          {account.currency || 'USD'} · {isLoan ? 'Loan' : 'Deposit'}
+        </span>
+      </span>
+      <label className="flex items-center gap-1 text-muted-foreground">
+        Rate
+        <input
+          type="number"
+          step="0.001"
+          value={rate}
+          onChange={(e) => setRate(e.target.value)}
+          className="border rounded px-2 py-1 w-24 text-right"
+          placeholder="—"
+        />
+        %
+      </label>
+      <select
+        value={convention}
+        onChange={(e) => setConvention(e.target.value as DayCountConvention | '')}
+        className="border rounded px-2 py-1"
+      >
+        <option value="">Currency default</option>
+        <option value="ACT/360">ACT/360</option>
+        <option value="ACT/365">ACT/365</option>
+        <option value="30/360">30/360</option>
+      </select>
+      <label className="flex items-center gap-1 text-muted-foreground">
+        {isLoan ? 'Credit limit' : 'Overdraft limit'}
+        <input
+          type="number"
+          min={0}
+          value={limit}
+          onChange={(e) => setLimit(e.target.value)}
+          className="border rounded px-2 py-1 w-32 text-right"
+          placeholder="—"
+        />
+      </label>
+      <Button variant="outline" size="sm" onClick={handleSave} disabled={updateTerms.isPending}>
+        <Save className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
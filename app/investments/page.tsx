@@ -0,0 +1,373 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { useTenant } from '@/lib/tenant-context';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, Coins, Pencil, Plus, RefreshCw, Trash2, Upload } from 'lucide-react';
+import { useAccounts } from '@/lib/hooks/use-accounts';
+import { useEntities } from '@/lib/hooks/use-entities';
+import {
+  useCreateHolding,
+  useDeleteHolding,
+  useImportHoldings,
+  useInvestmentPortfolio,
+  useSyncPlaidHoldings,
+  useUpdateHolding,
+} from '@/lib/hooks/use-investments';
+import { INSTRUMENT_TYPE_LABELS, HoldingModal } from '@/components/HoldingModal';
+import type { HoldingWithLiquidity, LiquidityBucket } from '@/lib/types/investment';
+
+const BUCKET_LABELS: Record<LiquidityBucket, string> = {
+  same_day: 'Same day',
+  t_plus_1: 'T+1',
+  under_3_months: '< 3 months',
+  longer: '3 months+',
+};
+
+const BUCKET_CLASSES: Record<LiquidityBucket, string> = {
+  same_day: 'bg-green-100 text-green-800',
+  t_plus_1: 'bg-teal-100 text-teal-800',
+  under_3_months: 'bg-amber-100 text-amber-800',
+  longer: 'bg-stone-200 text-stone-700',
+};
+
+function formatAmount(value: number, currency: string) {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 0 }).format(value);
+}
+
+function formatRate(rate: number | null) {
+  return rate == null ? '—' : `${(rate * 100).toFixed(2)}%`;
+}
+
+function formatUnits(value: number) {
+  return new Intl.NumberFormat('en-US', { maximumFractionDigits: 4 }).format(value);
+}
+
+export default function InvestmentsPage() {
+  const { currentTenant, userRole } = useTenant();
+  const [asOf, setAsOf] = useState(new Date().toISOString().split('T')[0]);
+  const [entityId, setEntityId] = useState('');
+  const [showCreate, setShowCreate] = useState(false);
+  const [editing, setEditing] = useState<HoldingWithLiquidity | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const { data, isLoading, error, refetch, isFetching } = useInvestmentPortfolio(currentTenant?.id, {
+    asOf,
+    entityId: entityId || undefined,
+  });
+  const { data: entities = [] } = useEntities(currentTenant?.id);
+  const { data: accounts = [] } = useAccounts(currentTenant?.id);
+  const createHolding = useCreateHolding();
+  const updateHolding = useUpdateHolding();
+  const deleteHolding = useDeleteHolding();
+  const importHoldings = useImportHoldings();
+  const syncHoldings = useSyncPlaidHoldings();
+
+  const canEdit = userRole === 'owner' || userRole === 'admin' || userRole === 'editor';
+
+  if (!currentTenant) {
+    return (
+      <div className="p-8">
+        <Card className="p-12 text-center max-w-2xl mx-auto">
+          <h2 className="text-2xl font-semibold mb-4">No Organization Selected</h2>
+          <p className="text-muted-foreground">Please select an organization from the sidebar.</p>
+        </Card>
+      </div>
+    );
+  }
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) importHoldings.mutate({ tenantId: currentTenant.id, file });
+    e.target.value = '';
+  };
+
+  const handleDelete = (holding: HoldingWithLiquidity) => {
+    if (!confirm(`Delete ${holding.instrument_name}?`)) return;
+    deleteHolding.mutate({ tenantId: currentTenant.id, holdingId: holding.id });
+  };
+
+  const currency = data?.reporting.currency || 'USD';
+  const ladderMax = Math.max(1, ...(data?.ladder || []).map((rung) => rung.amount));
+
+  return (
+    <div className="p-8 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Investments</h1>
+          <p className="text-muted-foreground mt-1">
+            Money market funds, deposits and securities, by maturity and by how soon they turn into cash
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="date"
+            value={asOf}
+            onChange={(e) => e.target.value && setAsOf(e.target.value)}
+            className="border rounded px-2 py-1 text-sm"
+          />
+          <select
+            value={entityId}
+            onChange={(e) => setEntityId(e.target.value)}
+            className="border rounded px-2 py-1 text-sm"
+          >
+            <option value="">All entities</option>
+            {entities.map((entity) => (
+              <option key={entity.entity_id} value={entity.entity_id}>
+                {entity.entity_name}
+              </option>
+            ))}
+          </select>
+          <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+          </Button>
+          {canEdit && (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => syncHoldings.mutate({ tenantId: currentTenant.id })}
+                disabled={syncHoldings.isPending}
+              >
+                <RefreshCw className={`h-4 w-4 mr-2 ${syncHoldings.isPending ? 'animate-spin' : ''}`} />
+                Refresh from Plaid
+              </Button>
+              <input ref={fileInput} type="file" accept=".csv" className="hidden" onChange={handleFile} />
+              <Button
+                variant="outline"
+                onClick={() => fileInput.current?.click()}
+                disabled={importHoldings.isPending}
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Import CSV
+              </Button>
+              <Button onClick={() => setShowCreate(true)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Holding
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {error ? (
+        <Card className="p-6 text-sm text-red-600">{(error as Error).message}</Card>
+      ) : isLoading || !data ? (
+        <div className="text-center py-12">
+          <RefreshCw className="h-8 w-8 animate-spin mx-auto mb-4 text-muted-foreground" />
+          <p className="text-muted-foreground">Loading holdings…</p>
+        </div>
+      ) : (
+        <>
+          {(data.warnings.length > 0 || data.liquidity.unconverted.length > 0) && (
+            <Card className="p-4 border-amber-200 bg-amber-50 flex items-start gap-3">
+              <AlertTriangle className="h-5 w-5 text-amber-600 mt-0.5" />
+              <div className="text-sm text-amber-900 space-y-1">
+                {data.liquidity.unconverted.length > 0 && (
+                  <p>No rate for {data.liquidity.unconverted.join(', ')}. Those holdings are not in the totals.</p>
+                )}
+                {data.warnings.map((warning) => (
+                  <p key={warning}>{warning}</p>
+                ))}
+              </div>
+            </Card>
+          )}
+
+          {/* Liquidity buckets */}
+          <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+            {data.liquidity.buckets.map((bucket) => (
+              <Card key={bucket.bucket} className="p-4">
+                <p className="text-sm text-muted-foreground">{bucket.label}</p>
+                <p className="text-2xl font-semibold mt-1">{formatAmount(bucket.amount, currency)}</p>
+                <p className="text-xs text-muted-foreground mt-1">{bucket.holdings} holding(s)</p>
+              </Card>
+            ))}
+          </div>
+
+          {data.holdings.length === 0 ? (
+            <Card className="p-12 text-center">
+              <Coins className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+              <h2 className="text-xl font-semibold mb-2">No holdings yet</h2>
+              <p className="text-muted-foreground">
+                {canEdit
+                  ? 'Sync a Plaid investment account, import a CSV of holdings or add them by hand.'
+                  : 'Ask an editor to add your funds and deposits.'}
+              </p>
+            </Card>
+          ) : (
+            <>
+              {/* Maturity ladder */}
+              <Card>
+                <div className="p-4 border-b">
+                  <h2 className="text-lg font-semibold">Maturity Ladder</h2>
+                  <p className="text-sm text-muted-foreground">
+                    In {currency} at {data.reporting.rate_type} rates as of {data.as_of}
+                  </p>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="border-b bg-muted/50">
+                      <tr>
+                        <th className="text-left p-3 font-medium">Maturing</th>
+                        <th className="text-right p-3 font-medium">Holdings</th>
+                        <th className="text-right p-3 font-medium">Amount</th>
+                        <th className="text-right p-3 font-medium">Avg. rate</th>
+                        <th className="p-3 w-1/3"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {data.ladder.map((rung) => (
+                        <tr key={rung.key} className="border-b">
+                          <td className="p-3">{rung.label}</td>
+                          <td className="p-3 text-right">{rung.holdings}</td>
+                          <td className="p-3 text-right font-medium">{formatAmount(rung.amount, currency)}</td>
+                          <td className="p-3 text-right">{formatRate(rung.average_rate)}</td>
+                          <td className="p-3">
+                            <div className="h-2 rounded bg-muted">
+                              <div
+                                className="h-2 rounded bg-blue-500"
+                                style={{ width: `${Math.max(0, (rung.amount / ladderMax) * 100)}%` }}
+                              />
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </Card>
+
+              {/* Holdings */}
+              <Card>
+                <div className="p-4 border-b">
+                  <h2 className="text-lg font-semibold">Holdings</h2>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="border-b bg-muted/50">
+                      <tr>
+                        <th className="text-left p-3 font-medium">Instrument</th>
+                        <th className="text-left p-3 font-medium">Account</th>
+                        <th className="text-right p-3 font-medium">Units</th>
+                        <th className="text-right p-3 font-medium">Price</th>
+                        <th className="text-right p-3 font-medium">Value</th>
+                        <th className="text-right p-3 font-medium">Accrued</th>
+                        <th className="text-right p-3 font-medium">Rate</th>
+                        <th className="text-left p-3 font-medium">Maturity</th>
+                        <th className="text-left p-3 font-medium">Liquidity</th>
+                        {canEdit && <th className="p-3"></th>}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {data.holdings.map((holding) => (
+                        <tr key={holding.id} className="border-b">
+                          <td className="p-3">
+                            <div className="font-medium">{holding.instrument_name}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {INSTRUMENT_TYPE_LABELS[holding.instrument_type]}
+                              {holding.isin && ` · ${holding.isin}`}
+                              <Badge variant="outline" className="ml-2">
+                                {holding.source}
+                              </Badge>
+                            </div>
+                          </td>
+                          <td className="p-3">
+                            {holding.account_name || <span className="text-muted-foreground">Off platform</span>}
+                          </td>
+                          <td className="p-3 text-right">{formatUnits(holding.units)}</td>
+                          <td className="p-3 text-right">
+                            {formatUnits(holding.price)}
+                            {holding.price_date && (
+                              <div className="text-xs text-muted-foreground">{holding.price_date}</div>
+                            )}
+                          </td>
+                          <td className="p-3 text-right font-medium">
+                            {formatAmount(holding.market_value, holding.currency)}
+                          </td>
+                          <td className="p-3 text-right">
+                            {holding.accrued_interest ? formatAmount(holding.accrued_interest, holding.currency) : '—'}
+                          </td>
+                          <td className="p-3 text-right">{formatRate(holding.interest_rate)}</td>
+                          <td className="p-3">
+                            {holding.maturity_date ? (
+                              <>
+                                {holding.maturity_date}
+                                <div className="text-xs text-muted-foreground">{holding.days_to_maturity} days</div>
+                              </>
+                            ) : (
+                              <span className="text-muted-foreground">Open</span>
+                            )}
+                          </td>
+                          <td className="p-3">
+                            <span
+                              className={`px-2 py-0.5 rounded text-xs font-medium ${BUCKET_CLASSES[holding.liquidity_bucket]}`}
+                            >
+                              {BUCKET_LABELS[holding.liquidity_bucket]}
+                            </span>
+                          </td>
+                          {canEdit && (
+                            <td className="p-3 text-right whitespace-nowrap">
+                              <Button variant="ghost" size="sm" onClick={() => setEditing(holding)}>
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleDelete(holding)}
+                                disabled={deleteHolding.isPending}
+                              >
+                                <Trash2 className="h-4 w-4 text-red-600" />
+                              </Button>
+                            </td>
+                          )}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </Card>
+            </>
+          )}
+
+          {canEdit && (
+            <p className="text-xs text-muted-foreground">
+              CSV columns: instrument_name, instrument_type, currency, units and price (or market_value), and optionally
+              account, isin, accrued_interest, interest_rate_pct, start_date, maturity_date, settlement_days and
+              price_date. Reimporting a file updates the holdings it created.
+            </p>
+          )}
+        </>
+      )}
+
+      {showCreate && (
+        <HoldingModal
+          entities={entities}
+          accounts={accounts}
+          isPending={createHolding.isPending}
+          onClose={() => setShowCreate(false)}
+          onSave={(input) =>
+            createHolding.mutate({ tenantId: currentTenant.id, ...input }, { onSuccess: () => setShowCreate(false) })
+          }
+        />
+      )}
+
+      {editing && (
+        <HoldingModal
+          entities={entities}
+          accounts={accounts}
+          initial={editing}
+          isPending={updateHolding.isPending}
+          onClose={() => setEditing(null)}
+          onSave={(updates) =>
+            updateHolding.mutate(
+              { tenantId: currentTenant.id, holdingId: editing.id, updates },
+              { onSuccess: () => setEditing(null) }
+            )
+          }
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,708 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useTenant } from '@/lib/tenant-context';
+import { useAuth } from '@/lib/auth-context';
+import { Navigation } from '@/components/navigation';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Send, Check, X, Ban, Play, Filter, FileDown, Download } from 'lucide-react';
+import { useAccounts } from '@/lib/hooks/use-accounts';
+import {
+  usePayments,
+  useCreatePayment,
+  usePaymentAction,
+  usePaymentFiles,
+  useGeneratePaymentFile,
+} from '@/lib/hooks/use-payments';
+import { getApprovalProgress, DEFAULT_APPROVAL_CHAIN } from '@/lib/payment-workflow';
+import type {
+  CreatePaymentInput,
+  Payment,
+  PaymentAction,
+  PaymentFileFormat,
+  PaymentPriority,
+  PaymentStatus,
+} from '@/lib/types/payment';
+import { toast } from 'sonner';
+
+type QueueFilter = 'queue' | 'all' | PaymentStatus;
+
+const STATUS_STYLES: Record<PaymentStatus, string> = {
+  Draft: 'bg-stone-100 text-stone-700',
+  'Pending Approval': 'bg-orange-50 text-orange-700',
+  Approved: 'bg-blue-50 text-blue-700',
+  Rejected: 'bg-red-50 text-red-700',
+  Scheduled: 'bg-purple-50 text-purple-700',
+  Completed: 'bg-green-50 text-green-700',
+  Failed: 'bg-red-50 text-red-700',
+  Cancelled: 'bg-stone-100 text-stone-500',
+};
+
+// Statuses that still need someone to act
+const QUEUE_STATUSES: PaymentStatus[] = ['Draft', 'Pending Approval', 'Approved', 'Failed'];
+
+// Statuses that can be exported to a bank file
+const EXPORTABLE_STATUSES: PaymentStatus[] = ['Approved', 'Failed'];
+
+const FILE_FORMATS: { value: PaymentFileFormat; label: string }[] = [
+  { value: 'pain.001.001.09', label: 'ISO 20022 pain.001' },
+  { value: 'nacha', label: 'NACHA (US ACH)' },
+];
+
+function formatCurrency(amount: number, currency: string = 'USD') {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 2,
+  }).format(amount);
+}
+
+export default function PaymentsPage() {
+  const { currentTenant, userRole } = useTenant();
+  const { user } = useAuth();
+  const [filter, setFilter] = useState<QueueFilter>('queue');
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [fileFormat, setFileFormat] = useState<PaymentFileFormat>('pain.001.001.09');
+
+  const canCreate = userRole ? ['owner', 'admin', 'editor'].includes(userRole) : false;
+  const isAdmin = userRole ? ['owner', 'admin'].includes(userRole) : false;
+
+  const { data: payments = [], isLoading: loading, error } = usePayments(currentTenant?.id);
+  const { data: paymentFiles = [] } = usePaymentFiles(currentTenant?.id, isAdmin);
+  const paymentAction = usePaymentAction();
+  const generateFile = useGeneratePaymentFile();
+
+  // Drop selections that are no longer exportable (e.g. released by someone else)
+  useEffect(() => {
+    setSelectedIds((ids) =>
+      ids.filter((id) => payments.some((p) => p.payment_id === id && EXPORTABLE_STATUSES.includes(p.status)))
+    );
+  }, [payments]);
+
+  useEffect(() => {
+    if (error) {
+      toast.error('Failed to load payments', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }, [error]);
+
+  const filteredPayments = useMemo(() => {
+    if (filter === 'all') return payments;
+    if (filter === 'queue') return payments.filter((p) => QUEUE_STATUSES.includes(p.status));
+    return payments.filter((p) => p.status === filter);
+  }, [payments, filter]);
+
+  const pendingMyApproval = useMemo(() => {
+    return payments.filter(
+      (p) =>
+        p.status === 'Pending Approval' &&
+        p.created_by !== user?.id &&
+        !(p.approvals || []).some((a) => a.user_id === user?.id)
+    ).length;
+  }, [payments, user?.id]);
+
+  function runAction(payment: Payment, action: PaymentAction) {
+    if (!currentTenant) return;
+
+    let comment: string | undefined;
+    if (action === 'reject' || action === 'fail') {
+      const reason = prompt(action === 'reject' ? 'Reason for rejection:' : 'Failure reason reported by the bank:');
+      if (!reason) return;
+      comment = reason;
+    }
+    if (action === 'cancel' && !confirm('Cancel this payment? This cannot be undone.')) return;
+
+    paymentAction.mutate({ tenantId: currentTenant.id, paymentId: payment.payment_id, action, comment });
+  }
+
+  function toggleSelected(paymentId: string) {
+    setSelectedIds((ids) => (ids.includes(paymentId) ? ids.filter((id) => id !== paymentId) : [...ids, paymentId]));
+  }
+
+  function handleGenerateFile() {
+    if (!currentTenant || selectedIds.length === 0) return;
+    generateFile.mutate(
+      { tenantId: currentTenant.id, paymentIds: selectedIds, format: fileFormat },
+      { onSuccess: () => setSelectedIds([]) }
+    );
+  }
+
+  if (!currentTenant) {
+    return (
+      <div className="flex h-screen">
+        <Navigation />
+        <main className="flex-1 overflow-y-auto bg-stone-50 p-8">
+          <div className="bg-white rounded-xl border border-stone-200 shadow-sm p-12 text-center max-w-2xl mx-auto">
+            <h2 className="text-2xl font-display font-bold text-stone-900 mb-4">No Organization Selected</h2>
+            <p className="text-stone-500">Please select an organization.</p>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex h-screen">
+      <Navigation />
+      <main className="flex-1 overflow-y-auto bg-stone-50">
+        <div className="w-full px-4 sm:px-6 lg:px-8 py-6">
+          {/* Header */}
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-8">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight text-stone-900">Payments</h1>
+              <p className="text-stone-500">
+                {payments.filter((p) => QUEUE_STATUSES.includes(p.status)).length} in queue · {pendingMyApproval} awaiting your approval
+              </p>
+            </div>
+            {canCreate && (
+              <Button onClick={() => setShowCreateModal(true)} size="sm">
+                <Plus className="h-4 w-4 mr-1" />
+                New Payment
+              </Button>
+            )}
+          </div>
+
+          {/* Filter Bar */}
+          <div className="flex flex-wrap items-center gap-2 mb-6">
+            <Filter className="h-4 w-4 text-stone-400" />
+            {(['queue', 'Pending Approval', 'Approved', 'Scheduled', 'Completed', 'Rejected', 'Cancelled', 'all'] as QueueFilter[]).map((f) => (
+              <Button
+                key={f}
+                variant={filter === f ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => setFilter(f)}
+                className={`h-7 text-xs ${filter === f ? 'bg-primary text-primary-foreground hover:bg-primary/90' : 'text-stone-600 hover:text-stone-900 hover:bg-stone-50'}`}
+              >
+                {f === 'queue' ? 'Work Queue' : f === 'all' ? 'All' : f}
+              </Button>
+            ))}
+          </div>
+
+          {/* Export Bar */}
+          {isAdmin && selectedIds.length > 0 && (
+            <div className="flex flex-wrap items-center gap-3 mb-4 px-4 py-3 bg-white rounded-xl border border-stone-200 shadow-sm">
+              <span className="text-sm text-stone-700">{selectedIds.length} selected for export</span>
+              <select
+                value={fileFormat}
+                onChange={(e) => setFileFormat(e.target.value as PaymentFileFormat)}
+                className="h-8 px-2 text-sm border rounded-md"
+              >
+                {FILE_FORMATS.map((format) => (
+                  <option key={format.value} value={format.value}>
+                    {format.label}
+                  </option>
+                ))}
+              </select>
+              <Button size="sm" onClick={handleGenerateFile} disabled={generateFile.isPending}>
+                <FileDown className="h-4 w-4 mr-1" />
+                {generateFile.isPending ? 'Generating...' : 'Generate File'}
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setSelectedIds([])}>
+                Clear
+              </Button>
+            </div>
+          )}
+
+          {loading && <div className="text-center py-12"><p>Loading...</p></div>}
+
+          {!loading && filteredPayments.length === 0 && (
+            <div className="bg-white rounded-xl border border-stone-200 shadow-sm p-12 text-center">
+              <Send className="h-12 w-12 text-stone-400 mx-auto mb-4" />
+              <h2 className="text-xl font-display font-bold text-stone-900 mb-2">No payments here</h2>
+              <p className="text-stone-500">Nothing matches this view right now</p>
+            </div>
+          )}
+
+          {/* Payments Table */}
+          {!loading && filteredPayments.length > 0 && (
+            <Card className="overflow-hidden">
+              <table className="w-full text-sm">
+                <thead className="bg-stone-50 border-b border-stone-200">
+                  <tr className="text-left text-stone-500">
+                    {isAdmin && <th className="w-10 px-4 py-3" />}
+                    <th className="px-4 py-3 font-medium">Payment</th>
+                    <th className="px-4 py-3 font-medium">Beneficiary</th>
+                    <th className="px-4 py-3 font-medium text-right">Amount</th>
+                    <th className="px-4 py-3 font-medium">Value Date</th>
+                    <th className="px-4 py-3 font-medium">Status</th>
+                    <th className="px-4 py-3 font-medium">Approvals</th>
+                    <th className="px-4 py-3 font-medium text-right">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-stone-100">
+                  {filteredPayments.map((payment) => {
+                    const chain = payment.approval_chain?.length ? payment.approval_chain : DEFAULT_APPROVAL_CHAIN;
+                    const progress = getApprovalProgress(chain, payment.approvals || []);
+                    const isCreator = payment.created_by === user?.id;
+                    const hasDecided = (payment.approvals || []).some((a) => a.user_id === user?.id);
+                    const currentStep = progress.currentStep !== null ? chain[progress.currentStep] : null;
+                    const canDecide =
+                      payment.status === 'Pending Approval' &&
+                      !isCreator &&
+                      !hasDecided &&
+                      !!userRole &&
+                      !!currentStep?.roles.includes(userRole);
+
+                    return (
+                      <tr key={payment.payment_id} className="hover:bg-stone-50">
+                        {isAdmin && (
+                          <td className="px-4 py-3">
+                            {EXPORTABLE_STATUSES.includes(payment.status) && (
+                              <input
+                                type="checkbox"
+                                aria-label={`Select ${payment.payment_id} for export`}
+                                checked={selectedIds.includes(payment.payment_id)}
+                                onChange={() => toggleSelected(payment.payment_id)}
+                              />
+                            )}
+                          </td>
+                        )}
+                        <td className="px-4 py-3">
+                          <div className="font-medium text-stone-900">{payment.description}</div>
+                          <div className="text-xs text-stone-500 font-mono">
+                            {payment.payment_id} · {payment.payment_type}
+                            {payment.priority === 'Urgent' || payment.priority === 'High' ? (
+                              <span className="ml-2 text-red-600">{payment.priority}</span>
+                            ) : null}
+                          </div>
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="text-stone-900">{payment.to_entity}</div>
+                          <div className="text-xs text-stone-500 font-mono">
+                            {payment.beneficiary_iban || payment.beneficiary_account_number || '-'}
+                            {payment.beneficiary_routing_number && ` · ABA ${payment.beneficiary_routing_number}`}
+                          </div>
+                        </td>
+                        <td className="px-4 py-3 text-right font-mono tabular-nums text-stone-900">
+                          {formatCurrency(Number(payment.amount), payment.currency)}
+                        </td>
+                        <td className="px-4 py-3 text-stone-600">{payment.scheduled_date}</td>
+                        <td className="px-4 py-3">
+                          <Badge variant="outline" className={`border-transparent ${STATUS_STYLES[payment.status] || ''}`}>
+                            {payment.status}
+                          </Badge>
+                          {payment.rejection_reason && payment.status === 'Rejected' && (
+                            <div className="text-xs text-red-600 mt-1">{payment.rejection_reason}</div>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-xs text-stone-600">
+                          {payment.status === 'Pending Approval' && currentStep ? (
+                            <span>
+                              {currentStep.name}: {progress.stepApprovals[progress.currentStep!]}/{currentStep.approvals}
+                              <span className="text-stone-400"> ({currentStep.roles.join('/')})</span>
+                            </span>
+                          ) : (
+                            <span>{(payment.approvals || []).filter((a) => a.decision === 'approved').length} approved</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="flex justify-end gap-1">
+                            {payment.status === 'Draft' && canCreate && (
+                              <Button size="sm" variant="ghost" className="h-8" onClick={() => runAction(payment, 'submit')}>
+                                <Send className="h-4 w-4 mr-1" />
+                                Submit
+                              </Button>
+                            )}
+                            {canDecide && (
+                              <>
+                                <Button size="sm" variant="ghost" className="h-8 text-green-700 hover:bg-green-50" onClick={() => runAction(payment, 'approve')}>
+                                  <Check className="h-4 w-4 mr-1" />
+                                  Approve
+                                </Button>
+                                <Button size="sm" variant="ghost" className="h-8 text-red-600 hover:bg-red-50" onClick={() => runAction(payment, 'reject')}>
+                                  <X className="h-4 w-4 mr-1" />
+                                  Reject
+                                </Button>
+                              </>
+                            )}
+                            {isAdmin && (payment.status === 'Approved' || payment.status === 'Failed') && (
+                              <Button size="sm" variant="ghost" className="h-8" onClick={() => runAction(payment, 'release')}>
+                                <Play className="h-4 w-4 mr-1" />
+                                Release
+                              </Button>
+                            )}
+                            {isAdmin && payment.status === 'Scheduled' && (
+                              <>
+                                <Button size="sm" variant="ghost" className="h-8 text-green-700 hover:bg-green-50" onClick={() => runAction(payment, 'complete')}>
+                                  Completed
+                                </Button>
+                                <Button size="sm" variant="ghost" className="h-8 text-red-600 hover:bg-red-50" onClick={() => runAction(payment, 'fail')}>
+                                  Failed
+                                </Button>
+                              </>
+                            )}
+                            {(isCreator || isAdmin) &&
+                              ['Draft', 'Pending Approval', 'Approved', 'Scheduled', 'Failed'].includes(payment.status) && (
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  className="h-8 w-8 p-0 text-stone-500 hover:text-red-600 hover:bg-red-50"
+                                  title="Cancel payment"
+                                  onClick={() => runAction(payment, 'cancel')}
+                                >
+                                  <Ban className="h-4 w-4" />
+                                </Button>
+                              )}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </Card>
+          )}
+
+          {/* Payment Files */}
+          {isAdmin && paymentFiles.length > 0 && (
+            <div className="mt-8">
+              <h2 className="text-lg font-semibold text-stone-900 mb-3">Payment Files</h2>
+              <Card className="overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead className="bg-stone-50 border-b border-stone-200">
+                    <tr className="text-left text-stone-500">
+                      <th className="px-4 py-3 font-medium">File</th>
+                      <th className="px-4 py-3 font-medium">Format</th>
+                      <th className="px-4 py-3 font-medium text-right">Payments</th>
+                      <th className="px-4 py-3 font-medium text-right">Control Sum</th>
+                      <th className="px-4 py-3 font-medium">SHA-256</th>
+                      <th className="px-4 py-3 font-medium">Status</th>
+                      <th className="px-4 py-3 font-medium text-right" />
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-stone-100">
+                    {paymentFiles.map((file) => (
+                      <tr key={file.id} className="hover:bg-stone-50">
+                        <td className="px-4 py-3">
+                          <div className="font-mono text-stone-900">{file.file_name}</div>
+                          <div className="text-xs text-stone-500">{new Date(file.created_at).toLocaleString()}</div>
+                        </td>
+                        <td className="px-4 py-3 text-stone-600">{file.format}</td>
+                        <td className="px-4 py-3 text-right tabular-nums">{file.payment_count}</td>
+                        <td className="px-4 py-3 text-right font-mono tabular-nums">
+                          {file.currency
+                            ? formatCurrency(Number(file.control_sum), file.currency)
+                            : Number(file.control_sum).toFixed(2)}
+                        </td>
+                        <td className="px-4 py-3 font-mono text-xs text-stone-500" title={file.sha256}>
+                          {file.sha256.slice(0, 12)}…
+                        </td>
+                        <td className="px-4 py-3">
+                          <Badge variant="outline">{file.status}</Badge>
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          {file.status !== 'void' && (
+                            <a
+                              href={`/api/payments/files/${file.id}?tenantId=${currentTenant.id}`}
+                              className="inline-flex items-center text-sm text-stone-700 hover:text-stone-900"
+                            >
+                              <Download className="h-4 w-4 mr-1" />
+                              Download
+                            </a>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </Card>
+            </div>
+          )}
+        </div>
+      </main>
+
+      {showCreateModal && (
+        <CreatePaymentModal tenantId={currentTenant.id} onClose={() => setShowCreateModal(false)} />
+      )}
+    </div>
+  );
+}
+
+function CreatePaymentModal({ tenantId, onClose }: { tenantId: string; onClose: () => void }) {
+  const { data: accounts = [] } = useAccounts(tenantId);
+  const createPaymentMutation = useCreatePayment();
+  const [formData, setFormData] = useState({
+    from_account: '',
+    to_entity: '',
+    amount: '',
+    currency: '',
+    scheduled_date: new Date().toISOString().split('T')[0],
+    description: '',
+    payment_type: 'Wire',
+    priority: 'Medium' as PaymentPriority,
+    beneficiary_iban: '',
+    beneficiary_bic: '',
+    beneficiary_account_number: '',
+    beneficiary_bank_name: '',
+    beneficiary_routing_number: '',
+    beneficiary_account_type: 'checking' as 'checking' | 'savings',
+    reference: '',
+  });
+
+  const selectedAccount = accounts.find((acc) => acc.account_id === formData.from_account);
+
+  function handleSubmit(e: React.FormEvent, submit: boolean) {
+    e.preventDefault();
+
+    const input: CreatePaymentInput = {
+      tenant_id: tenantId,
+      from_account: formData.from_account,
+      to_entity: formData.to_entity,
+      amount: parseFloat(formData.amount),
+      currency: formData.currency || selectedAccount?.currency || 'USD',
+      scheduled_date: formData.scheduled_date,
+      description: formData.description,
+      payment_type: formData.payment_type,
+      priority: formData.priority,
+      beneficiary_iban: formData.beneficiary_iban || undefined,
+      beneficiary_bic: formData.beneficiary_bic || undefined,
+      beneficiary_account_number: formData.beneficiary_account_number || undefined,
+      beneficiary_bank_name: formData.beneficiary_bank_name || undefined,
+      beneficiary_routing_number: formData.beneficiary_routing_number || undefined,
+      beneficiary_account_type: formData.beneficiary_routing_number ? formData.beneficiary_account_type : undefined,
+      reference: formData.reference || undefined,
+      submit,
+    };
+
+    createPaymentMutation.mutate(input, { onSuccess: onClose });
+  }
+
+  const inputClass = 'w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <Card className="max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <form onSubmit={(e) => handleSubmit(e, true)} className="p-6">
+          <h2 className="text-2xl font-bold mb-6">New Payment</h2>
+
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                Debit Account <span className="text-red-500">*</span>
+              </label>
+              <select
+                required
+                value={formData.from_account}
+                onChange={(e) => setFormData({ ...formData, from_account: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">Select account...</option>
+                {accounts.map((acc) => (
+                  <option key={acc.account_id} value={acc.account_id}>
+                    {acc.account_name} ({acc.currency})
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                Beneficiary <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="text"
+                required
+                value={formData.to_entity}
+                onChange={(e) => setFormData({ ...formData, to_entity: e.target.value })}
+                className={inputClass}
+                placeholder="Beneficiary name"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">IBAN</label>
+                <input
+                  type="text"
+                  value={formData.beneficiary_iban}
+                  onChange={(e) => setFormData({ ...formData, beneficiary_iban: e.target.value })}
+                  className={`${inputClass} font-mono`}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">BIC</label>
+                <input
+                  type="text"
+                  value={formData.beneficiary_bic}
+                  onChange={(e) => setFormData({ ...formData, beneficiary_bic: e.target.value })}
+                  className={`${inputClass} font-mono`}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Account Number</label>
+                <input
+                  type="text"
+                  value={formData.beneficiary_account_number}
+                  onChange={(e) => setFormData({ ...formData, beneficiary_account_number: e.target.value })}
+                  className={`${inputClass} font-mono`}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Bank Name</label>
+                <input
+                  type="text"
+                  value={formData.beneficiary_bank_name}
+                  onChange={(e) => setFormData({ ...formData, beneficiary_bank_name: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              {formData.payment_type === 'ACH' && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium mb-2">ABA Routing Number</label>
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      maxLength={9}
+                      value={formData.beneficiary_routing_number}
+                      onChange={(e) => setFormData({ ...formData, beneficiary_routing_number: e.target.value })}
+                      className={`${inputClass} font-mono`}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Account Type</label>
+                    <select
+                      value={formData.beneficiary_account_type}
+                      onChange={(e) =>
+                        setFormData({ ...formData, beneficiary_account_type: e.target.value as 'checking' | 'savings' })
+                      }
+                      className={inputClass}
+                    >
+                      <option value="checking">Checking</option>
+                      <option value="savings">Savings</option>
+                    </select>
+                  </div>
+                </>
+              )}
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Amount <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="number"
+                  required
+                  min="0.01"
+                  step="0.01"
+                  value={formData.amount}
+                  onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Currency</label>
+                <input
+                  type="text"
+                  maxLength={3}
+                  value={formData.currency}
+                  onChange={(e) => setFormData({ ...formData, currency: e.target.value.toUpperCase() })}
+                  className={inputClass}
+                  placeholder={selectedAccount?.currency || 'USD'}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Value Date <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="date"
+                  required
+                  value={formData.scheduled_date}
+                  onChange={(e) => setFormData({ ...formData, scheduled_date: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">Payment Type</label>
+                <select
+                  value={formData.payment_type}
+                  onChange={(e) => setFormData({ ...formData, payment_type: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="Wire">Wire</option>
+                  <option value="ACH">ACH</option>
+                  <option value="SEPA">SEPA</option>
+                  <option value="Internal Transfer">Internal Transfer</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Priority</label>
+                <select
+                  value={formData.priority}
+                  onChange={(e) => setFormData({ ...formData, priority: e.target.value as PaymentPriority })}
+                  className={inputClass}
+                >
+                  <option value="Low">Low</option>
+                  <option value="Medium">Medium</option>
+                  <option value="High">High</option>
+                  <option value="Urgent">Urgent</option>
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                Description <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="text"
+                required
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">Remittance Reference</label>
+              <input
+                type="text"
+                value={formData.reference}
+                onChange={(e) => setFormData({ ...formData, reference: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          {/* Actions */}
+          <div className="flex gap-3 mt-6 pt-6 border-t">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={createPaymentMutation.isPending}
+              className="flex-1"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={(e) => handleSubmit(e, false)}
+              disabled={createPaymentMutation.isPending}
+              className="flex-1"
+            >
+              Save Draft
+            </Button>
+            <Button
+              type="submit"
+              disabled={createPaymentMutation.isPending}
+              className="flex-1"
+            >
+              {createPaymentMutation.isPending ? 'Saving...' : 'Submit for Approval'}
+            </Button>
+          </div>
+        </form>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,339 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useTenant } from '@/lib/tenant-context';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, ArrowLeft, RefreshCw, Scale } from 'lucide-react';
+import { useEntities } from '@/lib/hooks/use-entities';
+import { useFxExposure } from '@/lib/hooks/use-fx-exposure';
+import type { RateType } from '@/lib/currency';
+import type { FxExposurePosition } from '@/lib/types/fx';
+
+const HORIZONS = [
+  { label: '3 months', days: 92 },
+  { label: '6 months', days: 183 },
+  { label: '12 months', days: 365 },
+  { label: '24 months', days: 730 },
+];
+
+const RATE_TYPES: RateType[] = ['SPOT', 'EOM', 'AVG'];
+
+const REPORTING_CURRENCIES = ['USD', 'EUR', 'GBP', 'CHF', 'JPY', 'CAD', 'AUD', 'SGD'];
+
+function today() {
+  return new Date().toISOString().split('T')[0];
+}
+
+function formatAmount(value: number | null | undefined, currency: string) {
+  if (value == null) return '—';
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 0 }).format(value);
+}
+
+export default function FxExposurePage() {
+  const { currentTenant } = useTenant();
+  const [asOf, setAsOf] = useState(today());
+  const [horizonDays, setHorizonDays] = useState(365);
+  const [entityId, setEntityId] = useState('');
+  const [reportingCurrency, setReportingCurrency] = useState('USD');
+  const [rateType, setRateType] = useState<RateType>('SPOT');
+  const [showFunctional, setShowFunctional] = useState(false);
+
+  const { data: entities = [] } = useEntities(currentTenant?.id);
+  const { data, isLoading, refetch, isFetching } = useFxExposure(currentTenant?.id, {
+    asOf,
+    horizonDays,
+    entityId: entityId || undefined,
+    reportingCurrency,
+  });
+
+  const positions = useMemo(
+    () => (data?.positions || []).filter((position) => showFunctional || position.exposed),
+    [data, showFunctional]
+  );
+
+  const entityName = (id: string) => entities.find((entity) => entity.entity_id === id)?.entity_name || id;
+
+  if (!currentTenant) {
+    return (
+      <div className="p-8">
+        <Card className="p-12 text-center max-w-2xl mx-auto">
+          <h2 className="text-2xl font-semibold mb-4">No Organization Selected</h2>
+          <p className="text-muted-foreground">Please select an organization from the sidebar.</p>
+        </Card>
+      </div>
+    );
+  }
+
+  const renderSourceBreakdown = (position: FxExposurePosition) =>
+    [
+      position.balances !== 0 && `Balances ${formatAmount(position.balances, position.currency)}`,
+      position.forecast_flows !== 0 && `Forecast ${formatAmount(position.forecast_flows, position.currency)}`,
+      position.open_payments !== 0 && `Payments ${formatAmount(position.open_payments, position.currency)}`,
+    ]
+      .filter(Boolean)
+      .join(' • ');
+
+  return (
+    <div className="p-8 space-y-6">
+      {/* Header */}
+      <div>
+        <Link href="/rates">
+          <Button variant="ghost" className="mb-4">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Rates
+          </Button>
+        </Link>
+        <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">FX Exposure</h1>
+            <p className="text-muted-foreground mt-1">
+              Balances, forecast flows and open payments against each entity&apos;s functional currency
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="date"
+              value={asOf}
+              onChange={(e) => setAsOf(e.target.value || today())}
+              className="border rounded px-2 py-1 text-sm"
+            />
+            <select
+              value={horizonDays}
+              onChange={(e) => setHorizonDays(Number(e.target.value))}
+              className="border rounded px-2 py-1 text-sm"
+            >
+              {HORIZONS.map((horizon) => (
+                <option key={horizon.days} value={horizon.days}>
+                  {horizon.label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={entityId}
+              onChange={(e) => setEntityId(e.target.value)}
+              className="border rounded px-2 py-1 text-sm"
+            >
+              <option value="">All entities</option>
+              {entities.map((entity) => (
+                <option key={entity.entity_id} value={entity.entity_id}>
+                  {entity.entity_name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={reportingCurrency}
+              onChange={(e) => setReportingCurrency(e.target.value)}
+              className="border rounded px-2 py-1 text-sm"
+              title="Reporting currency"
+            >
+              {REPORTING_CURRENCIES.map((currency) => (
+                <option key={currency} value={currency}>
+                  {currency}
+                </option>
+              ))}
+            </select>
+            <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+              <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {isLoading || !data ? (
+        <div className="text-center py-12">
+          <RefreshCw className="h-8 w-8 animate-spin mx-auto mb-4 text-muted-foreground" />
+          <p className="text-muted-foreground">Loading exposure…</p>
+        </div>
+      ) : (
+        <>
+          {data.missing_rates.length > 0 && (
+            <Card className="p-4 border-amber-200 bg-amber-50 flex items-start gap-3">
+              <AlertTriangle className="h-5 w-5 text-amber-600 mt-0.5" />
+              <div className="text-sm text-amber-900">
+                No SPOT rate for {data.missing_rates.join(', ')}. These positions are listed but left out of the
+                sensitivity figures.
+              </div>
+            </Card>
+          )}
+
+          {/* By currency */}
+          <Card>
+            <div className="p-4 border-b flex items-center gap-2">
+              <Scale className="h-5 w-5 text-stone-600" />
+              <h2 className="text-lg font-semibold">Net Exposure by Currency</h2>
+              <Badge variant="outline">{data.reporting_currency}</Badge>
+            </div>
+            {data.by_currency.length === 0 ? (
+              <div className="p-8 text-center text-sm text-muted-foreground">
+                No positions outside their entity&apos;s functional currency.
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="border-b bg-muted/50">
+                    <tr>
+                      <th className="text-left p-3 font-medium">Currency</th>
+                      <th className="text-right p-3 font-medium">Net Exposure</th>
+                      {data.shocks.map((shock) => (
+                        <th key={shock} className="text-right p-3 font-medium">
+                          {shock}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.by_currency.map((row) => (
+                      <tr key={row.currency} className="border-b">
+                        <td className="p-3 font-medium">{row.currency}</td>
+                        <td className="p-3 text-right font-semibold">
+                          {formatAmount(row.reporting_value, data.reporting_currency)}
+                        </td>
+                        {data.shocks.map((shock) => (
+                          <td
+                            key={shock}
+                            className={`p-3 text-right ${(row.impacts[shock] || 0) < 0 ? 'text-red-600' : 'text-green-600'}`}
+                          >
+                            {formatAmount(row.impacts[shock], data.reporting_currency)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </Card>
+
+          {/* Sensitivity per entity */}
+          <Card>
+            <div className="p-4 border-b">
+              <h2 className="text-lg font-semibold">Sensitivity by Entity</h2>
+              <p className="text-sm text-muted-foreground">
+                Change in functional-currency value if the foreign currency moves by each amount
+              </p>
+            </div>
+            {data.sensitivities.length === 0 ? (
+              <div className="p-8 text-center text-sm text-muted-foreground">Nothing exposed.</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="border-b bg-muted/50">
+                    <tr>
+                      <th className="text-left p-3 font-medium">Entity</th>
+                      <th className="text-left p-3 font-medium">Currency</th>
+                      <th className="text-right p-3 font-medium">Net Amount</th>
+                      <th className="text-right p-3 font-medium">SPOT Value</th>
+                      {data.shocks.map((shock) => (
+                        <th key={shock} className="text-right p-3 font-medium">
+                          {shock}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.sensitivities.map((row) => (
+                      <tr key={`${row.entity_id}:${row.currency}`} className="border-b">
+                        <td className="p-3">{entityName(row.entity_id)}</td>
+                        <td className="p-3">
+                          {row.currency} → {row.functional_currency}
+                        </td>
+                        <td className="p-3 text-right">{formatAmount(row.net_amount, row.currency)}</td>
+                        <td className="p-3 text-right font-semibold">
+                          {formatAmount(row.spot_value, row.functional_currency)}
+                        </td>
+                        {data.shocks.map((shock) => (
+                          <td
+                            key={shock}
+                            className={`p-3 text-right ${(row.impacts[shock] || 0) < 0 ? 'text-red-600' : 'text-green-600'}`}
+                          >
+                            {formatAmount(row.impacts[shock], row.functional_currency)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </Card>
+
+          {/* Positions */}
+          <Card>
+            <div className="p-4 border-b flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+              <div>
+                <h2 className="text-lg font-semibold">Positions by Tenor</h2>
+                <p className="text-sm text-muted-foreground">
+                  As of {data.as_of}, {data.horizon_days}-day horizon
+                </p>
+              </div>
+              <div className="flex items-center gap-3 text-sm">
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={showFunctional} onChange={(e) => setShowFunctional(e.target.checked)} />
+                  Include functional-currency positions
+                </label>
+                <div className="flex rounded-md border overflow-hidden">
+                  {RATE_TYPES.map((type) => (
+                    <button
+                      key={type}
+                      onClick={() => setRateType(type)}
+                      className={`px-3 py-1 ${rateType === type ? 'bg-stone-900 text-white' : 'hover:bg-muted/50'}`}
+                    >
+                      {type}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+            {positions.length === 0 ? (
+              <div className="p-8 text-center text-sm text-muted-foreground">No positions.</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="border-b bg-muted/50">
+                    <tr>
+                      <th className="text-left p-3 font-medium">Entity</th>
+                      <th className="text-left p-3 font-medium">Currency</th>
+                      <th className="text-left p-3 font-medium">Tenor</th>
+                      <th className="text-left p-3 font-medium">Sources</th>
+                      <th className="text-right p-3 font-medium">Net Amount</th>
+                      <th className="text-right p-3 font-medium">Translated ({rateType})</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {positions.map((position) => (
+                      <tr
+                        key={`${position.entity_id}:${position.currency}:${position.tenor}`}
+                        className="border-b"
+                      >
+                        <td className="p-3">{position.entity_name}</td>
+                        <td className="p-3">
+                          {position.currency}
+                          {!position.exposed && (
+                            <Badge variant="outline" className="ml-2">
+                              Functional
+                            </Badge>
+                          )}
+                        </td>
+                        <td className="p-3">{position.tenor === 'spot' ? 'Spot' : position.tenor}</td>
+                        <td className="p-3 text-xs text-muted-foreground">{renderSourceBreakdown(position)}</td>
+                        <td className={`p-3 text-right ${position.net_amount < 0 ? 'text-red-600' : ''}`}>
+                          {formatAmount(position.net_amount, position.currency)}
+                        </td>
+                        <td className="p-3 text-right font-semibold">
+                          {formatAmount(position.translated[rateType], position.functional_currency)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 'use client'
 
 import React, { useEffect, useMemo, useRef, useState } from 'react'
+import Link from 'next/link'
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import {
   TrendingUp,
@@ -14,7 +15,9 @@ import {
   Activity,
   ArrowRight,
   Search,
-  Trash2
+  Trash2,
+  Scale,
+  FileSpreadsheet
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import {
@@ -418,6 +421,20 @@ export default function RatesPage() {
             <h1 className="text-3xl font-bold tracking-tight text-stone-900">Exchange Rates</h1>
             <p className="text-stone-500 mt-1">Global currency trends and historical data intelligence</p>
           </div>
+          <div className="flex gap-2">
+            <Link href="/rates/exposure">
+              <Button variant="outline" size="sm">
+                <Scale className="h-4 w-4 mr-2" />
+                FX Exposure
+              </Button>
+            </Link>
+            <Link href="/rates/revaluation">
+              <Button variant="outline" size="sm">
+                <FileSpreadsheet className="h-4 w-4 mr-2" />
+                Revaluation
+              </Button>
+            </Link>
+          </div>
         </div>
         <div className="flex flex-col lg:flex-row items-start lg:items-center justify-between gap-4 bg-white p-4 rounded-xl border border-stone-200 shadow-sm">
           <div className="flex flex-wrap items-center gap-3">
@@ -0,0 +1,309 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import Papa from 'papaparse';
+import { useTenant } from '@/lib/tenant-context';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, ArrowLeft, Download, FileSpreadsheet, RefreshCw } from 'lucide-react';
+import { useEntities } from '@/lib/hooks/use-entities';
+import { useFxRevaluation } from '@/lib/hooks/use-fx-revaluation';
+
+// Last day of the previous month
+function lastMonthEnd() {
+  const d = new Date();
+  d.setUTCDate(0);
+  return d.toISOString().split('T')[0];
+}
+
+function toMonthEnd(month: string) {
+  const d = new Date(`${month}-01T00:00:00Z`);
+  d.setUTCMonth(d.getUTCMonth() + 1);
+  d.setUTCDate(0);
+  return d.toISOString().split('T')[0];
+}
+
+function formatAmount(value: number | null | undefined, currency: string) {
+  if (value == null) return '—';
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 2 }).format(value);
+}
+
+function gainClass(value: number) {
+  return value < 0 ? 'text-red-600' : value > 0 ? 'text-green-600' : '';
+}
+
+export default function FxRevaluationPage() {
+  const { currentTenant } = useTenant();
+  const [periodEnd, setPeriodEnd] = useState(lastMonthEnd());
+  const [entityId, setEntityId] = useState('');
+  const [realizedGlCode, setRealizedGlCode] = useState('');
+  const [unrealizedGlCode, setUnrealizedGlCode] = useState('');
+
+  const { data: entities = [] } = useEntities(currentTenant?.id);
+  const { data, isLoading, error, refetch, isFetching } = useFxRevaluation(currentTenant?.id, {
+    periodEnd,
+    entityId: entityId || undefined,
+    realizedGlCode: realizedGlCode || undefined,
+    unrealizedGlCode: unrealizedGlCode || undefined,
+  });
+
+  if (!currentTenant) {
+    return (
+      <div className="p-8">
+        <Card className="p-12 text-center max-w-2xl mx-auto">
+          <h2 className="text-2xl font-semibold mb-4">No Organization Selected</h2>
+          <p className="text-muted-foreground">Please select an organization from the sidebar.</p>
+        </Card>
+      </div>
+    );
+  }
+
+  const handleDownloadJournal = () => {
+    if (!data?.journal.length) return;
+
+    const csv = Papa.unparse(
+      data.journal.map((row) => ({
+        journal_date: row.journal_date,
+        entity_id: row.entity_id,
+        gl_account_code: row.gl_account_code ?? '',
+        description: row.description,
+        currency: row.currency,
+        debit: row.debit.toFixed(2),
+        credit: row.credit.toFixed(2),
+      }))
+    );
+
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `fx-revaluation-${data.period_end}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="p-8 space-y-6">
+      {/* Header */}
+      <div>
+        <Link href="/rates">
+          <Button variant="ghost" className="mb-4">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Rates
+          </Button>
+        </Link>
+        <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">FX Revaluation</h1>
+            <p className="text-muted-foreground mt-1">
+              Period-end revaluation of foreign-currency balances at EOM rates
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="month"
+              value={periodEnd.slice(0, 7)}
+              onChange={(e) => e.target.value && setPeriodEnd(toMonthEnd(e.target.value))}
+              className="border rounded px-2 py-1 text-sm"
+            />
+            <select
+              value={entityId}
+              onChange={(e) => setEntityId(e.target.value)}
+              className="border rounded px-2 py-1 text-sm"
+            >
+              <option value="">All entities</option>
+              {entities.map((entity) => (
+                <option key={entity.entity_id} value={entity.entity_id}>
+                  {entity.entity_name}
+                </option>
+              ))}
+            </select>
+            <input
+              defaultValue={realizedGlCode}
+              onBlur={(e) => setRealizedGlCode(e.target.value.trim())}
+              placeholder="Realized G/L code"
+              className="border rounded px-2 py-1 text-sm w-36"
+            />
+            <input
+              defaultValue={unrealizedGlCode}
+              onBlur={(e) => setUnrealizedGlCode(e.target.value.trim())}
+              placeholder="Unrealized G/L code"
+              className="border rounded px-2 py-1 text-sm w-36"
+            />
+            <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+              <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {error ? (
+        <Card className="p-6 text-sm text-red-600">{(error as Error).message}</Card>
+      ) : isLoading || !data ? (
+        <div className="text-center py-12">
+          <RefreshCw className="h-8 w-8 animate-spin mx-auto mb-4 text-muted-foreground" />
+          <p className="text-muted-foreground">Revaluing balances…</p>
+        </div>
+      ) : (
+        <>
+          {(data.missing_rates.length > 0 || data.warnings.length > 0) && (
+            <Card className="p-4 border-amber-200 bg-amber-50 flex items-start gap-3">
+              <AlertTriangle className="h-5 w-5 text-amber-600 mt-0.5" />
+              <div className="text-sm text-amber-900 space-y-1">
+                {data.missing_rates.length > 0 && (
+                  <p>No EOM rate for {data.missing_rates.join(', ')}. Those accounts are not revalued.</p>
+                )}
+                {data.warnings.map((warning) => (
+                  <p key={warning}>{warning}</p>
+                ))}
+              </div>
+            </Card>
+          )}
+
+          {/* By entity */}
+          <Card>
+            <div className="p-4 border-b">
+              <h2 className="text-lg font-semibold">Gain / Loss by Entity</h2>
+              <p className="text-sm text-muted-foreground">
+                {data.period_start} to {data.period_end}, opening rates at {data.opening_date}
+              </p>
+            </div>
+            {data.entities.length === 0 ? (
+              <div className="p-8 text-center text-sm text-muted-foreground">
+                No foreign-currency accounts to revalue.
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="border-b bg-muted/50">
+                    <tr>
+                      <th className="text-left p-3 font-medium">Entity</th>
+                      <th className="text-right p-3 font-medium">Accounts</th>
+                      <th className="text-right p-3 font-medium">Realized</th>
+                      <th className="text-right p-3 font-medium">Unrealized</th>
+                      <th className="text-right p-3 font-medium">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.entities.map((entity) => (
+                      <tr key={entity.entity_id} className="border-b">
+                        <td className="p-3">
+                          {entity.entity_name}
+                          <Badge variant="outline" className="ml-2">
+                            {entity.functional_currency}
+                          </Badge>
+                        </td>
+                        <td className="p-3 text-right">{entity.accounts}</td>
+                        <td className={`p-3 text-right ${gainClass(entity.realized_gain_loss)}`}>
+                          {formatAmount(entity.realized_gain_loss, entity.functional_currency)}
+                        </td>
+                        <td className={`p-3 text-right ${gainClass(entity.unrealized_gain_loss)}`}>
+                          {formatAmount(entity.unrealized_gain_loss, entity.functional_currency)}
+                        </td>
+                        <td className={`p-3 text-right font-semibold ${gainClass(entity.total_gain_loss)}`}>
+                          {formatAmount(entity.total_gain_loss, entity.functional_currency)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </Card>
+
+          {/* By account */}
+          {data.lines.length > 0 && (
+            <Card>
+              <div className="p-4 border-b">
+                <h2 className="text-lg font-semibold">Accounts</h2>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="border-b bg-muted/50">
+                    <tr>
+                      <th className="text-left p-3 font-medium">Account</th>
+                      <th className="text-right p-3 font-medium">Opening</th>
+                      <th className="text-right p-3 font-medium">Closing</th>
+                      <th className="text-right p-3 font-medium">Rates (open / avg / close)</th>
+                      <th className="text-right p-3 font-medium">Realized</th>
+                      <th className="text-right p-3 font-medium">Unrealized</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.lines.map((line) => (
+                      <tr key={line.account_id} className="border-b">
+                        <td className="p-3">
+                          {line.account_name}
+                          <span className="ml-2 text-xs text-muted-foreground">
+                            {line.gl_account_code || 'No GL code'}
+                          </span>
+                        </td>
+                        <td className="p-3 text-right">{formatAmount(line.opening_balance, line.currency)}</td>
+                        <td className="p-3 text-right">{formatAmount(line.closing_balance, line.currency)}</td>
+                        <td className="p-3 text-right text-xs text-muted-foreground">
+                          {line.opening_rate.toFixed(4)} / {line.average_rate.toFixed(4)} / {line.closing_rate.toFixed(4)}
+                        </td>
+                        <td className={`p-3 text-right ${gainClass(line.realized_gain_loss)}`}>
+                          {formatAmount(line.realized_gain_loss, line.functional_currency)}
+                        </td>
+                        <td className={`p-3 text-right ${gainClass(line.unrealized_gain_loss)}`}>
+                          {formatAmount(line.unrealized_gain_loss, line.functional_currency)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </Card>
+          )}
+
+          {/* Journal */}
+          <Card>
+            <div className="p-4 border-b flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <FileSpreadsheet className="h-5 w-5 text-stone-600" />
+                <h2 className="text-lg font-semibold">Journal</h2>
+              </div>
+              <Button variant="outline" size="sm" onClick={handleDownloadJournal} disabled={!data.journal.length}>
+                <Download className="h-4 w-4 mr-2" />
+                Export CSV
+              </Button>
+            </div>
+            {data.journal.length === 0 ? (
+              <div className="p-8 text-center text-sm text-muted-foreground">No entries for this period.</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="border-b bg-muted/50">
+                    <tr>
+                      <th className="text-left p-3 font-medium">Date</th>
+                      <th className="text-left p-3 font-medium">GL Code</th>
+                      <th className="text-left p-3 font-medium">Description</th>
+                      <th className="text-right p-3 font-medium">Debit</th>
+                      <th className="text-right p-3 font-medium">Credit</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.journal.map((row) => (
+                      <tr key={`${row.account_id}:${row.line_type}`} className="border-b">
+                        <td className="p-3">{row.journal_date}</td>
+                        <td className="p-3">{row.gl_account_code || <span className="text-amber-600">Unassigned</span>}</td>
+                        <td className="p-3">{row.description}</td>
+                        <td className="p-3 text-right">{row.debit ? formatAmount(row.debit, row.currency) : ''}</td>
+                        <td className="p-3 text-right">{row.credit ? formatAmount(row.credit, row.currency) : ''}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -8,11 +8,26 @@ import { Button } from '@/components/ui/button'
 import { AlertCircle, CheckCircle2, Loader2, Building2, Save } from 'lucide-react'
 import { createClient } from '@supabase/supabase-js'
 import { useRouter } from 'next/navigation'
+import { useQueryClient } from '@tanstack/react-query'
+import { reportingCurrencyKeys, useReportingBalances, useUpdateReportingCurrency } from '@/lib/hooks/use-reporting-currency'
+
+const CURRENCY_OPTIONS = [
+  { value: 'USD', label: 'USD - US Dollar' },
+  { value: 'EUR', label: 'EUR - Euro' },
+  { value: 'GBP', label: 'GBP - British Pound' },
+  { value: 'JPY', label: 'JPY - Japanese Yen' },
+  { value: 'AUD', label: 'AUD - Australian Dollar' },
+  { value: 'CAD', label: 'CAD - Canadian Dollar' },
+  { value: 'CHF', label: 'CHF - Swiss Franc' },
+  { value: 'CNY', label: 'CNY - Chinese Yuan' },
+  { value: 'SGD', label: 'SGD - Singapore Dollar' },
+]
 
 export default function SettingsPage() {
   const { currentTenant, refreshTenants, userRole } = useTenant()
   const { user } = useAuth()
   const router = useRouter()
+  const queryClient = useQueryClient()
   const [loading, setLoading] = useState(false)
   const [success, setSuccess] = useState<string | null>(null)
   const [error, setError] = useState<string | null>(null)
@@ -23,6 +38,9 @@ export default function SettingsPage() {
   const [timezone, setTimezone] = useState('America/New_York')
   const [dateFormat, setDateFormat] = useState('MM/DD/YYYY')
 
+  const { data: reporting } = useReportingBalances(currentTenant?.id)
+  const updateReportingCurrency = useUpdateReportingCurrency()
+
   const supabase = createClient(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
     process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
@@ -77,6 +95,7 @@ export default function SettingsPage() {
 
       setSuccess('Settings updated successfully')
       await refreshTenants()
+      queryClient.invalidateQueries({ queryKey: reportingCurrencyKeys.tenant(currentTenant.id) })
 
       // Clear success message after 3 seconds
       setTimeout(() => setSuccess(null), 3000)
@@ -224,7 +243,7 @@ export default function SettingsPage() {
             <div className="space-y-4">
               <div>
                 <label htmlFor="currency" className="block text-sm font-medium text-gray-700 mb-2">
-                  Default Currency
+                  Reporting Currency
                 </label>
                 <select
                   id="currency"
@@ -233,16 +252,39 @@ export default function SettingsPage() {
                   disabled={!canEdit || loading}
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent disabled:bg-gray-100 disabled:cursor-not-allowed"
                 >
-                  <option value="USD">USD - US Dollar</option>
-                  <option value="EUR">EUR - Euro</option>
-                  <option value="GBP">GBP - British Pound</option>
-                  <option value="JPY">JPY - Japanese Yen</option>
-                  <option value="AUD">AUD - Australian Dollar</option>
-                  <option value="CAD">CAD - Canadian Dollar</option>
-                  <option value="CHF">CHF - Swiss Franc</option>
-                  <option value="CNY">CNY - Chinese Yuan</option>
-                  <option value="SGD">SGD - Singapore Dollar</option>
+                  {CURRENCY_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500">
+                  Dashboard and entity totals are converted into this currency. Entities can override it.
+                </p>
+              </div>
+
+              <div>
+                <label htmlFor="userReportingCurrency" className="block text-sm font-medium text-gray-700 mb-2">
+                  My Reporting Currency
+                </label>
+                <select
+                  id="userReportingCurrency"
+                  value={reporting?.preferences.user_currency || ''}
+                  onChange={(e) =>
+                    updateReportingCurrency.mutate({
+                      tenantId: currentTenant.id,
+                      reportingCurrency: e.target.value || null,
+                    })
+                  }
+                  disabled={!reporting || updateReportingCurrency.isPending}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent disabled:bg-gray-100 disabled:cursor-not-allowed"
+                >
+                  <option value="">Organization default ({currentTenant.settings.currency || 'USD'})</option>
+                  {CURRENCY_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
                 </select>
+                <p className="mt-1 text-xs text-gray-500">
+                  Applies only to you. Saved immediately.
+                </p>
               </div>
 
               <div>
@@ -11,12 +11,16 @@ import { useRouter } from 'next/navigation';
 import { Building2, Landmark, CreditCard, TrendingUp, ChevronRight, Link2 } from 'lucide-react';
 import type { Entity } from '@/lib/types/entity';
 import type { Account } from '@/lib/supabase';
+import type { ReportingAmount } from '@/lib/types/fx';
+import { RateDateNote } from '@/components/reporting-currency-controls';
+import { accountBalance } from '@/lib/utils';
 
 interface EntityGroupedViewProps {
   entities: Entity[];
   accounts: Account[];
   onEntityClick?: (entityId: string) => void;
   onAccountClick?: (accountId: string) => void;
+  reportingTotals?: Record<string, ReportingAmount>; // Keyed by entity_id; 'unassigned' for accounts without one
 }
 
 export function EntityGroupedView({
@@ -24,6 +28,7 @@ export function EntityGroupedView({
   accounts,
   onEntityClick,
   onAccountClick,
+  reportingTotals,
 }: EntityGroupedViewProps) {
   const router = useRouter();
 
@@ -54,11 +59,7 @@ export function EntityGroupedView({
     return entitiesWithUnassigned.map(entity => {
       const entityAccounts = accountsByEntity[entity.entity_id] || [];
       const currencyTotals = entityAccounts.reduce((totals, acc) => {
-        const balance =
-          acc.current_balance ??
-          acc.available_balance ??
-          acc.balance ??
-          0;
+        const balance = accountBalance(acc);
         const currency = acc.currency || 'USD';
         totals[currency] = (totals[currency] || 0) + balance;
         return totals;
@@ -150,11 +151,19 @@ export function EntityGroupedView({
               <div className="text-right">
                 <p className="text-sm text-gray-600 mb-1">Total Balance</p>
                 <p className="text-3xl font-bold text-gray-900">
-                  {formatCurrency(
-                    currencyTotals[primaryCurrency!] || 0,
-                    primaryCurrency || 'USD'
-                  )}
+                  {reportingTotals?.[entity.entity_id]
+                    ? formatCurrency(
+                        reportingTotals[entity.entity_id].amount,
+                        reportingTotals[entity.entity_id].currency
+                      )
+                    : formatCurrency(
+                        currencyTotals[primaryCurrency!] || 0,
+                        primaryCurrency || 'USD'
+                      )}
                 </p>
+                {reportingTotals?.[entity.entity_id] && (
+                  <RateDateNote amount={reportingTotals[entity.entity_id]} className="mt-1" />
+                )}
                 {Object.keys(currencyTotals).length > 1 && (
                   <p className="text-sm text-gray-600 mt-1">
                     {formatCurrencySummary(currencyTotals)}
@@ -172,11 +181,7 @@ export function EntityGroupedView({
             <div className="p-6 bg-gray-50">
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
                 {entityAccounts.map((account) => {
-                  const balance =
-                    account.current_balance ??
-                    account.available_balance ??
-                    account.balance ??
-                    0;
+                  const balance = accountBalance(account);
                   const accountCurrency = account.currency || 'USD';
                   const Icon = getAccountIcon(account.account_type || '');
                   const isSynced = !!account.connection_id;
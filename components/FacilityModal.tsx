@@ -0,0 +1,361 @@
+'use client';
+
+import { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { accountKind } from '@/lib/interest/accrual';
+import type { Account } from '@/lib/supabase';
+import type { Entity } from '@/lib/types/entity';
+import type { CreateFacilityInput, FacilityStatus, FacilityType } from '@/lib/types/facility';
+
+export const FACILITY_TYPE_LABELS: Record<FacilityType, string> = {
+  term_loan: 'Term loan',
+  revolving_credit: 'Revolving credit',
+  overdraft: 'Overdraft',
+  bond: 'Bond',
+  other: 'Other',
+};
+
+const REFERENCE_RATES = ['FIXED', 'SOFR', 'EURIBOR', 'ESTR', 'SONIA', 'SARON', 'TONA', 'CORRA', 'BBSW'];
+
+interface FacilityModalProps {
+  entities: Entity[];
+  accounts: Account[];
+  initial?: Partial<CreateFacilityInput>;
+  isPending: boolean;
+  onClose: () => void;
+  onSave: (input: CreateFacilityInput) => void;
+}
+
+function percent(rate: number | null | undefined) {
+  return rate == null ? '' : String(Math.round(Number(rate) * 1_000_000) / 10_000);
+}
+
+export function FacilityModal({ entities, accounts, initial = {}, isPending, onClose, onSave }: FacilityModalProps) {
+  const [formData, setFormData] = useState({
+    name: initial.name || '',
+    lender: initial.lender || '',
+    entity_id: initial.entity_id || '',
+    facility_type: initial.facility_type || ('term_loan' as FacilityType),
+    currency: initial.currency || 'USD',
+    commitment_amount: initial.commitment_amount != null ? String(initial.commitment_amount) : '',
+    drawn_amount: initial.drawn_amount != null ? String(initial.drawn_amount) : '0',
+    signing_date: initial.signing_date || '',
+    maturity_date: initial.maturity_date || '',
+    reference_rate: initial.reference_rate || 'FIXED',
+    reference_rate_value: percent(initial.reference_rate_value),
+    margin: percent(initial.margin),
+    rate_floor: percent(initial.rate_floor),
+    commitment_fee: percent(initial.commitment_fee),
+    status: initial.status || ('active' as FacilityStatus),
+    notes: initial.notes || '',
+  });
+  const [accountIds, setAccountIds] = useState<string[]>(initial.account_ids || []);
+
+  const loanAccounts = accounts.filter(
+    (account) =>
+      account.id &&
+      accountKind(account.account_type) === 'loan' &&
+      (account.currency || 'USD').toUpperCase() === formData.currency.toUpperCase()
+  );
+
+  function toFraction(value: string) {
+    return value === '' ? null : Number(value) / 100;
+  }
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+
+    onSave({
+      name: formData.name,
+      lender: formData.lender,
+      entity_id: formData.entity_id,
+      facility_type: formData.facility_type,
+      currency: formData.currency.toUpperCase(),
+      commitment_amount: Number(formData.commitment_amount),
+      drawn_amount: Number(formData.drawn_amount) || 0,
+      signing_date: formData.signing_date || null,
+      maturity_date: formData.maturity_date,
+      reference_rate: formData.reference_rate,
+      reference_rate_value: formData.reference_rate === 'FIXED' ? null : toFraction(formData.reference_rate_value),
+      margin: toFraction(formData.margin) ?? 0,
+      rate_floor: toFraction(formData.rate_floor),
+      commitment_fee: toFraction(formData.commitment_fee),
+      status: formData.status,
+      notes: formData.notes || null,
+      account_ids: accountIds.filter((id) => loanAccounts.some((account) => account.id === id)),
+    });
+  }
+
+  const inputClass = 'w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <Card className="max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit} className="p-6">
+          <h2 className="text-2xl font-bold mb-6">{initial.name ? 'Edit Facility' : 'Add Facility'}</h2>
+
+          <div className="space-y-4">
+            {/* Name and lender */}
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Name <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  required
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className={inputClass}
+                  placeholder="e.g., 2027 RCF"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Lender <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  required
+                  value={formData.lender}
+                  onChange={(e) => setFormData({ ...formData, lender: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            {/* Borrower, type, currency */}
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Borrower <span className="text-red-500">*</span>
+                </label>
+                <select
+                  required
+                  value={formData.entity_id}
+                  onChange={(e) => setFormData({ ...formData, entity_id: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">Select an entity</option>
+                  {entities.map((entity) => (
+                    <option key={entity.entity_id} value={entity.entity_id}>
+                      {entity.entity_name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Type</label>
+                <select
+                  value={formData.facility_type}
+                  onChange={(e) => setFormData({ ...formData, facility_type: e.target.value as FacilityType })}
+                  className={inputClass}
+                >
+                  {Object.entries(FACILITY_TYPE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Currency</label>
+                <input
+                  type="text"
+                  required
+                  maxLength={3}
+                  value={formData.currency}
+                  onChange={(e) => setFormData({ ...formData, currency: e.target.value.toUpperCase() })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            {/* Amounts */}
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Commitment <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="number"
+                  required
+                  min={0}
+                  step="0.01"
+                  value={formData.commitment_amount}
+                  onChange={(e) => setFormData({ ...formData, commitment_amount: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Drawn</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={formData.drawn_amount}
+                  onChange={(e) => setFormData({ ...formData, drawn_amount: e.target.value })}
+                  disabled={accountIds.length > 0}
+                  className={inputClass}
+                />
+                <p className="text-xs text-muted-foreground mt-1">Taken from linked loan accounts when there are any</p>
+              </div>
+            </div>
+
+            {/* Dates */}
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">Signing Date</label>
+                <input
+                  type="date"
+                  value={formData.signing_date}
+                  onChange={(e) => setFormData({ ...formData, signing_date: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Maturity Date <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="date"
+                  required
+                  value={formData.maturity_date}
+                  onChange={(e) => setFormData({ ...formData, maturity_date: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            {/* Pricing */}
+            <div className="grid grid-cols-4 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">Reference Rate</label>
+                <select
+                  value={formData.reference_rate}
+                  onChange={(e) => setFormData({ ...formData, reference_rate: e.target.value })}
+                  className={inputClass}
+                >
+                  {REFERENCE_RATES.map((rate) => (
+                    <option key={rate} value={rate}>
+                      {rate === 'FIXED' ? 'Fixed' : rate}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Current Fixing (%)</label>
+                <input
+                  type="number"
+                  step="0.0001"
+                  value={formData.reference_rate_value}
+                  onChange={(e) => setFormData({ ...formData, reference_rate_value: e.target.value })}
+                  disabled={formData.reference_rate === 'FIXED'}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  {formData.reference_rate === 'FIXED' ? 'Coupon (%)' : 'Margin (%)'}
+                </label>
+                <input
+                  type="number"
+                  step="0.0001"
+                  value={formData.margin}
+                  onChange={(e) => setFormData({ ...formData, margin: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Floor (%)</label>
+                <input
+                  type="number"
+                  step="0.0001"
+                  value={formData.rate_floor}
+                  onChange={(e) => setFormData({ ...formData, rate_floor: e.target.value })}
+                  disabled={formData.reference_rate === 'FIXED'}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">Commitment Fee on Undrawn (%)</label>
+              <input
+                type="number"
+                step="0.0001"
+                value={formData.commitment_fee}
+                onChange={(e) => setFormData({ ...formData, commitment_fee: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+
+            {/* Linked accounts */}
+            <div>
+              <label className="block text-sm font-medium mb-2">Loan Accounts</label>
+              {loanAccounts.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No loan accounts in {formData.currency}.</p>
+              ) : (
+                <div className="border rounded-lg divide-y max-h-48 overflow-y-auto">
+                  {loanAccounts.map((account) => (
+                    <label key={account.id} className="flex items-center gap-3 px-4 py-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={accountIds.includes(account.id!)}
+                        onChange={() =>
+                          setAccountIds((current) =>
+                            current.includes(account.id!)
+                              ? current.filter((id) => id !== account.id)
+                              : [...current, account.id!]
+                          )
+                        }
+                      />
+                      <span className="flex-1">{account.account_name}</span>
+                      {account.entity_id && <span className="text-xs text-muted-foreground">{account.entity_id}</span>}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {initial.name && (
+              <div>
+                <label className="block text-sm font-medium mb-2">Status</label>
+                <select
+                  value={formData.status}
+                  onChange={(e) => setFormData({ ...formData, status: e.target.value as FacilityStatus })}
+                  className={inputClass}
+                >
+                  <option value="active">Active</option>
+                  <option value="repaid">Repaid</option>
+                  <option value="cancelled">Cancelled</option>
+                </select>
+              </div>
+            )}
+
+            {/* Notes */}
+            <div>
+              <label className="block text-sm font-medium mb-2">Notes</label>
+              <textarea
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                className={inputClass}
+                rows={2}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2 mt-6">
+            <Button type="button" variant="outline" onClick={onClose} disabled={isPending}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isPending}>
+              {isPending ? 'Saving…' : 'Save Facility'}
+            </Button>
+          </div>
+        </form>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,316 @@
+'use client';
+
+import { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import type { Account } from '@/lib/supabase';
+import type { Entity } from '@/lib/types/entity';
+import type { HoldingInput, HoldingStatus, InstrumentType } from '@/lib/types/investment';
+
+export const INSTRUMENT_TYPE_LABELS: Record<InstrumentType, string> = {
+  money_market_fund: 'Money market fund',
+  term_deposit: 'Term deposit',
+  treasury_bill: 'Treasury bill',
+  commercial_paper: 'Commercial paper',
+  bond: 'Bond',
+  equity: 'Equity',
+  cash: 'Cash',
+  other: 'Other',
+};
+
+interface HoldingModalProps {
+  entities: Entity[];
+  accounts: Account[];
+  initial?: Partial<HoldingInput>;
+  isPending: boolean;
+  onClose: () => void;
+  onSave: (input: HoldingInput) => void;
+}
+
+function percent(rate: number | null | undefined) {
+  return rate == null ? '' : String(Math.round(Number(rate) * 1_000_000) / 10_000);
+}
+
+function optional(value: number | null | undefined) {
+  return value == null ? '' : String(value);
+}
+
+export function HoldingModal({ entities, accounts, initial = {}, isPending, onClose, onSave }: HoldingModalProps) {
+  const [formData, setFormData] = useState({
+    instrument_name: initial.instrument_name || '',
+    instrument_type: initial.instrument_type || ('money_market_fund' as InstrumentType),
+    isin: initial.isin || '',
+    account_id: initial.account_id || '',
+    entity_id: initial.entity_id || '',
+    currency: initial.currency || 'USD',
+    units: optional(initial.units),
+    price: initial.price != null ? String(initial.price) : '1',
+    accrued_interest: optional(initial.accrued_interest),
+    interest_rate: percent(initial.interest_rate),
+    start_date: initial.start_date || '',
+    maturity_date: initial.maturity_date || '',
+    settlement_days: optional(initial.settlement_days),
+    price_date: initial.price_date || '',
+    status: initial.status || ('active' as HoldingStatus),
+    notes: initial.notes || '',
+  });
+
+  const investmentAccounts = accounts.filter((account) => account.id && account.account_type === 'investment');
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+
+    onSave({
+      instrument_name: formData.instrument_name,
+      instrument_type: formData.instrument_type,
+      isin: formData.isin.trim().toUpperCase() || null,
+      account_id: formData.account_id || null,
+      entity_id: formData.account_id ? null : formData.entity_id || null,
+      currency: formData.currency.toUpperCase(),
+      units: Number(formData.units),
+      price: Number(formData.price),
+      accrued_interest: formData.accrued_interest === '' ? 0 : Number(formData.accrued_interest),
+      interest_rate: formData.interest_rate === '' ? null : Number(formData.interest_rate) / 100,
+      start_date: formData.start_date || null,
+      maturity_date: formData.maturity_date || null,
+      settlement_days: formData.settlement_days === '' ? null : Number(formData.settlement_days),
+      price_date: formData.price_date || null,
+      status: formData.status,
+      notes: formData.notes || null,
+    });
+  }
+
+  const inputClass = 'w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <Card className="max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit} className="p-6">
+          <h2 className="text-2xl font-bold mb-6">{initial.instrument_name ? 'Edit Holding' : 'Add Holding'}</h2>
+
+          <div className="space-y-4">
+            {/* Instrument */}
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2">
+                <label className="block text-sm font-medium mb-2">
+                  Instrument <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  required
+                  value={formData.instrument_name}
+                  onChange={(e) => setFormData({ ...formData, instrument_name: e.target.value })}
+                  className={inputClass}
+                  placeholder="e.g., USD Treasury MMF, 3M deposit"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Type</label>
+                <select
+                  value={formData.instrument_type}
+                  onChange={(e) => setFormData({ ...formData, instrument_type: e.target.value as InstrumentType })}
+                  className={inputClass}
+                >
+                  {Object.entries(INSTRUMENT_TYPE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {/* Where it is held */}
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">Account</label>
+                <select
+                  value={formData.account_id}
+                  onChange={(e) => setFormData({ ...formData, account_id: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">Not on the platform</option>
+                  {investmentAccounts.map((account) => (
+                    <option key={account.id} value={account.id}>
+                      {account.account_name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Entity</label>
+                <select
+                  value={formData.entity_id}
+                  onChange={(e) => setFormData({ ...formData, entity_id: e.target.value })}
+                  className={inputClass}
+                  disabled={!!formData.account_id}
+                >
+                  <option value="">{formData.account_id ? "Account's entity" : 'None'}</option>
+                  {entities.map((entity) => (
+                    <option key={entity.entity_id} value={entity.entity_id}>
+                      {entity.entity_name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">ISIN</label>
+                <input
+                  type="text"
+                  value={formData.isin}
+                  onChange={(e) => setFormData({ ...formData, isin: e.target.value })}
+                  className={inputClass}
+                  maxLength={12}
+                />
+              </div>
+            </div>
+
+            {/* Position */}
+            <div className="grid grid-cols-4 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Currency <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  required
+                  maxLength={3}
+                  value={formData.currency}
+                  onChange={(e) => setFormData({ ...formData, currency: e.target.value.toUpperCase() })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Units <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="number"
+                  required
+                  min="0"
+                  step="any"
+                  value={formData.units}
+                  onChange={(e) => setFormData({ ...formData, units: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Price</label>
+                <input
+                  type="number"
+                  required
+                  min="0"
+                  step="any"
+                  value={formData.price}
+                  onChange={(e) => setFormData({ ...formData, price: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Accrued interest</label>
+                <input
+                  type="number"
+                  step="any"
+                  value={formData.accrued_interest}
+                  onChange={(e) => setFormData({ ...formData, accrued_interest: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            {/* Terms */}
+            <div className="grid grid-cols-4 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">Rate (%)</label>
+                <input
+                  type="number"
+                  step="any"
+                  value={formData.interest_rate}
+                  onChange={(e) => setFormData({ ...formData, interest_rate: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Start date</label>
+                <input
+                  type="date"
+                  value={formData.start_date}
+                  onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Maturity date</label>
+                <input
+                  type="date"
+                  value={formData.maturity_date}
+                  onChange={(e) => setFormData({ ...formData, maturity_date: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Settlement days</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="365"
+                  step="1"
+                  value={formData.settlement_days}
+                  onChange={(e) => setFormData({ ...formData, settlement_days: e.target.value })}
+                  className={inputClass}
+                  placeholder="Type default"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">Price date</label>
+                <input
+                  type="date"
+                  value={formData.price_date}
+                  onChange={(e) => setFormData({ ...formData, price_date: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              {initial.instrument_name && (
+                <div>
+                  <label className="block text-sm font-medium mb-2">Status</label>
+                  <select
+                    value={formData.status}
+                    onChange={(e) => setFormData({ ...formData, status: e.target.value as HoldingStatus })}
+                    className={inputClass}
+                  >
+                    <option value="active">Active</option>
+                    <option value="matured">Matured</option>
+                    <option value="closed">Closed</option>
+                  </select>
+                </div>
+              )}
+            </div>
+
+            {/* Notes */}
+            <div>
+              <label className="block text-sm font-medium mb-2">Notes</label>
+              <textarea
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                className={inputClass}
+                rows={2}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2 mt-6">
+            <Button type="button" variant="outline" onClick={onClose} disabled={isPending}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isPending}>
+              {isPending ? 'Saving…' : 'Save Holding'}
+            </Button>
+          </div>
+        </form>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, Loader2, Save } from 'lucide-react';
+import { useDailyCash, useReconstructBalances } from '@/lib/hooks/use-daily-balances';
+import type { RateType } from '@/lib/currency';
+import type { CashSeriesGrouping } from '@/lib/types/balances';
+
+const SERIES_COLORS = ['#2563eb', '#f59e0b', '#dc2626', '#7c3aed', '#059669', '#db2777', '#64748b'];
+const MAX_SERIES = SERIES_COLORS.length;
+
+const RANGES: Record<string, number> = { '30d': 30, '90d': 90, '1y': 365 };
+
+const GROUPINGS: Array<{ value: CashSeriesGrouping; label: string }> = [
+  { value: 'entity', label: 'Entity' },
+  { value: 'currency', label: 'Currency' },
+  { value: 'bank', label: 'Bank' },
+];
+
+function formatAmount(value: number, currency: string) {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 0 }).format(value);
+}
+
+function daysAgo(days: number) {
+  const d = new Date();
+  d.setUTCDate(d.getUTCDate() - days);
+  return d.toISOString().split('T')[0];
+}
+
+/**
+ * Daily consolidated cash from reconstructed balances, with the total and
+ * one line per entity, currency or bank, and the end date's liquidity buckets
+ */
+export function CashPositionTrend({
+  tenantId,
+  rateType,
+  canSave,
+}: {
+  tenantId: string;
+  rateType: RateType;
+  canSave: boolean;
+}) {
+  const [range, setRange] = useState('30d');
+  const [groupBy, setGroupBy] = useState<CashSeriesGrouping>('entity');
+
+  const startDate = useMemo(() => daysAgo(RANGES[range]), [range]);
+  const { data, isLoading, error } = useDailyCash(tenantId, { startDate, groupBy, rateType });
+  const reconstruct = useReconstructBalances();
+
+  const chartData = useMemo(() => {
+    if (!data) return [];
+    return data.total.map((point, index) => ({
+      date: point.date,
+      total: point.amount,
+      ...Object.fromEntries(data.series.slice(0, MAX_SERIES).map((series) => [series.key, series.points[index]?.amount])),
+    }));
+  }, [data]);
+
+  const calculatedShare = useMemo(() => {
+    if (!data) return 0;
+    const accountDays = data.total.reduce((sum, point) => sum + point.accounts, 0);
+    const calculated = data.total.reduce((sum, point) => sum + point.calculated_accounts, 0);
+    return accountDays > 0 ? Math.round((calculated / accountDays) * 100) : 0;
+  }, [data]);
+
+  return (
+    <div className="mb-8 bg-white rounded-xl border border-stone-200 shadow-sm">
+      <div className="p-6 border-b border-stone-100 flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div>
+          <div className="font-display font-bold text-xl text-stone-900 mb-1">Cash Position Trend</div>
+          <div className="text-sm text-stone-500">
+            Daily balances, reconstructed from transactions where no statement was reported
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={groupBy}
+            onChange={(e) => setGroupBy(e.target.value as CashSeriesGrouping)}
+            className="border rounded px-2 py-1 text-sm"
+          >
+            {GROUPINGS.map((grouping) => (
+              <option key={grouping.value} value={grouping.value}>
+                By {grouping.label.toLowerCase()}
+              </option>
+            ))}
+          </select>
+          <select value={range} onChange={(e) => setRange(e.target.value)} className="border rounded px-2 py-1 text-sm">
+            <option value="30d">Last 30 days</option>
+            <option value="90d">Last 90 days</option>
+            <option value="1y">Last year</option>
+          </select>
+          {canSave && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => reconstruct.mutate({ tenantId, startDate })}
+              disabled={reconstruct.isPending}
+            >
+              {reconstruct.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="h-4 w-4 mr-2" />
+              )}
+              Save balances
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="p-6">
+        {error ? (
+          <p className="text-sm text-red-600">{(error as Error).message}</p>
+        ) : isLoading || !data ? (
+          <div className="flex items-center justify-center h-64">
+            <Loader2 className="h-6 w-6 animate-spin text-stone-400" />
+          </div>
+        ) : data.total.length === 0 ? (
+          <p className="text-center py-8 text-sm text-stone-400">No reported balances to build a trend from</p>
+        ) : (
+          <>
+            <ResponsiveContainer width="100%" height={280}>
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" tick={{ fontSize: 12 }} />
+                <YAxis
+                  tick={{ fontSize: 12 }}
+                  tickFormatter={(value: number) => formatAmount(value, data.reporting.currency)}
+                  width={90}
+                />
+                <Tooltip formatter={(value: number) => formatAmount(value, data.reporting.currency)} />
+                <Legend />
+                <Line type="monotone" dataKey="total" name="Total" stroke="#0f766e" strokeWidth={2} dot={false} />
+                {data.series.slice(0, MAX_SERIES).map((series, index) => (
+                  <Line
+                    key={series.key}
+                    type="monotone"
+                    dataKey={series.key}
+                    name={series.label}
+                    stroke={SERIES_COLORS[index]}
+                    dot={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+
+            <div className="mt-3 space-y-1 text-xs text-stone-500">
+              <p>
+                In {data.reporting.currency} at {data.reporting.rate_type} rates
+                {data.rate_date ? ` as of ${data.rate_date}` : ''} · {calculatedShare}% of account-days reconstructed
+              </p>
+              {data.unconverted.length > 0 && (
+                <p className="text-amber-600">No rate for {data.unconverted.join(', ')}, not included</p>
+              )}
+              {data.unanchored_accounts.length > 0 && (
+                <p className="text-amber-600">
+                  {data.unanchored_accounts.length} account(s) have no reported balance and are not included
+                </p>
+              )}
+            </div>
+
+            <div className="mt-4 grid grid-cols-2 gap-3 md:grid-cols-4">
+              {data.liquidity.buckets.map((bucket) => (
+                <div key={bucket.bucket} className="rounded-lg border border-stone-100 bg-stone-50 p-3">
+                  <div className="text-xs text-stone-500">{bucket.label}</div>
+                  <div className="font-semibold text-stone-900">
+                    {formatAmount(bucket.amount, data.liquidity.currency)}
+                  </div>
+                </div>
+              ))}
+            </div>
+            <p className="mt-1 text-xs text-stone-500">
+              Liquidity on {data.liquidity.as_of}: account balances and investment holdings by how soon they turn into
+              cash
+            </p>
+
+            {data.discrepancies.length > 0 && (
+              <div className="mt-4 rounded-lg border border-amber-200 bg-amber-50 p-3">
+                <div className="flex items-center gap-2 text-sm font-medium text-amber-900 mb-2">
+                  <AlertTriangle className="h-4 w-4 text-amber-600" />
+                  {data.discrepancies.length} reported balance(s) disagree with transactions
+                </div>
+                <ul className="space-y-1 text-xs text-amber-900">
+                  {data.discrepancies.slice(0, 5).map((discrepancy) => (
+                    <li key={`${discrepancy.account_id}:${discrepancy.date}`}>
+                      {discrepancy.date} · {discrepancy.account_name}: reported{' '}
+                      {discrepancy.reported_balance.toFixed(2)}, transactions since {discrepancy.previous_anchor_date}{' '}
+                      give {discrepancy.reconstructed_balance.toFixed(2)} ({discrepancy.difference > 0 ? '+' : ''}
+                      {discrepancy.difference.toFixed(2)})
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+'use client';
+
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle2, X } from 'lucide-react';
+import type { AccountDiffEntry, FieldChange, SyncDiff, TransactionDiffEntry } from '@/lib/types/sync-diff';
+
+interface SyncPreviewCardProps {
+  diff: SyncDiff;
+  isApplying: boolean;
+  onApply: () => void;
+  onDismiss: () => void;
+}
+
+function formatValue(value: string | number | null) {
+  if (value === null || value === '') return '—';
+  return typeof value === 'number' ? value.toLocaleString(undefined, { maximumFractionDigits: 2 }) : value;
+}
+
+function ChangeList({ changes }: { changes: FieldChange[] }) {
+  return (
+    <div className="space-y-0.5">
+      {changes.map((change) => (
+        <p key={change.field} className="text-xs">
+          <span className="text-muted-foreground">{change.field}:</span>{' '}
+          <span className="line-through text-red-600">{formatValue(change.before)}</span>{' '}
+          <span className="text-green-700">{formatValue(change.after)}</span>
+        </p>
+      ))}
+    </div>
+  );
+}
+
+function AccountSection({ title, accounts }: { title: string; accounts: AccountDiffEntry[] }) {
+  if (accounts.length === 0) return null;
+
+  return (
+    <div>
+      <h3 className="font-semibold mb-2">{title}</h3>
+      <div className="space-y-2">
+        {accounts.map((account) => (
+          <div key={account.externalAccountId} className="flex justify-between gap-4 p-3 border rounded-lg">
+            <div>
+              <p className="font-medium">{account.accountName}</p>
+              <p className="text-xs text-muted-foreground">
+                {account.externalAccountId} · {account.currency}
+              </p>
+            </div>
+            {account.changes.length > 0 && <ChangeList changes={account.changes} />}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function TransactionSection({
+  title,
+  description,
+  transactions,
+}: {
+  title: string;
+  description?: string;
+  transactions: TransactionDiffEntry[];
+}) {
+  if (transactions.length === 0) return null;
+
+  return (
+    <div>
+      <h3 className="font-semibold">{title}</h3>
+      {description && <p className="text-xs text-muted-foreground mb-2">{description}</p>}
+      <div className="overflow-x-auto max-h-80 overflow-y-auto border rounded-lg">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr>
+              <th className="text-left p-2 font-medium">Date</th>
+              <th className="text-left p-2 font-medium">Description</th>
+              <th className="text-right p-2 font-medium">Amount</th>
+              <th className="text-left p-2 font-medium">Changes</th>
+            </tr>
+          </thead>
+          <tbody>
+            {transactions.map((transaction) => (
+              <tr key={transaction.transactionId} className="border-t">
+                <td className="p-2 whitespace-nowrap">{transaction.date}</td>
+                <td className="p-2">{transaction.description || transaction.transactionId}</td>
+                <td className="p-2 text-right whitespace-nowrap">
+                  {formatValue(transaction.amount)} {transaction.currency}
+                </td>
+                <td className="p-2">{transaction.changes.length > 0 && <ChangeList changes={transaction.changes} />}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export function SyncPreviewCard({ diff, isApplying, onApply, onDismiss }: SyncPreviewCardProps) {
+  const { summary } = diff;
+  const hasChanges =
+    summary.accounts_new + summary.accounts_updated + summary.transactions_new + summary.transactions_changed > 0;
+
+  const counts = [
+    { label: 'New accounts', value: summary.accounts_new },
+    { label: 'Updated accounts', value: summary.accounts_updated },
+    { label: 'Unchanged accounts', value: summary.accounts_unchanged },
+    { label: 'New transactions', value: summary.transactions_new },
+    { label: 'Changed transactions', value: summary.transactions_changed },
+    { label: 'Unchanged transactions', value: summary.transactions_unchanged },
+    { label: 'Missing transactions', value: summary.transactions_missing },
+  ];
+
+  return (
+    <Card className="p-6 mb-6 border-blue-200">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-semibold">Sync Preview</h2>
+          <p className="text-sm text-muted-foreground">
+            What a sync would change. Nothing has been saved yet.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={onApply} disabled={isApplying}>
+            <CheckCircle2 className="h-4 w-4 mr-2" />
+            {isApplying ? 'Applying...' : 'Apply'}
+          </Button>
+          <Button variant="outline" onClick={onDismiss} disabled={isApplying}>
+            <X className="h-4 w-4 mr-2" />
+            Discard
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-3 grid-cols-2 md:grid-cols-4 lg:grid-cols-7 mb-6">
+        {counts.map((count) => (
+          <div key={count.label} className="p-3 bg-gray-50 rounded-lg">
+            <p className="text-xs text-muted-foreground">{count.label}</p>
+            <p className="text-2xl font-bold">{count.value.toLocaleString()}</p>
+          </div>
+        ))}
+      </div>
+
+      {!hasChanges && summary.transactions_missing === 0 && (
+        <Badge className="bg-green-100 text-green-800 mb-4">Everything is up to date</Badge>
+      )}
+      {diff.truncated && (
+        <p className="text-xs text-muted-foreground mb-4">
+          Long lists are cut short; the counts above include everything.
+        </p>
+      )}
+
+      <div className="space-y-6">
+        <AccountSection title="New accounts" accounts={diff.accounts.new} />
+        <AccountSection title="Updated accounts" accounts={diff.accounts.updated} />
+        <TransactionSection title="New transactions" transactions={diff.transactions.new} />
+        <TransactionSection title="Changed transactions" transactions={diff.transactions.changed} />
+        <TransactionSection
+          title="Missing transactions"
+          description="Saved for this connection in the fetched date range, but no longer returned by the provider. Applying the sync does not delete them."
+          transactions={diff.transactions.missing}
+        />
+      </div>
+    </Card>
+  );
+}
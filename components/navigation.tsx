@@ -17,7 +17,13 @@ import {
   Database,
   Menu,
   X,
-  Shield
+  Shield,
+  Send,
+  Layers,
+  Receipt,
+  Percent,
+  Landmark,
+  Coins
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { useTenant } from '@/lib/tenant-context'
@@ -27,6 +33,12 @@ const navigation = [
   { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
   { name: 'Accounts', href: '/accounts', icon: Wallet },
   { name: 'Entities', href: '/entities', icon: Building2 },
+  { name: 'Cash Pools', href: '/cash-pools', icon: Layers },
+  { name: 'Bank Fees', href: '/bank-fees', icon: Receipt },
+  { name: 'Interest', href: '/interest', icon: Percent },
+  { name: 'Facilities', href: '/facilities', icon: Landmark },
+  { name: 'Investments', href: '/investments', icon: Coins },
+  { name: 'Payments', href: '/payments', icon: Send },
   { name: 'Exchange Rates', href: '/rates', icon: DollarSign },
   { name: 'Connections', href: '/connections', icon: Database },
 ]
@@ -0,0 +1,51 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { REPORTING_RATE_TYPES } from '@/lib/fx/reporting';
+import type { RateType } from '@/lib/currency';
+import type { ReportingAmount } from '@/lib/types/fx';
+
+const RATE_TYPE_LABELS: Record<RateType, string> = {
+  SPOT: 'Spot',
+  EOM: 'Month end',
+  AVG: 'Monthly avg',
+};
+
+/**
+ * SPOT / EOM / AVG selector for converted totals
+ */
+export function RateTypeToggle({ value, onChange }: { value: RateType; onChange: (value: RateType) => void }) {
+  return (
+    <div className="inline-flex rounded-md border border-stone-200 bg-white p-0.5">
+      {REPORTING_RATE_TYPES.map((rateType) => (
+        <Button
+          key={rateType}
+          size="sm"
+          variant={value === rateType ? 'default' : 'ghost'}
+          className="h-7 px-2 text-xs"
+          onClick={() => onChange(rateType)}
+        >
+          {RATE_TYPE_LABELS[rateType]}
+        </Button>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * The rate date behind a converted total, and any currencies left out of it
+ */
+export function RateDateNote({ amount, className = '' }: { amount: ReportingAmount; className?: string }) {
+  if (!amount.rate_date && amount.unconverted.length === 0) return null;
+
+  return (
+    <p className={`text-xs text-stone-400 ${className}`}>
+      {amount.rate_date && `${RATE_TYPE_LABELS[amount.rate_type]} rates as of ${amount.rate_date}`}
+      {amount.unconverted.length > 0 && (
+        <span className="text-amber-600">
+          {amount.rate_date && ' · '}No rate for {amount.unconverted.join(', ')}, not included
+        </span>
+      )}
+    </p>
+  );
+}
@@ -0,0 +1,195 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Line,
+  LineChart,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle, Loader2, Sparkles } from 'lucide-react';
+import { useAskTreasuryQuestion } from '@/lib/hooks/use-treasury-query';
+import type { ChartSpec, TreasuryAnswer } from '@/lib/types/treasury-query';
+
+const PIE_COLORS = ['#0f766e', '#2563eb', '#f59e0b', '#dc2626', '#7c3aed', '#059669', '#db2777', '#64748b'];
+
+function formatValue(value: number, currency?: string | null) {
+  return new Intl.NumberFormat('en-US', {
+    style: currency ? 'currency' : 'decimal',
+    currency: currency || undefined,
+    maximumFractionDigits: currency ? 0 : 4,
+  }).format(value);
+}
+
+function AnswerChart({ chart }: { chart: ChartSpec }) {
+  if (chart.data.length === 0) return null;
+
+  if (chart.type === 'number') {
+    const value = Number(chart.data[0]?.value ?? 0);
+    return <div className="text-4xl font-bold tracking-tight">{formatValue(value, chart.currency)}</div>;
+  }
+
+  if (chart.type === 'table') {
+    return (
+      <table className="w-full text-sm">
+        <tbody>
+          {chart.data.map((row) => (
+            <tr key={String(row[chart.xKey])} className="border-b last:border-0">
+              <td className="py-2">{row[chart.xKey]}</td>
+              <td className="py-2 text-right font-mono">
+                {formatValue(Number(row.value), (row.currency as string) || chart.currency)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    );
+  }
+
+  return (
+    <ResponsiveContainer width="100%" height={280}>
+      {chart.type === 'pie' ? (
+        <PieChart>
+          <Pie data={chart.data} dataKey="value" nameKey={chart.xKey} outerRadius={100} label>
+            {chart.data.map((_, index) => (
+              <Cell key={index} fill={PIE_COLORS[index % PIE_COLORS.length]} />
+            ))}
+          </Pie>
+          <Tooltip formatter={(value: number) => formatValue(value, chart.currency)} />
+        </PieChart>
+      ) : chart.type === 'line' ? (
+        <LineChart data={chart.data}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey={chart.xKey} />
+          <YAxis />
+          <Tooltip formatter={(value: number) => formatValue(value, chart.currency)} />
+          {chart.series.map((series) => (
+            <Line key={series.key} type="monotone" dataKey={series.key} name={series.label} stroke="#0f766e" dot={false} />
+          ))}
+        </LineChart>
+      ) : (
+        <BarChart data={chart.data}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey={chart.xKey} />
+          <YAxis />
+          <Tooltip formatter={(value: number) => formatValue(value, chart.currency)} />
+          {chart.series.map((series) => (
+            <Bar key={series.key} dataKey={series.key} name={series.label} fill="#0f766e" />
+          ))}
+        </BarChart>
+      )}
+    </ResponsiveContainer>
+  );
+}
+
+function UnderlyingRows({ answer }: { answer: TreasuryAnswer }) {
+  if (answer.records.length === 0) return null;
+
+  return (
+    <details className="text-sm">
+      <summary className="cursor-pointer text-muted-foreground">
+        Underlying rows ({answer.record_count}
+        {answer.truncated ? `, first ${answer.records.length} shown` : ''})
+      </summary>
+      <div className="mt-2 max-h-72 overflow-auto border rounded">
+        <table className="w-full">
+          <thead className="bg-muted/50 text-left">
+            <tr>
+              <th className="p-2">Date</th>
+              <th className="p-2">Account</th>
+              <th className="p-2">Entity</th>
+              <th className="p-2">Detail</th>
+              <th className="p-2 text-right">Value</th>
+            </tr>
+          </thead>
+          <tbody>
+            {answer.records.map((record, index) => (
+              <tr key={index} className="border-t">
+                <td className="p-2 whitespace-nowrap">{record.date || '-'}</td>
+                <td className="p-2">{record.account_name || record.account_id || '-'}</td>
+                <td className="p-2">{record.entity_name || '-'}</td>
+                <td className="p-2">{record.description || record.category || record.bank_name || '-'}</td>
+                <td className="p-2 text-right font-mono">{formatValue(record.value, record.currency)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </details>
+  );
+}
+
+export function TreasuryQuestionPanel({ tenantId }: { tenantId: string }) {
+  const [question, setQuestion] = useState('');
+  const ask = useAskTreasuryQuestion();
+  const answer = ask.data;
+
+  const submit = () => {
+    if (question.trim().length < 3) return;
+    ask.mutate({ tenantId, question: question.trim() });
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Sparkles className="h-5 w-5 text-teal-700" />
+          Ask about your treasury
+        </CardTitle>
+        <CardDescription>
+          e.g. &quot;What was our EUR cash position across German entities at month end?&quot;
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            submit();
+          }}
+        >
+          <input
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            maxLength={500}
+            placeholder="Ask a question about balances, transactions or FX rates"
+            className="flex-1 border rounded px-3 py-2 text-sm"
+          />
+          <Button type="submit" disabled={ask.isPending || question.trim().length < 3}>
+            {ask.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Ask'}
+          </Button>
+        </form>
+
+        {answer && (
+          <div className="space-y-4">
+            <p className="font-medium">{answer.answer}</p>
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline">{answer.plan.dataset}</Badge>
+              {answer.plan.groupBy !== 'none' && <Badge variant="outline">by {answer.plan.groupBy}</Badge>}
+              {answer.plan.reportingCurrency && <Badge variant="outline">in {answer.plan.reportingCurrency}</Badge>}
+            </div>
+            {answer.warnings.map((warning) => (
+              <div key={warning} className="flex items-start gap-2 text-sm text-amber-700">
+                <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                {warning}
+              </div>
+            ))}
+            <AnswerChart chart={answer.chart} />
+            <UnderlyingRows answer={answer} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
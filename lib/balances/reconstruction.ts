@@ -0,0 +1,221 @@
+// Daily balance reconstruction
+// Rolls transactions backward and forward from the nearest reported balance
+// to fill every day, and flags reported balances the transactions don't explain
+
+import { sumInReportingCurrency } from '../fx/reporting';
+import { daysBetween, round } from '../utils';
+import type { RateType } from '../currency';
+import type { ReportingRateLookup } from '../types/fx';
+import type {
+  AccountBalanceSeries,
+  BalanceAnchor,
+  BalanceConfidence,
+  BalanceDiscrepancy,
+  CashSeries,
+  CashSeriesGrouping,
+  CashSeriesPoint,
+  DailyBalance,
+} from '../types/balances';
+
+// Half a minor unit - anything larger is a real break, not rounding
+export const DISCREPANCY_TOLERANCE = 0.005;
+
+// Reconstructed days further than this from their anchor are low confidence
+export const MEDIUM_CONFIDENCE_DAYS = 7;
+
+const CONFIDENCE_RANK: Record<BalanceConfidence, number> = { low: 0, medium: 1, high: 2 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toTime(date: string): number {
+  return Date.parse(`${date}T00:00:00Z`);
+}
+
+export function eachDay(startDate: string, endDate: string): string[] {
+  const days: string[] = [];
+  for (let time = toTime(startDate); time <= toTime(endDate); time += DAY_MS) {
+    days.push(new Date(time).toISOString().split('T')[0]);
+  }
+  return days;
+}
+
+export function lowestConfidence(levels: BalanceConfidence[]): BalanceConfidence {
+  return levels.reduce<BalanceConfidence>(
+    (lowest, level) => (CONFIDENCE_RANK[level] < CONFIDENCE_RANK[lowest] ? level : lowest),
+    'high'
+  );
+}
+
+/**
+ * End-of-day balances for every day in the range. Each day is rolled from
+ * the nearest anchor: forward by the transactions after it, or backward by
+ * the transactions up to it. Flows are signed and dated YYYY-MM-DD.
+ */
+export function reconstructDailyBalances(params: {
+  startDate: string;
+  endDate: string;
+  anchors: BalanceAnchor[];
+  flows: Array<{ date: string; amount: number }>;
+}): DailyBalance[] {
+  const anchors = [...params.anchors].sort((a, b) => a.date.localeCompare(b.date));
+  if (anchors.length === 0) return [];
+
+  // Net flow over (from, to], from a running total per flow date
+  const flows = [...params.flows].sort((a, b) => a.date.localeCompare(b.date));
+  const cumulative: Array<{ date: string; total: number }> = [];
+  let running = 0;
+  for (const flow of flows) {
+    running += flow.amount;
+    const last = cumulative[cumulative.length - 1];
+    if (last && last.date === flow.date) last.total = running;
+    else cumulative.push({ date: flow.date, total: running });
+  }
+  const totalThrough = (date: string) => {
+    let total = 0;
+    for (const point of cumulative) {
+      if (point.date > date) break;
+      total = point.total;
+    }
+    return total;
+  };
+  const netFlow = (from: string, to: string) => totalThrough(to) - totalThrough(from);
+
+  // Each anchor checked against the previous one rolled forward
+  const checks = anchors.map((anchor, index) => {
+    if (index === 0) return { reconstructed: null, discrepancy: null };
+    const previous = anchors[index - 1];
+    const reconstructed = round(previous.balance + netFlow(previous.date, anchor.date));
+    const difference = round(anchor.balance - reconstructed);
+    return {
+      reconstructed,
+      discrepancy: Math.abs(difference) > DISCREPANCY_TOLERANCE ? difference : null,
+    };
+  });
+
+  let next = 0;
+  return eachDay(params.startDate, params.endDate).map((date) => {
+    while (next < anchors.length && anchors[next].date < date) next++;
+
+    if (next < anchors.length && anchors[next].date === date) {
+      return {
+        date,
+        balance: anchors[next].balance,
+        source: anchors[next].source,
+        confidence: 'high' as const,
+        anchor_date: next > 0 ? anchors[next - 1].date : null,
+        reported_balance: anchors[next].balance,
+        reconstructed_balance: checks[next].reconstructed,
+        discrepancy: checks[next].discrepancy,
+      };
+    }
+
+    const before = next > 0 ? anchors[next - 1] : null;
+    const after = next < anchors.length ? anchors[next] : null;
+    // Ties roll forward: posted transactions are more complete than future ones
+    const useBefore = !!before && (!after || daysBetween(before.date, date) <= daysBetween(date, after.date));
+    const anchor = (useBefore ? before : after)!;
+    const balance = useBefore
+      ? anchor.balance + netFlow(anchor.date, date)
+      : anchor.balance - netFlow(date, anchor.date);
+
+    // Between two anchors that disagree, the transactions are known to be incomplete
+    const brokenSegment = !!before && !!after && checks[next].discrepancy !== null;
+    const distance = Math.abs(daysBetween(anchor.date, date));
+
+    return {
+      date,
+      balance: round(balance),
+      source: 'calculated' as const,
+      confidence: brokenSegment || distance > MEDIUM_CONFIDENCE_DAYS ? ('low' as const) : ('medium' as const),
+      anchor_date: anchor.date,
+      reported_balance: null,
+      reconstructed_balance: null,
+      discrepancy: null,
+    };
+  });
+}
+
+export function collectDiscrepancies(series: AccountBalanceSeries[]): BalanceDiscrepancy[] {
+  return series
+    .flatMap((account) =>
+      account.days
+        .filter((day) => day.discrepancy !== null)
+        .map((day) => ({
+          account_id: account.account_id,
+          account_name: account.account_name,
+          date: day.date,
+          reported_balance: day.reported_balance!,
+          reconstructed_balance: day.reconstructed_balance!,
+          difference: day.discrepancy!,
+          previous_anchor_date: day.anchor_date!,
+        }))
+    )
+    .sort((a, b) => a.date.localeCompare(b.date) || a.account_name.localeCompare(b.account_name));
+}
+
+export function cashSeriesKey(account: AccountBalanceSeries, groupBy: CashSeriesGrouping): string {
+  if (groupBy === 'currency') return account.currency;
+  if (groupBy === 'bank') return account.bank_name || 'unknown';
+  return account.entity_id || 'unassigned';
+}
+
+/**
+ * Sum account balances per group and day into the reporting currency, plus
+ * an all-accounts total
+ */
+export function consolidateCashSeries(params: {
+  accounts: AccountBalanceSeries[];
+  groupBy: CashSeriesGrouping;
+  labels?: Record<string, string>;
+  currency: string;
+  rateType: RateType;
+  rates: ReportingRateLookup;
+}): { series: CashSeries[]; total: CashSeriesPoint[]; rate_date: string | null; unconverted: string[] } {
+  const { accounts, currency, rateType, rates } = params;
+  const dates = Array.from(new Set(accounts.flatMap((account) => account.days.map((day) => day.date)))).sort();
+  const byDate = accounts.map((account) => new Map(account.days.map((day) => [day.date, day])));
+
+  let rateDate: string | null = null;
+  const unconverted = new Set<string>();
+
+  const pointsFor = (members: number[]): CashSeriesPoint[] =>
+    dates.map((date) => {
+      const days = members
+        .map((index) => ({ account: accounts[index], day: byDate[index].get(date) }))
+        .filter((entry): entry is { account: AccountBalanceSeries; day: DailyBalance } => !!entry.day);
+
+      const sum = sumInReportingCurrency(
+        days.map(({ account, day }) => ({ amount: day.balance, currency: account.currency })),
+        currency,
+        rateType,
+        rates
+      );
+      if (sum.rate_date && (!rateDate || sum.rate_date < rateDate)) rateDate = sum.rate_date;
+      sum.unconverted.forEach((code) => unconverted.add(code));
+
+      return {
+        date,
+        amount: sum.amount,
+        confidence: lowestConfidence(days.map(({ day }) => day.confidence)),
+        accounts: days.length,
+        calculated_accounts: days.filter(({ day }) => day.source === 'calculated').length,
+      };
+    });
+
+  const groups = new Map<string, number[]>();
+  accounts.forEach((account, index) => {
+    const key = cashSeriesKey(account, params.groupBy);
+    groups.set(key, [...(groups.get(key) || []), index]);
+  });
+
+  const series = Array.from(groups.entries())
+    .map(([key, members]) => ({ key, label: params.labels?.[key] || key, points: pointsFor(members) }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+
+  return {
+    series,
+    total: pointsFor(accounts.map((_, index) => index)),
+    rate_date: rateDate,
+    unconverted: Array.from(unconverted).sort(),
+  };
+}
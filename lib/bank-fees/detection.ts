@@ -0,0 +1,238 @@
+// Bank fee detection
+// Finds fee debits among transactions by description pattern (the bank's own
+// wording first) or by category, folds in account analysis statements, and
+// breaks the costs down per month with month-on-month increases flagged
+
+import { compileTextPattern, textPatternError } from '../text-patterns';
+import { getSignedAmount, round } from '../utils';
+import type { TextPattern } from '../text-patterns';
+import type {
+  BankFeeDimension,
+  BankFeeIncrease,
+  BankFeePattern,
+  BankFeeRow,
+  BankFeeType,
+  CreateBankFeePatternInput,
+  DetectedFee,
+  FeeCandidateTransaction,
+  FeeMatch,
+  FinancialInstitution,
+  ImportStatementLineInput,
+} from '../types/bank-fees';
+
+export const BANK_FEE_TYPES: BankFeeType[] = [
+  'maintenance',
+  'wire',
+  'ach',
+  'card',
+  'check',
+  'fx',
+  'overdraft',
+  'analysis',
+  'other',
+];
+
+// Plaid's BANK_FEES, Tink's bank-fees and our own expense_bank_fees
+const FEE_CATEGORY_PATTERN = /bank[\s_:.-]?(fees?|charges?)/i;
+
+export interface CompiledFeePattern {
+  pattern: BankFeePattern;
+  matches: TextPattern;
+}
+
+export function validateFeePattern(input: CreateBankFeePatternInput): string[] {
+  const problems: string[] = [];
+
+  if (!BANK_FEE_TYPES.includes(input.fee_type)) problems.push(`Fee type must be one of ${BANK_FEE_TYPES.join(', ')}`);
+  if (!input.pattern || !input.pattern.trim()) {
+    problems.push('Pattern is required');
+  } else {
+    const patternError = textPatternError('Pattern', input.pattern);
+    if (patternError) problems.push(patternError);
+  }
+
+  return problems;
+}
+
+/**
+ * Check account analysis statement lines before import. Returns problems
+ * prefixed with the 1-based line number.
+ */
+export function validateStatementLines(lines: ImportStatementLineInput[]): string[] {
+  const problems: string[] = [];
+  if (lines.length === 0) problems.push('No statement lines to import');
+
+  lines.forEach((line, index) => {
+    const at = `Line ${index + 1}`;
+    if (!/^\d{4}-\d{2}(-\d{2})?$/.test(line.period_month || '')) problems.push(`${at}: period must be YYYY-MM`);
+    if (!line.service_code || !String(line.service_code).trim()) problems.push(`${at}: service code is required`);
+    if (!Number.isFinite(Number(line.fee_amount))) problems.push(`${at}: fee amount must be a number`);
+    if (line.fee_type && !BANK_FEE_TYPES.includes(line.fee_type)) problems.push(`${at}: unknown fee type ${line.fee_type}`);
+    if (line.currency && !/^[A-Z]{3}$/i.test(line.currency)) problems.push(`${at}: currency must be a 3-letter code`);
+  });
+
+  return problems;
+}
+
+/**
+ * An account's financial_institutions id: the explicit link, else the
+ * institution whose name or short name the account's bank name contains
+ */
+export function resolveInstitution(
+  account: { financial_institution_id?: string | null; bank_name?: string | null; institution_name?: string | null },
+  institutions: FinancialInstitution[]
+): string | null {
+  if (account.financial_institution_id) return account.financial_institution_id;
+
+  const name = (account.bank_name || account.institution_name || '').toLowerCase();
+  if (!name) return null;
+
+  // Longest names first so "Citibank" isn't claimed by a shorter partial match
+  const candidates = institutions
+    .flatMap((institution) =>
+      [institution.institution_name, institution.short_name]
+        .filter((label): label is string => !!label && label.length >= 3)
+        .map((label) => ({ id: institution.institution_id, label: label.toLowerCase() }))
+    )
+    .sort((a, b) => b.label.length - a.label.length);
+
+  return candidates.find((candidate) => name.includes(candidate.label))?.id ?? null;
+}
+
+/**
+ * Institution patterns before generic ones, and the tenant's own before
+ * curated ones within each
+ */
+export function compileFeePatterns(patterns: BankFeePattern[]): CompiledFeePattern[] {
+  const rank = (pattern: BankFeePattern) => (pattern.institution_id ? 0 : 2) + (pattern.tenant_id ? 0 : 1);
+
+  return patterns
+    .filter((pattern) => pattern.is_active)
+    .sort((a, b) => rank(a) - rank(b))
+    .map((pattern) => ({ pattern, matches: compileTextPattern(pattern.pattern) }));
+}
+
+export function detectFee(
+  tx: FeeCandidateTransaction,
+  institutionId: string | null,
+  patterns: CompiledFeePattern[]
+): { fee_type: BankFeeType; matched_by: FeeMatch } | null {
+  // Refunded fees are credits and stay out; only charges count
+  if (getSignedAmount(tx.amount, tx.type) >= 0) return null;
+
+  const description = tx.description || '';
+  const match = patterns.find(
+    ({ pattern, matches }) =>
+      (!pattern.institution_id || pattern.institution_id === institutionId) && matches(description)
+  );
+  if (match) {
+    return {
+      fee_type: match.pattern.fee_type,
+      matched_by: match.pattern.institution_id ? 'institution_pattern' : 'pattern',
+    };
+  }
+
+  if (FEE_CATEGORY_PATTERN.test(tx.category || '') || FEE_CATEGORY_PATTERN.test(tx.provider_category || '')) {
+    return { fee_type: 'other', matched_by: 'category' };
+  }
+
+  return null;
+}
+
+/**
+ * An analysis statement itemises the lump-sum analysis debit, so for any
+ * account and month with statement lines the debit is replaced by the lines
+ */
+export function mergeStatementFees(transactionFees: DetectedFee[], statementFees: DetectedFee[]): DetectedFee[] {
+  const itemised = new Set(statementFees.map((fee) => `${fee.account_id}:${fee.month}`));
+
+  return [
+    ...transactionFees.filter(
+      (fee) => fee.fee_type !== 'analysis' || !itemised.has(`${fee.account_id}:${fee.month}`)
+    ),
+    ...statementFees,
+  ];
+}
+
+// =====================================================
+// Breakdown
+// =====================================================
+
+function dimensionKey(fee: DetectedFee, dimension: BankFeeDimension): { key: string; label: string } {
+  switch (dimension) {
+    case 'bank':
+      return { key: fee.institution_id || `name:${fee.bank_name}`, label: fee.bank_name };
+    case 'entity':
+      return { key: fee.entity_id || 'unassigned', label: fee.entity_id || 'Unassigned' };
+    case 'fee_type':
+      return { key: fee.fee_type, label: fee.fee_type };
+  }
+}
+
+/**
+ * Monthly totals per bank, entity or fee type in the report currency. Fees
+ * without a rate (reporting_amount null) are left out.
+ */
+export function buildFeeRows(fees: DetectedFee[], dimension: BankFeeDimension, months: string[]): BankFeeRow[] {
+  const rows = new Map<string, BankFeeRow>();
+
+  for (const fee of fees) {
+    if (fee.reporting_amount == null || !months.includes(fee.month)) continue;
+
+    const { key, label } = dimensionKey(fee, dimension);
+    const row = rows.get(key) || {
+      key,
+      label,
+      months: Object.fromEntries(months.map((month) => [month, 0])),
+      total: 0,
+    };
+    row.months[fee.month] += fee.reporting_amount;
+    row.total += fee.reporting_amount;
+    rows.set(key, row);
+  }
+
+  return Array.from(rows.values())
+    .map((row) => ({
+      ...row,
+      months: Object.fromEntries(Object.entries(row.months).map(([month, amount]) => [month, round(amount)])),
+      total: round(row.total),
+    }))
+    .sort((a, b) => b.total - a.total);
+}
+
+/**
+ * Month-on-month increases of at least thresholdPct. A cost appearing from
+ * nothing has no percentage and is flagged only when it reaches minAmount.
+ */
+export function findFeeIncreases(
+  rows: BankFeeRow[],
+  dimension: BankFeeDimension,
+  months: string[],
+  thresholdPct: number,
+  minAmount = 0
+): BankFeeIncrease[] {
+  const increases: BankFeeIncrease[] = [];
+
+  for (const row of rows) {
+    for (let i = 1; i < months.length; i++) {
+      const previous = row.months[months[i - 1]] || 0;
+      const amount = row.months[months[i]] || 0;
+      if (amount <= previous || amount - previous < minAmount) continue;
+
+      const changePct = previous > 0 ? ((amount - previous) / previous) * 100 : null;
+      if (changePct === null ? minAmount <= 0 : changePct < thresholdPct) continue;
+
+      increases.push({
+        dimension,
+        key: row.key,
+        label: row.label,
+        month: months[i],
+        previous_amount: previous,
+        amount,
+        change_pct: changePct === null ? null : Math.round(changePct * 10) / 10,
+      });
+    }
+  }
+
+  return increases;
+}
@@ -13,6 +13,7 @@ import type {
 } from './raw-types';
 import { plaidClient, PLAID_PRODUCTS, PLAID_COUNTRY_CODES } from '../plaid';
 import { CountryCode, Products } from 'plaid';
+import type { Holding, Security } from 'plaid';
 
 export class PlaidProvider extends BankingProvider {
   config: BankingProviderConfig = {
@@ -56,6 +57,8 @@ export class PlaidProvider extends BankingProvider {
         products: PLAID_PRODUCTS as Products[],
         country_codes: PLAID_COUNTRY_CODES as CountryCode[],
         language: 'en',
+        // Items created through this token push updates to /api/banking/plaid/webhook
+        ...(process.env.PLAID_WEBHOOK_URL && { webhook: process.env.PLAID_WEBHOOK_URL }),
       });
       
       console.log('Plaid Link token created successfully');
@@ -484,6 +487,30 @@ export class PlaidProvider extends BankingProvider {
   // =====================================================
 
 
+  // =====================================================
+  // Investment Methods
+  // =====================================================
+
+  /**
+   * Holdings and their securities across the Item's investment accounts.
+   * Needs the investments product on the Item.
+   */
+  async fetchInvestmentHoldings(
+    credentials: ConnectionCredentials
+  ): Promise<{ holdings: Holding[]; securities: Security[] }> {
+    try {
+      const response = await plaidClient.investmentsHoldingsGet({
+        access_token: credentials.tokens.accessToken,
+      });
+
+      console.log(`📈 Plaid returned ${response.data.holdings.length} holdings`);
+      return { holdings: response.data.holdings, securities: response.data.securities };
+    } catch (error) {
+      console.error('Error fetching Plaid investment holdings:', this.getErrorMessage(error));
+      throw error;
+    }
+  }
+
   // =====================================================
   // User Information Methods
   // =====================================================
@@ -0,0 +1,189 @@
+// Cash pool simulation
+// Replays daily balances through a pool's sweep rule to show the sweeps that
+// would have happened, how pool interest splits between participants, and the
+// intercompany loans left between entities
+
+import { round } from '../utils';
+import type {
+  CashPoolDay,
+  CashPoolLoan,
+  CashPoolParticipantResult,
+  CashPoolType,
+  CreateCashPoolInput,
+  PoolAccountBalances,
+  SweepRule,
+} from '../types/cash-pool';
+
+const POOL_TYPES: CashPoolType[] = ['physical', 'notional'];
+const SWEEP_RULES: SweepRule[] = ['zero_balancing', 'target_balancing'];
+
+export function validateCashPool(input: CreateCashPoolInput): string[] {
+  const problems: string[] = [];
+
+  if (!input.name?.trim()) problems.push('Name is required');
+  if (!POOL_TYPES.includes(input.pool_type)) problems.push('Pool type must be physical or notional');
+  if (input.sweep_rule && !SWEEP_RULES.includes(input.sweep_rule)) {
+    problems.push('Sweep rule must be zero_balancing or target_balancing');
+  }
+  if (!input.header_account_id) problems.push('A header account is required');
+
+  const participants = input.participants || [];
+  if (participants.length === 0) problems.push('At least one participant account is required');
+  if (participants.some((participant) => participant.account_id === input.header_account_id)) {
+    problems.push('The header account cannot also be a participant');
+  }
+  if (new Set(participants.map((participant) => participant.account_id)).size !== participants.length) {
+    problems.push('Each account can be a participant once');
+  }
+  if (participants.some((participant) => !Number.isFinite(Number(participant.target_balance ?? 0)))) {
+    problems.push('Target balances must be numbers');
+  }
+
+  for (const [label, rate] of [
+    ['Credit rate', input.credit_rate],
+    ['Debit rate', input.debit_rate],
+  ] as const) {
+    if (rate != null && (!Number.isFinite(Number(rate)) || Math.abs(Number(rate)) >= 1)) {
+      problems.push(`${label} must be an annual fraction, e.g. 0.025 for 2.5%`);
+    }
+  }
+  if (input.day_count != null && ![360, 365].includes(Number(input.day_count))) {
+    problems.push('Day count must be 360 or 365');
+  }
+
+  return problems;
+}
+
+/**
+ * Net closing positions into one loan per entity pair. Participants in the
+ * header's own entity are internal and create no loan.
+ */
+export function buildPoolLoans(
+  headerEntityId: string | null,
+  participants: Array<Pick<CashPoolParticipantResult, 'entity_id' | 'closing_position'>>
+): CashPoolLoan[] {
+  const header = headerEntityId || 'unassigned';
+  const net = new Map<string, number>(); // Participant entity -> amount lent to the header entity
+
+  for (const participant of participants) {
+    const entity = participant.entity_id || 'unassigned';
+    if (entity === header) continue;
+    net.set(entity, (net.get(entity) || 0) + participant.closing_position);
+  }
+
+  return Array.from(net.entries())
+    .filter(([, amount]) => Math.abs(round(amount)) > 0)
+    .map(([entity, amount]) =>
+      amount > 0
+        ? { lender_entity_id: entity, borrower_entity_id: header, amount: round(amount) }
+        : { lender_entity_id: header, borrower_entity_id: entity, amount: round(-amount) }
+    )
+    .sort((a, b) => b.amount - a.amount);
+}
+
+/**
+ * Physical pools sweep each participant to zero (or its target) at the end of
+ * every day. The historical balances don't include those sweeps, so a day's
+ * sweep is the participant's balance less what was already swept, less its
+ * target. Notional pools move nothing and net the balances for interest.
+ *
+ * Interest accrues on the header balance (physical) or the pool's net
+ * balance (notional) at the credit or debit rate. Each participant is
+ * allocated interest on its position at the same rates; the header keeps the
+ * rest, which is the pooling benefit.
+ */
+export function simulateCashPool(params: {
+  poolType: CashPoolType;
+  sweepRule: SweepRule;
+  creditRate: number;
+  debitRate: number;
+  dayCount: number;
+  header: PoolAccountBalances;
+  participants: Array<PoolAccountBalances & { target_balance: number }>;
+}): {
+  days: CashPoolDay[];
+  participants: CashPoolParticipantResult[];
+  pool_interest: number;
+  interest_retained: number;
+} {
+  const { poolType, sweepRule, creditRate, debitRate, dayCount } = params;
+  const dailyInterest = (balance: number) => (balance * (balance >= 0 ? creditRate : debitRate)) / dayCount;
+
+  // Only days every account has a balance for
+  const maps = [params.header, ...params.participants].map(
+    (account) => new Map(account.balances.map((entry) => [entry.date, entry.balance]))
+  );
+  const dates = params.header.balances
+    .map((entry) => entry.date)
+    .filter((date) => maps.every((balances) => balances.has(date)))
+    .sort();
+
+  const results: CashPoolParticipantResult[] = params.participants.map((participant) => ({
+    account_id: participant.account_id,
+    account_name: participant.account_name,
+    entity_id: participant.entity_id,
+    target_balance: sweepRule === 'zero_balancing' ? 0 : participant.target_balance,
+    swept_to_header: 0,
+    swept_from_header: 0,
+    closing_position: 0,
+    interest_allocated: 0,
+  }));
+
+  let poolInterest = 0;
+  let allocated = 0;
+
+  const days = dates.map((date) => {
+    const headerHistorical = maps[0].get(date)!;
+    const sweeps = [];
+    let poolBalance = headerHistorical;
+
+    for (const [index, result] of results.entries()) {
+      const historical = maps[index + 1].get(date)!;
+      poolBalance += historical;
+
+      if (poolType === 'physical') {
+        const sweep = historical - result.closing_position - result.target_balance;
+        if (Math.abs(round(sweep)) > 0) {
+          sweeps.push({ account_id: result.account_id, amount: round(sweep) });
+          if (sweep > 0) result.swept_to_header += sweep;
+          else result.swept_from_header -= sweep;
+        }
+        result.closing_position += sweep;
+      } else {
+        result.closing_position = historical;
+      }
+
+      const interest = dailyInterest(result.closing_position);
+      result.interest_allocated += interest;
+      allocated += interest;
+    }
+
+    const headerBalance =
+      poolType === 'physical'
+        ? headerHistorical + results.reduce((sum, result) => sum + result.closing_position, 0)
+        : headerHistorical;
+    const interest = dailyInterest(poolType === 'physical' ? headerBalance : poolBalance);
+    poolInterest += interest;
+
+    return {
+      date,
+      header_balance: round(headerBalance),
+      pool_balance: round(poolBalance),
+      sweeps,
+      interest: round(interest),
+    };
+  });
+
+  return {
+    days,
+    participants: results.map((result) => ({
+      ...result,
+      swept_to_header: round(result.swept_to_header),
+      swept_from_header: round(result.swept_from_header),
+      closing_position: round(result.closing_position),
+      interest_allocated: round(result.interest_allocated),
+    })),
+    pool_interest: round(poolInterest),
+    interest_retained: round(poolInterest - allocated),
+  };
+}
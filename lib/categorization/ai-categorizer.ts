@@ -0,0 +1,278 @@
+// AI-assisted transaction categorization
+// Groups uncategorized transactions by normalized description, answers what it
+// can from the cache and sends the rest to the model in batches with structured
+// JSON output. The model is injected so tests can run against a stub.
+
+import { SchemaType, type ResponseSchema } from '@google/generative-ai';
+import type { GeminiService } from '../services/gemini-service';
+import type {
+  AiCategoryResult,
+  CategorizableTransaction,
+  CreateCategorizationRuleInput,
+} from '../types/categorization';
+import { getSignedAmount } from '../utils';
+
+// At or above this the suggestion is applied without review
+export const AUTO_APPLY_CONFIDENCE = 0.85;
+
+export const DEFAULT_BATCH_SIZE = 25;
+
+const MAX_KEY_LENGTH = 120;
+const MAX_COUNTERPARTY_LENGTH = 120;
+
+export interface CategoryOption {
+  code: string;
+  name: string;
+  type?: string; // Income | Expense | Transfer | Investment
+}
+
+export interface ModelRequestItem {
+  id: string;
+  description: string;
+  counterparty?: string | null;
+  direction: 'credit' | 'debit';
+}
+
+export interface ModelResponseItem {
+  id: string;
+  category_code: string;
+  counterparty_name?: string | null;
+  confidence: number;
+}
+
+export interface CategorizationModel {
+  name: string;
+  categorize(items: ModelRequestItem[], categories: CategoryOption[]): Promise<ModelResponseItem[]>;
+}
+
+export interface AiCategorizationOutcome {
+  results: Map<string, AiCategoryResult>; // transaction_id -> result
+  keys: Map<string, string>; // transaction_id -> description key
+  fresh: Map<string, AiCategoryResult>; // description key -> result, for the cache
+  cacheHits: number;
+  modelCalls: number;
+  descriptionsSent: number;
+  errors: string[];
+}
+
+// =====================================================
+// Normalization
+// =====================================================
+
+/**
+ * Cache key for a bank description: lower case, punctuation stripped and any
+ * token containing a digit (dates, card numbers, references) dropped, so
+ * "STARBUCKS#1234 LONDON 12/03" and "STARBUCKS #88 LONDON" share a key
+ */
+export function normalizeDescription(description?: string | null): string {
+  const raw = (description || '').toLowerCase();
+  const tokens = raw
+    .replace(/[^a-z0-9&\s]/g, ' ')
+    .split(/\s+/)
+    .filter((token) => token !== '' && !/\d/.test(token));
+
+  const key = tokens.join(' ').slice(0, MAX_KEY_LENGTH).trim();
+  return key || raw.replace(/\s+/g, ' ').trim().slice(0, MAX_KEY_LENGTH);
+}
+
+function describe(tx: CategorizableTransaction): string {
+  return tx.description || tx.merchant_name || tx.counterparty_name || '';
+}
+
+// =====================================================
+// Model output validation
+// =====================================================
+
+/**
+ * Clamp confidence, drop unknown categories (treated as no answer) and tidy
+ * the counterparty name
+ */
+export function sanitizeResult(item: ModelResponseItem, allowedCodes: Set<string>): AiCategoryResult {
+  const known = allowedCodes.has(item.category_code);
+  const confidence = Number(item.confidence);
+  const counterparty = (item.counterparty_name || '').replace(/\s+/g, ' ').trim().slice(0, MAX_COUNTERPARTY_LENGTH);
+
+  return {
+    category_code: known ? item.category_code : 'uncategorized',
+    counterparty_name: counterparty || null,
+    confidence: known && Number.isFinite(confidence) ? Math.min(Math.max(confidence, 0), 1) : 0,
+  };
+}
+
+// =====================================================
+// Pipeline
+// =====================================================
+
+/**
+ * Work out a category and counterparty for each transaction. Each distinct
+ * description is sent to the model at most once, and never if it is cached.
+ * A failed batch is reported and left uncached so the next run retries it.
+ */
+export async function categorizeTransactions(
+  transactions: CategorizableTransaction[],
+  options: {
+    model: CategorizationModel;
+    categories: CategoryOption[];
+    cache: Map<string, AiCategoryResult>;
+    batchSize?: number;
+  }
+): Promise<AiCategorizationOutcome> {
+  const outcome: AiCategorizationOutcome = {
+    results: new Map(),
+    keys: new Map(),
+    fresh: new Map(),
+    cacheHits: 0,
+    modelCalls: 0,
+    descriptionsSent: 0,
+    errors: [],
+  };
+
+  const pending = new Map<string, { sample: CategorizableTransaction; ids: string[] }>();
+
+  for (const tx of transactions) {
+    const key = normalizeDescription(describe(tx));
+    if (!key) continue;
+    outcome.keys.set(tx.transaction_id, key);
+
+    const cached = options.cache.get(key);
+    if (cached) {
+      outcome.results.set(tx.transaction_id, cached);
+      outcome.cacheHits++;
+      continue;
+    }
+
+    const group = pending.get(key) || { sample: tx, ids: [] };
+    group.ids.push(tx.transaction_id);
+    pending.set(key, group);
+  }
+
+  const allowedCodes = new Set(options.categories.map((category) => category.code));
+  const keys = Array.from(pending.keys());
+  const batchSize = Math.max(options.batchSize || DEFAULT_BATCH_SIZE, 1);
+
+  for (let i = 0; i < keys.length; i += batchSize) {
+    const batchKeys = keys.slice(i, i + batchSize);
+    const items: ModelRequestItem[] = batchKeys.map((key, index) => {
+      const { sample } = pending.get(key)!;
+      return {
+        id: String(index + 1),
+        description: describe(sample),
+        counterparty: sample.counterparty_name || sample.merchant_name || null,
+        direction: getSignedAmount(Number(sample.amount), sample.type || undefined) < 0 ? 'debit' : 'credit',
+      };
+    });
+
+    let response: ModelResponseItem[];
+    try {
+      outcome.modelCalls++;
+      outcome.descriptionsSent += items.length;
+      response = await options.model.categorize(items, options.categories);
+    } catch (error) {
+      outcome.errors.push(error instanceof Error ? error.message : 'Model call failed');
+      continue;
+    }
+
+    for (const item of response || []) {
+      const key = batchKeys[Number(item.id) - 1];
+      if (!key || outcome.fresh.has(key)) continue;
+
+      const result = sanitizeResult(item, allowedCodes);
+      outcome.fresh.set(key, result);
+      options.cache.set(key, result);
+      for (const transactionId of pending.get(key)!.ids) {
+        outcome.results.set(transactionId, result);
+      }
+    }
+  }
+
+  return outcome;
+}
+
+// =====================================================
+// Rules from accepted suggestions
+// =====================================================
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * A deterministic rule equivalent to an accepted suggestion: the description
+ * key's words in order, so it matches the same variants the cache does
+ */
+export function buildRuleFromSuggestion(suggestion: {
+  description_key: string;
+  category_code: string;
+  counterparty_name?: string | null;
+}): CreateCategorizationRuleInput {
+  const pattern = suggestion.description_key.split(' ').filter(Boolean).map(escapeRegExp).join('.*');
+
+  return {
+    name: (suggestion.counterparty_name || suggestion.description_key).slice(0, 100),
+    description: 'Created from an accepted AI categorization suggestion',
+    description_pattern: pattern,
+    category_code: suggestion.category_code,
+  };
+}
+
+// =====================================================
+// Gemini
+// =====================================================
+
+export function buildCategorizationPrompt(items: ModelRequestItem[], categories: CategoryOption[]): string {
+  const categoryLines = categories.map(
+    (category) => `- ${category.code}: ${category.name}${category.type ? ` (${category.type})` : ''}`
+  );
+
+  return [
+    'You categorize corporate bank transactions for a treasury team.',
+    'For each transaction pick the single best category code from the list, extract a clean counterparty name',
+    '(the merchant or company, without card numbers, locations, references or payment-rail noise; null if none),',
+    'and give a confidence between 0 and 1. Use "uncategorized" with low confidence when unsure.',
+    '',
+    'Categories:',
+    ...categoryLines,
+    '',
+    'Transactions (JSON):',
+    JSON.stringify(items),
+  ].join('\n');
+}
+
+function responseSchema(categories: CategoryOption[]): ResponseSchema {
+  return {
+    type: SchemaType.OBJECT,
+    properties: {
+      results: {
+        type: SchemaType.ARRAY,
+        items: {
+          type: SchemaType.OBJECT,
+          properties: {
+            id: { type: SchemaType.STRING },
+            category_code: {
+              type: SchemaType.STRING,
+              format: 'enum',
+              enum: categories.map((category) => category.code),
+            },
+            counterparty_name: { type: SchemaType.STRING, nullable: true },
+            confidence: { type: SchemaType.NUMBER },
+          },
+          required: ['id', 'category_code', 'confidence'],
+        },
+      },
+    },
+    required: ['results'],
+  };
+}
+
+export function createGeminiCategorizationModel(service: Pick<GeminiService, 'generateJson'>): CategorizationModel {
+  return {
+    name: 'gemini-2.0-flash',
+    async categorize(items, categories) {
+      const response = await service.generateJson<{ results?: ModelResponseItem[] }>(
+        buildCategorizationPrompt(items, categories),
+        responseSchema(categories)
+      );
+      return response.results || [];
+    },
+  };
+}
@@ -0,0 +1,216 @@
+// Transaction categorization rules engine
+// Evaluates tenant rules in priority order (first match wins) and works out the
+// category / GL code / cost center each transaction should carry
+
+import { getSignedAmount } from '../utils';
+import type {
+  CategorizableTransaction,
+  CategorizationRule,
+  CategoryAssignment,
+  CreateCategorizationRuleInput,
+} from '../types/categorization';
+
+// Long patterns are almost always a paste error, and cap regex cost per transaction
+const MAX_PATTERN_LENGTH = 500;
+
+// Category sources other than the provider. Syncs and replays keep these
+// categories, and the counterparty name assigned with them, rather than
+// resetting them to the provider's values.
+export const ASSIGNED_CATEGORY_SOURCES = ['rule', 'ai', 'manual'] as const;
+
+export function isCategoryAssigned(source: string | null | undefined): boolean {
+  return (ASSIGNED_CATEGORY_SOURCES as readonly (string | null | undefined)[]).includes(source);
+}
+
+export interface CompiledRule {
+  rule: CategorizationRule;
+  description?: RegExp;
+  counterparty?: RegExp;
+  accounts?: Set<string>;
+  currencies?: Set<string>;
+}
+
+// =====================================================
+// Validation
+// =====================================================
+
+/**
+ * Whether a repeated group itself contains a repetition, as in (a+)+ or
+ * (\w*\s?)*. These are what make a backtracking regex engine take
+ * exponential time on a near-miss, so rules may not use them.
+ */
+export function hasNestedQuantifier(pattern: string): boolean {
+  // One entry per open group: whether a quantifier appeared inside it
+  const groups: boolean[] = [];
+  let closedGroupQuantified = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const afterGroup = closedGroupQuantified;
+    closedGroupQuantified = false;
+
+    if (char === '\\') {
+      i++;
+    } else if (char === '[') {
+      // Skip the character class; quantifier characters inside it are literal
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') i++;
+      }
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      closedGroupQuantified = groups.pop() ?? false;
+      if (closedGroupQuantified && groups.length > 0) groups[groups.length - 1] = true;
+    } else if (char === '*' || char === '+' || char === '{') {
+      if (afterGroup) return true;
+      if (groups.length > 0) groups[groups.length - 1] = true;
+    }
+  }
+
+  return false;
+}
+
+function patternError(field: string, pattern?: string | null): string | null {
+  if (!pattern) return null;
+  if (pattern.length > MAX_PATTERN_LENGTH) return `${field} must be at most ${MAX_PATTERN_LENGTH} characters`;
+  try {
+    new RegExp(pattern, 'i');
+  } catch (error) {
+    return `${field} is not a valid regular expression: ${error instanceof Error ? error.message : String(error)}`;
+  }
+  if (hasNestedQuantifier(pattern)) {
+    return `${field} repeats a group that already repeats, like (a+)+, which can make matching hang`;
+  }
+  return null;
+}
+
+/**
+ * Check a rule before it is saved. Returns human-readable problems (empty = valid).
+ */
+export function validateRule(input: CreateCategorizationRuleInput): string[] {
+  const problems: string[] = [];
+
+  if (!input.name || !input.name.trim()) problems.push('Name is required');
+
+  const descriptionError = patternError('Description pattern', input.description_pattern);
+  if (descriptionError) problems.push(descriptionError);
+  const counterpartyError = patternError('Counterparty pattern', input.counterparty_pattern);
+  if (counterpartyError) problems.push(counterpartyError);
+
+  for (const [field, value] of [['Minimum amount', input.amount_min], ['Maximum amount', input.amount_max]] as const) {
+    if (value != null && (!Number.isFinite(Number(value)) || Number(value) < 0)) {
+      problems.push(`${field} must be a non-negative number`);
+    }
+  }
+  if (input.amount_min != null && input.amount_max != null && Number(input.amount_min) > Number(input.amount_max)) {
+    problems.push('Minimum amount must not exceed maximum amount');
+  }
+  if (input.direction && input.direction !== 'credit' && input.direction !== 'debit') {
+    problems.push("Direction must be 'credit' or 'debit'");
+  }
+
+  const hasCondition =
+    !!input.description_pattern ||
+    !!input.counterparty_pattern ||
+    input.amount_min != null ||
+    input.amount_max != null ||
+    !!input.direction ||
+    (input.account_ids?.length || 0) > 0 ||
+    (input.currencies?.length || 0) > 0;
+  if (!hasCondition) problems.push('At least one condition is required');
+
+  if (!input.category_code && !input.gl_code && !input.cost_center) {
+    problems.push('A rule must assign a category, GL code or cost center');
+  }
+
+  return problems;
+}
+
+// =====================================================
+// Evaluation
+// =====================================================
+
+/**
+ * Compile active rules once per run, sorted by priority (then age for ties).
+ * Rules whose patterns no longer pass validation, such as ones saved before
+ * nested quantifiers were rejected, are skipped rather than run.
+ */
+export function compileRules(rules: CategorizationRule[]): CompiledRule[] {
+  return rules
+    .filter((rule) => rule.is_active)
+    .filter(
+      (rule) =>
+        !patternError('Description pattern', rule.description_pattern) &&
+        !patternError('Counterparty pattern', rule.counterparty_pattern)
+    )
+    .sort((a, b) => a.priority - b.priority || a.created_at.localeCompare(b.created_at))
+    .map((rule) => ({
+      rule,
+      description: rule.description_pattern ? new RegExp(rule.description_pattern, 'i') : undefined,
+      counterparty: rule.counterparty_pattern ? new RegExp(rule.counterparty_pattern, 'i') : undefined,
+      accounts: rule.account_ids?.length ? new Set(rule.account_ids) : undefined,
+      currencies: rule.currencies?.length ? new Set(rule.currencies.map((c) => c.toUpperCase())) : undefined,
+    }));
+}
+
+export function ruleMatches(compiled: CompiledRule, tx: CategorizableTransaction): boolean {
+  const { rule } = compiled;
+  const signed = getSignedAmount(tx.amount, tx.type);
+  const absolute = Math.abs(signed);
+
+  if (compiled.description && !compiled.description.test(tx.description || '')) return false;
+  if (compiled.counterparty && !compiled.counterparty.test(tx.counterparty_name || tx.merchant_name || '')) return false;
+  if (rule.amount_min != null && absolute < Number(rule.amount_min)) return false;
+  if (rule.amount_max != null && absolute > Number(rule.amount_max)) return false;
+  if (rule.direction === 'credit' && signed < 0) return false;
+  if (rule.direction === 'debit' && signed >= 0) return false;
+  if (compiled.accounts && !compiled.accounts.has(tx.account_id)) return false;
+  if (compiled.currencies && !compiled.currencies.has((tx.currency || '').toUpperCase())) return false;
+
+  return true;
+}
+
+export function findMatchingRule(rules: CompiledRule[], tx: CategorizableTransaction): CategorizationRule | null {
+  return rules.find((compiled) => ruleMatches(compiled, tx))?.rule || null;
+}
+
+/**
+ * Work out what a transaction should carry under the current rule set.
+ * Returns null when nothing changes: manual categories are never touched,
+ * and provider-categorized rows without a matching rule stay as they are.
+ */
+export function resolveAssignment(rules: CompiledRule[], tx: CategorizableTransaction): CategoryAssignment | null {
+  if (tx.category_source === 'manual') return null;
+
+  const rule = findMatchingRule(rules, tx);
+  let next: CategoryAssignment;
+
+  if (rule) {
+    next = {
+      category: rule.category_code || tx.provider_category || tx.category || null,
+      gl_code: rule.gl_code || null,
+      cost_center: rule.cost_center || null,
+      categorization_rule_id: rule.id,
+      category_source: 'rule',
+    };
+  } else if (tx.category_source === 'rule' || tx.categorization_rule_id) {
+    // The rule that categorized this no longer matches: fall back to the provider
+    next = {
+      category: tx.provider_category ?? null,
+      gl_code: null,
+      cost_center: null,
+      categorization_rule_id: null,
+      category_source: 'provider',
+    };
+  } else {
+    return null;
+  }
+
+  const unchanged =
+    (tx.category ?? null) === next.category &&
+    (tx.gl_code ?? null) === next.gl_code &&
+    (tx.cost_center ?? null) === next.cost_center &&
+    (tx.categorization_rule_id ?? null) === next.categorization_rule_id;
+
+  return unchanged ? null : next;
+}
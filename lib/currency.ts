@@ -1,5 +1,8 @@
-import { supabase } from '@/lib/supabase-client'
-import { startOfMonth, subMonths, format, parseISO } from 'date-fns'
+// Service-role client: tenant-uploaded rates and source preferences are not
+// readable through RLS without a user session
+import { supabase } from '@/lib/supabase'
+import { startOfMonth, subDays, subMonths, format, parseISO } from 'date-fns'
+import type { ResolvedRate } from '@/lib/types/fx'
 
 // Types
 export type RateType = 'SPOT' | 'EOM' | 'AVG'
@@ -13,79 +16,83 @@ export interface ExchangeRateRequest {
 
 /**
  * Core function to get a single rate
- * Uses the database function get_fx_rate which handles projection logic
+ * Uses the database function get_fx_rate_for_tenant, which handles projection logic.
+ * With a tenantId, SPOT and EOM rates follow the tenant's source precedence.
  */
 export async function getExchangeRate(
   from: string, 
   to: string, 
   date: Date = new Date(),
-  type: RateType = 'SPOT'
+  type: RateType = 'SPOT',
+  tenantId?: string
 ): Promise<number | null> {
+  const resolved = await getExchangeRateWithSource(from, to, date, type, tenantId)
+  return resolved ? resolved.rate : null
+}
+
+/**
+ * Same as getExchangeRate, but also reports which source (fx_rates.source)
+ * and rate date were used. Triangulated rates list both legs' sources.
+ */
+export async function getExchangeRateWithSource(
+  from: string,
+  to: string,
+  date: Date = new Date(),
+  type: RateType = 'SPOT',
+  tenantId?: string
+): Promise<ResolvedRate | null> {
   const dateStr = format(date, 'yyyy-MM-dd')
 
+  if (from === to) return { rate: 1, source: 'identity', date: dateStr }
+
   // 1. Direct Lookup (Smart DB Function)
-  if (type === 'SPOT') {
-    const { data, error } = await supabase
-      .rpc('get_fx_rate', {
+  // Follows the tenant's source precedence when there is one; EOM is the
+  // "Previous Period End" rate common in reporting, i.e. the SPOT rate on the
+  // last day of the month before the requested date
+  if (type === 'SPOT' || type === 'EOM') {
+    const { data } = await supabase
+      .rpc('get_fx_rate_for_tenant', {
+        p_tenant_id: tenantId ?? null,
         p_currency_from: from,
         p_currency_to: to,
-        p_date: dateStr,
+        p_date: type === 'EOM' ? format(subDays(startOfMonth(date), 1), 'yyyy-MM-dd') : dateStr,
         p_rate_type: 'SPOT'
       })
-    
-    if (data !== null) return Number(data)
+
+    const row = Array.isArray(data) ? data[0] : null
+    if (row && row.rate !== null) {
+      return { rate: Number(row.rate), source: row.source, date: row.rate_date }
+    }
   }
 
-  // 2. Monthly Average
+  // 2. Monthly Average (shared feeds only)
   if (type === 'AVG') {
-    const { data, error } = await supabase
+    const { data } = await supabase
       .rpc('get_monthly_average', {
         p_currency_from: from,
         p_currency_to: to,
         p_month_date: dateStr
       })
     
-    if (data !== null) return Number(data)
-  }
-
-  // 3. End of Previous Month
-  if (type === 'EOM') {
-    // Logic: If we want EOM for "Jan", we usually mean "End of Jan". 
-    // But if the type is "PREVIOUS_PERIOD_END", we might mean "End of Dec" relative to Jan.
-    // Let's assume EOM means "End of the requested month".
-    // For "Previous Period End" specifically, the caller should pass the appropriate date or we use a helper.
-    
-    // However, the database function `get_previous_period_end` does exactly "End of Prev Month".
-    // Let's stick to standard types.
-    
-    // If we strictly want the rate at the end of the requested month:
-    // This is just a SPOT rate on the last day of the month.
-    // We can use get_fx_rate with the last day.
-    
-    // But if we want the SPECIAL logic "Previous Period End" (common in reporting):
-    const { data } = await supabase
-      .rpc('get_previous_period_end', {
-        p_currency_from: from,
-        p_currency_to: to,
-        p_target_date: dateStr
-      })
-      
-    if (data !== null) return Number(data)
+    if (data !== null) return { rate: Number(data), source: 'monthly_average', date: dateStr }
   }
 
-  // 4. Triangulation Fallback
+  // 3. Triangulation Fallback
   // If no direct pair exists (e.g. GBP -> EUR), try going through USD
   // Rate(GBP -> EUR) = Rate(GBP -> USD) * Rate(USD -> EUR)
-  //                  = (1 / Rate(USD -> GBP)) * Rate(USD -> EUR)
   
   if (from !== 'USD' && to !== 'USD') {
-    const [rateToUSD, rateFromUSD] = await Promise.all([
-      getExchangeRate(from, 'USD', date, type),
-      getExchangeRate('USD', to, date, type)
+    const [toUSD, fromUSD] = await Promise.all([
+      getExchangeRateWithSource(from, 'USD', date, type, tenantId),
+      getExchangeRateWithSource('USD', to, date, type, tenantId)
     ])
 
-    if (rateToUSD && rateFromUSD) {
-      return rateToUSD * rateFromUSD
+    if (toUSD && fromUSD) {
+      return {
+        rate: toUSD.rate * fromUSD.rate,
+        source: toUSD.source === fromUSD.source ? toUSD.source : `${toUSD.source}+${fromUSD.source}`,
+        date: toUSD.date < fromUSD.date ? toUSD.date : fromUSD.date
+      }
     }
   }
 
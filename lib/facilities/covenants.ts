@@ -0,0 +1,127 @@
+// Covenant testing
+// Computes liquidity and leverage / interest cover ratios from a period's
+// figures and grades them against the covenant threshold, flagging breaches
+// and tests whose headroom has fallen under the warning level
+
+import type {
+  CovenantEvaluation,
+  CovenantFigures,
+  CovenantInputKey,
+  CovenantMetric,
+  CovenantTestStatus,
+  CreateCovenantInput,
+  RepaymentFrequency,
+} from '../types/facility';
+import { REPAYMENT_FREQUENCY_MONTHS } from './register';
+
+export const COVENANT_METRICS: Record<
+  CovenantMetric,
+  { label: string; direction: 'min' | 'max'; unit: 'amount' | 'multiple' }
+> = {
+  minimum_liquidity: { label: 'Minimum liquidity', direction: 'min', unit: 'amount' },
+  net_leverage: { label: 'Net debt / EBITDA', direction: 'max', unit: 'multiple' },
+  gross_leverage: { label: 'Total debt / EBITDA', direction: 'max', unit: 'multiple' },
+  interest_cover: { label: 'EBITDA / interest', direction: 'min', unit: 'multiple' },
+};
+
+export const COVENANT_INPUT_KEYS: CovenantInputKey[] = ['ebitda', 'interest_expense', 'total_debt', 'cash'];
+
+const ALERT_STATUSES: CovenantTestStatus[] = ['breach', 'near_breach'];
+
+/**
+ * Covenants are tested at calendar period ends: every month end, or the
+ * quarter / half-year / year ends
+ */
+export function isTestPeriodEnd(periodEnd: string, frequency: RepaymentFrequency): boolean {
+  const d = new Date(`${periodEnd}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  if (d.getUTCDate() !== 1) return false;
+
+  const month = Number(periodEnd.slice(5, 7));
+  return month % REPAYMENT_FREQUENCY_MONTHS[frequency] === 0;
+}
+
+export function validateCovenant(input: CreateCovenantInput): string[] {
+  const problems: string[] = [];
+
+  if (!input.name?.trim()) problems.push('Name is required');
+  if (!input.facility_id) problems.push('A facility is required');
+  if (!COVENANT_METRICS[input.metric]) {
+    problems.push(`Metric must be one of ${Object.keys(COVENANT_METRICS).join(', ')}`);
+  }
+  if (!Number.isFinite(Number(input.threshold))) problems.push('Threshold must be a number');
+  if (input.test_frequency && !REPAYMENT_FREQUENCY_MONTHS[input.test_frequency]) {
+    problems.push('Test frequency must be monthly, quarterly, semiannual or annual');
+  }
+  if (
+    input.warning_headroom_pct != null &&
+    (!Number.isFinite(Number(input.warning_headroom_pct)) || Number(input.warning_headroom_pct) < 0)
+  ) {
+    problems.push('Warning headroom must be a positive percentage');
+  }
+
+  return problems;
+}
+
+/**
+ * The covenant's measure for a period, or why it cannot be computed. Liquidity
+ * is cash plus undrawn revolving commitments.
+ */
+export function covenantValue(
+  metric: CovenantMetric,
+  figures: CovenantFigures
+): { value: number | null; note: string | null } {
+  const { cash, total_debt, ebitda, interest_expense } = figures;
+
+  if (metric === 'minimum_liquidity') {
+    if (cash == null) return { value: null, note: 'No cash balance for the period end' };
+    return { value: Math.round((cash + (figures.undrawn_revolving || 0)) * 100) / 100, note: null };
+  }
+
+  if (ebitda == null) return { value: null, note: 'EBITDA has not been entered for the period' };
+
+  if (metric === 'interest_cover') {
+    if (interest_expense == null) return { value: null, note: 'Interest expense has not been entered for the period' };
+    if (interest_expense <= 0) return { value: null, note: 'No interest expense in the period' };
+    return { value: Math.round((ebitda / interest_expense) * 100) / 100, note: null };
+  }
+
+  if (total_debt == null) return { value: null, note: 'No debt figure for the period end' };
+  if (metric === 'net_leverage' && cash == null) return { value: null, note: 'No cash balance for the period end' };
+  if (ebitda <= 0) return { value: null, note: 'EBITDA is not positive' };
+
+  const debt = metric === 'net_leverage' ? total_debt - cash! : total_debt;
+  return { value: Math.round((debt / ebitda) * 100) / 100, note: null };
+}
+
+export function evaluateCovenant(
+  covenant: { metric: CovenantMetric; threshold: number; warning_headroom_pct: number },
+  figures: CovenantFigures
+): CovenantEvaluation {
+  const { value, note } = covenantValue(covenant.metric, figures);
+  const threshold = Number(covenant.threshold);
+
+  if (value == null) {
+    // Leverage on non-positive EBITDA cannot be met; cover without interest cannot be missed
+    if (note === 'EBITDA is not positive') return { value, headroom_pct: null, status: 'breach', note };
+    if (note === 'No interest expense in the period') return { value, headroom_pct: null, status: 'compliant', note };
+    return { value, headroom_pct: null, status: 'insufficient_data', note };
+  }
+
+  const margin = COVENANT_METRICS[covenant.metric].direction === 'min' ? value - threshold : threshold - value;
+  const headroom = threshold !== 0 ? Math.round((margin / Math.abs(threshold)) * 10_000) / 100 : null;
+
+  let status: CovenantTestStatus = 'compliant';
+  if (margin < 0) status = 'breach';
+  else if (headroom != null && headroom < Number(covenant.warning_headroom_pct)) status = 'near_breach';
+
+  return { value, headroom_pct: headroom, status, note };
+}
+
+/**
+ * A test raises an alert when it is a breach or near breach it was not
+ * already at the last time this period was tested
+ */
+export function isNewAlert(previous: CovenantTestStatus | undefined, current: CovenantTestStatus): boolean {
+  return ALERT_STATUSES.includes(current) && previous !== current;
+}
@@ -0,0 +1,203 @@
+// Facility register
+// Validates facilities and repayment schedules, works out a facility's drawn
+// and undrawn position and all-in rate, and lays out straight-line
+// amortization schedules
+
+import { daysBetween, round } from '../utils';
+import type {
+  CreateFacilityInput,
+  Facility,
+  FacilityPosition,
+  FacilityStatus,
+  FacilityType,
+  RepaymentFrequency,
+  RepaymentInput,
+} from '../types/facility';
+
+export const FACILITY_TYPES: FacilityType[] = ['term_loan', 'revolving_credit', 'overdraft', 'bond', 'other'];
+
+const FACILITY_STATUSES: FacilityStatus[] = ['active', 'repaid', 'cancelled'];
+
+// Facilities whose undrawn commitment can be drawn again, and so counts as liquidity
+export const REVOLVING_FACILITY_TYPES: FacilityType[] = ['revolving_credit', 'overdraft'];
+
+export const REPAYMENT_FREQUENCY_MONTHS: Record<RepaymentFrequency, number> = {
+  monthly: 1,
+  quarterly: 3,
+  semiannual: 6,
+  annual: 12,
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Add months to a date, keeping the anchor day of month where the month has
+ * it and the month end where it does not (Jan 31 -> Feb 28 -> Mar 31)
+ */
+export function addMonths(date: string, months: number, anchorDay = Number(date.slice(8, 10))): string {
+  const [year, month] = date.split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(anchorDay, lastDay));
+  return target.toISOString().split('T')[0];
+}
+
+export function validateFacility(input: CreateFacilityInput): string[] {
+  const problems: string[] = [];
+
+  if (!input.name?.trim()) problems.push('Name is required');
+  if (!input.lender?.trim()) problems.push('Lender is required');
+  if (!input.entity_id?.trim()) problems.push('A borrowing entity is required');
+  if (!FACILITY_TYPES.includes(input.facility_type)) {
+    problems.push(`Facility type must be one of ${FACILITY_TYPES.join(', ')}`);
+  }
+  if (input.status && !FACILITY_STATUSES.includes(input.status)) {
+    problems.push(`Status must be one of ${FACILITY_STATUSES.join(', ')}`);
+  }
+  if (!/^[A-Z]{3}$/.test(input.currency || '')) problems.push('Currency must be a 3-letter code');
+  if (!Number.isFinite(Number(input.commitment_amount)) || Number(input.commitment_amount) < 0) {
+    problems.push('Commitment must be a positive amount');
+  }
+  if (input.drawn_amount != null && (!Number.isFinite(Number(input.drawn_amount)) || Number(input.drawn_amount) < 0)) {
+    problems.push('Drawn amount must be a positive amount');
+  }
+
+  if (!DATE_PATTERN.test(input.maturity_date || '')) problems.push('Maturity date must be YYYY-MM-DD');
+  if (input.signing_date && !DATE_PATTERN.test(input.signing_date)) problems.push('Signing date must be YYYY-MM-DD');
+  if (input.signing_date && input.maturity_date && input.signing_date >= input.maturity_date) {
+    problems.push('Maturity must be after signing');
+  }
+
+  for (const [label, rate] of [
+    ['Margin', input.margin],
+    ['Reference rate', input.reference_rate_value],
+    ['Rate floor', input.rate_floor],
+    ['Commitment fee', input.commitment_fee],
+  ] as const) {
+    if (rate != null && (!Number.isFinite(Number(rate)) || Math.abs(Number(rate)) >= 1)) {
+      problems.push(`${label} must be an annual fraction, e.g. 0.0175 for 1.75%`);
+    }
+  }
+
+  const accountIds = input.account_ids || [];
+  if (new Set(accountIds).size !== accountIds.length) problems.push('Each loan account can be linked once');
+
+  return problems;
+}
+
+export function validateRepayments(
+  repayments: RepaymentInput[],
+  facility: Pick<Facility, 'commitment_amount' | 'maturity_date'>
+): string[] {
+  const problems: string[] = [];
+
+  repayments.forEach((repayment, index) => {
+    const label = `Repayment ${index + 1}`;
+    if (!DATE_PATTERN.test(repayment.due_date || '')) problems.push(`${label}: due date must be YYYY-MM-DD`);
+    else if (repayment.due_date > facility.maturity_date) problems.push(`${label}: due after maturity`);
+    if (!Number.isFinite(Number(repayment.principal_amount)) || Number(repayment.principal_amount) < 0) {
+      problems.push(`${label}: principal must be a positive amount`);
+    }
+    if (repayment.status && !['scheduled', 'paid'].includes(repayment.status)) {
+      problems.push(`${label}: status must be scheduled or paid`);
+    }
+  });
+
+  if (new Set(repayments.map((repayment) => repayment.due_date)).size !== repayments.length) {
+    problems.push('Only one repayment per due date');
+  }
+
+  const total = repayments.reduce((sum, repayment) => sum + Number(repayment.principal_amount || 0), 0);
+  if (round(total) > round(Number(facility.commitment_amount))) {
+    problems.push('Repayments add up to more than the commitment');
+  }
+
+  return problems;
+}
+
+/**
+ * Equal instalments from the first due date until maturity; balloonPct of the
+ * amount is left for the final repayment, which always falls on maturity
+ */
+export function generateRepaymentSchedule(params: {
+  amount: number;
+  firstDueDate: string;
+  maturityDate: string;
+  frequency: RepaymentFrequency;
+  balloonPct?: number;
+}): RepaymentInput[] {
+  const { amount, firstDueDate, maturityDate, frequency } = params;
+  if (amount <= 0 || firstDueDate > maturityDate) return [];
+
+  const step = REPAYMENT_FREQUENCY_MONTHS[frequency];
+  const anchorDay = Number(firstDueDate.slice(8, 10));
+  const dates: string[] = [];
+  for (let i = 0; ; i++) {
+    const date = addMonths(firstDueDate, i * step, anchorDay);
+    if (date >= maturityDate) break;
+    dates.push(date);
+  }
+  dates.push(maturityDate);
+
+  const balloon = round(amount * Math.min(Math.max(params.balloonPct || 0, 0), 100) / 100);
+  const instalment = round((amount - balloon) / dates.length);
+
+  return dates.map((due_date, index) => ({
+    due_date,
+    principal_amount:
+      index === dates.length - 1 ? round(amount - instalment * (dates.length - 1)) : instalment,
+    status: 'scheduled' as const,
+  }));
+}
+
+/**
+ * Reference rate (not below the floor) plus margin; fixed-rate facilities
+ * carry their whole coupon in the margin
+ */
+export function allInRate(
+  facility: Pick<Facility, 'reference_rate' | 'reference_rate_value' | 'margin' | 'rate_floor'>
+): number | null {
+  const margin = Number(facility.margin || 0);
+  if (facility.reference_rate.toUpperCase() === 'FIXED') return margin;
+  if (facility.reference_rate_value == null) return null;
+
+  const base = Number(facility.reference_rate_value);
+  const floored = facility.rate_floor != null ? Math.max(base, Number(facility.rate_floor)) : base;
+  return Math.round((floored + margin) * 1_000_000) / 1_000_000;
+}
+
+/**
+ * Drawn amount from the linked loan accounts when there are any (whichever
+ * sign the provider reports it with), otherwise the amount entered by hand
+ */
+export function facilityPosition(
+  facility: Pick<
+    Facility,
+    | 'commitment_amount'
+    | 'drawn_amount'
+    | 'maturity_date'
+    | 'reference_rate'
+    | 'reference_rate_value'
+    | 'margin'
+    | 'rate_floor'
+    | 'repayments'
+  >,
+  linkedBalance: number | null,
+  today: string
+): FacilityPosition {
+  const commitment = Number(facility.commitment_amount);
+  const drawn = round(linkedBalance != null ? Math.abs(linkedBalance) : Number(facility.drawn_amount || 0));
+  const next = (facility.repayments || [])
+    .filter((repayment) => repayment.status === 'scheduled' && repayment.due_date >= today)
+    .sort((a, b) => a.due_date.localeCompare(b.due_date))[0];
+
+  return {
+    drawn,
+    drawn_source: linkedBalance != null ? 'accounts' : 'manual',
+    available: round(Math.max(commitment - drawn, 0)),
+    utilization: commitment > 0 ? Math.round((drawn / commitment) * 10_000) / 10_000 : null,
+    all_in_rate: allInRate(facility),
+    next_repayment: next ? { due_date: next.due_date, principal_amount: Number(next.principal_amount) } : null,
+    days_to_maturity: daysBetween(today, facility.maturity_date),
+  };
+}
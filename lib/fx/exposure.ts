@@ -0,0 +1,188 @@
+// FX exposure aggregation
+// Groups balances, forecast flows and open payments by entity, currency and
+// tenor, translates them into the entity's functional currency and derives
+// sensitivity to currency moves
+
+import { daysBetween, round } from '../utils';
+import type { RateType } from '../currency';
+import type {
+  ExposureEntity,
+  ExposureItem,
+  ExposureRateLookup,
+  ExposureTenor,
+  FxCurrencyExposure,
+  FxExposurePosition,
+  FxSensitivityRow,
+} from '../types/fx';
+
+// Foreign currency moves against the functional currency; positive = foreign appreciates
+export const DEFAULT_SHOCKS = [-0.2, -0.1, -0.05, 0.05, 0.1, 0.2];
+
+export const RATE_TYPES: RateType[] = ['SPOT', 'EOM', 'AVG'];
+
+// Upper bound in days for each forward tenor bucket
+const TENOR_BUCKETS: Array<{ tenor: ExposureTenor; maxDays: number }> = [
+  { tenor: '0-1M', maxDays: 31 },
+  { tenor: '1-3M', maxDays: 92 },
+  { tenor: '3-6M', maxDays: 183 },
+  { tenor: '6-12M', maxDays: 366 },
+];
+
+const TENOR_ORDER: ExposureTenor[] = ['spot', '0-1M', '1-3M', '3-6M', '6-12M', '12M+'];
+
+export function formatShock(shock: number): string {
+  const percent = Math.round(shock * 100);
+  return `${percent > 0 ? '+' : ''}${percent}%`;
+}
+
+/**
+ * Balances are spot; flows fall into a forward bucket by value date, with
+ * overdue flows treated as due now
+ */
+export function exposureTenor(item: Pick<ExposureItem, 'source' | 'date'>, asOf: string): ExposureTenor {
+  if (item.source === 'balance') return 'spot';
+
+  const days = daysBetween(asOf, item.date);
+  for (const bucket of TENOR_BUCKETS) {
+    if (days <= bucket.maxDays) return bucket.tenor;
+  }
+  return '12M+';
+}
+
+/**
+ * Aggregate items per entity, currency and tenor. Items for entities that are
+ * not listed are dropped.
+ */
+export function buildExposurePositions(
+  items: ExposureItem[],
+  entities: ExposureEntity[],
+  rates: ExposureRateLookup,
+  asOf: string
+): FxExposurePosition[] {
+  const entityById = new Map(entities.map((entity) => [entity.entity_id, entity]));
+  const positions = new Map<string, FxExposurePosition>();
+
+  for (const item of items) {
+    const entity = entityById.get(item.entity_id);
+    if (!entity) continue;
+
+    const currency = item.currency.toUpperCase();
+    const tenor = exposureTenor(item, asOf);
+    const key = `${entity.entity_id}:${currency}:${tenor}`;
+
+    let position = positions.get(key);
+    if (!position) {
+      position = {
+        entity_id: entity.entity_id,
+        entity_name: entity.entity_name,
+        functional_currency: entity.functional_currency,
+        currency,
+        tenor,
+        balances: 0,
+        forecast_flows: 0,
+        open_payments: 0,
+        net_amount: 0,
+        exposed: currency !== entity.functional_currency,
+        translated: { SPOT: null, EOM: null, AVG: null },
+      };
+      positions.set(key, position);
+    }
+
+    if (item.source === 'balance') position.balances = round(position.balances + item.amount);
+    else if (item.source === 'forecast') position.forecast_flows = round(position.forecast_flows + item.amount);
+    else position.open_payments = round(position.open_payments + item.amount);
+    position.net_amount = round(position.net_amount + item.amount);
+  }
+
+  for (const position of positions.values()) {
+    for (const type of RATE_TYPES) {
+      const rate = position.exposed ? rates(position.currency, position.functional_currency, type) : 1;
+      position.translated[type] = rate == null ? null : round(position.net_amount * rate);
+    }
+  }
+
+  return Array.from(positions.values()).sort(
+    (a, b) =>
+      a.entity_id.localeCompare(b.entity_id) ||
+      a.currency.localeCompare(b.currency) ||
+      TENOR_ORDER.indexOf(a.tenor) - TENOR_ORDER.indexOf(b.tenor)
+  );
+}
+
+/**
+ * Sensitivity per entity and foreign currency, across all tenors
+ */
+export function buildSensitivityTable(
+  positions: FxExposurePosition[],
+  shocks: number[] = DEFAULT_SHOCKS
+): FxSensitivityRow[] {
+  const rows = new Map<string, FxSensitivityRow>();
+
+  for (const position of positions) {
+    if (!position.exposed) continue;
+
+    const key = `${position.entity_id}:${position.currency}`;
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        entity_id: position.entity_id,
+        functional_currency: position.functional_currency,
+        currency: position.currency,
+        net_amount: 0,
+        spot_value: 0,
+        impacts: {},
+      };
+      rows.set(key, row);
+    }
+
+    row.net_amount = round(row.net_amount + position.net_amount);
+    row.spot_value =
+      row.spot_value == null || position.translated.SPOT == null
+        ? null
+        : round(row.spot_value + position.translated.SPOT);
+  }
+
+  for (const row of rows.values()) {
+    for (const shock of shocks) {
+      row.impacts[formatShock(shock)] = row.spot_value == null ? null : round(row.spot_value * shock);
+    }
+  }
+
+  return Array.from(rows.values());
+}
+
+/**
+ * Roll sensitivities up per foreign currency in one reporting currency, so
+ * offsetting positions across entities are visible before hedging
+ */
+export function summarizeByCurrency(
+  sensitivities: FxSensitivityRow[],
+  rates: ExposureRateLookup,
+  reportingCurrency: string
+): FxCurrencyExposure[] {
+  const totals = new Map<string, FxCurrencyExposure>();
+
+  for (const row of sensitivities) {
+    if (row.spot_value == null) continue;
+
+    const rate =
+      row.functional_currency === reportingCurrency ? 1 : rates(row.functional_currency, reportingCurrency, 'SPOT');
+    if (rate == null) continue;
+
+    let total = totals.get(row.currency);
+    if (!total) {
+      total = { currency: row.currency, reporting_value: 0, impacts: {} };
+      totals.set(row.currency, total);
+    }
+
+    total.reporting_value = round(total.reporting_value + row.spot_value * rate);
+    for (const [label, impact] of Object.entries(row.impacts)) {
+      if (impact == null) continue;
+      total.impacts[label] = round((total.impacts[label] || 0) + impact * rate);
+    }
+  }
+
+  return Array.from(totals.values()).sort(
+    (a, b) => Math.abs(b.reporting_value) - Math.abs(a.reporting_value) || a.currency.localeCompare(b.currency)
+  );
+}
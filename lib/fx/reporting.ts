@@ -0,0 +1,66 @@
+// Reporting currency
+// Picks the currency an aggregate is shown in and sums amounts held in
+// several currencies into it, keeping the rate date each total relied on
+
+import { round } from '../utils';
+import type { RateType } from '../currency';
+import type { ReportingAmount, ReportingCurrencySource, ReportingRateLookup } from '../types/fx';
+
+export const DEFAULT_REPORTING_CURRENCY = 'USD';
+
+export const REPORTING_RATE_TYPES: RateType[] = ['SPOT', 'EOM', 'AVG'];
+
+/**
+ * Entity totals use the entity's override; consolidated totals (no entity
+ * override passed) use the user's, then the tenant's setting
+ */
+export function resolveReportingCurrency(overrides: {
+  entity?: string | null;
+  user?: string | null;
+  tenant?: string | null;
+}): { currency: string; source: ReportingCurrencySource } {
+  if (overrides.entity) return { currency: overrides.entity.toUpperCase(), source: 'entity' };
+  if (overrides.user) return { currency: overrides.user.toUpperCase(), source: 'user' };
+  if (overrides.tenant) return { currency: overrides.tenant.toUpperCase(), source: 'tenant' };
+  return { currency: DEFAULT_REPORTING_CURRENCY, source: 'default' };
+}
+
+/**
+ * Sum amounts into the reporting currency. Amounts without a rate are left
+ * out and their currency listed, rather than added unconverted.
+ */
+export function sumInReportingCurrency(
+  items: Array<{ amount: number; currency?: string | null }>,
+  currency: string,
+  rateType: RateType,
+  rates: ReportingRateLookup
+): ReportingAmount {
+  let amount = 0;
+  let rateDate: string | null = null;
+  const unconverted = new Set<string>();
+
+  for (const item of items) {
+    const from = (item.currency || DEFAULT_REPORTING_CURRENCY).toUpperCase();
+    if (from === currency) {
+      amount += item.amount;
+      continue;
+    }
+
+    const rate = rates(from, currency);
+    if (!rate) {
+      unconverted.add(from);
+      continue;
+    }
+
+    amount += item.amount * rate.rate;
+    if (!rateDate || rate.date < rateDate) rateDate = rate.date;
+  }
+
+  return {
+    amount: round(amount),
+    currency,
+    rate_type: rateType,
+    rate_date: rateDate,
+    unconverted: Array.from(unconverted).sort(),
+  };
+}
@@ -0,0 +1,181 @@
+// FX revaluation
+// Revalues foreign-currency account balances at period end and splits the
+// gain or loss into realized (on amounts that left the account) and
+// unrealized (on the balance still held), with balanced journal rows
+//
+// Carrying value follows the weighted-average method: the opening balance is
+// carried at the prior period-end rate, inflows are added at the monthly
+// average rate, and outflows relieve carrying value at the weighted rate.
+
+import { round } from '../utils';
+import type {
+  ExposureEntity,
+  FxEntityRevaluation,
+  FxJournalRow,
+  FxRevaluationLine,
+  RevaluationAccountInput,
+  RevaluationRates,
+} from '../types/fx';
+
+export interface RevaluationJournalOptions {
+  journalDate: string;
+  realizedGlCode?: string | null;
+  unrealizedGlCode?: string | null;
+}
+
+/**
+ * Last day of the month the date falls in
+ */
+export function monthEnd(date: string): string {
+  const d = new Date(`${date.slice(0, 7)}-01T00:00:00Z`);
+  d.setUTCMonth(d.getUTCMonth() + 1);
+  d.setUTCDate(0);
+  return d.toISOString().split('T')[0];
+}
+
+export function isMonthEnd(date: string): boolean {
+  return monthEnd(date) === date;
+}
+
+/**
+ * Split the balance change into inflows and outflows from the period's signed
+ * transaction amounts. Statements are authoritative, so any difference between
+ * the transactions and the balance change is added to the matching side.
+ */
+export function reconcileFlows(
+  openingBalance: number,
+  closingBalance: number,
+  signedAmounts: number[]
+): Pick<RevaluationAccountInput, 'inflows' | 'outflows' | 'unexplained_flow'> {
+  let inflows = 0;
+  let outflows = 0;
+  for (const amount of signedAmounts) {
+    if (amount >= 0) inflows += amount;
+    else outflows -= amount;
+  }
+
+  const unexplained = round(closingBalance - openingBalance - (inflows - outflows));
+  if (unexplained > 0) inflows += unexplained;
+  else outflows -= unexplained;
+
+  return { inflows: round(inflows), outflows: round(outflows), unexplained_flow: unexplained };
+}
+
+export function revalueAccount(
+  input: RevaluationAccountInput,
+  rates: RevaluationRates,
+  functionalCurrency: string
+): FxRevaluationLine {
+  const openingValue = input.opening_balance * rates.opening;
+  const pooledBalance = input.opening_balance + input.inflows;
+
+  // With no positive pool (e.g. an overdrawn account) outflows are carried at
+  // the rate they moved at, so nothing is realized
+  const carryingRate = pooledBalance > 0 ? (openingValue + input.inflows * rates.average) / pooledBalance : rates.average;
+
+  const realized = round(input.outflows * (rates.average - carryingRate));
+  const carryingValue = openingValue + input.inflows * rates.average - input.outflows * carryingRate;
+  const closingValue = input.closing_balance * rates.closing;
+  const unrealized = round(closingValue - carryingValue);
+
+  return {
+    ...input,
+    functional_currency: functionalCurrency,
+    opening_rate: rates.opening,
+    closing_rate: rates.closing,
+    average_rate: rates.average,
+    opening_value: round(openingValue),
+    closing_value: round(closingValue),
+    realized_gain_loss: realized,
+    unrealized_gain_loss: unrealized,
+    total_gain_loss: round(realized + unrealized),
+  };
+}
+
+export function summarizeRevaluationByEntity(
+  lines: FxRevaluationLine[],
+  entities: ExposureEntity[]
+): FxEntityRevaluation[] {
+  const entityById = new Map(entities.map((entity) => [entity.entity_id, entity]));
+  const totals = new Map<string, FxEntityRevaluation>();
+
+  for (const line of lines) {
+    let total = totals.get(line.entity_id);
+    if (!total) {
+      total = {
+        entity_id: line.entity_id,
+        entity_name: entityById.get(line.entity_id)?.entity_name || line.entity_id,
+        functional_currency: line.functional_currency,
+        accounts: 0,
+        realized_gain_loss: 0,
+        unrealized_gain_loss: 0,
+        total_gain_loss: 0,
+      };
+      totals.set(line.entity_id, total);
+    }
+
+    total.accounts += 1;
+    total.realized_gain_loss = round(total.realized_gain_loss + line.realized_gain_loss);
+    total.unrealized_gain_loss = round(total.unrealized_gain_loss + line.unrealized_gain_loss);
+    total.total_gain_loss = round(total.total_gain_loss + line.total_gain_loss);
+  }
+
+  return Array.from(totals.values()).sort((a, b) => a.entity_name.localeCompare(b.entity_name));
+}
+
+/**
+ * One balanced entry per revalued account: the account's GL code takes the
+ * total, offset by the realized and unrealized FX gain/loss accounts
+ */
+export function buildRevaluationJournal(
+  lines: FxRevaluationLine[],
+  options: RevaluationJournalOptions
+): FxJournalRow[] {
+  const rows: FxJournalRow[] = [];
+
+  for (const line of lines) {
+    if (line.total_gain_loss === 0 && line.realized_gain_loss === 0) continue;
+
+    const base = {
+      journal_date: options.journalDate,
+      entity_id: line.entity_id,
+      account_id: line.account_id,
+      currency: line.functional_currency,
+    };
+    const label = `${line.account_name} (${line.currency})`;
+
+    // A gain increases the account's carrying value: debit the account, credit the gain
+    const entries: Array<Pick<FxJournalRow, 'line_type' | 'gl_account_code' | 'description'> & { amount: number }> = [
+      {
+        line_type: 'account',
+        gl_account_code: line.gl_account_code,
+        description: `FX revaluation ${label}`,
+        amount: line.total_gain_loss,
+      },
+      {
+        line_type: 'realized',
+        gl_account_code: options.realizedGlCode ?? null,
+        description: `Realized FX gain/loss ${label}`,
+        amount: -line.realized_gain_loss,
+      },
+      {
+        line_type: 'unrealized',
+        gl_account_code: options.unrealizedGlCode ?? null,
+        description: `Unrealized FX gain/loss ${label}`,
+        amount: -line.unrealized_gain_loss,
+      },
+    ];
+
+    for (const { amount, ...entry } of entries) {
+      if (amount === 0) continue;
+      rows.push({
+        ...base,
+        ...entry,
+        debit: amount > 0 ? amount : 0,
+        credit: amount < 0 ? -amount : 0,
+      });
+    }
+  }
+
+  return rows;
+}
@@ -0,0 +1,33 @@
+// FX Rate Source Interface
+// Every market rate feed implements this so the update job can pull from any
+// configured source and record which one each stored rate came from
+
+import type { RateSnapshot } from '../../types/fx';
+
+export interface FxRateSource {
+  id: string; // Stored in fx_rates.source
+  displayName: string;
+  description: string;
+  requiredEnvVars: string[];
+
+  /**
+   * Most recent published rates
+   */
+  fetchLatest(): Promise<RateSnapshot>;
+
+  /**
+   * Rates published for a date, or null when the source has none (weekends,
+   * holidays, dates outside the source's history)
+   */
+  fetchHistorical(date: string): Promise<RateSnapshot | null>;
+}
+
+export class FxSourceError extends Error {
+  constructor(
+    public sourceId: string,
+    message: string
+  ) {
+    super(`[${sourceId}] ${message}`);
+    this.name = 'FxSourceError';
+  }
+}
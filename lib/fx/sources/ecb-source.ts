@@ -0,0 +1,69 @@
+// European Central Bank reference rates
+// EUR-based daily rates published around 16:00 CET on TARGET business days
+
+import type { RateSnapshot } from '../../types/fx';
+import { child, children, parseXml } from '../../parsers/xml';
+import { FxSourceError, type FxRateSource } from './base-source';
+
+const DAILY_URL = 'https://www.ecb.europa.eu/stats/eurofxref/eurofxref-daily.xml';
+const HISTORY_URL = 'https://www.ecb.europa.eu/stats/eurofxref/eurofxref-hist-90d.xml';
+const SOURCE_ID = 'ecb';
+
+/**
+ * Parse an ECB eurofxref document into one snapshot per day, newest first.
+ * Days are <Cube time="..."> elements holding <Cube currency="..." rate="..."/>.
+ */
+export function parseEcbXml(xml: string): RateSnapshot[] {
+  const envelope = parseXml(xml);
+  const snapshots: RateSnapshot[] = [];
+
+  for (const day of children(child(envelope, 'Cube'), 'Cube')) {
+    const date = day.attributes.time;
+    if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) continue;
+
+    const rates: Record<string, number> = {};
+    for (const quote of children(day, 'Cube')) {
+      const value = Number(quote.attributes.rate);
+      if (/^[A-Z]{3}$/.test(quote.attributes.currency || '') && Number.isFinite(value) && value > 0) {
+        rates[quote.attributes.currency] = value;
+      }
+    }
+
+    if (Object.keys(rates).length > 0) {
+      snapshots.push({ source: SOURCE_ID, base: 'EUR', date, rates });
+    }
+  }
+
+  return snapshots.sort((a, b) => b.date.localeCompare(a.date));
+}
+
+async function fetchDocument(url: string, revalidate: number): Promise<RateSnapshot[]> {
+  const response = await fetch(url, { next: { revalidate } });
+
+  if (!response.ok) {
+    throw new FxSourceError(SOURCE_ID, `Feed error: ${response.status} ${response.statusText}`);
+  }
+
+  return parseEcbXml(await response.text());
+}
+
+export const ecbSource: FxRateSource = {
+  id: SOURCE_ID,
+  displayName: 'European Central Bank',
+  description: 'Official EUR reference rates',
+  requiredEnvVars: [],
+
+  async fetchLatest() {
+    console.log('[FX] Fetching ECB reference rates');
+    const [latest] = await fetchDocument(DAILY_URL, 0);
+    if (!latest) throw new FxSourceError(SOURCE_ID, 'Daily feed contained no rates');
+    return latest;
+  },
+
+  // The public history feed covers the last 90 days
+  async fetchHistorical(date: string) {
+    console.log(`[FX] Fetching ECB reference rates for ${date}`);
+    const snapshots = await fetchDocument(HISTORY_URL, 3600);
+    return snapshots.find((snapshot) => snapshot.date === date) || null;
+  },
+};
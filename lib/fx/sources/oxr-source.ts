@@ -0,0 +1,60 @@
+// Open Exchange Rates source
+// USD-based rates; needs OPEN_EXCHANGE_RATES_APP_ID
+
+import type { RateSnapshot } from '../../types/fx';
+import { FxSourceError, type FxRateSource } from './base-source';
+
+const BASE_URL = 'https://openexchangerates.org/api';
+const SOURCE_ID = 'open_exchange_rates';
+
+interface OpenExchangeRatesResponse {
+  disclaimer: string;
+  license: string;
+  timestamp: number;
+  base: string;
+  rates: Record<string, number>;
+}
+
+function appId(): string {
+  const id = process.env.OPEN_EXCHANGE_RATES_APP_ID;
+  if (!id) throw new FxSourceError(SOURCE_ID, 'OPEN_EXCHANGE_RATES_APP_ID is not set');
+  return id;
+}
+
+function toSnapshot(data: OpenExchangeRatesResponse): RateSnapshot {
+  return {
+    source: SOURCE_ID,
+    base: data.base,
+    date: new Date(data.timestamp * 1000).toISOString().split('T')[0],
+    rates: data.rates,
+  };
+}
+
+async function request(path: string, revalidate: number): Promise<OpenExchangeRatesResponse> {
+  const response = await fetch(`${BASE_URL}/${path}?app_id=${appId()}`, {
+    next: { revalidate },
+  });
+
+  if (!response.ok) {
+    throw new FxSourceError(SOURCE_ID, `API error: ${response.status} ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+export const openExchangeRatesSource: FxRateSource = {
+  id: SOURCE_ID,
+  displayName: 'Open Exchange Rates',
+  description: 'Commercial USD-based daily rates',
+  requiredEnvVars: ['OPEN_EXCHANGE_RATES_APP_ID'],
+
+  async fetchLatest() {
+    console.log('[FX] Fetching latest rates from Open Exchange Rates');
+    return toSnapshot(await request('latest.json', 0)); // Don't cache
+  },
+
+  async fetchHistorical(date: string) {
+    console.log(`[FX] Fetching Open Exchange Rates historical rates for ${date}`);
+    return toSnapshot(await request(`historical/${date}.json`, 3600)); // Cache historical rates for 1 hour
+  },
+};
@@ -0,0 +1,40 @@
+// FX Rate Source Registry
+// Market feeds that can populate the shared fx_rates table. Tenant uploads are
+// not registered here; they are stored under their own source label.
+
+import type { FxRateSource } from './base-source';
+import { ecbSource } from './ecb-source';
+import { openExchangeRatesSource } from './oxr-source';
+
+const SOURCES: FxRateSource[] = [openExchangeRatesSource, ecbSource];
+
+export interface FxRateSourceInfo {
+  id: string;
+  displayName: string;
+  description: string;
+  configured: boolean;
+}
+
+function isConfigured(source: FxRateSource): boolean {
+  return source.requiredEnvVars.every((name) => !!process.env[name]);
+}
+
+export function getRateSource(id: string): FxRateSource | undefined {
+  return SOURCES.find((source) => source.id === id);
+}
+
+/**
+ * Sources whose environment is set up, in registration order
+ */
+export function getConfiguredRateSources(): FxRateSource[] {
+  return SOURCES.filter(isConfigured);
+}
+
+export function listRateSources(): FxRateSourceInfo[] {
+  return SOURCES.map((source) => ({
+    id: source.id,
+    displayName: source.displayName,
+    description: source.description,
+    configured: isConfigured(source),
+  }));
+}
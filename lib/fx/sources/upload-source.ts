@@ -0,0 +1,130 @@
+// Tenant rate uploads
+// Parses CSV or JSON files of official rates (e.g. a central bank fixing) that
+// a tenant loads under its own source label
+
+import Papa from 'papaparse';
+import type { RateType } from '../../currency';
+import type { RateSnapshot, UploadedRate } from '../../types/fx';
+
+export type RateUploadFormat = 'csv' | 'json';
+
+export interface RateUploadResult {
+  rates: UploadedRate[];
+  errors: string[];
+}
+
+// Lower-case labels so they cannot be confused with ISO codes or built-in feeds
+export const UPLOAD_SOURCE_PATTERN = /^[a-z][a-z0-9_]{1,48}$/;
+
+const RATE_TYPES: RateType[] = ['SPOT', 'EOM', 'AVG'];
+
+// Accepted column names for each field, first match wins
+const COLUMN_ALIASES: Record<keyof UploadedRate, string[]> = {
+  currency_from: ['currency_from', 'from', 'base'],
+  currency_to: ['currency_to', 'to', 'quote', 'currency'],
+  date: ['date', 'rate_date', 'value_date'],
+  rate: ['rate', 'value'],
+  rate_type: ['rate_type', 'type'],
+};
+
+/**
+ * Whether a label can be used for uploaded rates: built-in feeds and the
+ * _calculated suffix are reserved
+ */
+export function isValidUploadSource(label: string, reserved: string[]): boolean {
+  return UPLOAD_SOURCE_PATTERN.test(label) && !label.endsWith('_calculated') && !reserved.includes(label);
+}
+
+function field(row: Record<string, unknown>, key: keyof UploadedRate): unknown {
+  for (const alias of COLUMN_ALIASES[key]) {
+    const value = row[alias];
+    if (value !== undefined && value !== null && value !== '') return value;
+  }
+  return undefined;
+}
+
+function normalizeRow(row: Record<string, unknown>, label: string): UploadedRate | string {
+  const lower = Object.fromEntries(Object.entries(row).map(([key, value]) => [key.trim().toLowerCase(), value]));
+
+  const from = String(field(lower, 'currency_from') ?? '').trim().toUpperCase();
+  const to = String(field(lower, 'currency_to') ?? '').trim().toUpperCase();
+  const date = String(field(lower, 'date') ?? '').trim();
+  const rate = Number(field(lower, 'rate'));
+  const rateType = String(field(lower, 'rate_type') ?? 'SPOT').trim().toUpperCase() as RateType;
+
+  if (!/^[A-Z]{3}$/.test(from) || !/^[A-Z]{3}$/.test(to)) return `${label}: currencies must be 3-letter codes`;
+  if (from === to) return `${label}: currency_from and currency_to are the same`;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(Date.parse(date))) return `${label}: date must be YYYY-MM-DD`;
+  if (!Number.isFinite(rate) || rate <= 0) return `${label}: rate must be a positive number`;
+  if (!RATE_TYPES.includes(rateType)) return `${label}: rate_type must be SPOT, EOM or AVG`;
+
+  return { currency_from: from, currency_to: to, date, rate, rate_type: rateType };
+}
+
+function snapshotRows(snapshot: Partial<RateSnapshot>): Record<string, unknown>[] {
+  return Object.entries(snapshot.rates || {}).map(([currency, rate]) => ({
+    currency_from: snapshot.base,
+    currency_to: currency,
+    date: snapshot.date,
+    rate,
+  }));
+}
+
+/**
+ * Parse an upload. CSV needs a header row (date, currency_from, currency_to,
+ * rate and optionally rate_type). JSON may be an array of such rows or of
+ * { base, date, rates } snapshots, or a single snapshot.
+ */
+export function parseRateUpload(content: string, format: RateUploadFormat): RateUploadResult {
+  let rows: Record<string, unknown>[];
+
+  if (format === 'csv') {
+    const parsed = Papa.parse<Record<string, unknown>>(content.trim(), { header: true, skipEmptyLines: true });
+    if (parsed.errors.length > 0 && parsed.data.length === 0) {
+      return { rates: [], errors: parsed.errors.map((error) => error.message) };
+    }
+    rows = parsed.data;
+  } else {
+    let json: unknown;
+    try {
+      json = JSON.parse(content);
+    } catch {
+      return { rates: [], errors: ['File is not valid JSON'] };
+    }
+
+    const entries = Array.isArray(json) ? json : [json];
+    rows = entries.flatMap((entry) =>
+      entry && typeof entry === 'object' && 'rates' in entry
+        ? snapshotRows(entry as Partial<RateSnapshot>)
+        : [entry as Record<string, unknown>]
+    );
+  }
+
+  const rates: UploadedRate[] = [];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  rows.forEach((row, index) => {
+    const label = format === 'csv' ? `Row ${index + 2}` : `Entry ${index + 1}`;
+    if (!row || typeof row !== 'object') {
+      errors.push(`${label}: not an object`);
+      return;
+    }
+
+    const result = normalizeRow(row, label);
+    if (typeof result === 'string') {
+      errors.push(result);
+      return;
+    }
+
+    const key = `${result.currency_from}:${result.currency_to}:${result.date}:${result.rate_type}`;
+    if (seen.has(key)) {
+      errors.push(`${label}: duplicate ${result.currency_from}/${result.currency_to} rate for ${result.date}`);
+      return;
+    }
+    seen.add(key);
+    rates.push(result);
+  });
+
+  return { rates, errors };
+}
@@ -0,0 +1,219 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import type { RateType } from '@/lib/currency';
+import type {
+  BankFeePattern,
+  BankFeeReport,
+  CreateBankFeePatternInput,
+  FinancialInstitution,
+  ImportStatementLineInput,
+} from '@/lib/types/bank-fees';
+import { accountKeys } from './use-accounts';
+
+export interface BankFeeFilters {
+  startMonth?: string;
+  endMonth?: string;
+  entityId?: string;
+  thresholdPct?: number;
+  minIncrease?: number;
+  rateType?: RateType;
+}
+
+/**
+ * Query key factory for bank fees
+ */
+export const bankFeeKeys = {
+  all: ['bank-fees'] as const,
+  tenant: (tenantId: string) => [...bankFeeKeys.all, tenantId] as const,
+  report: (tenantId: string, filters: BankFeeFilters) => [...bankFeeKeys.tenant(tenantId), 'report', filters] as const,
+  patterns: (tenantId: string) => [...bankFeeKeys.tenant(tenantId), 'patterns'] as const,
+};
+
+async function fetchBankFeeReport(tenantId: string, filters: BankFeeFilters): Promise<BankFeeReport> {
+  const params = new URLSearchParams({ tenantId });
+  if (filters.startMonth) params.set('startMonth', filters.startMonth);
+  if (filters.endMonth) params.set('endMonth', filters.endMonth);
+  if (filters.entityId) params.set('entityId', filters.entityId);
+  if (filters.thresholdPct != null) params.set('thresholdPct', String(filters.thresholdPct));
+  if (filters.minIncrease != null) params.set('minIncrease', String(filters.minIncrease));
+  if (filters.rateType) params.set('rateType', filters.rateType);
+
+  const response = await fetch(`/api/bank-fees?${params.toString()}`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to fetch bank fees');
+  }
+
+  return data.report;
+}
+
+async function fetchFeePatterns(
+  tenantId: string
+): Promise<{ patterns: BankFeePattern[]; institutions: FinancialInstitution[] }> {
+  const response = await fetch(`/api/bank-fees/patterns?tenantId=${tenantId}`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to fetch fee patterns');
+  }
+
+  return { patterns: data.patterns, institutions: data.institutions };
+}
+
+/**
+ * Hook to fetch monthly bank fees per bank, entity and fee type
+ */
+export function useBankFeeReport(tenantId: string | undefined, filters: BankFeeFilters = {}) {
+  return useQuery({
+    queryKey: bankFeeKeys.report(tenantId || '', filters),
+    queryFn: () => fetchBankFeeReport(tenantId!, filters),
+    enabled: !!tenantId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * Hook to fetch curated and tenant fee patterns, with the institutions they can target
+ */
+export function useFeePatterns(tenantId: string | undefined) {
+  return useQuery({
+    queryKey: bankFeeKeys.patterns(tenantId || ''),
+    queryFn: () => fetchFeePatterns(tenantId!),
+    enabled: !!tenantId,
+  });
+}
+
+/**
+ * Hook to add a tenant fee pattern
+ */
+export function useCreateFeePattern() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ tenantId, ...input }: CreateBankFeePatternInput & { tenantId: string }) => {
+      const response = await fetch('/api/bank-fees/patterns', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tenantId, ...input }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to add fee pattern');
+      }
+
+      return data.pattern as BankFeePattern;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: bankFeeKeys.tenant(variables.tenantId) });
+      toast.success('Fee pattern added');
+    },
+    onError: (error) => {
+      toast.error('Failed to add fee pattern', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    },
+  });
+}
+
+/**
+ * Hook to delete a tenant fee pattern
+ */
+export function useDeleteFeePattern() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ tenantId, patternId }: { tenantId: string; patternId: string }) => {
+      const response = await fetch(`/api/bank-fees/patterns/${patternId}?tenantId=${tenantId}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to delete fee pattern');
+      }
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: bankFeeKeys.tenant(variables.tenantId) });
+      toast.success('Fee pattern deleted');
+    },
+    onError: (error) => {
+      toast.error('Failed to delete fee pattern', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    },
+  });
+}
+
+/**
+ * Hook to import an account analysis statement
+ */
+export function useImportAnalysisStatement() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (payload: { tenantId: string; accountId: string; lines: ImportStatementLineInput[] }) => {
+      const response = await fetch('/api/bank-fees/statements', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to import analysis statement');
+      }
+
+      return data as { imported: number; months: string[] };
+    },
+    onSuccess: (result, variables) => {
+      queryClient.invalidateQueries({ queryKey: bankFeeKeys.tenant(variables.tenantId) });
+      toast.success(`Imported ${result.imported} statement line(s)`, {
+        description: result.months.join(', '),
+      });
+    },
+    onError: (error) => {
+      toast.error('Failed to import analysis statement', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    },
+  });
+}
+
+/**
+ * Hook to link an account to a financial institution so its bank's own fee patterns apply
+ */
+export function useLinkAccountInstitution() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (payload: { tenantId: string; accountId: string; institutionId: string }) => {
+      const response = await fetch('/api/accounts', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          tenantId: payload.tenantId,
+          accountId: payload.accountId,
+          financial_institution_id: payload.institutionId,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to link account');
+      }
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: bankFeeKeys.tenant(variables.tenantId) });
+      queryClient.invalidateQueries({ queryKey: accountKeys.list(variables.tenantId) });
+      toast.success('Account linked to institution');
+    },
+    onError: (error) => {
+      toast.error('Failed to link account', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    },
+  });
+}
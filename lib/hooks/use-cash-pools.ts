@@ -0,0 +1,207 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import type { CashPool, CashPoolSimulation, CreateCashPoolInput } from '@/lib/types/cash-pool';
+
+export interface CashPoolSimulationRange {
+  startDate?: string;
+  endDate?: string;
+}
+
+/**
+ * Query key factory for cash pools
+ */
+export const cashPoolKeys = {
+  all: ['cash-pools'] as const,
+  lists: () => [...cashPoolKeys.all, 'list'] as const,
+  list: (tenantId: string) => [...cashPoolKeys.lists(), tenantId] as const,
+  details: () => [...cashPoolKeys.all, 'detail'] as const,
+  detail: (tenantId: string, poolId: string) => [...cashPoolKeys.details(), tenantId, poolId] as const,
+  simulation: (tenantId: string, poolId: string, range: CashPoolSimulationRange) =>
+    [...cashPoolKeys.detail(tenantId, poolId), 'simulation', range] as const,
+};
+
+async function fetchCashPools(tenantId: string): Promise<CashPool[]> {
+  const response = await fetch(`/api/cash-pools?tenantId=${tenantId}`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to fetch cash pools');
+  }
+
+  return data.pools;
+}
+
+async function fetchCashPool(tenantId: string, poolId: string): Promise<CashPool> {
+  const response = await fetch(`/api/cash-pools/${poolId}?tenantId=${tenantId}`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to fetch cash pool');
+  }
+
+  return data.pool;
+}
+
+async function fetchSimulation(
+  tenantId: string,
+  poolId: string,
+  range: CashPoolSimulationRange
+): Promise<CashPoolSimulation> {
+  const params = new URLSearchParams({ tenantId });
+  if (range.startDate) params.set('startDate', range.startDate);
+  if (range.endDate) params.set('endDate', range.endDate);
+
+  const response = await fetch(`/api/cash-pools/${poolId}/simulate?${params.toString()}`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to simulate cash pool');
+  }
+
+  return data.simulation;
+}
+
+/**
+ * Hook to fetch the tenant's cash pools
+ */
+export function useCashPools(tenantId: string | undefined) {
+  return useQuery({
+    queryKey: cashPoolKeys.list(tenantId || ''),
+    queryFn: () => fetchCashPools(tenantId!),
+    enabled: !!tenantId,
+  });
+}
+
+/**
+ * Hook to fetch a single cash pool
+ */
+export function useCashPool(tenantId: string | undefined, poolId: string | undefined) {
+  return useQuery({
+    queryKey: cashPoolKeys.detail(tenantId || '', poolId || ''),
+    queryFn: () => fetchCashPool(tenantId!, poolId!),
+    enabled: !!tenantId && !!poolId,
+  });
+}
+
+/**
+ * Hook to replay a pool over historical daily balances
+ */
+export function useCashPoolSimulation(
+  tenantId: string | undefined,
+  poolId: string | undefined,
+  range: CashPoolSimulationRange = {}
+) {
+  return useQuery({
+    queryKey: cashPoolKeys.simulation(tenantId || '', poolId || '', range),
+    queryFn: () => fetchSimulation(tenantId!, poolId!, range),
+    enabled: !!tenantId && !!poolId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * Hook to create a cash pool
+ */
+export function useCreateCashPool() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ tenantId, ...input }: CreateCashPoolInput & { tenantId: string }) => {
+      const response = await fetch('/api/cash-pools', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tenantId, ...input }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to create cash pool');
+      }
+
+      return data.pool as CashPool;
+    },
+    onSuccess: (pool, variables) => {
+      queryClient.invalidateQueries({ queryKey: cashPoolKeys.list(variables.tenantId) });
+      toast.success('Cash pool created', {
+        description: `${pool.name} with ${pool.participants.length} participant account(s)`,
+      });
+    },
+    onError: (error) => {
+      toast.error('Failed to create cash pool', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    },
+  });
+}
+
+/**
+ * Hook to update a cash pool
+ */
+export function useUpdateCashPool() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      tenantId,
+      poolId,
+      updates,
+    }: {
+      tenantId: string;
+      poolId: string;
+      updates: Partial<CreateCashPoolInput>;
+    }) => {
+      const response = await fetch(`/api/cash-pools/${poolId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tenantId, ...updates }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to update cash pool');
+      }
+
+      return data.pool as CashPool;
+    },
+    onSuccess: (pool, variables) => {
+      queryClient.invalidateQueries({ queryKey: cashPoolKeys.list(variables.tenantId) });
+      queryClient.invalidateQueries({ queryKey: cashPoolKeys.detail(variables.tenantId, variables.poolId) });
+      toast.success('Cash pool updated', { description: pool.name });
+    },
+    onError: (error) => {
+      toast.error('Failed to update cash pool', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    },
+  });
+}
+
+/**
+ * Hook to delete a cash pool
+ */
+export function useDeleteCashPool() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ tenantId, poolId }: { tenantId: string; poolId: string }) => {
+      const response = await fetch(`/api/cash-pools/${poolId}?tenantId=${tenantId}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to delete cash pool');
+      }
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: cashPoolKeys.list(variables.tenantId) });
+      queryClient.removeQueries({ queryKey: cashPoolKeys.detail(variables.tenantId, variables.poolId) });
+      toast.success('Cash pool deleted');
+    },
+    onError: (error) => {
+      toast.error('Failed to delete cash pool', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    },
+  });
+}
@@ -1,5 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
+import type { SyncDiff } from '@/lib/types/sync-diff';
 
 /**
  * Query key factory for connections
@@ -155,6 +156,49 @@ export function useSyncConnection() {
   });
 }
 
+/**
+ * Hook to preview a sync: fetches and normalizes like a sync, returning what
+ * would change without saving it
+ */
+export function usePreviewSync() {
+  return useMutation({
+    mutationFn: async ({
+      provider,
+      connectionId,
+      tenantId,
+    }: {
+      provider: string;
+      connectionId: string;
+      tenantId: string;
+    }): Promise<SyncDiff> => {
+      const response = await fetch(`/api/banking/${provider}/sync`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          connectionId,
+          tenantId,
+          syncAccounts: true,
+          syncTransactions: true,
+          dryRun: true,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success || !data.diff) {
+        throw new Error(data.error || data.message || 'Sync preview failed');
+      }
+
+      return data.diff;
+    },
+    onError: (error) => {
+      toast.error('Sync preview failed', {
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+      });
+    },
+  });
+}
+
 /**
  * Hook to delete a connection
  */
@@ -0,0 +1,309 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import type {
+  Covenant,
+  CovenantEvaluationRun,
+  CovenantInputKey,
+  CovenantInputValue,
+  CovenantTest,
+  CovenantWithLatestTest,
+  CreateCovenantInput,
+} from '@/lib/types/facility';
+
+export type CovenantAlert = CovenantTest & { covenant_name: string; facility_name: string };
+
+/**
+ * Query key factory for covenants
+ */
+export const covenantKeys = {
+  all: ['covenants'] as const,
+  tenant: (tenantId: string) => [...covenantKeys.all, tenantId] as const,
+  list: (tenantId: string, facilityId?: string) => [...covenantKeys.tenant(tenantId), 'list', facilityId || ''] as const,
+  inputs: (tenantId: string, periodEnd: string) => [...covenantKeys.tenant(tenantId), 'inputs', periodEnd] as const,
+  alerts: (tenantId: string) => [...covenantKeys.tenant(tenantId), 'alerts'] as const,
+};
+
+async function fetchCovenants(tenantId: string, facilityId?: string): Promise<CovenantWithLatestTest[]> {
+  const params = new URLSearchParams({ tenantId });
+  if (facilityId) params.set('facilityId', facilityId);
+
+  const response = await fetch(`/api/covenants?${params.toString()}`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to fetch covenants');
+  }
+
+  return data.covenants;
+}
+
+async function fetchCovenantInputs(tenantId: string, periodEnd: string): Promise<CovenantInputValue[]> {
+  const response = await fetch(`/api/covenants/inputs?tenantId=${tenantId}&periodEnd=${periodEnd}`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to fetch covenant figures');
+  }
+
+  return data.inputs;
+}
+
+async function fetchCovenantAlerts(tenantId: string): Promise<CovenantAlert[]> {
+  const response = await fetch(`/api/covenants/alerts?tenantId=${tenantId}`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to fetch covenant alerts');
+  }
+
+  return data.alerts;
+}
+
+/**
+ * Hook to fetch covenants with their latest test
+ */
+export function useCovenants(tenantId: string | undefined, facilityId?: string) {
+  return useQuery({
+    queryKey: covenantKeys.list(tenantId || '', facilityId),
+    queryFn: () => fetchCovenants(tenantId!, facilityId),
+    enabled: !!tenantId,
+  });
+}
+
+/**
+ * Hook to fetch the manual figures entered for a period end
+ */
+export function useCovenantInputs(tenantId: string | undefined, periodEnd: string) {
+  return useQuery({
+    queryKey: covenantKeys.inputs(tenantId || '', periodEnd),
+    queryFn: () => fetchCovenantInputs(tenantId!, periodEnd),
+    enabled: !!tenantId && !!periodEnd,
+  });
+}
+
+/**
+ * Hook to fetch unacknowledged breaches and near breaches
+ */
+export function useCovenantAlerts(tenantId: string | undefined) {
+  return useQuery({
+    queryKey: covenantKeys.alerts(tenantId || ''),
+    queryFn: () => fetchCovenantAlerts(tenantId!),
+    enabled: !!tenantId,
+  });
+}
+
+/**
+ * Hook to create a covenant
+ */
+export function useCreateCovenant() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ tenantId, ...input }: CreateCovenantInput & { tenantId: string }) => {
+      const response = await fetch('/api/covenants', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tenantId, ...input }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to create covenant');
+      }
+
+      return data.covenant as Covenant;
+    },
+    onSuccess: (covenant, variables) => {
+      queryClient.invalidateQueries({ queryKey: covenantKeys.tenant(variables.tenantId) });
+      toast.success('Covenant created', { description: covenant.name });
+    },
+    onError: (error) => {
+      toast.error('Failed to create covenant', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    },
+  });
+}
+
+/**
+ * Hook to update a covenant
+ */
+export function useUpdateCovenant() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      tenantId,
+      covenantId,
+      updates,
+    }: {
+      tenantId: string;
+      covenantId: string;
+      updates: Partial<CreateCovenantInput>;
+    }) => {
+      const response = await fetch(`/api/covenants/${covenantId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tenantId, ...updates }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to update covenant');
+      }
+
+      return data.covenant as Covenant;
+    },
+    onSuccess: (covenant, variables) => {
+      queryClient.invalidateQueries({ queryKey: covenantKeys.tenant(variables.tenantId) });
+      toast.success('Covenant updated', { description: covenant.name });
+    },
+    onError: (error) => {
+      toast.error('Failed to update covenant', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    },
+  });
+}
+
+/**
+ * Hook to delete a covenant
+ */
+export function useDeleteCovenant() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ tenantId, covenantId }: { tenantId: string; covenantId: string }) => {
+      const response = await fetch(`/api/covenants/${covenantId}?tenantId=${tenantId}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to delete covenant');
+      }
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: covenantKeys.tenant(variables.tenantId) });
+      toast.success('Covenant deleted');
+    },
+    onError: (error) => {
+      toast.error('Failed to delete covenant', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    },
+  });
+}
+
+/**
+ * Hook to save a period's manual figures; null values remove them
+ */
+export function useSaveCovenantInputs() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      tenantId,
+      periodEnd,
+      inputs,
+    }: {
+      tenantId: string;
+      periodEnd: string;
+      inputs: Array<{ entity_id: string; input_key: CovenantInputKey; value: number | null; currency: string }>;
+    }) => {
+      const response = await fetch('/api/covenants/inputs', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tenantId, periodEnd, inputs }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to save covenant figures');
+      }
+
+      return data.inputs as CovenantInputValue[];
+    },
+    onSuccess: (inputs, variables) => {
+      queryClient.setQueryData(covenantKeys.inputs(variables.tenantId, variables.periodEnd), inputs);
+      toast.success('Covenant figures saved');
+    },
+    onError: (error) => {
+      toast.error('Failed to save covenant figures', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    },
+  });
+}
+
+/**
+ * Hook to test every active covenant at a month end
+ */
+export function useEvaluateCovenants() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ tenantId, periodEnd }: { tenantId: string; periodEnd: string }) => {
+      const response = await fetch('/api/covenants/evaluate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tenantId, periodEnd }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to test covenants');
+      }
+
+      return data.run as CovenantEvaluationRun;
+    },
+    onSuccess: (run, variables) => {
+      queryClient.invalidateQueries({ queryKey: covenantKeys.tenant(variables.tenantId) });
+      const breaches = run.tests.filter((test) => test.status === 'breach').length;
+      if (breaches > 0) {
+        toast.error(`${breaches} covenant breach(es) at ${run.period_end}`);
+      } else {
+        toast.success('Covenants tested', { description: `${run.tests.length} covenant(s) at ${run.period_end}` });
+      }
+    },
+    onError: (error) => {
+      toast.error('Failed to test covenants', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    },
+  });
+}
+
+/**
+ * Hook to acknowledge a covenant alert
+ */
+export function useAcknowledgeCovenantAlert() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ tenantId, testId }: { tenantId: string; testId: string }) => {
+      const response = await fetch(`/api/covenants/alerts/${testId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tenantId }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to acknowledge alert');
+      }
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: covenantKeys.tenant(variables.tenantId) });
+      toast.success('Alert acknowledged');
+    },
+    onError: (error) => {
+      toast.error('Failed to acknowledge alert', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    },
+  });
+}
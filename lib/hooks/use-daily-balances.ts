@@ -0,0 +1,90 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import type { RateType } from '@/lib/currency';
+import type { CashSeriesGrouping, ConsolidatedCashReport } from '@/lib/types/balances';
+import { statementKeys } from './use-statements';
+
+export interface DailyCashFilters {
+  startDate?: string;
+  endDate?: string;
+  groupBy?: CashSeriesGrouping;
+  rateType?: RateType;
+}
+
+/**
+ * Query key factory for daily balances
+ */
+export const dailyBalanceKeys = {
+  all: ['daily-balances'] as const,
+  tenant: (tenantId: string) => [...dailyBalanceKeys.all, tenantId] as const,
+  cash: (tenantId: string, filters: DailyCashFilters) => [...dailyBalanceKeys.tenant(tenantId), filters] as const,
+};
+
+async function fetchDailyCash(tenantId: string, filters: DailyCashFilters): Promise<ConsolidatedCashReport> {
+  const params = new URLSearchParams({ tenantId });
+  if (filters.startDate) params.set('startDate', filters.startDate);
+  if (filters.endDate) params.set('endDate', filters.endDate);
+  if (filters.groupBy) params.set('groupBy', filters.groupBy);
+  if (filters.rateType) params.set('rateType', filters.rateType);
+
+  const response = await fetch(`/api/balances/daily?${params.toString()}`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to fetch daily cash');
+  }
+
+  return data.cash;
+}
+
+/**
+ * Hook to fetch consolidated daily cash by entity, currency or bank
+ */
+export function useDailyCash(tenantId: string | undefined, filters: DailyCashFilters = {}) {
+  return useQuery({
+    queryKey: dailyBalanceKeys.cash(tenantId || '', filters),
+    queryFn: () => fetchDailyCash(tenantId!, filters),
+    enabled: !!tenantId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * Hook to save reconstructed balances to account statements
+ */
+export function useReconstructBalances() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (payload: { tenantId: string; startDate?: string; endDate?: string }) => {
+      const response = await fetch('/api/balances/reconstruct', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to reconstruct balances');
+      }
+
+      return data as { accounts: number; saved: number; discrepancies: number };
+    },
+    onSuccess: (result, variables) => {
+      queryClient.invalidateQueries({ queryKey: dailyBalanceKeys.tenant(variables.tenantId) });
+      queryClient.invalidateQueries({ queryKey: statementKeys.lists() });
+      toast.success(`Saved ${result.saved} calculated balance(s)`, {
+        description:
+          result.discrepancies > 0
+            ? `${result.discrepancies} reported balance(s) disagree with transactions`
+            : `Across ${result.accounts} account(s)`,
+      });
+    },
+    onError: (error) => {
+      toast.error('Failed to reconstruct balances', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    },
+  });
+}
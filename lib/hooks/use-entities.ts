@@ -1,6 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import type { Entity, CreateEntityInput, UpdateEntityInput } from '@/lib/types/entity';
 import { toast } from 'sonner';
+import { reportingCurrencyKeys } from './use-reporting-currency';
 
 /**
  * Query key factory for entities
@@ -122,6 +123,8 @@ export function useUpdateEntity() {
       // Invalidate both list and detail queries
       queryClient.invalidateQueries({ queryKey: entityKeys.list(variables.tenantId) });
       queryClient.invalidateQueries({ queryKey: entityKeys.detail(variables.tenantId, variables.entityId) });
+      // Entity totals follow its reporting currency
+      queryClient.invalidateQueries({ queryKey: reportingCurrencyKeys.tenant(variables.tenantId) });
       toast.success('Entity updated successfully');
     },
     onError: (error) => {
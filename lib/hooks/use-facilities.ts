@@ -0,0 +1,215 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import type { CreateFacilityInput, FacilityWithPosition, RepaymentInput } from '@/lib/types/facility';
+
+export interface FacilityFilters {
+  entityId?: string;
+  includeInactive?: boolean;
+}
+
+/**
+ * Query key factory for facilities
+ */
+export const facilityKeys = {
+  all: ['facilities'] as const,
+  lists: () => [...facilityKeys.all, 'list'] as const,
+  list: (tenantId: string, filters: FacilityFilters = {}) => [...facilityKeys.lists(), tenantId, filters] as const,
+  details: () => [...facilityKeys.all, 'detail'] as const,
+  detail: (tenantId: string, facilityId: string) => [...facilityKeys.details(), tenantId, facilityId] as const,
+};
+
+async function fetchFacilities(tenantId: string, filters: FacilityFilters): Promise<FacilityWithPosition[]> {
+  const params = new URLSearchParams({ tenantId });
+  if (filters.entityId) params.set('entityId', filters.entityId);
+  if (filters.includeInactive) params.set('includeInactive', 'true');
+
+  const response = await fetch(`/api/facilities?${params.toString()}`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to fetch facilities');
+  }
+
+  return data.facilities;
+}
+
+async function fetchFacility(tenantId: string, facilityId: string): Promise<FacilityWithPosition> {
+  const response = await fetch(`/api/facilities/${facilityId}?tenantId=${tenantId}`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to fetch facility');
+  }
+
+  return data.facility;
+}
+
+/**
+ * Hook to fetch the facility register with drawn and undrawn positions
+ */
+export function useFacilities(tenantId: string | undefined, filters: FacilityFilters = {}) {
+  return useQuery({
+    queryKey: facilityKeys.list(tenantId || '', filters),
+    queryFn: () => fetchFacilities(tenantId!, filters),
+    enabled: !!tenantId,
+  });
+}
+
+/**
+ * Hook to fetch a single facility
+ */
+export function useFacility(tenantId: string | undefined, facilityId: string | undefined) {
+  return useQuery({
+    queryKey: facilityKeys.detail(tenantId || '', facilityId || ''),
+    queryFn: () => fetchFacility(tenantId!, facilityId!),
+    enabled: !!tenantId && !!facilityId,
+  });
+}
+
+/**
+ * Hook to create a facility
+ */
+export function useCreateFacility() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ tenantId, ...input }: CreateFacilityInput & { tenantId: string }) => {
+      const response = await fetch('/api/facilities', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tenantId, ...input }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to create facility');
+      }
+
+      return data.facility as FacilityWithPosition;
+    },
+    onSuccess: (facility) => {
+      queryClient.invalidateQueries({ queryKey: facilityKeys.lists() });
+      toast.success('Facility created', { description: `${facility.name} with ${facility.lender}` });
+    },
+    onError: (error) => {
+      toast.error('Failed to create facility', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    },
+  });
+}
+
+/**
+ * Hook to update a facility
+ */
+export function useUpdateFacility() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      tenantId,
+      facilityId,
+      updates,
+    }: {
+      tenantId: string;
+      facilityId: string;
+      updates: Partial<CreateFacilityInput>;
+    }) => {
+      const response = await fetch(`/api/facilities/${facilityId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tenantId, ...updates }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to update facility');
+      }
+
+      return data.facility as FacilityWithPosition;
+    },
+    onSuccess: (facility, variables) => {
+      queryClient.invalidateQueries({ queryKey: facilityKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: facilityKeys.detail(variables.tenantId, variables.facilityId) });
+      toast.success('Facility updated', { description: facility.name });
+    },
+    onError: (error) => {
+      toast.error('Failed to update facility', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    },
+  });
+}
+
+/**
+ * Hook to delete a facility
+ */
+export function useDeleteFacility() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ tenantId, facilityId }: { tenantId: string; facilityId: string }) => {
+      const response = await fetch(`/api/facilities/${facilityId}?tenantId=${tenantId}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to delete facility');
+      }
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: facilityKeys.lists() });
+      queryClient.removeQueries({ queryKey: facilityKeys.detail(variables.tenantId, variables.facilityId) });
+      toast.success('Facility deleted');
+    },
+    onError: (error) => {
+      toast.error('Failed to delete facility', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    },
+  });
+}
+
+/**
+ * Hook to replace a facility's repayment schedule
+ */
+export function useReplaceRepayments() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      tenantId,
+      facilityId,
+      repayments,
+    }: {
+      tenantId: string;
+      facilityId: string;
+      repayments: RepaymentInput[];
+    }) => {
+      const response = await fetch(`/api/facilities/${facilityId}/repayments`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tenantId, repayments }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to save repayment schedule');
+      }
+
+      return data.facility as FacilityWithPosition;
+    },
+    onSuccess: (facility, variables) => {
+      queryClient.invalidateQueries({ queryKey: facilityKeys.lists() });
+      queryClient.setQueryData(facilityKeys.detail(variables.tenantId, variables.facilityId), facility);
+      toast.success('Repayment schedule saved', { description: `${facility.repayments.length} repayment(s)` });
+    },
+    onError: (error) => {
+      toast.error('Failed to save repayment schedule', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    },
+  });
+}
@@ -0,0 +1,46 @@
+import { useQuery } from '@tanstack/react-query';
+import type { FxExposureReport } from '@/lib/types/fx';
+
+export interface FxExposureFilters {
+  asOf?: string;
+  horizonDays?: number;
+  entityId?: string;
+  reportingCurrency?: string;
+}
+
+/**
+ * Query key factory for FX exposure
+ */
+export const fxExposureKeys = {
+  all: ['fx-exposure'] as const,
+  report: (tenantId: string, filters: FxExposureFilters) => [...fxExposureKeys.all, tenantId, filters] as const,
+};
+
+async function fetchFxExposure(tenantId: string, filters: FxExposureFilters): Promise<FxExposureReport> {
+  const params = new URLSearchParams({ tenantId });
+  if (filters.asOf) params.set('asOf', filters.asOf);
+  if (filters.horizonDays !== undefined) params.set('horizonDays', String(filters.horizonDays));
+  if (filters.entityId) params.set('entityId', filters.entityId);
+  if (filters.reportingCurrency) params.set('reportingCurrency', filters.reportingCurrency);
+
+  const response = await fetch(`/api/rates/exposure?${params.toString()}`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to fetch FX exposure');
+  }
+
+  return data.exposure;
+}
+
+/**
+ * Hook to fetch positions, translation and sensitivity per entity and currency
+ */
+export function useFxExposure(tenantId: string | undefined, filters: FxExposureFilters = {}) {
+  return useQuery({
+    queryKey: fxExposureKeys.report(tenantId || '', filters),
+    queryFn: () => fetchFxExposure(tenantId!, filters),
+    enabled: !!tenantId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
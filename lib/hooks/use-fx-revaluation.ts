@@ -0,0 +1,46 @@
+import { useQuery } from '@tanstack/react-query';
+import type { FxRevaluationReport } from '@/lib/types/fx';
+
+export interface FxRevaluationFilters {
+  periodEnd?: string;
+  entityId?: string;
+  realizedGlCode?: string;
+  unrealizedGlCode?: string;
+}
+
+/**
+ * Query key factory for FX revaluation
+ */
+export const fxRevaluationKeys = {
+  all: ['fx-revaluation'] as const,
+  report: (tenantId: string, filters: FxRevaluationFilters) => [...fxRevaluationKeys.all, tenantId, filters] as const,
+};
+
+async function fetchFxRevaluation(tenantId: string, filters: FxRevaluationFilters): Promise<FxRevaluationReport> {
+  const params = new URLSearchParams({ tenantId });
+  if (filters.periodEnd) params.set('periodEnd', filters.periodEnd);
+  if (filters.entityId) params.set('entityId', filters.entityId);
+  if (filters.realizedGlCode) params.set('realizedGlCode', filters.realizedGlCode);
+  if (filters.unrealizedGlCode) params.set('unrealizedGlCode', filters.unrealizedGlCode);
+
+  const response = await fetch(`/api/rates/revaluation?${params.toString()}`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to fetch FX revaluation');
+  }
+
+  return data.revaluation;
+}
+
+/**
+ * Hook to fetch the period-end revaluation, entity totals and journal rows
+ */
+export function useFxRevaluation(tenantId: string | undefined, filters: FxRevaluationFilters = {}) {
+  return useQuery({
+    queryKey: fxRevaluationKeys.report(tenantId || '', filters),
+    queryFn: () => fetchFxRevaluation(tenantId!, filters),
+    enabled: !!tenantId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
@@ -0,0 +1,92 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import type { InterestReport, UpdateInterestTermsInput } from '@/lib/types/interest';
+import { accountKeys } from './use-accounts';
+
+export interface InterestFilters {
+  startDate?: string;
+  endDate?: string;
+  entityId?: string;
+  tolerancePct?: number;
+}
+
+/**
+ * Query key factory for interest
+ */
+export const interestKeys = {
+  all: ['interest'] as const,
+  tenant: (tenantId: string) => [...interestKeys.all, tenantId] as const,
+  report: (tenantId: string, filters: InterestFilters) => [...interestKeys.tenant(tenantId), filters] as const,
+};
+
+async function fetchInterestReport(tenantId: string, filters: InterestFilters): Promise<InterestReport> {
+  const params = new URLSearchParams({ tenantId });
+  if (filters.startDate) params.set('startDate', filters.startDate);
+  if (filters.endDate) params.set('endDate', filters.endDate);
+  if (filters.entityId) params.set('entityId', filters.entityId);
+  if (filters.tolerancePct != null) params.set('tolerancePct', String(filters.tolerancePct));
+
+  const response = await fetch(`/api/interest?${params.toString()}`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to fetch interest report');
+  }
+
+  return data.report;
+}
+
+/**
+ * Hook to fetch expected vs posted interest, yield and cost of funds
+ */
+export function useInterestReport(tenantId: string | undefined, filters: InterestFilters = {}) {
+  return useQuery({
+    queryKey: interestKeys.report(tenantId || '', filters),
+    queryFn: () => fetchInterestReport(tenantId!, filters),
+    enabled: !!tenantId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * Hook to set an account's interest rate, day count and limits
+ */
+export function useUpdateInterestTerms() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      tenantId,
+      accountId,
+      terms,
+    }: {
+      tenantId: string;
+      accountId: string; // accounts.id
+      terms: UpdateInterestTermsInput;
+    }) => {
+      const response = await fetch(`/api/interest/accounts/${accountId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tenantId, ...terms }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to update interest terms');
+      }
+
+      return data.account as { account_name: string };
+    },
+    onSuccess: (account, variables) => {
+      queryClient.invalidateQueries({ queryKey: interestKeys.tenant(variables.tenantId) });
+      queryClient.invalidateQueries({ queryKey: accountKeys.list(variables.tenantId) });
+      toast.success('Interest terms updated', { description: account.account_name });
+    },
+    onError: (error) => {
+      toast.error('Failed to update interest terms', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    },
+  });
+}
@@ -0,0 +1,245 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import type { RateType } from '@/lib/currency';
+import type {
+  HoldingImportResult,
+  HoldingInput,
+  InvestmentHolding,
+  InvestmentPortfolio,
+  PlaidHoldingsSyncResult,
+} from '@/lib/types/investment';
+import { dailyBalanceKeys } from './use-daily-balances';
+
+export interface InvestmentFilters {
+  asOf?: string;
+  entityId?: string;
+  rateType?: RateType;
+}
+
+/**
+ * Query key factory for investment holdings
+ */
+export const investmentKeys = {
+  all: ['investments'] as const,
+  portfolios: () => [...investmentKeys.all, 'portfolio'] as const,
+  portfolio: (tenantId: string, filters: InvestmentFilters = {}) =>
+    [...investmentKeys.portfolios(), tenantId, filters] as const,
+};
+
+async function fetchPortfolio(tenantId: string, filters: InvestmentFilters): Promise<InvestmentPortfolio> {
+  const params = new URLSearchParams({ tenantId });
+  if (filters.asOf) params.set('asOf', filters.asOf);
+  if (filters.entityId) params.set('entityId', filters.entityId);
+  if (filters.rateType) params.set('rateType', filters.rateType);
+
+  const response = await fetch(`/api/investments?${params.toString()}`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to fetch investments');
+  }
+
+  return data.portfolio;
+}
+
+// Holdings feed the liquidity breakdown of the consolidated cash position
+function invalidateHoldings(queryClient: ReturnType<typeof useQueryClient>) {
+  queryClient.invalidateQueries({ queryKey: investmentKeys.portfolios() });
+  queryClient.invalidateQueries({ queryKey: dailyBalanceKeys.all });
+}
+
+/**
+ * Hook to fetch holdings with their maturity ladder and liquidity buckets
+ */
+export function useInvestmentPortfolio(tenantId: string | undefined, filters: InvestmentFilters = {}) {
+  return useQuery({
+    queryKey: investmentKeys.portfolio(tenantId || '', filters),
+    queryFn: () => fetchPortfolio(tenantId!, filters),
+    enabled: !!tenantId,
+  });
+}
+
+/**
+ * Hook to add a holding by hand
+ */
+export function useCreateHolding() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ tenantId, ...input }: HoldingInput & { tenantId: string }) => {
+      const response = await fetch('/api/investments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tenantId, ...input }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to add holding');
+      }
+
+      return data.holding as InvestmentHolding;
+    },
+    onSuccess: (holding) => {
+      invalidateHoldings(queryClient);
+      toast.success('Holding added', { description: holding.instrument_name });
+    },
+    onError: (error) => {
+      toast.error('Failed to add holding', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    },
+  });
+}
+
+/**
+ * Hook to update a holding
+ */
+export function useUpdateHolding() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      tenantId,
+      holdingId,
+      updates,
+    }: {
+      tenantId: string;
+      holdingId: string;
+      updates: Partial<HoldingInput>;
+    }) => {
+      const response = await fetch(`/api/investments/${holdingId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tenantId, ...updates }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to update holding');
+      }
+
+      return data.holding as InvestmentHolding;
+    },
+    onSuccess: (holding) => {
+      invalidateHoldings(queryClient);
+      toast.success('Holding updated', { description: holding.instrument_name });
+    },
+    onError: (error) => {
+      toast.error('Failed to update holding', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    },
+  });
+}
+
+/**
+ * Hook to delete a holding
+ */
+export function useDeleteHolding() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ tenantId, holdingId }: { tenantId: string; holdingId: string }) => {
+      const response = await fetch(`/api/investments/${holdingId}?tenantId=${tenantId}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to delete holding');
+      }
+    },
+    onSuccess: () => {
+      invalidateHoldings(queryClient);
+      toast.success('Holding deleted');
+    },
+    onError: (error) => {
+      toast.error('Failed to delete holding', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    },
+  });
+}
+
+/**
+ * Hook to import holdings from a CSV file
+ */
+export function useImportHoldings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ tenantId, file, accountId }: { tenantId: string; file: File; accountId?: string }) => {
+      const formData = new FormData();
+      formData.set('tenantId', tenantId);
+      formData.set('file', file);
+      if (accountId) formData.set('accountId', accountId);
+
+      const response = await fetch('/api/investments/import', { method: 'POST', body: formData });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to import holdings');
+      }
+
+      return data as HoldingImportResult;
+    },
+    onSuccess: (result) => {
+      invalidateHoldings(queryClient);
+      if (result.errors.length > 0) {
+        toast.warning(`Imported ${result.imported} holding(s)`, {
+          description: `${result.errors.length} row(s) skipped: ${result.errors.slice(0, 3).join('; ')}`,
+        });
+      } else {
+        toast.success(`Imported ${result.imported} holding(s)`);
+      }
+    },
+    onError: (error) => {
+      toast.error('Failed to import holdings', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    },
+  });
+}
+
+/**
+ * Hook to refresh holdings from Plaid investment accounts
+ */
+export function useSyncPlaidHoldings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ tenantId, connectionId }: { tenantId: string; connectionId?: string }) => {
+      const response = await fetch('/api/investments/sync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tenantId, connectionId }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to refresh holdings');
+      }
+
+      return data as PlaidHoldingsSyncResult;
+    },
+    onSuccess: (result) => {
+      invalidateHoldings(queryClient);
+      if (result.connections === 0 && result.errors.length === 0) {
+        toast.info('No Plaid investment accounts to refresh');
+      } else if (result.errors.length > 0) {
+        toast.warning(`Refreshed ${result.holdings} holding(s)`, { description: result.errors[0] });
+      } else {
+        toast.success(`Refreshed ${result.holdings} holding(s)`, {
+          description: result.closed > 0 ? `${result.closed} no longer held` : undefined,
+        });
+      }
+    },
+    onError: (error) => {
+      toast.error('Failed to refresh holdings', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    },
+  });
+}
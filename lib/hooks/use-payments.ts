@@ -0,0 +1,188 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type {
+  CreatePaymentFileInput,
+  CreatePaymentInput,
+  Payment,
+  PaymentAction,
+  PaymentFile,
+} from '@/lib/types/payment';
+import { toast } from 'sonner';
+
+/**
+ * Query key factory for payments
+ */
+export const paymentKeys = {
+  all: ['payments'] as const,
+  lists: () => [...paymentKeys.all, 'list'] as const,
+  list: (tenantId: string) => [...paymentKeys.lists(), tenantId] as const,
+  details: () => [...paymentKeys.all, 'detail'] as const,
+  detail: (tenantId: string, paymentId: string) => [...paymentKeys.details(), tenantId, paymentId] as const,
+  files: (tenantId: string) => [...paymentKeys.all, 'files', tenantId] as const,
+};
+
+/**
+ * Fetch payments for a tenant
+ */
+async function fetchPayments(tenantId: string): Promise<Payment[]> {
+  const response = await fetch(`/api/payments?tenantId=${tenantId}`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to fetch payments');
+  }
+
+  return data.payments || [];
+}
+
+/**
+ * Hook to fetch the payment queue
+ */
+export function usePayments(tenantId: string | undefined) {
+  return useQuery({
+    queryKey: paymentKeys.list(tenantId || ''),
+    queryFn: () => fetchPayments(tenantId!),
+    enabled: !!tenantId,
+    staleTime: 30 * 1000, // Approvals move quickly - keep the queue fresh
+  });
+}
+
+/**
+ * Hook to create a payment
+ */
+export function useCreatePayment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: CreatePaymentInput) => {
+      const response = await fetch('/api/payments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...input, tenantId: input.tenant_id }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to create payment');
+      }
+
+      return data.payment as Payment;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: paymentKeys.list(variables.tenant_id) });
+      toast.success(variables.submit ? 'Payment submitted for approval' : 'Payment saved as draft');
+    },
+    onError: (error) => {
+      toast.error('Failed to create payment', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    },
+  });
+}
+
+/**
+ * Hook to run a workflow action (submit, approve, reject, cancel, ...)
+ */
+export function usePaymentAction() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      tenantId,
+      paymentId,
+      action,
+      comment,
+    }: {
+      tenantId: string;
+      paymentId: string;
+      action: PaymentAction;
+      comment?: string;
+    }) => {
+      const response = await fetch(`/api/payments/${paymentId}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tenantId, comment }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || `Failed to ${action} payment`);
+      }
+
+      return data.payment as Payment;
+    },
+    onSuccess: (payment, variables) => {
+      queryClient.invalidateQueries({ queryKey: paymentKeys.list(variables.tenantId) });
+      queryClient.invalidateQueries({ queryKey: paymentKeys.detail(variables.tenantId, variables.paymentId) });
+      toast.success(`Payment ${payment?.status?.toLowerCase() || 'updated'}`);
+    },
+    onError: (error, variables) => {
+      toast.error(`Failed to ${variables.action} payment`, {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    },
+  });
+}
+
+/**
+ * Fetch generated payment files for a tenant
+ */
+async function fetchPaymentFiles(tenantId: string): Promise<PaymentFile[]> {
+  const response = await fetch(`/api/payments/files?tenantId=${tenantId}`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to fetch payment files');
+  }
+
+  return data.files || [];
+}
+
+/**
+ * Hook to fetch generated payment files
+ */
+export function usePaymentFiles(tenantId: string | undefined, enabled = true) {
+  return useQuery({
+    queryKey: paymentKeys.files(tenantId || ''),
+    queryFn: () => fetchPaymentFiles(tenantId!),
+    enabled: !!tenantId && enabled,
+  });
+}
+
+/**
+ * Hook to export approved payments as a pain.001 or NACHA file
+ */
+export function useGeneratePaymentFile() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: CreatePaymentFileInput) => {
+      const response = await fetch('/api/payments/files', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to generate payment file');
+      }
+
+      return data.file as PaymentFile;
+    },
+    onSuccess: (file, variables) => {
+      queryClient.invalidateQueries({ queryKey: paymentKeys.list(variables.tenantId) });
+      queryClient.invalidateQueries({ queryKey: paymentKeys.files(variables.tenantId) });
+      toast.success(`Generated ${file.file_name}`, {
+        description: `${file.payment_count} payment(s), control sum ${Number(file.control_sum).toFixed(2)}`,
+      });
+    },
+    onError: (error) => {
+      toast.error('Failed to generate payment file', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    },
+  });
+}
@@ -0,0 +1,153 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { AccountReconciliation, CreateReconciliationMatchInput } from '@/lib/types/reconciliation';
+import { toast } from 'sonner';
+
+/**
+ * Query key factory for reconciliation
+ */
+export const reconciliationKeys = {
+  all: ['reconciliation'] as const,
+  accounts: () => [...reconciliationKeys.all, 'account'] as const,
+  account: (tenantId: string, accountId: string) => [...reconciliationKeys.accounts(), tenantId, accountId] as const,
+  period: (tenantId: string, accountId: string, startDate: string, endDate: string) =>
+    [...reconciliationKeys.account(tenantId, accountId), startDate, endDate] as const,
+};
+
+/**
+ * Fetch the reconciliation workspace for an account and period
+ */
+async function fetchReconciliation(
+  tenantId: string,
+  accountId: string,
+  startDate: string,
+  endDate: string
+): Promise<AccountReconciliation> {
+  const params = new URLSearchParams({ tenantId, startDate, endDate });
+  const response = await fetch(`/api/accounts/${accountId}/reconciliation?${params.toString()}`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to fetch reconciliation');
+  }
+
+  return data.reconciliation;
+}
+
+/**
+ * Hook to fetch matches, unmatched items and suggestions for an account
+ */
+export function useAccountReconciliation(
+  tenantId: string | undefined,
+  accountId: string | undefined,
+  period: { startDate: string; endDate: string }
+) {
+  return useQuery({
+    queryKey: reconciliationKeys.period(tenantId || '', accountId || '', period.startDate, period.endDate),
+    queryFn: () => fetchReconciliation(tenantId!, accountId!, period.startDate, period.endDate),
+    enabled: !!tenantId && !!accountId,
+    staleTime: 60 * 1000,
+  });
+}
+
+/**
+ * Hook to run the matching engine and persist high-confidence matches
+ */
+export function useAutoMatch() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: { tenantId: string; accountId: string; startDate: string; endDate: string }) => {
+      const response = await fetch(`/api/accounts/${input.accountId}/reconciliation`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...input, action: 'auto' }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to run auto-match');
+      }
+
+      return data as { matched: number; suggestions: number };
+    },
+    onSuccess: (result, variables) => {
+      queryClient.invalidateQueries({ queryKey: reconciliationKeys.account(variables.tenantId, variables.accountId) });
+      toast.success(`Matched ${result.matched} transaction${result.matched === 1 ? '' : 's'}`, {
+        description: result.suggestions > 0 ? `${result.suggestions} suggestion(s) need review` : undefined,
+      });
+    },
+    onError: (error) => {
+      toast.error('Auto-match failed', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    },
+  });
+}
+
+/**
+ * Hook to match selected bank and ledger transactions
+ */
+export function useCreateMatch() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: CreateReconciliationMatchInput) => {
+      const response = await fetch(`/api/accounts/${input.accountId}/reconciliation`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...input, action: 'match' }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to match transactions');
+      }
+
+      return data.match;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: reconciliationKeys.account(variables.tenantId, variables.accountId) });
+      toast.success('Transactions matched');
+    },
+    onError: (error) => {
+      toast.error('Failed to match transactions', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    },
+  });
+}
+
+/**
+ * Hook to reverse a match
+ */
+export function useUnmatch() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: { tenantId: string; accountId: string; matchId: string }) => {
+      const response = await fetch(
+        `/api/accounts/${input.accountId}/reconciliation/${input.matchId}?tenantId=${input.tenantId}`,
+        { method: 'DELETE' }
+      );
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to unmatch');
+      }
+
+      return data.match;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: reconciliationKeys.account(variables.tenantId, variables.accountId) });
+      toast.success('Match reversed');
+    },
+    onError: (error) => {
+      toast.error('Failed to unmatch', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    },
+  });
+}
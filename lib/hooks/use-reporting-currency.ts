@@ -0,0 +1,75 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import type { RateType } from '@/lib/currency';
+import type { ReportingBalances, ReportingPreferences } from '@/lib/types/fx';
+
+/**
+ * Query key factory for reporting currency
+ */
+export const reportingCurrencyKeys = {
+  all: ['reporting-currency'] as const,
+  tenant: (tenantId: string) => [...reportingCurrencyKeys.all, tenantId] as const,
+  balances: (tenantId: string, rateType: RateType) => [...reportingCurrencyKeys.tenant(tenantId), rateType] as const,
+};
+
+async function fetchReportingCurrency(
+  tenantId: string,
+  rateType: RateType
+): Promise<{ preferences: ReportingPreferences; balances: ReportingBalances }> {
+  const params = new URLSearchParams({ tenantId, rateType });
+  const response = await fetch(`/api/reporting-currency?${params.toString()}`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to fetch reporting currency');
+  }
+
+  return { preferences: data.preferences, balances: data.balances };
+}
+
+/**
+ * Hook to fetch the viewer's reporting currency and balances converted into it,
+ * with per-entity totals in each entity's own reporting currency
+ */
+export function useReportingBalances(tenantId: string | undefined, rateType: RateType = 'SPOT') {
+  return useQuery({
+    queryKey: reportingCurrencyKeys.balances(tenantId || '', rateType),
+    queryFn: () => fetchReportingCurrency(tenantId!, rateType),
+    enabled: !!tenantId,
+    staleTime: 60 * 1000,
+  });
+}
+
+/**
+ * Hook to set or clear (null) the current user's reporting currency override
+ */
+export function useUpdateReportingCurrency() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ tenantId, reportingCurrency }: { tenantId: string; reportingCurrency: string | null }) => {
+      const response = await fetch('/api/reporting-currency', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tenantId, reportingCurrency }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to update reporting currency');
+      }
+
+      return data.preferences as ReportingPreferences;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: reportingCurrencyKeys.tenant(variables.tenantId) });
+      toast.success('Reporting currency updated');
+    },
+    onError: (error) => {
+      toast.error('Failed to update reporting currency', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    },
+  });
+}
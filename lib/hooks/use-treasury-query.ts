@@ -0,0 +1,31 @@
+import { useMutation } from '@tanstack/react-query';
+import type { TreasuryAnswer } from '@/lib/types/treasury-query';
+import { toast } from 'sonner';
+
+/**
+ * Hook to ask a natural-language treasury question
+ */
+export function useAskTreasuryQuestion() {
+  return useMutation({
+    mutationFn: async (input: { tenantId: string; question: string }): Promise<TreasuryAnswer> => {
+      const response = await fetch('/api/ai/ask', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to answer question');
+      }
+
+      return data.answer;
+    },
+    onError: (error) => {
+      toast.error('Could not answer that question', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    },
+  });
+}
@@ -0,0 +1,170 @@
+// Intercompany transfer detection
+// Pairs an outgoing transaction on one entity's account with an incoming one on
+// another entity's account, tolerating booking-date gaps, FX conversion and fees
+
+import { daysBetween, round } from '../utils';
+import type { IntercompanyLeg, IntercompanyPairSuggestion } from '../types/intercompany';
+
+export interface IntercompanyMatchingOptions {
+  dateToleranceDays: number; // Incoming may land this many days after the outgoing
+  sameCurrencyTolerance: number; // Fraction of the amount lost to fees, same currency
+  fxTolerance: number; // Fraction of the converted amount lost to FX spread and fees
+  fixedFeeTolerance: number; // Flat fee allowance in the incoming currency
+  minScore: number;
+}
+
+export const DEFAULT_INTERCOMPANY_OPTIONS: IntercompanyMatchingOptions = {
+  dateToleranceDays: 5,
+  sameCurrencyTolerance: 0.01,
+  fxTolerance: 0.03,
+  fixedFeeTolerance: 50,
+  minScore: 0.6,
+};
+
+// Score at or above which pairs are tagged without review
+export const AUTO_TAG_THRESHOLD = 0.75;
+
+/**
+ * Converts an amount between currencies at the rate for a date; null when no rate is known
+ */
+export type CurrencyConverter = (amount: number, from: string, to: string, date: string) => number | null;
+
+// An exact same-day transfer scores AUTO_TAG_THRESHOLD without any text evidence
+const WEIGHTS = { amount: 0.55, date: 0.2, hint: 0.25 };
+
+// Value dates can precede the booking date of the sending side by a day
+const EARLY_ARRIVAL_DAYS = 1;
+
+const INTERCOMPANY_KEYWORDS = /\b(intercompany|inter-company|intra-group|intragroup|ic transfer|ic loan|cash pool)\b/;
+
+const LEGAL_SUFFIXES = /\b(gmbh|ag|ltd|limited|llc|inc|plc|bv|sa|sas|srl|corp|corporation|co)\b\.?/g;
+
+function legText(leg: IntercompanyLeg): string {
+  return [leg.description, leg.counterparty_name, leg.reference].filter(Boolean).join(' ').toLowerCase();
+}
+
+function nameTokens(name?: string): string | null {
+  const stripped = (name || '').toLowerCase().replace(LEGAL_SUFFIXES, ' ').replace(/\s+/g, ' ').trim();
+  return stripped.length >= 3 ? stripped : null;
+}
+
+/**
+ * Text evidence that the two legs are intercompany: a keyword, or either side
+ * naming the other entity
+ */
+function hintReason(
+  outgoing: IntercompanyLeg,
+  incoming: IntercompanyLeg,
+  entityNames: Record<string, string>
+): string | null {
+  const outText = legText(outgoing);
+  const inText = legText(incoming);
+
+  if (INTERCOMPANY_KEYWORDS.test(outText) || INTERCOMPANY_KEYWORDS.test(inText)) return 'Intercompany keyword';
+
+  const receiver = nameTokens(entityNames[incoming.entity_id]);
+  if (receiver && outText.includes(receiver)) return `Payment names ${entityNames[incoming.entity_id]}`;
+
+  const sender = nameTokens(entityNames[outgoing.entity_id]);
+  if (sender && inText.includes(sender)) return `Receipt names ${entityNames[outgoing.entity_id]}`;
+
+  return null;
+}
+
+/**
+ * Score one outgoing/incoming pair, or null when it cannot be the same transfer
+ */
+export function scoreIntercompanyPair(
+  outgoing: IntercompanyLeg,
+  incoming: IntercompanyLeg,
+  convert: CurrencyConverter,
+  entityNames: Record<string, string> = {},
+  options: IntercompanyMatchingOptions = DEFAULT_INTERCOMPANY_OPTIONS
+): IntercompanyPairSuggestion | null {
+  if (outgoing.amount >= 0 || incoming.amount <= 0) return null;
+  if (outgoing.entity_id === incoming.entity_id) return null;
+
+  const gap = daysBetween(outgoing.date, incoming.date);
+  if (gap < -EARLY_ARRIVAL_DAYS || gap > options.dateToleranceDays) return null;
+
+  const sameCurrency = outgoing.currency === incoming.currency;
+  const sent = Math.abs(outgoing.amount);
+  const expected = sameCurrency ? sent : convert(sent, outgoing.currency, incoming.currency, outgoing.date);
+  if (expected == null || expected <= 0) return null;
+
+  const difference = round(expected - incoming.amount);
+  const tolerance = sameCurrency ? options.sameCurrencyTolerance : options.fxTolerance;
+  const allowed = expected * tolerance + options.fixedFeeTolerance;
+
+  // Fees only ever reduce what arrives in the same currency; FX can go either way
+  if (sameCurrency && difference < -0.01) return null;
+  if (Math.abs(difference) > allowed) return null;
+
+  const reasons: string[] = [];
+  if (Math.abs(difference) < 0.01) {
+    reasons.push(sameCurrency ? 'Exact amount' : 'Amount matches at the reference rate');
+  } else if (sameCurrency) {
+    reasons.push(`Amount within fees (${difference.toFixed(2)} ${incoming.currency} short)`);
+  } else {
+    const percent = ((Math.abs(difference) / expected) * 100).toFixed(1);
+    reasons.push(`${outgoing.currency}→${incoming.currency} within ${percent}% of the reference rate`);
+  }
+  reasons.push(gap === 0 ? 'Same day' : `${Math.abs(gap)} day${Math.abs(gap) === 1 ? '' : 's'} apart`);
+
+  const hint = hintReason(outgoing, incoming, entityNames);
+  if (hint) reasons.push(hint);
+
+  const amountScore = 1 - Math.abs(difference) / allowed;
+  const dateScore = 1 - Math.abs(gap) / (options.dateToleranceDays + 1);
+  const score = WEIGHTS.amount * amountScore + WEIGHTS.date * dateScore + (hint ? WEIGHTS.hint : 0);
+
+  return {
+    outgoing,
+    incoming,
+    score: Math.round(score * 1000) / 1000,
+    reasons,
+    date_gap_days: gap,
+    expected_incoming_amount: round(expected),
+    difference,
+  };
+}
+
+/**
+ * Find intercompany pairs among transactions of different entities.
+ * Each transaction is used at most once, best-scoring pairs first.
+ */
+export function findIntercompanyPairs(
+  legs: IntercompanyLeg[],
+  convert: CurrencyConverter,
+  entityNames: Record<string, string> = {},
+  options: IntercompanyMatchingOptions = DEFAULT_INTERCOMPANY_OPTIONS
+): IntercompanyPairSuggestion[] {
+  const outgoing = legs.filter((leg) => leg.amount < 0);
+  const incoming = legs.filter((leg) => leg.amount > 0);
+
+  const candidates: IntercompanyPairSuggestion[] = [];
+  for (const out of outgoing) {
+    for (const inc of incoming) {
+      const pair = scoreIntercompanyPair(out, inc, convert, entityNames, options);
+      if (pair && pair.score >= options.minScore) candidates.push(pair);
+    }
+  }
+
+  candidates.sort(
+    (a, b) =>
+      b.score - a.score ||
+      Math.abs(a.date_gap_days) - Math.abs(b.date_gap_days) ||
+      a.outgoing.transaction_id.localeCompare(b.outgoing.transaction_id)
+  );
+
+  const used = new Set<string>();
+  const pairs: IntercompanyPairSuggestion[] = [];
+  for (const candidate of candidates) {
+    if (used.has(candidate.outgoing.transaction_id) || used.has(candidate.incoming.transaction_id)) continue;
+    used.add(candidate.outgoing.transaction_id);
+    used.add(candidate.incoming.transaction_id);
+    pairs.push(candidate);
+  }
+
+  return pairs;
+}
@@ -0,0 +1,89 @@
+// Intercompany balance matrix and multilateral netting
+// Builds per-period gross flows between entities and the fewest settlements
+// that clear every entity's net position
+
+import { round } from '../utils';
+import type { IntercompanyMatrix, NettingSettlement } from '../types/intercompany';
+
+export interface IntercompanyFlow {
+  period: string; // YYYY-MM
+  from_entity_id: string;
+  to_entity_id: string;
+  amount: number; // Absolute, in the reporting currency
+}
+
+export function buildIntercompanyMatrices(flows: IntercompanyFlow[], currency: string): IntercompanyMatrix[] {
+  const byPeriod = new Map<string, IntercompanyFlow[]>();
+  for (const flow of flows) {
+    const list = byPeriod.get(flow.period) || [];
+    list.push(flow);
+    byPeriod.set(flow.period, list);
+  }
+
+  return Array.from(byPeriod.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([period, periodFlows]) => {
+      const entities = Array.from(
+        new Set(periodFlows.flatMap((flow) => [flow.from_entity_id, flow.to_entity_id]))
+      ).sort();
+
+      const matrix: Record<string, Record<string, number>> = {};
+      const net: Record<string, number> = {};
+      for (const entity of entities) {
+        matrix[entity] = Object.fromEntries(entities.map((other) => [other, 0]));
+        net[entity] = 0;
+      }
+
+      for (const flow of periodFlows) {
+        matrix[flow.from_entity_id][flow.to_entity_id] = round(matrix[flow.from_entity_id][flow.to_entity_id] + flow.amount);
+        net[flow.from_entity_id] = round(net[flow.from_entity_id] + flow.amount);
+        net[flow.to_entity_id] = round(net[flow.to_entity_id] - flow.amount);
+      }
+
+      return { period, currency, entities, flows: matrix, net_positions: net };
+    });
+}
+
+/**
+ * Settlements that bring every net position to zero: entities that received
+ * more than they sent pay those that sent more, largest balances first, which
+ * needs at most one settlement fewer than the number of entities
+ */
+export function suggestNettingSettlements(matrix: IntercompanyMatrix): NettingSettlement[] {
+  const creditors = Object.entries(matrix.net_positions)
+    .filter(([, amount]) => amount > 0.005)
+    .map(([entity, amount]) => ({ entity, amount }));
+  const debtors = Object.entries(matrix.net_positions)
+    .filter(([, amount]) => amount < -0.005)
+    .map(([entity, amount]) => ({ entity, amount: -amount }));
+
+  const byLargest = (a: { entity: string; amount: number }, b: { entity: string; amount: number }) =>
+    b.amount - a.amount || a.entity.localeCompare(b.entity);
+
+  const settlements: NettingSettlement[] = [];
+  while (creditors.length > 0 && debtors.length > 0) {
+    creditors.sort(byLargest);
+    debtors.sort(byLargest);
+
+    const creditor = creditors[0];
+    const debtor = debtors[0];
+    const amount = round(Math.min(creditor.amount, debtor.amount));
+
+    if (amount >= 0.01) {
+      settlements.push({
+        period: matrix.period,
+        from_entity_id: debtor.entity,
+        to_entity_id: creditor.entity,
+        amount,
+        currency: matrix.currency,
+      });
+    }
+
+    creditor.amount = round(creditor.amount - amount);
+    debtor.amount = round(debtor.amount - amount);
+    if (creditor.amount < 0.01) creditors.shift();
+    if (debtor.amount < 0.01) debtors.shift();
+  }
+
+  return settlements;
+}
@@ -0,0 +1,244 @@
+// Interest accrual
+// Accrues expected interest day by day on deposit and loan balances under a
+// day-count convention, reconciles it month by month with the interest the
+// bank actually posted, and rolls accounts up into yield and cost of funds
+
+import { round } from '../utils';
+import type {
+  DayCountConvention,
+  InterestAccountKind,
+  InterestAccountResult,
+  InterestAccrualDay,
+  InterestMonthCheck,
+  InterestSummaryRow,
+  LimitBreach,
+} from '../types/interest';
+
+export const DAY_COUNT_CONVENTIONS: DayCountConvention[] = ['ACT/360', 'ACT/365', '30/360'];
+
+// Money markets that quote on ACT/365; most others use ACT/360
+const ACT_365_CURRENCIES = new Set(['GBP', 'AUD', 'NZD', 'SGD', 'HKD', 'ZAR', 'INR']);
+
+// account_types with category 'Liability'
+const LOAN_ACCOUNT_TYPES = new Set(['credit_card', 'line_of_credit', 'loan', 'mortgage']);
+
+// Banks often post a month's interest in the first days of the next month
+export const POSTING_GRACE_DAYS = 5;
+
+// Differences under this are rounding, whatever the percentage
+const MIN_TOLERANCE = 1;
+
+function parseDate(date: string) {
+  const [year, month, day] = date.split('-').map(Number);
+  return { year, month, day };
+}
+
+function nextDay(date: string): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().split('T')[0];
+}
+
+function previousMonth(month: string): string {
+  const d = new Date(`${month}-01T00:00:00Z`);
+  d.setUTCMonth(d.getUTCMonth() - 1);
+  return d.toISOString().slice(0, 7);
+}
+
+export function defaultDayCount(currency: string): DayCountConvention {
+  return ACT_365_CURRENCIES.has(currency.toUpperCase()) ? 'ACT/365' : 'ACT/360';
+}
+
+export function accountKind(accountType?: string | null): InterestAccountKind {
+  return LOAN_ACCOUNT_TYPES.has((accountType || '').toLowerCase()) ? 'loan' : 'deposit';
+}
+
+/**
+ * Fraction of a year from start to end. 30/360 is the US (bond basis) rule:
+ * day 31 counts as 30, and an end on the 31st counts as 30 when the start
+ * day is 30 or 31.
+ */
+export function yearFraction(start: string, end: string, convention: DayCountConvention): number {
+  if (convention === '30/360') {
+    const s = parseDate(start);
+    const e = parseDate(end);
+    const d1 = Math.min(s.day, 30);
+    const d2 = e.day === 31 && d1 >= 30 ? 30 : e.day;
+    return (360 * (e.year - s.year) + 30 * (e.month - s.month) + (d2 - d1)) / 360;
+  }
+
+  const days = (Date.parse(`${end}T00:00:00Z`) - Date.parse(`${start}T00:00:00Z`)) / 86_400_000;
+  return days / (convention === 'ACT/360' ? 360 : 365);
+}
+
+/**
+ * Each day's end-of-day balance earns (or costs) interest until the next day.
+ * Deposits earn only on positive balances; loans accrue on the drawn amount
+ * whichever sign the provider reports it with.
+ */
+export function accrueInterest(params: {
+  balances: Array<{ date: string; balance: number }>;
+  rate: number;
+  convention: DayCountConvention;
+  kind: InterestAccountKind;
+}): InterestAccrualDay[] {
+  return params.balances.map(({ date, balance }) => {
+    const principal = params.kind === 'deposit' ? Math.max(balance, 0) : Math.abs(balance);
+    return {
+      date,
+      balance,
+      principal,
+      accrual: principal * params.rate * yearFraction(date, nextDay(date), params.convention),
+    };
+  });
+}
+
+/**
+ * The month a posting pays interest for: postings in the first
+ * POSTING_GRACE_DAYS days of a month belong to the month before
+ */
+export function postingMonth(date: string): string {
+  const month = date.slice(0, 7);
+  return parseDate(date).day <= POSTING_GRACE_DAYS ? previousMonth(month) : month;
+}
+
+/**
+ * Compare expected and posted interest per calendar month. Postings are
+ * signed transaction amounts: credits on deposits and debits on loans count
+ * as interest. Months the range only partly covers are reported, not judged.
+ */
+export function reconcileInterestPostings(params: {
+  accruals: InterestAccrualDay[];
+  postings: Array<{ transaction_id: string; date: string; amount: number }>;
+  kind: InterestAccountKind;
+  startDate: string;
+  endDate: string;
+  tolerancePct: number;
+}): InterestMonthCheck[] {
+  const { startDate, endDate, kind, tolerancePct } = params;
+  const months: string[] = [];
+  for (let month = startDate.slice(0, 7); month <= endDate.slice(0, 7); ) {
+    months.push(month);
+    const d = new Date(`${month}-01T00:00:00Z`);
+    d.setUTCMonth(d.getUTCMonth() + 1);
+    month = d.toISOString().slice(0, 7);
+  }
+
+  const expected = new Map<string, number>();
+  for (const day of params.accruals) {
+    const month = day.date.slice(0, 7);
+    expected.set(month, (expected.get(month) || 0) + day.accrual);
+  }
+
+  const posted = new Map<string, { amount: number; ids: string[] }>();
+  for (const posting of params.postings) {
+    const month = postingMonth(posting.date);
+    const entry = posted.get(month) || { amount: 0, ids: [] };
+    entry.amount += kind === 'deposit' ? posting.amount : -posting.amount;
+    entry.ids.push(posting.transaction_id);
+    posted.set(month, entry);
+  }
+
+  return months.map((month) => {
+    const monthExpected = round(expected.get(month) || 0);
+    const monthPosted = round(posted.get(month)?.amount || 0);
+    const difference = round(monthPosted - monthExpected);
+    const lastDay = new Date(Date.UTC(Number(month.slice(0, 4)), Number(month.slice(5, 7)), 0))
+      .toISOString()
+      .split('T')[0];
+    const tolerance = Math.max(MIN_TOLERANCE, (Math.abs(monthExpected) * tolerancePct) / 100);
+
+    let status: InterestMonthCheck['status'];
+    if (startDate > `${month}-01` || endDate < lastDay) status = 'partial';
+    else if (Math.abs(difference) <= tolerance) status = 'matched';
+    else if (monthPosted === 0) status = 'missing_posting';
+    else if (monthExpected === 0) status = 'unexpected_posting';
+    else status = 'mismatch';
+
+    return {
+      month,
+      expected: monthExpected,
+      posted: monthPosted,
+      difference,
+      status,
+      posting_ids: posted.get(month)?.ids || [],
+    };
+  });
+}
+
+/**
+ * Days a deposit went further overdrawn than its overdraft limit, or a loan
+ * was drawn beyond its credit limit
+ */
+export function findLimitBreaches(
+  accruals: InterestAccrualDay[],
+  kind: InterestAccountKind,
+  limit: number | null
+): LimitBreach[] {
+  if (limit == null) return [];
+
+  return accruals
+    .filter((day) => (kind === 'deposit' ? day.balance < -limit : day.principal > limit))
+    .map((day) => ({ date: day.date, balance: day.balance, limit }));
+}
+
+/**
+ * Annualized rate that interest represents on an average principal held for
+ * a number of days (ACT/365)
+ */
+export function annualizedRate(interest: number, averagePrincipal: number, days: number): number | null {
+  if (averagePrincipal <= 0 || days <= 0) return null;
+  return round(interest / ((averagePrincipal * days) / 365), 6);
+}
+
+/**
+ * Yield on deposits and cost of funds on loans per entity and currency.
+ * Contract rates are weighted by average principal; the realized rate is
+ * posted interest over principal-days.
+ */
+export function summarizeInterest(accounts: InterestAccountResult[]): InterestSummaryRow[] {
+  const groups = new Map<string, { row: InterestSummaryRow; weighted: number; principalYears: number }>();
+
+  for (const account of accounts) {
+    const key = `${account.entity_id || ''}|${account.currency}|${account.kind}`;
+    const group = groups.get(key) || {
+      row: {
+        entity_id: account.entity_id,
+        currency: account.currency,
+        kind: account.kind,
+        accounts: 0,
+        average_principal: 0,
+        expected_interest: 0,
+        posted_interest: 0,
+        weighted_rate: 0,
+        realized_rate: null,
+      },
+      weighted: 0,
+      principalYears: 0,
+    };
+
+    group.row.accounts += 1;
+    group.row.average_principal += account.average_principal;
+    group.row.expected_interest += account.expected_interest;
+    group.row.posted_interest += account.posted_interest;
+    group.weighted += account.average_principal * account.interest_rate;
+    group.principalYears += (account.average_principal * account.days) / 365;
+    groups.set(key, group);
+  }
+
+  return Array.from(groups.values())
+    .map(({ row, weighted, principalYears }) => ({
+      ...row,
+      average_principal: round(row.average_principal),
+      expected_interest: round(row.expected_interest),
+      posted_interest: round(row.posted_interest),
+      weighted_rate: row.average_principal > 0 ? round(weighted / row.average_principal, 6) : 0,
+      realized_rate: principalYears > 0 ? round(row.posted_interest / principalYears, 6) : null,
+    }))
+    .sort(
+      (a, b) =>
+        (a.entity_id || '').localeCompare(b.entity_id || '') ||
+        a.currency.localeCompare(b.currency) ||
+        a.kind.localeCompare(b.kind)
+    );
+}
@@ -0,0 +1,317 @@
+// Investment holdings
+// Validates holdings entered by hand, and turns CSV imports and Plaid
+// investment holdings into rows keyed so that reloading updates in place
+
+import Papa from 'papaparse';
+import { round } from '../utils';
+import type { Holding, Security } from 'plaid';
+import type { HoldingInput, HoldingRow, HoldingStatus, InstrumentType } from '../types/investment';
+
+export const INSTRUMENT_TYPES: InstrumentType[] = [
+  'money_market_fund',
+  'term_deposit',
+  'treasury_bill',
+  'commercial_paper',
+  'bond',
+  'equity',
+  'cash',
+  'other',
+];
+
+const HOLDING_STATUSES: HoldingStatus[] = ['active', 'matured', 'closed'];
+
+// Shorthand accepted in imports
+const INSTRUMENT_TYPE_ALIASES: Record<string, InstrumentType> = {
+  mmf: 'money_market_fund',
+  money_market: 'money_market_fund',
+  td: 'term_deposit',
+  deposit: 'term_deposit',
+  time_deposit: 'term_deposit',
+  tbill: 'treasury_bill',
+  t_bill: 'treasury_bill',
+  cp: 'commercial_paper',
+  stock: 'equity',
+  etf: 'equity',
+};
+
+// Accepted column names for each field, first match wins
+const COLUMN_ALIASES = {
+  account: ['account', 'account_number', 'account_id', 'account_name'],
+  entity_id: ['entity_id', 'entity'],
+  instrument_name: ['instrument_name', 'instrument', 'name', 'security', 'fund'],
+  instrument_type: ['instrument_type', 'type'],
+  isin: ['isin'],
+  ticker: ['ticker', 'ticker_symbol', 'symbol'],
+  currency: ['currency', 'ccy'],
+  units: ['units', 'quantity', 'shares', 'nominal'],
+  price: ['price', 'nav'],
+  market_value: ['market_value', 'value', 'principal'],
+  accrued_interest: ['accrued_interest', 'accrued'],
+  interest_rate_pct: ['interest_rate_pct', 'rate_pct', 'yield_pct', 'interest_rate', 'yield'],
+  start_date: ['start_date', 'trade_date', 'value_date'],
+  maturity_date: ['maturity_date', 'maturity'],
+  settlement_days: ['settlement_days', 'notice_days'],
+  price_date: ['price_date', 'as_of'],
+} as const;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const ISIN_PATTERN = /^[A-Z]{2}[A-Z0-9]{9}\d$/;
+
+function isDate(value: string): boolean {
+  return DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+/**
+ * Problems with a holding, empty when it can be saved
+ */
+export function validateHolding(input: HoldingInput): string[] {
+  const problems: string[] = [];
+
+  if (!input.instrument_name?.trim()) problems.push('Instrument name is required');
+  if (!INSTRUMENT_TYPES.includes(input.instrument_type)) problems.push('Unknown instrument type');
+  if (!/^[A-Z]{3}$/.test((input.currency || '').trim().toUpperCase())) problems.push('Currency must be a 3-letter code');
+  if (input.isin && !ISIN_PATTERN.test(input.isin.trim().toUpperCase())) problems.push('ISIN must be 12 characters');
+
+  if (!Number.isFinite(Number(input.units)) || Number(input.units) < 0) problems.push('Units must be zero or more');
+  if (!Number.isFinite(Number(input.price)) || Number(input.price) < 0) problems.push('Price must be zero or more');
+  if (input.market_value != null && !Number.isFinite(Number(input.market_value))) {
+    problems.push('Market value must be a number');
+  }
+  if (input.accrued_interest != null && !Number.isFinite(Number(input.accrued_interest))) {
+    problems.push('Accrued interest must be a number');
+  }
+  if (input.interest_rate != null && (!Number.isFinite(Number(input.interest_rate)) || Math.abs(input.interest_rate) > 1)) {
+    problems.push('Interest rate must be an annual fraction');
+  }
+  if (
+    input.settlement_days != null &&
+    (!Number.isInteger(Number(input.settlement_days)) || input.settlement_days < 0 || input.settlement_days > 365)
+  ) {
+    problems.push('Settlement days must be a whole number from 0 to 365');
+  }
+
+  for (const key of ['start_date', 'maturity_date', 'price_date'] as const) {
+    const value = input[key];
+    if (value && !isDate(value)) problems.push(`${key.replace('_', ' ')} must be YYYY-MM-DD`);
+  }
+  if (input.start_date && input.maturity_date && input.start_date > input.maturity_date) {
+    problems.push('Maturity date is before the start date');
+  }
+  if (input.status && !HOLDING_STATUSES.includes(input.status)) problems.push('Unknown status');
+
+  return problems;
+}
+
+/**
+ * Market value defaults to units at price; deposits entered by principal alone
+ * are held as that many units at 1
+ */
+export function resolveHoldingAmounts(input: {
+  units?: number | null;
+  price?: number | null;
+  market_value?: number | null;
+}): {
+  units: number;
+  price: number;
+  market_value: number;
+} {
+  const units = input.units == null ? null : Number(input.units);
+  const price = input.price == null ? null : Number(input.price);
+  const marketValue = input.market_value == null ? null : Number(input.market_value);
+
+  if (units !== null && price !== null) {
+    return { units, price, market_value: round(marketValue ?? units * price, 2) };
+  }
+  if (marketValue !== null) {
+    if (units) return { units, price: round(marketValue / units, 8), market_value: round(marketValue, 2) };
+    return { units: marketValue, price: 1, market_value: round(marketValue, 2) };
+  }
+  return { units: units ?? 0, price: price ?? 0, market_value: 0 };
+}
+
+export function parseInstrumentType(value: string): InstrumentType | null {
+  const key = value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  if (INSTRUMENT_TYPES.includes(key as InstrumentType)) return key as InstrumentType;
+  return INSTRUMENT_TYPE_ALIASES[key] || null;
+}
+
+// =====================================================
+// CSV import
+// =====================================================
+
+function field(row: Record<string, unknown>, key: keyof typeof COLUMN_ALIASES): string | null {
+  for (const alias of COLUMN_ALIASES[key]) {
+    const value = row[alias];
+    if (value !== undefined && value !== null && String(value).trim() !== '') return String(value).trim();
+  }
+  return null;
+}
+
+function numberField(row: Record<string, unknown>, key: keyof typeof COLUMN_ALIASES): number | null {
+  const value = field(row, key);
+  return value === null ? null : Number(value.replace(/,/g, ''));
+}
+
+/**
+ * Key for an imported row: the same instrument in the same account with the
+ * same maturity is the same holding
+ */
+export function importExternalId(row: {
+  account_ref?: string | null;
+  isin?: string | null;
+  instrument_name: string;
+  maturity_date?: string | null;
+}): string {
+  const instrument = row.isin || row.instrument_name.trim().toLowerCase();
+  return `import:${row.account_ref || ''}:${instrument}:${row.maturity_date || ''}`;
+}
+
+/**
+ * Parse a holdings CSV. It needs a header row with at least an instrument
+ * name, type, currency and either units and price or a market value. Rates are
+ * percentages (4.25 for 4.25%).
+ */
+export function parseHoldingsCsv(content: string): { rows: HoldingRow[]; errors: string[] } {
+  const parsed = Papa.parse<Record<string, unknown>>(content.trim(), {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: (header) => header.trim().toLowerCase().replace(/\s+/g, '_'),
+  });
+  if (parsed.errors.length > 0 && parsed.data.length === 0) {
+    return { rows: [], errors: parsed.errors.map((error) => error.message) };
+  }
+
+  const rows: HoldingRow[] = [];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  parsed.data.forEach((raw, index) => {
+    const label = `Row ${index + 2}`;
+    const typeValue = field(raw, 'instrument_type');
+    const instrumentType = typeValue ? parseInstrumentType(typeValue) : null;
+    if (!instrumentType) {
+      errors.push(`${label}: unknown instrument type ${typeValue ?? '(blank)'}`);
+      return;
+    }
+
+    const ratePct = numberField(raw, 'interest_rate_pct');
+    const settlementDays = numberField(raw, 'settlement_days');
+    const amounts = resolveHoldingAmounts({
+      units: numberField(raw, 'units'),
+      price: numberField(raw, 'price'),
+      market_value: numberField(raw, 'market_value'),
+    });
+
+    const row: HoldingRow = {
+      external_id: '',
+      account_ref: field(raw, 'account'),
+      entity_id: field(raw, 'entity_id'),
+      instrument_name: field(raw, 'instrument_name') || '',
+      instrument_type: instrumentType,
+      isin: field(raw, 'isin')?.toUpperCase() || null,
+      ticker: field(raw, 'ticker'),
+      currency: (field(raw, 'currency') || '').toUpperCase(),
+      ...amounts,
+      accrued_interest: numberField(raw, 'accrued_interest') ?? 0,
+      interest_rate: ratePct === null ? null : round(ratePct / 100, 6),
+      start_date: field(raw, 'start_date'),
+      maturity_date: field(raw, 'maturity_date'),
+      settlement_days: settlementDays,
+      price_date: field(raw, 'price_date'),
+    };
+
+    if (numberField(raw, 'units') === null && numberField(raw, 'market_value') === null) {
+      errors.push(`${label}: needs units and price, or a market value`);
+      return;
+    }
+
+    const problems = validateHolding(row);
+    if (problems.length > 0) {
+      errors.push(`${label}: ${problems.join('; ')}`);
+      return;
+    }
+
+    row.external_id = importExternalId(row);
+    if (seen.has(row.external_id)) {
+      errors.push(`${label}: duplicate of an earlier row for ${row.instrument_name}`);
+      return;
+    }
+    seen.add(row.external_id);
+    rows.push(row);
+  });
+
+  return { rows, errors };
+}
+
+// =====================================================
+// Plaid investment holdings
+// =====================================================
+
+export type PlaidHolding = Pick<
+  Holding,
+  | 'account_id'
+  | 'security_id'
+  | 'quantity'
+  | 'institution_price'
+  | 'institution_price_as_of'
+  | 'institution_value'
+  | 'iso_currency_code'
+>;
+
+export type PlaidSecurity = Pick<
+  Security,
+  'security_id' | 'isin' | 'name' | 'ticker_symbol' | 'is_cash_equivalent' | 'type' | 'iso_currency_code' | 'fixed_income'
+>;
+
+/**
+ * Plaid security types: cash, cryptocurrency, derivative, equity, etf,
+ * fixed income, loan, mutual fund, other
+ */
+export function plaidInstrumentType(security: PlaidSecurity | undefined): InstrumentType {
+  const type = (security?.type || '').toLowerCase();
+  if (type === 'cash') return 'cash';
+  if (type === 'mutual fund' && security?.is_cash_equivalent) return 'money_market_fund';
+  if (type === 'fixed income') return 'bond';
+  if (type === 'equity' || type === 'etf' || type === 'mutual fund') return 'equity';
+  return 'other';
+}
+
+/**
+ * Map Plaid holdings onto holding rows. accountRefs maps Plaid account ids to
+ * the accounts.id they were synced into; holdings in other accounts are
+ * skipped.
+ */
+export function mapPlaidHoldings(
+  holdings: PlaidHolding[],
+  securities: PlaidSecurity[],
+  accountRefs: Map<string, string>
+): HoldingRow[] {
+  const byId = new Map(securities.map((security) => [security.security_id, security]));
+
+  return holdings
+    .filter((holding) => accountRefs.has(holding.account_id))
+    .map((holding) => {
+      const security = byId.get(holding.security_id);
+      const fixedIncome = security?.fixed_income;
+      const yieldPct = fixedIncome?.yield_rate?.percentage;
+
+      return {
+        external_id: `plaid:${holding.account_id}:${holding.security_id}`,
+        account_id: accountRefs.get(holding.account_id)!,
+        instrument_name: security?.name || security?.ticker_symbol || holding.security_id,
+        instrument_type: plaidInstrumentType(security),
+        isin: security?.isin && ISIN_PATTERN.test(security.isin) ? security.isin : null,
+        ticker: security?.ticker_symbol || null,
+        currency: (holding.iso_currency_code || security?.iso_currency_code || 'USD').toUpperCase(),
+        units: holding.quantity,
+        price: holding.institution_price,
+        market_value: round(holding.institution_value, 2),
+        accrued_interest: 0,
+        interest_rate: yieldPct == null ? null : round(yieldPct / 100, 6),
+        maturity_date: fixedIncome?.maturity_date || null,
+        start_date: fixedIncome?.issue_date || null,
+        price_date: holding.institution_price_as_of || null,
+      };
+    });
+}
@@ -0,0 +1,182 @@
+// Liquidity buckets and maturity ladder
+// Places cash and holdings by how soon they can be turned into cash: on their
+// maturity date, or after the redemption notice for open-ended funds, and
+// bands holdings by time to maturity
+
+import type { RateType } from '../currency';
+import { sumInReportingCurrency } from '../fx/reporting';
+import { round } from '../utils';
+import type { ReportingRateLookup } from '../types/fx';
+import type {
+  InstrumentType,
+  InvestmentHolding,
+  LiquidityBreakdown,
+  LiquidityBucket,
+  MaturityLadderRung,
+} from '../types/investment';
+
+export const LIQUIDITY_BUCKETS: Array<{ bucket: LiquidityBucket; label: string }> = [
+  { bucket: 'same_day', label: 'Same day' },
+  { bucket: 't_plus_1', label: 'T+1' },
+  { bucket: 'under_3_months', label: 'Under 3 months' },
+  { bucket: 'longer', label: '3 months and longer' },
+];
+
+// Days from a redemption request to cash when a holding does not set its own;
+// null means it cannot be redeemed before maturity
+export const DEFAULT_SETTLEMENT_DAYS: Record<InstrumentType, number | null> = {
+  cash: 0,
+  money_market_fund: 1,
+  treasury_bill: 1,
+  bond: 2,
+  equity: 2,
+  term_deposit: null,
+  commercial_paper: null,
+  other: null,
+};
+
+// Upper bound of the under-3-months bucket
+const SHORT_TERM_DAYS = 91;
+
+export const MATURITY_LADDER_BANDS: Array<{ key: string; label: string; max_days: number | null }> = [
+  { key: 'open', label: 'No fixed maturity', max_days: null },
+  { key: '0-7d', label: 'Up to 1 week', max_days: 7 },
+  { key: '8-30d', label: '1 week to 1 month', max_days: 30 },
+  { key: '1-3m', label: '1 to 3 months', max_days: SHORT_TERM_DAYS },
+  { key: '3-6m', label: '3 to 6 months', max_days: 182 },
+  { key: '6-12m', label: '6 to 12 months', max_days: 365 },
+  { key: '1y+', label: 'Over 1 year', max_days: Infinity },
+];
+
+type LiquidityHolding = Pick<
+  InvestmentHolding,
+  'instrument_type' | 'maturity_date' | 'settlement_days' | 'currency' | 'market_value' | 'accrued_interest' | 'interest_rate'
+>;
+
+export function daysUntil(asOf: string, date: string): number {
+  return Math.round((Date.parse(`${date}T00:00:00Z`) - Date.parse(`${asOf}T00:00:00Z`)) / 86_400_000);
+}
+
+function bucketForDays(days: number): LiquidityBucket {
+  if (days <= 0) return 'same_day';
+  if (days === 1) return 't_plus_1';
+  if (days <= SHORT_TERM_DAYS) return 'under_3_months';
+  return 'longer';
+}
+
+/**
+ * Market value plus accrued interest
+ */
+export function holdingValue(holding: Pick<InvestmentHolding, 'market_value' | 'accrued_interest'>): number {
+  return round(Number(holding.market_value) + Number(holding.accrued_interest || 0));
+}
+
+/**
+ * The sooner of maturity and redemption notice. Holdings with neither are
+ * treated as long-dated.
+ */
+export function liquidityBucket(
+  holding: Pick<InvestmentHolding, 'instrument_type' | 'maturity_date' | 'settlement_days'>,
+  asOf: string
+): LiquidityBucket {
+  const settlement = holding.settlement_days ?? DEFAULT_SETTLEMENT_DAYS[holding.instrument_type];
+  const candidates = [
+    holding.maturity_date ? daysUntil(asOf, holding.maturity_date) : null,
+    settlement ?? null,
+  ].filter((days): days is number => days !== null);
+
+  return candidates.length > 0 ? bucketForDays(Math.min(...candidates)) : 'longer';
+}
+
+export function maturityBand(holding: Pick<InvestmentHolding, 'maturity_date'>, asOf: string): string {
+  if (!holding.maturity_date) return 'open';
+  const days = daysUntil(asOf, holding.maturity_date);
+  return MATURITY_LADDER_BANDS.find((band) => band.max_days !== null && days <= band.max_days)!.key;
+}
+
+/**
+ * Holdings banded by time to maturity, in the reporting currency, with the
+ * value-weighted rate of each band
+ */
+export function buildMaturityLadder(params: {
+  holdings: LiquidityHolding[];
+  asOf: string;
+  currency: string;
+  rateType: RateType;
+  rates: ReportingRateLookup;
+}): MaturityLadderRung[] {
+  const { holdings, asOf, currency, rateType, rates } = params;
+
+  return MATURITY_LADDER_BANDS.map((band) => {
+    const members = holdings.filter((holding) => maturityBand(holding, asOf) === band.key);
+    const items = members.map((holding) => ({ amount: holdingValue(holding), currency: holding.currency }));
+    const amount = sumInReportingCurrency(items, currency, rateType, rates).amount;
+
+    const rated = members.filter((holding) => holding.interest_rate != null);
+    const ratedAmount = sumInReportingCurrency(
+      rated.map((holding) => ({ amount: holdingValue(holding), currency: holding.currency })),
+      currency,
+      rateType,
+      rates
+    ).amount;
+    const weighted = sumInReportingCurrency(
+      rated.map((holding) => ({ amount: holdingValue(holding) * Number(holding.interest_rate), currency: holding.currency })),
+      currency,
+      rateType,
+      rates
+    ).amount;
+
+    return {
+      key: band.key,
+      label: band.label,
+      max_days: band.max_days === Infinity ? null : band.max_days,
+      amount,
+      holdings: members.length,
+      average_rate: ratedAmount > 0 ? Math.round((weighted / ratedAmount) * 1_000_000) / 1_000_000 : null,
+    };
+  }).filter((rung) => rung.holdings > 0);
+}
+
+/**
+ * Cash balances count as same-day; holdings go to their liquidity bucket
+ */
+export function buildLiquidityBreakdown(params: {
+  cash: Array<{ amount: number; currency: string; bucket?: LiquidityBucket }>;
+  holdings: LiquidityHolding[];
+  asOf: string;
+  currency: string;
+  rateType: RateType;
+  rates: ReportingRateLookup;
+}): LiquidityBreakdown {
+  const { cash, holdings, asOf, currency, rateType, rates } = params;
+  let rateDate: string | null = null;
+  const unconverted = new Set<string>();
+
+  const buckets = LIQUIDITY_BUCKETS.map(({ bucket, label }) => {
+    const accounts = cash.filter((balance) => (balance.bucket || 'same_day') === bucket);
+    const members = holdings.filter((holding) => liquidityBucket(holding, asOf) === bucket);
+    const sum = sumInReportingCurrency(
+      [
+        ...accounts,
+        ...members.map((holding) => ({ amount: holdingValue(holding), currency: holding.currency })),
+      ],
+      currency,
+      rateType,
+      rates
+    );
+
+    if (sum.rate_date && (!rateDate || sum.rate_date < rateDate)) rateDate = sum.rate_date;
+    sum.unconverted.forEach((code) => unconverted.add(code));
+
+    return { bucket, label, amount: sum.amount, holdings: members.length, accounts: accounts.length };
+  });
+
+  return {
+    as_of: asOf,
+    currency,
+    buckets,
+    total: round(buckets.reduce((total, bucket) => total + bucket.amount, 0)),
+    rate_date: rateDate,
+    unconverted: Array.from(unconverted).sort(),
+  };
+}
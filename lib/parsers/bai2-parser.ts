@@ -0,0 +1,506 @@
+// BAI2 parser for US bank previous-day and current-day reporting
+// Record types: 01 file header, 02 group header, 03 account, 16 transaction detail,
+// 88 continuation, 49 account trailer, 98 group trailer, 99 file trailer
+
+import type { CSVParseResult, ParsedTransaction } from './csv-parser';
+import type { ParsedBankStatement, StatementBalance } from './statement-utils';
+
+// =====================================================
+// Types
+// =====================================================
+
+export interface BAI2Summary {
+  typeCode: string;
+  amount: number; // Major units, signed
+  itemCount?: number;
+  fundsType?: string;
+}
+
+export interface BAI2ParseResult extends CSVParseResult {
+  fileId?: string;
+  senderId?: string;
+  receiverId?: string;
+  createdAt?: string;
+  statements: ParsedBankStatement[]; // One per 03 account record
+}
+
+interface BAI2Record {
+  line: number; // Line of the first physical record
+  code: string;
+  fields: string[];
+  continuations: string[]; // 88 bodies continuing a 16, folded in once its field layout is known
+  physicalCount: number; // 1 + continuation records
+}
+
+// =====================================================
+// Type Codes
+// =====================================================
+
+const BALANCE_CODES = {
+  openingLedger: '010',
+  closingLedger: '015',
+  currentLedger: '030',
+  openingAvailable: '040',
+  closingAvailable: '045',
+  currentAvailable: '060',
+};
+
+/**
+ * Common BAI detail type codes with the transaction_categories code they map to.
+ * Codes not listed still get a direction from their range, but no category.
+ */
+export const BAI2_TYPE_CODES: Record<string, { description: string; category?: string }> = {
+  '108': { description: 'Deposited Item Returned', category: 'income_other' },
+  '115': { description: 'Lockbox Deposit', category: 'income_business' },
+  '142': { description: 'ACH Credit Received', category: 'income_business' },
+  '165': { description: 'Preauthorized ACH Credit', category: 'income_business' },
+  '169': { description: 'Miscellaneous ACH Credit', category: 'income_business' },
+  '175': { description: 'Check Deposit Package', category: 'income_business' },
+  '195': { description: 'Incoming Money Transfer', category: 'transfer_external' },
+  '206': { description: 'Book Transfer Credit', category: 'transfer_internal' },
+  '208': { description: 'International Money Transfer Credit', category: 'transfer_external' },
+  '275': { description: 'ZBA Credit', category: 'transfer_internal' },
+  '301': { description: 'Commercial Deposit', category: 'income_business' },
+  '354': { description: 'Interest Credit', category: 'income_investment' },
+  '399': { description: 'Miscellaneous Credit', category: 'income_other' },
+  '451': { description: 'ACH Debit Received', category: 'expense_other' },
+  '455': { description: 'Preauthorized ACH Debit', category: 'expense_other' },
+  '469': { description: 'Miscellaneous ACH Debit', category: 'expense_other' },
+  '475': { description: 'Check Paid', category: 'expense_other' },
+  '495': { description: 'Outgoing Money Transfer', category: 'transfer_external' },
+  '506': { description: 'Book Transfer Debit', category: 'transfer_internal' },
+  '508': { description: 'International Money Transfer Debit', category: 'transfer_external' },
+  '555': { description: 'Deposited Item Returned', category: 'expense_other' },
+  '575': { description: 'ZBA Debit', category: 'transfer_internal' },
+  '661': { description: 'Account Analysis Fee', category: 'expense_taxes' },
+  '698': { description: 'Miscellaneous Fees', category: 'expense_taxes' },
+  '699': { description: 'Miscellaneous Debit', category: 'expense_other' },
+};
+
+/**
+ * Direction from the BAI code ranges: 100-399 and 900-919 are credits,
+ * 400-699 and 920-999 are debits. Loan detail (700-799) has no fixed direction.
+ */
+export function bai2Direction(typeCode: string): 'credit' | 'debit' | null {
+  const code = Number(typeCode);
+  if ((code >= 100 && code <= 399) || (code >= 900 && code <= 919)) return 'credit';
+  if ((code >= 400 && code <= 699) || (code >= 920 && code <= 999)) return 'debit';
+  return null;
+}
+
+// Currencies reported without two implied decimals
+const MINOR_UNITS: Record<string, number> = { JPY: 0, KRW: 0, CLP: 0, BHD: 3, KWD: 3, OMR: 3, JOD: 3, TND: 3 };
+
+// =====================================================
+// Helpers
+// =====================================================
+
+function bai2Date(yymmdd: string): string | null {
+  if (!/^\d{6}$/.test(yymmdd)) return null;
+  return `20${yymmdd.slice(0, 2)}-${yymmdd.slice(2, 4)}-${yymmdd.slice(4, 6)}`;
+}
+
+/**
+ * Amounts carry implied decimals and an optional sign: "-150000" = -1500.00 USD
+ */
+function parseMinorAmount(value: string | undefined): number | null {
+  const trimmed = (value || '').trim();
+  if (trimmed === '') return 0;
+  if (!/^[+-]?\d+$/.test(trimmed)) return null;
+  return Number(trimmed);
+}
+
+function toMajor(minor: number, currency: string): number {
+  const decimals = MINOR_UNITS[currency] ?? 2;
+  return Number((minor / 10 ** decimals).toFixed(decimals));
+}
+
+/**
+ * Number of extra fields following a funds type code
+ */
+function fundsTypeFieldCount(fundsType: string, fields: string[], index: number): number {
+  switch (fundsType.toUpperCase()) {
+    case 'S':
+      return 3; // Immediate, one-day and two-or-more-day amounts
+    case 'V':
+      return 2; // Value date and time
+    case 'D': {
+      const distributions = Number(fields[index] || 0);
+      return 1 + distributions * 2;
+    }
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Fields of a 16 record with its 88 continuations folded in. A continuation
+ * supplies the next fields (such as references the first record had no room
+ * for) until the text field is reached, and extends the text after that.
+ */
+function detailFields(record: BAI2Record): string[] {
+  const fields = [...record.fields];
+  const textIndex = () => 3 + fundsTypeFieldCount(fields[2] || '', fields, 3) + 2;
+
+  for (const body of record.continuations) {
+    const parts = body.split(',');
+    while (parts.length > 0 && fields.length < textIndex()) {
+      fields.push(parts.shift() as string);
+    }
+    if (parts.length === 0) continue;
+
+    const text = fields.splice(textIndex()).join(',').replace(/\/$/, '').trim();
+    fields.push([text, parts.join(',').trim()].filter(Boolean).join(' '));
+  }
+
+  return fields;
+}
+
+/**
+ * Split the file into logical records, folding 88 continuations into the
+ * record they continue. Each record ends with "/", except free text on 16s.
+ */
+function readRecords(content: string, errors: CSVParseResult['errors']): BAI2Record[] {
+  const records: BAI2Record[] = [];
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    const lineNumber = index + 1;
+    if (line === '') return;
+
+    const code = line.slice(0, 2);
+    const body = line.slice(3);
+
+    if (!/^\d{2},/.test(line)) {
+      errors.push({ row: lineNumber, field: 'record', message: 'Record must start with a two-digit record code', value: line.slice(0, 20) });
+      return;
+    }
+
+    if (code === '88') {
+      const previous = records[records.length - 1];
+      if (!previous) {
+        errors.push({ row: lineNumber, field: 'record', message: 'Continuation record (88) has nothing to continue' });
+        return;
+      }
+      previous.physicalCount++;
+      if (previous.code === '16') {
+        previous.continuations.push(body.replace(/\/$/, ''));
+      } else {
+        previous.fields.push(...body.replace(/\/$/, '').split(','));
+      }
+      return;
+    }
+
+    const fields = code === '16' ? body.split(',') : body.replace(/\/$/, '').split(',');
+    records.push({ line: lineNumber, code, fields, continuations: [], physicalCount: 1 });
+  });
+
+  return records;
+}
+
+// =====================================================
+// Parser
+// =====================================================
+
+export function parseBai2(content: string): BAI2ParseResult {
+  const result: BAI2ParseResult = {
+    success: false,
+    transactions: [],
+    statements: [],
+    errors: [],
+    warnings: [],
+    summary: {
+      totalRows: 0,
+      validRows: 0,
+      invalidRows: 0,
+      columns: ['record_code', 'type_code', 'amount', 'funds_type', 'bank_reference', 'customer_reference', 'text'],
+    },
+  };
+  const errors = result.errors;
+  const records = readRecords(content, errors);
+
+  result.summary.totalRows = records.filter((r) => r.code === '16').length;
+
+  let fileControl = 0;
+  let fileRecords = 0;
+  let groupCount = 0;
+
+  let group: { line: number; asOfDate: string; currency: string; modifier?: string; control: number; records: number; accounts: number } | null = null;
+  let account: { line: number; statement: ParsedBankStatement; control: number; records: number; summaries: BAI2Summary[] } | null = null;
+  let sawFileTrailer = false;
+
+  for (const record of records) {
+    const { line, code, fields } = record;
+    fileRecords += record.physicalCount;
+    if (group) group.records += record.physicalCount;
+    if (account) account.records += record.physicalCount;
+
+    if (sawFileTrailer) {
+      errors.push({ row: line, field: 'record', message: `Record ${code} found after the file trailer (99)` });
+      continue;
+    }
+
+    switch (code) {
+      case '01': {
+        if (line !== records[0].line) {
+          errors.push({ row: line, field: 'record', message: 'File header (01) must be the first record' });
+        }
+        const [senderId, receiverId, date, time, fileId, , , version] = fields;
+        result.senderId = senderId;
+        result.receiverId = receiverId;
+        result.fileId = fileId;
+        result.createdAt = bai2Date(date || '') ? `${bai2Date(date)}T${(time || '0000').slice(0, 2)}:${(time || '0000').slice(2, 4)}:00` : undefined;
+        if (version && version !== '2') {
+          errors.push({ row: line, field: 'version', message: 'Only BAI version 2 files are supported', value: version });
+        }
+        break;
+      }
+
+      case '02': {
+        if (group) {
+          errors.push({ row: line, field: 'record', message: 'Group header (02) before the previous group trailer (98)' });
+        }
+        const [, , status, date, , currency, modifier] = fields;
+        const asOfDate = bai2Date(date || '');
+        if (!asOfDate) {
+          errors.push({ row: line, field: 'as_of_date', message: 'Invalid as-of date (expected YYMMDD)', value: date });
+        }
+        if (status && status !== '1') {
+          result.warnings.push(`Line ${line}: group status ${status} (${status === '2' ? 'update' : status === '3' ? 'deletion' : status === '4' ? 'test only' : 'unknown'})`);
+        }
+        group = { line, asOfDate: asOfDate || '', currency: currency || 'USD', modifier, control: 0, records: 1, accounts: 0 };
+        groupCount++;
+        break;
+      }
+
+      case '03': {
+        if (!group) {
+          errors.push({ row: line, field: 'record', message: 'Account record (03) outside a group' });
+          break;
+        }
+        if (account) {
+          errors.push({ row: line, field: 'record', message: 'Account record (03) before the previous account trailer (49)' });
+        }
+
+        const [accountNumber, accountCurrency] = fields;
+        const currency = accountCurrency || group.currency;
+        const summaries: BAI2Summary[] = [];
+        let control = 0;
+
+        for (let i = 2; i < fields.length; ) {
+          const [typeCode, amountText, itemCount, fundsType = ''] = fields.slice(i, i + 4);
+          if (!typeCode) break;
+          const minor = parseMinorAmount(amountText);
+          if (minor === null) {
+            errors.push({ row: line, field: `amount (type ${typeCode})`, message: 'Invalid amount', value: amountText });
+          } else {
+            control += minor;
+            summaries.push({
+              typeCode,
+              amount: toMajor(minor, currency),
+              itemCount: itemCount ? Number(itemCount) : undefined,
+              fundsType: fundsType || undefined,
+            });
+          }
+          i += 4 + fundsTypeFieldCount(fundsType, fields, i + 4);
+        }
+
+        const balance = (typeCode: string): StatementBalance | undefined => {
+          const summary = summaries.find((s) => s.typeCode === typeCode);
+          return summary ? { amount: summary.amount, date: group!.asOfDate, currency } : undefined;
+        };
+
+        // As-of-date modifiers 3/4 are same-day (current-day) reporting
+        const intraday = group.modifier === '3' || group.modifier === '4';
+
+        account = {
+          line,
+          control,
+          records: 1,
+          summaries,
+          statement: {
+            format: 'bai2',
+            statementId: [result.fileId, group.asOfDate, accountNumber].filter(Boolean).join('-'),
+            createdAt: result.createdAt,
+            account: { accountNumber },
+            currency,
+            openingBalance: balance(BALANCE_CODES.openingLedger),
+            closingBalance: balance(BALANCE_CODES.closingLedger) || (intraday ? balance(BALANCE_CODES.currentLedger) : undefined),
+            closingAvailableBalance:
+              balance(BALANCE_CODES.closingAvailable) || (intraday ? balance(BALANCE_CODES.currentAvailable) : undefined),
+            transactions: [],
+            pendingCount: 0,
+            intraday,
+          },
+        };
+        if (!accountNumber) {
+          errors.push({ row: line, field: 'account_number', message: 'Account number is required' });
+        }
+        break;
+      }
+
+      case '16': {
+        if (!account || !group) {
+          errors.push({ row: line, field: 'record', message: 'Transaction detail (16) outside an account' });
+          result.summary.invalidRows++;
+          break;
+        }
+
+        const detail = detailFields(record);
+        const [typeCode, amountText, fundsType = ''] = detail;
+        const extra = fundsTypeFieldCount(fundsType, detail, 3);
+        const [bankRefField, customerRefField, ...textParts] = detail.slice(3 + extra);
+        // A record ending before its text field closes the last reference with "/"
+        const bankRef = bankRefField?.replace(/\/$/, '').trim() || undefined;
+        const customerRef = customerRefField?.replace(/\/$/, '').trim() || undefined;
+        const text = textParts.join(',').replace(/\/$/, '').trim();
+        const minor = parseMinorAmount(amountText);
+        const direction = bai2Direction(typeCode || '');
+
+        if (minor === null || minor < 0) {
+          errors.push({ row: line, field: 'amount', message: 'Detail amount must be an unsigned number', value: amountText });
+          result.summary.invalidRows++;
+          break;
+        }
+        account.control += minor;
+
+        if (!direction) {
+          result.warnings.push(`Line ${line}: type code ${typeCode} has no credit/debit direction and was skipped`);
+          result.summary.invalidRows++;
+          break;
+        }
+
+        const currency = account.statement.currency;
+        const amount = toMajor(minor, currency);
+        const codeInfo = BAI2_TYPE_CODES[typeCode];
+        const valueDate = fundsType.toUpperCase() === 'V' ? bai2Date(detail[3] || '') : null;
+
+        const transaction: ParsedTransaction = {
+          date: group.asOfDate,
+          amount: direction === 'debit' ? -amount : amount,
+          description: text || codeInfo?.description || `BAI type ${typeCode}`,
+          type: direction,
+          // Shown on the transaction; only the bank reference is used to dedup imports
+          reference: bankRef || customerRef,
+          category: codeInfo?.category,
+          metadata: {
+            accountNumber: account.statement.account.accountNumber,
+            baiTypeCode: typeCode,
+            typeDescription: codeInfo?.description,
+            bankReference: bankRef,
+            customerReference: customerRef,
+            fundsType: fundsType || undefined,
+            valueDate: valueDate || undefined,
+          },
+          rawRow: { record: '16', fields: detail },
+          rowNumber: line,
+        };
+
+        account.statement.transactions.push(transaction);
+        result.transactions.push(transaction);
+        result.summary.validRows++;
+        break;
+      }
+
+      case '49': {
+        if (!account || !group) {
+          errors.push({ row: line, field: 'record', message: 'Account trailer (49) without an account record' });
+          break;
+        }
+        const declaredControl = parseMinorAmount(fields[0]);
+        const declaredRecords = Number(fields[1]);
+
+        if (declaredControl !== account.control) {
+          errors.push({
+            row: line,
+            field: 'account_control_total',
+            message: `Account ${account.statement.account.accountNumber} control total ${fields[0]} does not match the sum of its amounts (${account.control})`,
+            value: fields[0],
+          });
+        }
+        if (declaredRecords !== account.records) {
+          errors.push({
+            row: line,
+            field: 'number_of_records',
+            message: `Account ${account.statement.account.accountNumber} declares ${fields[1]} records but has ${account.records}`,
+            value: fields[1],
+          });
+        }
+
+        group.control += declaredControl ?? account.control;
+        group.accounts++;
+        result.statements.push(account.statement);
+        account = null;
+        break;
+      }
+
+      case '98': {
+        if (!group) {
+          errors.push({ row: line, field: 'record', message: 'Group trailer (98) without a group header' });
+          break;
+        }
+        if (account) {
+          errors.push({ row: account.line, field: 'record', message: 'Account record (03) has no account trailer (49)' });
+          account = null;
+        }
+        const declaredControl = parseMinorAmount(fields[0]);
+
+        if (declaredControl !== group.control) {
+          errors.push({
+            row: line,
+            field: 'group_control_total',
+            message: `Group control total ${fields[0]} does not match the sum of account control totals (${group.control})`,
+            value: fields[0],
+          });
+        }
+        if (Number(fields[1]) !== group.accounts) {
+          errors.push({ row: line, field: 'number_of_accounts', message: `Group declares ${fields[1]} accounts but has ${group.accounts}`, value: fields[1] });
+        }
+        if (Number(fields[2]) !== group.records) {
+          errors.push({ row: line, field: 'number_of_records', message: `Group declares ${fields[2]} records but has ${group.records}`, value: fields[2] });
+        }
+
+        fileControl += declaredControl ?? group.control;
+        group = null;
+        break;
+      }
+
+      case '99': {
+        if (group) {
+          errors.push({ row: group.line, field: 'record', message: 'Group header (02) has no group trailer (98)' });
+          group = null;
+        }
+        if (parseMinorAmount(fields[0]) !== fileControl) {
+          errors.push({
+            row: line,
+            field: 'file_control_total',
+            message: `File control total ${fields[0]} does not match the sum of group control totals (${fileControl})`,
+            value: fields[0],
+          });
+        }
+        if (Number(fields[1]) !== groupCount) {
+          errors.push({ row: line, field: 'number_of_groups', message: `File declares ${fields[1]} groups but has ${groupCount}`, value: fields[1] });
+        }
+        if (Number(fields[2]) !== fileRecords) {
+          errors.push({ row: line, field: 'number_of_records', message: `File declares ${fields[2]} records but has ${fileRecords}`, value: fields[2] });
+        }
+        sawFileTrailer = true;
+        break;
+      }
+
+      default:
+        errors.push({ row: line, field: 'record', message: `Unknown record code ${code}` });
+    }
+  }
+
+  if (records.length === 0 || records[0].code !== '01') {
+    errors.push({ row: records[0]?.line || 1, field: 'record', message: 'File header (01) is missing' });
+  }
+  if (!sawFileTrailer) {
+    errors.push({ row: records[records.length - 1]?.line || 1, field: 'record', message: 'File trailer (99) is missing' });
+  }
+
+  result.success = errors.length === 0;
+  return result;
+}
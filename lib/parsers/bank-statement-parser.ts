@@ -0,0 +1,77 @@
+// Bank statement file import: format detection and dispatch
+// camt.053 / camt.052 (ISO 20022 XML), MT940 / MT942 (SWIFT FIN) and BAI2
+
+import { parseCamt } from './camt-parser';
+import { parseMt940 } from './mt940-parser';
+import { parseBai2 } from './bai2-parser';
+import {
+  verifyStatement,
+  type BankStatementFormat,
+  type BankStatementParseResult,
+  type StatementParseError,
+} from './statement-utils';
+
+export type { BankStatementFormat, BankStatementParseResult, ParsedBankStatement } from './statement-utils';
+export { statementTransactionKeys, toStatementInputs } from './statement-utils';
+
+/**
+ * Sniff the file format from its content
+ */
+export function detectBankStatementFormat(content: string): BankStatementFormat | null {
+  const head = content.slice(0, 4096);
+
+  if (/^\s*01,/.test(head)) return 'bai2';
+
+  if (/<(\w+:)?BkToCstmrStmt[\s>]/.test(content) || head.includes('camt.053')) return 'camt.053';
+  if (/<(\w+:)?BkToCstmrAcctRpt[\s>]/.test(content) || head.includes('camt.052')) return 'camt.052';
+
+  if (/(^|\n|\{4:\n?):20:/.test(content) && /:(25|61|60F|60M):/.test(content)) {
+    return /:(13D|34F):/.test(content) && !/:60[FM]:/.test(content) ? 'mt942' : 'mt940';
+  }
+
+  return null;
+}
+
+export function parseBankStatementFile(content: string, format?: BankStatementFormat): BankStatementParseResult {
+  const detected = format || detectBankStatementFormat(content);
+
+  if (!detected) {
+    return {
+      success: false,
+      format: null,
+      statements: [],
+      errors: [{ message: 'Unrecognised file format. Expected camt.053, camt.052, MT940, MT942 or BAI2.' }],
+      warnings: [],
+    };
+  }
+
+  if (detected === 'bai2') return parseBai2Statements(content);
+
+  return detected === 'camt.053' || detected === 'camt.052' ? parseCamt(content) : parseMt940(content);
+}
+
+/**
+ * BAI2 reports line-level errors in the CSV style; carry them over and add
+ * the opening + detail = closing tie-out the other formats get
+ */
+function parseBai2Statements(content: string): BankStatementParseResult {
+  const parsed = parseBai2(content);
+  const errors: StatementParseError[] = parsed.errors.map((error) => ({
+    row: error.row,
+    field: error.field,
+    message: `Line ${error.row}: ${error.message}${error.value !== undefined ? ` (${error.value})` : ''}`,
+  }));
+
+  for (const statement of parsed.statements) {
+    // Current-day reports only carry the details posted so far
+    if (!statement.intraday) errors.push(...verifyStatement(statement));
+  }
+
+  return {
+    success: errors.length === 0,
+    format: 'bai2',
+    statements: parsed.statements,
+    errors,
+    warnings: parsed.warnings,
+  };
+}
@@ -0,0 +1,231 @@
+// ISO 20022 camt.053 (end-of-day statement) and camt.052 (intraday report) parser
+// Supports the 001.02 - 001.10 message versions; element names are read without namespace prefixes
+
+import type { ParsedTransaction } from './csv-parser';
+import { child, childText, children, parseXml, type XmlElement } from './xml';
+import {
+  parseStatementAmount,
+  verifyStatement,
+  type BankStatementFormat,
+  type BankStatementParseResult,
+  type ParsedBankStatement,
+  type StatementBalance,
+  type StatementTotals,
+} from './statement-utils';
+
+const OPENING_CODES = ['OPBD', 'PRCD'];
+const CLOSING_CODES = ['CLBD'];
+const INTERIM_BOOKED_CODES = ['ITBD'];
+const AVAILABLE_CODES = ['CLAV', 'ITAV'];
+
+function dateOf(element: XmlElement | undefined): string | undefined {
+  const value = childText(element, 'Dt') || childText(element, 'DtTm');
+  return value ? value.slice(0, 10) : undefined;
+}
+
+function signed(amount: number, indicator: string | undefined): number {
+  return indicator === 'DBIT' ? -amount : amount;
+}
+
+function readBalances(statement: XmlElement, currency: string) {
+  const balances = children(statement, 'Bal').map((bal) => {
+    const amountElement = child(bal, 'Amt');
+    return {
+      code: childText(bal, 'Tp', 'CdOrPrtry', 'Cd') || childText(bal, 'Tp', 'CdOrPrtry', 'Prtry') || '',
+      balance: {
+        amount: signed(parseStatementAmount(amountElement?.text), childText(bal, 'CdtDbtInd')),
+        date: dateOf(child(bal, 'Dt')) || '',
+        currency: amountElement?.attributes.Ccy || currency,
+      } as StatementBalance,
+    };
+  });
+
+  const find = (codes: string[]) => {
+    const matches = balances.filter((b) => codes.includes(b.code));
+    return matches.length > 0 ? matches[matches.length - 1].balance : undefined;
+  };
+
+  return {
+    opening: find(OPENING_CODES),
+    // Intraday reports carry interim booked balances instead of a closing balance
+    closing: find(CLOSING_CODES) || find(INTERIM_BOOKED_CODES),
+    available: find(AVAILABLE_CODES),
+  };
+}
+
+function readTotals(statement: XmlElement): StatementTotals | undefined {
+  const summary = child(statement, 'TxsSummry');
+  const credits = child(summary, 'TtlCdtNtries');
+  const debits = child(summary, 'TtlDbtNtries');
+  if (!credits && !debits) return undefined;
+
+  return {
+    creditCount: Number(childText(credits, 'NbOfNtries') || 0),
+    creditSum: Number(childText(credits, 'Sum') || 0),
+    debitCount: Number(childText(debits, 'NbOfNtries') || 0),
+    debitSum: Number(childText(debits, 'Sum') || 0),
+  };
+}
+
+function entryStatus(entry: XmlElement): string {
+  // 001.02-001.07 carry the code as text, later versions nest it under Cd
+  return (childText(entry, 'Sts', 'Cd') || childText(entry, 'Sts') || 'BOOK').toUpperCase();
+}
+
+function partyName(details: XmlElement | undefined, role: 'Cdtr' | 'Dbtr'): string | undefined {
+  return (
+    childText(details, 'RltdPties', role, 'Nm') || childText(details, 'RltdPties', role, 'Pty', 'Nm') || undefined
+  );
+}
+
+function readEntry(entry: XmlElement, index: number): ParsedTransaction {
+  const indicator = childText(entry, 'CdtDbtInd');
+  const amountElement = child(entry, 'Amt');
+  const amount = signed(parseStatementAmount(amountElement?.text), indicator);
+  const details = child(entry, 'NtryDtls', 'TxDtls');
+  const date = dateOf(child(entry, 'BookgDt')) || dateOf(child(entry, 'ValDt'));
+
+  if (!date) {
+    throw new Error(`Entry ${index + 1} has no booking or value date`);
+  }
+
+  const counterparty = partyName(details, indicator === 'DBIT' ? 'Cdtr' : 'Dbtr');
+  const remittance = children(child(details, 'RmtInf'), 'Ustrd')
+    .map((u) => u.text)
+    .join(' ');
+  const bankTransactionCode = [
+    childText(entry, 'BkTxCd', 'Domn', 'Cd'),
+    childText(entry, 'BkTxCd', 'Domn', 'Fmly', 'Cd'),
+    childText(entry, 'BkTxCd', 'Domn', 'Fmly', 'SubFmlyCd'),
+  ]
+    .filter(Boolean)
+    .join('/');
+
+  // The account servicer's reference is the bank's own id for the entry; EndToEndId is the
+  // payer's, and is often the literal NOTPROVIDED
+  const bankReference = childText(entry, 'AcctSvcrRef') || childText(details, 'Refs', 'AcctSvcrRef');
+  const endToEndId = childText(details, 'Refs', 'EndToEndId');
+
+  return {
+    date,
+    amount,
+    description:
+      childText(entry, 'AddtlNtryInf') || remittance || counterparty || bankTransactionCode || 'Bank entry',
+    type: indicator === 'DBIT' ? 'debit' : 'credit',
+    reference:
+      bankReference ||
+      childText(entry, 'NtryRef') ||
+      (endToEndId && endToEndId !== 'NOTPROVIDED' ? endToEndId : undefined),
+    metadata: {
+      bankReference,
+      entryReference: childText(entry, 'NtryRef'),
+      valueDate: dateOf(child(entry, 'ValDt')),
+      endToEndId,
+      counterparty,
+      remittanceInfo: remittance || undefined,
+      bankTransactionCode: bankTransactionCode || childText(entry, 'BkTxCd', 'Prtry', 'Cd'),
+      reversal: childText(entry, 'RvslInd') === 'true' || undefined,
+      currency: amountElement?.attributes.Ccy,
+    },
+    rawRow: { index, amount: amountElement?.text, indicator, status: entryStatus(entry) },
+    rowNumber: index + 1,
+  };
+}
+
+function readStatement(statement: XmlElement, format: BankStatementFormat): ParsedBankStatement {
+  const account = child(statement, 'Acct');
+  const currency = childText(account, 'Ccy') || child(children(statement, 'Bal')[0], 'Amt')?.attributes.Ccy || '';
+  const balances = readBalances(statement, currency);
+  const entries = children(statement, 'Ntry');
+  const booked = entries.filter((entry) => entryStatus(entry) === 'BOOK');
+
+  return {
+    format,
+    statementId: childText(statement, 'Id') || '',
+    sequenceNumber: childText(statement, 'ElctrncSeqNb') || childText(statement, 'LglSeqNb'),
+    createdAt: childText(statement, 'CreDtTm'),
+    account: {
+      iban: childText(account, 'Id', 'IBAN'),
+      accountNumber: childText(account, 'Id', 'Othr', 'Id'),
+      bic: childText(account, 'Svcr', 'FinInstnId', 'BICFI') || childText(account, 'Svcr', 'FinInstnId', 'BIC'),
+      ownerName: childText(account, 'Ownr', 'Nm'),
+    },
+    currency,
+    openingBalance: balances.opening,
+    closingBalance: balances.closing,
+    closingAvailableBalance: balances.available,
+    declaredTotals: readTotals(statement),
+    transactions: booked.map((entry) => readEntry(entry, entries.indexOf(entry))),
+    pendingCount: entries.length - booked.length,
+  };
+}
+
+/**
+ * Parse a camt.053 or camt.052 document into statements
+ */
+export function parseCamt(content: string): BankStatementParseResult {
+  const result: BankStatementParseResult = {
+    success: false,
+    format: null,
+    statements: [],
+    errors: [],
+    warnings: [],
+  };
+
+  let document: XmlElement;
+  try {
+    document = parseXml(content);
+  } catch (error) {
+    result.errors.push({ message: `Invalid XML: ${error instanceof Error ? error.message : 'Unknown error'}` });
+    return result;
+  }
+
+  const statementMessage = child(document, 'BkToCstmrStmt');
+  const reportMessage = child(document, 'BkToCstmrAcctRpt');
+  const message = statementMessage || reportMessage;
+
+  if (!message) {
+    result.errors.push({ message: 'Not a camt.053 or camt.052 document (BkToCstmrStmt/BkToCstmrAcctRpt not found)' });
+    return result;
+  }
+
+  result.format = statementMessage ? 'camt.053' : 'camt.052';
+  const blocks = children(message, statementMessage ? 'Stmt' : 'Rpt');
+
+  for (const block of blocks) {
+    const statementId = childText(block, 'Id');
+    try {
+      const statement = readStatement(block, result.format);
+
+      if (!statement.account.iban && !statement.account.accountNumber) {
+        result.errors.push({ statementId, field: 'Acct', message: 'Statement has no account identification' });
+        continue;
+      }
+      if (result.format === 'camt.053' && (!statement.openingBalance || !statement.closingBalance)) {
+        result.errors.push({ statementId, field: 'Bal', message: 'camt.053 statement is missing its opening or closing booked balance' });
+        continue;
+      }
+      if (!statement.openingBalance || !statement.closingBalance) {
+        result.warnings.push(`Report ${statementId}: balances incomplete, running balance could not be verified`);
+      }
+      if (statement.pendingCount > 0) {
+        result.warnings.push(`Statement ${statementId}: ${statement.pendingCount} pending entries were not imported`);
+      }
+
+      result.errors.push(...verifyStatement(statement));
+      result.statements.push(statement);
+    } catch (error) {
+      result.errors.push({
+        statementId,
+        message: error instanceof Error ? error.message : 'Failed to read statement',
+      });
+    }
+  }
+
+  if (blocks.length === 0) {
+    result.errors.push({ message: 'Document contains no statements' });
+  }
+
+  result.success = result.errors.length === 0;
+  return result;
+}
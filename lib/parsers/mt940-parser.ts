@@ -0,0 +1,259 @@
+// SWIFT MT940 (customer statement) and MT942 (interim transaction report) parser
+// Accepts raw tag text or full FIN messages wrapped in {1:}{2:}{4:...-} blocks
+
+import type { ParsedTransaction } from './csv-parser';
+import {
+  parseStatementAmount,
+  verifyStatement,
+  type BankStatementParseResult,
+  type ParsedBankStatement,
+  type StatementBalance,
+} from './statement-utils';
+
+interface Mt9xxField {
+  tag: string;
+  value: string;
+}
+
+const IBAN_PATTERN = /^[A-Z]{2}\d{2}[A-Z0-9]{10,30}$/;
+
+// :60F:C250301EUR1234,56
+const BALANCE_PATTERN = /^([CD])(\d{6})([A-Z]{3})([\d,]+)$/;
+
+// :61:2503030303D1234,56NTRFREF123//BANKREF\nSupplementary
+const STATEMENT_LINE_PATTERN =
+  /^(\d{6})(\d{4})?(R?[CD])([A-Z])?([\d,]+)([NFS][A-Z0-9]{3})([^/\n]*?)(?:\/\/([^\n]*))?(?:\n([\s\S]*))?$/;
+
+// :90D:12EUR1234,56
+const TOTALS_PATTERN = /^(\d+)([A-Z]{3})([\d,]+)$/;
+
+function swiftDate(yymmdd: string): string {
+  return `20${yymmdd.slice(0, 2)}-${yymmdd.slice(2, 4)}-${yymmdd.slice(4, 6)}`;
+}
+
+/**
+ * Split a file into individual messages (block 4 bodies, or raw text split on "-" terminators)
+ */
+function splitMessages(content: string): string[] {
+  const normalized = content.replace(/\r\n?/g, '\n');
+
+  if (normalized.includes('{4:')) {
+    return Array.from(normalized.matchAll(/\{4:\n?([\s\S]*?)\n?-\}/g)).map((m) => m[1]);
+  }
+
+  // Some exports omit the "-" terminator, so also start a new message at every :20:
+  return normalized
+    .split(/\n-\s*(?:\n|$)/)
+    .flatMap((chunk) => chunk.split(/\n(?=:20:)/))
+    .map((message) => message.trim())
+    .filter((message) => message.includes(':20:'));
+}
+
+function splitFields(message: string): Mt9xxField[] {
+  const fields: Mt9xxField[] = [];
+
+  for (const line of message.split('\n')) {
+    const match = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (match) {
+      fields.push({ tag: match[1], value: match[2] });
+    } else if (fields.length > 0 && line.trim() !== '') {
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  }
+
+  return fields;
+}
+
+function readBalance(value: string, field: string): StatementBalance {
+  const match = value.trim().match(BALANCE_PATTERN);
+  if (!match) {
+    throw new Error(`Invalid balance in :${field}: ${value}`);
+  }
+  const amount = parseStatementAmount(match[4]);
+  return {
+    amount: match[1] === 'D' ? -amount : amount,
+    date: swiftDate(match[2]),
+    currency: match[3],
+  };
+}
+
+/**
+ * Field 86 free text. German/Dutch banks structure it with ?NN subfields
+ * (?20-?29 remittance, ?32/?33 counterparty name); everything else is plain text.
+ */
+function readInformation(value: string | undefined): { description?: string; counterparty?: string } {
+  if (!value) return {};
+  const text = value.replace(/\n/g, '');
+
+  if (/\?\d{2}/.test(text)) {
+    const subfields: Record<string, string> = {};
+    for (const match of text.matchAll(/\?(\d{2})([^?]*)/g)) {
+      subfields[match[1]] = (subfields[match[1]] || '') + match[2];
+    }
+    const remittance = ['20', '21', '22', '23', '24', '25', '26', '27', '28', '29']
+      .map((key) => subfields[key])
+      .filter(Boolean)
+      .join(' ')
+      .trim();
+    const counterparty = [subfields['32'], subfields['33']].filter(Boolean).join('').trim();
+    return { description: remittance || subfields['00'] || undefined, counterparty: counterparty || undefined };
+  }
+
+  return { description: value.replace(/\n/g, ' ').trim() };
+}
+
+function readStatementLine(value: string, information: string | undefined, index: number): ParsedTransaction {
+  const match = value.match(STATEMENT_LINE_PATTERN);
+  if (!match) {
+    throw new Error(`Invalid statement line :61:${value.split('\n')[0]}`);
+  }
+
+  const [, valueDate, entryDate, mark, , amountText, typeCode, customerRef, bankRef, supplementary] = match;
+  const valueDateIso = swiftDate(valueDate);
+
+  // Entry date is MMDD; it can fall in the year after the value date around new year
+  let bookingDate = valueDateIso;
+  if (entryDate) {
+    let year = Number(valueDateIso.slice(0, 4));
+    const valueMonth = Number(valueDateIso.slice(5, 7));
+    const entryMonth = Number(entryDate.slice(0, 2));
+    if (valueMonth === 12 && entryMonth === 1) year++;
+    if (valueMonth === 1 && entryMonth === 12) year--;
+    bookingDate = `${year}-${entryDate.slice(0, 2)}-${entryDate.slice(2, 4)}`;
+  }
+
+  // RC (reversal of credit) debits the account, RD (reversal of debit) credits it
+  const isDebit = mark === 'D' || mark === 'RC';
+  const amount = parseStatementAmount(amountText);
+  const info = readInformation(information);
+  const reference = customerRef && customerRef !== 'NONREF' ? customerRef.trim() : undefined;
+  const bankReference = bankRef && bankRef.trim() !== 'NONREF' ? bankRef.trim() : undefined;
+
+  return {
+    date: bookingDate,
+    amount: isDebit ? -amount : amount,
+    description: info.description || supplementary?.trim() || info.counterparty || typeCode,
+    type: isDebit ? 'debit' : 'credit',
+    reference: bankReference || reference,
+    metadata: {
+      valueDate: valueDateIso,
+      transactionType: typeCode,
+      customerReference: reference,
+      bankReference,
+      counterparty: info.counterparty,
+      supplementary: supplementary?.trim() || undefined,
+      reversal: mark.startsWith('R') || undefined,
+    },
+    rawRow: { line61: value, line86: information },
+    rowNumber: index + 1,
+  };
+}
+
+function readMessage(message: string): ParsedBankStatement {
+  const fields = splitFields(message);
+  const value = (tag: string) => fields.find((f) => f.tag === tag)?.value.trim();
+  const isInterim = fields.some((f) => f.tag === '13D' || f.tag.startsWith('34'));
+
+  const account = (value('25') || '').replace(/\s+/g, '');
+  const [bankCode, accountPart] = account.includes('/') ? account.split('/', 2) : [undefined, account];
+  const accountId = accountPart || account;
+
+  const openingField = fields.find((f) => f.tag === '60F' || f.tag === '60M');
+  const closingField = fields.find((f) => f.tag === '62F' || f.tag === '62M');
+  const availableField = fields.find((f) => f.tag === '64');
+
+  const transactions: ParsedTransaction[] = [];
+  fields.forEach((field, index) => {
+    if (field.tag !== '61') return;
+    const next = fields[index + 1];
+    transactions.push(readStatementLine(field.value, next?.tag === '86' ? next.value : undefined, transactions.length));
+  });
+
+  const openingBalance = openingField ? readBalance(openingField.value, openingField.tag) : undefined;
+  const closingBalance = closingField ? readBalance(closingField.value, closingField.tag) : undefined;
+
+  let declaredTotals: ParsedBankStatement['declaredTotals'];
+  const debitTotals = value('90D')?.match(TOTALS_PATTERN);
+  const creditTotals = value('90C')?.match(TOTALS_PATTERN);
+  if (debitTotals || creditTotals) {
+    declaredTotals = {
+      debitCount: Number(debitTotals?.[1] || 0),
+      debitSum: debitTotals ? parseStatementAmount(debitTotals[3]) : 0,
+      creditCount: Number(creditTotals?.[1] || 0),
+      creditSum: creditTotals ? parseStatementAmount(creditTotals[3]) : 0,
+    };
+  }
+
+  // MT942 floor limit (:34F:EURD0,) carries the currency when there are no balances
+  const floorCurrency = value('34F')?.slice(0, 3);
+
+  return {
+    format: isInterim ? 'mt942' : 'mt940',
+    statementId: value('20') || '',
+    sequenceNumber: value('28C') || value('28'),
+    createdAt: value('13D'),
+    account: {
+      iban: IBAN_PATTERN.test(accountId) ? accountId : undefined,
+      accountNumber: IBAN_PATTERN.test(accountId) ? undefined : accountId,
+      bic: bankCode && /^[A-Z]{6}[A-Z0-9]{2}([A-Z0-9]{3})?$/.test(bankCode) ? bankCode : undefined,
+    },
+    currency: openingBalance?.currency || closingBalance?.currency || floorCurrency || debitTotals?.[2] || creditTotals?.[2] || '',
+    openingBalance,
+    closingBalance,
+    closingAvailableBalance: availableField ? readBalance(availableField.value, availableField.tag) : undefined,
+    declaredTotals,
+    transactions,
+    pendingCount: 0,
+  };
+}
+
+/**
+ * Parse an MT940/MT942 file that may contain several messages
+ */
+export function parseMt940(content: string): BankStatementParseResult {
+  const result: BankStatementParseResult = {
+    success: false,
+    format: null,
+    statements: [],
+    errors: [],
+    warnings: [],
+  };
+
+  const messages = splitMessages(content);
+  if (messages.length === 0) {
+    result.errors.push({ message: 'No MT940/MT942 messages found (missing :20: field)' });
+    return result;
+  }
+
+  for (const message of messages) {
+    let statement: ParsedBankStatement;
+    try {
+      statement = readMessage(message);
+    } catch (error) {
+      result.errors.push({ message: error instanceof Error ? error.message : 'Failed to read message' });
+      continue;
+    }
+
+    const statementId = statement.statementId;
+    if (!statement.account.iban && !statement.account.accountNumber) {
+      result.errors.push({ statementId, field: '25', message: 'Message has no account identification (:25:)' });
+      continue;
+    }
+    if (statement.format === 'mt940' && (!statement.openingBalance || !statement.closingBalance)) {
+      result.errors.push({ statementId, field: '60F/62F', message: 'MT940 statement is missing its opening or closing balance' });
+      continue;
+    }
+
+    result.errors.push(...verifyStatement(statement));
+    result.statements.push(statement);
+  }
+
+  const formats = new Set(result.statements.map((s) => s.format));
+  result.format = formats.size === 1 ? result.statements[0].format : formats.has('mt940') ? 'mt940' : null;
+  if (formats.size > 1) {
+    result.warnings.push('File mixes MT940 statements and MT942 interim reports');
+  }
+
+  result.success = result.errors.length === 0 && result.statements.length > 0;
+  return result;
+}
@@ -0,0 +1,211 @@
+// Shared types and checks for bank statement file parsers (camt.05x, MT940/MT942, BAI2)
+// Parsers produce ParsedTransaction rows plus the balances the bank reported
+
+import type { ParsedTransaction } from './csv-parser';
+import type { UpsertAccountStatementInput } from '../supabase';
+
+export type BankStatementFormat = 'camt.053' | 'camt.052' | 'mt940' | 'mt942' | 'bai2';
+
+export interface StatementBalance {
+  amount: number; // Signed: negative when the bank reports a debit balance
+  date: string; // YYYY-MM-DD
+  currency: string;
+}
+
+export interface StatementTotals {
+  debitCount: number;
+  debitSum: number;
+  creditCount: number;
+  creditSum: number;
+}
+
+export interface ParsedBankStatement {
+  format: BankStatementFormat;
+  statementId: string;
+  sequenceNumber?: string;
+  createdAt?: string;
+  account: {
+    iban?: string;
+    accountNumber?: string;
+    bic?: string;
+    ownerName?: string;
+  };
+  currency: string;
+  openingBalance?: StatementBalance;
+  closingBalance?: StatementBalance;
+  closingAvailableBalance?: StatementBalance;
+  declaredTotals?: StatementTotals; // Bank-reported entry counts/sums (camt TxsSummry, MT942 :90D:/:90C:)
+  transactions: ParsedTransaction[]; // Booked entries only; amounts signed (debit negative)
+  pendingCount: number; // Entries reported but not yet booked
+  intraday?: boolean; // Current-day report rather than an end-of-day statement
+}
+
+export interface StatementParseError {
+  statementId?: string;
+  row?: number; // Line number, for line-oriented formats
+  field?: string;
+  message: string;
+}
+
+export interface BankStatementParseResult {
+  success: boolean;
+  format: BankStatementFormat | null;
+  statements: ParsedBankStatement[];
+  errors: StatementParseError[];
+  warnings: string[];
+}
+
+// Half a minor unit - anything larger is a real break, not rounding
+const TIE_OUT_TOLERANCE = 0.005;
+
+/**
+ * Parse a bank amount: "1234,56" (SWIFT) or "1234.56" (ISO 20022)
+ */
+export function parseStatementAmount(value: string | undefined): number {
+  const cleaned = (value || '').trim().replace(',', '.');
+  if (!/^\d+(\.\d*)?$/.test(cleaned)) {
+    throw new Error(`Invalid amount: ${value}`);
+  }
+  return Number(cleaned);
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function sumTransactions(transactions: ParsedTransaction[]): number {
+  return roundCents(transactions.reduce((sum, tx) => sum + tx.amount, 0));
+}
+
+/**
+ * Verify the statement ties out: opening balance plus booked entries must
+ * equal the closing balance, and any bank-declared totals must match.
+ */
+export function verifyStatement(statement: ParsedBankStatement): StatementParseError[] {
+  const errors: StatementParseError[] = [];
+  const statementId = statement.statementId;
+  const { openingBalance, closingBalance, declaredTotals, transactions } = statement;
+
+  if (openingBalance && closingBalance) {
+    const expected = roundCents(openingBalance.amount + sumTransactions(transactions));
+    if (Math.abs(expected - closingBalance.amount) > TIE_OUT_TOLERANCE) {
+      errors.push({
+        statementId,
+        field: 'closingBalance',
+        message: `Running balance does not tie out: opening ${openingBalance.amount.toFixed(2)} + entries ${sumTransactions(transactions).toFixed(2)} = ${expected.toFixed(2)}, but closing balance is ${closingBalance.amount.toFixed(2)}`,
+      });
+    }
+  }
+
+  for (const balance of [openingBalance, closingBalance, statement.closingAvailableBalance]) {
+    if (balance && balance.currency !== statement.currency) {
+      errors.push({
+        statementId,
+        field: 'currency',
+        message: `Balance currency ${balance.currency} does not match account currency ${statement.currency}`,
+      });
+    }
+  }
+
+  if (declaredTotals) {
+    const debits = transactions.filter((tx) => tx.type === 'debit');
+    const credits = transactions.filter((tx) => tx.type === 'credit');
+    const debitSum = roundCents(Math.abs(sumTransactions(debits)));
+    const creditSum = sumTransactions(credits);
+
+    if (debits.length !== declaredTotals.debitCount || Math.abs(debitSum - declaredTotals.debitSum) > TIE_OUT_TOLERANCE) {
+      errors.push({
+        statementId,
+        field: 'declaredTotals',
+        message: `Debit entries (${debits.length}, ${debitSum.toFixed(2)}) do not match the bank totals (${declaredTotals.debitCount}, ${declaredTotals.debitSum.toFixed(2)})`,
+      });
+    }
+    if (credits.length !== declaredTotals.creditCount || Math.abs(creditSum - declaredTotals.creditSum) > TIE_OUT_TOLERANCE) {
+      errors.push({
+        statementId,
+        field: 'declaredTotals',
+        message: `Credit entries (${credits.length}, ${creditSum.toFixed(2)}) do not match the bank totals (${declaredTotals.creditCount}, ${declaredTotals.creditSum.toFixed(2)})`,
+      });
+    }
+  }
+
+  return errors;
+}
+
+function previousDay(date: string): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() - 1);
+  return d.toISOString().split('T')[0];
+}
+
+/**
+ * Dedup keys for a statement's transactions, unique within the account.
+ * Only the bank's own reference (camt AcctSvcrRef, MT940/BAI2 bank reference)
+ * identifies an entry across files; customer and end-to-end references are
+ * set by the payer and repeat. Entries without one, or whose reference repeats
+ * within the statement, are keyed by statement id and entry position.
+ */
+export function statementTransactionKeys(statement: ParsedBankStatement): string[] {
+  const counts = new Map<string, number>();
+  for (const tx of statement.transactions) {
+    const ref = tx.metadata?.bankReference;
+    if (ref) counts.set(ref, (counts.get(ref) || 0) + 1);
+  }
+
+  return statement.transactions.map((tx) => {
+    const ref = tx.metadata?.bankReference;
+    return ref && counts.get(ref) === 1
+      ? `ref:${ref}`
+      : `${statement.format}:${statement.statementId}:${tx.rowNumber}`;
+  });
+}
+
+/**
+ * Turn reported balances into account_statements rows.
+ * The opening balance is the previous day's closing position, so banks that
+ * date it on the statement day itself are shifted back one day.
+ */
+export function toStatementInputs(
+  statement: ParsedBankStatement,
+  tenantId: string,
+  accountId: string
+): UpsertAccountStatementInput[] {
+  const inputs: UpsertAccountStatementInput[] = [];
+  const { openingBalance, closingBalance, closingAvailableBalance } = statement;
+  const metadata = {
+    format: statement.format,
+    statement_id: statement.statementId,
+    sequence_number: statement.sequenceNumber,
+  };
+
+  if (openingBalance) {
+    const closingDate = closingBalance?.date;
+    inputs.push({
+      tenantId,
+      accountId,
+      statementDate: closingDate && openingBalance.date >= closingDate ? previousDay(closingDate) : openingBalance.date,
+      endingBalance: openingBalance.amount,
+      currency: openingBalance.currency,
+      source: 'imported',
+      confidence: 'high',
+      metadata: { ...metadata, balance_type: 'opening' },
+    });
+  }
+
+  if (closingBalance) {
+    inputs.push({
+      tenantId,
+      accountId,
+      statementDate: closingBalance.date,
+      endingBalance: closingBalance.amount,
+      availableBalance: closingAvailableBalance?.amount ?? closingBalance.amount,
+      currency: closingBalance.currency,
+      source: 'imported',
+      // Intraday reports are a snapshot, not the end-of-day position
+      confidence: statement.intraday || statement.format === 'camt.052' || statement.format === 'mt942' ? 'medium' : 'high',
+      metadata: { ...metadata, balance_type: 'closing' },
+    });
+  }
+
+  return inputs;
+}
@@ -0,0 +1,123 @@
+// Minimal XML reader for bank statement files
+// Builds an element tree with namespace prefixes stripped; no DTD or external entity support
+
+export interface XmlElement {
+  name: string; // Local name (prefix removed)
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string; // Concatenated direct text content, trimmed
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+function localName(name: string): string {
+  const index = name.indexOf(':');
+  return index >= 0 ? name.slice(index + 1) : name;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:.-]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+    attributes[localName(match[1])] = decodeEntities(match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+/**
+ * Parse an XML document and return its root element
+ * Throws on unbalanced or malformed markup
+ */
+export function parseXml(content: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+  const tagPattern = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+
+  let cursor = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagPattern.exec(content)) !== null) {
+    const current = stack[stack.length - 1];
+    const between = content.slice(cursor, match.index);
+    if (between.includes('<')) {
+      throw new Error(`Malformed XML near position ${cursor}`);
+    }
+    current.text += decodeEntities(between);
+    cursor = tagPattern.lastIndex;
+
+    const [, cdata, closing, name, attributeSource, selfClosing] = match;
+
+    if (cdata !== undefined) {
+      current.text += cdata;
+      continue;
+    }
+    if (!name) continue; // Comment, declaration or doctype
+
+    if (closing) {
+      if (stack.length === 1 || localName(name) !== current.name) {
+        throw new Error(`Unexpected closing tag </${name}>`);
+      }
+      current.text = current.text.trim();
+      stack.pop();
+      continue;
+    }
+
+    const element: XmlElement = {
+      name: localName(name),
+      attributes: parseAttributes(attributeSource || ''),
+      children: [],
+      text: '',
+    };
+    current.children.push(element);
+    if (!selfClosing) {
+      stack.push(element);
+    }
+  }
+
+  if (stack.length !== 1) {
+    throw new Error(`Unclosed element <${stack[stack.length - 1].name}>`);
+  }
+  if (content.slice(cursor).includes('<')) {
+    throw new Error(`Malformed XML near position ${cursor}`);
+  }
+
+  const documentElement = root.children[0];
+  if (!documentElement) {
+    throw new Error('XML document has no root element');
+  }
+  return documentElement;
+}
+
+/**
+ * Follow a path of child element names, e.g. child(ntry, 'BookgDt', 'Dt')
+ */
+export function child(element: XmlElement | undefined, ...path: string[]): XmlElement | undefined {
+  let current = element;
+  for (const name of path) {
+    current = current?.children.find((c) => c.name === name);
+    if (!current) return undefined;
+  }
+  return current;
+}
+
+export function children(element: XmlElement | undefined, name: string): XmlElement[] {
+  return element ? element.children.filter((c) => c.name === name) : [];
+}
+
+export function childText(element: XmlElement | undefined, ...path: string[]): string | undefined {
+  const found = child(element, ...path);
+  return found?.text || undefined;
+}
@@ -0,0 +1,318 @@
+// NACHA ACH file generator (CCD credits)
+// Fixed-width 94 character records, one batch per debtor account / effective date
+
+import {
+  isValidAbaRouting,
+  sanitizeBankText,
+  toMinorUnits,
+  type PaymentFileIssue,
+} from './validation';
+import type {
+  GeneratedPaymentFile,
+  PaymentFileDebtorGroup,
+  PaymentFileInstruction,
+  PaymentFileParty,
+} from './types';
+
+export const NACHA_RECORD_LENGTH = 94;
+const BLOCKING_FACTOR = 10;
+const SERVICE_CLASS_CREDITS = '220';
+
+// Transaction codes for automated credits
+const TRANSACTION_CODES = { checking: '22', savings: '32' } as const;
+
+function alpha(value: string | null | undefined, length: number): string {
+  return sanitizeBankText(value, length).toUpperCase().padEnd(length, ' ');
+}
+
+function numeric(value: number | string, length: number): string {
+  return String(value).padStart(length, '0').slice(-length);
+}
+
+function yymmdd(date: string): string {
+  return date.replace(/-/g, '').slice(2, 8);
+}
+
+/**
+ * Individual identification number (15 chars) - payment IDs without the PAY- prefix
+ */
+function individualId(paymentId: string): string {
+  return paymentId.replace(/^PAY-/, '');
+}
+
+/**
+ * NACHA company identification: 10 characters, conventionally '1' + EIN digits
+ */
+function companyId(taxId?: string | null): string {
+  const digits = (taxId || '').replace(/\D/g, '');
+  return (digits.length === 9 ? `1${digits}` : digits).padEnd(10, ' ').slice(0, 10);
+}
+
+export function validateNachaInput(
+  originator: PaymentFileParty,
+  groups: PaymentFileDebtorGroup[]
+): PaymentFileIssue[] {
+  const issues: PaymentFileIssue[] = [];
+
+  if (!originator.name?.trim()) {
+    issues.push({ field: 'originator.name', message: 'Originator company name is required' });
+  }
+  if (!originator.taxId || (originator.taxId.replace(/\D/g, '').length !== 9)) {
+    issues.push({ field: 'originator.taxId', message: 'Originator EIN (9 digits) is required for the company identification', value: originator.taxId });
+  }
+
+  for (const { account, payments } of groups) {
+    if (!isValidAbaRouting(account.routingNumber)) {
+      issues.push({ field: 'debtor.routingNumber', message: `Debtor account ${account.accountId} needs a valid ABA routing number`, value: account.routingNumber });
+    }
+    if (account.currency !== 'USD') {
+      issues.push({ field: 'debtor.currency', message: `Debtor account ${account.accountId} is not a USD account` });
+    }
+
+    for (const payment of payments) {
+      const paymentId = payment.paymentId;
+      if (payment.currency !== 'USD') {
+        issues.push({ paymentId, field: 'currency', message: 'NACHA files only support USD payments', value: payment.currency });
+      }
+      if (!(payment.amount > 0)) {
+        issues.push({ paymentId, field: 'amount', message: 'Amount must be greater than zero', value: payment.amount });
+      }
+      if (toMinorUnits(payment.amount) > 99999999.99 * 100) {
+        issues.push({ paymentId, field: 'amount', message: 'Amount exceeds the NACHA entry limit', value: payment.amount });
+      }
+      if (!isValidAbaRouting(payment.creditorRoutingNumber)) {
+        issues.push({ paymentId, field: 'creditorRoutingNumber', message: 'Beneficiary ABA routing number fails checksum validation', value: payment.creditorRoutingNumber });
+      }
+      if (!payment.creditorAccountNumber || !/^[A-Za-z0-9 -]{1,17}$/.test(payment.creditorAccountNumber)) {
+        issues.push({ paymentId, field: 'creditorAccountNumber', message: 'Beneficiary account number is required (max 17 characters)', value: payment.creditorAccountNumber });
+      }
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(payment.executionDate)) {
+        issues.push({ paymentId, field: 'executionDate', message: 'Execution date must be YYYY-MM-DD', value: payment.executionDate });
+      }
+      if (individualId(payment.paymentId).length > 15) {
+        issues.push({ paymentId, field: 'paymentId', message: 'Payment ID exceeds 15 characters (individual identification number)' });
+      }
+    }
+  }
+
+  return issues;
+}
+
+export function buildNachaFile(params: {
+  fileIdModifier?: string;
+  createdAt: Date;
+  originator: PaymentFileParty;
+  groups: PaymentFileDebtorGroup[];
+}): GeneratedPaymentFile {
+  const { createdAt, originator, groups } = params;
+  const fileIdModifier = (params.fileIdModifier || 'A').toUpperCase().slice(0, 1);
+  const issues = validateNachaInput(originator, groups);
+
+  const created = createdAt.toISOString();
+  const creationDate = yymmdd(created.slice(0, 10));
+  const creationTime = created.slice(11, 16).replace(':', '');
+  const company = companyId(originator.taxId);
+  const firstRouting = numeric(groups[0]?.account.routingNumber || '', 9);
+
+  const records: string[] = [
+    '1' +
+      '01' +
+      ` ${firstRouting}` +
+      company.padStart(10, ' ') +
+      creationDate +
+      creationTime +
+      fileIdModifier +
+      '094' +
+      numeric(BLOCKING_FACTOR, 2) +
+      '1' +
+      alpha(groups[0]?.account.bankName, 23) +
+      alpha(originator.name, 23) +
+      ''.padEnd(8, ' '),
+  ];
+
+  let batchNumber = 0;
+  let fileEntryCount = 0;
+  let fileEntryHash = 0;
+  let fileCreditMinor = 0;
+
+  for (const { account, payments } of groups) {
+    const odfi = numeric(account.routingNumber || '', 9).slice(0, 8);
+
+    const batches = new Map<string, PaymentFileInstruction[]>();
+    for (const payment of payments) {
+      batches.set(payment.executionDate, [...(batches.get(payment.executionDate) || []), payment]);
+    }
+
+    for (const [effectiveDate, batchPayments] of batches) {
+      batchNumber++;
+      let entryHash = 0;
+      let creditMinor = 0;
+
+      records.push(
+        '5' +
+          SERVICE_CLASS_CREDITS +
+          alpha(originator.name, 16) +
+          ''.padEnd(20, ' ') +
+          company +
+          'CCD' +
+          alpha('PAYMENTS', 10) +
+          creationDate +
+          yymmdd(effectiveDate) +
+          '   ' +
+          '1' +
+          odfi +
+          numeric(batchNumber, 7)
+      );
+
+      batchPayments.forEach((payment, index) => {
+        const routing = numeric(payment.creditorRoutingNumber || '', 9);
+        const amountMinor = toMinorUnits(payment.amount);
+        entryHash += Number(routing.slice(0, 8));
+        creditMinor += amountMinor;
+
+        records.push(
+          '6' +
+            TRANSACTION_CODES[payment.creditorAccountType || 'checking'] +
+            routing +
+            (payment.creditorAccountNumber || '').padEnd(17, ' ').slice(0, 17) +
+            numeric(amountMinor, 10) +
+            alpha(individualId(payment.paymentId), 15) +
+            alpha(payment.creditorName, 22) +
+            '  ' +
+            '0' +
+            odfi +
+            numeric(fileEntryCount + index + 1, 7)
+        );
+      });
+
+      records.push(
+        '8' +
+          SERVICE_CLASS_CREDITS +
+          numeric(batchPayments.length, 6) +
+          numeric(entryHash, 10) +
+          numeric(0, 12) +
+          numeric(creditMinor, 12) +
+          company +
+          ''.padEnd(19, ' ') +
+          ''.padEnd(6, ' ') +
+          odfi +
+          numeric(batchNumber, 7)
+      );
+
+      fileEntryCount += batchPayments.length;
+      fileEntryHash += entryHash;
+      fileCreditMinor += creditMinor;
+    }
+  }
+
+  // Block count includes the file control record and the 9-filler padding
+  const blockCount = Math.ceil((records.length + 1) / BLOCKING_FACTOR);
+  records.push(
+    '9' +
+      numeric(batchNumber, 6) +
+      numeric(blockCount, 6) +
+      numeric(fileEntryCount, 8) +
+      numeric(fileEntryHash, 10) +
+      numeric(0, 12) +
+      numeric(fileCreditMinor, 12) +
+      ''.padEnd(39, ' ')
+  );
+  while (records.length % BLOCKING_FACTOR !== 0) {
+    records.push('9'.repeat(NACHA_RECORD_LENGTH));
+  }
+
+  const content = records.join('\n') + '\n';
+  issues.push(...validateNachaFile(content));
+
+  return {
+    content,
+    messageId: `${creationDate}${creationTime}${fileIdModifier}`,
+    transactionCount: fileEntryCount,
+    controlSum: fileCreditMinor / 100,
+    batchCount: batchNumber,
+    issues,
+  };
+}
+
+/**
+ * Re-derive batch and file control totals from the entry records
+ */
+export function validateNachaFile(content: string): PaymentFileIssue[] {
+  const issues: PaymentFileIssue[] = [];
+  const lines = content.split('\n').filter((line) => line.length > 0);
+
+  lines.forEach((line, index) => {
+    if (line.length !== NACHA_RECORD_LENGTH) {
+      issues.push({ field: `record ${index + 1}`, message: `Record length ${line.length} is not ${NACHA_RECORD_LENGTH}` });
+    }
+  });
+  if (lines.length % BLOCKING_FACTOR !== 0) {
+    issues.push({ field: 'file', message: 'File is not padded to a multiple of 10 records' });
+  }
+
+  let batchEntries = 0;
+  let batchHash = 0;
+  let batchCredit = 0;
+  let batchCount = 0;
+  let fileEntries = 0;
+  let fileHash = 0;
+  let fileCredit = 0;
+  let fileControl: string | undefined;
+
+  for (const line of lines) {
+    switch (line[0]) {
+      case '5':
+        batchEntries = 0;
+        batchHash = 0;
+        batchCredit = 0;
+        batchCount++;
+        break;
+      case '6':
+        batchEntries++;
+        batchHash += Number(line.slice(3, 11));
+        batchCredit += Number(line.slice(29, 39));
+        break;
+      case '8': {
+        const batch = line.slice(87, 94);
+        if (Number(line.slice(4, 10)) !== batchEntries) {
+          issues.push({ field: `batch ${batch}`, message: 'Batch entry count does not match entry records' });
+        }
+        if (line.slice(10, 20) !== numeric(batchHash, 10)) {
+          issues.push({ field: `batch ${batch}`, message: 'Batch entry hash does not match entry records' });
+        }
+        if (Number(line.slice(32, 44)) !== batchCredit) {
+          issues.push({ field: `batch ${batch}`, message: 'Batch credit total does not match entry records' });
+        }
+        fileEntries += batchEntries;
+        fileHash += batchHash;
+        fileCredit += batchCredit;
+        break;
+      }
+      case '9':
+        if (!fileControl && !/^9+$/.test(line)) fileControl = line;
+        break;
+    }
+  }
+
+  if (!fileControl) {
+    issues.push({ field: 'file control', message: 'File control record is missing' });
+    return issues;
+  }
+  if (Number(fileControl.slice(1, 7)) !== batchCount) {
+    issues.push({ field: 'file control', message: 'Batch count does not match batch header records' });
+  }
+  if (Number(fileControl.slice(7, 13)) !== lines.length / BLOCKING_FACTOR) {
+    issues.push({ field: 'file control', message: 'Block count does not match the number of records' });
+  }
+  if (Number(fileControl.slice(13, 21)) !== fileEntries) {
+    issues.push({ field: 'file control', message: 'Entry count does not match entry records' });
+  }
+  if (fileControl.slice(21, 31) !== numeric(fileHash, 10)) {
+    issues.push({ field: 'file control', message: 'Entry hash does not match entry records' });
+  }
+  if (Number(fileControl.slice(43, 55)) !== fileCredit) {
+    issues.push({ field: 'file control', message: 'Credit total does not match entry records' });
+  }
+
+  return issues;
+}
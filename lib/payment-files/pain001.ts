@@ -0,0 +1,287 @@
+// ISO 20022 pain.001.001.09 (Customer Credit Transfer Initiation) generator
+// Builds one PmtInf block per debtor account / execution date / service level
+
+import {
+  formatMinorUnits,
+  isValidBic,
+  isValidIban,
+  normalizeIban,
+  sanitizeBankText,
+  toMinorUnits,
+  type PaymentFileIssue,
+} from './validation';
+import type {
+  GeneratedPaymentFile,
+  PaymentFileDebtorGroup,
+  PaymentFileInstruction,
+  PaymentFileParty,
+} from './types';
+
+export const PAIN001_NAMESPACE = 'urn:iso:std:iso:20022:tech:xsd:pain.001.001.09';
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function element(tag: string, value: string, attributes = ''): string {
+  return `<${tag}${attributes}>${escapeXml(value)}</${tag}>`;
+}
+
+function serviceLevel(payment: PaymentFileInstruction): 'SEPA' | 'URGP' | 'NURG' {
+  if (payment.priority === 'Urgent') return 'URGP';
+  if (payment.currency === 'EUR' && payment.creditorIban) return 'SEPA';
+  return 'NURG';
+}
+
+function partyXml(tag: string, party: PaymentFileParty): string {
+  const addressLines = (party.address || '')
+    .split(/[,\n]/)
+    .map((line) => sanitizeBankText(line, 70))
+    .filter(Boolean)
+    .slice(0, 7);
+
+  let address = '';
+  if (party.country || addressLines.length > 0) {
+    address =
+      '<PstlAdr>' +
+      (party.country ? element('Ctry', party.country.toUpperCase()) : '') +
+      addressLines.map((line) => element('AdrLine', line)).join('') +
+      '</PstlAdr>';
+  }
+
+  const id = party.taxId
+    ? `<Id><OrgId><Othr>${element('Id', sanitizeBankText(party.taxId, 35))}<SchmeNm><Cd>TXID</Cd></SchmeNm></Othr></OrgId></Id>`
+    : '';
+
+  return `<${tag}>${element('Nm', sanitizeBankText(party.name, 140))}${address}${id}</${tag}>`;
+}
+
+function accountXml(tag: string, iban?: string | null, accountNumber?: string | null, currency?: string): string {
+  const id = iban
+    ? element('IBAN', normalizeIban(iban))
+    : `<Othr>${element('Id', sanitizeBankText(accountNumber, 34))}</Othr>`;
+  return `<${tag}><Id>${id}</Id>${currency ? element('Ccy', currency) : ''}</${tag}>`;
+}
+
+function agentXml(tag: string, bic?: string | null): string {
+  return bic
+    ? `<${tag}><FinInstnId>${element('BICFI', bic.toUpperCase())}</FinInstnId></${tag}>`
+    : `<${tag}><FinInstnId><Othr><Id>NOTPROVIDED</Id></Othr></FinInstnId></${tag}>`;
+}
+
+/**
+ * Field-level checks against the pain.001.001.09 schema rules we rely on
+ */
+export function validatePain001Input(
+  initiatingParty: PaymentFileParty,
+  groups: PaymentFileDebtorGroup[]
+): PaymentFileIssue[] {
+  const issues: PaymentFileIssue[] = [];
+
+  if (!initiatingParty.name?.trim()) {
+    issues.push({ field: 'initiatingParty.name', message: 'Initiating party name is required' });
+  }
+  if (initiatingParty.country && !/^[A-Z]{2}$/.test(initiatingParty.country.toUpperCase())) {
+    issues.push({ field: 'initiatingParty.country', message: 'Country must be an ISO 3166 alpha-2 code', value: initiatingParty.country });
+  }
+
+  for (const { account, payments } of groups) {
+    if (account.iban && !isValidIban(account.iban)) {
+      issues.push({ field: 'debtor.iban', message: `Debtor account ${account.accountId} has an invalid IBAN`, value: account.iban });
+    }
+    if (!account.iban && !account.accountNumber) {
+      issues.push({ field: 'debtor.account', message: `Debtor account ${account.accountId} needs an IBAN or account number` });
+    }
+    if (!account.bic) {
+      issues.push({ field: 'debtor.bic', message: `Debtor account ${account.accountId} is missing a BIC` });
+    } else if (!isValidBic(account.bic)) {
+      issues.push({ field: 'debtor.bic', message: `Debtor account ${account.accountId} has an invalid BIC`, value: account.bic });
+    }
+
+    for (const payment of payments) {
+      const paymentId = payment.paymentId;
+      if (!(payment.amount > 0)) {
+        issues.push({ paymentId, field: 'amount', message: 'Amount must be greater than zero', value: payment.amount });
+      }
+      if (Math.abs(toMinorUnits(payment.amount) / 100 - payment.amount) > 1e-9) {
+        issues.push({ paymentId, field: 'amount', message: 'Amount cannot have more than 2 decimal places', value: payment.amount });
+      }
+      if (!/^[A-Z]{3}$/.test(payment.currency)) {
+        issues.push({ paymentId, field: 'currency', message: 'Currency must be an ISO 4217 code', value: payment.currency });
+      }
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(payment.executionDate)) {
+        issues.push({ paymentId, field: 'executionDate', message: 'Execution date must be YYYY-MM-DD', value: payment.executionDate });
+      }
+      if (!payment.creditorName?.trim()) {
+        issues.push({ paymentId, field: 'creditorName', message: 'Creditor name is required' });
+      }
+      if (payment.creditorIban && !isValidIban(payment.creditorIban)) {
+        issues.push({ paymentId, field: 'creditorIban', message: 'Creditor IBAN fails checksum validation', value: payment.creditorIban });
+      }
+      if (!payment.creditorIban && !payment.creditorAccountNumber) {
+        issues.push({ paymentId, field: 'creditorAccount', message: 'Creditor IBAN or account number is required' });
+      }
+      if (payment.creditorBic && !isValidBic(payment.creditorBic)) {
+        issues.push({ paymentId, field: 'creditorBic', message: 'Creditor BIC format is invalid', value: payment.creditorBic });
+      }
+      if (!payment.creditorIban && !payment.creditorBic) {
+        issues.push({ paymentId, field: 'creditorBic', message: 'Creditor BIC is required for non-IBAN payments' });
+      }
+      if (serviceLevel(payment) === 'SEPA' && !payment.creditorIban) {
+        issues.push({ paymentId, field: 'creditorIban', message: 'SEPA payments require a creditor IBAN' });
+      }
+      if (paymentId.length > 35) {
+        issues.push({ paymentId, field: 'paymentId', message: 'Payment ID exceeds 35 characters (EndToEndId)' });
+      }
+    }
+  }
+
+  return issues;
+}
+
+export function buildPain001(params: {
+  messageId: string;
+  createdAt: Date;
+  initiatingParty: PaymentFileParty;
+  groups: PaymentFileDebtorGroup[];
+}): GeneratedPaymentFile {
+  const { messageId, createdAt, initiatingParty, groups } = params;
+  const issues = validatePain001Input(initiatingParty, groups);
+
+  const paymentInfoBlocks: string[] = [];
+  let totalMinor = 0;
+  let totalCount = 0;
+
+  for (const { account, payments } of groups) {
+    // Split each debtor account's payments by execution date and service level
+    const blocks = new Map<string, PaymentFileInstruction[]>();
+    for (const payment of payments) {
+      const key = `${payment.executionDate}|${serviceLevel(payment)}`;
+      blocks.set(key, [...(blocks.get(key) || []), payment]);
+    }
+
+    for (const [key, blockPayments] of blocks) {
+      const [executionDate, level] = key.split('|');
+      const blockMinor = blockPayments.reduce((sum, p) => sum + toMinorUnits(p.amount), 0);
+      const pmtInfId = `${messageId}-${paymentInfoBlocks.length + 1}`.slice(0, 35);
+
+      const transactions = blockPayments
+        .map(
+          (payment) =>
+            '<CdtTrfTxInf>' +
+            `<PmtId>${element('InstrId', payment.paymentId)}${element('EndToEndId', payment.paymentId)}</PmtId>` +
+            `<Amt>${element('InstdAmt', formatMinorUnits(toMinorUnits(payment.amount)), ` Ccy="${payment.currency}"`)}</Amt>` +
+            (payment.creditorBic ? agentXml('CdtrAgt', payment.creditorBic) : '') +
+            partyXml('Cdtr', { name: payment.creditorName }) +
+            accountXml('CdtrAcct', payment.creditorIban, payment.creditorAccountNumber) +
+            (payment.remittanceInfo
+              ? `<RmtInf>${element('Ustrd', sanitizeBankText(payment.remittanceInfo, 140))}</RmtInf>`
+              : '') +
+            '</CdtTrfTxInf>'
+        )
+        .join('');
+
+      paymentInfoBlocks.push(
+        '<PmtInf>' +
+          element('PmtInfId', pmtInfId) +
+          element('PmtMtd', 'TRF') +
+          element('BtchBookg', 'true') +
+          element('NbOfTxs', String(blockPayments.length)) +
+          element('CtrlSum', formatMinorUnits(blockMinor)) +
+          `<PmtTpInf><SvcLvl>${element('Cd', level)}</SvcLvl></PmtTpInf>` +
+          `<ReqdExctnDt>${element('Dt', executionDate)}</ReqdExctnDt>` +
+          partyXml('Dbtr', initiatingParty) +
+          accountXml('DbtrAcct', account.iban, account.accountNumber, account.currency) +
+          agentXml('DbtrAgt', account.bic) +
+          element('ChrgBr', level === 'SEPA' ? 'SLEV' : 'SHAR') +
+          transactions +
+          '</PmtInf>'
+      );
+
+      totalMinor += blockMinor;
+      totalCount += blockPayments.length;
+    }
+  }
+
+  const content =
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    `<Document xmlns="${PAIN001_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">` +
+    '<CstmrCdtTrfInitn>' +
+    '<GrpHdr>' +
+    element('MsgId', messageId.slice(0, 35)) +
+    element('CreDtTm', createdAt.toISOString().split('.')[0]) +
+    element('NbOfTxs', String(totalCount)) +
+    element('CtrlSum', formatMinorUnits(totalMinor)) +
+    partyXml('InitgPty', initiatingParty) +
+    '</GrpHdr>' +
+    paymentInfoBlocks.join('') +
+    '</CstmrCdtTrfInitn>' +
+    '</Document>\n';
+
+  issues.push(...validatePain001Document(content));
+
+  return {
+    content,
+    messageId,
+    transactionCount: totalCount,
+    controlSum: totalMinor / 100,
+    batchCount: paymentInfoBlocks.length,
+    issues,
+  };
+}
+
+/**
+ * Structural checks on a generated document: namespace, transaction counts
+ * and control sums at group and payment-information level, text lengths
+ */
+export function validatePain001Document(xml: string): PaymentFileIssue[] {
+  const issues: PaymentFileIssue[] = [];
+  const sumMinor = (amounts: string[]) => amounts.reduce((sum, a) => sum + toMinorUnits(Number(a)), 0);
+  const instructedAmounts = (fragment: string) =>
+    Array.from(fragment.matchAll(/<InstdAmt Ccy="[A-Z]{3}">([0-9.]+)<\/InstdAmt>/g)).map((m) => m[1]);
+
+  if (!xml.includes(`xmlns="${PAIN001_NAMESPACE}"`)) {
+    issues.push({ field: 'Document', message: 'Missing pain.001.001.09 namespace' });
+  }
+
+  const header = xml.match(/<GrpHdr>.*?<NbOfTxs>(\d+)<\/NbOfTxs><CtrlSum>([0-9.]+)<\/CtrlSum>/);
+  if (!header) {
+    issues.push({ field: 'GrpHdr', message: 'Group header is missing NbOfTxs/CtrlSum' });
+    return issues;
+  }
+
+  const allAmounts = instructedAmounts(xml);
+  if (Number(header[1]) !== allAmounts.length) {
+    issues.push({ field: 'GrpHdr.NbOfTxs', message: `NbOfTxs ${header[1]} does not match ${allAmounts.length} transactions` });
+  }
+  if (toMinorUnits(Number(header[2])) !== sumMinor(allAmounts)) {
+    issues.push({ field: 'GrpHdr.CtrlSum', message: `CtrlSum ${header[2]} does not match the sum of instructed amounts` });
+  }
+
+  for (const block of xml.match(/<PmtInf>.*?<\/PmtInf>/g) || []) {
+    const id = block.match(/<PmtInfId>(.*?)<\/PmtInfId>/)?.[1];
+    const count = Number(block.match(/<NbOfTxs>(\d+)<\/NbOfTxs>/)?.[1]);
+    const ctrlSum = block.match(/<CtrlSum>([0-9.]+)<\/CtrlSum>/)?.[1];
+    const amounts = instructedAmounts(block);
+
+    if (count !== amounts.length) {
+      issues.push({ field: 'PmtInf.NbOfTxs', message: `Payment information ${id} count does not match its transactions` });
+    }
+    if (!ctrlSum || toMinorUnits(Number(ctrlSum)) !== sumMinor(amounts)) {
+      issues.push({ field: 'PmtInf.CtrlSum', message: `Payment information ${id} control sum does not match` });
+    }
+  }
+
+  for (const [, tag, value] of xml.matchAll(/<(MsgId|PmtInfId|InstrId|EndToEndId)>(.*?)<\/\1>/g)) {
+    if (value.length > 35) {
+      issues.push({ field: tag, message: `${tag} exceeds 35 characters`, value });
+    }
+  }
+
+  return issues;
+}
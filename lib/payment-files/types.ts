@@ -0,0 +1,49 @@
+// Payment file inputs shared by the pain.001 and NACHA generators
+
+import type { PaymentFileIssue } from './validation';
+
+export interface PaymentFileParty {
+  name: string;
+  taxId?: string | null;
+  address?: string | null; // Free-form, comma separated lines
+  country?: string | null; // ISO 3166 alpha-2
+}
+
+export interface PaymentFileDebtorAccount {
+  accountId: string;
+  iban?: string | null;
+  accountNumber?: string | null;
+  bic?: string | null;
+  routingNumber?: string | null;
+  currency: string;
+  bankName?: string | null;
+}
+
+export interface PaymentFileInstruction {
+  paymentId: string;
+  amount: number;
+  currency: string;
+  executionDate: string; // YYYY-MM-DD
+  priority?: string;
+  creditorName: string;
+  creditorIban?: string | null;
+  creditorBic?: string | null;
+  creditorAccountNumber?: string | null;
+  creditorRoutingNumber?: string | null;
+  creditorAccountType?: 'checking' | 'savings' | null;
+  remittanceInfo?: string | null;
+}
+
+export interface PaymentFileDebtorGroup {
+  account: PaymentFileDebtorAccount;
+  payments: PaymentFileInstruction[];
+}
+
+export interface GeneratedPaymentFile {
+  content: string;
+  messageId: string;
+  transactionCount: number;
+  controlSum: number;
+  batchCount: number;
+  issues: PaymentFileIssue[];
+}
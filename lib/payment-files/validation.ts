@@ -0,0 +1,88 @@
+// Payment file field validation
+// IBAN/BIC/ABA checks and text sanitisation shared by the pain.001 and NACHA generators
+
+export interface PaymentFileIssue {
+  paymentId?: string;
+  field: string;
+  message: string;
+  value?: any;
+}
+
+// IBAN lengths by country (SEPA area plus common non-SEPA IBAN countries)
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24, AE: 23, AT: 20, BE: 16, BG: 22, BH: 22, CH: 21, CY: 28, CZ: 24,
+  DE: 22, DK: 18, EE: 20, ES: 24, FI: 18, FR: 27, GB: 22, GI: 23, GR: 27,
+  HR: 21, HU: 28, IE: 22, IL: 23, IS: 26, IT: 27, LI: 21, LT: 20, LU: 20,
+  LV: 21, MC: 27, MT: 31, NL: 18, NO: 15, PL: 28, PT: 25, RO: 24, SA: 24,
+  SE: 24, SI: 19, SK: 24, SM: 27, TR: 26, VA: 22,
+};
+
+// BICFI pattern from the ISO 20022 schema
+const BIC_PATTERN = /^[A-Z0-9]{4}[A-Z]{2}[A-Z0-9]{2}([A-Z0-9]{3})?$/;
+const IBAN_PATTERN = /^[A-Z]{2}[0-9]{2}[A-Z0-9]{1,30}$/;
+
+export function normalizeIban(iban: string): string {
+  return iban.replace(/\s+/g, '').toUpperCase();
+}
+
+/**
+ * Validate an IBAN: structure, country length and ISO 7064 mod-97 checksum
+ */
+export function isValidIban(value?: string | null): boolean {
+  if (!value) return false;
+  const iban = normalizeIban(value);
+  if (!IBAN_PATTERN.test(iban)) return false;
+
+  const expectedLength = IBAN_LENGTHS[iban.slice(0, 2)];
+  if (expectedLength && iban.length !== expectedLength) return false;
+
+  // Move the first four characters to the end and convert letters to numbers (A=10 ... Z=35)
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const digits = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+export function isValidBic(value?: string | null): boolean {
+  if (!value) return false;
+  return BIC_PATTERN.test(value.replace(/\s+/g, '').toUpperCase());
+}
+
+/**
+ * Validate a US ABA routing number (9 digits, weighted 3-7-1 checksum)
+ */
+export function isValidAbaRouting(value?: string | null): boolean {
+  if (!value || !/^\d{9}$/.test(value)) return false;
+  const d = value.split('').map(Number);
+  const checksum = 3 * (d[0] + d[3] + d[6]) + 7 * (d[1] + d[4] + d[7]) + (d[2] + d[5] + d[8]);
+  return checksum % 10 === 0;
+}
+
+/**
+ * Restrict free text to the SWIFT/SEPA Latin character set accepted by banks
+ */
+export function sanitizeBankText(value: string | null | undefined, maxLength: number): string {
+  return (value || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^A-Za-z0-9/\-?:().,'+ ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, maxLength);
+}
+
+/**
+ * Amounts in payment files are summed in minor units to avoid float drift
+ */
+export function toMinorUnits(amount: number): number {
+  return Math.round(Number(amount) * 100);
+}
+
+export function formatMinorUnits(minor: number): string {
+  return (minor / 100).toFixed(2);
+}
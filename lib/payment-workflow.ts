@@ -0,0 +1,133 @@
+/**
+ * Payment workflow rules
+ * State machine and approval chain evaluation shared by the payment service
+ * and the payments UI
+ */
+
+import type { ApprovalPolicy, ApprovalStep, PaymentApproval, PaymentStatus, TenantRole } from './types/payment';
+
+export interface PaymentActor {
+  userId: string;
+  email?: string | null;
+  role: TenantRole;
+}
+
+export interface ApprovalProgress {
+  currentStep: number | null; // null once every step is satisfied
+  stepApprovals: number[];
+  complete: boolean;
+}
+
+export interface ApproverEvaluation {
+  allowed: boolean;
+  stepIndex?: number;
+  reason?: string;
+}
+
+// =====================================================
+// State Machine
+// =====================================================
+
+export const PAYMENT_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  Draft: ['Pending Approval', 'Cancelled'],
+  'Pending Approval': ['Approved', 'Rejected', 'Cancelled'],
+  Approved: ['Scheduled', 'Cancelled'],
+  Rejected: [],
+  Scheduled: ['Completed', 'Failed', 'Cancelled'],
+  Failed: ['Scheduled', 'Cancelled'],
+  Completed: [],
+  Cancelled: [],
+};
+
+export function canTransition(from: PaymentStatus, to: PaymentStatus): boolean {
+  return PAYMENT_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+// Used when no tenant policy matches the payment
+export const DEFAULT_APPROVAL_CHAIN: ApprovalStep[] = [
+  { name: 'Approval', roles: ['admin', 'owner'], approvals: 1 },
+];
+
+// =====================================================
+// Approval Chain Logic
+// =====================================================
+
+/**
+ * Pick the policy for a payment: active, matching currency (or any), and
+ * amount within [min_amount, max_amount). Currency-specific policies win,
+ * then the highest threshold.
+ */
+export function selectApprovalPolicy(
+  policies: ApprovalPolicy[],
+  amount: number,
+  currency: string
+): ApprovalPolicy | null {
+  const candidates = policies.filter(
+    (policy) =>
+      policy.is_active &&
+      (!policy.currency || policy.currency.toUpperCase() === currency.toUpperCase()) &&
+      amount >= Number(policy.min_amount) &&
+      (policy.max_amount === null || policy.max_amount === undefined || amount < Number(policy.max_amount))
+  );
+
+  candidates.sort((a, b) => {
+    if (!!a.currency !== !!b.currency) return a.currency ? -1 : 1;
+    return Number(b.min_amount) - Number(a.min_amount);
+  });
+
+  return candidates[0] || null;
+}
+
+export function getApprovalProgress(
+  chain: ApprovalStep[],
+  approvals: Pick<PaymentApproval, 'step_index' | 'decision'>[]
+): ApprovalProgress {
+  const stepApprovals = chain.map(
+    (_, index) =>
+      approvals.filter((approval) => approval.decision === 'approved' && approval.step_index === index).length
+  );
+  const currentStep = chain.findIndex((step, index) => stepApprovals[index] < step.approvals);
+
+  return {
+    currentStep: currentStep === -1 ? null : currentStep,
+    stepApprovals,
+    complete: currentStep === -1,
+  };
+}
+
+/**
+ * Check whether an actor may decide on the current approval step.
+ * Enforces dual control (creator cannot approve) and distinct approvers.
+ */
+export function evaluateApprover(params: {
+  chain: ApprovalStep[];
+  approvals: Pick<PaymentApproval, 'step_index' | 'decision' | 'user_id'>[];
+  createdBy?: string | null;
+  actor: PaymentActor;
+}): ApproverEvaluation {
+  const { chain, approvals, createdBy, actor } = params;
+
+  if (createdBy && createdBy === actor.userId) {
+    return { allowed: false, reason: 'Dual control: the creator of a payment cannot approve or reject it' };
+  }
+
+  if (approvals.some((approval) => approval.user_id === actor.userId)) {
+    return { allowed: false, reason: 'You have already recorded a decision on this payment' };
+  }
+
+  const progress = getApprovalProgress(chain, approvals);
+  if (progress.currentStep === null) {
+    return { allowed: false, reason: 'Approval chain is already complete' };
+  }
+
+  const step = chain[progress.currentStep];
+  if (!step.roles.includes(actor.role)) {
+    return {
+      allowed: false,
+      stepIndex: progress.currentStep,
+      reason: `Step "${step.name}" requires one of: ${step.roles.join(', ')}`,
+    };
+  }
+
+  return { allowed: true, stepIndex: progress.currentStep };
+}
@@ -0,0 +1,263 @@
+// Bank-to-ledger matching engine
+// Scores candidate matches on amount, date distance, reference and counterparty,
+// including one-to-many (one bank line, several ledger entries) and many-to-one
+
+import type { MatchSuggestion, ReconciliationItem } from '../types/reconciliation';
+
+export interface MatchingOptions {
+  dateToleranceDays: number;
+  maxGroupSize: number; // Largest side of a one-to-many / many-to-one match
+  minScore: number; // Below this a candidate is not suggested at all
+}
+
+export const DEFAULT_MATCHING_OPTIONS: MatchingOptions = {
+  dateToleranceDays: 3,
+  maxGroupSize: 4,
+  minScore: 0.5,
+};
+
+// Score at or above which the engine matches without review
+export const AUTO_MATCH_THRESHOLD = 0.75;
+
+// Amount equality is a gate, so it contributes a fixed base score
+const WEIGHTS = { amount: 0.4, date: 0.25, reference: 0.25, counterparty: 0.1 };
+const UNIQUE_CANDIDATE_BONUS = 0.1;
+const GROUP_PENALTY = 0.9;
+
+// Bound the subset search for grouped matches
+const MAX_GROUP_CANDIDATES = 20;
+
+const STOP_WORDS = new Set(['the', 'and', 'ltd', 'llc', 'inc', 'gmbh', 'plc', 'payment', 'transfer', 'from', 'for', 'ref']);
+
+// =====================================================
+// Helpers
+// =====================================================
+
+export function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+function sumCents(items: ReconciliationItem[]): number {
+  return items.reduce((sum, item) => sum + toCents(item.amount), 0);
+}
+
+function dayNumber(date: string): number {
+  return Math.floor(Date.parse(`${date.slice(0, 10)}T00:00:00Z`) / 86400000);
+}
+
+function dayDistance(a: ReconciliationItem, b: ReconciliationItem): number {
+  return Math.abs(dayNumber(a.date) - dayNumber(b.date));
+}
+
+function normalizeReference(value?: string | null): string {
+  return (value || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function tokens(value?: string | null): Set<string> {
+  return new Set(
+    (value || '')
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((token) => token.length >= 3 && !STOP_WORDS.has(token))
+  );
+}
+
+/**
+ * References match when one contains the other; descriptions are searched too
+ * because banks often truncate the reference into the narrative
+ */
+function referencesMatch(bank: ReconciliationItem, ledger: ReconciliationItem): boolean {
+  const bankRef = normalizeReference(bank.reference);
+  const ledgerRef = normalizeReference(ledger.reference);
+  const bankText = normalizeReference(`${bank.reference || ''} ${bank.description || ''}`);
+  const ledgerText = normalizeReference(`${ledger.reference || ''} ${ledger.description || ''}`);
+
+  if (bankRef.length >= 4 && ledgerText.includes(bankRef)) return true;
+  if (ledgerRef.length >= 4 && bankText.includes(ledgerRef)) return true;
+  return false;
+}
+
+function counterpartySimilarity(bank: ReconciliationItem, ledger: ReconciliationItem): number {
+  const a = tokens(bank.counterparty_name || bank.description);
+  const b = tokens(ledger.counterparty_name || ledger.description);
+  if (a.size === 0 || b.size === 0) return 0;
+
+  let shared = 0;
+  a.forEach((token) => {
+    if (b.has(token)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+// =====================================================
+// Scoring
+// =====================================================
+
+/**
+ * Score a proposed match. Returns null when the two sides do not net to the
+ * same amount or fall outside the date tolerance.
+ */
+export function scoreMatch(
+  bankItems: ReconciliationItem[],
+  ledgerItems: ReconciliationItem[],
+  options: MatchingOptions = DEFAULT_MATCHING_OPTIONS
+): MatchSuggestion | null {
+  if (bankItems.length === 0 || ledgerItems.length === 0) return null;
+  if (sumCents(bankItems) !== sumCents(ledgerItems)) return null;
+
+  let maxDays = 0;
+  let reference = false;
+  let counterparty = 0;
+
+  for (const bank of bankItems) {
+    for (const ledger of ledgerItems) {
+      maxDays = Math.max(maxDays, dayDistance(bank, ledger));
+      reference = reference || referencesMatch(bank, ledger);
+      counterparty = Math.max(counterparty, counterpartySimilarity(bank, ledger));
+    }
+  }
+
+  if (maxDays > options.dateToleranceDays) return null;
+
+  const reasons = ['amount'];
+  reasons.push(maxDays === 0 ? 'same_date' : `date_within_${maxDays}_days`);
+  if (reference) reasons.push('reference');
+  if (counterparty >= 0.5) reasons.push('counterparty');
+
+  let score =
+    WEIGHTS.amount +
+    WEIGHTS.date * (1 - maxDays / (options.dateToleranceDays + 1)) +
+    (reference ? WEIGHTS.reference : 0) +
+    WEIGHTS.counterparty * counterparty;
+
+  if (bankItems.length > 1 || ledgerItems.length > 1) {
+    score *= GROUP_PENALTY;
+    reasons.push(bankItems.length > 1 ? 'many_to_one' : 'one_to_many');
+  }
+
+  return {
+    bank_transaction_ids: bankItems.map((item) => item.transaction_id),
+    ledger_transaction_ids: ledgerItems.map((item) => item.transaction_id),
+    score: Math.round(Math.min(score, 1) * 10000) / 10000,
+    reasons,
+  };
+}
+
+// =====================================================
+// Matching
+// =====================================================
+
+/**
+ * Find the subset of candidates (2..maxSize items) that sums to the target
+ */
+function findSubsets(target: number, candidates: ReconciliationItem[], maxSize: number): ReconciliationItem[][] {
+  const results: ReconciliationItem[][] = [];
+  const cents = candidates.map((item) => toCents(item.amount));
+
+  const search = (start: number, remaining: number, chosen: number[]) => {
+    if (chosen.length >= 2 && remaining === 0) {
+      results.push(chosen.map((index) => candidates[index]));
+      return;
+    }
+    if (chosen.length === maxSize) return;
+
+    for (let i = start; i < candidates.length; i++) {
+      // Same-sign items only, so overshooting the target is a dead end
+      if (Math.abs(cents[i]) > Math.abs(remaining)) continue;
+      search(i + 1, remaining - cents[i], [...chosen, i]);
+    }
+  };
+
+  search(0, target, []);
+  return results;
+}
+
+function groupMatches(
+  singles: ReconciliationItem[],
+  pool: ReconciliationItem[],
+  singleSide: 'bank' | 'ledger',
+  options: MatchingOptions
+): MatchSuggestion[] {
+  const suggestions: MatchSuggestion[] = [];
+
+  for (const single of singles) {
+    const target = toCents(single.amount);
+    if (target === 0) continue;
+    const candidates = pool
+      .filter((item) => Math.sign(toCents(item.amount)) === Math.sign(target))
+      .filter((item) => dayDistance(single, item) <= options.dateToleranceDays)
+      .sort((a, b) => dayDistance(single, a) - dayDistance(single, b))
+      .slice(0, MAX_GROUP_CANDIDATES);
+
+    for (const subset of findSubsets(target, candidates, options.maxGroupSize)) {
+      const suggestion =
+        singleSide === 'bank' ? scoreMatch([single], subset, options) : scoreMatch(subset, [single], options);
+      if (suggestion && suggestion.score >= options.minScore) suggestions.push(suggestion);
+    }
+  }
+
+  return suggestions;
+}
+
+/**
+ * Propose matches between unmatched bank and ledger items. Each item appears
+ * in at most one proposal; the best-scoring candidates win.
+ */
+export function findMatches(
+  bankItems: ReconciliationItem[],
+  ledgerItems: ReconciliationItem[],
+  options: MatchingOptions = DEFAULT_MATCHING_OPTIONS
+): MatchSuggestion[] {
+  const ledgerByCents = new Map<number, ReconciliationItem[]>();
+  for (const ledger of ledgerItems) {
+    const key = toCents(ledger.amount);
+    ledgerByCents.set(key, [...(ledgerByCents.get(key) || []), ledger]);
+  }
+
+  // One-to-one candidates
+  const pairs: MatchSuggestion[] = [];
+  for (const bank of bankItems) {
+    for (const ledger of ledgerByCents.get(toCents(bank.amount)) || []) {
+      const suggestion = scoreMatch([bank], [ledger], options);
+      if (suggestion) pairs.push(suggestion);
+    }
+  }
+
+  // A pair that is the only candidate for both of its items is far more likely
+  const candidateCount = new Map<string, number>();
+  for (const pair of pairs) {
+    for (const id of [...pair.bank_transaction_ids, ...pair.ledger_transaction_ids]) {
+      candidateCount.set(id, (candidateCount.get(id) || 0) + 1);
+    }
+  }
+  for (const pair of pairs) {
+    const unique = [...pair.bank_transaction_ids, ...pair.ledger_transaction_ids].every((id) => candidateCount.get(id) === 1);
+    if (unique) {
+      pair.score = Math.min(1, Math.round((pair.score + UNIQUE_CANDIDATE_BONUS) * 10000) / 10000);
+      pair.reasons.push('unique_candidate');
+    }
+  }
+
+  const used = new Set<string>();
+  const accepted: MatchSuggestion[] = [];
+  const accept = (candidates: MatchSuggestion[]) => {
+    for (const candidate of [...candidates].sort((a, b) => b.score - a.score)) {
+      const ids = [...candidate.bank_transaction_ids, ...candidate.ledger_transaction_ids];
+      if (candidate.score < options.minScore || ids.some((id) => used.has(id))) continue;
+      ids.forEach((id) => used.add(id));
+      accepted.push(candidate);
+    }
+  };
+
+  accept(pairs);
+
+  // Grouped matches only among what one-to-one matching left over
+  const remainingBank = bankItems.filter((item) => !used.has(item.transaction_id));
+  const remainingLedger = ledgerItems.filter((item) => !used.has(item.transaction_id));
+  accept([
+    ...groupMatches(remainingBank, remainingLedger, 'bank', options),
+    ...groupMatches(remainingLedger, remainingBank, 'ledger', options),
+  ]);
+
+  return accepted.sort((a, b) => b.score - a.score);
+}
@@ -141,7 +141,7 @@ export async function createOrUpdateAccount(
   connectionId: string,
   providerId: string,
   providerAccount: ProviderAccount,
-  userId: string
+  userId: string | null
 ): Promise<AccountCreationResult> {
   try {
     // Step 1: Check for existing account
@@ -417,7 +417,7 @@ export async function batchCreateOrUpdateAccounts(
   connectionId: string,
   providerId: string,
   providerAccounts: ProviderAccount[],
-  userId: string
+  userId: string | null
 ): Promise<BatchAccountResult> {
   const successful: AccountCreationResult[] = [];
   const failed: Array<{ account: ProviderAccount; error: string }> = [];
@@ -0,0 +1,474 @@
+/**
+ * AI Categorization Service
+ * Sends uncategorized transactions to the model, applies high-confidence answers,
+ * queues the rest for review and turns accepted suggestions into rules
+ */
+
+import { supabase, createAuditLog } from '../supabase';
+import { roleAtLeast } from '../auth';
+import { errors } from '../security/error-handler';
+import { GeminiService } from './gemini-service';
+import { createRule } from './categorization-service';
+import {
+  AUTO_APPLY_CONFIDENCE,
+  buildRuleFromSuggestion,
+  categorizeTransactions,
+  createGeminiCategorizationModel,
+  normalizeDescription,
+  type CategorizationModel,
+  type CategoryOption,
+} from '../categorization/ai-categorizer';
+import { chunk } from '../utils';
+import type {
+  AiCategorizationRunResult,
+  AiCategorizationSuggestion,
+  AiCategoryResult,
+  AiSuggestionStatus,
+  CategorizableTransaction,
+  CategorizationRule,
+} from '../types/categorization';
+
+const TRANSACTION_COLUMNS =
+  'transaction_id, account_id, date, description, counterparty_name, merchant_name, amount, type, currency, category, provider_category, category_source';
+
+const DEFAULT_RUN_LIMIT = 500;
+const MAX_RUN_LIMIT = 2000;
+
+const KEY_CHUNK_SIZE = 50;
+
+export interface AiCategorizationActor {
+  userId: string;
+  role: string;
+}
+
+export interface AiCategorizationScope {
+  limit?: number;
+  accountId?: string; // accounts.account_id
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface ReviewDecision {
+  decision: 'accept' | 'reject';
+  categoryCode?: string; // Override the suggested category
+  counterpartyName?: string | null;
+  createRule?: boolean;
+}
+
+function assertCanEdit(actor: AiCategorizationActor) {
+  if (!roleAtLeast(actor.role, 'editor')) {
+    throw errors.forbidden('Only editors and above can run or review AI categorization');
+  }
+}
+
+function defaultModel(): CategorizationModel {
+  try {
+    return createGeminiCategorizationModel(GeminiService.getInstance());
+  } catch (error) {
+    throw errors.badRequest(
+      error instanceof Error ? error.message : 'Gemini is not configured',
+      'AI categorization is not configured for this environment'
+    );
+  }
+}
+
+// =====================================================
+// Lookups
+// =====================================================
+
+async function getCategoryOptions(): Promise<CategoryOption[]> {
+  const { data, error } = await supabase
+    .from('transaction_categories')
+    .select('category_code, category_name, category_type')
+    .eq('is_active', true)
+    .order('display_order', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map((row) => ({ code: row.category_code, name: row.category_name, type: row.category_type }));
+}
+
+/**
+ * Uncategorized transactions with no suggestion yet, newest first
+ */
+async function getCandidates(tenantId: string, scope: AiCategorizationScope): Promise<CategorizableTransaction[]> {
+  const limit = Math.min(Math.max(Math.trunc(Number(scope.limit) || DEFAULT_RUN_LIMIT), 1), MAX_RUN_LIMIT);
+
+  let query = supabase
+    .from('transactions')
+    .select(TRANSACTION_COLUMNS)
+    .eq('tenant_id', tenantId)
+    .or('category.is.null,category.in.(Uncategorized,uncategorized)')
+    .or('category_source.is.null,category_source.eq.provider')
+    .order('date', { ascending: false })
+    .limit(limit);
+
+  if (scope.accountId) query = query.eq('account_id', scope.accountId);
+  if (scope.startDate) query = query.gte('date', scope.startDate);
+  if (scope.endDate) query = query.lte('date', scope.endDate);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const rows = (data || []) as unknown as CategorizableTransaction[];
+  const suggested = new Set<string>();
+
+  for (const ids of chunk(rows.map((row) => row.transaction_id))) {
+    const { data: existing, error: existingError } = await supabase
+      .from('ai_categorization_suggestions')
+      .select('transaction_id')
+      .eq('tenant_id', tenantId)
+      .in('transaction_id', ids);
+
+    if (existingError) throw existingError;
+    for (const row of existing || []) suggested.add(row.transaction_id);
+  }
+
+  return rows.filter((row) => !suggested.has(row.transaction_id));
+}
+
+async function loadCache(tenantId: string, keys: string[]): Promise<Map<string, AiCategoryResult>> {
+  const cache = new Map<string, AiCategoryResult>();
+
+  for (const batch of chunk(keys, KEY_CHUNK_SIZE)) {
+    const { data, error } = await supabase
+      .from('ai_categorization_cache')
+      .select('description_key, category_code, counterparty_name, confidence')
+      .eq('tenant_id', tenantId)
+      .in('description_key', batch);
+
+    if (error) throw error;
+    for (const row of data || []) {
+      cache.set(row.description_key, {
+        category_code: row.category_code,
+        counterparty_name: row.counterparty_name,
+        confidence: Number(row.confidence),
+      });
+    }
+  }
+
+  return cache;
+}
+
+// =====================================================
+// Writes
+// =====================================================
+
+/**
+ * Set the category (and the counterparty where the transaction has none) on a
+ * group of transactions sharing one answer
+ */
+async function writeCategory(
+  tenantId: string,
+  transactionIds: string[],
+  values: {
+    category: string;
+    counterparty_name: string | null;
+    category_source: 'ai' | 'rule' | 'manual';
+    categorization_rule_id?: string | null;
+  },
+  options: { overwriteRules: boolean }
+): Promise<number> {
+  let updated = 0;
+
+  for (const ids of chunk(transactionIds)) {
+    let query = supabase
+      .from('transactions')
+      .update({
+        category: values.category,
+        category_source: values.category_source,
+        categorization_rule_id: values.categorization_rule_id ?? null,
+        categorized_at: new Date().toISOString(),
+      })
+      .eq('tenant_id', tenantId)
+      .in('transaction_id', ids);
+
+    // Model answers never replace rule or manual categories; reviewer decisions only skip manual ones
+    query = options.overwriteRules
+      ? query.or('category_source.is.null,category_source.neq.manual')
+      : query.or('category_source.is.null,category_source.eq.provider');
+
+    const { error } = await query;
+    if (error) throw error;
+
+    if (values.counterparty_name) {
+      const { error: counterpartyError } = await supabase
+        .from('transactions')
+        .update({ counterparty_name: values.counterparty_name })
+        .eq('tenant_id', tenantId)
+        .in('transaction_id', ids)
+        .is('counterparty_name', null);
+
+      if (counterpartyError) throw counterpartyError;
+    }
+
+    updated += ids.length;
+  }
+
+  return updated;
+}
+
+// =====================================================
+// Runs
+// =====================================================
+
+/**
+ * Categorize a batch of uncategorized transactions. Suggestions at or above
+ * AUTO_APPLY_CONFIDENCE are applied; the rest are queued for review.
+ */
+export async function runAiCategorization(
+  tenantId: string,
+  scope: AiCategorizationScope,
+  actor: AiCategorizationActor,
+  model?: CategorizationModel
+): Promise<AiCategorizationRunResult> {
+  assertCanEdit(actor);
+  const categorizer = model || defaultModel();
+
+  const [categories, candidates] = await Promise.all([getCategoryOptions(), getCandidates(tenantId, scope)]);
+  const result: AiCategorizationRunResult = {
+    scanned: candidates.length,
+    cache_hits: 0,
+    descriptions_sent: 0,
+    model_calls: 0,
+    applied: 0,
+    queued_for_review: 0,
+    errors: [],
+  };
+
+  if (candidates.length === 0) return result;
+
+  const keys = Array.from(
+    new Set(candidates.map((tx) => normalizeDescription(tx.description || tx.merchant_name || tx.counterparty_name)))
+  ).filter(Boolean);
+  const cache = await loadCache(tenantId, keys);
+
+  const outcome = await categorizeTransactions(candidates, { model: categorizer, categories, cache });
+  result.cache_hits = outcome.cacheHits;
+  result.descriptions_sent = outcome.descriptionsSent;
+  result.model_calls = outcome.modelCalls;
+  result.errors = outcome.errors;
+
+  if (outcome.fresh.size > 0) {
+    const { error } = await supabase.from('ai_categorization_cache').upsert(
+      Array.from(outcome.fresh.entries()).map(([key, answer]) => ({
+        tenant_id: tenantId,
+        description_key: key,
+        ...answer,
+        source: 'model',
+        model: categorizer.name,
+      })),
+      { onConflict: 'tenant_id,description_key' }
+    );
+    if (error) throw error;
+  }
+
+  const suggestions: Record<string, unknown>[] = [];
+  const toApply = new Map<string, { answer: AiCategoryResult; ids: string[] }>();
+
+  for (const [transactionId, answer] of Array.from(outcome.results.entries())) {
+    const apply = answer.category_code !== 'uncategorized' && answer.confidence >= AUTO_APPLY_CONFIDENCE;
+    suggestions.push({
+      tenant_id: tenantId,
+      transaction_id: transactionId,
+      description_key: outcome.keys.get(transactionId),
+      ...answer,
+      status: apply ? 'applied' : 'pending',
+    });
+
+    if (apply) {
+      const groupKey = `${answer.category_code}|${answer.counterparty_name || ''}`;
+      const group = toApply.get(groupKey) || { answer, ids: [] };
+      group.ids.push(transactionId);
+      toApply.set(groupKey, group);
+    } else {
+      result.queued_for_review++;
+    }
+  }
+
+  for (const batch of chunk(suggestions)) {
+    const { error } = await supabase
+      .from('ai_categorization_suggestions')
+      .upsert(batch, { onConflict: 'tenant_id,transaction_id', ignoreDuplicates: true });
+    if (error) throw error;
+  }
+
+  for (const { answer, ids } of Array.from(toApply.values())) {
+    result.applied += await writeCategory(
+      tenantId,
+      ids,
+      { category: answer.category_code, counterparty_name: answer.counterparty_name, category_source: 'ai' },
+      { overwriteRules: false }
+    );
+  }
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'ai_categorization_run',
+    event_data: { scope, ...result },
+    user_id: actor.userId,
+  });
+
+  return result;
+}
+
+// =====================================================
+// Review Queue
+// =====================================================
+
+export async function listSuggestions(
+  tenantId: string,
+  status: AiSuggestionStatus = 'pending',
+  limit = 200
+): Promise<AiCategorizationSuggestion[]> {
+  const { data, error } = await supabase
+    .from('ai_categorization_suggestions')
+    .select('*, transaction:transactions(date, description, amount, currency, counterparty_name)')
+    .eq('tenant_id', tenantId)
+    .eq('status', status)
+    .order('confidence', { ascending: false })
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data || []) as AiCategorizationSuggestion[];
+}
+
+/**
+ * Accept or reject a queued suggestion. A decision covers every pending
+ * suggestion with the same description, and an accepted answer is written
+ * back to the cache so future occurrences are applied without review.
+ */
+export async function reviewSuggestion(
+  tenantId: string,
+  suggestionId: string,
+  input: ReviewDecision,
+  actor: AiCategorizationActor
+): Promise<{ suggestion: AiCategorizationSuggestion; transactionsUpdated: number; rule: CategorizationRule | null }> {
+  assertCanEdit(actor);
+
+  if (input.decision !== 'accept' && input.decision !== 'reject') {
+    throw errors.badRequest('Invalid decision', 'Decision must be accept or reject');
+  }
+
+  const { data: suggestion, error: fetchError } = await supabase
+    .from('ai_categorization_suggestions')
+    .select('*')
+    .eq('tenant_id', tenantId)
+    .eq('id', suggestionId)
+    .maybeSingle();
+
+  if (fetchError) throw fetchError;
+  if (!suggestion) throw errors.notFound('Suggestion');
+  if (suggestion.status !== 'pending') {
+    throw errors.conflict('Suggestion already reviewed', `This suggestion is already ${suggestion.status}`);
+  }
+
+  const reviewedAt = new Date().toISOString();
+
+  if (input.decision === 'reject') {
+    const { data, error } = await supabase
+      .from('ai_categorization_suggestions')
+      .update({ status: 'rejected', reviewed_by: actor.userId, reviewed_at: reviewedAt })
+      .eq('id', suggestionId)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await createAuditLog({
+      tenant_id: tenantId,
+      event_type: 'ai_categorization_rejected',
+      event_data: { suggestionId, descriptionKey: suggestion.description_key, category: suggestion.category_code },
+      user_id: actor.userId,
+    });
+
+    return { suggestion: data as AiCategorizationSuggestion, transactionsUpdated: 0, rule: null };
+  }
+
+  const categoryCode = input.categoryCode || suggestion.category_code;
+  const counterpartyName =
+    input.counterpartyName !== undefined ? input.counterpartyName?.trim() || null : suggestion.counterparty_name;
+
+  const { data: category } = await supabase
+    .from('transaction_categories')
+    .select('category_code')
+    .eq('category_code', categoryCode)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (!category) {
+    throw errors.badRequest('Unknown category', `Category "${categoryCode}" does not exist`);
+  }
+
+  const rule = input.createRule
+    ? await createRule(
+        tenantId,
+        buildRuleFromSuggestion({
+          description_key: suggestion.description_key,
+          category_code: categoryCode,
+          counterparty_name: counterpartyName,
+        }),
+        actor
+      )
+    : null;
+
+  const { data: accepted, error: acceptError } = await supabase
+    .from('ai_categorization_suggestions')
+    .update({
+      status: 'accepted',
+      category_code: categoryCode,
+      counterparty_name: counterpartyName,
+      rule_id: rule?.id ?? null,
+      reviewed_by: actor.userId,
+      reviewed_at: reviewedAt,
+    })
+    .eq('tenant_id', tenantId)
+    .eq('description_key', suggestion.description_key)
+    .eq('status', 'pending')
+    .select();
+
+  if (acceptError) throw acceptError;
+
+  const transactionsUpdated = await writeCategory(
+    tenantId,
+    (accepted || []).map((row) => row.transaction_id),
+    {
+      category: categoryCode,
+      counterparty_name: counterpartyName,
+      category_source: rule ? 'rule' : 'manual',
+      categorization_rule_id: rule?.id ?? null,
+    },
+    { overwriteRules: true }
+  );
+
+  const { error: cacheError } = await supabase.from('ai_categorization_cache').upsert(
+    {
+      tenant_id: tenantId,
+      description_key: suggestion.description_key,
+      category_code: categoryCode,
+      counterparty_name: counterpartyName,
+      confidence: 1,
+      source: 'review',
+      model: null,
+    },
+    { onConflict: 'tenant_id,description_key' }
+  );
+  if (cacheError) throw cacheError;
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'ai_categorization_accepted',
+    event_data: {
+      suggestionId,
+      descriptionKey: suggestion.description_key,
+      suggested: suggestion.category_code,
+      category: categoryCode,
+      transactions: transactionsUpdated,
+      ruleId: rule?.id ?? null,
+    },
+    user_id: actor.userId,
+  });
+
+  const updated = (accepted || []).find((row) => row.id === suggestionId) || { ...suggestion, status: 'accepted' };
+  return { suggestion: updated as AiCategorizationSuggestion, transactionsUpdated, rule };
+}
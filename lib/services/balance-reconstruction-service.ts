@@ -0,0 +1,363 @@
+/**
+ * Balance Reconstruction Service
+ * Fills daily balances per account from the nearest reported statement
+ * (account_statements, or the provider's current balance) and the ledger,
+ * saves them as source 'calculated', and consolidates daily cash by entity,
+ * currency or bank
+ */
+
+import { supabase, createAuditLog } from '../supabase';
+import { roleAtLeast } from '../auth';
+import { errors } from '../security/error-handler';
+import {
+  collectDiscrepancies,
+  consolidateCashSeries,
+  reconstructDailyBalances,
+} from '../balances/reconstruction';
+import { getReportingContext, loadReportingRates } from './reporting-currency-service';
+import { getLiquidityBreakdown } from './investment-service';
+import { chunk, daysBetween, getSignedAmount, shiftDate } from '../utils';
+import type { RateType } from '../currency';
+import type {
+  AccountBalanceSeries,
+  BalanceActor,
+  BalanceAnchor,
+  CashSeriesGrouping,
+  ConsolidatedCashReport,
+} from '../types/balances';
+
+// =====================================================
+// Configuration
+// =====================================================
+
+// Reported balances this far outside the range can still anchor its edges
+const ANCHOR_WINDOW_DAYS = 90;
+
+export const MAX_RANGE_DAYS = 366;
+
+const PAGE_SIZE = 1000;
+
+// Supabase has a request size limit, so rows are written in chunks
+const BATCH_SIZE = 500;
+
+export interface BalanceRangeOptions {
+  startDate?: string; // Defaults to 30 days before the end date
+  endDate?: string; // Defaults to today
+  accountIds?: string[]; // accounts.id
+}
+
+interface ReconstructionAccount {
+  id: string;
+  account_id: string;
+  account_name: string;
+  entity_id: string | null;
+  bank_name: string | null;
+  currency: string;
+  current_balance: number | null;
+  last_synced_at: string | null;
+}
+
+function resolveRange(options: BalanceRangeOptions) {
+  const today = new Date().toISOString().split('T')[0];
+  const endDate = options.endDate || today;
+  const startDate = options.startDate || shiftDate(endDate, -30);
+
+  if (startDate > endDate) {
+    throw errors.badRequest(
+      `startDate ${startDate} is after endDate ${endDate}`,
+      'The start date must be before the end date.'
+    );
+  }
+  if (daysBetween(startDate, endDate) >= MAX_RANGE_DAYS) {
+    throw errors.badRequest(
+      `Range ${startDate} to ${endDate} exceeds ${MAX_RANGE_DAYS} days`,
+      `Choose a range of at most ${MAX_RANGE_DAYS} days.`
+    );
+  }
+
+  return { startDate, endDate, today };
+}
+
+// =====================================================
+// Loading
+// =====================================================
+
+async function loadAccounts(tenantId: string, accountIds?: string[]): Promise<ReconstructionAccount[]> {
+  let query = supabase
+    .from('accounts')
+    .select('id, account_id, account_name, entity_id, bank_name, currency, current_balance, balance, last_synced_at')
+    .eq('tenant_id', tenantId);
+  if (accountIds?.length) query = query.in('id', accountIds);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data || []).map((account) => ({
+    id: account.id,
+    account_id: account.account_id,
+    account_name: account.account_name,
+    entity_id: account.entity_id || null,
+    bank_name: account.bank_name || null,
+    currency: (account.currency || 'USD').toUpperCase(),
+    current_balance: account.current_balance ?? account.balance ?? null,
+    last_synced_at: account.last_synced_at || null,
+  }));
+}
+
+/**
+ * Reported balances per accounts.id. Previously calculated rows are ignored
+ * so reconstruction never builds on itself.
+ */
+async function loadAnchors(
+  tenantId: string,
+  accountIds: string[],
+  from: string,
+  to: string
+): Promise<Map<string, BalanceAnchor[]>> {
+  const anchors = new Map<string, BalanceAnchor[]>();
+
+  for (const ids of chunk(accountIds)) {
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('account_statements')
+        .select('account_id, statement_date, ending_balance, source')
+        .eq('tenant_id', tenantId)
+        .in('account_id', ids)
+        .neq('source', 'calculated')
+        .gte('statement_date', from)
+        .lte('statement_date', to)
+        .order('statement_date')
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      for (const row of data || []) {
+        const list = anchors.get(row.account_id) || [];
+        list.push({ date: row.statement_date, balance: Number(row.ending_balance), source: row.source });
+        anchors.set(row.account_id, list);
+      }
+
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+  }
+
+  return anchors;
+}
+
+/**
+ * Signed transaction amounts per accounts.account_id
+ */
+async function loadFlows(
+  tenantId: string,
+  accountIds: string[],
+  from: string,
+  to: string
+): Promise<Map<string, Array<{ date: string; amount: number }>>> {
+  const flows = new Map<string, Array<{ date: string; amount: number }>>();
+
+  for (const ids of chunk(accountIds)) {
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('account_id, date, amount, type')
+        .eq('tenant_id', tenantId)
+        .in('account_id', ids)
+        .gte('date', from)
+        .lte('date', to)
+        .order('date')
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      for (const txn of data || []) {
+        const list = flows.get(txn.account_id) || [];
+        list.push({ date: String(txn.date).slice(0, 10), amount: getSignedAmount(txn.amount, txn.type) });
+        flows.set(txn.account_id, list);
+      }
+
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+  }
+
+  return flows;
+}
+
+// =====================================================
+// Reconstruction
+// =====================================================
+
+/**
+ * Daily balances per account. Providers that only report a current balance
+ * (Plaid) anchor on it at the last sync date when no statement covers that day.
+ */
+export async function reconstructAccountBalances(
+  tenantId: string,
+  options: BalanceRangeOptions = {}
+): Promise<AccountBalanceSeries[]> {
+  const { startDate, endDate, today } = resolveRange(options);
+  const windowStart = shiftDate(startDate, -ANCHOR_WINDOW_DAYS);
+  const windowEnd = [shiftDate(endDate, ANCHOR_WINDOW_DAYS), today].sort()[0];
+
+  const accounts = await loadAccounts(tenantId, options.accountIds);
+  const anchors = await loadAnchors(
+    tenantId,
+    accounts.map((account) => account.id),
+    windowStart,
+    windowEnd
+  );
+  const flows = await loadFlows(
+    tenantId,
+    accounts.map((account) => account.account_id),
+    windowStart,
+    windowEnd
+  );
+
+  return accounts.map((account) => {
+    const accountAnchors = [...(anchors.get(account.id) || [])];
+    const syncedOn = account.last_synced_at?.slice(0, 10);
+    if (
+      account.current_balance !== null &&
+      syncedOn &&
+      syncedOn >= windowStart &&
+      syncedOn <= windowEnd &&
+      !accountAnchors.some((anchor) => anchor.date === syncedOn)
+    ) {
+      accountAnchors.push({ date: syncedOn, balance: Number(account.current_balance), source: 'synced' });
+    }
+
+    return {
+      account_id: account.id,
+      account_name: account.account_name,
+      entity_id: account.entity_id,
+      bank_name: account.bank_name,
+      currency: account.currency,
+      days: reconstructDailyBalances({
+        startDate,
+        endDate,
+        anchors: accountAnchors,
+        flows: flows.get(account.account_id) || [],
+      }),
+    };
+  });
+}
+
+/**
+ * Write reconstructed days to account_statements as source 'calculated'.
+ * Days with a reported balance are never overwritten.
+ */
+export async function saveReconstructedBalances(
+  tenantId: string,
+  options: BalanceRangeOptions,
+  actor: BalanceActor
+): Promise<{ accounts: number; saved: number; discrepancies: number }> {
+  if (!roleAtLeast(actor.role, 'editor')) {
+    throw errors.forbidden('Only editors and above can save reconstructed balances');
+  }
+
+  const series = await reconstructAccountBalances(tenantId, options);
+  const rows = series.flatMap((account) =>
+    account.days
+      .filter((day) => day.source === 'calculated')
+      .map((day) => ({
+        tenant_id: tenantId,
+        account_id: account.account_id,
+        statement_date: day.date,
+        ending_balance: day.balance,
+        currency: account.currency,
+        confidence: day.confidence,
+        metadata: { reconstructed: true, anchor_date: day.anchor_date },
+      }))
+  );
+
+  // A statement synced or entered since the anchors were read keeps its day
+  let saved = 0;
+  for (const batch of chunk(rows, BATCH_SIZE)) {
+    const { data, error } = await supabase.rpc('save_calculated_statements', { p_rows: batch });
+    if (error) throw error;
+    saved += data || 0;
+  }
+
+  const discrepancies = collectDiscrepancies(series).length;
+  const result = {
+    accounts: series.filter((account) => account.days.length > 0).length,
+    saved,
+    discrepancies,
+  };
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'balances_reconstructed',
+    event_data: { start_date: options.startDate, end_date: options.endDate, ...result },
+    user_id: actor.userId,
+  });
+
+  return result;
+}
+
+// =====================================================
+// Consolidated cash
+// =====================================================
+
+export async function getConsolidatedCash(
+  tenantId: string,
+  userId: string,
+  options: BalanceRangeOptions & { groupBy?: CashSeriesGrouping; rateType?: RateType } = {}
+): Promise<ConsolidatedCashReport> {
+  const { startDate, endDate } = resolveRange(options);
+  const groupBy = options.groupBy || 'entity';
+
+  const series = await reconstructAccountBalances(tenantId, { ...options, startDate, endDate });
+  const anchored = series.filter((account) => account.days.length > 0);
+
+  // Every day is converted at the end date's rates so the trend shows balance changes, not FX moves
+  const reporting = await getReportingContext(tenantId, userId, { rateType: options.rateType, asOf: endDate });
+  const rates = await loadReportingRates(
+    tenantId,
+    anchored.map((account) => ({ from: account.currency, to: reporting.currency })),
+    reporting.rate_type,
+    reporting.as_of
+  );
+
+  let labels: Record<string, string> | undefined;
+  if (groupBy === 'entity') {
+    const { data, error } = await supabase.from('entities').select('entity_id, entity_name').eq('tenant_id', tenantId);
+    if (error) throw error;
+    labels = {
+      ...Object.fromEntries((data || []).map((entity) => [entity.entity_id, entity.entity_name])),
+      unassigned: 'Unassigned',
+    };
+  } else if (groupBy === 'bank') {
+    labels = { unknown: 'Unknown bank' };
+  }
+
+  const consolidated = consolidateCashSeries({
+    accounts: anchored,
+    groupBy,
+    labels,
+    currency: reporting.currency,
+    rateType: reporting.rate_type,
+    rates,
+  });
+
+  const liquidity = await getLiquidityBreakdown(tenantId, {
+    asOf: endDate,
+    currency: reporting.currency,
+    rateType: reporting.rate_type,
+    balances: anchored.map((account) => ({
+      account_id: account.account_id,
+      amount: account.days[account.days.length - 1].balance,
+      currency: account.currency,
+    })),
+  });
+
+  return {
+    start_date: startDate,
+    end_date: endDate,
+    group_by: groupBy,
+    reporting,
+    ...consolidated,
+    discrepancies: collectDiscrepancies(anchored),
+    unanchored_accounts: series.filter((account) => account.days.length === 0).map((account) => account.account_name),
+    liquidity,
+  };
+}
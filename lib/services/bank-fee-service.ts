@@ -0,0 +1,463 @@
+/**
+ * Bank Fee Service
+ * Detects bank charges in transactions (fee patterns, then category), folds
+ * in imported account analysis statements, and reports monthly cost per bank,
+ * entity and fee type in the reporting currency with increases flagged
+ */
+
+import { supabase, createAuditLog } from '../supabase';
+import { roleAtLeast } from '../auth';
+import { errors } from '../security/error-handler';
+import {
+  buildFeeRows,
+  compileFeePatterns,
+  detectFee,
+  findFeeIncreases,
+  mergeStatementFees,
+  resolveInstitution,
+  validateFeePattern,
+  validateStatementLines,
+} from '../bank-fees/detection';
+import { getReportingContext, loadReportingRates } from './reporting-currency-service';
+import { chunk } from '../utils';
+import type { RateType } from '../currency';
+import type {
+  BankFeeActor,
+  BankFeePattern,
+  BankFeeReport,
+  CreateBankFeePatternInput,
+  DetectedFee,
+  FeeAccount,
+  FinancialInstitution,
+  ImportStatementLineInput,
+} from '../types/bank-fees';
+
+// =====================================================
+// Configuration
+// =====================================================
+
+export const DEFAULT_INCREASE_THRESHOLD_PCT = 20;
+
+const DEFAULT_MONTHS = 6;
+
+const MAX_MONTHS = 24;
+
+// Fees listed individually in the report, largest first
+const MAX_LISTED_FEES = 500;
+
+const PAGE_SIZE = 1000;
+
+// Supabase has a request size limit, so rows are written in chunks
+const BATCH_SIZE = 500;
+
+const MONTH_PATTERN = /^\d{4}-\d{2}$/;
+
+export interface BankFeeReportOptions {
+  startMonth?: string; // YYYY-MM; defaults to six months up to the end month
+  endMonth?: string; // YYYY-MM; defaults to the current month
+  entityId?: string;
+  thresholdPct?: number;
+  minIncrease?: number; // Smallest increase worth flagging, in the report currency
+  rateType?: RateType;
+}
+
+function shiftMonth(month: string, months: number): string {
+  const d = new Date(`${month}-01T00:00:00Z`);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  return d.toISOString().slice(0, 7);
+}
+
+function monthEnd(month: string): string {
+  const d = new Date(`${shiftMonth(month, 1)}-01T00:00:00Z`);
+  d.setUTCDate(0);
+  return d.toISOString().split('T')[0];
+}
+
+function resolveMonths(options: BankFeeReportOptions): string[] {
+  const endMonth = options.endMonth || new Date().toISOString().slice(0, 7);
+  const startMonth = options.startMonth || shiftMonth(endMonth, -(DEFAULT_MONTHS - 1));
+
+  if (!MONTH_PATTERN.test(startMonth) || !MONTH_PATTERN.test(endMonth)) {
+    throw errors.badRequest('Months must be YYYY-MM', 'Months must be in YYYY-MM format.');
+  }
+  if (startMonth > endMonth) {
+    throw errors.badRequest(`startMonth ${startMonth} is after endMonth ${endMonth}`, 'Start month must not be after end month.');
+  }
+
+  const months: string[] = [];
+  for (let month = startMonth; month <= endMonth; month = shiftMonth(month, 1)) months.push(month);
+  if (months.length > MAX_MONTHS) {
+    throw errors.badRequest(`Range of ${months.length} months`, `Choose a range of at most ${MAX_MONTHS} months.`);
+  }
+  return months;
+}
+
+function assertCanEdit(actor: BankFeeActor) {
+  if (!roleAtLeast(actor.role, 'editor')) {
+    throw errors.forbidden('Only editors and above can manage bank fee patterns and statements');
+  }
+}
+
+// =====================================================
+// Patterns
+// =====================================================
+
+export async function listFinancialInstitutions(): Promise<FinancialInstitution[]> {
+  const { data, error } = await supabase
+    .from('financial_institutions')
+    .select('institution_id, institution_name, short_name')
+    .eq('is_active', true)
+    .order('institution_name');
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Curated patterns and the tenant's own
+ */
+export async function listFeePatterns(tenantId: string): Promise<BankFeePattern[]> {
+  const { data, error } = await supabase
+    .from('bank_fee_patterns')
+    .select('id, tenant_id, institution_id, fee_type, pattern, description, is_active, created_at')
+    .or(`tenant_id.is.null,tenant_id.eq.${tenantId}`)
+    .order('created_at');
+
+  if (error) throw error;
+  return (data || []) as BankFeePattern[];
+}
+
+export async function createFeePattern(
+  tenantId: string,
+  input: CreateBankFeePatternInput,
+  actor: BankFeeActor
+): Promise<BankFeePattern> {
+  assertCanEdit(actor);
+
+  const values = {
+    institution_id: input.institution_id?.trim() || null,
+    fee_type: input.fee_type,
+    pattern: (input.pattern || '').trim(),
+    description: input.description?.trim() || null,
+  };
+  const problems = validateFeePattern(values);
+  if (problems.length > 0) {
+    throw errors.badRequest(`Invalid fee pattern: ${problems.join('; ')}`, problems.join('. '));
+  }
+
+  const { data, error } = await supabase
+    .from('bank_fee_patterns')
+    .insert({ ...values, tenant_id: tenantId, created_by: actor.userId })
+    .select('id, tenant_id, institution_id, fee_type, pattern, description, is_active, created_at')
+    .single();
+
+  if (error) {
+    if (error.code === '23505') throw errors.conflict('Duplicate fee pattern', 'This pattern already exists');
+    if (error.code === '23503') throw errors.badRequest('Unknown institution', 'That financial institution does not exist');
+    throw error;
+  }
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'bank_fee_pattern_created',
+    event_data: { patternId: data.id, feeType: values.fee_type, institutionId: values.institution_id },
+    user_id: actor.userId,
+  });
+
+  return data as BankFeePattern;
+}
+
+/**
+ * Only the tenant's own patterns can be deleted; curated ones ship with the app
+ */
+export async function deleteFeePattern(tenantId: string, patternId: string, actor: BankFeeActor): Promise<void> {
+  assertCanEdit(actor);
+
+  const { data, error } = await supabase
+    .from('bank_fee_patterns')
+    .delete()
+    .eq('tenant_id', tenantId)
+    .eq('id', patternId)
+    .select('id, pattern')
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw errors.notFound('Fee pattern');
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'bank_fee_pattern_deleted',
+    event_data: { patternId, pattern: data.pattern },
+    user_id: actor.userId,
+  });
+}
+
+// =====================================================
+// Account Analysis Statements
+// =====================================================
+
+/**
+ * Import an account's analysis statement. Re-importing a month replaces its
+ * lines by service code.
+ */
+export async function importAnalysisStatement(
+  tenantId: string,
+  accountId: string,
+  lines: ImportStatementLineInput[],
+  actor: BankFeeActor
+): Promise<{ imported: number; months: string[] }> {
+  assertCanEdit(actor);
+
+  const problems = validateStatementLines(lines);
+  if (problems.length > 0) {
+    throw errors.badRequest(`Invalid statement: ${problems.slice(0, 10).join('; ')}`, problems.slice(0, 10).join('. '));
+  }
+
+  const { data: account, error: accountError } = await supabase
+    .from('accounts')
+    .select('id, currency')
+    .eq('tenant_id', tenantId)
+    .eq('id', accountId)
+    .maybeSingle();
+
+  if (accountError) throw accountError;
+  if (!account) throw errors.notFound('Account');
+
+  const rows = lines.map((line) => ({
+    tenant_id: tenantId,
+    account_id: account.id,
+    period_month: `${line.period_month.slice(0, 7)}-01`,
+    service_code: String(line.service_code).trim(),
+    description: line.description?.trim() || null,
+    fee_type: line.fee_type || 'other',
+    volume: line.volume ?? null,
+    unit_price: line.unit_price ?? null,
+    fee_amount: Number(line.fee_amount),
+    currency: (line.currency || account.currency || 'USD').toUpperCase(),
+    imported_by: actor.userId,
+  }));
+
+  for (const batch of chunk(rows, BATCH_SIZE)) {
+    const { error } = await supabase
+      .from('bank_fee_statement_lines')
+      .upsert(batch, { onConflict: 'account_id,period_month,service_code' });
+    if (error) throw error;
+  }
+
+  const months = Array.from(new Set(rows.map((row) => row.period_month.slice(0, 7)))).sort();
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'bank_fee_statement_imported',
+    event_data: { accountId, lines: rows.length, months },
+    user_id: actor.userId,
+  });
+
+  return { imported: rows.length, months };
+}
+
+// =====================================================
+// Report
+// =====================================================
+
+async function loadFeeAccounts(tenantId: string, entityId?: string) {
+  let query = supabase
+    .from('accounts')
+    .select('id, account_id, account_name, entity_id, currency, bank_name, institution_name, financial_institution_id')
+    .eq('tenant_id', tenantId);
+  if (entityId) query = query.eq('entity_id', entityId);
+
+  const [accountsResult, institutions] = await Promise.all([query, listFinancialInstitutions()]);
+  if (accountsResult.error) throw accountsResult.error;
+
+  const names = new Map(institutions.map((institution) => [institution.institution_id, institution.institution_name]));
+
+  return (accountsResult.data || []).map((account): FeeAccount => {
+    const institutionId = resolveInstitution(account, institutions);
+    return {
+      id: account.id,
+      account_id: account.account_id,
+      account_name: account.account_name,
+      entity_id: account.entity_id || null,
+      currency: (account.currency || 'USD').toUpperCase(),
+      institution_id: institutionId,
+      bank_name: (institutionId && names.get(institutionId)) || account.bank_name || account.institution_name || 'Unknown bank',
+    };
+  });
+}
+
+async function detectTransactionFees(
+  tenantId: string,
+  accounts: FeeAccount[],
+  patterns: BankFeePattern[],
+  startDate: string,
+  endDate: string
+): Promise<DetectedFee[]> {
+  const byAccountId = new Map(accounts.map((account) => [account.account_id, account]));
+  const compiled = compileFeePatterns(patterns);
+  const fees: DetectedFee[] = [];
+
+  for (const ids of chunk(Array.from(byAccountId.keys()))) {
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('transaction_id, account_id, date, description, amount, type, currency, category, provider_category')
+        .eq('tenant_id', tenantId)
+        .in('account_id', ids)
+        .gte('date', startDate)
+        .lte('date', endDate)
+        .order('date')
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      for (const tx of data || []) {
+        const account = byAccountId.get(tx.account_id)!;
+        const match = detectFee(tx, account.institution_id, compiled);
+        if (!match) continue;
+
+        fees.push({
+          source: 'transaction',
+          reference: tx.transaction_id,
+          account_id: account.id,
+          institution_id: account.institution_id,
+          bank_name: account.bank_name,
+          entity_id: account.entity_id,
+          month: tx.date.slice(0, 7),
+          fee_type: match.fee_type,
+          amount: Math.abs(Number(tx.amount)),
+          currency: (tx.currency || account.currency).toUpperCase(),
+          reporting_amount: null,
+          description: tx.description || '',
+          matched_by: match.matched_by,
+        });
+      }
+
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+  }
+
+  return fees;
+}
+
+async function loadStatementFees(
+  tenantId: string,
+  accounts: FeeAccount[],
+  months: string[]
+): Promise<DetectedFee[]> {
+  const byId = new Map(accounts.map((account) => [account.id, account]));
+  const fees: DetectedFee[] = [];
+
+  for (const ids of chunk(Array.from(byId.keys()))) {
+    const { data, error } = await supabase
+      .from('bank_fee_statement_lines')
+      .select('id, account_id, period_month, service_code, description, fee_type, fee_amount, currency')
+      .eq('tenant_id', tenantId)
+      .in('account_id', ids)
+      .gte('period_month', `${months[0]}-01`)
+      .lte('period_month', `${months[months.length - 1]}-01`);
+
+    if (error) throw error;
+
+    for (const line of data || []) {
+      const account = byId.get(line.account_id)!;
+      fees.push({
+        source: 'analysis_statement',
+        reference: line.id,
+        account_id: account.id,
+        institution_id: account.institution_id,
+        bank_name: account.bank_name,
+        entity_id: account.entity_id,
+        month: line.period_month.slice(0, 7),
+        fee_type: line.fee_type,
+        amount: Number(line.fee_amount),
+        currency: line.currency,
+        reporting_amount: null,
+        description: line.description || line.service_code,
+        matched_by: 'statement',
+      });
+    }
+  }
+
+  return fees;
+}
+
+export async function getBankFeeReport(
+  tenantId: string,
+  userId: string,
+  options: BankFeeReportOptions = {}
+): Promise<BankFeeReport> {
+  const months = resolveMonths(options);
+  const startDate = `${months[0]}-01`;
+  const endDate = monthEnd(months[months.length - 1]);
+  const thresholdPct = options.thresholdPct ?? DEFAULT_INCREASE_THRESHOLD_PCT;
+
+  const [accounts, patterns] = await Promise.all([
+    loadFeeAccounts(tenantId, options.entityId),
+    listFeePatterns(tenantId),
+  ]);
+
+  const fees = mergeStatementFees(
+    await detectTransactionFees(tenantId, accounts, patterns, startDate, endDate),
+    await loadStatementFees(tenantId, accounts, months)
+  );
+
+  // All months convert at the end of the range so increases reflect charges, not FX moves
+  const today = new Date().toISOString().split('T')[0];
+  const reporting = await getReportingContext(tenantId, userId, {
+    rateType: options.rateType,
+    asOf: endDate < today ? endDate : today,
+  });
+  const rates = await loadReportingRates(
+    tenantId,
+    fees.map((fee) => ({ from: fee.currency, to: reporting.currency })),
+    reporting.rate_type,
+    reporting.as_of
+  );
+
+  let rateDate: string | null = null;
+  const unconverted = new Set<string>();
+  for (const fee of fees) {
+    if (fee.currency === reporting.currency) {
+      fee.reporting_amount = fee.amount;
+      continue;
+    }
+    const rate = rates(fee.currency, reporting.currency);
+    if (!rate) {
+      unconverted.add(fee.currency);
+      continue;
+    }
+    fee.reporting_amount = Math.round(fee.amount * rate.rate * 100) / 100;
+    if (!rateDate || rate.date < rateDate) rateDate = rate.date;
+  }
+
+  const byBank = buildFeeRows(fees, 'bank', months);
+  const byEntity = buildFeeRows(fees, 'entity', months);
+  const byFeeType = buildFeeRows(fees, 'fee_type', months);
+  const increases = [
+    ...findFeeIncreases(byBank, 'bank', months, thresholdPct, options.minIncrease),
+    ...findFeeIncreases(byEntity, 'entity', months, thresholdPct, options.minIncrease),
+    ...findFeeIncreases(byFeeType, 'fee_type', months, thresholdPct, options.minIncrease),
+  ].sort((a, b) => b.month.localeCompare(a.month) || b.amount - b.previous_amount - (a.amount - a.previous_amount));
+
+  return {
+    currency: reporting.currency,
+    rate_type: reporting.rate_type,
+    rate_date: rateDate,
+    months,
+    total: Math.round(byFeeType.reduce((sum, row) => sum + row.total, 0) * 100) / 100,
+    by_bank: byBank,
+    by_entity: byEntity,
+    by_fee_type: byFeeType,
+    threshold_pct: thresholdPct,
+    increases,
+    fees: fees
+      .filter((fee) => fee.reporting_amount != null)
+      .sort((a, b) => b.reporting_amount! - a.reporting_amount!)
+      .slice(0, MAX_LISTED_FEES),
+    unconverted: Array.from(unconverted).sort(),
+    unlinked_accounts: accounts
+      .filter((account) => !account.institution_id)
+      .map(({ account_id, account_name, bank_name }) => ({ account_id, account_name, bank_name })),
+  };
+}
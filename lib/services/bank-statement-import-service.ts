@@ -0,0 +1,297 @@
+/**
+ * Bank Statement Import Service
+ * Imports camt.053/camt.052, MT940/MT942 and BAI2 files: matches each statement
+ * to an account by IBAN (or account number), rejects files that do not tie out, then writes the
+ * booked entries and the reported opening/closing balances
+ */
+
+import {
+  supabase,
+  createAuditLog,
+  createConnection,
+  createIngestionJob,
+  createRawIngestionData,
+  updateIngestionJob,
+  importTransactions,
+  upsertAccountStatement,
+  convertAmountToUsd,
+} from '../supabase';
+import {
+  parseBankStatementFile,
+  statementTransactionKeys,
+  toStatementInputs,
+  type BankStatementFormat,
+  type ParsedBankStatement,
+} from '../parsers/bank-statement-parser';
+import type { StatementParseError } from '../parsers/statement-utils';
+import { findExistingAccount } from './account-service';
+import { backfillForecastActuals } from './forecast-service';
+import { applyCategorizationRules } from './categorization-service';
+
+// One connection per tenant holds all file-based statement imports, so
+// re-importing the same file upserts rather than duplicates
+const CONNECTION_TYPE = 'bank_statement_file';
+const CONNECTION_NAME = 'Bank statement files';
+
+// =====================================================
+// Types
+// =====================================================
+
+export interface StatementImportPreview {
+  statementId: string;
+  format: BankStatementFormat;
+  iban?: string;
+  accountNumber?: string;
+  accountId?: string; // accounts.account_id
+  accountName?: string;
+  matchedBy?: string;
+  currency: string;
+  openingBalance?: number;
+  closingBalance?: number;
+  closingDate?: string;
+  transactionCount: number;
+  pendingCount: number;
+}
+
+export interface BankStatementImportResult {
+  success: boolean;
+  format: BankStatementFormat | null;
+  statements: StatementImportPreview[];
+  errors: StatementParseError[];
+  warnings: string[];
+  imported?: {
+    transactions: number;
+    balances: number;
+    jobId: string;
+  };
+}
+
+interface MatchedStatement {
+  statement: ParsedBankStatement;
+  account: any;
+  matchedBy: string | null;
+}
+
+// =====================================================
+// Account Matching
+// =====================================================
+
+async function matchAccount(tenantId: string, statement: ParsedBankStatement) {
+  const iban = statement.account.iban?.replace(/\s+/g, '').toUpperCase();
+
+  if (iban) {
+    const match = await findExistingAccount(tenantId, { iban });
+    if (match.account) return match;
+  }
+
+  // Domestic MT940 and BAI2 files often only carry a local account number
+  const accountNumber = statement.account.accountNumber;
+  if (accountNumber) {
+    const { data, error } = await supabase
+      .from('accounts')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .eq('account_number', accountNumber)
+      .limit(2);
+
+    if (!error && data?.length === 1) {
+      return { account: data[0], matchedBy: 'account_number' };
+    }
+  }
+
+  return { account: null, matchedBy: null };
+}
+
+function toPreview({ statement, account, matchedBy }: MatchedStatement): StatementImportPreview {
+  return {
+    statementId: statement.statementId,
+    format: statement.format,
+    iban: statement.account.iban,
+    accountNumber: statement.account.accountNumber,
+    accountId: account?.account_id,
+    accountName: account?.account_name,
+    matchedBy: matchedBy || undefined,
+    currency: statement.currency,
+    openingBalance: statement.openingBalance?.amount,
+    closingBalance: statement.closingBalance?.amount,
+    closingDate: statement.closingBalance?.date,
+    transactionCount: statement.transactions.length,
+    pendingCount: statement.pendingCount,
+  };
+}
+
+async function getStatementConnection(tenantId: string, userId: string) {
+  const { data: existing } = await supabase
+    .from('connections')
+    .select('*')
+    .eq('tenant_id', tenantId)
+    .eq('connection_type', CONNECTION_TYPE)
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (existing) return existing;
+
+  return createConnection({
+    tenant_id: tenantId,
+    name: CONNECTION_NAME,
+    connection_type: CONNECTION_TYPE,
+    config: { formats: ['camt.053', 'camt.052', 'mt940', 'mt942', 'bai2'] },
+    import_mode: 'append',
+    created_by: userId,
+  });
+}
+
+// =====================================================
+// Import
+// =====================================================
+
+/**
+ * Parse, validate and (unless dryRun) import a bank statement file.
+ * Any parse, tie-out or matching error rejects the whole file.
+ */
+export async function importBankStatementFile(
+  tenantId: string,
+  userId: string,
+  input: { content: string; fileName?: string; format?: BankStatementFormat; dryRun?: boolean }
+): Promise<BankStatementImportResult> {
+  const parsed = parseBankStatementFile(input.content, input.format);
+  const errors = [...parsed.errors];
+  const warnings = [...parsed.warnings];
+
+  const matched: MatchedStatement[] = [];
+  for (const statement of parsed.statements) {
+    const { account, matchedBy } = await matchAccount(tenantId, statement);
+    matched.push({ statement, account, matchedBy });
+
+    const identifier = statement.account.iban || statement.account.accountNumber;
+    if (!account) {
+      errors.push({
+        statementId: statement.statementId,
+        field: 'account',
+        message: `No account found for ${identifier}. Add the account (with its IBAN) before importing.`,
+      });
+    } else if (account.currency && statement.currency && account.currency !== statement.currency) {
+      errors.push({
+        statementId: statement.statementId,
+        field: 'currency',
+        message: `Statement currency ${statement.currency} does not match account ${account.account_id} (${account.currency})`,
+      });
+    }
+  }
+
+  const result: BankStatementImportResult = {
+    success: errors.length === 0 && matched.length > 0,
+    format: parsed.format,
+    statements: matched.map(toPreview),
+    errors,
+    warnings,
+  };
+
+  if (!result.success || input.dryRun) {
+    return result;
+  }
+
+  const connection = await getStatementConnection(tenantId, userId);
+  const job = await createIngestionJob({
+    tenant_id: tenantId,
+    connection_id: connection.id,
+    job_type: 'manual',
+    status: 'running',
+  });
+
+  try {
+    const rawData = await createRawIngestionData({
+      tenant_id: tenantId,
+      connection_id: connection.id,
+      job_id: job.id,
+      raw_data: { format: parsed.format, content: input.content },
+      file_name: input.fileName,
+      file_size_bytes: input.content.length,
+    });
+
+    let transactionCount = 0;
+    let balanceCount = 0;
+    const importedIds: string[] = [];
+
+    for (const { statement, account } of matched) {
+      if (statement.transactions.length > 0) {
+        const keys = statementTransactionKeys(statement);
+        const imported = await importTransactions(
+          statement.transactions.map((tx, index) => ({
+            tenant_id: tenantId,
+            account_id: account.account_id,
+            transaction_date: tx.date,
+            amount: tx.amount,
+            currency: statement.currency,
+            description: tx.description,
+            transaction_type: tx.type || (tx.amount < 0 ? 'debit' : 'credit'),
+            category: tx.category,
+            provider_category: tx.category,
+            connection_id: connection.id,
+            external_transaction_id: `${account.account_id}:${keys[index]}`,
+            source_type: statement.format,
+            import_job_id: job.id,
+            raw_data_id: rawData.id,
+            metadata: { ...tx.metadata, reference: tx.reference, statement_id: statement.statementId },
+          }))
+        );
+        transactionCount += imported.length;
+        importedIds.push(...imported.map((row: any) => row.transaction_id));
+      }
+
+      for (const balance of toStatementInputs(statement, tenantId, account.id)) {
+        await upsertAccountStatement({
+          ...balance,
+          usdEquivalent: (await convertAmountToUsd(balance.endingBalance, balance.currency)) ?? undefined,
+        });
+        balanceCount++;
+      }
+    }
+
+    await updateIngestionJob(job.id, {
+      status: 'completed',
+      records_fetched: matched.reduce((sum, m) => sum + m.statement.transactions.length, 0),
+      records_processed: transactionCount,
+      records_imported: transactionCount,
+      records_skipped: matched.reduce((sum, m) => sum + m.statement.pendingCount, 0),
+      records_failed: 0,
+      summary: { format: parsed.format, statements: result.statements, warnings },
+      completed_at: new Date().toISOString(),
+    });
+
+    await createAuditLog({
+      tenant_id: tenantId,
+      connection_id: connection.id,
+      job_id: job.id,
+      event_type: 'bank_statement_imported',
+      event_data: {
+        fileName: input.fileName,
+        format: parsed.format,
+        statements: result.statements.map((s) => ({ statementId: s.statementId, accountId: s.accountId })),
+        transactions: transactionCount,
+        balances: balanceCount,
+      },
+      user_id: userId,
+    });
+
+    await applyCategorizationRules(tenantId, { transactionIds: importedIds }).catch((error) =>
+      console.error('Categorization rules failed:', error)
+    );
+
+    // New balances can close out past forecast points
+    await backfillForecastActuals(tenantId).catch((error) =>
+      console.error('Forecast actuals backfill failed:', error)
+    );
+
+    result.imported = { transactions: transactionCount, balances: balanceCount, jobId: job.id };
+    return result;
+  } catch (error) {
+    await updateIngestionJob(job.id, {
+      status: 'failed',
+      error_message: error instanceof Error ? error.message : 'Unknown error',
+      completed_at: new Date().toISOString(),
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,347 @@
+/**
+ * Cash Pool Service
+ * Manages cash pools (header account, participants, sweep rule, interest
+ * rates) and simulates them over reconstructed daily balances
+ */
+
+import { supabase, createAuditLog } from '../supabase';
+import { roleAtLeast } from '../auth';
+import { errors } from '../security/error-handler';
+import { buildPoolLoans, simulateCashPool, validateCashPool } from '../cash-pools/simulation';
+import { reconstructAccountBalances, type BalanceRangeOptions } from './balance-reconstruction-service';
+import type {
+  CashPool,
+  CashPoolActor,
+  CashPoolSimulation,
+  CreateCashPoolInput,
+  PoolAccountBalances,
+} from '../types/cash-pool';
+
+const POOL_SELECT = '*, participants:cash_pool_participants(id, pool_id, account_id, target_balance, created_at)';
+
+function assertCanManage(actor: CashPoolActor) {
+  if (!roleAtLeast(actor.role, 'admin')) {
+    throw errors.forbidden('Only admins and above can manage cash pools');
+  }
+}
+
+function normalizePoolInput(input: CreateCashPoolInput) {
+  return {
+    name: (input.name || '').trim(),
+    description: input.description?.trim() || null,
+    pool_type: input.pool_type,
+    sweep_rule: input.sweep_rule || 'zero_balancing',
+    header_account_id: input.header_account_id,
+    currency: input.currency?.trim().toUpperCase() || undefined,
+    credit_rate: Number(input.credit_rate ?? 0),
+    debit_rate: Number(input.debit_rate ?? 0),
+    day_count: Number(input.day_count ?? 360) as 360 | 365,
+    is_active: input.is_active ?? true,
+    participants: (input.participants || []).map((participant) => ({
+      account_id: participant.account_id,
+      target_balance: Number(participant.target_balance ?? 0),
+    })),
+  };
+}
+
+function assertValid(input: CreateCashPoolInput) {
+  const problems = validateCashPool(input);
+  if (problems.length > 0) {
+    throw errors.badRequest(`Invalid cash pool: ${problems.join('; ')}`, problems.join('. '));
+  }
+}
+
+/**
+ * Every pool account must belong to the tenant and be held in the pool
+ * currency; returns that currency
+ */
+async function assertPoolAccounts(
+  tenantId: string,
+  headerAccountId: string,
+  participantIds: string[],
+  currency?: string
+): Promise<string> {
+  const ids = [headerAccountId, ...participantIds];
+  const { data, error } = await supabase
+    .from('accounts')
+    .select('id, account_name, currency')
+    .eq('tenant_id', tenantId)
+    .in('id', ids);
+
+  if (error) throw error;
+
+  const accounts = new Map((data || []).map((account) => [account.id, account]));
+  const missing = ids.filter((id) => !accounts.has(id));
+  if (missing.length > 0) throw errors.notFound('Account');
+
+  const poolCurrency = currency || (accounts.get(headerAccountId)!.currency || 'USD').toUpperCase();
+  const mismatched = ids
+    .map((id) => accounts.get(id)!)
+    .filter((account) => (account.currency || 'USD').toUpperCase() !== poolCurrency);
+  if (mismatched.length > 0) {
+    throw errors.badRequest(
+      `Accounts not in ${poolCurrency}: ${mismatched.map((account) => account.account_name).join(', ')}`,
+      `All pool accounts must be held in ${poolCurrency}.`
+    );
+  }
+
+  return poolCurrency;
+}
+
+async function replaceParticipants(
+  tenantId: string,
+  poolId: string,
+  participants: Array<{ account_id: string; target_balance: number }>
+) {
+  const { error: deleteError } = await supabase
+    .from('cash_pool_participants')
+    .delete()
+    .eq('tenant_id', tenantId)
+    .eq('pool_id', poolId);
+  if (deleteError) throw deleteError;
+
+  const { error } = await supabase
+    .from('cash_pool_participants')
+    .insert(participants.map((participant) => ({ ...participant, pool_id: poolId, tenant_id: tenantId })));
+
+  if (error) {
+    if (error.code === '23505') {
+      throw errors.conflict('Account already pooled', 'One of the accounts already belongs to another cash pool');
+    }
+    throw error;
+  }
+}
+
+// =====================================================
+// Pools
+// =====================================================
+
+export async function listCashPools(tenantId: string): Promise<CashPool[]> {
+  const { data, error } = await supabase
+    .from('cash_pools')
+    .select(POOL_SELECT)
+    .eq('tenant_id', tenantId)
+    .order('name');
+
+  if (error) throw error;
+  return (data || []) as CashPool[];
+}
+
+export async function getCashPool(tenantId: string, poolId: string): Promise<CashPool> {
+  const { data, error } = await supabase
+    .from('cash_pools')
+    .select(POOL_SELECT)
+    .eq('tenant_id', tenantId)
+    .eq('id', poolId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw errors.notFound('Cash pool');
+  return data as CashPool;
+}
+
+export async function createCashPool(
+  tenantId: string,
+  input: CreateCashPoolInput,
+  actor: CashPoolActor
+): Promise<CashPool> {
+  assertCanManage(actor);
+
+  const { participants, ...values } = normalizePoolInput(input);
+  assertValid({ ...values, participants });
+  const currency = await assertPoolAccounts(
+    tenantId,
+    values.header_account_id,
+    participants.map((participant) => participant.account_id),
+    values.currency
+  );
+
+  const { data, error } = await supabase
+    .from('cash_pools')
+    .insert({ ...values, currency, tenant_id: tenantId, created_by: actor.userId })
+    .select('id')
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw errors.conflict('Cash pool name taken', `A cash pool named "${values.name}" already exists`);
+    }
+    throw error;
+  }
+
+  try {
+    await replaceParticipants(tenantId, data.id, participants);
+  } catch (participantError) {
+    // No transaction across the two tables, so don't leave a pool without participants
+    await supabase.from('cash_pools').delete().eq('id', data.id);
+    throw participantError;
+  }
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'cash_pool_created',
+    event_data: { poolId: data.id, name: values.name, participants: participants.length },
+    user_id: actor.userId,
+  });
+
+  return getCashPool(tenantId, data.id);
+}
+
+export async function updateCashPool(
+  tenantId: string,
+  poolId: string,
+  updates: Partial<CreateCashPoolInput>,
+  actor: CashPoolActor
+): Promise<CashPool> {
+  assertCanManage(actor);
+
+  const existing = await getCashPool(tenantId, poolId);
+  const { participants, ...values } = normalizePoolInput({
+    ...existing,
+    ...updates,
+    // A new header without a currency takes the header account's currency
+    currency: updates.currency || (updates.header_account_id ? undefined : existing.currency),
+    participants: updates.participants || existing.participants,
+  });
+  assertValid({ ...values, participants });
+  const currency = await assertPoolAccounts(
+    tenantId,
+    values.header_account_id,
+    participants.map((participant) => participant.account_id),
+    values.currency
+  );
+
+  const { error } = await supabase
+    .from('cash_pools')
+    .update({ ...values, currency })
+    .eq('tenant_id', tenantId)
+    .eq('id', poolId);
+
+  if (error) {
+    if (error.code === '23505') {
+      throw errors.conflict('Cash pool name taken', `A cash pool named "${values.name}" already exists`);
+    }
+    throw error;
+  }
+
+  if (updates.participants) {
+    await replaceParticipants(tenantId, poolId, participants);
+  }
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'cash_pool_updated',
+    event_data: { poolId, changes: Object.keys(updates) },
+    user_id: actor.userId,
+  });
+
+  return getCashPool(tenantId, poolId);
+}
+
+export async function deleteCashPool(tenantId: string, poolId: string, actor: CashPoolActor): Promise<void> {
+  assertCanManage(actor);
+
+  const { data, error } = await supabase
+    .from('cash_pools')
+    .delete()
+    .eq('tenant_id', tenantId)
+    .eq('id', poolId)
+    .select('id, name')
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw errors.notFound('Cash pool');
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'cash_pool_deleted',
+    event_data: { poolId, name: data.name },
+    user_id: actor.userId,
+  });
+}
+
+// =====================================================
+// Simulation
+// =====================================================
+
+export async function simulatePool(
+  tenantId: string,
+  poolId: string,
+  options: Pick<BalanceRangeOptions, 'startDate' | 'endDate'> = {}
+): Promise<CashPoolSimulation> {
+  const pool = await getCashPool(tenantId, poolId);
+  const series = await reconstructAccountBalances(tenantId, {
+    ...options,
+    accountIds: [pool.header_account_id, ...pool.participants.map((participant) => participant.account_id)],
+  });
+
+  const byId = new Map(series.map((account) => [account.account_id, account]));
+  const toBalances = (accountId: string): PoolAccountBalances | null => {
+    const account = byId.get(accountId);
+    if (!account || account.days.length === 0) return null;
+    return {
+      account_id: account.account_id,
+      account_name: account.account_name,
+      entity_id: account.entity_id,
+      balances: account.days.map((day) => ({ date: day.date, balance: day.balance })),
+    };
+  };
+
+  const header = toBalances(pool.header_account_id);
+  if (!header) {
+    throw errors.badRequest(
+      `Header account ${pool.header_account_id} has no balances in range`,
+      'The header account has no reported balance to simulate from.'
+    );
+  }
+
+  const warnings: string[] = [];
+  const participants = pool.participants.flatMap((participant) => {
+    const balances = toBalances(participant.account_id);
+    if (!balances) {
+      warnings.push(`${byId.get(participant.account_id)?.account_name || participant.account_id} has no balances, left out`);
+      return [];
+    }
+    return [{ ...balances, target_balance: Number(participant.target_balance) }];
+  });
+
+  const calculatedDays = series.reduce(
+    (sum, account) => sum + account.days.filter((day) => day.source === 'calculated').length,
+    0
+  );
+  const totalDays = series.reduce((sum, account) => sum + account.days.length, 0);
+  if (calculatedDays > 0) {
+    warnings.push(`${calculatedDays} of ${totalDays} account-days use reconstructed balances`);
+  }
+
+  const result = simulateCashPool({
+    poolType: pool.pool_type,
+    sweepRule: pool.sweep_rule,
+    creditRate: Number(pool.credit_rate),
+    debitRate: Number(pool.debit_rate),
+    dayCount: pool.day_count,
+    header,
+    participants,
+  });
+
+  return {
+    pool_id: pool.id,
+    pool_name: pool.name,
+    pool_type: pool.pool_type,
+    sweep_rule: pool.sweep_rule,
+    currency: pool.currency,
+    start_date: result.days[0]?.date || options.startDate || '',
+    end_date: result.days[result.days.length - 1]?.date || options.endDate || '',
+    days: result.days,
+    header: {
+      account_id: header.account_id,
+      account_name: header.account_name,
+      entity_id: header.entity_id,
+      interest_retained: result.interest_retained,
+    },
+    participants: result.participants,
+    pool_interest: result.pool_interest,
+    loans: pool.pool_type === 'physical' ? buildPoolLoans(header.entity_id, result.participants) : [],
+    warnings,
+  };
+}
@@ -0,0 +1,469 @@
+/**
+ * Categorization Service
+ * Tenant rule CRUD, applying rules after transaction syncs, dry-run previews
+ * against historical transactions and bulk re-apply runs
+ */
+
+import { supabase, createAuditLog } from '../supabase';
+import { roleAtLeast } from '../auth';
+import { errors } from '../security/error-handler';
+import {
+  compileRules,
+  findMatchingRule,
+  resolveAssignment,
+  validateRule,
+  type CompiledRule,
+} from '../categorization/rules-engine';
+import { chunk } from '../utils';
+import type {
+  CategorizableTransaction,
+  CategorizationChange,
+  CategorizationPreview,
+  CategorizationRule,
+  CategorizationRuleRun,
+  CategoryAssignment,
+  CreateCategorizationRuleInput,
+} from '../types/categorization';
+
+const TRANSACTION_COLUMNS =
+  'transaction_id, account_id, date, description, counterparty_name, merchant_name, amount, type, currency, category, provider_category, category_source, gl_code, cost_center, categorization_rule_id';
+
+const PAGE_SIZE = 1000;
+const PREVIEW_SAMPLE_SIZE = 200;
+
+export interface RuleActor {
+  userId: string;
+  role: string;
+}
+
+export interface TransactionScope {
+  startDate?: string;
+  endDate?: string;
+  accountId?: string; // accounts.account_id
+  connectionId?: string;
+  transactionIds?: string[];
+}
+
+function assertCanEdit(actor: RuleActor) {
+  if (!roleAtLeast(actor.role, 'editor')) {
+    throw errors.forbidden('Only editors and above can manage categorization rules');
+  }
+}
+
+// =====================================================
+// Rules
+// =====================================================
+
+export async function listRules(tenantId: string): Promise<CategorizationRule[]> {
+  try {
+    const { data, error } = await supabase
+      .from('categorization_rules')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .order('priority', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as CategorizationRule[];
+  } catch (error) {
+    console.error('Error fetching categorization rules:', error);
+    throw error;
+  }
+}
+
+async function assertCategoryExists(categoryCode?: string | null) {
+  if (!categoryCode) return;
+
+  const { data } = await supabase
+    .from('transaction_categories')
+    .select('category_code')
+    .eq('category_code', categoryCode)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (!data) {
+    throw errors.badRequest('Unknown category', `Category "${categoryCode}" does not exist`);
+  }
+}
+
+function normalizeRuleInput(input: CreateCategorizationRuleInput) {
+  const trimmed = (value?: string | null) => (value && value.trim() !== '' ? value.trim() : null);
+  return {
+    name: (input.name || '').trim(),
+    description: trimmed(input.description),
+    priority: Number.isFinite(Number(input.priority)) ? Math.trunc(Number(input.priority)) : 100,
+    is_active: input.is_active ?? true,
+    description_pattern: trimmed(input.description_pattern),
+    counterparty_pattern: trimmed(input.counterparty_pattern),
+    amount_min: input.amount_min != null && String(input.amount_min) !== '' ? Number(input.amount_min) : null,
+    amount_max: input.amount_max != null && String(input.amount_max) !== '' ? Number(input.amount_max) : null,
+    direction: input.direction || null,
+    account_ids: (input.account_ids || []).filter(Boolean),
+    currencies: (input.currencies || []).filter(Boolean).map((c) => c.toUpperCase()),
+    category_code: trimmed(input.category_code),
+    gl_code: trimmed(input.gl_code),
+    cost_center: trimmed(input.cost_center),
+  };
+}
+
+function assertValid(input: CreateCategorizationRuleInput) {
+  const problems = validateRule(input);
+  if (problems.length > 0) {
+    throw errors.badRequest(`Invalid rule: ${problems.join('; ')}`, problems.join('. '));
+  }
+}
+
+export async function createRule(
+  tenantId: string,
+  input: CreateCategorizationRuleInput,
+  actor: RuleActor
+): Promise<CategorizationRule> {
+  assertCanEdit(actor);
+
+  const values = normalizeRuleInput(input);
+  assertValid(values);
+  await assertCategoryExists(values.category_code);
+
+  const { data, error } = await supabase
+    .from('categorization_rules')
+    .insert({ ...values, tenant_id: tenantId, created_by: actor.userId })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'categorization_rule_created',
+    event_data: { ruleId: data.id, name: data.name },
+    user_id: actor.userId,
+  });
+
+  return data as CategorizationRule;
+}
+
+export async function updateRule(
+  tenantId: string,
+  ruleId: string,
+  updates: Partial<CreateCategorizationRuleInput>,
+  actor: RuleActor
+): Promise<CategorizationRule> {
+  assertCanEdit(actor);
+
+  const { data: existing, error: fetchError } = await supabase
+    .from('categorization_rules')
+    .select('*')
+    .eq('tenant_id', tenantId)
+    .eq('id', ruleId)
+    .maybeSingle();
+
+  if (fetchError) throw fetchError;
+  if (!existing) throw errors.notFound('Categorization rule');
+
+  const values = normalizeRuleInput({ ...existing, ...updates });
+  assertValid(values);
+  await assertCategoryExists(values.category_code);
+
+  const { data, error } = await supabase
+    .from('categorization_rules')
+    .update(values)
+    .eq('tenant_id', tenantId)
+    .eq('id', ruleId)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'categorization_rule_updated',
+    event_data: { ruleId, changes: Object.keys(updates) },
+    user_id: actor.userId,
+  });
+
+  return data as CategorizationRule;
+}
+
+/**
+ * Delete a rule. Transactions it categorized keep their values until the
+ * next re-apply, which falls them back to the provider category.
+ */
+export async function deleteRule(tenantId: string, ruleId: string, actor: RuleActor): Promise<void> {
+  assertCanEdit(actor);
+
+  const { data, error } = await supabase
+    .from('categorization_rules')
+    .delete()
+    .eq('tenant_id', tenantId)
+    .eq('id', ruleId)
+    .select('id, name')
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw errors.notFound('Categorization rule');
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'categorization_rule_deleted',
+    event_data: { ruleId, name: data.name },
+    user_id: actor.userId,
+  });
+}
+
+// =====================================================
+// Evaluation
+// =====================================================
+
+/**
+ * Page through the transactions in scope, handing each page to the callback
+ */
+async function forEachTransactionPage(
+  tenantId: string,
+  scope: TransactionScope,
+  handle: (rows: CategorizableTransaction[]) => Promise<void>
+) {
+  if (scope.transactionIds) {
+    for (const ids of chunk(scope.transactionIds)) {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select(TRANSACTION_COLUMNS)
+        .eq('tenant_id', tenantId)
+        .in('transaction_id', ids);
+
+      if (error) throw error;
+      await handle((data || []) as unknown as CategorizableTransaction[]);
+    }
+    return;
+  }
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let query = supabase
+      .from('transactions')
+      .select(TRANSACTION_COLUMNS)
+      .eq('tenant_id', tenantId)
+      .order('transaction_id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (scope.accountId) query = query.eq('account_id', scope.accountId);
+    if (scope.connectionId) query = query.eq('connection_id', scope.connectionId);
+    if (scope.startDate) query = query.gte('date', scope.startDate);
+    if (scope.endDate) query = query.lte('date', scope.endDate);
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const rows = (data || []) as unknown as CategorizableTransaction[];
+    if (rows.length > 0) await handle(rows);
+    if (rows.length < PAGE_SIZE) return;
+  }
+}
+
+function toChange(tx: CategorizableTransaction, after: CategoryAssignment, rules: CompiledRule[]): CategorizationChange {
+  return {
+    transaction_id: tx.transaction_id,
+    description: tx.description,
+    amount: Number(tx.amount),
+    before: {
+      category: tx.category ?? null,
+      gl_code: tx.gl_code ?? null,
+      cost_center: tx.cost_center ?? null,
+      categorization_rule_id: tx.categorization_rule_id ?? null,
+    },
+    after,
+    rule_name: rules.find((compiled) => compiled.rule.id === after.categorization_rule_id)?.rule.name ?? null,
+  };
+}
+
+/**
+ * Write assignments, one update per distinct assignment
+ */
+async function writeAssignments(tenantId: string, changes: CategorizationChange[]): Promise<number> {
+  const groups = new Map<string, { assignment: CategoryAssignment; ids: string[] }>();
+  for (const change of changes) {
+    const key = JSON.stringify(change.after);
+    const group = groups.get(key) || { assignment: change.after, ids: [] };
+    group.ids.push(change.transaction_id);
+    groups.set(key, group);
+  }
+
+  const categorizedAt = new Date().toISOString();
+  let updated = 0;
+
+  for (const { assignment, ids } of Array.from(groups.values())) {
+    for (const batch of chunk(ids)) {
+      const { error } = await supabase
+        .from('transactions')
+        .update({ ...assignment, categorized_at: categorizedAt })
+        .eq('tenant_id', tenantId)
+        .or('category_source.is.null,category_source.neq.manual')
+        .in('transaction_id', batch);
+
+      if (error) throw error;
+      updated += batch.length;
+    }
+  }
+
+  return updated;
+}
+
+async function evaluate(
+  tenantId: string,
+  rules: CompiledRule[],
+  scope: TransactionScope,
+  options: { write: boolean; sampleSize?: number }
+): Promise<CategorizationPreview> {
+  const preview: CategorizationPreview = { scanned: 0, changed: 0, matched_by_rule: {}, changes: [] };
+
+  await forEachTransactionPage(tenantId, scope, async (page) => {
+    const changes: CategorizationChange[] = [];
+
+    for (const tx of page) {
+      preview.scanned++;
+      const rule = tx.category_source === 'manual' ? null : findMatchingRule(rules, tx);
+      if (rule) preview.matched_by_rule[rule.id] = (preview.matched_by_rule[rule.id] || 0) + 1;
+
+      const after = resolveAssignment(rules, tx);
+      if (after) changes.push(toChange(tx, after, rules));
+    }
+
+    preview.changed += changes.length;
+    if (options.sampleSize) {
+      preview.changes.push(...changes.slice(0, Math.max(options.sampleSize - preview.changes.length, 0)));
+    }
+    if (options.write && changes.length > 0) {
+      await writeAssignments(tenantId, changes);
+    }
+  });
+
+  return preview;
+}
+
+/**
+ * Apply the tenant's active rules to just-synced transactions.
+ * Called after batchCreateOrUpdateTransactions; a tenant without rules costs one query.
+ */
+export async function applyCategorizationRules(
+  tenantId: string,
+  scope: TransactionScope
+): Promise<{ scanned: number; updated: number }> {
+  const rules = compileRules(await listRules(tenantId));
+  if (rules.length === 0) return { scanned: 0, updated: 0 };
+
+  const result = await evaluate(tenantId, rules, scope, { write: true });
+  return { scanned: result.scanned, updated: result.changed };
+}
+
+/**
+ * Dry run: what would change if the rule set (optionally with a draft rule
+ * added or replacing an existing one) were applied to historical transactions
+ */
+export async function previewRules(
+  tenantId: string,
+  input: { draft?: CreateCategorizationRuleInput & { id?: string }; scope: TransactionScope }
+): Promise<CategorizationPreview> {
+  let rules = await listRules(tenantId);
+
+  if (input.draft) {
+    const values = normalizeRuleInput(input.draft);
+    assertValid(values);
+
+    const draftRule: CategorizationRule = {
+      ...values,
+      id: input.draft.id || 'draft',
+      tenant_id: tenantId,
+      is_active: true,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+    rules = [...rules.filter((rule) => rule.id !== draftRule.id), draftRule];
+  }
+
+  return evaluate(tenantId, compileRules(rules), input.scope, { write: false, sampleSize: PREVIEW_SAMPLE_SIZE });
+}
+
+// =====================================================
+// Re-apply Runs
+// =====================================================
+
+export async function listRuleRuns(tenantId: string, limit = 20): Promise<CategorizationRuleRun[]> {
+  const { data, error } = await supabase
+    .from('categorization_rule_runs')
+    .select('*')
+    .eq('tenant_id', tenantId)
+    .order('started_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data || []) as CategorizationRuleRun[];
+}
+
+/**
+ * Re-apply the current rule set to historical transactions, recording the run.
+ * Only one run per tenant at a time.
+ */
+export async function reapplyRules(
+  tenantId: string,
+  scope: Pick<TransactionScope, 'startDate' | 'endDate' | 'accountId'>,
+  actor: RuleActor
+): Promise<CategorizationRuleRun> {
+  assertCanEdit(actor);
+
+  const { data: running } = await supabase
+    .from('categorization_rule_runs')
+    .select('id')
+    .eq('tenant_id', tenantId)
+    .eq('status', 'running')
+    .limit(1)
+    .maybeSingle();
+
+  if (running) {
+    throw errors.conflict('Re-apply already running', 'A re-apply run is already in progress');
+  }
+
+  const { data: run, error } = await supabase
+    .from('categorization_rule_runs')
+    .insert({ tenant_id: tenantId, status: 'running', scope, created_by: actor.userId })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  try {
+    const rules = compileRules(await listRules(tenantId));
+    // With no rules left, rule-categorized rows still need falling back
+    const result = await evaluate(tenantId, rules, scope, { write: true });
+
+    const { data: completed, error: updateError } = await supabase
+      .from('categorization_rule_runs')
+      .update({
+        status: 'completed',
+        transactions_scanned: result.scanned,
+        transactions_updated: result.changed,
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', run.id)
+      .select()
+      .single();
+
+    if (updateError) throw updateError;
+
+    await createAuditLog({
+      tenant_id: tenantId,
+      event_type: 'categorization_rules_reapplied',
+      event_data: { runId: run.id, scope, scanned: result.scanned, updated: result.changed },
+      user_id: actor.userId,
+    });
+
+    return completed as CategorizationRuleRun;
+  } catch (runError) {
+    await supabase
+      .from('categorization_rule_runs')
+      .update({
+        status: 'failed',
+        error_message: runError instanceof Error ? runError.message : 'Unknown error',
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', run.id);
+    throw runError;
+  }
+}
@@ -0,0 +1,649 @@
+/**
+ * Covenant Service
+ * Manages covenant definitions and the manual figures they are fed with,
+ * tests covenants at period ends against balances reconstructed for that day,
+ * and keeps breaches and near breaches as alerts until acknowledged
+ */
+
+import { supabase, createAuditLog } from '../supabase';
+import { roleAtLeast } from '../auth';
+import { errors } from '../security/error-handler';
+import { accountKind } from '../interest/accrual';
+import { REVOLVING_FACILITY_TYPES } from '../facilities/register';
+import {
+  COVENANT_INPUT_KEYS,
+  evaluateCovenant,
+  isNewAlert,
+  isTestPeriodEnd,
+  validateCovenant,
+} from '../facilities/covenants';
+import { reconstructAccountBalances } from './balance-reconstruction-service';
+import { loadReportingRates } from './reporting-currency-service';
+import type {
+  Covenant,
+  CovenantEvaluationRun,
+  CovenantFigures,
+  CovenantInputKey,
+  CovenantInputValue,
+  CovenantTest,
+  CovenantWithLatestTest,
+  CreateCovenantInput,
+  Facility,
+  FacilityActor,
+} from '../types/facility';
+
+const PAGE_SIZE = 1000;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const TEST_SELECT = '*, covenant:covenants(name, facility:facilities(name))';
+
+type TestRow = CovenantTest & { covenant?: { name: string; facility?: { name: string } | null } | null };
+
+function assertCanManage(actor: FacilityActor) {
+  if (!roleAtLeast(actor.role, 'admin')) {
+    throw errors.forbidden('Only admins and above can manage covenants');
+  }
+}
+
+function assertCanEdit(actor: FacilityActor) {
+  if (!roleAtLeast(actor.role, 'editor')) {
+    throw errors.forbidden('Only editors and above can enter covenant figures or test covenants');
+  }
+}
+
+function assertPeriodEnd(periodEnd: string) {
+  const next = new Date(`${periodEnd}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  if (!DATE_PATTERN.test(periodEnd) || next.getUTCDate() !== 1) {
+    throw errors.badRequest(`periodEnd ${periodEnd} is not a month end`, 'Choose the last day of a month.');
+  }
+}
+
+function normalizeCovenantInput(input: CreateCovenantInput) {
+  return {
+    facility_id: input.facility_id,
+    name: (input.name || '').trim(),
+    metric: input.metric,
+    threshold: Number(input.threshold),
+    entity_id: input.entity_id?.trim() || null,
+    test_frequency: input.test_frequency || 'quarterly',
+    warning_headroom_pct: Number(input.warning_headroom_pct ?? 10),
+    is_active: input.is_active ?? true,
+  };
+}
+
+function toTest(row: TestRow): CovenantTest & { covenant_name: string; facility_name: string } {
+  const { covenant, ...test } = row;
+  return { ...test, covenant_name: covenant?.name || '', facility_name: covenant?.facility?.name || '' };
+}
+
+async function assertCovenantReferences(tenantId: string, facilityId: string, entityId: string | null) {
+  const { data: facility, error } = await supabase
+    .from('facilities')
+    .select('id')
+    .eq('tenant_id', tenantId)
+    .eq('id', facilityId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!facility) throw errors.notFound('Facility');
+
+  if (!entityId) return;
+
+  const { data: entity, error: entityError } = await supabase
+    .from('entities')
+    .select('entity_id')
+    .eq('tenant_id', tenantId)
+    .eq('entity_id', entityId)
+    .maybeSingle();
+
+  if (entityError) throw entityError;
+  if (!entity) throw errors.notFound('Entity');
+}
+
+// =====================================================
+// Covenants
+// =====================================================
+
+export async function listCovenants(
+  tenantId: string,
+  options: { facilityId?: string } = {}
+): Promise<CovenantWithLatestTest[]> {
+  let query = supabase.from('covenants').select('*, facility:facilities(name)').eq('tenant_id', tenantId);
+  if (options.facilityId) query = query.eq('facility_id', options.facilityId);
+
+  const { data, error } = await query.order('name');
+  if (error) throw error;
+
+  const covenants = data || [];
+  const latest = new Map<string, CovenantTest>();
+  if (covenants.length > 0) {
+    const { data: tests, error: testsError } = await supabase
+      .from('covenant_tests')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .in(
+        'covenant_id',
+        covenants.map((covenant) => covenant.id)
+      )
+      .order('period_end', { ascending: false });
+
+    if (testsError) throw testsError;
+    for (const test of tests || []) {
+      if (!latest.has(test.covenant_id)) latest.set(test.covenant_id, test as CovenantTest);
+    }
+  }
+
+  return covenants.map(({ facility, ...covenant }) => ({
+    ...(covenant as Covenant),
+    facility_name: facility?.name || '',
+    latest_test: latest.get(covenant.id) || null,
+  }));
+}
+
+export async function getCovenant(tenantId: string, covenantId: string): Promise<Covenant> {
+  const { data, error } = await supabase
+    .from('covenants')
+    .select('*')
+    .eq('tenant_id', tenantId)
+    .eq('id', covenantId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw errors.notFound('Covenant');
+  return data as Covenant;
+}
+
+export async function createCovenant(
+  tenantId: string,
+  input: CreateCovenantInput,
+  actor: FacilityActor
+): Promise<Covenant> {
+  assertCanManage(actor);
+
+  const values = normalizeCovenantInput(input);
+  const problems = validateCovenant(values);
+  if (problems.length > 0) {
+    throw errors.badRequest(`Invalid covenant: ${problems.join('; ')}`, problems.join('. '));
+  }
+  await assertCovenantReferences(tenantId, values.facility_id, values.entity_id);
+
+  const { data, error } = await supabase
+    .from('covenants')
+    .insert({ ...values, tenant_id: tenantId, created_by: actor.userId })
+    .select('*')
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw errors.conflict('Covenant name taken', `This facility already has a covenant named "${values.name}"`);
+    }
+    throw error;
+  }
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'covenant_created',
+    event_data: { covenantId: data.id, facilityId: values.facility_id, metric: values.metric },
+    user_id: actor.userId,
+  });
+
+  return data as Covenant;
+}
+
+export async function updateCovenant(
+  tenantId: string,
+  covenantId: string,
+  updates: Partial<CreateCovenantInput>,
+  actor: FacilityActor
+): Promise<Covenant> {
+  assertCanManage(actor);
+
+  const existing = await getCovenant(tenantId, covenantId);
+  const values = normalizeCovenantInput({ ...existing, ...updates });
+  const problems = validateCovenant(values);
+  if (problems.length > 0) {
+    throw errors.badRequest(`Invalid covenant: ${problems.join('; ')}`, problems.join('. '));
+  }
+  await assertCovenantReferences(tenantId, values.facility_id, values.entity_id);
+
+  const { data, error } = await supabase
+    .from('covenants')
+    .update(values)
+    .eq('tenant_id', tenantId)
+    .eq('id', covenantId)
+    .select('*')
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw errors.conflict('Covenant name taken', `This facility already has a covenant named "${values.name}"`);
+    }
+    throw error;
+  }
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'covenant_updated',
+    event_data: { covenantId, changes: Object.keys(updates) },
+    user_id: actor.userId,
+  });
+
+  return data as Covenant;
+}
+
+export async function deleteCovenant(tenantId: string, covenantId: string, actor: FacilityActor): Promise<void> {
+  assertCanManage(actor);
+
+  const { data, error } = await supabase
+    .from('covenants')
+    .delete()
+    .eq('tenant_id', tenantId)
+    .eq('id', covenantId)
+    .select('id, name')
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw errors.notFound('Covenant');
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'covenant_deleted',
+    event_data: { covenantId, name: data.name },
+    user_id: actor.userId,
+  });
+}
+
+// =====================================================
+// Manual inputs
+// =====================================================
+
+export async function listCovenantInputs(tenantId: string, periodEnd: string): Promise<CovenantInputValue[]> {
+  assertPeriodEnd(periodEnd);
+
+  const { data, error } = await supabase
+    .from('covenant_inputs')
+    .select('entity_id, period_end, input_key, value, currency')
+    .eq('tenant_id', tenantId)
+    .eq('period_end', periodEnd)
+    .order('entity_id');
+
+  if (error) throw error;
+  return (data || []) as CovenantInputValue[];
+}
+
+/**
+ * Upsert a period's figures; a null value removes the figure
+ */
+export async function saveCovenantInputs(
+  tenantId: string,
+  periodEnd: string,
+  inputs: Array<{ entity_id?: string | null; input_key: CovenantInputKey; value: number | null; currency: string }>,
+  actor: FacilityActor
+): Promise<CovenantInputValue[]> {
+  assertCanEdit(actor);
+  assertPeriodEnd(periodEnd);
+
+  const problems: string[] = [];
+  inputs.forEach((input, index) => {
+    if (!COVENANT_INPUT_KEYS.includes(input.input_key)) {
+      problems.push(`Input ${index + 1}: key must be one of ${COVENANT_INPUT_KEYS.join(', ')}`);
+    }
+    if (input.value != null && !Number.isFinite(Number(input.value))) {
+      problems.push(`Input ${index + 1}: value must be a number`);
+    }
+    if (input.value != null && !/^[A-Z]{3}$/.test((input.currency || '').toUpperCase())) {
+      problems.push(`Input ${index + 1}: currency must be a 3-letter code`);
+    }
+  });
+  if (problems.length > 0) {
+    throw errors.badRequest(`Invalid covenant inputs: ${problems.join('; ')}`, problems.join('. '));
+  }
+
+  for (const input of inputs.filter((item) => item.value == null)) {
+    const { error } = await supabase
+      .from('covenant_inputs')
+      .delete()
+      .eq('tenant_id', tenantId)
+      .eq('period_end', periodEnd)
+      .eq('entity_id', input.entity_id || '')
+      .eq('input_key', input.input_key);
+    if (error) throw error;
+  }
+
+  const rows = inputs
+    .filter((input) => input.value != null)
+    .map((input) => ({
+      tenant_id: tenantId,
+      entity_id: input.entity_id || '',
+      period_end: periodEnd,
+      input_key: input.input_key,
+      value: Number(input.value),
+      currency: input.currency.toUpperCase(),
+      updated_by: actor.userId,
+    }));
+
+  if (rows.length > 0) {
+    const { error } = await supabase
+      .from('covenant_inputs')
+      .upsert(rows, { onConflict: 'tenant_id,entity_id,period_end,input_key' });
+    if (error) throw error;
+  }
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'covenant_inputs_saved',
+    event_data: { periodEnd, inputs: inputs.length },
+    user_id: actor.userId,
+  });
+
+  return listCovenantInputs(tenantId, periodEnd);
+}
+
+// =====================================================
+// Testing
+// =====================================================
+
+interface PeriodData {
+  accounts: Array<{ id: string; entity_id: string | null; account_type: string; currency: string }>;
+  facilities: Array<
+    Pick<Facility, 'id' | 'entity_id' | 'facility_type' | 'currency' | 'commitment_amount' | 'drawn_amount' | 'accounts'>
+  >;
+  balances: Map<string, number>; // accounts.id -> balance at the period end
+  inputs: CovenantInputValue[];
+}
+
+async function loadPeriodData(tenantId: string, periodEnd: string): Promise<PeriodData> {
+  const accounts: PeriodData['accounts'] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('accounts')
+      .select('id, entity_id, account_type, currency')
+      .eq('tenant_id', tenantId)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    accounts.push(
+      ...(data || []).map((account) => ({ ...account, currency: (account.currency || 'USD').toUpperCase() }))
+    );
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  // Facilities outstanding at the period end, whatever their status today
+  const { data: facilityRows, error: facilityError } = await supabase
+    .from('facilities')
+    .select(
+      'id, entity_id, facility_type, currency, commitment_amount, drawn_amount, signing_date, accounts:facility_accounts(id, facility_id, account_id)'
+    )
+    .eq('tenant_id', tenantId)
+    .neq('status', 'cancelled')
+    .gte('maturity_date', periodEnd);
+  if (facilityError) throw facilityError;
+
+  const facilities = (facilityRows || []).filter(
+    (facility) => !facility.signing_date || facility.signing_date <= periodEnd
+  );
+
+  const linkedIds = new Set(facilities.flatMap((facility) => facility.accounts.map((link) => link.account_id)));
+  const accountIds = accounts
+    .filter((account) => accountKind(account.account_type) === 'deposit' || linkedIds.has(account.id))
+    .map((account) => account.id);
+
+  const balances = new Map<string, number>();
+  if (accountIds.length > 0) {
+    const series = await reconstructAccountBalances(tenantId, { startDate: periodEnd, endDate: periodEnd, accountIds });
+    for (const account of series) {
+      const day = account.days.find((item) => item.date === periodEnd);
+      if (day) balances.set(account.account_id, Number(day.balance));
+    }
+  }
+
+  const { data: inputs, error: inputsError } = await supabase
+    .from('covenant_inputs')
+    .select('entity_id, period_end, input_key, value, currency')
+    .eq('tenant_id', tenantId)
+    .eq('period_end', periodEnd);
+  if (inputsError) throw inputsError;
+
+  return { accounts, facilities, balances, inputs: (inputs || []) as CovenantInputValue[] };
+}
+
+/**
+ * Cash, debt and undrawn revolving commitments for an entity (or the group)
+ * at the period end in the covenant currency, with manual inputs taking
+ * precedence over what the platform holds
+ */
+function buildFigures(
+  period: PeriodData,
+  entityId: string | null,
+  currency: string,
+  convert: (amount: number, from: string) => number | null
+): CovenantFigures {
+  const inScope = (id: string | null) => !entityId || id === entityId;
+  const input = (key: CovenantInputKey) => {
+    const row = period.inputs.find((item) => item.input_key === key && item.entity_id === (entityId || ''));
+    return row ? convert(Number(row.value), row.currency.toUpperCase()) : null;
+  };
+  const sum = (values: Array<number | null>) =>
+    values.some((value) => value == null) ? null : values.reduce<number>((total, value) => total + value!, 0);
+
+  const facilities = period.facilities.filter((facility) => inScope(facility.entity_id));
+  const drawn = (facility: PeriodData['facilities'][number]) => {
+    const linked = facility.accounts.filter((link) => period.balances.has(link.account_id));
+    return linked.length > 0
+      ? linked.reduce((total, link) => total + Math.abs(period.balances.get(link.account_id)!), 0)
+      : Number(facility.drawn_amount || 0);
+  };
+
+  const deposits = period.accounts.filter(
+    (account) =>
+      inScope(account.entity_id) && accountKind(account.account_type) === 'deposit' && period.balances.has(account.id)
+  );
+  const platformCash =
+    deposits.length > 0
+      ? sum(deposits.map((account) => convert(period.balances.get(account.id)!, account.currency)))
+      : null;
+
+  return {
+    currency,
+    cash: input('cash') ?? platformCash,
+    total_debt:
+      input('total_debt') ??
+      sum(facilities.map((facility) => convert(drawn(facility), facility.currency.toUpperCase()))),
+    undrawn_revolving: sum(
+      facilities
+        .filter((facility) => REVOLVING_FACILITY_TYPES.includes(facility.facility_type))
+        .map((facility) =>
+          convert(Math.max(Number(facility.commitment_amount) - drawn(facility), 0), facility.currency.toUpperCase())
+        )
+    ),
+    ebitda: input('ebitda'),
+    interest_expense: input('interest_expense'),
+  };
+}
+
+/**
+ * Test active covenants at a month end and store the results. With dueOnly,
+ * only covenants whose test frequency falls on that month end are tested
+ * (the scheduled run); otherwise every active covenant is.
+ */
+export async function evaluateCovenants(
+  tenantId: string,
+  options: { periodEnd: string; dueOnly?: boolean },
+  actor: FacilityActor | null
+): Promise<CovenantEvaluationRun> {
+  if (actor) assertCanEdit(actor);
+  const { periodEnd } = options;
+  assertPeriodEnd(periodEnd);
+
+  const { data: covenantRows, error } = await supabase
+    .from('covenants')
+    .select('*, facility:facilities(name, currency)')
+    .eq('tenant_id', tenantId)
+    .eq('is_active', true);
+  if (error) throw error;
+
+  const covenants = (covenantRows || []).filter(
+    (covenant) => !options.dueOnly || isTestPeriodEnd(periodEnd, covenant.test_frequency)
+  );
+  if (covenants.length === 0) return { period_end: periodEnd, tests: [], alerts: 0, warnings: [] };
+
+  const period = await loadPeriodData(tenantId, periodEnd);
+
+  const currencies = new Set(covenants.map((covenant) => (covenant.facility?.currency || 'USD').toUpperCase()));
+  const sources = new Set([
+    ...period.accounts.map((account) => account.currency),
+    ...period.facilities.map((facility) => facility.currency.toUpperCase()),
+    ...period.inputs.map((input) => input.currency.toUpperCase()),
+  ]);
+  const rates = await loadReportingRates(
+    tenantId,
+    Array.from(currencies).flatMap((to) => Array.from(sources).map((from) => ({ from, to }))),
+    'EOM',
+    periodEnd
+  );
+
+  const missingRates = new Set<string>();
+  const { data: existing, error: existingError } = await supabase
+    .from('covenant_tests')
+    .select('covenant_id, status, acknowledged_by, acknowledged_at')
+    .eq('tenant_id', tenantId)
+    .eq('period_end', periodEnd)
+    .in(
+      'covenant_id',
+      covenants.map((covenant) => covenant.id)
+    );
+  if (existingError) throw existingError;
+  const previous = new Map((existing || []).map((row) => [row.covenant_id, row]));
+
+  const rows = covenants.map((covenant) => {
+    const currency = (covenant.facility?.currency || 'USD').toUpperCase();
+    const convert = (amount: number, from: string) => {
+      if (from === currency) return amount;
+      const rate = rates(from, currency);
+      if (!rate) {
+        missingRates.add(`${from}/${currency}`);
+        return null;
+      }
+      return amount * rate.rate;
+    };
+
+    const figures = buildFigures(period, covenant.entity_id, currency, convert);
+    const evaluation = evaluateCovenant(covenant, figures);
+    const prior = previous.get(covenant.id);
+    const keepAcknowledgement = prior?.status === evaluation.status;
+
+    return {
+      tenant_id: tenantId,
+      covenant_id: covenant.id,
+      period_end: periodEnd,
+      threshold: Number(covenant.threshold),
+      ...evaluation,
+      figures,
+      acknowledged_by: keepAcknowledgement ? prior.acknowledged_by : null,
+      acknowledged_at: keepAcknowledgement ? prior.acknowledged_at : null,
+      tested_at: new Date().toISOString(),
+    };
+  });
+
+  const { data: saved, error: saveError } = await supabase
+    .from('covenant_tests')
+    .upsert(rows, { onConflict: 'covenant_id,period_end' })
+    .select(TEST_SELECT);
+  if (saveError) throw saveError;
+
+  let alerts = 0;
+  for (const row of rows) {
+    if (!isNewAlert(previous.get(row.covenant_id)?.status, row.status)) continue;
+    alerts += 1;
+
+    const covenant = covenants.find((item) => item.id === row.covenant_id)!;
+    console.warn(`⚠️ Covenant ${row.status} for tenant ${tenantId}: ${covenant.name} at ${periodEnd}`);
+    await createAuditLog({
+      tenant_id: tenantId,
+      event_type: `covenant_${row.status}`,
+      event_data: {
+        covenantId: row.covenant_id,
+        name: covenant.name,
+        facility: covenant.facility?.name,
+        periodEnd,
+        value: row.value,
+        threshold: row.threshold,
+        headroomPct: row.headroom_pct,
+      },
+      user_id: actor?.userId,
+    });
+  }
+
+  const warnings: string[] = [];
+  if (missingRates.size > 0) {
+    warnings.push(`No EOM rate for ${Array.from(missingRates).sort().join(', ')}; affected figures were left out`);
+  }
+  const insufficient = rows.filter((row) => row.status === 'insufficient_data').length;
+  if (insufficient > 0) warnings.push(`${insufficient} covenant(s) could not be tested; enter the missing figures`);
+
+  return {
+    period_end: periodEnd,
+    tests: ((saved || []) as TestRow[]).map(toTest),
+    alerts,
+    warnings,
+  };
+}
+
+export async function listCovenantTests(tenantId: string, covenantId: string): Promise<CovenantTest[]> {
+  const { data, error } = await supabase
+    .from('covenant_tests')
+    .select('*')
+    .eq('tenant_id', tenantId)
+    .eq('covenant_id', covenantId)
+    .order('period_end', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as CovenantTest[];
+}
+
+// =====================================================
+// Alerts
+// =====================================================
+
+/**
+ * Breaches and near breaches nobody has acknowledged yet
+ */
+export async function listCovenantAlerts(
+  tenantId: string
+): Promise<Array<CovenantTest & { covenant_name: string; facility_name: string }>> {
+  const { data, error } = await supabase
+    .from('covenant_tests')
+    .select(TEST_SELECT)
+    .eq('tenant_id', tenantId)
+    .in('status', ['breach', 'near_breach'])
+    .is('acknowledged_at', null)
+    .order('period_end', { ascending: false });
+
+  if (error) throw error;
+  return ((data || []) as TestRow[]).map(toTest);
+}
+
+export async function acknowledgeCovenantTest(tenantId: string, testId: string, actor: FacilityActor): Promise<void> {
+  assertCanEdit(actor);
+
+  const { data, error } = await supabase
+    .from('covenant_tests')
+    .update({ acknowledged_by: actor.userId, acknowledged_at: new Date().toISOString() })
+    .eq('tenant_id', tenantId)
+    .eq('id', testId)
+    .select('id, covenant_id, period_end, status')
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw errors.notFound('Covenant test');
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'covenant_alert_acknowledged',
+    event_data: { testId, covenantId: data.covenant_id, periodEnd: data.period_end, status: data.status },
+    user_id: actor.userId,
+  });
+}
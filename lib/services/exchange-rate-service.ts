@@ -1,80 +1,60 @@
 import { createClient } from '@/lib/supabase-server'
+import { getConfiguredRateSources } from '@/lib/fx/sources/source-registry'
+import type { FxRateSource } from '@/lib/fx/sources/base-source'
+import type { RateSnapshot } from '@/lib/types/fx'
 
-// Open Exchange Rates Configuration
-const OPEN_EXCHANGE_RATES_APP_ID = process.env.OPEN_EXCHANGE_RATES_APP_ID || '2d11645a7ef041008e07c23a4945dddb'
-const BASE_URL = 'https://openexchangerates.org/api'
+// Supabase has a request size limit, so rows are written in chunks
+const BATCH_SIZE = 100
 
-interface OpenExchangeRatesResponse {
-  disclaimer: string
-  license: string
-  timestamp: number
-  base: string
-  rates: Record<string, number>
-}
-
-/**
- * Fetches the latest exchange rates from Open Exchange Rates
- */
-export async function fetchLatestRates(): Promise<OpenExchangeRatesResponse> {
-  const url = `${BASE_URL}/latest.json?app_id=${OPEN_EXCHANGE_RATES_APP_ID}`
-  
-  console.log(`[FX] Fetching latest rates from: ${url.replace(OPEN_EXCHANGE_RATES_APP_ID, '***')}`)
-  
-  const response = await fetch(url, {
-    next: { revalidate: 0 } // Don't cache
-  })
-
-  if (!response.ok) {
-    throw new Error(`Open Exchange Rates API error: ${response.status} ${response.statusText}`)
-  }
+// Must match the fx_rates_unique_entry constraint
+const RATE_CONFLICT_COLUMNS = 'currency_from,currency_to,date,rate_type,source,tenant_id'
 
-  return response.json()
-}
-
-/**
- * Fetches historical rates for a specific date
- */
-export async function fetchHistoricalRates(date: string): Promise<OpenExchangeRatesResponse> {
-  const url = `${BASE_URL}/historical/${date}.json?app_id=${OPEN_EXCHANGE_RATES_APP_ID}`
-  
-  console.log(`[FX] Fetching historical rates for ${date}`)
-  
-  const response = await fetch(url, {
-    next: { revalidate: 3600 } // Cache historical rates for 1 hour
-  })
-
-  if (!response.ok) {
-    throw new Error(`Open Exchange Rates API error: ${response.status} ${response.statusText}`)
-  }
-
-  return response.json()
+export interface RateUpdateResult {
+  source: string
+  date: string
+  count?: number
+  errors?: number
+  error?: string
 }
 
 /**
- * Stores rates in the database
+ * Stores a source's rates in the shared feed, with fx_rates.source set to the
+ * source that produced them
  */
-export async function storeRates(data: OpenExchangeRatesResponse) {
+export async function storeRates(snapshot: RateSnapshot) {
   // Await the client creation as it returns a Promise
   const supabase = await createClient()
-  const date = new Date(data.timestamp * 1000).toISOString().split('T')[0]
-  const baseCurrency = data.base
-  const rates = data.rates
-
-  console.log(`[FX] Processing ${Object.keys(rates).length} rates for ${date} (Base: ${baseCurrency})`)
-
-  const rows = Object.entries(rates).map(([currency, rate]) => ({
-    currency_from: baseCurrency,
-    currency_to: currency,
-    date: date,
-    rate: rate,
-    rate_type: 'SPOT',
-    source: 'open_exchange_rates',
-    updated_at: new Date().toISOString()
-  }))
-
-  // Batch insert/upsert
-  // Supabase has a request size limit, so let's batch in chunks of 100
-  const BATCH_SIZE = 100
+  const { base: baseCurrency, date, rates, source } = snapshot
+
+  console.log(`[FX] Processing ${Object.keys(rates).length} ${source} rates for ${date} (Base: ${baseCurrency})`)
+
+  const updatedAt = new Date().toISOString()
+  const rows = Object.entries(rates)
+    .filter(([currency]) => currency !== baseCurrency)
+    .flatMap(([currency, rate]) => [
+      {
+        currency_from: baseCurrency,
+        currency_to: currency,
+        date,
+        rate,
+        rate_type: 'SPOT',
+        source,
+        tenant_id: null,
+        updated_at: updatedAt
+      },
+      // Also store the inverse (X -> base): Rate(X -> base) = 1 / Rate(base -> X)
+      {
+        currency_from: currency,
+        currency_to: baseCurrency,
+        date,
+        rate: rate === 0 ? 0 : 1 / rate,
+        rate_type: 'SPOT',
+        source: `${source}_calculated`,
+        tenant_id: null,
+        updated_at: updatedAt
+      }
+    ])
+
   let successCount = 0
   let errorCount = 0
 
@@ -84,68 +64,66 @@ export async function storeRates(data: OpenExchangeRatesResponse) {
     const { error } = await supabase
       .from('fx_rates')
       .upsert(batch, {
-        onConflict: 'currency_from,currency_to,date,rate_type',
+        onConflict: RATE_CONFLICT_COLUMNS,
         ignoreDuplicates: false
       })
 
     if (error) {
-      console.error(`[FX] Error storing batch ${i}-${i + batch.length}:`, error)
+      console.error(`[FX] Error storing ${source} batch ${i}-${i + batch.length}:`, error)
       errorCount += batch.length
     } else {
       successCount += batch.length
     }
   }
 
-  // Also calculate and store inverse rates (X -> USD)
-  // Rate(X -> USD) = 1 / Rate(USD -> X)
-  const inverseRows = Object.entries(rates).map(([currency, rate]) => ({
-    currency_from: currency,
-    currency_to: baseCurrency,
-    date: date,
-    rate: rate === 0 ? 0 : 1 / rate,
-    rate_type: 'SPOT',
-    source: 'open_exchange_rates_calculated',
-    updated_at: new Date().toISOString()
-  }))
-
-  for (let i = 0; i < inverseRows.length; i += BATCH_SIZE) {
-    const batch = inverseRows.slice(i, i + BATCH_SIZE)
-    
-    const { error } = await supabase
-      .from('fx_rates')
-      .upsert(batch, {
-        onConflict: 'currency_from,currency_to,date,rate_type',
-        ignoreDuplicates: false
-      })
+  // Future dates are not materialized: get_fx_rate projects the latest rate
+  // forward for up to two years
+  
+  return { success: true, count: successCount, errors: errorCount }
+}
 
-    if (error) {
-      console.error(`[FX] Error storing inverse batch ${i}-${i + batch.length}:`, error)
-      errorCount += batch.length
-    } else {
-      successCount += batch.length
+/**
+ * Pull the latest rates, plus the previous `historyDays` days to cover
+ * weekends and missed runs, from every configured source. A failing source
+ * or day is reported and does not stop the others.
+ */
+export async function updateRatesFromSources(
+  options: { historyDays?: number; sources?: FxRateSource[] } = {}
+): Promise<RateUpdateResult[]> {
+  const sources = options.sources ?? getConfiguredRateSources()
+  const historyDays = options.historyDays ?? 2
+  const results: RateUpdateResult[] = []
+
+  if (sources.length === 0) {
+    console.warn('[FX] No rate sources are configured')
+  }
+
+  for (const source of sources) {
+    try {
+      const latest = await source.fetchLatest()
+      results.push({ source: source.id, date: latest.date, ...(await storeRates(latest)) })
+    } catch (err) {
+      console.error(`[FX] Failed to fetch latest ${source.id} rates:`, err)
+      results.push({ source: source.id, date: 'latest', error: err instanceof Error ? err.message : 'Unknown error' })
+    }
+
+    for (let i = 1; i <= historyDays; i++) {
+      const day = new Date()
+      day.setUTCDate(day.getUTCDate() - i)
+      const dateStr = day.toISOString().split('T')[0]
+
+      try {
+        const snapshot = await source.fetchHistorical(dateStr)
+        if (!snapshot) continue // Nothing published that day
+        results.push({ source: source.id, date: dateStr, ...(await storeRates(snapshot)) })
+      } catch (err) {
+        console.error(`[FX] Failed to fetch ${source.id} historical rates for ${dateStr}:`, err)
+        results.push({ source: source.id, date: dateStr, error: err instanceof Error ? err.message : 'Unknown error' })
+      }
     }
   }
-  
-  // Future projection logic:
-  // "Hold the latest spot rate constant for the following 2 years"
-  // We'll project for the next 730 days (2 years)
-  // To avoid massive database bloat, we might want to do this intelligently.
-  // A common pattern is to just have a "PROJECTION" entry or simply use the latest available date in queries.
-  // HOWEVER, the user specifically asked for "hold constant for following 2 years".
-  // Let's implement a smarter way: Store ONE entry for "Future" or handle it in query logic?
-  // User said: "This should update every time that the table is updated."
-  
-  // Storing 170 currencies * 730 days = 124,000 rows PER UPDATE is too much churn.
-  // Better Approach:
-  // 1. We have the 'date' column.
-  // 2. We can create a view or query helper that says "If date > max_date, use max_date rate".
-  // BUT the user asked for database structure.
-  
-  // Let's interpret "hold constant" as: Ensure there is a rate entry for today.
-  // If we truly want to materialize 2 years of daily rates, it's millions of rows.
-  // Suggestion: We will handle "Projection" via a smart query or a specific "PROJECTION" entry that is valid "forever" (e.g., date = 9999-12-31).
-  
-  return { success: true, count: successCount, errors: errorCount }
+
+  return results
 }
 
 export type FxCurrencyPair = { from: string; to: string }
@@ -255,6 +233,7 @@ export async function getHistoricalRates(
   const { data, error } = await supabase
     .from('fx_rates')
     .select('currency_from,currency_to,date,rate')
+    .is('tenant_id', null)
     .in('currency_from', uniqueFrom)
     .in('currency_to', uniqueTo)
     .eq('rate_type', rateType)
@@ -309,6 +288,7 @@ export async function getLatestRates(
   const { data, error } = await supabase
     .from('fx_rates')
     .select('currency_to,rate,date')
+    .is('tenant_id', null)
     .eq('currency_from', baseCurrency)
     .eq('rate_type', 'SPOT')
     .order('date', { ascending: false })
@@ -0,0 +1,357 @@
+/**
+ * Facility Service
+ * Manages the debt facility register (lender, limits, pricing, maturity),
+ * the loan accounts that track each facility's drawdowns and its repayment
+ * schedule
+ */
+
+import { supabase, createAuditLog } from '../supabase';
+import { roleAtLeast } from '../auth';
+import { errors } from '../security/error-handler';
+import { accountKind } from '../interest/accrual';
+import { facilityPosition, validateFacility, validateRepayments } from '../facilities/register';
+import type {
+  CreateFacilityInput,
+  Facility,
+  FacilityActor,
+  FacilityWithPosition,
+  RepaymentInput,
+} from '../types/facility';
+
+const FACILITY_SELECT =
+  '*, accounts:facility_accounts(id, facility_id, account_id), repayments:facility_repayments(id, facility_id, due_date, principal_amount, status, created_at)';
+
+function assertCanManage(actor: FacilityActor) {
+  if (!roleAtLeast(actor.role, 'admin')) {
+    throw errors.forbidden('Only admins and above can manage facilities');
+  }
+}
+
+function normalizeFacilityInput(input: CreateFacilityInput) {
+  return {
+    entity_id: (input.entity_id || '').trim(),
+    name: (input.name || '').trim(),
+    facility_type: input.facility_type,
+    lender: (input.lender || '').trim(),
+    currency: (input.currency || '').trim().toUpperCase(),
+    commitment_amount: Number(input.commitment_amount),
+    drawn_amount: Number(input.drawn_amount ?? 0),
+    signing_date: input.signing_date || null,
+    maturity_date: input.maturity_date,
+    reference_rate: (input.reference_rate || 'FIXED').trim().toUpperCase(),
+    reference_rate_value: input.reference_rate_value == null ? null : Number(input.reference_rate_value),
+    margin: Number(input.margin ?? 0),
+    rate_floor: input.rate_floor == null ? null : Number(input.rate_floor),
+    commitment_fee: input.commitment_fee == null ? null : Number(input.commitment_fee),
+    status: input.status || 'active',
+    notes: input.notes?.trim() || null,
+    account_ids: input.account_ids || [],
+  };
+}
+
+function assertValid(input: CreateFacilityInput) {
+  const problems = validateFacility(input);
+  if (problems.length > 0) {
+    throw errors.badRequest(`Invalid facility: ${problems.join('; ')}`, problems.join('. '));
+  }
+}
+
+function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+/**
+ * The borrower must be one of the tenant's entities, and linked accounts must
+ * be the tenant's loan accounts held in the facility currency
+ */
+async function assertFacilityReferences(
+  tenantId: string,
+  entityId: string,
+  currency: string,
+  accountIds: string[]
+) {
+  const { data: entity, error: entityError } = await supabase
+    .from('entities')
+    .select('entity_id')
+    .eq('tenant_id', tenantId)
+    .eq('entity_id', entityId)
+    .maybeSingle();
+
+  if (entityError) throw entityError;
+  if (!entity) throw errors.notFound('Entity');
+
+  if (accountIds.length === 0) return;
+
+  const { data, error } = await supabase
+    .from('accounts')
+    .select('id, account_name, account_type, currency')
+    .eq('tenant_id', tenantId)
+    .in('id', accountIds);
+
+  if (error) throw error;
+  if ((data || []).length !== accountIds.length) throw errors.notFound('Account');
+
+  const notLoans = (data || []).filter((account) => accountKind(account.account_type) !== 'loan');
+  if (notLoans.length > 0) {
+    throw errors.badRequest(
+      `Not loan accounts: ${notLoans.map((account) => account.account_name).join(', ')}`,
+      'Only loan, credit line, credit card and mortgage accounts can track a facility.'
+    );
+  }
+
+  const mismatched = (data || []).filter((account) => (account.currency || 'USD').toUpperCase() !== currency);
+  if (mismatched.length > 0) {
+    throw errors.badRequest(
+      `Accounts not in ${currency}: ${mismatched.map((account) => account.account_name).join(', ')}`,
+      `Linked accounts must be held in ${currency}.`
+    );
+  }
+}
+
+async function replaceFacilityAccounts(tenantId: string, facilityId: string, accountIds: string[]) {
+  const { error: deleteError } = await supabase
+    .from('facility_accounts')
+    .delete()
+    .eq('tenant_id', tenantId)
+    .eq('facility_id', facilityId);
+  if (deleteError) throw deleteError;
+
+  if (accountIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('facility_accounts')
+    .insert(accountIds.map((account_id) => ({ account_id, facility_id: facilityId, tenant_id: tenantId })));
+
+  if (error) {
+    if (error.code === '23505') {
+      throw errors.conflict('Account already linked', 'One of the accounts already tracks another facility');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Sum of current balances on each facility's linked accounts
+ */
+async function loadLinkedBalances(tenantId: string, facilities: Facility[]): Promise<Map<string, number>> {
+  const accountIds = facilities.flatMap((facility) => facility.accounts.map((link) => link.account_id));
+  const balances = new Map<string, number>();
+  if (accountIds.length === 0) return balances;
+
+  const { data, error } = await supabase
+    .from('accounts')
+    .select('id, current_balance')
+    .eq('tenant_id', tenantId)
+    .in('id', accountIds);
+
+  if (error) throw error;
+
+  const byAccount = new Map((data || []).map((account) => [account.id, Number(account.current_balance || 0)]));
+  for (const facility of facilities) {
+    if (facility.accounts.length === 0) continue;
+    balances.set(
+      facility.id,
+      facility.accounts.reduce((sum, link) => sum + Math.abs(byAccount.get(link.account_id) || 0), 0)
+    );
+  }
+
+  return balances;
+}
+
+// =====================================================
+// Facilities
+// =====================================================
+
+export async function listFacilities(
+  tenantId: string,
+  options: { entityId?: string; includeInactive?: boolean } = {}
+): Promise<FacilityWithPosition[]> {
+  let query = supabase.from('facilities').select(FACILITY_SELECT).eq('tenant_id', tenantId);
+  if (options.entityId) query = query.eq('entity_id', options.entityId);
+  if (!options.includeInactive) query = query.eq('status', 'active');
+
+  const { data, error } = await query.order('maturity_date');
+  if (error) throw error;
+
+  const facilities = (data || []) as Facility[];
+  const linked = await loadLinkedBalances(tenantId, facilities);
+
+  return facilities.map((facility) => ({
+    ...facility,
+    position: facilityPosition(facility, linked.get(facility.id) ?? null, today()),
+  }));
+}
+
+export async function getFacility(tenantId: string, facilityId: string): Promise<FacilityWithPosition> {
+  const { data, error } = await supabase
+    .from('facilities')
+    .select(FACILITY_SELECT)
+    .eq('tenant_id', tenantId)
+    .eq('id', facilityId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw errors.notFound('Facility');
+
+  const facility = data as Facility;
+  const linked = await loadLinkedBalances(tenantId, [facility]);
+  return { ...facility, position: facilityPosition(facility, linked.get(facility.id) ?? null, today()) };
+}
+
+export async function createFacility(
+  tenantId: string,
+  input: CreateFacilityInput,
+  actor: FacilityActor
+): Promise<FacilityWithPosition> {
+  assertCanManage(actor);
+
+  const { account_ids, ...values } = normalizeFacilityInput(input);
+  assertValid({ ...values, account_ids });
+  await assertFacilityReferences(tenantId, values.entity_id, values.currency, account_ids);
+
+  const { data, error } = await supabase
+    .from('facilities')
+    .insert({ ...values, tenant_id: tenantId, created_by: actor.userId })
+    .select('id')
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw errors.conflict('Facility name taken', `A facility named "${values.name}" already exists`);
+    }
+    throw error;
+  }
+
+  try {
+    await replaceFacilityAccounts(tenantId, data.id, account_ids);
+  } catch (linkError) {
+    await supabase.from('facilities').delete().eq('id', data.id);
+    throw linkError;
+  }
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'facility_created',
+    event_data: { facilityId: data.id, name: values.name, lender: values.lender },
+    user_id: actor.userId,
+  });
+
+  return getFacility(tenantId, data.id);
+}
+
+export async function updateFacility(
+  tenantId: string,
+  facilityId: string,
+  updates: Partial<CreateFacilityInput>,
+  actor: FacilityActor
+): Promise<FacilityWithPosition> {
+  assertCanManage(actor);
+
+  const existing = await getFacility(tenantId, facilityId);
+  const { account_ids, ...values } = normalizeFacilityInput({
+    ...existing,
+    ...updates,
+    account_ids: updates.account_ids || existing.accounts.map((link) => link.account_id),
+  });
+  assertValid({ ...values, account_ids });
+  await assertFacilityReferences(tenantId, values.entity_id, values.currency, account_ids);
+
+  const { error } = await supabase
+    .from('facilities')
+    .update(values)
+    .eq('tenant_id', tenantId)
+    .eq('id', facilityId);
+
+  if (error) {
+    if (error.code === '23505') {
+      throw errors.conflict('Facility name taken', `A facility named "${values.name}" already exists`);
+    }
+    throw error;
+  }
+
+  if (updates.account_ids) {
+    await replaceFacilityAccounts(tenantId, facilityId, account_ids);
+  }
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'facility_updated',
+    event_data: { facilityId, changes: Object.keys(updates) },
+    user_id: actor.userId,
+  });
+
+  return getFacility(tenantId, facilityId);
+}
+
+export async function deleteFacility(tenantId: string, facilityId: string, actor: FacilityActor): Promise<void> {
+  assertCanManage(actor);
+
+  const { data, error } = await supabase
+    .from('facilities')
+    .delete()
+    .eq('tenant_id', tenantId)
+    .eq('id', facilityId)
+    .select('id, name')
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw errors.notFound('Facility');
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'facility_deleted',
+    event_data: { facilityId, name: data.name },
+    user_id: actor.userId,
+  });
+}
+
+// =====================================================
+// Repayment schedule
+// =====================================================
+
+/**
+ * Replace a facility's repayment schedule with the given rows
+ */
+export async function replaceRepaymentSchedule(
+  tenantId: string,
+  facilityId: string,
+  repayments: RepaymentInput[],
+  actor: FacilityActor
+): Promise<FacilityWithPosition> {
+  assertCanManage(actor);
+
+  const facility = await getFacility(tenantId, facilityId);
+  const problems = validateRepayments(repayments, facility);
+  if (problems.length > 0) {
+    throw errors.badRequest(`Invalid repayment schedule: ${problems.join('; ')}`, problems.join('. '));
+  }
+
+  const { error: deleteError } = await supabase
+    .from('facility_repayments')
+    .delete()
+    .eq('tenant_id', tenantId)
+    .eq('facility_id', facilityId);
+  if (deleteError) throw deleteError;
+
+  if (repayments.length > 0) {
+    const { error } = await supabase.from('facility_repayments').insert(
+      repayments.map((repayment) => ({
+        facility_id: facilityId,
+        tenant_id: tenantId,
+        due_date: repayment.due_date,
+        principal_amount: Number(repayment.principal_amount),
+        status: repayment.status || 'scheduled',
+      }))
+    );
+    if (error) throw error;
+  }
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'facility_schedule_replaced',
+    event_data: { facilityId, repayments: repayments.length },
+    user_id: actor.userId,
+  });
+
+  return getFacility(tenantId, facilityId);
+}
@@ -0,0 +1,743 @@
+/**
+ * Forecast Service
+ * Builds 13-week rolling cash forecasts per entity and currency from normalized
+ * transactions and account_statements, and backfills actuals as statements arrive
+ */
+
+import { supabase } from '../supabase';
+import { accountBalance, daysBetween, getSignedAmount, round, shiftDate, toDateString } from '../utils';
+
+// =====================================================
+// Types and Interfaces
+// =====================================================
+
+export type RecurringCadence = 'weekly' | 'biweekly' | 'monthly' | 'quarterly';
+
+export interface ForecastTransaction {
+  date: string;
+  amount: number;
+  type?: string | null;
+  description?: string | null;
+  counterparty_name?: string | null;
+}
+
+export interface RecurringFlow {
+  key: string;
+  label: string;
+  direction: 'inflow' | 'outflow';
+  cadence: RecurringCadence;
+  averageAmount: number; // Signed: inflows positive, outflows negative
+  amountStdDev: number;
+  occurrences: number;
+  lastDate: string;
+  confidence: number; // 0-1
+}
+
+export interface ResidualFlowStats {
+  weeklyMean: number;
+  weeklyStdDev: number;
+  historyWeeks: number;
+}
+
+export interface WeeklyForecastPoint {
+  horizonWeek: number;
+  weekStart: string;
+  date: string; // Week end - the balance date being predicted
+  openingBalance: number;
+  predictedInflows: number;
+  predictedOutflows: number;
+  predictedBalance: number;
+  lowerBound: number;
+  upperBound: number;
+  confidence: number; // 0-100
+}
+
+export interface ForecastGenerationOptions {
+  asOf?: string;
+  entityId?: string;
+  weeks?: number;
+  historyDays?: number;
+}
+
+export interface ForecastGenerationResult {
+  asOf: string;
+  groups: number;
+  pointsWritten: number;
+  skippedAccounts: number;
+  actualsBackfilled: number;
+}
+
+interface StoredForecastPoint {
+  entity_id: string;
+  currency: string;
+  category: string;
+  date: string;
+  horizon_week: number | null;
+}
+
+// =====================================================
+// Configuration
+// =====================================================
+
+export const FORECAST_METHOD = 'rolling_13_week';
+const FORECAST_CATEGORY = 'Rolling 13-Week';
+const DEFAULT_WEEKS = 13;
+const DEFAULT_HISTORY_DAYS = 182;
+const MIN_OCCURRENCES = 3;
+const MIN_REGULARITY = 0.6;
+const BAND_Z_SCORE = 1.645; // 90% confidence band
+const ACTUALS_STALENESS_DAYS = 7;
+
+// Supabase returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+
+const CADENCES: Array<{ cadence: RecurringCadence; days: number; tolerance: number }> = [
+  { cadence: 'weekly', days: 7, tolerance: 2 },
+  { cadence: 'biweekly', days: 14, tolerance: 3 },
+  { cadence: 'monthly', days: 30.44, tolerance: 5 },
+  { cadence: 'quarterly', days: 91.31, tolerance: 10 },
+];
+
+// =====================================================
+// Date and Statistics Helpers
+// =====================================================
+
+function toDate(value: string): Date {
+  return new Date(`${value.slice(0, 10)}T00:00:00Z`);
+}
+
+function advanceByCadence(value: string, cadence: RecurringCadence): string {
+  if (cadence === 'weekly') return shiftDate(value, 7);
+  if (cadence === 'biweekly') return shiftDate(value, 14);
+
+  // Monthly/quarterly flows land on the same day of month, clamped to month end
+  const months = cadence === 'monthly' ? 1 : 3;
+  const date = toDate(value);
+  const day = date.getUTCDate();
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return toDateString(target);
+}
+
+function mean(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function stdDev(values: number[]): number {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  const variance = values.reduce((sum, value) => sum + (value - avg) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Normalize a description/counterparty so that recurring payments with
+ * changing invoice numbers or dates group together
+ */
+export function normalizeFlowKey(value?: string | null): string {
+  return (value || '')
+    .toLowerCase()
+    .replace(/[0-9]+/g, ' ')
+    .replace(/[^a-z\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 40);
+}
+
+// =====================================================
+// Recurring Flow Detection
+// =====================================================
+
+/**
+ * Detect recurring inflows and outflows in a transaction history.
+ * Transactions are grouped by counterparty (or normalized description) and
+ * direction; a group is recurring when its intervals match a known cadence.
+ * Flows whose next occurrence is more than one period overdue are treated as lapsed.
+ */
+export function detectRecurringFlows(
+  transactions: ForecastTransaction[],
+  asOf: string
+): RecurringFlow[] {
+  const groups = new Map<string, { label: string; items: Array<{ date: string; amount: number }> }>();
+
+  for (const txn of transactions) {
+    const amount = getSignedAmount(txn.amount, txn.type);
+    if (amount === 0) continue;
+
+    const label = txn.counterparty_name || txn.description || '';
+    const normalized = normalizeFlowKey(label);
+    if (!normalized) continue;
+
+    const key = `${amount > 0 ? 'in' : 'out'}:${normalized}`;
+    const group = groups.get(key) || { label, items: [] };
+    group.items.push({ date: txn.date.slice(0, 10), amount });
+    groups.set(key, group);
+  }
+
+  const flows: RecurringFlow[] = [];
+
+  for (const [key, group] of groups) {
+    // Collapse same-day postings (e.g. split payroll) into one occurrence
+    const byDate = new Map<string, number>();
+    for (const item of group.items) {
+      byDate.set(item.date, (byDate.get(item.date) || 0) + item.amount);
+    }
+
+    const dates = Array.from(byDate.keys()).sort();
+    if (dates.length < MIN_OCCURRENCES) continue;
+
+    const intervals = dates.slice(1).map((date, i) => daysBetween(dates[i], date));
+    const typicalInterval = median(intervals);
+    const match = CADENCES.find(
+      (candidate) => Math.abs(typicalInterval - candidate.days) <= candidate.tolerance
+    );
+    if (!match) continue;
+
+    const regularity =
+      intervals.filter((interval) => Math.abs(interval - match.days) <= match.tolerance).length /
+      intervals.length;
+    if (regularity < MIN_REGULARITY) continue;
+
+    const lastDate = dates[dates.length - 1];
+    if (daysBetween(lastDate, asOf) > match.days * 2 + match.tolerance) continue;
+
+    const amounts = dates.map((date) => byDate.get(date)!);
+    const averageAmount = mean(amounts);
+    const amountStdDev = stdDev(amounts);
+    const amountStability = 1 - Math.min(1, amountStdDev / Math.abs(averageAmount));
+    const historyDepth = Math.min(1, dates.length / 6);
+
+    flows.push({
+      key,
+      label: group.label,
+      direction: averageAmount > 0 ? 'inflow' : 'outflow',
+      cadence: match.cadence,
+      averageAmount: round(averageAmount),
+      amountStdDev: round(amountStdDev),
+      occurrences: dates.length,
+      lastDate,
+      confidence: round(regularity * (0.5 + 0.5 * amountStability) * (0.5 + 0.5 * historyDepth)),
+    });
+  }
+
+  return flows.sort((a, b) => Math.abs(b.averageAmount) - Math.abs(a.averageAmount));
+}
+
+/**
+ * Summarize the non-recurring remainder of the history as a weekly mean and
+ * standard deviation, counting empty weeks as zero
+ */
+export function summarizeResidualFlows(
+  transactions: ForecastTransaction[],
+  flows: RecurringFlow[],
+  asOf: string,
+  historyDays: number = DEFAULT_HISTORY_DAYS
+): ResidualFlowStats {
+  const historyWeeks = Math.max(1, Math.floor(historyDays / 7));
+  const weeklyTotals = new Array<number>(historyWeeks).fill(0);
+  const recurringKeys = new Set(flows.map((flow) => flow.key));
+
+  for (const txn of transactions) {
+    const amount = getSignedAmount(txn.amount, txn.type);
+    const key = `${amount > 0 ? 'in' : 'out'}:${normalizeFlowKey(txn.counterparty_name || txn.description)}`;
+    if (recurringKeys.has(key)) continue;
+
+    const age = daysBetween(txn.date.slice(0, 10), asOf);
+    if (age < 0) continue;
+    const weekIndex = Math.floor(age / 7);
+    if (weekIndex >= historyWeeks) continue;
+    weeklyTotals[weekIndex] += amount;
+  }
+
+  return {
+    weeklyMean: round(mean(weeklyTotals)),
+    weeklyStdDev: round(stdDev(weeklyTotals)),
+    historyWeeks,
+  };
+}
+
+// =====================================================
+// Projection
+// =====================================================
+
+/**
+ * Project a weekly balance path from an opening balance.
+ * Recurring flows are placed on their projected dates; the residual is spread
+ * evenly per week. Uncertainty accumulates from residual volatility, recurring
+ * amount volatility and the chance a recurring flow does not occur, giving a
+ * band that widens with the horizon. Confidence (0-100) is one minus the band
+ * half-width relative to the balance and activity scale.
+ */
+export function buildWeeklyForecast(params: {
+  asOf: string;
+  openingBalance: number;
+  flows: RecurringFlow[];
+  residual: ResidualFlowStats;
+  weeks?: number;
+}): WeeklyForecastPoint[] {
+  const { asOf, openingBalance, flows, residual } = params;
+  const weeks = params.weeks ?? DEFAULT_WEEKS;
+  const horizonEnd = shiftDate(asOf, weeks * 7);
+
+  const weeklyInflows = new Array<number>(weeks).fill(0);
+  const weeklyOutflows = new Array<number>(weeks).fill(0);
+  const weeklyVariance = new Array<number>(weeks).fill(0);
+
+  for (const flow of flows) {
+    let next = advanceByCadence(flow.lastDate, flow.cadence);
+    while (next <= asOf) {
+      next = advanceByCadence(next, flow.cadence);
+    }
+
+    while (next <= horizonEnd) {
+      const weekIndex = Math.min(weeks - 1, Math.floor((daysBetween(asOf, next) - 1) / 7));
+      if (flow.averageAmount > 0) {
+        weeklyInflows[weekIndex] += flow.averageAmount;
+      } else {
+        weeklyOutflows[weekIndex] += flow.averageAmount;
+      }
+      weeklyVariance[weekIndex] +=
+        flow.amountStdDev ** 2 + (1 - flow.confidence) * flow.averageAmount ** 2;
+      next = advanceByCadence(next, flow.cadence);
+    }
+  }
+
+  const points: WeeklyForecastPoint[] = [];
+  let balance = openingBalance;
+  let cumulativeVariance = 0;
+  let cumulativeActivity = 0;
+
+  for (let i = 0; i < weeks; i++) {
+    const inflows = weeklyInflows[i] + Math.max(0, residual.weeklyMean);
+    const outflows = weeklyOutflows[i] + Math.min(0, residual.weeklyMean);
+    const weekOpening = balance;
+
+    balance = weekOpening + inflows + outflows;
+    cumulativeVariance += weeklyVariance[i] + residual.weeklyStdDev ** 2;
+    cumulativeActivity += inflows - outflows;
+
+    const halfBand = BAND_Z_SCORE * Math.sqrt(cumulativeVariance);
+    const scale = Math.max(Math.abs(balance), cumulativeActivity, 1);
+
+    points.push({
+      horizonWeek: i + 1,
+      weekStart: shiftDate(asOf, i * 7 + 1),
+      date: shiftDate(asOf, (i + 1) * 7),
+      openingBalance: round(weekOpening),
+      predictedInflows: round(inflows),
+      predictedOutflows: round(outflows),
+      predictedBalance: round(balance),
+      lowerBound: round(balance - halfBand),
+      upperBound: round(balance + halfBand),
+      confidence: round(Math.max(0, 1 - halfBand / scale) * 100),
+    });
+  }
+
+  return points;
+}
+
+// =====================================================
+// Data Loading
+// =====================================================
+
+interface ForecastAccount {
+  id: string;
+  account_id: string;
+  entity_id: string | null;
+  currency: string | null;
+  current_balance: number | null;
+  balance: number | null;
+}
+
+interface ForecastGroup {
+  entityId: string;
+  currency: string;
+  accounts: ForecastAccount[];
+}
+
+async function loadForecastGroups(
+  tenantId: string,
+  entityId?: string
+): Promise<{ groups: ForecastGroup[]; skippedAccounts: number }> {
+  let query = supabase
+    .from('accounts')
+    .select('id, account_id, entity_id, currency, current_balance, balance')
+    .eq('tenant_id', tenantId);
+
+  if (entityId) {
+    query = query.eq('entity_id', entityId);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const groups = new Map<string, ForecastGroup>();
+  let skippedAccounts = 0;
+
+  for (const account of (data || []) as ForecastAccount[]) {
+    // Forecasts are keyed by entity - unassigned provider accounts are skipped
+    if (!account.entity_id) {
+      skippedAccounts++;
+      continue;
+    }
+    const currency = (account.currency || 'USD').toUpperCase();
+    const key = `${account.entity_id}:${currency}`;
+    const group = groups.get(key) || { entityId: account.entity_id, currency, accounts: [] };
+    group.accounts.push(account);
+    groups.set(key, group);
+  }
+
+  return { groups: Array.from(groups.values()), skippedAccounts };
+}
+
+async function loadTransactions(
+  tenantId: string,
+  accountIds: string[],
+  startDate: string,
+  endDate: string
+): Promise<Array<ForecastTransaction & { account_id: string }>> {
+  const rows: Array<ForecastTransaction & { account_id: string }> = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('account_id, date, amount, type, description, counterparty_name')
+      .eq('tenant_id', tenantId)
+      .in('account_id', accountIds)
+      .gte('date', startDate)
+      .lte('date', endDate)
+      .order('date')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+async function loadStatements(
+  tenantId: string,
+  accountIds: string[],
+  startDate: string,
+  endDate: string
+): Promise<Array<{ account_id: string; statement_date: string; ending_balance: number }>> {
+  const rows: Array<{ account_id: string; statement_date: string; ending_balance: number }> = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('account_statements')
+      .select('account_id, statement_date, ending_balance')
+      .eq('tenant_id', tenantId)
+      .in('account_id', accountIds)
+      .gte('statement_date', startDate)
+      .lte('statement_date', endDate)
+      .order('statement_date', { ascending: false })
+      .order('account_id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+/**
+ * Opening balance for a group as of a date: the latest statement per account
+ * rolled forward by transactions posted after it, falling back to the
+ * account's stored balance when no statement exists in the history window
+ */
+function computeOpeningBalance(
+  accounts: ForecastAccount[],
+  statements: Array<{ account_id: string; statement_date: string; ending_balance: number }>,
+  transactions: Array<ForecastTransaction & { account_id: string }>
+): number {
+  let total = 0;
+
+  for (const account of accounts) {
+    const latest = statements.find((statement) => statement.account_id === account.id);
+
+    if (!latest) {
+      total += accountBalance(account);
+      continue;
+    }
+
+    const rollForward = transactions
+      .filter((txn) => txn.account_id === account.account_id && txn.date.slice(0, 10) > latest.statement_date)
+      .reduce((sum, txn) => sum + getSignedAmount(txn.amount, txn.type), 0);
+
+    total += Number(latest.ending_balance) + rollForward;
+  }
+
+  return total;
+}
+
+// =====================================================
+// Generation and Backfill
+// =====================================================
+
+/**
+ * Generate the rolling forecast for a tenant (optionally one entity).
+ * Points are keyed by date and horizon, so what earlier runs predicted for a
+ * date is kept and each horizon's accuracy can be tracked once actuals are
+ * backfilled.
+ */
+export async function generateRollingForecast(
+  tenantId: string,
+  options: ForecastGenerationOptions = {}
+): Promise<ForecastGenerationResult> {
+  const asOf = options.asOf || toDateString(new Date());
+  const weeks = options.weeks ?? DEFAULT_WEEKS;
+  const historyDays = options.historyDays ?? DEFAULT_HISTORY_DAYS;
+  const historyStart = shiftDate(asOf, -historyDays);
+  const generatedAt = new Date().toISOString();
+
+  console.log(`[Forecast] Generating ${weeks}-week forecast for tenant ${tenantId} as of ${asOf}`);
+
+  const { groups, skippedAccounts } = await loadForecastGroups(tenantId, options.entityId);
+  let pointsWritten = 0;
+
+  for (const group of groups) {
+    const transactions = await loadTransactions(
+      tenantId,
+      group.accounts.map((account) => account.account_id),
+      historyStart,
+      asOf
+    );
+    const statements = await loadStatements(
+      tenantId,
+      group.accounts.map((account) => account.id),
+      historyStart,
+      asOf
+    );
+
+    const openingBalance = computeOpeningBalance(group.accounts, statements, transactions);
+    const flows = detectRecurringFlows(transactions, asOf);
+    const residual = summarizeResidualFlows(transactions, flows, asOf, historyDays);
+    const points = buildWeeklyForecast({ asOf, openingBalance, flows, residual, weeks });
+
+    const rows = points.map((point) => ({
+      forecast_id: `FC-${tenantId}-${group.entityId}-${group.currency}-${point.date}-W${point.horizonWeek}`,
+      tenant_id: tenantId,
+      entity_id: group.entityId,
+      currency: group.currency,
+      category: FORECAST_CATEGORY,
+      method: FORECAST_METHOD,
+      date: point.date,
+      horizon_week: point.horizonWeek,
+      opening_balance: point.openingBalance,
+      predicted_inflows: point.predictedInflows,
+      predicted_outflows: point.predictedOutflows,
+      predicted_balance: point.predictedBalance,
+      lower_bound: point.lowerBound,
+      upper_bound: point.upperBound,
+      confidence: point.confidence,
+      generated_at: generatedAt,
+      updated_at: generatedAt,
+      metadata: {
+        as_of: asOf,
+        week_start: point.weekStart,
+        history_days: historyDays,
+        account_count: group.accounts.length,
+        residual,
+        recurring_flows: flows.map((flow) => ({
+          label: flow.label,
+          cadence: flow.cadence,
+          average_amount: flow.averageAmount,
+          confidence: flow.confidence,
+        })),
+      },
+    }));
+
+    const { error } = await supabase
+      .from('forecasts')
+      .upsert(rows, { onConflict: 'tenant_id,entity_id,currency,category,date,horizon_week' });
+
+    if (error) {
+      console.error(`[Forecast] Failed to write forecast for ${group.entityId}/${group.currency}:`, error);
+      throw error;
+    }
+
+    pointsWritten += rows.length;
+    console.log(
+      `[Forecast] ${group.entityId}/${group.currency}: ${flows.length} recurring flows, ` +
+        `opening ${round(openingBalance)}, ${rows.length} points`
+    );
+  }
+
+  const actualsBackfilled = await backfillForecastActuals(tenantId, { entityId: options.entityId });
+
+  return {
+    asOf,
+    groups: groups.length,
+    pointsWritten,
+    skippedAccounts,
+    actualsBackfilled,
+  };
+}
+
+/**
+ * Fill actual_balance/variance on past forecast points from account_statements.
+ * A point is only filled when every account in its entity/currency group has
+ * a statement within a week before the forecast date.
+ */
+export async function backfillForecastActuals(
+  tenantId: string,
+  options: { entityId?: string; asOf?: string } = {}
+): Promise<number> {
+  try {
+    const asOf = options.asOf || toDateString(new Date());
+
+    const pending: Array<{ forecast_id: string; entity_id: string; currency: string; date: string; predicted_balance: number }> = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let forecastQuery = supabase
+        .from('forecasts')
+        .select('forecast_id, entity_id, currency, date, predicted_balance')
+        .eq('tenant_id', tenantId)
+        .eq('method', FORECAST_METHOD)
+        .is('actual_balance', null)
+        .lte('date', asOf);
+
+      if (options.entityId) {
+        forecastQuery = forecastQuery.eq('entity_id', options.entityId);
+      }
+
+      // Filled rows drop out of this query, but nothing is filled until every page is read
+      const { data, error: pendingError } = await forecastQuery
+        .order('date')
+        .order('forecast_id')
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (pendingError) throw pendingError;
+      pending.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    if (pending.length === 0) return 0;
+
+    const { groups } = await loadForecastGroups(tenantId, options.entityId);
+    const groupsByKey = new Map(groups.map((group) => [`${group.entityId}:${group.currency}`, group]));
+
+    const earliest = shiftDate(pending[0].date, -ACTUALS_STALENESS_DAYS);
+    const latest = pending[pending.length - 1].date;
+    const accountIds = groups.flatMap((group) => group.accounts.map((account) => account.id));
+    if (accountIds.length === 0) return 0;
+
+    const statements = await loadStatements(tenantId, accountIds, earliest, latest);
+    const updatedAt = new Date().toISOString();
+    let updated = 0;
+
+    for (const forecast of pending) {
+      const group = groupsByKey.get(`${forecast.entity_id}:${forecast.currency}`);
+      if (!group) continue;
+
+      const windowStart = shiftDate(forecast.date, -ACTUALS_STALENESS_DAYS);
+      let actual = 0;
+      let complete = true;
+
+      for (const account of group.accounts) {
+        const statement = statements.find(
+          (row) =>
+            row.account_id === account.id &&
+            row.statement_date <= forecast.date &&
+            row.statement_date >= windowStart
+        );
+        if (!statement) {
+          complete = false;
+          break;
+        }
+        actual += Number(statement.ending_balance);
+      }
+
+      if (!complete) continue;
+
+      const { error } = await supabase
+        .from('forecasts')
+        .update({
+          actual_balance: round(actual),
+          variance: round(actual - Number(forecast.predicted_balance)),
+          actuals_updated_at: updatedAt,
+          updated_at: updatedAt,
+        })
+        .eq('tenant_id', tenantId)
+        .eq('forecast_id', forecast.forecast_id);
+
+      if (error) throw error;
+      updated++;
+    }
+
+    if (updated > 0) {
+      console.log(`[Forecast] Backfilled actuals for ${updated} forecast points`);
+    }
+
+    return updated;
+  } catch (error) {
+    console.error('[Forecast] Error backfilling forecast actuals:', error);
+    throw error;
+  }
+}
+
+// The latest run's prediction for a date is the one at the shortest horizon.
+// Manual forecasts have no horizon and are kept as they are.
+function latestPredictions<T extends StoredForecastPoint>(rows: T[]): T[] {
+  const keyOf = (row: T) => [row.entity_id, row.currency, row.category, row.date].join(':');
+  const shortest = new Map<string, number>();
+  for (const row of rows) {
+    if (row.horizon_week === null) continue;
+    const key = keyOf(row);
+    shortest.set(key, Math.min(shortest.get(key) ?? row.horizon_week, row.horizon_week));
+  }
+  return rows.filter((row) => row.horizon_week === null || shortest.get(keyOf(row)) === row.horizon_week);
+}
+
+/**
+ * Get forecast points for a tenant, optionally filtered. Each date has one
+ * point per horizon it was forecast at; with `horizonWeek` only that horizon's
+ * points are returned, otherwise the most recent prediction for each date.
+ */
+export async function getTenantForecasts(
+  tenantId: string,
+  filters: { entityId?: string; currency?: string; from?: string; to?: string; horizonWeek?: number } = {}
+) {
+  try {
+    const rows = [];
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      let query = supabase.from('forecasts').select('*').eq('tenant_id', tenantId);
+
+      if (filters.entityId) query = query.eq('entity_id', filters.entityId);
+      if (filters.currency) query = query.eq('currency', filters.currency.toUpperCase());
+      if (filters.from) query = query.gte('date', filters.from);
+      if (filters.to) query = query.lte('date', filters.to);
+      if (filters.horizonWeek) query = query.eq('horizon_week', filters.horizonWeek);
+
+      const { data, error } = await query
+        .order('entity_id')
+        .order('currency')
+        .order('date')
+        .order('forecast_id')
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) throw error;
+      rows.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return filters.horizonWeek ? rows : latestPredictions(rows);
+  } catch (error) {
+    console.error('Error fetching forecasts:', error);
+    throw error;
+  }
+}
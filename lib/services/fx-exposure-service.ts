@@ -0,0 +1,250 @@
+/**
+ * FX Exposure Service
+ * Collects current balances, rolling forecast flows and open payments per
+ * entity and currency, and reports them against each entity's functional
+ * currency with SPOT/EOM/AVG translation and sensitivity to rate moves
+ */
+
+import { supabase } from '../supabase';
+import type { RateType } from '../currency';
+import { FORECAST_METHOD } from './forecast-service';
+import {
+  DEFAULT_SHOCKS,
+  RATE_TYPES,
+  buildExposurePositions,
+  buildSensitivityTable,
+  formatShock,
+  summarizeByCurrency,
+} from '../fx/exposure';
+import { accountBalance, chunk, shiftDate, toDateString } from '../utils';
+import type { ExposureEntity, ExposureItem, ExposureRateLookup, FxExposureReport } from '../types/fx';
+
+// =====================================================
+// Configuration
+// =====================================================
+
+const DEFAULT_HORIZON_DAYS = 365;
+const DEFAULT_FUNCTIONAL_CURRENCY = 'USD';
+
+// Payments that are committed but have not left the account yet
+const OPEN_PAYMENT_STATUSES = ['Pending Approval', 'Approved', 'Scheduled'];
+
+export interface FxExposureOptions {
+  asOf?: string;
+  horizonDays?: number;
+  entityId?: string;
+  reportingCurrency?: string;
+}
+
+// =====================================================
+// Rates
+// =====================================================
+
+/**
+ * USD-based rate for one currency and rate type, from the same database
+ * functions getExchangeRate uses. SPOT follows the tenant's source precedence.
+ */
+async function fetchUsdRate(tenantId: string, currency: string, type: RateType, asOf: string): Promise<number | null> {
+  if (type === 'SPOT') {
+    const { data, error } = await supabase.rpc('get_fx_rate_for_tenant', {
+      p_tenant_id: tenantId,
+      p_currency_from: 'USD',
+      p_currency_to: currency,
+      p_date: asOf,
+      p_rate_type: 'SPOT',
+    });
+
+    if (error) throw error;
+    const row = Array.isArray(data) ? data[0] : null;
+    return row?.rate == null ? null : Number(row.rate);
+  }
+
+  const { data, error } =
+    type === 'AVG'
+      ? await supabase.rpc('get_monthly_average', {
+          p_currency_from: 'USD',
+          p_currency_to: currency,
+          p_month_date: asOf,
+        })
+      : await supabase.rpc('get_previous_period_end', {
+          p_currency_from: 'USD',
+          p_currency_to: currency,
+          p_target_date: asOf,
+        });
+
+  if (error) throw error;
+  return data == null ? null : Number(data);
+}
+
+/**
+ * Rate lookup triangulated through USD for every currency involved
+ */
+async function loadRateLookup(tenantId: string, currencies: string[], asOf: string): Promise<ExposureRateLookup> {
+  const usdRates = new Map<string, number | null>();
+
+  for (const currency of Array.from(new Set(currencies))) {
+    if (currency === 'USD') continue;
+    for (const type of RATE_TYPES) {
+      usdRates.set(`${currency}:${type}`, await fetchUsdRate(tenantId, currency, type, asOf));
+    }
+  }
+
+  const usdRate = (currency: string, type: RateType) => (currency === 'USD' ? 1 : usdRates.get(`${currency}:${type}`));
+
+  return (from, to, type) => {
+    if (from === to) return 1;
+    const fromRate = usdRate(from, type);
+    const toRate = usdRate(to, type);
+    return fromRate && toRate ? toRate / fromRate : null;
+  };
+}
+
+// =====================================================
+// Positions
+// =====================================================
+
+async function loadEntities(tenantId: string, entityId?: string): Promise<ExposureEntity[]> {
+  let query = supabase.from('entities').select('entity_id, entity_name, functional_currency').eq('tenant_id', tenantId);
+  if (entityId) query = query.eq('entity_id', entityId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data || []).map((entity) => ({
+    entity_id: entity.entity_id,
+    entity_name: entity.entity_name,
+    functional_currency: (entity.functional_currency || DEFAULT_FUNCTIONAL_CURRENCY).toUpperCase(),
+  }));
+}
+
+async function loadExposureItems(
+  tenantId: string,
+  entityIds: string[],
+  asOf: string,
+  horizonEnd: string
+): Promise<ExposureItem[]> {
+  const items: ExposureItem[] = [];
+  const accountEntities = new Map<string, string>();
+
+  for (const ids of chunk(entityIds)) {
+    const { data: accounts, error } = await supabase
+      .from('accounts')
+      .select('account_id, entity_id, currency, balance, current_balance, status')
+      .eq('tenant_id', tenantId)
+      .in('entity_id', ids);
+
+    if (error) throw error;
+
+    for (const account of accounts || []) {
+      accountEntities.set(account.account_id, account.entity_id);
+      if (account.status === 'Closed') continue;
+
+      const balance = accountBalance(account);
+      if (balance === 0) continue;
+      items.push({
+        entity_id: account.entity_id,
+        currency: account.currency || 'USD',
+        source: 'balance',
+        amount: balance,
+        date: asOf,
+      });
+    }
+
+    const { data: forecasts, error: forecastError } = await supabase
+      .from('forecasts')
+      .select('entity_id, currency, date, predicted_inflows, predicted_outflows')
+      .eq('tenant_id', tenantId)
+      .eq('method', FORECAST_METHOD)
+      .in('entity_id', ids)
+      .gt('date', asOf)
+      .lte('date', horizonEnd);
+
+    if (forecastError) throw forecastError;
+
+    for (const point of forecasts || []) {
+      // Rolling forecast outflows are stored negative
+      const net = Number(point.predicted_inflows || 0) + Number(point.predicted_outflows || 0);
+      if (net === 0) continue;
+      items.push({
+        entity_id: point.entity_id,
+        currency: point.currency,
+        source: 'forecast',
+        amount: net,
+        date: point.date,
+      });
+    }
+  }
+
+  for (const accountIds of chunk(Array.from(accountEntities.keys()))) {
+    const { data: payments, error } = await supabase
+      .from('payments')
+      .select('from_account, amount, currency, scheduled_date')
+      .eq('tenant_id', tenantId)
+      .in('status', OPEN_PAYMENT_STATUSES)
+      .in('from_account', accountIds)
+      .lte('scheduled_date', horizonEnd);
+
+    if (error) throw error;
+
+    for (const payment of payments || []) {
+      items.push({
+        entity_id: accountEntities.get(payment.from_account)!,
+        currency: payment.currency,
+        source: 'payment',
+        amount: -Math.abs(Number(payment.amount)),
+        date: payment.scheduled_date,
+      });
+    }
+  }
+
+  return items;
+}
+
+// =====================================================
+// Report
+// =====================================================
+
+export async function getFxExposure(tenantId: string, options: FxExposureOptions = {}): Promise<FxExposureReport> {
+  const asOf = options.asOf || toDateString(new Date());
+  const horizonDays = options.horizonDays ?? DEFAULT_HORIZON_DAYS;
+  const reportingCurrency = (options.reportingCurrency || 'USD').toUpperCase();
+
+  const entities = await loadEntities(tenantId, options.entityId);
+  const items = await loadExposureItems(
+    tenantId,
+    entities.map((entity) => entity.entity_id),
+    asOf,
+    shiftDate(asOf, horizonDays)
+  );
+
+  const rates = await loadRateLookup(
+    tenantId,
+    [
+      reportingCurrency,
+      ...entities.map((entity) => entity.functional_currency),
+      ...items.map((item) => item.currency.toUpperCase()),
+    ],
+    asOf
+  );
+
+  const positions = buildExposurePositions(items, entities, rates, asOf);
+  const sensitivities = buildSensitivityTable(positions, DEFAULT_SHOCKS);
+
+  const missingRates = new Set<string>();
+  for (const position of positions) {
+    if (position.exposed && position.translated.SPOT == null) {
+      missingRates.add(`${position.currency}/${position.functional_currency}`);
+    }
+  }
+
+  return {
+    as_of: asOf,
+    horizon_days: horizonDays,
+    reporting_currency: reportingCurrency,
+    shocks: DEFAULT_SHOCKS.map(formatShock),
+    positions,
+    sensitivities,
+    by_currency: summarizeByCurrency(sensitivities, rates, reportingCurrency),
+    missing_rates: Array.from(missingRates).sort(),
+  };
+}
@@ -0,0 +1,341 @@
+/**
+ * FX Revaluation Service
+ * Revalues each foreign-currency account at a month end from its
+ * account_statements balances, using period-end rates from
+ * get_previous_period_end, and returns realized/unrealized gain or loss per
+ * entity with journal rows coded to accounts.gl_account_code
+ */
+
+import { supabase } from '../supabase';
+import { errors } from '../security/error-handler';
+import {
+  buildRevaluationJournal,
+  isMonthEnd,
+  reconcileFlows,
+  revalueAccount,
+  summarizeRevaluationByEntity,
+} from '../fx/revaluation';
+import { chunk, getSignedAmount, shiftDate } from '../utils';
+import type {
+  ExposureEntity,
+  FxRevaluationLine,
+  FxRevaluationReport,
+  RevaluationAccountInput,
+  RevaluationRates,
+} from '../types/fx';
+
+// =====================================================
+// Configuration
+// =====================================================
+
+const DEFAULT_FUNCTIONAL_CURRENCY = 'USD';
+
+// Statements older than this before a period boundary are not used as its balance
+const STATEMENT_LOOKBACK_DAYS = 45;
+
+const PAGE_SIZE = 1000;
+
+export interface FxRevaluationOptions {
+  periodEnd?: string; // Month end; defaults to the last completed month
+  entityId?: string;
+  realizedGlCode?: string | null;
+  unrealizedGlCode?: string | null;
+}
+
+interface RevaluationAccount {
+  id: string;
+  account_id: string;
+  account_name: string;
+  entity_id: string;
+  currency: string;
+  gl_account_code: string | null;
+}
+
+// =====================================================
+// Loading
+// =====================================================
+
+async function loadEntities(tenantId: string, entityId?: string): Promise<ExposureEntity[]> {
+  let query = supabase.from('entities').select('entity_id, entity_name, functional_currency').eq('tenant_id', tenantId);
+  if (entityId) query = query.eq('entity_id', entityId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data || []).map((entity) => ({
+    entity_id: entity.entity_id,
+    entity_name: entity.entity_name,
+    functional_currency: (entity.functional_currency || DEFAULT_FUNCTIONAL_CURRENCY).toUpperCase(),
+  }));
+}
+
+/**
+ * Accounts held in a currency other than their entity's functional currency
+ */
+async function loadForeignAccounts(tenantId: string, entities: ExposureEntity[]): Promise<RevaluationAccount[]> {
+  const functional = new Map(entities.map((entity) => [entity.entity_id, entity.functional_currency]));
+  const accounts: RevaluationAccount[] = [];
+
+  for (const ids of chunk(Array.from(functional.keys()))) {
+    const { data, error } = await supabase
+      .from('accounts')
+      .select('id, account_id, account_name, entity_id, currency, gl_account_code')
+      .eq('tenant_id', tenantId)
+      .in('entity_id', ids);
+
+    if (error) throw error;
+
+    for (const account of data || []) {
+      const currency = (account.currency || 'USD').toUpperCase();
+      if (currency === functional.get(account.entity_id)) continue;
+      accounts.push({ ...account, currency, gl_account_code: account.gl_account_code || null });
+    }
+  }
+
+  return accounts;
+}
+
+/**
+ * Latest reported statement balance per account at or before each boundary
+ * date. Reconstructed (calculated) balances are estimates and are not revalued.
+ */
+async function loadBoundaryBalances(
+  tenantId: string,
+  accountIds: string[],
+  openingDate: string,
+  periodEnd: string
+) {
+  const opening = new Map<string, number>();
+  const closing = new Map<string, number>();
+
+  for (const ids of chunk(accountIds)) {
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('account_statements')
+        .select('account_id, statement_date, ending_balance')
+        .eq('tenant_id', tenantId)
+        .in('account_id', ids)
+        .neq('source', 'calculated')
+        .gte('statement_date', shiftDate(openingDate, -STATEMENT_LOOKBACK_DAYS))
+        .lte('statement_date', periodEnd)
+        .order('statement_date', { ascending: false })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      for (const row of data || []) {
+        const balance = Number(row.ending_balance);
+        if (!closing.has(row.account_id) && row.statement_date >= shiftDate(periodEnd, -STATEMENT_LOOKBACK_DAYS)) {
+          closing.set(row.account_id, balance);
+        }
+        if (!opening.has(row.account_id) && row.statement_date <= openingDate) {
+          opening.set(row.account_id, balance);
+        }
+      }
+
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+  }
+
+  return { opening, closing };
+}
+
+/**
+ * Signed transaction amounts per accounts.account_id within the period
+ */
+async function loadPeriodFlows(
+  tenantId: string,
+  accountIds: string[],
+  periodStart: string,
+  periodEnd: string
+): Promise<Map<string, number[]>> {
+  const flows = new Map<string, number[]>();
+
+  for (const ids of chunk(accountIds)) {
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('account_id, amount, type')
+        .eq('tenant_id', tenantId)
+        .in('account_id', ids)
+        .gte('date', periodStart)
+        .lte('date', periodEnd)
+        .order('date')
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      for (const txn of data || []) {
+        const amounts = flows.get(txn.account_id) || [];
+        amounts.push(getSignedAmount(txn.amount, txn.type));
+        flows.set(txn.account_id, amounts);
+      }
+
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+  }
+
+  return flows;
+}
+
+// =====================================================
+// Rates
+// =====================================================
+
+/**
+ * USD-based opening, closing and average rates for one currency. Both period
+ * ends are EOM rates from get_previous_period_end: the opening one for the
+ * period start and the closing one for the day after the period end.
+ */
+async function fetchUsdRates(currency: string, periodStart: string, periodEnd: string) {
+  const rpc = async (fn: string, params: Record<string, string>) => {
+    const { data, error } = await supabase.rpc(fn, { p_currency_from: 'USD', p_currency_to: currency, ...params });
+    if (error) throw error;
+    return data == null ? null : Number(data);
+  };
+
+  return {
+    opening: await rpc('get_previous_period_end', { p_target_date: periodStart }),
+    closing: await rpc('get_previous_period_end', { p_target_date: shiftDate(periodEnd, 1) }),
+    average: await rpc('get_monthly_average', { p_month_date: periodStart }),
+  };
+}
+
+async function loadRates(
+  pairs: Array<{ currency: string; functional: string }>,
+  periodStart: string,
+  periodEnd: string
+): Promise<Map<string, RevaluationRates | null>> {
+  const usdRates = new Map<string, Record<keyof RevaluationRates, number | null>>();
+  const usd = async (currency: string) => {
+    if (currency === 'USD') return { opening: 1, closing: 1, average: 1 };
+    if (!usdRates.has(currency)) usdRates.set(currency, await fetchUsdRates(currency, periodStart, periodEnd));
+    return usdRates.get(currency)!;
+  };
+
+  const rates = new Map<string, RevaluationRates | null>();
+  for (const { currency, functional } of pairs) {
+    const key = `${currency}/${functional}`;
+    if (rates.has(key)) continue;
+
+    const fromUsd = await usd(currency);
+    const toUsd = await usd(functional);
+    const cross = (type: keyof RevaluationRates) =>
+      fromUsd[type] && toUsd[type] ? toUsd[type]! / fromUsd[type]! : null;
+
+    const opening = cross('opening');
+    const closing = cross('closing');
+    // Months without daily rates use the midpoint of the two period ends
+    const average = cross('average') ?? (opening && closing ? (opening + closing) / 2 : null);
+    rates.set(key, opening && closing && average ? { opening, closing, average } : null);
+  }
+
+  return rates;
+}
+
+// =====================================================
+// Report
+// =====================================================
+
+export async function getFxRevaluation(
+  tenantId: string,
+  options: FxRevaluationOptions = {}
+): Promise<FxRevaluationReport> {
+  const periodEnd = options.periodEnd || shiftDate(`${new Date().toISOString().slice(0, 7)}-01`, -1);
+  if (!isMonthEnd(periodEnd)) {
+    throw errors.badRequest(`periodEnd ${periodEnd} is not a month end`, 'Choose the last day of a month.');
+  }
+  const periodStart = `${periodEnd.slice(0, 7)}-01`;
+  const openingDate = shiftDate(periodStart, -1);
+
+  const entities = await loadEntities(tenantId, options.entityId);
+  const functional = new Map(entities.map((entity) => [entity.entity_id, entity.functional_currency]));
+  const accounts = await loadForeignAccounts(tenantId, entities);
+
+  const { opening, closing } = await loadBoundaryBalances(
+    tenantId,
+    accounts.map((account) => account.id),
+    openingDate,
+    periodEnd
+  );
+  const flows = await loadPeriodFlows(
+    tenantId,
+    accounts.map((account) => account.account_id),
+    periodStart,
+    periodEnd
+  );
+  const rates = await loadRates(
+    accounts.map((account) => ({ currency: account.currency, functional: functional.get(account.entity_id)! })),
+    periodStart,
+    periodEnd
+  );
+
+  const lines: FxRevaluationLine[] = [];
+  const missingRates = new Set<string>();
+  const noClosing: string[] = [];
+  const noOpening: string[] = [];
+
+  for (const account of accounts) {
+    const closingBalance = closing.get(account.id);
+    if (closingBalance === undefined) {
+      noClosing.push(account.account_name);
+      continue;
+    }
+
+    const functionalCurrency = functional.get(account.entity_id)!;
+    const pairRates = rates.get(`${account.currency}/${functionalCurrency}`);
+    if (!pairRates) {
+      missingRates.add(`${account.currency}/${functionalCurrency}`);
+      continue;
+    }
+
+    const openingBalance = opening.get(account.id);
+    if (openingBalance === undefined) noOpening.push(account.account_name);
+
+    const input: RevaluationAccountInput = {
+      account_id: account.id,
+      account_name: account.account_name,
+      entity_id: account.entity_id,
+      currency: account.currency,
+      gl_account_code: account.gl_account_code,
+      opening_balance: openingBalance ?? 0,
+      closing_balance: closingBalance,
+      ...reconcileFlows(openingBalance ?? 0, closingBalance, flows.get(account.account_id) || []),
+    };
+
+    lines.push(revalueAccount(input, pairRates, functionalCurrency));
+  }
+
+  const warnings: string[] = [];
+  if (noClosing.length > 0) {
+    warnings.push(
+      `No statement within ${STATEMENT_LOOKBACK_DAYS} days before ${periodEnd} for ${noClosing.length} account(s), ` +
+        `not revalued: ${noClosing.slice(0, 5).join(', ')}`
+    );
+  }
+  if (noOpening.length > 0) {
+    warnings.push(
+      `No statement on or before ${openingDate} for ${noOpening.length} account(s), opening balance taken as 0: ` +
+        noOpening.slice(0, 5).join(', ')
+    );
+  }
+  const uncoded = lines.filter((line) => !line.gl_account_code && line.total_gain_loss !== 0);
+  if (uncoded.length > 0) {
+    warnings.push(`${uncoded.length} revalued account(s) have no GL account code`);
+  }
+
+  return {
+    period_start: periodStart,
+    period_end: periodEnd,
+    opening_date: openingDate,
+    lines,
+    entities: summarizeRevaluationByEntity(lines, entities),
+    journal: buildRevaluationJournal(lines, {
+      journalDate: periodEnd,
+      realizedGlCode: options.realizedGlCode,
+      unrealizedGlCode: options.unrealizedGlCode,
+    }),
+    missing_rates: Array.from(missingRates).sort(),
+    warnings,
+  };
+}
@@ -0,0 +1,216 @@
+/**
+ * FX Source Service
+ * Tenant source precedence per currency pair and tenant rate uploads. Rates
+ * are resolved by get_fx_rate_for_tenant, which tries the preferred sources in
+ * order, skipping any whose latest rate is older than its fx_source_freshness
+ * limit, before falling back to the shared feed.
+ */
+
+import { supabase, createAuditLog } from '../supabase';
+import { roleAtLeast } from '../auth';
+import { errors } from '../security/error-handler';
+import { getRateSource, listRateSources } from '../fx/sources/source-registry';
+import { isValidUploadSource, parseRateUpload, type RateUploadFormat } from '../fx/sources/upload-source';
+import type { FxActor, FxSourcePreference } from '../types/fx';
+
+// Supabase has a request size limit, so rows are written in chunks
+const BATCH_SIZE = 100;
+
+// Must match the fx_rates_unique_entry constraint
+const RATE_CONFLICT_COLUMNS = 'currency_from,currency_to,date,rate_type,source,tenant_id';
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+const ANY_CURRENCY = '*';
+
+export interface SaveSourcePreferenceInput {
+  currencyFrom?: string;
+  currencyTo?: string;
+  sources: string[];
+}
+
+export interface RateUploadInput {
+  source: string;
+  format: RateUploadFormat;
+  content: string;
+}
+
+function assertRole(actor: FxActor, role: 'editor' | 'admin', action: string) {
+  if (!roleAtLeast(actor.role, role)) {
+    throw errors.forbidden(`Only ${role}s and above can ${action}`);
+  }
+}
+
+function reservedSourceIds(): string[] {
+  return listRateSources().map((source) => source.id);
+}
+
+function normalizeCurrency(value: string | undefined): string {
+  const currency = (value || ANY_CURRENCY).trim().toUpperCase();
+  if (currency !== ANY_CURRENCY && !CURRENCY_PATTERN.test(currency)) {
+    throw errors.badRequest(`Invalid currency: ${value}`, 'Currencies must be 3-letter codes or * for any currency.');
+  }
+  return currency;
+}
+
+// =====================================================
+// Source Precedence
+// =====================================================
+
+export async function listSourcePreferences(tenantId: string): Promise<FxSourcePreference[]> {
+  const { data, error } = await supabase
+    .from('fx_source_preferences')
+    .select('*')
+    .eq('tenant_id', tenantId)
+    .order('currency_from')
+    .order('currency_to');
+
+  if (error) throw error;
+  return (data || []) as FxSourcePreference[];
+}
+
+/**
+ * Set the ordered sources for a currency pair, replacing any existing list.
+ * Either side may be '*'; the most specific preference wins at lookup.
+ */
+export async function saveSourcePreference(
+  tenantId: string,
+  input: SaveSourcePreferenceInput,
+  actor: FxActor
+): Promise<FxSourcePreference> {
+  assertRole(actor, 'admin', 'change rate source precedence');
+
+  const currencyFrom = normalizeCurrency(input.currencyFrom);
+  const currencyTo = normalizeCurrency(input.currencyTo);
+  if (currencyFrom !== ANY_CURRENCY && currencyFrom === currencyTo) {
+    throw errors.badRequest('currencyFrom and currencyTo are the same', 'Choose two different currencies.');
+  }
+
+  const sources = Array.from(new Set((input.sources || []).map((source) => String(source).trim()).filter(Boolean)));
+  if (sources.length === 0) {
+    throw errors.badRequest('At least one source is required', 'Choose at least one rate source.');
+  }
+
+  const reserved = reservedSourceIds();
+  const unknown = sources.filter((source) => !getRateSource(source) && !isValidUploadSource(source, reserved));
+  if (unknown.length > 0) {
+    throw errors.badRequest(`Unknown rate sources: ${unknown.join(', ')}`, `Unknown rate source: ${unknown[0]}`);
+  }
+
+  const { data, error } = await supabase
+    .from('fx_source_preferences')
+    .upsert(
+      {
+        tenant_id: tenantId,
+        currency_from: currencyFrom,
+        currency_to: currencyTo,
+        sources,
+        created_by: actor.userId,
+      },
+      { onConflict: 'tenant_id,currency_from,currency_to' }
+    )
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'fx_source_preference_saved',
+    event_data: { currency_from: currencyFrom, currency_to: currencyTo, sources },
+    user_id: actor.userId,
+  });
+
+  return data as FxSourcePreference;
+}
+
+export async function deleteSourcePreference(tenantId: string, preferenceId: string, actor: FxActor): Promise<void> {
+  assertRole(actor, 'admin', 'change rate source precedence');
+
+  const { data, error } = await supabase
+    .from('fx_source_preferences')
+    .delete()
+    .eq('id', preferenceId)
+    .eq('tenant_id', tenantId)
+    .select('id, currency_from, currency_to')
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw errors.notFound('Source preference');
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'fx_source_preference_deleted',
+    event_data: { currency_from: data.currency_from, currency_to: data.currency_to },
+    user_id: actor.userId,
+  });
+}
+
+// =====================================================
+// Uploads
+// =====================================================
+
+/**
+ * Store an uploaded rate file under the tenant's own source label. Inverse
+ * rates are stored as `<label>_calculated`, like the shared feed. Invalid rows
+ * are skipped and reported.
+ */
+export async function importUploadedRates(
+  tenantId: string,
+  input: RateUploadInput,
+  actor: FxActor
+): Promise<{ imported: number; errors: string[] }> {
+  assertRole(actor, 'admin', 'upload rates');
+
+  const source = (input.source || '').trim();
+  if (!isValidUploadSource(source, reservedSourceIds())) {
+    throw errors.badRequest(
+      `Invalid upload source label: ${source}`,
+      'Source labels must be lower-case letters, digits and underscores, and cannot reuse a built-in source.'
+    );
+  }
+
+  const { rates, errors: rowErrors } = parseRateUpload(input.content || '', input.format);
+  if (rates.length === 0) {
+    throw errors.badRequest(
+      `No valid rates in upload: ${rowErrors.slice(0, 5).join('; ')}`,
+      rowErrors[0] || 'The file contains no rates.'
+    );
+  }
+
+  const updatedAt = new Date().toISOString();
+  const rows = rates.flatMap((rate) => [
+    {
+      ...rate,
+      source,
+      tenant_id: tenantId,
+      updated_at: updatedAt,
+    },
+    {
+      currency_from: rate.currency_to,
+      currency_to: rate.currency_from,
+      date: rate.date,
+      rate: 1 / rate.rate,
+      rate_type: rate.rate_type,
+      source: `${source}_calculated`,
+      tenant_id: tenantId,
+      updated_at: updatedAt,
+    },
+  ]);
+
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    const { error } = await supabase
+      .from('fx_rates')
+      .upsert(rows.slice(i, i + BATCH_SIZE), { onConflict: RATE_CONFLICT_COLUMNS, ignoreDuplicates: false });
+
+    if (error) throw error;
+  }
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'fx_rates_uploaded',
+    event_data: { source, format: input.format, imported: rates.length, rejected: rowErrors.length },
+    user_id: actor.userId,
+  });
+
+  return { imported: rates.length, errors: rowErrors };
+}
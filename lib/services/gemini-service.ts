@@ -1,4 +1,4 @@
-import { GoogleGenerativeAI, GenerativeModel } from "@google/generative-ai";
+import { GoogleGenerativeAI, GenerativeModel, ResponseSchema } from "@google/generative-ai";
 
 export class GeminiService {
   private static instance: GeminiService;
@@ -34,6 +34,33 @@ export class GeminiService {
     }
   }
 
+  /**
+   * structured output: the model is constrained to the schema and the reply parsed as JSON
+   */
+  public async generateJson<T>(prompt: string, responseSchema: ResponseSchema): Promise<T> {
+    let text: string;
+    try {
+      const result = await this.model.generateContent({
+        contents: [{ role: "user", parts: [{ text: prompt }] }],
+        generationConfig: {
+          responseMimeType: "application/json",
+          responseSchema,
+          temperature: 0,
+        },
+      });
+      text = result.response.text();
+    } catch (error: any) {
+      console.error("Gemini API Error:", error);
+      throw new Error(`Failed to generate content: ${error.message}`);
+    }
+
+    try {
+      return JSON.parse(text) as T;
+    } catch {
+      throw new Error("Gemini returned invalid JSON");
+    }
+  }
+
   /**
    * useful for testing connection status
    */
@@ -58,5 +85,3 @@ export class GeminiService {
   }
 }
 
-export const geminiService = GeminiService.getInstance();
-
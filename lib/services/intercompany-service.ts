@@ -0,0 +1,443 @@
+/**
+ * Intercompany Service
+ * Detects transfers between entities of the same tenant, tags both legs so
+ * consolidated cash flow can exclude them, and reports the intercompany balance
+ * matrix with suggested netting settlements per period
+ */
+
+import { supabase, createAuditLog } from '../supabase';
+import { roleAtLeast } from '../auth';
+import { errors } from '../security/error-handler';
+import {
+  AUTO_TAG_THRESHOLD,
+  DEFAULT_INTERCOMPANY_OPTIONS,
+  findIntercompanyPairs,
+  scoreIntercompanyPair,
+  type CurrencyConverter,
+} from '../intercompany/matching';
+import { buildIntercompanyMatrices, suggestNettingSettlements, type IntercompanyFlow } from '../intercompany/netting';
+import { chunk, getSignedAmount, shiftDate } from '../utils';
+import type {
+  IntercompanyActor,
+  IntercompanyLeg,
+  IntercompanyMatch,
+  IntercompanyPairSuggestion,
+  IntercompanyReport,
+} from '../types/intercompany';
+
+// Providers whose transactions are accounting entries rather than bank lines
+const LEDGER_PROVIDERS = ['xero'];
+
+const TRANSACTION_COLUMNS =
+  'transaction_id, account_id, date, amount, type, currency, description, counterparty_name, reference, provider_id, intercompany_match_id';
+
+// Rates older than this are not used to convert
+const RATE_LOOKBACK_DAYS = 7;
+
+interface Period {
+  startDate: string;
+  endDate: string;
+}
+
+function assertCanTag(actor: IntercompanyActor) {
+  if (!roleAtLeast(actor.role, 'editor')) {
+    throw errors.forbidden('Only editors and above can tag intercompany transfers');
+  }
+}
+
+// =====================================================
+// Loading
+// =====================================================
+
+/**
+ * Accounts that belong to an entity, and the tenant's entity names
+ */
+async function loadEntityAccounts(tenantId: string) {
+  const [accountsResult, entitiesResult] = await Promise.all([
+    supabase.from('accounts').select('account_id, entity_id').eq('tenant_id', tenantId).not('entity_id', 'is', null),
+    supabase.from('entities').select('entity_id, entity_name').eq('tenant_id', tenantId),
+  ]);
+
+  if (accountsResult.error) throw accountsResult.error;
+  if (entitiesResult.error) throw entitiesResult.error;
+
+  return {
+    accountEntities: new Map<string, string>(
+      (accountsResult.data || []).map((account) => [account.account_id, account.entity_id])
+    ),
+    entityNames: Object.fromEntries((entitiesResult.data || []).map((entity) => [entity.entity_id, entity.entity_name])),
+  };
+}
+
+function toLeg(row: any, entityId: string): IntercompanyLeg {
+  return {
+    transaction_id: row.transaction_id,
+    account_id: row.account_id,
+    entity_id: entityId,
+    date: String(row.date).slice(0, 10),
+    amount: getSignedAmount(row.amount, row.type),
+    currency: (row.currency || 'USD').toUpperCase(),
+    description: row.description,
+    counterparty_name: row.counterparty_name,
+    reference: row.reference,
+  };
+}
+
+/**
+ * Untagged bank-side transactions on entity accounts
+ */
+async function loadLegs(tenantId: string, accountEntities: Map<string, string>, startDate: string, endDate: string) {
+  const legs: IntercompanyLeg[] = [];
+
+  for (const accountIds of chunk(Array.from(accountEntities.keys()))) {
+    const { data, error } = await supabase
+      .from('transactions')
+      .select(TRANSACTION_COLUMNS)
+      .eq('tenant_id', tenantId)
+      .in('account_id', accountIds)
+      .is('intercompany_match_id', null)
+      .gte('date', startDate)
+      .lte('date', endDate);
+
+    if (error) throw error;
+
+    for (const row of data || []) {
+      if (LEDGER_PROVIDERS.includes(row.provider_id)) continue;
+      legs.push(toLeg(row, accountEntities.get(row.account_id)!));
+    }
+  }
+
+  return legs;
+}
+
+/**
+ * Converter backed by the USD-based daily rates in fx_rates: the latest rate on
+ * or before the date is used, falling back to the first one after it
+ */
+async function loadConverter(currencies: string[], startDate: string, endDate: string): Promise<CurrencyConverter> {
+  const wanted = Array.from(new Set(currencies.filter((currency) => currency !== 'USD')));
+  const series = new Map<string, Array<{ date: string; rate: number }>>();
+
+  if (wanted.length > 0) {
+    const { data, error } = await supabase
+      .from('fx_rates')
+      .select('currency_to, date, rate')
+      .is('tenant_id', null)
+      .eq('currency_from', 'USD')
+      .eq('rate_type', 'SPOT')
+      .in('currency_to', wanted)
+      .gte('date', shiftDate(startDate, -RATE_LOOKBACK_DAYS))
+      .lte('date', endDate)
+      .order('date', { ascending: true });
+
+    if (error) throw error;
+    for (const row of data || []) {
+      const list = series.get(row.currency_to) || [];
+      list.push({ date: row.date, rate: Number(row.rate) });
+      series.set(row.currency_to, list);
+    }
+  }
+
+  const usdRate = (currency: string, date: string): number | null => {
+    if (currency === 'USD') return 1;
+    const list = series.get(currency);
+    if (!list || list.length === 0) return null;
+
+    let rate: number | null = null;
+    for (const point of list) {
+      if (point.date > date) break;
+      rate = point.rate;
+    }
+    return rate ?? list[0].rate;
+  };
+
+  return (amount, from, to, date) => {
+    if (from === to) return amount;
+    const fromRate = usdRate(from, date);
+    const toRate = usdRate(to, date);
+    return fromRate && toRate ? (amount / fromRate) * toRate : null;
+  };
+}
+
+// =====================================================
+// Matches
+// =====================================================
+
+export async function listIntercompanyMatches(tenantId: string, period: Period): Promise<IntercompanyMatch[]> {
+  const { data, error } = await supabase
+    .from('intercompany_matches')
+    .select('*')
+    .eq('tenant_id', tenantId)
+    .eq('status', 'active')
+    .gte('outgoing_date', period.startDate)
+    .lte('outgoing_date', period.endDate)
+    .order('outgoing_date', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as IntercompanyMatch[];
+}
+
+async function persistMatch(
+  tenantId: string,
+  actor: IntercompanyActor,
+  pair: Pick<IntercompanyPairSuggestion, 'outgoing' | 'incoming' | 'reasons'> & { score?: number; difference?: number },
+  matchType: 'auto' | 'manual'
+): Promise<IntercompanyMatch> {
+  const { outgoing, incoming } = pair;
+
+  const { data: match, error } = await supabase
+    .from('intercompany_matches')
+    .insert({
+      tenant_id: tenantId,
+      match_type: matchType,
+      score: pair.score ?? null,
+      reasons: pair.reasons,
+      outgoing_transaction_id: outgoing.transaction_id,
+      incoming_transaction_id: incoming.transaction_id,
+      from_entity_id: outgoing.entity_id,
+      to_entity_id: incoming.entity_id,
+      from_account_id: outgoing.account_id,
+      to_account_id: incoming.account_id,
+      outgoing_date: outgoing.date,
+      incoming_date: incoming.date,
+      outgoing_amount: Math.abs(outgoing.amount),
+      outgoing_currency: outgoing.currency,
+      incoming_amount: Math.abs(incoming.amount),
+      incoming_currency: incoming.currency,
+      difference: pair.difference ?? null,
+      matched_by: actor.userId,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw errors.conflict('Transaction already tagged', 'One of the transactions is already an intercompany leg');
+    }
+    throw error;
+  }
+
+  const { error: tagError } = await supabase
+    .from('transactions')
+    .update({ intercompany_match_id: match.id })
+    .eq('tenant_id', tenantId)
+    .in('transaction_id', [outgoing.transaction_id, incoming.transaction_id]);
+
+  if (tagError) {
+    await supabase.from('intercompany_matches').delete().eq('id', match.id);
+    throw tagError;
+  }
+
+  return match as IntercompanyMatch;
+}
+
+/**
+ * Detect intercompany pairs whose outgoing leg falls in the period. Pairs at or
+ * above AUTO_TAG_THRESHOLD are tagged; the rest are returned for review.
+ */
+export async function detectIntercompanyTransfers(
+  tenantId: string,
+  period: Period,
+  actor: IntercompanyActor
+): Promise<{ tagged: number; suggestions: IntercompanyPairSuggestion[] }> {
+  assertCanTag(actor);
+
+  const { accountEntities, entityNames } = await loadEntityAccounts(tenantId);
+  if (new Set(accountEntities.values()).size < 2) return { tagged: 0, suggestions: [] };
+
+  const tolerance = DEFAULT_INTERCOMPANY_OPTIONS.dateToleranceDays;
+  const legs = await loadLegs(tenantId, accountEntities, shiftDate(period.startDate, -1), shiftDate(period.endDate, tolerance));
+  const convert = await loadConverter(
+    legs.map((leg) => leg.currency),
+    period.startDate,
+    shiftDate(period.endDate, tolerance)
+  );
+
+  const pairs = findIntercompanyPairs(legs, convert, entityNames).filter(
+    (pair) => pair.outgoing.date >= period.startDate && pair.outgoing.date <= period.endDate
+  );
+
+  let tagged = 0;
+  const suggestions: IntercompanyPairSuggestion[] = [];
+  for (const pair of pairs) {
+    if (pair.score < AUTO_TAG_THRESHOLD) {
+      suggestions.push(pair);
+      continue;
+    }
+
+    try {
+      await persistMatch(tenantId, actor, pair, 'auto');
+      tagged++;
+    } catch (error) {
+      // A concurrent manual tag wins; keep going with the rest
+      console.error('Intercompany auto-tag failed for pair:', error);
+    }
+  }
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'intercompany_detected',
+    event_data: { ...period, tagged, suggestions: suggestions.length },
+    user_id: actor.userId,
+  });
+
+  return { tagged, suggestions };
+}
+
+/**
+ * Tag an outgoing and an incoming transaction as one intercompany transfer.
+ * Amounts are not enforced, only that they are opposite legs of different entities.
+ */
+export async function createIntercompanyMatch(
+  tenantId: string,
+  input: { outgoingTransactionId: string; incomingTransactionId: string },
+  actor: IntercompanyActor
+): Promise<IntercompanyMatch> {
+  assertCanTag(actor);
+
+  if (!input.outgoingTransactionId || !input.incomingTransactionId) {
+    throw errors.badRequest('Both legs are required', 'Select the outgoing and the incoming transaction');
+  }
+
+  const { accountEntities, entityNames } = await loadEntityAccounts(tenantId);
+  const { data, error } = await supabase
+    .from('transactions')
+    .select(TRANSACTION_COLUMNS)
+    .eq('tenant_id', tenantId)
+    .in('transaction_id', [input.outgoingTransactionId, input.incomingTransactionId]);
+
+  if (error) throw error;
+
+  const rows = new Map((data || []).map((row) => [row.transaction_id, row]));
+  const outgoingRow = rows.get(input.outgoingTransactionId);
+  const incomingRow = rows.get(input.incomingTransactionId);
+  if (!outgoingRow || !incomingRow) throw errors.notFound('Transaction');
+
+  const outgoingEntity = accountEntities.get(outgoingRow.account_id);
+  const incomingEntity = accountEntities.get(incomingRow.account_id);
+  if (!outgoingEntity || !incomingEntity) {
+    throw errors.badRequest('Account has no entity', 'Both transactions must be on accounts assigned to an entity');
+  }
+  if (outgoingEntity === incomingEntity) {
+    throw errors.badRequest('Same entity', 'An intercompany transfer needs two different entities');
+  }
+
+  const outgoing = toLeg(outgoingRow, outgoingEntity);
+  const incoming = toLeg(incomingRow, incomingEntity);
+  if (outgoing.amount >= 0 || incoming.amount <= 0) {
+    throw errors.badRequest('Wrong direction', 'Pick an outflow on the sending entity and an inflow on the receiving one');
+  }
+
+  // Record how the engine would have scored it, for review
+  const convert = await loadConverter([outgoing.currency, incoming.currency], outgoing.date, incoming.date);
+  const scored = scoreIntercompanyPair(outgoing, incoming, convert, entityNames, {
+    ...DEFAULT_INTERCOMPANY_OPTIONS,
+    dateToleranceDays: Number.MAX_SAFE_INTEGER,
+    minScore: 0,
+  });
+
+  const match = await persistMatch(
+    tenantId,
+    actor,
+    { outgoing, incoming, reasons: scored?.reasons || ['Manual'], difference: scored?.difference },
+    'manual'
+  );
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'intercompany_tagged',
+    event_data: { matchId: match.id, outgoing: outgoing.transaction_id, incoming: incoming.transaction_id },
+    user_id: actor.userId,
+  });
+
+  return match;
+}
+
+/**
+ * Reverse a pair: both legs count towards cash flow again, the match row is kept
+ */
+export async function unmatchIntercompany(
+  tenantId: string,
+  matchId: string,
+  actor: IntercompanyActor
+): Promise<IntercompanyMatch> {
+  assertCanTag(actor);
+
+  const { data: match, error } = await supabase
+    .from('intercompany_matches')
+    .update({ status: 'reversed', reversed_by: actor.userId, reversed_at: new Date().toISOString() })
+    .eq('tenant_id', tenantId)
+    .eq('id', matchId)
+    .eq('status', 'active')
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!match) throw errors.notFound('Active intercompany match');
+
+  const { error: untagError } = await supabase
+    .from('transactions')
+    .update({ intercompany_match_id: null })
+    .eq('tenant_id', tenantId)
+    .eq('intercompany_match_id', matchId);
+
+  if (untagError) throw untagError;
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'intercompany_untagged',
+    event_data: { matchId, matchType: match.match_type },
+    user_id: actor.userId,
+  });
+
+  return match as IntercompanyMatch;
+}
+
+// =====================================================
+// Reporting
+// =====================================================
+
+/**
+ * Intercompany balance matrix per month, in one reporting currency, with the
+ * settlements that would net each month's positions
+ */
+export async function getIntercompanyReport(
+  tenantId: string,
+  period: Period & { currency?: string }
+): Promise<IntercompanyReport> {
+  const currency = (period.currency || 'USD').toUpperCase();
+  const matches = await listIntercompanyMatches(tenantId, period);
+  const convert = await loadConverter(
+    matches.map((match) => match.outgoing_currency),
+    period.startDate,
+    period.endDate
+  );
+
+  const flows: IntercompanyFlow[] = [];
+  const unconverted = new Set<string>();
+
+  for (const match of matches) {
+    const amount = convert(Number(match.outgoing_amount), match.outgoing_currency, currency, match.outgoing_date);
+    if (amount == null) {
+      unconverted.add(match.outgoing_currency);
+      continue;
+    }
+    flows.push({
+      period: match.outgoing_date.slice(0, 7),
+      from_entity_id: match.from_entity_id,
+      to_entity_id: match.to_entity_id,
+      amount,
+    });
+  }
+
+  const matrices = buildIntercompanyMatrices(flows, currency);
+
+  return {
+    start_date: period.startDate,
+    end_date: period.endDate,
+    currency,
+    matrices,
+    settlements: matrices.flatMap(suggestNettingSettlements),
+    unconverted_currencies: Array.from(unconverted).sort(),
+  };
+}
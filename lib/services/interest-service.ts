@@ -0,0 +1,333 @@
+/**
+ * Interest Service
+ * Accrues expected interest on deposit and loan accounts from their daily
+ * balances (accounts.interest_rate, day_count_convention), reconciles it with
+ * interest postings found in transactions, and reports yield and cost of
+ * funds per entity and currency
+ */
+
+import { supabase, createAuditLog } from '../supabase';
+import { roleAtLeast } from '../auth';
+import { errors } from '../security/error-handler';
+import {
+  DAY_COUNT_CONVENTIONS,
+  POSTING_GRACE_DAYS,
+  accountKind,
+  accrueInterest,
+  annualizedRate,
+  defaultDayCount,
+  findLimitBreaches,
+  reconcileInterestPostings,
+  summarizeInterest,
+} from '../interest/accrual';
+import { reconstructAccountBalances } from './balance-reconstruction-service';
+import { chunk, getSignedAmount, shiftDate } from '../utils';
+import type {
+  DayCountConvention,
+  InterestAccountResult,
+  InterestActor,
+  InterestReport,
+  UpdateInterestTermsInput,
+} from '../types/interest';
+
+// =====================================================
+// Configuration
+// =====================================================
+
+export const DEFAULT_TOLERANCE_PCT = 5;
+
+// Interest wording in English, German, French and Dutch statements
+const INTEREST_PATTERN =
+  /\binterest\b|\bint\.?\s+(paid|earned|charged|credit|debit|pd|chg)\b|\bzinsen\b|\bintérêts?\b|\brente\b/i;
+
+const PAGE_SIZE = 1000;
+
+export interface InterestReportOptions {
+  startDate?: string; // Defaults to the first day of the month three months back
+  endDate?: string; // Defaults to the last day of the previous month
+  entityId?: string;
+  tolerancePct?: number;
+}
+
+interface InterestAccount {
+  id: string;
+  account_id: string;
+  account_name: string;
+  entity_id: string | null;
+  currency: string;
+  account_type: string | null;
+  interest_rate: number | null;
+  day_count_convention: DayCountConvention | null;
+  credit_limit: number | null;
+  overdraft_limit: number | null;
+}
+
+function defaultRange() {
+  const d = new Date();
+  d.setUTCDate(0); // Last day of the previous month
+  const endDate = d.toISOString().split('T')[0];
+  d.setUTCDate(1);
+  d.setUTCMonth(d.getUTCMonth() - 2);
+  return { startDate: d.toISOString().split('T')[0], endDate };
+}
+
+function assertCanEdit(actor: InterestActor) {
+  if (!roleAtLeast(actor.role, 'editor')) {
+    throw errors.forbidden('Only editors and above can change account interest terms');
+  }
+}
+
+// =====================================================
+// Terms
+// =====================================================
+
+export function validateInterestTerms(input: UpdateInterestTermsInput): string[] {
+  const problems: string[] = [];
+
+  const rate = input.interest_rate;
+  if (rate != null && (!Number.isFinite(Number(rate)) || Math.abs(Number(rate)) >= 1)) {
+    problems.push('Interest rate must be an annual fraction, e.g. 0.045 for 4.5%');
+  }
+  if (input.day_count_convention != null && !DAY_COUNT_CONVENTIONS.includes(input.day_count_convention)) {
+    problems.push(`Day count must be one of ${DAY_COUNT_CONVENTIONS.join(', ')}`);
+  }
+  for (const [label, value] of [
+    ['Credit limit', input.credit_limit],
+    ['Overdraft limit', input.overdraft_limit],
+  ] as const) {
+    if (value != null && (!Number.isFinite(Number(value)) || Number(value) < 0)) {
+      problems.push(`${label} must be a non-negative number`);
+    }
+  }
+
+  return problems;
+}
+
+export async function updateInterestTerms(
+  tenantId: string,
+  accountId: string,
+  input: UpdateInterestTermsInput,
+  actor: InterestActor
+) {
+  assertCanEdit(actor);
+
+  const problems = validateInterestTerms(input);
+  if (problems.length > 0) {
+    throw errors.badRequest(`Invalid interest terms: ${problems.join('; ')}`, problems.join('. '));
+  }
+
+  const updates = Object.fromEntries(
+    (['interest_rate', 'day_count_convention', 'credit_limit', 'overdraft_limit'] as const)
+      .filter((field) => field in input)
+      .map((field) => [field, input[field] ?? null])
+  );
+
+  const { data, error } = await supabase
+    .from('accounts')
+    .update(updates)
+    .eq('tenant_id', tenantId)
+    .eq('id', accountId)
+    .select('id, account_name, interest_rate, day_count_convention, credit_limit, overdraft_limit')
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw errors.notFound('Account');
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'account_interest_terms_updated',
+    event_data: { accountId, ...updates },
+    user_id: actor.userId,
+  });
+
+  return data;
+}
+
+// =====================================================
+// Loading
+// =====================================================
+
+async function loadInterestAccounts(tenantId: string, entityId?: string): Promise<InterestAccount[]> {
+  let query = supabase
+    .from('accounts')
+    .select(
+      'id, account_id, account_name, entity_id, currency, account_type, interest_rate, day_count_convention, credit_limit, overdraft_limit'
+    )
+    .eq('tenant_id', tenantId);
+  if (entityId) query = query.eq('entity_id', entityId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data || []).map((account) => ({
+    ...account,
+    entity_id: account.entity_id || null,
+    currency: (account.currency || 'USD').toUpperCase(),
+    interest_rate: account.interest_rate == null ? null : Number(account.interest_rate),
+    credit_limit: account.credit_limit == null ? null : Number(account.credit_limit),
+    overdraft_limit: account.overdraft_limit == null ? null : Number(account.overdraft_limit),
+  }));
+}
+
+/**
+ * Interest postings per accounts.account_id, signed inflow-positive
+ */
+async function loadInterestPostings(tenantId: string, accountIds: string[], startDate: string, endDate: string) {
+  const postings = new Map<string, Array<{ transaction_id: string; date: string; amount: number }>>();
+
+  for (const ids of chunk(accountIds)) {
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('transaction_id, account_id, date, description, amount, type, category, provider_category')
+        .eq('tenant_id', tenantId)
+        .in('account_id', ids)
+        .gte('date', startDate)
+        .lte('date', endDate)
+        .order('date')
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      for (const tx of data || []) {
+        const isInterest =
+          INTEREST_PATTERN.test(tx.description || '') ||
+          /interest/i.test(tx.category || '') ||
+          /interest/i.test(tx.provider_category || '');
+        if (!isInterest) continue;
+
+        const list = postings.get(tx.account_id) || [];
+        list.push({ transaction_id: tx.transaction_id, date: tx.date, amount: getSignedAmount(tx.amount, tx.type) });
+        postings.set(tx.account_id, list);
+      }
+
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+  }
+
+  return postings;
+}
+
+// =====================================================
+// Report
+// =====================================================
+
+export async function getInterestReport(tenantId: string, options: InterestReportOptions = {}): Promise<InterestReport> {
+  const range = defaultRange();
+  const startDate = options.startDate || range.startDate;
+  const endDate = options.endDate || range.endDate;
+  const tolerancePct = options.tolerancePct ?? DEFAULT_TOLERANCE_PCT;
+
+  const all = await loadInterestAccounts(tenantId, options.entityId);
+  const accounts = all.filter((account) => account.interest_rate != null);
+  const warnings: string[] = [];
+
+  const unpricedLoans = all.filter(
+    (account) => account.interest_rate == null && accountKind(account.account_type) === 'loan'
+  );
+  if (unpricedLoans.length > 0) {
+    warnings.push(
+      `${unpricedLoans.length} loan account(s) have no interest rate and are left out: ` +
+        unpricedLoans.slice(0, 5).map((account) => account.account_name).join(', ')
+    );
+  }
+
+  if (accounts.length === 0) {
+    return {
+      start_date: startDate,
+      end_date: endDate,
+      tolerance_pct: tolerancePct,
+      accounts: [],
+      summary: [],
+      discrepancies: 0,
+      warnings,
+    };
+  }
+
+  const series = await reconstructAccountBalances(tenantId, {
+    startDate,
+    endDate,
+    accountIds: accounts.map((account) => account.id),
+  });
+  const seriesById = new Map(series.map((entry) => [entry.account_id, entry]));
+
+  // Postings for the last month can land in the first days of the next
+  const postings = await loadInterestPostings(
+    tenantId,
+    accounts.map((account) => account.account_id),
+    startDate,
+    shiftDate(endDate, POSTING_GRACE_DAYS)
+  );
+
+  const results: InterestAccountResult[] = [];
+  const noBalances: string[] = [];
+  let calculatedDays = 0;
+  let totalDays = 0;
+
+  for (const account of accounts) {
+    const days = seriesById.get(account.id)?.days || [];
+    if (days.length === 0) {
+      noBalances.push(account.account_name);
+      continue;
+    }
+    calculatedDays += days.filter((day) => day.source === 'calculated').length;
+    totalDays += days.length;
+
+    const kind = accountKind(account.account_type);
+    const convention = account.day_count_convention || defaultDayCount(account.currency);
+    const accruals = accrueInterest({ balances: days, rate: account.interest_rate!, convention, kind });
+    const months = reconcileInterestPostings({
+      accruals,
+      postings: postings.get(account.account_id) || [],
+      kind,
+      startDate,
+      endDate,
+      tolerancePct,
+    });
+
+    const averagePrincipal = accruals.reduce((sum, day) => sum + day.principal, 0) / accruals.length;
+    const posted = months.reduce((sum, month) => sum + month.posted, 0);
+    const limit = kind === 'loan' ? account.credit_limit : account.overdraft_limit;
+
+    results.push({
+      account_id: account.id,
+      account_name: account.account_name,
+      entity_id: account.entity_id,
+      currency: account.currency,
+      kind,
+      interest_rate: account.interest_rate!,
+      day_count_convention: convention,
+      days: accruals.length,
+      average_principal: Math.round(averagePrincipal * 100) / 100,
+      expected_interest: Math.round(accruals.reduce((sum, day) => sum + day.accrual, 0) * 100) / 100,
+      posted_interest: Math.round(posted * 100) / 100,
+      realized_rate: annualizedRate(posted, averagePrincipal, accruals.length),
+      months,
+      limit,
+      limit_breaches: findLimitBreaches(accruals, kind, limit),
+    });
+  }
+
+  if (noBalances.length > 0) {
+    warnings.push(
+      `No balances in range for ${noBalances.length} account(s), not accrued: ${noBalances.slice(0, 5).join(', ')}`
+    );
+  }
+  if (calculatedDays > 0) {
+    warnings.push(`${calculatedDays} of ${totalDays} account-days accrue on reconstructed balances`);
+  }
+
+  return {
+    start_date: startDate,
+    end_date: endDate,
+    tolerance_pct: tolerancePct,
+    accounts: results,
+    summary: summarizeInterest(results),
+    discrepancies: results.reduce(
+      (sum, account) =>
+        sum + account.months.filter((month) => month.status !== 'matched' && month.status !== 'partial').length,
+      0
+    ),
+    warnings,
+  };
+}
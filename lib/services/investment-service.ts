@@ -0,0 +1,565 @@
+/**
+ * Investment Service
+ * Keeps money market fund, deposit and security holdings from Plaid
+ * investment accounts, CSV imports and manual entry, and reports them on a
+ * maturity ladder and in liquidity buckets alongside account balances
+ */
+
+import { supabase, createAuditLog } from '../supabase';
+import { roleAtLeast } from '../auth';
+import { errors } from '../security/error-handler';
+import { accountKind } from '../interest/accrual';
+import { plaidProvider } from '../banking-providers/plaid-provider';
+import {
+  importExternalId,
+  mapPlaidHoldings,
+  parseHoldingsCsv,
+  resolveHoldingAmounts,
+  validateHolding,
+} from '../investments/holdings';
+import {
+  buildLiquidityBreakdown,
+  buildMaturityLadder,
+  daysUntil,
+  holdingValue,
+  liquidityBucket,
+} from '../investments/liquidity';
+import { getReportingContext, loadReportingRates } from './reporting-currency-service';
+import { chunk } from '../utils';
+import type { ConnectionCredentials } from '../banking-providers/base-provider';
+import type { RateType } from '../currency';
+import type {
+  HoldingImportResult,
+  HoldingInput,
+  InvestmentActor,
+  InvestmentHolding,
+  InvestmentPortfolio,
+  LiquidityBreakdown,
+  LiquidityBucket,
+  PlaidHoldingsSyncResult,
+} from '../types/investment';
+
+// =====================================================
+// Configuration
+// =====================================================
+
+// Supabase has a request size limit, so rows are written in chunks
+const BATCH_SIZE = 500;
+
+function assertCanEdit(actor: InvestmentActor) {
+  if (!roleAtLeast(actor.role, 'editor')) {
+    throw errors.forbidden('Only editors and above can change investment holdings');
+  }
+}
+
+function assertValid(input: HoldingInput) {
+  const problems = validateHolding(input);
+  if (problems.length > 0) {
+    throw errors.badRequest(`Invalid holding: ${problems.join('; ')}`, problems.join('. '));
+  }
+}
+
+function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+function normalizeHoldingInput(input: HoldingInput) {
+  return {
+    account_id: input.account_id || null,
+    entity_id: input.entity_id?.trim() || null,
+    instrument_name: (input.instrument_name || '').trim(),
+    instrument_type: input.instrument_type,
+    isin: input.isin?.trim().toUpperCase() || null,
+    ticker: input.ticker?.trim().toUpperCase() || null,
+    currency: (input.currency || '').trim().toUpperCase(),
+    ...resolveHoldingAmounts(input),
+    accrued_interest: Number(input.accrued_interest ?? 0),
+    interest_rate: input.interest_rate == null ? null : Number(input.interest_rate),
+    start_date: input.start_date || null,
+    maturity_date: input.maturity_date || null,
+    settlement_days: input.settlement_days == null ? null : Number(input.settlement_days),
+    price_date: input.price_date || null,
+    status: input.status || 'active',
+    notes: input.notes?.trim() || null,
+  };
+}
+
+/**
+ * A linked account must be the tenant's; the holding takes its entity
+ */
+async function resolveAccountEntity(tenantId: string, accountId: string | null, entityId: string | null) {
+  if (!accountId) return entityId;
+
+  const { data, error } = await supabase
+    .from('accounts')
+    .select('id, entity_id')
+    .eq('tenant_id', tenantId)
+    .eq('id', accountId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw errors.notFound('Account');
+  return data.entity_id || entityId;
+}
+
+async function upsertHoldings(rows: Record<string, unknown>[]) {
+  for (const batch of chunk(rows, BATCH_SIZE)) {
+    const { error } = await supabase
+      .from('investment_holdings')
+      .upsert(batch, { onConflict: 'tenant_id,external_id', ignoreDuplicates: false });
+
+    if (error) throw error;
+  }
+}
+
+// =====================================================
+// Holdings
+// =====================================================
+
+export async function listHoldings(
+  tenantId: string,
+  options: { entityId?: string; accountId?: string; includeClosed?: boolean } = {}
+): Promise<InvestmentHolding[]> {
+  let query = supabase.from('investment_holdings').select('*').eq('tenant_id', tenantId);
+  if (options.entityId) query = query.eq('entity_id', options.entityId);
+  if (options.accountId) query = query.eq('account_id', options.accountId);
+  if (!options.includeClosed) query = query.eq('status', 'active');
+
+  const { data, error } = await query.order('maturity_date', { nullsFirst: true }).order('instrument_name');
+  if (error) throw error;
+
+  return (data || []) as InvestmentHolding[];
+}
+
+export async function createHolding(
+  tenantId: string,
+  input: HoldingInput,
+  actor: InvestmentActor
+): Promise<InvestmentHolding> {
+  assertCanEdit(actor);
+  assertValid(input);
+
+  const holding = normalizeHoldingInput(input);
+  const entityId = await resolveAccountEntity(tenantId, holding.account_id, holding.entity_id);
+
+  const { data, error } = await supabase
+    .from('investment_holdings')
+    .insert({ ...holding, entity_id: entityId, tenant_id: tenantId, source: 'manual', created_by: actor.userId })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'investment_holding_created',
+    event_data: { holding_id: data.id, instrument_name: holding.instrument_name, market_value: holding.market_value },
+    user_id: actor.userId,
+  });
+
+  return data as InvestmentHolding;
+}
+
+/**
+ * Plaid holdings can be edited too, but the next sync overwrites what Plaid
+ * reports; only settlement days and notes are kept
+ */
+export async function updateHolding(
+  tenantId: string,
+  holdingId: string,
+  updates: Partial<HoldingInput>,
+  actor: InvestmentActor
+): Promise<InvestmentHolding> {
+  assertCanEdit(actor);
+
+  const { data: existing, error: fetchError } = await supabase
+    .from('investment_holdings')
+    .select('*')
+    .eq('tenant_id', tenantId)
+    .eq('id', holdingId)
+    .maybeSingle();
+
+  if (fetchError) throw fetchError;
+  if (!existing) throw errors.notFound('Holding');
+
+  // Units or price changes recompute the market value unless one is given
+  const amountsChanged = updates.units !== undefined || updates.price !== undefined;
+  const merged: HoldingInput = {
+    ...(existing as InvestmentHolding),
+    ...updates,
+    market_value: updates.market_value ?? (amountsChanged ? null : existing.market_value),
+  };
+  assertValid(merged);
+
+  const holding = normalizeHoldingInput(merged);
+  const entityId = await resolveAccountEntity(tenantId, holding.account_id, holding.entity_id);
+
+  const { data, error } = await supabase
+    .from('investment_holdings')
+    .update({ ...holding, entity_id: entityId })
+    .eq('tenant_id', tenantId)
+    .eq('id', holdingId)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'investment_holding_updated',
+    event_data: { holding_id: holdingId, changes: Object.keys(updates) },
+    user_id: actor.userId,
+  });
+
+  return data as InvestmentHolding;
+}
+
+export async function deleteHolding(tenantId: string, holdingId: string, actor: InvestmentActor): Promise<void> {
+  assertCanEdit(actor);
+
+  const { data, error } = await supabase
+    .from('investment_holdings')
+    .delete()
+    .eq('tenant_id', tenantId)
+    .eq('id', holdingId)
+    .select('id, instrument_name');
+
+  if (error) throw error;
+  if (!data?.length) throw errors.notFound('Holding');
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'investment_holding_deleted',
+    event_data: { holding_id: holdingId, instrument_name: data[0].instrument_name },
+    user_id: actor.userId,
+  });
+}
+
+// =====================================================
+// CSV import
+// =====================================================
+
+/**
+ * Import holdings from CSV. Rows name their account by number, id or name;
+ * rows without one go to accountId when given. Reimporting a file updates the
+ * holdings it loaded before.
+ */
+export async function importHoldings(
+  tenantId: string,
+  input: { content: string; accountId?: string | null },
+  actor: InvestmentActor
+): Promise<HoldingImportResult> {
+  assertCanEdit(actor);
+
+  const { rows, errors: rowErrors } = parseHoldingsCsv(input.content || '');
+  if (rows.length === 0) {
+    throw errors.badRequest(
+      `No valid holdings in upload: ${rowErrors.slice(0, 5).join('; ')}`,
+      rowErrors[0] || 'The file contains no holdings.'
+    );
+  }
+
+  const { data: accounts, error: accountsError } = await supabase
+    .from('accounts')
+    .select('id, account_id, account_number, account_name, entity_id')
+    .eq('tenant_id', tenantId);
+
+  if (accountsError) throw accountsError;
+
+  const byRef = new Map<string, { id: string; entity_id: string | null }>();
+  for (const account of accounts || []) {
+    for (const ref of [account.account_name, account.account_number, account.account_id, account.id]) {
+      if (ref) byRef.set(String(ref).trim().toLowerCase(), account);
+    }
+  }
+
+  const fallback = input.accountId ? (accounts || []).find((account) => account.id === input.accountId) : undefined;
+  if (input.accountId && !fallback) throw errors.notFound('Account');
+
+  const records: Record<string, unknown>[] = [];
+  for (const row of rows) {
+    const account = row.account_ref ? byRef.get(row.account_ref.toLowerCase()) : fallback;
+    if (row.account_ref && !account) {
+      rowErrors.push(`${row.instrument_name}: no account matches ${row.account_ref}`);
+      continue;
+    }
+
+    const { account_ref, ...holding } = row;
+    records.push({
+      ...normalizeHoldingInput(holding),
+      account_id: account?.id || null,
+      entity_id: account?.entity_id || holding.entity_id || null,
+      tenant_id: tenantId,
+      source: 'import',
+      external_id: importExternalId({ ...holding, account_ref: account_ref || account?.id }),
+      created_by: actor.userId,
+    });
+  }
+
+  await upsertHoldings(records);
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'investment_holdings_imported',
+    event_data: { imported: records.length, rejected: rowErrors.length },
+    user_id: actor.userId,
+  });
+
+  return { imported: records.length, errors: rowErrors };
+}
+
+// =====================================================
+// Plaid
+// =====================================================
+
+async function loadPlaidCredentials(tenantId: string, connectionId: string): Promise<ConnectionCredentials | null> {
+  const { data, error } = await supabase
+    .from('provider_tokens')
+    .select('access_token, refresh_token, expires_at, provider_metadata')
+    .eq('connection_id', connectionId)
+    .eq('provider_id', 'plaid')
+    .eq('status', 'active')
+    .order('updated_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  return {
+    connectionId,
+    tenantId,
+    tokens: {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token || undefined,
+      expiresAt: data.expires_at ? new Date(data.expires_at) : undefined,
+    },
+    metadata: data.provider_metadata || {},
+  };
+}
+
+/**
+ * Replace the holdings of one connection's investment accounts with what
+ * Plaid reports now. Holdings Plaid no longer reports are closed.
+ */
+async function syncConnectionHoldings(
+  tenantId: string,
+  connectionId: string,
+  credentials?: ConnectionCredentials
+): Promise<{ holdings: number; closed: number } | null> {
+  const { data: accounts, error: accountsError } = await supabase
+    .from('accounts')
+    .select('id, external_account_id, entity_id')
+    .eq('tenant_id', tenantId)
+    .eq('connection_id', connectionId)
+    .eq('account_type', 'investment');
+
+  if (accountsError) throw accountsError;
+  if (!accounts?.length) return null;
+
+  const resolved = credentials || (await loadPlaidCredentials(tenantId, connectionId));
+  if (!resolved) throw new Error('No active Plaid token for this connection');
+
+  const { holdings, securities } = await plaidProvider.fetchInvestmentHoldings(resolved);
+  const refs = new Map(
+    accounts.filter((account) => account.external_account_id).map((account) => [account.external_account_id, account.id])
+  );
+  const entities = new Map(accounts.map((account) => [account.id, account.entity_id || null]));
+
+  const rows = mapPlaidHoldings(holdings, securities, refs).map((row) => ({
+    ...row,
+    entity_id: entities.get(row.account_id!) ?? null,
+    tenant_id: tenantId,
+    source: 'plaid',
+    status: 'active',
+  }));
+  await upsertHoldings(rows);
+
+  const { data: previous, error: previousError } = await supabase
+    .from('investment_holdings')
+    .select('id, external_id')
+    .eq('tenant_id', tenantId)
+    .eq('source', 'plaid')
+    .eq('status', 'active')
+    .in(
+      'account_id',
+      accounts.map((account) => account.id)
+    );
+
+  if (previousError) throw previousError;
+
+  const current = new Set(rows.map((row) => row.external_id));
+  const stale = (previous || []).filter((holding) => !current.has(holding.external_id)).map((holding) => holding.id);
+  for (const ids of chunk(stale)) {
+    const { error } = await supabase.from('investment_holdings').update({ status: 'closed' }).in('id', ids);
+    if (error) throw error;
+  }
+
+  return { holdings: rows.length, closed: stale.length };
+}
+
+/**
+ * Refresh holdings from Plaid for one connection, or every Plaid connection
+ * with investment accounts. Runs after each Plaid sync with no actor.
+ */
+export async function syncPlaidHoldings(
+  tenantId: string,
+  actor: InvestmentActor | null,
+  options: { connectionId?: string; credentials?: ConnectionCredentials } = {}
+): Promise<PlaidHoldingsSyncResult> {
+  if (actor) assertCanEdit(actor);
+
+  let connectionIds: string[];
+  if (options.connectionId) {
+    connectionIds = [options.connectionId];
+  } else {
+    const { data, error } = await supabase
+      .from('connections')
+      .select('id')
+      .eq('tenant_id', tenantId)
+      .eq('provider', 'plaid');
+
+    if (error) throw error;
+    connectionIds = (data || []).map((connection) => connection.id);
+  }
+
+  const result: PlaidHoldingsSyncResult = { connections: 0, holdings: 0, closed: 0, errors: [] };
+  for (const connectionId of connectionIds) {
+    try {
+      const synced = await syncConnectionHoldings(tenantId, connectionId, options.credentials);
+      if (!synced) continue;
+      result.connections++;
+      result.holdings += synced.holdings;
+      result.closed += synced.closed;
+    } catch (error) {
+      result.errors.push(`${connectionId}: ${plaidProvider.getErrorMessage(error)}`);
+    }
+  }
+
+  if (result.connections > 0 || result.errors.length > 0) {
+    await createAuditLog({
+      tenant_id: tenantId,
+      event_type: 'investment_holdings_synced',
+      event_data: { ...result },
+      user_id: actor?.userId,
+    });
+  }
+
+  return result;
+}
+
+// =====================================================
+// Reporting
+// =====================================================
+
+/**
+ * Active holdings that had not matured by asOf, with account names
+ */
+async function loadOpenHoldings(tenantId: string, asOf: string, entityId?: string) {
+  const holdings = await listHoldings(tenantId, { entityId });
+  const open = holdings.filter((holding) => !holding.maturity_date || holding.maturity_date >= asOf);
+  const matured = holdings.length - open.length;
+
+  const accountIds = Array.from(new Set(open.map((holding) => holding.account_id).filter((id): id is string => !!id)));
+  const names = new Map<string, string>();
+  for (const ids of chunk(accountIds)) {
+    const { data, error } = await supabase.from('accounts').select('id, account_name').eq('tenant_id', tenantId).in('id', ids);
+    if (error) throw error;
+    for (const account of data || []) names.set(account.id, account.account_name);
+  }
+
+  return { holdings: open, matured, names };
+}
+
+export async function getInvestmentPortfolio(
+  tenantId: string,
+  userId: string,
+  options: { asOf?: string; entityId?: string; rateType?: RateType } = {}
+): Promise<InvestmentPortfolio> {
+  const asOf = options.asOf || today();
+  const reporting = await getReportingContext(tenantId, userId, { rateType: options.rateType, asOf });
+  const { holdings, matured, names } = await loadOpenHoldings(tenantId, asOf, options.entityId);
+
+  const rates = await loadReportingRates(
+    tenantId,
+    holdings.map((holding) => ({ from: holding.currency, to: reporting.currency })),
+    reporting.rate_type,
+    reporting.as_of
+  );
+  const params = { holdings, asOf, currency: reporting.currency, rateType: reporting.rate_type, rates };
+
+  const warnings: string[] = [];
+  if (matured > 0) {
+    warnings.push(`${matured} holding(s) matured before ${asOf} and are left out. Mark them matured once the proceeds are received.`);
+  }
+  const stalePrices = holdings.filter(
+    (holding) => holding.instrument_type !== 'term_deposit' && holding.price_date && daysUntil(holding.price_date, asOf) > 7
+  );
+  if (stalePrices.length > 0) {
+    warnings.push(`${stalePrices.length} holding(s) are priced more than a week before ${asOf}`);
+  }
+
+  return {
+    as_of: asOf,
+    reporting,
+    holdings: holdings.map((holding) => ({
+      ...holding,
+      account_name: holding.account_id ? names.get(holding.account_id) || null : null,
+      value: holdingValue(holding),
+      days_to_maturity: holding.maturity_date ? daysUntil(asOf, holding.maturity_date) : null,
+      liquidity_bucket: liquidityBucket(holding, asOf),
+    })),
+    ladder: buildMaturityLadder(params),
+    liquidity: buildLiquidityBreakdown({ ...params, cash: [] }),
+    warnings,
+  };
+}
+
+/**
+ * Account balances and holdings by liquidity bucket. Accounts with holdings
+ * are represented by them rather than their balance; investment accounts
+ * without any are treated as long-dated, and loan accounts are left out.
+ */
+export async function getLiquidityBreakdown(
+  tenantId: string,
+  options: {
+    asOf: string;
+    currency: string;
+    rateType: RateType;
+    balances: Array<{ account_id: string; amount: number; currency: string }>; // accounts.id
+  }
+): Promise<LiquidityBreakdown> {
+  const { holdings } = await loadOpenHoldings(tenantId, options.asOf);
+  const held = new Set(holdings.map((holding) => holding.account_id));
+
+  const types = new Map<string, string | null>();
+  for (const ids of chunk(options.balances.map((balance) => balance.account_id))) {
+    const { data, error } = await supabase.from('accounts').select('id, account_type').eq('tenant_id', tenantId).in('id', ids);
+    if (error) throw error;
+    for (const account of data || []) types.set(account.id, account.account_type);
+  }
+
+  const cash = options.balances
+    .filter((balance) => !held.has(balance.account_id) && accountKind(types.get(balance.account_id)) !== 'loan')
+    .map((balance) => ({
+      amount: balance.amount,
+      currency: balance.currency,
+      bucket: (types.get(balance.account_id) === 'investment' ? 'longer' : 'same_day') as LiquidityBucket,
+    }));
+
+  const rates = await loadReportingRates(
+    tenantId,
+    [...cash, ...holdings].map((item) => ({ from: item.currency, to: options.currency })),
+    options.rateType,
+    options.asOf
+  );
+
+  return buildLiquidityBreakdown({
+    cash,
+    holdings,
+    asOf: options.asOf,
+    currency: options.currency,
+    rateType: options.rateType,
+    rates,
+  });
+}
@@ -0,0 +1,296 @@
+/**
+ * Normalization Replay Service
+ * Re-runs the registered normalizers over stored raw provider data for a
+ * connection, a provider or a date range, without calling the provider, and
+ * writes the corrected transactions with the current normalizer version
+ */
+
+import { supabase } from '@/lib/supabase';
+import { errors } from '@/lib/security/error-handler';
+import { getSyncStrategy } from './sync-strategies';
+import { applyCategorizationRules } from './categorization-service';
+import { normalizerVersion, planReplay } from '@/lib/sync/replay';
+import { chunk } from '@/lib/utils';
+import type { ReplayPlan, SavedReplayTransaction } from '@/lib/sync/replay';
+import type {
+  ConnectionReplayResult,
+  NormalizationReplay,
+  NormalizationReplayScope,
+  NormalizationReplaySource,
+  ReplayCounts,
+} from '@/lib/types/normalization-replay';
+
+// =====================================================
+// Configuration
+// =====================================================
+
+const SAVED_COLUMNS =
+  'transaction_id, connection_id, account_id, date, amount, currency, description, type, counterparty_name, counterparty_account, reference, category, provider_category, category_source, normalizer_version';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface ReplayOptions {
+  dryRun?: boolean;
+  source?: NormalizationReplaySource;
+  userId?: string;
+}
+
+interface ReplayConnection {
+  id: string;
+  tenant_id: string;
+  provider: string;
+  created_by: string | null;
+}
+
+// =====================================================
+// Lookups
+// =====================================================
+
+function validateScope(scope: NormalizationReplayScope): void {
+  if (!scope.connectionId && !scope.provider) {
+    throw errors.badRequest('Replay scope needs a connection or provider', 'Choose a connection or provider to replay');
+  }
+  for (const date of [scope.startDate, scope.endDate]) {
+    if (date && !DATE_PATTERN.test(date)) {
+      throw errors.badRequest(`Invalid replay date: ${date}`, 'Dates must be in YYYY-MM-DD format');
+    }
+  }
+  if (scope.startDate && scope.endDate && scope.startDate > scope.endDate) {
+    throw errors.badRequest('Replay start date is after end date', 'The start date must be on or before the end date');
+  }
+}
+
+async function findReplayConnections(scope: NormalizationReplayScope): Promise<ReplayConnection[]> {
+  let query = supabase.from('connections').select('id, tenant_id, provider, created_by');
+  if (scope.connectionId) query = query.eq('id', scope.connectionId);
+  if (scope.provider) query = query.eq('provider', scope.provider);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const connections = (data || []) as ReplayConnection[];
+  if (scope.connectionId && connections.length === 0) {
+    throw errors.notFound('Connection');
+  }
+  return connections;
+}
+
+async function findSavedTransactions(ids: string[]): Promise<Map<string, SavedReplayTransaction>> {
+  const saved = new Map<string, SavedReplayTransaction>();
+
+  for (const idChunk of chunk(ids)) {
+    const { data, error } = await supabase.from('transactions').select(SAVED_COLUMNS).in('transaction_id', idChunk);
+    if (error) throw error;
+    for (const row of (data || []) as SavedReplayTransaction[]) saved.set(row.transaction_id, row);
+  }
+
+  return saved;
+}
+
+// =====================================================
+// Writes
+// =====================================================
+
+async function writeReplayPlan(connection: ReplayConnection, plan: ReplayPlan, version: number): Promise<string[]> {
+  const now = new Date().toISOString();
+
+  if (plan.create.length > 0) {
+    // Rows may have landed since the plan was made; the connection/transaction key keeps the insert idempotent
+    const rows = plan.create.map((tx) => ({
+      tenant_id: connection.tenant_id,
+      connection_id: connection.id,
+      provider_id: connection.provider,
+      transaction_id: tx.externalTransactionId,
+      account_id: tx.accountId,
+      date: tx.date.toISOString().split('T')[0],
+      amount: tx.amount,
+      currency: tx.currency,
+      description: tx.description,
+      type: tx.type,
+      counterparty_name: tx.counterpartyName,
+      counterparty_account: tx.counterpartyAccount,
+      reference: tx.reference,
+      category: tx.category || 'Uncategorized',
+      provider_category: tx.category || null,
+      metadata: tx.metadata || {},
+      normalizer_version: version,
+      created_by: connection.created_by,
+      updated_at: now,
+    }));
+
+    for (const rowChunk of chunk(rows)) {
+      const { error } = await supabase
+        .from('transactions')
+        .upsert(rowChunk, { onConflict: 'connection_id,transaction_id', ignoreDuplicates: true });
+      if (error) throw error;
+    }
+  }
+
+  for (const { transactionId, row } of plan.update) {
+    const { error } = await supabase
+      .from('transactions')
+      .update({ ...row, normalizer_version: version, updated_at: now })
+      .eq('connection_id', connection.id)
+      .eq('transaction_id', transactionId);
+    if (error) throw error;
+  }
+
+  for (const idChunk of chunk(plan.restamp)) {
+    const { error } = await supabase
+      .from('transactions')
+      .update({ normalizer_version: version })
+      .eq('connection_id', connection.id)
+      .in('transaction_id', idChunk);
+    if (error) throw error;
+  }
+
+  return [...plan.create.map((tx) => tx.externalTransactionId), ...plan.update.map((entry) => entry.transactionId)];
+}
+
+async function replayConnection(
+  connection: ReplayConnection,
+  scope: NormalizationReplayScope,
+  dryRun: boolean
+): Promise<ConnectionReplayResult> {
+  const version = normalizerVersion(connection.provider);
+  const strategy = getSyncStrategy(connection.provider);
+
+  // Normalizers read only the stored raw tables, so no provider tokens are needed
+  const transactions = await strategy.normalizeTransactions({
+    providerId: connection.provider,
+    connectionId: connection.id,
+    tenantId: connection.tenant_id,
+    credentials: { connectionId: connection.id, tenantId: connection.tenant_id, tokens: { accessToken: '' } },
+  });
+
+  const saved = await findSavedTransactions(transactions.map((tx) => tx.externalTransactionId));
+  const plan = planReplay(transactions, saved, {
+    connectionId: connection.id,
+    version,
+    startDate: scope.startDate,
+    endDate: scope.endDate,
+  });
+
+  if (!dryRun) {
+    const written = await writeReplayPlan(connection, plan, version);
+    if (written.length > 0) {
+      // Rules run after normalization in a sync, so they do after a replay too
+      await applyCategorizationRules(connection.tenant_id, { transactionIds: written });
+    }
+  }
+
+  return {
+    connectionId: connection.id,
+    provider: connection.provider,
+    normalizerVersion: version,
+    ...plan.counts,
+    changes: plan.changes,
+  };
+}
+
+// =====================================================
+// Replays
+// =====================================================
+
+/**
+ * Re-normalize stored raw transactions in scope. A dry run records the
+ * field-level changes without writing them. A connection that fails is
+ * recorded in the results and the rest carry on.
+ */
+export async function replayNormalization(
+  scope: NormalizationReplayScope,
+  options: ReplayOptions = {}
+): Promise<NormalizationReplay> {
+  validateScope(scope);
+  const dryRun = options.dryRun === true;
+  const connections = await findReplayConnections(scope);
+
+  const versions: Record<string, number> = {};
+  for (const connection of connections) versions[connection.provider] = normalizerVersion(connection.provider);
+
+  const { data: run, error } = await supabase
+    .from('normalization_replays')
+    .insert({
+      status: 'running',
+      scope,
+      dry_run: dryRun,
+      source: options.source || 'api',
+      normalizer_versions: versions,
+      created_by: options.userId || null,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  try {
+    const results: ConnectionReplayResult[] = [];
+
+    for (const connection of connections) {
+      try {
+        results.push(await replayConnection(connection, scope, dryRun));
+      } catch (connectionError) {
+        console.error(`[NormalizationReplay] Connection ${connection.id} failed:`, connectionError);
+        results.push({
+          connectionId: connection.id,
+          provider: connection.provider,
+          normalizerVersion: versions[connection.provider],
+          examined: 0,
+          created: 0,
+          updated: 0,
+          restamped: 0,
+          unchanged: 0,
+          skipped: 0,
+          changes: [],
+          error: connectionError instanceof Error ? connectionError.message : 'Unknown error',
+        });
+      }
+    }
+
+    const total = (key: keyof ReplayCounts) =>
+      results.reduce((sum, result) => sum + result[key], 0);
+
+    const { data: completed, error: updateError } = await supabase
+      .from('normalization_replays')
+      .update({
+        status: 'completed',
+        connections_replayed: results.filter((result) => !result.error).length,
+        transactions_examined: total('examined'),
+        transactions_created: total('created'),
+        transactions_updated: total('updated'),
+        transactions_restamped: total('restamped'),
+        transactions_unchanged: total('unchanged'),
+        transactions_skipped: total('skipped'),
+        results,
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', run.id)
+      .select()
+      .single();
+
+    if (updateError) throw updateError;
+
+    return completed as NormalizationReplay;
+  } catch (runError) {
+    await supabase
+      .from('normalization_replays')
+      .update({
+        status: 'failed',
+        error_message: runError instanceof Error ? runError.message : 'Unknown error',
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', run.id);
+    throw runError;
+  }
+}
+
+export async function listNormalizationReplays(limit = 20): Promise<NormalizationReplay[]> {
+  const { data, error } = await supabase
+    .from('normalization_replays')
+    .select('*')
+    .order('started_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data || []) as NormalizationReplay[];
+}
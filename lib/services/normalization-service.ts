@@ -9,6 +9,7 @@
 
 import { supabase } from '@/lib/supabase';
 import type { ProviderAccount, ProviderTransaction } from '@/lib/banking-providers/base-provider';
+import type { RawRow } from './raw-storage-service';
 
 /**
  * Parse Xero's date format: "/Date(1757808000000+0000)/" or ISO string
@@ -37,6 +38,23 @@ function parseXeroDate(dateValue: string | null | undefined): Date {
 
 export class NormalizationService {
 
+  /**
+   * Stored raw rows for a connection. Callers holding a fetched response in
+   * memory (dry runs) pass its rows to the normalizers instead.
+   */
+  private async fetchRawRows(table: string, connectionId: string, label: string, providerId?: string): Promise<RawRow[]> {
+    let query = supabase.from(table).select('*').eq('connection_id', connectionId);
+    if (providerId) query = query.eq('provider_id', providerId);
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error(`[Normalization] Failed to fetch raw ${label}:`, error);
+      throw new Error(`Failed to fetch raw ${label}: ${error.message}`);
+    }
+    return data || [];
+  }
+
   // ==========================================
   // PLAID NORMALIZATION
   // ==========================================
@@ -44,19 +62,10 @@ export class NormalizationService {
   /**
    * Transform raw Plaid account data into standard ProviderAccount format
    */
-  async normalizePlaidAccounts(connectionId: string, tenantId: string): Promise<ProviderAccount[]> {
+  async normalizePlaidAccounts(connectionId: string, tenantId: string, rawRows?: RawRow[]): Promise<ProviderAccount[]> {
     console.log(`[Normalization] Normalizing Plaid accounts for connection ${connectionId}`);
 
-    // Fetch raw Plaid accounts
-    const { data: rawAccounts, error } = await supabase
-      .from('plaid_accounts')
-      .select('*')
-      .eq('connection_id', connectionId);
-
-    if (error) {
-      console.error('[Normalization] Failed to fetch raw Plaid accounts:', error);
-      throw new Error(`Failed to fetch raw Plaid accounts: ${error.message}`);
-    }
+    const rawAccounts = rawRows ?? (await this.fetchRawRows('plaid_accounts', connectionId, 'Plaid accounts'));
 
     if (!rawAccounts || rawAccounts.length === 0) {
       console.log(`[Normalization] No raw Plaid accounts found for connection ${connectionId}`);
@@ -99,19 +108,10 @@ export class NormalizationService {
   /**
    * Transform raw Plaid transaction data into standard ProviderTransaction format
    */
-  async normalizePlaidTransactions(connectionId: string): Promise<ProviderTransaction[]> {
+  async normalizePlaidTransactions(connectionId: string, rawRows?: RawRow[]): Promise<ProviderTransaction[]> {
     console.log(`[Normalization] Normalizing Plaid transactions for connection ${connectionId}`);
 
-    // Fetch raw Plaid transactions
-    const { data: rawTxs, error } = await supabase
-      .from('plaid_transactions')
-      .select('*')
-      .eq('connection_id', connectionId);
-
-    if (error) {
-      console.error('[Normalization] Failed to fetch raw Plaid transactions:', error);
-      throw new Error(`Failed to fetch raw Plaid transactions: ${error.message}`);
-    }
+    const rawTxs = rawRows ?? (await this.fetchRawRows('plaid_transactions', connectionId, 'Plaid transactions'));
 
     if (!rawTxs || rawTxs.length === 0) {
       console.log(`[Normalization] No raw Plaid transactions found for connection ${connectionId}`);
@@ -185,18 +185,10 @@ export class NormalizationService {
   /**
    * Transform raw Tink account data into standard ProviderAccount format
    */
-  async normalizeTinkAccounts(connectionId: string, tenantId: string): Promise<ProviderAccount[]> {
+  async normalizeTinkAccounts(connectionId: string, tenantId: string, rawRows?: RawRow[]): Promise<ProviderAccount[]> {
     console.log(`[Normalization] Normalizing Tink accounts for connection ${connectionId}`);
 
-    const { data: rawAccounts, error } = await supabase
-      .from('tink_accounts')
-      .select('*')
-      .eq('connection_id', connectionId);
-
-    if (error) {
-      console.error('[Normalization] Failed to fetch raw Tink accounts:', error);
-      throw new Error(`Failed to fetch raw Tink accounts: ${error.message}`);
-    }
+    const rawAccounts = rawRows ?? (await this.fetchRawRows('tink_accounts', connectionId, 'Tink accounts'));
 
     if (!rawAccounts || rawAccounts.length === 0) {
       console.log(`[Normalization] No raw Tink accounts found for connection ${connectionId}`);
@@ -247,18 +239,10 @@ export class NormalizationService {
   /**
    * Transform raw Tink transaction data into standard ProviderTransaction format
    */
-  async normalizeTinkTransactions(connectionId: string): Promise<ProviderTransaction[]> {
+  async normalizeTinkTransactions(connectionId: string, rawRows?: RawRow[]): Promise<ProviderTransaction[]> {
     console.log(`[Normalization] Normalizing Tink transactions for connection ${connectionId}`);
 
-    const { data: rawTxs, error } = await supabase
-      .from('tink_transactions')
-      .select('*')
-      .eq('connection_id', connectionId);
-
-    if (error) {
-      console.error('[Normalization] Failed to fetch raw Tink transactions:', error);
-      throw new Error(`Failed to fetch raw Tink transactions: ${error.message}`);
-    }
+    const rawTxs = rawRows ?? (await this.fetchRawRows('tink_transactions', connectionId, 'Tink transactions'));
 
     if (!rawTxs || rawTxs.length === 0) {
       console.log(`[Normalization] No raw Tink transactions found for connection ${connectionId}`);
@@ -320,19 +304,15 @@ export class NormalizationService {
    * Transform raw Xero account data into standard ProviderAccount format
    * Now includes balance data from Bank Summary report
    */
-  async normalizeXeroAccounts(connectionId: string, tenantId: string): Promise<ProviderAccount[]> {
+  async normalizeXeroAccounts(
+    connectionId: string,
+    tenantId: string,
+    rawRows?: RawRow[],
+    balanceRows?: RawRow[]
+  ): Promise<ProviderAccount[]> {
     console.log(`[Normalization] Normalizing Xero accounts for connection ${connectionId}`);
 
-    // Fetch raw Xero accounts
-    const { data: rawAccounts, error } = await supabase
-      .from('xero_accounts')
-      .select('*')
-      .eq('connection_id', connectionId);
-
-    if (error) {
-      console.error('[Normalization] Failed to fetch raw Xero accounts:', error);
-      throw new Error(`Failed to fetch raw Xero accounts: ${error.message}`);
-    }
+    const rawAccounts = rawRows ?? (await this.fetchRawRows('xero_accounts', connectionId, 'Xero accounts'));
 
     if (!rawAccounts || rawAccounts.length === 0) {
       console.log(`[Normalization] No raw Xero accounts found for connection ${connectionId}`);
@@ -340,11 +320,15 @@ export class NormalizationService {
     }
 
     // Fetch stored balances from xero_balances table (if available)
-    const { data: storedBalances } = await supabase
-      .from('xero_balances')
-      .select('*')
-      .eq('connection_id', connectionId)
-      .order('balance_date', { ascending: false });
+    const storedBalances =
+      balanceRows ??
+      (
+        await supabase
+          .from('xero_balances')
+          .select('*')
+          .eq('connection_id', connectionId)
+          .order('balance_date', { ascending: false })
+      ).data;
 
     // Create balance lookup map (latest balance per account)
     const balanceMap = new Map<string, { closing_balance: number; opening_balance: number; balance_date: string }>();
@@ -413,19 +397,10 @@ export class NormalizationService {
   /**
    * Transform raw Xero transaction data into standard ProviderTransaction format
    */
-  async normalizeXeroTransactions(connectionId: string): Promise<ProviderTransaction[]> {
+  async normalizeXeroTransactions(connectionId: string, rawRows?: RawRow[]): Promise<ProviderTransaction[]> {
     console.log(`[Normalization] Normalizing Xero transactions for connection ${connectionId}`);
 
-    // Fetch raw Xero transactions
-    const { data: rawTxs, error } = await supabase
-      .from('xero_transactions')
-      .select('*')
-      .eq('connection_id', connectionId);
-
-    if (error) {
-      console.error('[Normalization] Failed to fetch raw Xero transactions:', error);
-      throw new Error(`Failed to fetch raw Xero transactions: ${error.message}`);
-    }
+    const rawTxs = rawRows ?? (await this.fetchRawRows('xero_transactions', connectionId, 'Xero transactions'));
 
     if (!rawTxs || rawTxs.length === 0) {
       console.log(`[Normalization] No raw Xero transactions found for connection ${connectionId}`);
@@ -531,19 +506,10 @@ export class NormalizationService {
    * Transform raw direct bank account data into standard ProviderAccount format
    * Works for Standard Bank, ABSA, Nedbank, and any future direct bank APIs
    */
-  async normalizeDirectBankAccounts(connectionId: string, providerId: string): Promise<ProviderAccount[]> {
+  async normalizeDirectBankAccounts(connectionId: string, providerId: string, rawRows?: RawRow[]): Promise<ProviderAccount[]> {
     console.log(`[Normalization] Normalizing ${providerId} accounts for connection ${connectionId}`);
 
-    const { data: rawAccounts, error } = await supabase
-      .from('direct_bank_accounts')
-      .select('*')
-      .eq('connection_id', connectionId)
-      .eq('provider_id', providerId);
-
-    if (error) {
-      console.error(`[Normalization] Failed to fetch raw ${providerId} accounts:`, error);
-      throw new Error(`Failed to fetch raw ${providerId} accounts: ${error.message}`);
-    }
+    const rawAccounts = rawRows ?? (await this.fetchRawRows('direct_bank_accounts', connectionId, `${providerId} accounts`, providerId));
 
     if (!rawAccounts || rawAccounts.length === 0) {
       console.log(`[Normalization] No raw ${providerId} accounts found for connection ${connectionId}`);
@@ -581,19 +547,10 @@ export class NormalizationService {
   /**
    * Transform raw direct bank transaction data into standard ProviderTransaction format
    */
-  async normalizeDirectBankTransactions(connectionId: string, providerId: string): Promise<ProviderTransaction[]> {
+  async normalizeDirectBankTransactions(connectionId: string, providerId: string, rawRows?: RawRow[]): Promise<ProviderTransaction[]> {
     console.log(`[Normalization] Normalizing ${providerId} transactions for connection ${connectionId}`);
 
-    const { data: rawTxs, error } = await supabase
-      .from('direct_bank_transactions')
-      .select('*')
-      .eq('connection_id', connectionId)
-      .eq('provider_id', providerId);
-
-    if (error) {
-      console.error(`[Normalization] Failed to fetch raw ${providerId} transactions:`, error);
-      throw new Error(`Failed to fetch raw ${providerId} transactions: ${error.message}`);
-    }
+    const rawTxs = rawRows ?? (await this.fetchRawRows('direct_bank_transactions', connectionId, `${providerId} transactions`, providerId));
 
     if (!rawTxs || rawTxs.length === 0) {
       console.log(`[Normalization] No raw ${providerId} transactions found for connection ${connectionId}`);
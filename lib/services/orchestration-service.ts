@@ -176,50 +176,6 @@ export async function getConnectionHealthStats() {
   }
 }
 
-/**
- * Trigger immediate sync for a connection
- */
-export async function triggerImmediateSync(
-  connectionId: string,
-  provider: string,
-  tenantId: string
-): Promise<SyncJobResult> {
-  try {
-    // Call the sync API endpoint
-    const response = await fetch(`/api/banking/${provider}/sync`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        connectionId,
-        tenantId,
-        syncAccounts: true,
-        syncTransactions: true,
-        forceSync: true,
-      }),
-    });
-
-    const data = await response.json();
-
-    if (!data.success) {
-      throw new Error(data.error || 'Sync failed');
-    }
-
-    return {
-      connection_id: connectionId,
-      status: 'success',
-      message: 'Sync completed successfully',
-      duration_ms: data.summary?.duration || 0,
-      records_synced: data.summary?.transactionsSynced || 0,
-    };
-  } catch (error) {
-    return {
-      connection_id: connectionId,
-      status: 'failed',
-      message: error instanceof Error ? error.message : 'Unknown error',
-    };
-  }
-}
-
 /**
  * Record API usage for a provider
  */
@@ -0,0 +1,344 @@
+/**
+ * Payment File Service
+ * Turns approved payments into bank files (ISO 20022 pain.001.001.09, NACHA),
+ * stores each file with its SHA-256 and releases the payments it contains
+ */
+
+import { createHash } from 'crypto';
+import { supabase, createAuditLog } from '../supabase';
+import { roleAtLeast } from '../auth';
+import { ApiError, errors } from '../security/error-handler';
+import { buildPain001 } from '../payment-files/pain001';
+import { buildNachaFile } from '../payment-files/nacha';
+import type { PaymentFileIssue } from '../payment-files/validation';
+import type { PaymentFileDebtorGroup, PaymentFileParty } from '../payment-files/types';
+import { releasePayment, type PaymentActor } from './payment-service';
+import type { Payment, PaymentFile, PaymentFileFormat } from '../types/payment';
+
+const MAX_PAYMENTS_PER_FILE = 1000;
+
+// Failed payments can be re-exported after the bank rejected the earlier file
+const EXPORTABLE_STATUSES = ['Approved', 'Failed'];
+
+const FILE_EXTENSIONS: Record<PaymentFileFormat, string> = {
+  'pain.001.001.09': 'xml',
+  nacha: 'ach',
+};
+
+const LIST_COLUMNS =
+  'id, tenant_id, entity_id, format, file_name, sha256, message_id, payment_count, batch_count, control_sum, currency, status, payment_ids, created_by, created_at, updated_at';
+
+// =====================================================
+// Queries
+// =====================================================
+
+export async function listPaymentFiles(tenantId: string, limit = 50): Promise<PaymentFile[]> {
+  try {
+    const { data, error } = await supabase
+      .from('payment_files')
+      .select(LIST_COLUMNS)
+      .eq('tenant_id', tenantId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []) as PaymentFile[];
+  } catch (error) {
+    console.error('Error fetching payment files:', error);
+    throw error;
+  }
+}
+
+export async function getPaymentFile(tenantId: string, fileId: string): Promise<PaymentFile> {
+  const { data, error } = await supabase
+    .from('payment_files')
+    .select('*')
+    .eq('tenant_id', tenantId)
+    .eq('id', fileId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw errors.notFound('Payment file');
+  return data as PaymentFile;
+}
+
+export function hashPaymentFile(content: string): string {
+  return createHash('sha256').update(content, 'utf8').digest('hex');
+}
+
+/**
+ * Mark a file as downloaded the first time its content leaves the system
+ */
+export async function recordPaymentFileDownload(file: PaymentFile, actor: PaymentActor): Promise<void> {
+  if (file.status === 'generated') {
+    await supabase
+      .from('payment_files')
+      .update({ status: 'downloaded' })
+      .eq('tenant_id', file.tenant_id)
+      .eq('id', file.id)
+      .eq('status', 'generated');
+  }
+
+  await createAuditLog({
+    tenant_id: file.tenant_id,
+    event_type: 'payment_file_downloaded',
+    event_data: { file_id: file.id, file_name: file.file_name, sha256: file.sha256 },
+    user_id: actor.userId,
+  });
+}
+
+// =====================================================
+// Generation
+// =====================================================
+
+function validationError(issues: PaymentFileIssue[]): ApiError {
+  const summary = issues
+    .slice(0, 3)
+    .map((issue) => (issue.paymentId ? `${issue.paymentId}: ${issue.message}` : issue.message))
+    .join('; ');
+  const more = issues.length > 3 ? ` (+${issues.length - 3} more)` : '';
+
+  return new ApiError(400, 'Payment file failed validation', `Payment file failed validation: ${summary}${more}`, {
+    issues,
+  });
+}
+
+/**
+ * Load the payments, their debit accounts and the owning entity, and shape
+ * them into debtor groups for the file builders
+ */
+async function loadExportBatch(tenantId: string, paymentIds: string[]) {
+  const { data: payments, error } = await supabase
+    .from('payments')
+    .select('*')
+    .eq('tenant_id', tenantId)
+    .in('payment_id', paymentIds);
+
+  if (error) throw error;
+
+  const found = new Map((payments || []).map((p: Payment) => [p.payment_id, p]));
+  const missing = paymentIds.filter((id) => !found.has(id));
+  if (missing.length > 0) {
+    throw errors.notFound(`Payment ${missing[0]}`);
+  }
+
+  const notReady = (payments as Payment[]).filter((p) => !EXPORTABLE_STATUSES.includes(p.status));
+  if (notReady.length > 0) {
+    throw errors.conflict(
+      'Payments not approved',
+      `Only approved payments can be exported (${notReady[0].payment_id} is ${notReady[0].status})`
+    );
+  }
+
+  const accountIds = Array.from(new Set((payments as Payment[]).map((p) => p.from_account)));
+  const { data: accounts, error: accountsError } = await supabase
+    .from('accounts')
+    .select('account_id, entity_id, iban, bic, account_number, bank_identifier, bank_name, currency')
+    .eq('tenant_id', tenantId)
+    .in('account_id', accountIds);
+
+  if (accountsError) throw accountsError;
+
+  const accountMap = new Map((accounts || []).map((a: any) => [a.account_id, a]));
+  const entityIds = Array.from(new Set((accounts || []).map((a: any) => a.entity_id)));
+
+  if (accountMap.size !== accountIds.length) {
+    throw errors.notFound('Debit account');
+  }
+  if (entityIds.length !== 1 || !entityIds[0]) {
+    throw errors.badRequest(
+      'Payments span multiple entities',
+      'All payments in a file must be debited from accounts of a single entity'
+    );
+  }
+
+  const { data: entity, error: entityError } = await supabase
+    .from('entities')
+    .select('entity_id, entity_name, tax_id, address, jurisdiction')
+    .eq('tenant_id', tenantId)
+    .eq('entity_id', entityIds[0])
+    .maybeSingle();
+
+  if (entityError) throw entityError;
+  if (!entity) throw errors.notFound('Entity');
+
+  const groups: PaymentFileDebtorGroup[] = accountIds.map((accountId) => {
+    const account = accountMap.get(accountId);
+    return {
+      account: {
+        accountId,
+        iban: account.iban,
+        accountNumber: account.account_number,
+        bic: account.bic,
+        routingNumber: account.bank_identifier?.replace(/\D/g, '') || null,
+        currency: account.currency,
+        bankName: account.bank_name,
+      },
+      payments: (payments as Payment[])
+        .filter((p) => p.from_account === accountId)
+        .map((p) => ({
+          paymentId: p.payment_id,
+          amount: Number(p.amount),
+          currency: p.currency,
+          executionDate: p.scheduled_date,
+          priority: p.priority,
+          creditorName: p.to_entity,
+          creditorIban: p.beneficiary_iban,
+          creditorBic: p.beneficiary_bic,
+          creditorAccountNumber: p.beneficiary_account_number,
+          creditorRoutingNumber: p.beneficiary_routing_number,
+          creditorAccountType: p.beneficiary_account_type,
+          remittanceInfo: p.reference || p.description,
+        })),
+    };
+  });
+
+  // Entities store a free-text jurisdiction; fall back to the debtor IBAN country
+  const firstIban = groups.find((g) => g.account.iban)?.account.iban;
+  const jurisdiction = (entity.jurisdiction || '').trim().toUpperCase();
+  const party: PaymentFileParty = {
+    name: entity.entity_name,
+    taxId: entity.tax_id,
+    address: entity.address,
+    country: /^[A-Z]{2}$/.test(jurisdiction) ? jurisdiction : firstIban ? firstIban.slice(0, 2).toUpperCase() : null,
+  };
+
+  return { payments: payments as Payment[], groups, party, entityId: entity.entity_id as string };
+}
+
+/**
+ * Put payments released against a file that was then voided back to Approved,
+ * so they can be exported again. Only rows still Scheduled on that file are
+ * touched; a payment someone has moved on since is left as it is.
+ */
+async function restoreReleasedPayments(tenantId: string, fileId: string, paymentIds: string[]): Promise<string[]> {
+  if (paymentIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('payments')
+    .update({ status: 'Approved', payment_file_id: null, released_at: null, updated_at: new Date().toISOString() })
+    .eq('tenant_id', tenantId)
+    .eq('payment_file_id', fileId)
+    .eq('status', 'Scheduled')
+    .in('payment_id', paymentIds)
+    .select('payment_id');
+
+  if (error) {
+    console.error(`[PaymentFiles] Failed to restore payments released against void file ${fileId}:`, error);
+    return [];
+  }
+  return (data || []).map((row) => row.payment_id as string);
+}
+
+export async function generatePaymentFile(
+  tenantId: string,
+  actor: PaymentActor,
+  input: { paymentIds: string[]; format: PaymentFileFormat }
+): Promise<PaymentFile> {
+  if (!roleAtLeast(actor.role, 'admin')) {
+    throw errors.forbidden('Only admins can generate payment files');
+  }
+  if (!FILE_EXTENSIONS[input.format]) {
+    throw errors.badRequest('Invalid payment file format', 'Format must be pain.001.001.09 or nacha');
+  }
+
+  const paymentIds = Array.from(new Set(input.paymentIds || []));
+  if (paymentIds.length === 0) {
+    throw errors.badRequest('No payments selected', 'Select at least one approved payment to export');
+  }
+  if (paymentIds.length > MAX_PAYMENTS_PER_FILE) {
+    throw errors.badRequest('Too many payments', `A payment file can contain at most ${MAX_PAYMENTS_PER_FILE} payments`);
+  }
+
+  const { payments, groups, party, entityId } = await loadExportBatch(tenantId, paymentIds);
+
+  const createdAt = new Date();
+  const messageId = `STRATIFI-${createdAt.getTime().toString(36).toUpperCase()}`;
+  const generated =
+    input.format === 'nacha'
+      ? buildNachaFile({ createdAt, originator: party, groups })
+      : buildPain001({ messageId, createdAt, initiatingParty: party, groups });
+
+  if (generated.issues.length > 0) {
+    throw validationError(generated.issues);
+  }
+
+  const sha256 = hashPaymentFile(generated.content);
+  const currencies = Array.from(new Set(payments.map((p) => p.currency)));
+  const fileName = `${entityId}_${generated.messageId}.${FILE_EXTENSIONS[input.format]}`;
+
+  const { data: file, error } = await supabase
+    .from('payment_files')
+    .insert({
+      tenant_id: tenantId,
+      entity_id: entityId,
+      format: input.format,
+      file_name: fileName,
+      content: generated.content,
+      sha256,
+      message_id: generated.messageId,
+      payment_count: generated.transactionCount,
+      batch_count: generated.batchCount,
+      control_sum: generated.controlSum,
+      currency: currencies.length === 1 ? currencies[0] : null,
+      payment_ids: paymentIds,
+      created_by: actor.userId,
+    })
+    .select(LIST_COLUMNS)
+    .single();
+
+  if (error) throw error;
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'payment_file_generated',
+    event_data: {
+      file_id: file.id,
+      format: input.format,
+      sha256,
+      message_id: generated.messageId,
+      payment_count: generated.transactionCount,
+      control_sum: generated.controlSum,
+      payment_ids: paymentIds,
+    },
+    user_id: actor.userId,
+  });
+
+  // Release each payment against the file. If another user changed one of
+  // them in the meantime, the file no longer matches and must not be sent.
+  const released: string[] = [];
+  const releaseErrors: string[] = [];
+  for (const paymentId of paymentIds) {
+    try {
+      await releasePayment(tenantId, paymentId, actor, { payment_file_id: file.id });
+      released.push(paymentId);
+    } catch (releaseError) {
+      console.error(`[PaymentFiles] Failed to release ${paymentId}:`, releaseError);
+      releaseErrors.push(paymentId);
+    }
+  }
+
+  if (releaseErrors.length > 0) {
+    await supabase.from('payment_files').update({ status: 'void' }).eq('tenant_id', tenantId).eq('id', file.id);
+    const restored = await restoreReleasedPayments(tenantId, file.id, released);
+
+    await createAuditLog({
+      tenant_id: tenantId,
+      event_type: 'payment_file_voided',
+      event_data: {
+        file_id: file.id,
+        reason: 'release_failed',
+        payment_ids: releaseErrors,
+        restored_payment_ids: restored,
+      },
+      user_id: actor.userId,
+    });
+
+    throw errors.conflict(
+      'Payment file release incomplete',
+      `The file was voided because ${releaseErrors.length} payment(s) changed during export (${releaseErrors[0]}). Refresh and try again.`
+    );
+  }
+
+  return file as PaymentFile;
+}
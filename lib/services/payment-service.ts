@@ -0,0 +1,525 @@
+/**
+ * Payment Service
+ * Tenant-scoped payments with a state machine and configurable approval chains
+ * (amount thresholds, role-based approvers, dual control)
+ */
+
+import { supabase, createAuditLog } from '../supabase';
+import { roleAtLeast } from '../auth';
+import { ApiError, errors } from '../security/error-handler';
+import {
+  canTransition,
+  DEFAULT_APPROVAL_CHAIN,
+  evaluateApprover,
+  getApprovalProgress,
+  selectApprovalPolicy,
+  type PaymentActor,
+} from '../payment-workflow';
+import type {
+  ApprovalPolicy,
+  ApprovalStep,
+  CreatePaymentInput,
+  Payment,
+  PaymentStatus,
+  TenantRole,
+} from '../types/payment';
+
+export type { PaymentActor } from '../payment-workflow';
+
+// =====================================================
+// Queries
+// =====================================================
+
+export async function listPayments(
+  tenantId: string,
+  filters: { status?: PaymentStatus | PaymentStatus[] } = {}
+): Promise<Payment[]> {
+  try {
+    let query = supabase
+      .from('payments')
+      .select('*, approvals:payment_approvals(*)')
+      .eq('tenant_id', tenantId)
+      .order('scheduled_date', { ascending: true });
+
+    if (Array.isArray(filters.status)) {
+      query = query.in('status', filters.status);
+    } else if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return (data || []) as Payment[];
+  } catch (error) {
+    console.error('Error fetching payments:', error);
+    throw error;
+  }
+}
+
+export async function getPayment(tenantId: string, paymentId: string): Promise<Payment> {
+  const { data, error } = await supabase
+    .from('payments')
+    .select('*, approvals:payment_approvals(*)')
+    .eq('tenant_id', tenantId)
+    .eq('payment_id', paymentId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw errors.notFound('Payment');
+  return data as Payment;
+}
+
+export async function listApprovalPolicies(tenantId: string): Promise<ApprovalPolicy[]> {
+  try {
+    const { data, error } = await supabase
+      .from('payment_approval_policies')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .order('min_amount');
+
+    if (error) throw error;
+    return (data || []) as ApprovalPolicy[];
+  } catch (error) {
+    console.error('Error fetching approval policies:', error);
+    throw error;
+  }
+}
+
+// =====================================================
+// Policy Management
+// =====================================================
+
+function validateSteps(steps: ApprovalStep[]) {
+  if (!Array.isArray(steps) || steps.length === 0) {
+    throw errors.badRequest('Approval policy needs at least one step', 'Approval policy needs at least one step');
+  }
+  const validRoles: TenantRole[] = ['owner', 'admin', 'editor', 'viewer'];
+  for (const step of steps) {
+    if (!step.name || !Array.isArray(step.roles) || step.roles.length === 0) {
+      throw errors.badRequest('Each step needs a name and approver roles', 'Each step needs a name and approver roles');
+    }
+    if (step.roles.some((role) => !validRoles.includes(role))) {
+      throw errors.badRequest(`Invalid approver role in step "${step.name}"`, `Invalid approver role in step "${step.name}"`);
+    }
+    if (!Number.isInteger(step.approvals) || step.approvals < 1) {
+      throw errors.badRequest(`Step "${step.name}" must require at least one approval`, `Step "${step.name}" must require at least one approval`);
+    }
+  }
+}
+
+export async function saveApprovalPolicy(
+  tenantId: string,
+  actor: PaymentActor,
+  policy: Partial<ApprovalPolicy> & Pick<ApprovalPolicy, 'name' | 'steps'>
+): Promise<ApprovalPolicy> {
+  validateSteps(policy.steps);
+
+  const row = {
+    tenant_id: tenantId,
+    name: policy.name,
+    currency: policy.currency ? policy.currency.toUpperCase() : null,
+    min_amount: policy.min_amount ?? 0,
+    max_amount: policy.max_amount ?? null,
+    steps: policy.steps,
+    is_active: policy.is_active ?? true,
+  };
+
+  const query = policy.id
+    ? supabase
+        .from('payment_approval_policies')
+        .update(row)
+        .eq('tenant_id', tenantId)
+        .eq('id', policy.id)
+    : supabase.from('payment_approval_policies').insert({ ...row, created_by: actor.userId });
+
+  const { data, error } = await query.select().single();
+  if (error) throw error;
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: policy.id ? 'payment_policy_updated' : 'payment_policy_created',
+    event_data: { policy_id: data.id, name: data.name, steps: data.steps },
+    user_id: actor.userId,
+  });
+
+  return data as ApprovalPolicy;
+}
+
+export async function deleteApprovalPolicy(tenantId: string, actor: PaymentActor, policyId: string) {
+  const { error } = await supabase
+    .from('payment_approval_policies')
+    .delete()
+    .eq('tenant_id', tenantId)
+    .eq('id', policyId);
+
+  if (error) throw error;
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'payment_policy_deleted',
+    event_data: { policy_id: policyId },
+    user_id: actor.userId,
+  });
+}
+
+async function resolveApprovalChain(
+  tenantId: string,
+  amount: number,
+  currency: string
+): Promise<{ policyId: string | null; chain: ApprovalStep[] }> {
+  const policies = await listApprovalPolicies(tenantId);
+  const policy = selectApprovalPolicy(policies, amount, currency);
+  return policy
+    ? { policyId: policy.id, chain: policy.steps }
+    : { policyId: null, chain: DEFAULT_APPROVAL_CHAIN };
+}
+
+// =====================================================
+// Workflow
+// =====================================================
+
+function generatePaymentId(): string {
+  const random = Math.random().toString(36).slice(2, 6).toUpperCase();
+  return `PAY-${Date.now().toString(36).toUpperCase()}-${random}`;
+}
+
+/**
+ * Move a payment to a new status. The update is conditional on the status we
+ * read, so two approvers acting at once cannot both win.
+ */
+async function transitionPayment(
+  payment: Payment,
+  to: PaymentStatus,
+  actor: PaymentActor,
+  updates: Record<string, any> = {},
+  eventData: Record<string, any> = {}
+): Promise<Payment> {
+  if (!canTransition(payment.status, to)) {
+    throw errors.conflict(
+      `Invalid payment transition ${payment.status} -> ${to}`,
+      `A payment in status "${payment.status}" cannot be moved to "${to}"`
+    );
+  }
+
+  const { data, error } = await supabase
+    .from('payments')
+    .update({ ...updates, status: to, updated_at: new Date().toISOString() })
+    .eq('tenant_id', payment.tenant_id)
+    .eq('payment_id', payment.payment_id)
+    .eq('status', payment.status)
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    throw errors.conflict(
+      `Payment ${payment.payment_id} changed while processing`,
+      'This payment was updated by someone else. Refresh and try again.'
+    );
+  }
+
+  await createAuditLog({
+    tenant_id: payment.tenant_id,
+    event_type: `payment_${to.toLowerCase().replace(/\s+/g, '_')}`,
+    event_data: {
+      payment_id: payment.payment_id,
+      from_status: payment.status,
+      to_status: to,
+      amount: payment.amount,
+      currency: payment.currency,
+      ...eventData,
+    },
+    user_id: actor.userId,
+  });
+
+  return data as Payment;
+}
+
+export async function createPayment(actor: PaymentActor, input: CreatePaymentInput): Promise<Payment> {
+  if (!roleAtLeast(actor.role, 'editor')) {
+    throw errors.forbidden('Only editors can create payments');
+  }
+  if (!input.from_account || !input.to_entity || !input.scheduled_date || !input.description || !input.payment_type) {
+    throw errors.badRequest(
+      'Missing required payment fields',
+      'Missing required fields: from_account, to_entity, scheduled_date, description, payment_type'
+    );
+  }
+  if (!(Number(input.amount) > 0)) {
+    throw errors.badRequest('Payment amount must be positive', 'Payment amount must be greater than zero');
+  }
+
+  const { data: account, error: accountError } = await supabase
+    .from('accounts')
+    .select('account_id, currency')
+    .eq('tenant_id', input.tenant_id)
+    .eq('account_id', input.from_account)
+    .maybeSingle();
+
+  if (accountError) throw accountError;
+  if (!account) throw errors.notFound('Debit account');
+
+  const { data, error } = await supabase
+    .from('payments')
+    .insert({
+      payment_id: generatePaymentId(),
+      tenant_id: input.tenant_id,
+      from_account: input.from_account,
+      to_entity: input.to_entity,
+      amount: Number(input.amount),
+      currency: (input.currency || account.currency || 'USD').toUpperCase(),
+      scheduled_date: input.scheduled_date,
+      status: 'Draft',
+      description: input.description,
+      payment_type: input.payment_type,
+      priority: input.priority || 'Medium',
+      beneficiary_iban: input.beneficiary_iban?.replace(/\s+/g, '').toUpperCase() || null,
+      beneficiary_bic: input.beneficiary_bic?.toUpperCase() || null,
+      beneficiary_account_number: input.beneficiary_account_number || null,
+      beneficiary_bank_name: input.beneficiary_bank_name || null,
+      beneficiary_routing_number: input.beneficiary_routing_number?.replace(/\D/g, '') || null,
+      beneficiary_account_type: input.beneficiary_account_type || null,
+      reference: input.reference || null,
+      metadata: input.metadata || {},
+      created_by: actor.userId,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  await createAuditLog({
+    tenant_id: input.tenant_id,
+    event_type: 'payment_created',
+    event_data: {
+      payment_id: data.payment_id,
+      amount: data.amount,
+      currency: data.currency,
+      to_entity: data.to_entity,
+    },
+    user_id: actor.userId,
+  });
+
+  return input.submit ? submitPayment(input.tenant_id, data.payment_id, actor) : (data as Payment);
+}
+
+export async function submitPayment(tenantId: string, paymentId: string, actor: PaymentActor): Promise<Payment> {
+  const payment = await getPayment(tenantId, paymentId);
+
+  if (!roleAtLeast(actor.role, 'editor')) {
+    throw errors.forbidden('Only editors can submit payments');
+  }
+
+  const { policyId, chain } = await resolveApprovalChain(tenantId, Number(payment.amount), payment.currency);
+
+  return transitionPayment(
+    payment,
+    'Pending Approval',
+    actor,
+    {
+      approval_policy_id: policyId,
+      approval_chain: chain,
+      submitted_at: new Date().toISOString(),
+    },
+    { approval_policy_id: policyId, steps: chain.length }
+  );
+}
+
+export async function approvePayment(
+  tenantId: string,
+  paymentId: string,
+  actor: PaymentActor,
+  comment?: string
+): Promise<Payment> {
+  const payment = await getPayment(tenantId, paymentId);
+
+  if (payment.status !== 'Pending Approval') {
+    throw errors.conflict(
+      `Payment ${paymentId} is not pending approval`,
+      `Only payments pending approval can be approved (current status: ${payment.status})`
+    );
+  }
+
+  const chain = payment.approval_chain?.length ? payment.approval_chain : DEFAULT_APPROVAL_CHAIN;
+  const approvals = payment.approvals || [];
+
+  // A previous final approval may have lost the status race - finish it now
+  if (getApprovalProgress(chain, approvals).complete) {
+    await transitionPayment(payment, 'Approved', actor, { approved_at: new Date().toISOString() });
+    return getPayment(tenantId, paymentId);
+  }
+
+  const evaluation = evaluateApprover({ chain, approvals, createdBy: payment.created_by, actor });
+
+  if (!evaluation.allowed) {
+    throw new ApiError(403, evaluation.reason!, evaluation.reason);
+  }
+
+  const { data: approval, error } = await supabase
+    .from('payment_approvals')
+    .insert({
+      tenant_id: tenantId,
+      payment_id: paymentId,
+      user_id: actor.userId,
+      user_email: actor.email || null,
+      role: actor.role,
+      step_index: evaluation.stepIndex,
+      decision: 'approved',
+      comment: comment || null,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'payment_approval_recorded',
+    event_data: {
+      payment_id: paymentId,
+      step_index: evaluation.stepIndex,
+      step_name: chain[evaluation.stepIndex!].name,
+      comment: comment || null,
+    },
+    user_id: actor.userId,
+  });
+
+  const progress = getApprovalProgress(chain, [...approvals, approval]);
+  if (!progress.complete) {
+    return getPayment(tenantId, paymentId);
+  }
+
+  await transitionPayment(
+    payment,
+    'Approved',
+    actor,
+    { approved_at: new Date().toISOString(), approver: actor.email || actor.userId },
+    { approvals: progress.stepApprovals }
+  );
+
+  return getPayment(tenantId, paymentId);
+}
+
+export async function rejectPayment(
+  tenantId: string,
+  paymentId: string,
+  actor: PaymentActor,
+  reason?: string
+): Promise<Payment> {
+  const payment = await getPayment(tenantId, paymentId);
+
+  if (payment.status !== 'Pending Approval') {
+    throw errors.conflict(
+      `Payment ${paymentId} is not pending approval`,
+      `Only payments pending approval can be rejected (current status: ${payment.status})`
+    );
+  }
+  if (!reason) {
+    throw errors.badRequest('Rejection reason is required', 'Please provide a reason for rejecting this payment');
+  }
+
+  const chain = payment.approval_chain?.length ? payment.approval_chain : DEFAULT_APPROVAL_CHAIN;
+  const evaluation = evaluateApprover({
+    chain,
+    approvals: payment.approvals || [],
+    createdBy: payment.created_by,
+    actor,
+  });
+
+  if (!evaluation.allowed) {
+    throw new ApiError(403, evaluation.reason!, evaluation.reason);
+  }
+
+  const { error } = await supabase.from('payment_approvals').insert({
+    tenant_id: tenantId,
+    payment_id: paymentId,
+    user_id: actor.userId,
+    user_email: actor.email || null,
+    role: actor.role,
+    step_index: evaluation.stepIndex,
+    decision: 'rejected',
+    comment: reason,
+  });
+
+  if (error) throw error;
+
+  await transitionPayment(
+    payment,
+    'Rejected',
+    actor,
+    { rejected_at: new Date().toISOString(), rejection_reason: reason },
+    { reason, step_index: evaluation.stepIndex }
+  );
+
+  return getPayment(tenantId, paymentId);
+}
+
+export async function cancelPayment(
+  tenantId: string,
+  paymentId: string,
+  actor: PaymentActor,
+  reason?: string
+): Promise<Payment> {
+  const payment = await getPayment(tenantId, paymentId);
+
+  // Creators may withdraw their own payments; otherwise admin rights are needed
+  if (payment.created_by !== actor.userId && !roleAtLeast(actor.role, 'admin')) {
+    throw errors.forbidden('Only the creator or an admin can cancel this payment');
+  }
+
+  return transitionPayment(
+    payment,
+    'Cancelled',
+    actor,
+    { cancelled_at: new Date().toISOString() },
+    { reason: reason || null }
+  );
+}
+
+/**
+ * Release an approved payment for execution (or retry a failed one).
+ * Payment file exports pass the file linkage through `updates`.
+ */
+export async function releasePayment(
+  tenantId: string,
+  paymentId: string,
+  actor: PaymentActor,
+  updates: Record<string, any> = {}
+): Promise<Payment> {
+  if (!roleAtLeast(actor.role, 'admin')) {
+    throw errors.forbidden('Only admins can release payments');
+  }
+
+  const payment = await getPayment(tenantId, paymentId);
+  return transitionPayment(
+    payment,
+    'Scheduled',
+    actor,
+    { released_at: new Date().toISOString(), ...updates },
+    updates
+  );
+}
+
+/**
+ * Record the execution outcome reported by the bank
+ */
+export async function recordPaymentOutcome(
+  tenantId: string,
+  paymentId: string,
+  actor: PaymentActor,
+  outcome: 'Completed' | 'Failed',
+  reason?: string
+): Promise<Payment> {
+  if (!roleAtLeast(actor.role, 'admin')) {
+    throw errors.forbidden('Only admins can record payment outcomes');
+  }
+
+  const payment = await getPayment(tenantId, paymentId);
+  const updates =
+    outcome === 'Completed'
+      ? { completed_at: new Date().toISOString(), failure_reason: null }
+      : { failure_reason: reason || 'Rejected by bank' };
+
+  return transitionPayment(payment, outcome, actor, updates, { reason: reason || null });
+}
@@ -43,6 +43,9 @@ function parseXeroDate(dateValue: string | null | undefined): string | null {
   return null;
 }
 
+// A raw provider table row, as normalization reads it
+export type RawRow = Record<string, any>;
+
 export class RawStorageService {
   // ==========================================
   // PLAID RAW STORAGE
@@ -52,21 +55,10 @@ export class RawStorageService {
    * Store complete Plaid accounts response in JSONB format
    */
   async storePlaidAccounts(response: RawAccountsResponse): Promise<void> {
-    const { connectionId, tenantId, rawData } = response;
-    const plaidResponse = rawData as any;
-    const plaidAccounts = plaidResponse.accounts || [];
-    const item = plaidResponse.item;
-
-    console.log(`[RawStorage] Storing ${plaidAccounts.length} Plaid accounts for connection ${connectionId}`);
+    const { connectionId } = response;
+    const accountRecords = this.rawAccountRows('plaid', response);
 
-    const accountRecords = plaidAccounts.map((account: any) => ({
-      tenant_id: tenantId,
-      connection_id: connectionId,
-      account_id: account.account_id,
-      raw_account_data: account,
-      raw_item_data: item,
-      last_updated_at: new Date().toISOString(),
-    }));
+    console.log(`[RawStorage] Storing ${accountRecords.length} Plaid accounts for connection ${connectionId}`);
 
     if (accountRecords.length === 0) {
       console.warn(`[RawStorage] No accounts found in Plaid response for connection ${connectionId}`);
@@ -90,31 +82,17 @@ export class RawStorageService {
    * Store complete Plaid transactions response in JSONB format
    */
   async storePlaidTransactions(response: RawTransactionsResponse): Promise<void> {
-    const { connectionId, tenantId, rawData } = response;
-    const plaidResponse = rawData as any;
-    const plaidTransactions = plaidResponse.added || plaidResponse.transactions || [];
-    const modified = plaidResponse.modified || [];
-    const removed = plaidResponse.removed || [];
+    const { connectionId } = response;
+    // Added and modified transactions
+    const txRecords = this.rawTransactionRows('plaid', response);
 
-    console.log(`[RawStorage] Storing ${plaidTransactions.length} Plaid transactions for connection ${connectionId}`);
+    console.log(`[RawStorage] Storing ${txRecords.length} Plaid transactions for connection ${connectionId}`);
 
-    // Store added/modified transactions
-    const allTransactions = [...plaidTransactions, ...modified];
-    
-    if (allTransactions.length === 0) {
+    if (txRecords.length === 0) {
       console.log(`[RawStorage] No transactions to store for connection ${connectionId}`);
       return;
     }
 
-    const txRecords = allTransactions.map((tx: any) => ({
-      tenant_id: tenantId,
-      connection_id: connectionId,
-      transaction_id: tx.transaction_id,
-      account_id: tx.account_id,
-      raw_transaction_data: tx,
-      last_updated_at: new Date().toISOString(),
-    }));
-
     // Process in batches of 100 to avoid request size limits
     const batchSize = 100;
     for (let i = 0; i < txRecords.length; i += batchSize) {
@@ -130,7 +108,7 @@ export class RawStorageService {
       }
     }
     
-    console.log(`[RawStorage] Successfully stored ${allTransactions.length} Plaid transactions with full raw data`);
+    console.log(`[RawStorage] Successfully stored ${txRecords.length} Plaid transactions with full raw data`);
   }
 
   // ==========================================
@@ -141,19 +119,10 @@ export class RawStorageService {
    * Store complete Tink accounts response in JSONB format
    */
   async storeTinkAccounts(response: RawAccountsResponse): Promise<void> {
-    const { connectionId, tenantId, rawData } = response;
-    const tinkResponse = rawData as any;
-    const tinkAccounts = tinkResponse.accounts || [];
-
-    console.log(`[RawStorage] Storing ${tinkAccounts.length} Tink accounts for connection ${connectionId}`);
+    const { connectionId } = response;
+    const accountRecords = this.rawAccountRows('tink', response);
 
-    const accountRecords = tinkAccounts.map((account: any) => ({
-      tenant_id: tenantId,
-      connection_id: connectionId,
-      account_id: account.id,
-      raw_account_data: account,
-      last_updated_at: new Date().toISOString(),
-    }));
+    console.log(`[RawStorage] Storing ${accountRecords.length} Tink accounts for connection ${connectionId}`);
 
     if (accountRecords.length === 0) {
       console.warn(`[RawStorage] No accounts found in Tink response for connection ${connectionId}`);
@@ -176,30 +145,16 @@ export class RawStorageService {
    * Store complete Tink transactions response in JSONB format
    */
   async storeTinkTransactions(response: RawTransactionsResponse): Promise<void> {
-    const { connectionId, tenantId, rawData } = response;
-    const tinkResponse = rawData as any;
-    const tinkTransactions = tinkResponse.results || tinkResponse.transactions || [];
+    const { connectionId } = response;
+    const txRecords = this.rawTransactionRows('tink', response);
 
-    console.log(`[RawStorage] Storing ${tinkTransactions.length} Tink transactions for connection ${connectionId}`);
+    console.log(`[RawStorage] Storing ${txRecords.length} Tink transactions for connection ${connectionId}`);
 
-    if (tinkTransactions.length === 0) {
+    if (txRecords.length === 0) {
       console.log(`[RawStorage] No transactions to store for connection ${connectionId}`);
       return;
     }
 
-    const txRecords = tinkTransactions.map((txWrapper: any) => {
-      // Handle both formats (Tink sometimes wraps transaction in 'transaction' property)
-      const tx = txWrapper.transaction || txWrapper;
-      return {
-        tenant_id: tenantId,
-        connection_id: connectionId,
-        transaction_id: tx.id,
-        account_id: tx.accountId,
-        raw_transaction_data: tx,
-        last_updated_at: new Date().toISOString(),
-      };
-    });
-
     const { error } = await supabase
       .from('tink_transactions')
       .upsert(txRecords, { onConflict: 'connection_id,transaction_id' });
@@ -491,6 +446,129 @@ export class RawStorageService {
     console.log(`[RawStorage] Direct bank transaction storage not fully implemented for ${providerId}`);
   }
 
+  // ==========================================
+  // RAW ROWS
+  // ==========================================
+
+  /**
+   * The raw account rows a response is stored as. Dry runs normalize these
+   * directly instead of storing them.
+   */
+  rawAccountRows(providerId: string, response: RawAccountsResponse): RawRow[] {
+    const { connectionId, tenantId, rawData, requestParams } = response;
+    const data = rawData as any;
+    const now = new Date().toISOString();
+
+    switch (providerId) {
+      case 'plaid':
+        return (data.accounts || []).map((account: any) => ({
+          tenant_id: tenantId,
+          connection_id: connectionId,
+          account_id: account.account_id,
+          raw_account_data: account,
+          raw_item_data: data.item,
+          last_updated_at: now,
+        }));
+      case 'tink':
+        return (data.accounts || []).map((account: any) => ({
+          tenant_id: tenantId,
+          connection_id: connectionId,
+          account_id: account.id,
+          raw_account_data: account,
+          last_updated_at: now,
+        }));
+      case 'xero':
+        return (data.Accounts || []).map((account: any) => ({
+          tenant_id: tenantId,
+          connection_id: connectionId,
+          account_id: account.AccountID,
+          xero_tenant_id: requestParams?.xeroTenantId,
+          raw_account_data: account,
+          last_updated_at: now,
+        }));
+      default:
+        return (Array.isArray(data) ? data : data?.accounts || []).map((account: any) => ({
+          tenant_id: tenantId,
+          connection_id: connectionId,
+          provider_id: providerId,
+          external_account_id: account.accountId || account.id || account.accountNumber,
+          raw_account_data: account,
+        }));
+    }
+  }
+
+  /**
+   * The raw transaction rows a response is stored as
+   */
+  rawTransactionRows(providerId: string, response: RawTransactionsResponse): RawRow[] {
+    const { connectionId, tenantId, rawData, requestParams } = response;
+    const data = rawData as any;
+    const now = new Date().toISOString();
+
+    switch (providerId) {
+      case 'plaid':
+        return [...(data.added || data.transactions || []), ...(data.modified || [])].map((tx: any) => ({
+          tenant_id: tenantId,
+          connection_id: connectionId,
+          transaction_id: tx.transaction_id,
+          account_id: tx.account_id,
+          raw_transaction_data: tx,
+          last_updated_at: now,
+        }));
+      case 'tink':
+        return (data.results || data.transactions || []).map((txWrapper: any) => {
+          // Handle both formats (Tink sometimes wraps transaction in 'transaction' property)
+          const tx = txWrapper.transaction || txWrapper;
+          return {
+            tenant_id: tenantId,
+            connection_id: connectionId,
+            transaction_id: tx.id,
+            account_id: tx.accountId,
+            raw_transaction_data: tx,
+            last_updated_at: now,
+          };
+        });
+      case 'xero':
+        return (data.BankTransactions || [])
+          .filter((tx: any) => tx.BankAccount?.AccountID)
+          .map((tx: any) => ({
+            tenant_id: tenantId,
+            connection_id: connectionId,
+            transaction_id: tx.BankTransactionID,
+            xero_tenant_id: requestParams?.xeroTenantId,
+            account_id: tx.BankAccount.AccountID,
+            raw_transaction_data: tx,
+            date: parseXeroDate(tx.Date) || parseXeroDate(tx.DateString),
+            currency: tx.CurrencyCode || 'USD',
+            last_updated_at: now,
+          }));
+      default:
+        return (Array.isArray(data) ? data : data?.transactions || []).map((tx: any) => ({
+          tenant_id: tenantId,
+          connection_id: connectionId,
+          provider_id: providerId,
+          external_account_id: tx.accountId,
+          raw_transaction_data: tx,
+        }));
+    }
+  }
+
+  /**
+   * Xero balance rows for the current balances a Xero accounts response carries
+   */
+  xeroBalanceRows(response: RawAccountsResponse): RawRow[] {
+    const balances = (response.requestParams?.balances || {}) as Record<string, { accountId: string; openingBalance: number; closingBalance: number; currency: string }>;
+    const balanceDate = new Date().toISOString().split('T')[0];
+
+    return Object.values(balances).map((balance) => ({
+      account_id: balance.accountId,
+      balance_date: balanceDate,
+      currency: balance.currency,
+      opening_balance: balance.openingBalance,
+      closing_balance: balance.closingBalance,
+    }));
+  }
+
   // ==========================================
   // UTILITIES
   // ==========================================
@@ -0,0 +1,469 @@
+/**
+ * Reconciliation Service
+ * Matches bank-feed transactions (Plaid, Tink, statement files) to accounting
+ * ledger entries (Xero) on the same account and persists the match state
+ */
+
+import { supabase, createAuditLog } from '../supabase';
+import { roleAtLeast } from '../auth';
+import { errors } from '../security/error-handler';
+import { AUTO_MATCH_THRESHOLD, DEFAULT_MATCHING_OPTIONS, findMatches, scoreMatch, toCents } from '../reconciliation/matching';
+import { getSignedAmount, shiftDate } from '../utils';
+import type {
+  AccountReconciliation,
+  ReconciliationActor,
+  ReconciliationItem,
+  ReconciliationMatch,
+  ReconciliationMatchWithItems,
+} from '../types/reconciliation';
+
+// Providers whose transactions are accounting entries rather than bank lines
+const LEDGER_PROVIDERS = ['xero'];
+
+const TRANSACTION_COLUMNS = 'transaction_id, date, amount, type, currency, description, reference, counterparty_name, provider_id';
+
+// Supabase returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+
+// =====================================================
+// Loading
+// =====================================================
+
+async function getAccount(tenantId: string, accountId: string) {
+  // Accept either accounts.id (UUID) or accounts.account_id (TEXT), like the transactions API
+  const column = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(accountId) ? 'id' : 'account_id';
+
+  const { data, error } = await supabase
+    .from('accounts')
+    .select('id, account_id, account_name, currency')
+    .eq('tenant_id', tenantId)
+    .eq(column, accountId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw errors.notFound('Account');
+  return data;
+}
+
+function toItem(row: any): ReconciliationItem {
+  return {
+    transaction_id: row.transaction_id,
+    side: LEDGER_PROVIDERS.includes(row.provider_id) ? 'ledger' : 'bank',
+    date: String(row.date).slice(0, 10),
+    amount: getSignedAmount(row.amount, row.type),
+    currency: row.currency,
+    description: row.description,
+    reference: row.reference,
+    counterparty_name: row.counterparty_name,
+    provider_id: row.provider_id,
+  };
+}
+
+async function loadItems(accountId: string, tenantId: string, startDate: string, endDate: string) {
+  const items: ReconciliationItem[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('transactions')
+      .select(TRANSACTION_COLUMNS)
+      .eq('tenant_id', tenantId)
+      .eq('account_id', accountId)
+      .gte('date', startDate)
+      .lte('date', endDate)
+      .order('date', { ascending: true })
+      .order('transaction_id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    items.push(...(data || []).map(toItem));
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return items;
+}
+
+async function loadActiveMatches(tenantId: string, accountId: string): Promise<ReconciliationMatch[]> {
+  const matches: ReconciliationMatch[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('reconciliation_matches')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .eq('account_id', accountId)
+      .eq('status', 'active')
+      .order('matched_at', { ascending: false })
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    matches.push(...((data || []) as ReconciliationMatch[]));
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return matches;
+}
+
+async function loadMatchedTransactionIds(tenantId: string, accountId: string): Promise<Set<string>> {
+  const matched = new Set<string>();
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('reconciliation_match_items')
+      .select('transaction_id')
+      .eq('tenant_id', tenantId)
+      .eq('account_id', accountId)
+      .order('transaction_id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    for (const row of data || []) matched.add(row.transaction_id);
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return matched;
+}
+
+function assertCanMatch(actor: ReconciliationActor) {
+  if (!roleAtLeast(actor.role, 'editor')) {
+    throw errors.forbidden('Only editors and above can change reconciliation matches');
+  }
+}
+
+// =====================================================
+// Workspace
+// =====================================================
+
+/**
+ * Everything the reconciliation workspace needs for one account and period:
+ * active matches, unmatched items on each side and engine suggestions
+ */
+export async function getAccountReconciliation(
+  tenantId: string,
+  accountId: string,
+  period: { startDate: string; endDate: string }
+): Promise<AccountReconciliation> {
+  const account = await getAccount(tenantId, accountId);
+  const tolerance = DEFAULT_MATCHING_OPTIONS.dateToleranceDays;
+
+  // Pad the window so items near the period edges can still find their match
+  const [items, matches, matchedIds] = await Promise.all([
+    loadItems(account.account_id, tenantId, shiftDate(period.startDate, -tolerance), shiftDate(period.endDate, tolerance)),
+    loadActiveMatches(tenantId, account.account_id),
+    loadMatchedTransactionIds(tenantId, account.account_id),
+  ]);
+
+  const inPeriod = (item: ReconciliationItem) => item.date >= period.startDate && item.date <= period.endDate;
+  const unmatched = items.filter((item) => !matchedIds.has(item.transaction_id));
+  const unmatchedBank = unmatched.filter((item) => item.side === 'bank');
+  const unmatchedLedger = unmatched.filter((item) => item.side === 'ledger');
+
+  // Suggestions must touch the period; padded items only act as counterparts
+  const byId = new Map(items.map((item) => [item.transaction_id, item]));
+  const suggestions = findMatches(unmatchedBank, unmatchedLedger).filter((suggestion) =>
+    [...suggestion.bank_transaction_ids, ...suggestion.ledger_transaction_ids].some((id) => inPeriod(byId.get(id)!))
+  );
+
+  // Matched items can sit outside the loaded window, so fetch them by id
+  const periodMatches = await hydrateMatches(
+    tenantId,
+    account.account_id,
+    matches.filter((match) => [...match.bank_transaction_ids, ...match.ledger_transaction_ids].some((id) => {
+      const item = byId.get(id);
+      return item ? inPeriod(item) : false;
+    }))
+  );
+
+  const periodBank = items.filter((item) => item.side === 'bank' && inPeriod(item));
+  const periodLedger = items.filter((item) => item.side === 'ledger' && inPeriod(item));
+  const total = (list: ReconciliationItem[]) =>
+    toCents(list.reduce((sum, item) => sum + item.amount, 0)) / 100;
+
+  return {
+    account_id: account.account_id,
+    account_name: account.account_name,
+    currency: account.currency,
+    start_date: period.startDate,
+    end_date: period.endDate,
+    matches: periodMatches,
+    unmatched_bank: unmatchedBank.filter(inPeriod),
+    unmatched_ledger: unmatchedLedger.filter(inPeriod),
+    suggestions,
+    counterparts: unmatched.filter(
+      (item) =>
+        !inPeriod(item) &&
+        suggestions.some((s) => [...s.bank_transaction_ids, ...s.ledger_transaction_ids].includes(item.transaction_id))
+    ),
+    summary: {
+      bank_count: periodBank.length,
+      ledger_count: periodLedger.length,
+      matched_bank_count: periodBank.filter((item) => matchedIds.has(item.transaction_id)).length,
+      matched_ledger_count: periodLedger.filter((item) => matchedIds.has(item.transaction_id)).length,
+      unmatched_bank_total: total(unmatchedBank.filter(inPeriod)),
+      unmatched_ledger_total: total(unmatchedLedger.filter(inPeriod)),
+    },
+  };
+}
+
+async function hydrateMatches(
+  tenantId: string,
+  accountId: string,
+  matches: ReconciliationMatch[]
+): Promise<ReconciliationMatchWithItems[]> {
+  const ids = matches.flatMap((match) => [...match.bank_transaction_ids, ...match.ledger_transaction_ids]);
+  if (ids.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('transactions')
+    .select(TRANSACTION_COLUMNS)
+    .eq('tenant_id', tenantId)
+    .eq('account_id', accountId)
+    .in('transaction_id', ids);
+
+  if (error) throw error;
+  const byId = new Map((data || []).map((row) => [row.transaction_id, toItem(row)]));
+  const pick = (list: string[]) => list.map((id) => byId.get(id)).filter((item): item is ReconciliationItem => !!item);
+
+  return matches.map((match) => ({
+    ...match,
+    bank_items: pick(match.bank_transaction_ids),
+    ledger_items: pick(match.ledger_transaction_ids),
+  }));
+}
+
+// =====================================================
+// Matching
+// =====================================================
+
+async function persistMatch(
+  tenantId: string,
+  accountId: string,
+  actor: ReconciliationActor,
+  input: {
+    bankItems: ReconciliationItem[];
+    ledgerItems: ReconciliationItem[];
+    matchType: 'auto' | 'manual';
+    score?: number;
+    reasons: string[];
+    currency?: string | null;
+  }
+): Promise<ReconciliationMatch> {
+  const sum = (list: ReconciliationItem[]) => toCents(list.reduce((total, item) => total + item.amount, 0)) / 100;
+
+  const { data: match, error } = await supabase
+    .from('reconciliation_matches')
+    .insert({
+      tenant_id: tenantId,
+      account_id: accountId,
+      match_type: input.matchType,
+      score: input.score ?? null,
+      reasons: input.reasons,
+      bank_transaction_ids: input.bankItems.map((item) => item.transaction_id),
+      ledger_transaction_ids: input.ledgerItems.map((item) => item.transaction_id),
+      bank_amount: sum(input.bankItems),
+      ledger_amount: sum(input.ledgerItems),
+      currency: input.currency,
+      matched_by: actor.userId,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  const { error: itemsError } = await supabase.from('reconciliation_match_items').insert([
+    ...input.bankItems.map((item) => ({
+      tenant_id: tenantId,
+      match_id: match.id,
+      account_id: accountId,
+      transaction_id: item.transaction_id,
+      side: 'bank',
+    })),
+    ...input.ledgerItems.map((item) => ({
+      tenant_id: tenantId,
+      match_id: match.id,
+      account_id: accountId,
+      transaction_id: item.transaction_id,
+      side: 'ledger',
+    })),
+  ]);
+
+  if (itemsError) {
+    // Another match claimed one of the transactions first
+    await supabase.from('reconciliation_matches').delete().eq('id', match.id);
+    if (itemsError.code === '23505') {
+      throw errors.conflict('One or more transactions are already matched');
+    }
+    throw itemsError;
+  }
+
+  return match as ReconciliationMatch;
+}
+
+/**
+ * Persist every engine suggestion that scores at or above the auto-match threshold
+ */
+export async function runAutoMatch(
+  tenantId: string,
+  accountId: string,
+  period: { startDate: string; endDate: string },
+  actor: ReconciliationActor
+): Promise<{ matched: number; suggestions: number }> {
+  assertCanMatch(actor);
+
+  const workspace = await getAccountReconciliation(tenantId, accountId, period);
+  const items = new Map(
+    [...workspace.unmatched_bank, ...workspace.unmatched_ledger, ...workspace.counterparts].map((item) => [
+      item.transaction_id,
+      item,
+    ])
+  );
+
+  let matched = 0;
+  for (const suggestion of workspace.suggestions) {
+    if (suggestion.score < AUTO_MATCH_THRESHOLD) continue;
+
+    try {
+      await persistMatch(tenantId, workspace.account_id, actor, {
+        bankItems: suggestion.bank_transaction_ids.map((id) => items.get(id)!),
+        ledgerItems: suggestion.ledger_transaction_ids.map((id) => items.get(id)!),
+        matchType: 'auto',
+        score: suggestion.score,
+        reasons: suggestion.reasons,
+        currency: workspace.currency,
+      });
+      matched++;
+    } catch (error) {
+      // A concurrent manual match wins; keep going with the rest
+      console.error('Auto-match failed for suggestion:', error);
+    }
+  }
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'reconciliation_auto_matched',
+    event_data: {
+      accountId: workspace.account_id,
+      startDate: period.startDate,
+      endDate: period.endDate,
+      matched,
+    },
+    user_id: actor.userId,
+  });
+
+  return { matched, suggestions: workspace.suggestions.length - matched };
+}
+
+/**
+ * Manually match bank and ledger transactions. The two sides must net to the
+ * same amount; date and reference are not enforced.
+ */
+export async function createManualMatch(
+  tenantId: string,
+  accountId: string,
+  input: { bankTransactionIds: string[]; ledgerTransactionIds: string[] },
+  actor: ReconciliationActor
+): Promise<ReconciliationMatch> {
+  assertCanMatch(actor);
+
+  const bankIds = Array.from(new Set(input.bankTransactionIds || []));
+  const ledgerIds = Array.from(new Set(input.ledgerTransactionIds || []));
+  if (bankIds.length === 0 || ledgerIds.length === 0) {
+    throw errors.badRequest('Both sides are required', 'Select at least one bank and one ledger transaction');
+  }
+
+  const account = await getAccount(tenantId, accountId);
+  const { data, error } = await supabase
+    .from('transactions')
+    .select(TRANSACTION_COLUMNS)
+    .eq('tenant_id', tenantId)
+    .eq('account_id', account.account_id)
+    .in('transaction_id', [...bankIds, ...ledgerIds]);
+
+  if (error) throw error;
+
+  const items = new Map((data || []).map((row) => [row.transaction_id, toItem(row)]));
+  const bankItems = bankIds.map((id) => items.get(id));
+  const ledgerItems = ledgerIds.map((id) => items.get(id));
+
+  if (bankItems.some((item) => !item) || ledgerItems.some((item) => !item)) {
+    throw errors.badRequest('Transaction not on account', 'All transactions must belong to this account');
+  }
+  if (bankItems.some((item) => item!.side !== 'bank') || ledgerItems.some((item) => item!.side !== 'ledger')) {
+    throw errors.badRequest('Wrong side', 'Bank lines and ledger entries were mixed up');
+  }
+
+  const bankTotal = toCents(bankItems.reduce((sum, item) => sum + item!.amount, 0));
+  const ledgerTotal = toCents(ledgerItems.reduce((sum, item) => sum + item!.amount, 0));
+  if (bankTotal !== ledgerTotal) {
+    throw errors.badRequest(
+      'Amounts do not net',
+      `Bank total ${(bankTotal / 100).toFixed(2)} does not equal ledger total ${(ledgerTotal / 100).toFixed(2)}`
+    );
+  }
+
+  // Record how the engine would have scored it, for review
+  const scored = scoreMatch(bankItems as ReconciliationItem[], ledgerItems as ReconciliationItem[], {
+    ...DEFAULT_MATCHING_OPTIONS,
+    dateToleranceDays: Number.MAX_SAFE_INTEGER,
+  });
+
+  const match = await persistMatch(tenantId, account.account_id, actor, {
+    bankItems: bankItems as ReconciliationItem[],
+    ledgerItems: ledgerItems as ReconciliationItem[],
+    matchType: 'manual',
+    reasons: scored?.reasons || ['amount'],
+    currency: account.currency,
+  });
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'reconciliation_matched',
+    event_data: { accountId: account.account_id, matchId: match.id, bankIds, ledgerIds },
+    user_id: actor.userId,
+  });
+
+  return match;
+}
+
+/**
+ * Reverse a match: its transactions become unmatched again, the match row is kept
+ */
+export async function unmatchReconciliation(
+  tenantId: string,
+  matchId: string,
+  actor: ReconciliationActor
+): Promise<ReconciliationMatch> {
+  assertCanMatch(actor);
+
+  const { data: match, error } = await supabase
+    .from('reconciliation_matches')
+    .update({ status: 'reversed', reversed_by: actor.userId, reversed_at: new Date().toISOString() })
+    .eq('tenant_id', tenantId)
+    .eq('id', matchId)
+    .eq('status', 'active')
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!match) throw errors.notFound('Active match');
+
+  const { error: itemsError } = await supabase
+    .from('reconciliation_match_items')
+    .delete()
+    .eq('tenant_id', tenantId)
+    .eq('match_id', matchId);
+
+  if (itemsError) throw itemsError;
+
+  await createAuditLog({
+    tenant_id: tenantId,
+    event_type: 'reconciliation_unmatched',
+    event_data: { accountId: match.account_id, matchId, matchType: match.match_type },
+    user_id: actor.userId,
+  });
+
+  return match as ReconciliationMatch;
+}
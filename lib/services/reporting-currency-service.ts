@@ -0,0 +1,179 @@
+/**
+ * Reporting Currency Service
+ * Resolves the currency totals are shown in (entity override, user override,
+ * then tenants.settings.currency) and converts balances into it through
+ * getExchangeRate at the selected SPOT/EOM/AVG rate type
+ */
+
+import { parseISO } from 'date-fns';
+import { supabase } from '../supabase';
+import { accountBalance } from '../utils';
+import { errors } from '../security/error-handler';
+import { getExchangeRateWithSource, type RateType } from '../currency';
+import { resolveReportingCurrency, sumInReportingCurrency } from '../fx/reporting';
+import type {
+  ReportingAmount,
+  ReportingBalances,
+  ReportingContext,
+  ReportingPreferences,
+  ReportingRateLookup,
+  ResolvedRate,
+} from '../types/fx';
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+// Accounts without an entity are totalled under this key
+export const UNASSIGNED_ENTITY = 'unassigned';
+
+// =====================================================
+// Preferences
+// =====================================================
+
+export async function getReportingPreferences(tenantId: string, userId: string): Promise<ReportingPreferences> {
+  const [tenantResult, membershipResult] = await Promise.all([
+    supabase.from('tenants').select('settings').eq('id', tenantId).single(),
+    supabase
+      .from('user_tenants')
+      .select('reporting_currency')
+      .eq('tenant_id', tenantId)
+      .eq('user_id', userId)
+      .maybeSingle(),
+  ]);
+
+  if (tenantResult.error) throw tenantResult.error;
+  if (membershipResult.error) throw membershipResult.error;
+
+  return {
+    tenant_currency: tenantResult.data?.settings?.currency || null,
+    user_currency: membershipResult.data?.reporting_currency || null,
+  };
+}
+
+/**
+ * Set or clear (null) the currency this user sees consolidated totals in
+ */
+export async function setUserReportingCurrency(
+  tenantId: string,
+  userId: string,
+  currency: string | null
+): Promise<ReportingPreferences> {
+  const normalized = currency ? currency.trim().toUpperCase() : null;
+  if (normalized && !CURRENCY_PATTERN.test(normalized)) {
+    throw errors.badRequest(`Invalid currency: ${currency}`, 'Currencies must be 3-letter codes.');
+  }
+
+  const { error } = await supabase
+    .from('user_tenants')
+    .update({ reporting_currency: normalized })
+    .eq('tenant_id', tenantId)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return getReportingPreferences(tenantId, userId);
+}
+
+export async function getReportingContext(
+  tenantId: string,
+  userId: string,
+  options: { rateType?: RateType; asOf?: string } = {}
+): Promise<ReportingContext> {
+  const preferences = await getReportingPreferences(tenantId, userId);
+  const { currency, source } = resolveReportingCurrency({
+    user: preferences.user_currency,
+    tenant: preferences.tenant_currency,
+  });
+
+  return {
+    currency,
+    source,
+    rate_type: options.rateType || 'SPOT',
+    as_of: options.asOf || new Date().toISOString().split('T')[0],
+  };
+}
+
+// =====================================================
+// Conversion
+// =====================================================
+
+/**
+ * Resolve every pair up front so totals can be summed synchronously. Rates
+ * follow the tenant's source precedence.
+ */
+export async function loadReportingRates(
+  tenantId: string,
+  pairs: Array<{ from: string; to: string }>,
+  rateType: RateType,
+  asOf: string
+): Promise<ReportingRateLookup> {
+  const rates = new Map<string, ResolvedRate | null>();
+  const date = parseISO(asOf);
+
+  for (const { from, to } of pairs) {
+    const key = `${from.toUpperCase()}/${to.toUpperCase()}`;
+    if (from.toUpperCase() === to.toUpperCase() || rates.has(key)) continue;
+    rates.set(key, await getExchangeRateWithSource(from.toUpperCase(), to.toUpperCase(), date, rateType, tenantId));
+  }
+
+  return (from, to) => rates.get(`${from}/${to}`) ?? null;
+}
+
+/**
+ * Total and per-entity balances. Entity totals use the entity's own
+ * reporting currency when it has one.
+ */
+export async function getReportingBalances(
+  tenantId: string,
+  userId: string,
+  options: { rateType?: RateType; asOf?: string } = {}
+): Promise<ReportingBalances> {
+  const context = await getReportingContext(tenantId, userId, options);
+
+  const [accountsResult, entitiesResult] = await Promise.all([
+    supabase
+      .from('accounts')
+      .select('entity_id, currency, current_balance, available_balance, balance')
+      .eq('tenant_id', tenantId),
+    supabase.from('entities').select('entity_id, reporting_currency').eq('tenant_id', tenantId),
+  ]);
+
+  if (accountsResult.error) throw accountsResult.error;
+  if (entitiesResult.error) throw entitiesResult.error;
+
+  const accounts = (accountsResult.data || []).map((account) => ({
+    entity_id: account.entity_id || UNASSIGNED_ENTITY,
+    currency: (account.currency || 'USD').toUpperCase(),
+    amount: accountBalance(account),
+  }));
+
+  const entityCurrency = new Map<string, string>();
+  for (const entity of entitiesResult.data || []) {
+    entityCurrency.set(entity.entity_id, entity.reporting_currency?.toUpperCase() || context.currency);
+  }
+
+  const pairs = accounts.flatMap((account) => [
+    { from: account.currency, to: context.currency },
+    { from: account.currency, to: entityCurrency.get(account.entity_id) || context.currency },
+  ]);
+  const rates = await loadReportingRates(tenantId, pairs, context.rate_type, context.as_of);
+
+  const byEntity = new Map<string, typeof accounts>();
+  for (const account of accounts) {
+    byEntity.set(account.entity_id, [...(byEntity.get(account.entity_id) || []), account]);
+  }
+
+  const entities: Record<string, ReportingAmount> = {};
+  for (const [entityId, entityAccounts] of byEntity) {
+    entities[entityId] = sumInReportingCurrency(
+      entityAccounts,
+      entityCurrency.get(entityId) || context.currency,
+      context.rate_type,
+      rates
+    );
+  }
+
+  return {
+    context,
+    total: sumInReportingCurrency(accounts, context.currency, context.rate_type, rates),
+    entities,
+  };
+}
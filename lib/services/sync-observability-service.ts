@@ -0,0 +1,67 @@
+/**
+ * Sync Observability Service
+ * Records every sync orchestrator run in sync_runs with the timing, size and
+ * error of each pipeline step, for all providers
+ */
+
+import { supabase } from '@/lib/supabase';
+import type { SyncObserver, SyncStepEvent } from './sync-strategies';
+
+/**
+ * Observer the orchestrator attaches to every run. Steps are kept in memory
+ * and written to the run as they finish, so a run cut off mid-way still shows
+ * how far it got.
+ */
+export const syncRunObserver: SyncObserver = ({ providerId, connectionId, tenantId }) => {
+  let runId: string | null = null;
+  const steps: SyncStepEvent[] = [];
+
+  return {
+    async onStart() {
+      const { data, error } = await supabase
+        .from('sync_runs')
+        .insert({
+          tenant_id: tenantId,
+          connection_id: connectionId,
+          provider: providerId,
+          status: 'in_progress',
+        })
+        .select('id')
+        .single();
+
+      if (error) {
+        console.warn('[SyncObservability] Failed to start sync run:', error);
+        return;
+      }
+      runId = data.id;
+    },
+
+    async afterStep(event) {
+      steps.push(event);
+      // Per-account steps are written with the next connection-level step
+      if (!runId || event.accountId) return;
+
+      const { error } = await supabase.from('sync_runs').update({ steps }).eq('id', runId);
+      if (error) console.warn('[SyncObservability] Failed to record sync step:', error);
+    },
+
+    async onComplete(outcome) {
+      if (!runId) return;
+
+      const { error } = await supabase
+        .from('sync_runs')
+        .update({
+          status: outcome.status,
+          completed_at: new Date().toISOString(),
+          duration_ms: outcome.durationMs,
+          accounts_synced: outcome.accountsSynced,
+          transactions_synced: outcome.transactionsSynced,
+          steps,
+          errors: outcome.errors,
+        })
+        .eq('id', runId);
+
+      if (error) console.warn('[SyncObservability] Failed to complete sync run:', error);
+    },
+  };
+};
@@ -6,21 +6,36 @@
  *
  * 1. Fetch Raw Data → 2. Store Raw Data → 3. Normalize → 4. Save to Standard Tables
  *
+ * How each provider stores and normalizes its raw data comes from its
+ * registered sync strategy (see sync-strategies.ts). Every step notifies the
+ * run's observers before and after it runs.
+ *
+ * A dry run fetches as usual but stores nothing: it normalizes the fetched
+ * responses in memory, then returns a diff of what saving would change
+ * instead of saving it.
+ *
  * Works with Plaid, Tink, Standard Bank, and any future banking providers.
  */
 
 import { supabase } from '@/lib/supabase';
 import { BankingProvider } from '@/lib/banking-providers/base-provider';
-import { rawStorageService } from './raw-storage-service';
-import { normalizationService } from './normalization-service';
-import { batchCreateOrUpdateAccounts, syncHistoricalBalances } from './account-service';
+import type { ProviderTransaction } from '@/lib/banking-providers/base-provider';
+import { batchCreateOrUpdateAccounts } from './account-service';
 import { batchCreateOrUpdateTransactions } from './transaction-sync-service';
-import type { ConnectionCredentials } from '@/lib/banking-providers/raw-types';
-import {
-  startSyncTracking,
-  updateSyncMetrics,
-  completeSyncTracking,
-} from './xero-observability-service';
+import { applyCategorizationRules } from './categorization-service';
+import { getSyncStrategy } from './sync-strategies';
+import { syncRunObserver } from './sync-observability-service';
+import { previewSyncChanges } from './sync-preview-service';
+import type { ConnectionCredentials, RawTransactionsResponse } from '@/lib/banking-providers/raw-types';
+import type { SyncDiff } from '@/lib/types/sync-diff';
+import type {
+  SyncContext,
+  SyncHooks,
+  SyncOutcome,
+  SyncStep,
+  SyncStepCounts,
+  SyncStepEvent,
+} from './sync-strategies';
 
 export interface SyncOptions {
   provider: BankingProvider;
@@ -29,11 +44,12 @@ export interface SyncOptions {
   credentials: ConnectionCredentials;
   syncAccounts?: boolean;
   syncTransactions?: boolean;
-  userId: string;
+  userId: string | null; // null for system-triggered syncs
   accountIds?: string[]; // Specific accounts to sync (optional)
   startDate?: string;    // For transaction sync
   endDate?: string;      // For transaction sync
   modifiedSince?: string; // For incremental sync (webhook-triggered)
+  dryRun?: boolean;      // Return a diff instead of saving accounts and transactions
 }
 
 export interface SyncResult {
@@ -45,6 +61,53 @@ export interface SyncResult {
   provider: string;
   connectionId: string;
   metadata?: Record<string, any>;
+  diff?: SyncDiff; // Dry runs only
+}
+
+// Observer failures are logged and never fail the sync
+async function notify(hooks: SyncHooks[], call: (hook: SyncHooks) => Promise<void> | undefined): Promise<void> {
+  for (const hook of hooks) {
+    try {
+      await call(hook);
+    } catch (error) {
+      console.warn('[SyncOrchestrator] Sync observer failed (non-blocking):', error);
+    }
+  }
+}
+
+/**
+ * Runs pipeline steps, timing each one, recording it in the result metadata
+ * and notifying the run's observers before and after
+ */
+function createStepRunner(hooks: SyncHooks[], steps: SyncStepEvent[]) {
+  return async function runStep<T>(
+    step: SyncStep,
+    run: () => Promise<T>,
+    describe: (result: T) => SyncStepCounts,
+    detail: { accountId?: string } = {}
+  ): Promise<T> {
+    await notify(hooks, (hook) => hook.beforeStep?.(step, detail));
+    const stepStart = Date.now();
+
+    let event: SyncStepEvent;
+    try {
+      const result = await run();
+      event = { step, ...detail, durationMs: Date.now() - stepStart, ...describe(result) };
+      steps.push(event);
+      await notify(hooks, (hook) => hook.afterStep?.(event));
+      return result;
+    } catch (error) {
+      event = {
+        step,
+        ...detail,
+        durationMs: Date.now() - stepStart,
+        error: error instanceof Error ? error.message : String(error),
+      };
+      steps.push(event);
+      await notify(hooks, (hook) => hook.afterStep?.(event));
+      throw error;
+    }
+  };
 }
 
 /**
@@ -63,322 +126,256 @@ export async function orchestrateSync(options: SyncOptions): Promise<SyncResult>
     startDate,
     endDate,
     modifiedSince, // For incremental sync (webhook-triggered)
+    dryRun = false,
   } = options;
 
   const startTime = Date.now();
   const providerId = provider.config.providerId;
+  const strategy = getSyncStrategy(providerId);
 
   console.log(`[SyncOrchestrator] Starting sync orchestration for ${providerId} (connection: ${connectionId})`);
 
-  // Start observability tracking for Xero
-  let syncId: string | null = null;
-  if (providerId === 'xero') {
-    try {
-      syncId = await startSyncTracking(connectionId, tenantId);
-      console.log(`[SyncOrchestrator] Started Xero sync tracking: ${syncId}`);
-    } catch (error) {
-      console.warn('[SyncOrchestrator] Failed to start sync tracking (non-blocking):', error);
-    }
-  }
+  const context: SyncContext = { providerId, connectionId, tenantId, credentials };
+  // Dry runs aren't syncs, so they don't show up in sync runs or provider metrics
+  const observers = dryRun ? [] : [syncRunObserver, ...(strategy.observers || [])];
+  const hooks = observers.map((observer) => observer(context));
+  await notify(hooks, (hook) => hook.onStart?.());
 
   let accountsSynced = 0;
   let transactionsSynced = 0;
   const errors: string[] = [];
+  const steps: SyncStepEvent[] = [];
   const metadata: Record<string, any> = {
     provider: providerId,
     connectionId,
-    steps: [],
+    steps,
   };
+  const runStep = createStepRunner(hooks, steps);
+
+  let accountSummary: { created: number; updated: number } = { created: 0, updated: 0 };
+  let transactionSummary: { created: number; updated: number } = { created: 0, updated: 0 };
 
   try {
     // ==========================================
-    // STEP 1: Fetch Raw Accounts
+    // STEPS 1-4: Accounts
     // ==========================================
 
     let normalizedAccounts: any[] = [];
+    let normalizedTxs: ProviderTransaction[] = [];
+    const fetchedAccountIds: string[] = []; // Dry runs: accounts whose transactions were fetched
 
     if (syncAccounts) {
       try {
         console.log('[SyncOrchestrator] STEP 1: Fetching raw accounts from provider API...');
-        const stepStart = Date.now();
-
-        const rawAccountsResponse = await provider.fetchRawAccounts(credentials);
-
-        // Update observability metrics for Xero
-        if (providerId === 'xero' && syncId) {
-          await updateSyncMetrics(syncId, {
-            accountsFetched: rawAccountsResponse.accountCount,
-          });
-        }
+        const rawAccountsResponse = await runStep(
+          'fetch_raw_accounts',
+          () => provider.fetchRawAccounts(credentials),
+          (response) => ({ count: response.accountCount })
+        );
 
-        metadata.steps.push({
-          step: 1,
-          name: 'fetch_raw_accounts',
-          duration: Date.now() - stepStart,
-          accountCount: rawAccountsResponse.accountCount,
-        });
-
-        console.log(`[SyncOrchestrator] STEP 2: Storing complete raw data to JSONB (${rawAccountsResponse.accountCount} accounts)...`);
-        const step2Start = Date.now();
-
-        // Store raw data based on provider
-        console.log(`[SyncOrchestrator] Storing ${rawAccountsResponse.accountCount} raw accounts...`);
-        if (providerId === 'plaid') {
-          await rawStorageService.storePlaidAccounts(rawAccountsResponse);
-          console.log(`[SyncOrchestrator] Stored raw Plaid accounts successfully`);
-        } else if (providerId === 'tink') {
-          await rawStorageService.storeTinkAccounts(rawAccountsResponse);
-          console.log(`[SyncOrchestrator] Stored raw Tink accounts successfully`);
-        } else if (providerId === 'xero') {
-          await rawStorageService.storeXeroAccounts(rawAccountsResponse);
-          console.log(`[SyncOrchestrator] Stored raw Xero accounts successfully`);
-        } else {
-          // Direct bank provider
-          await rawStorageService.storeDirectBankAccounts(rawAccountsResponse, providerId);
-          console.log(`[SyncOrchestrator] Stored raw ${providerId} accounts successfully`);
+        if (!dryRun) {
+          console.log(`[SyncOrchestrator] STEP 2: Storing complete raw data to JSONB (${rawAccountsResponse.accountCount} accounts)...`);
+          await runStep(
+            'store_raw_accounts',
+            () => strategy.storeRawAccounts(rawAccountsResponse),
+            () => ({ count: rawAccountsResponse.accountCount })
+          );
         }
 
-        metadata.steps.push({
-          step: 2,
-          name: 'store_raw_accounts',
-          duration: Date.now() - step2Start,
-        });
-
         console.log('[SyncOrchestrator] STEP 3: Normalizing accounts to standard schema...');
-        const step3Start = Date.now();
-
-        // Normalize accounts based on provider
-        if (providerId === 'plaid') {
-          normalizedAccounts = await normalizationService.normalizePlaidAccounts(connectionId, tenantId);
-        } else if (providerId === 'tink') {
-          normalizedAccounts = await normalizationService.normalizeTinkAccounts(connectionId, tenantId);
-        } else if (providerId === 'xero') {
-          normalizedAccounts = await normalizationService.normalizeXeroAccounts(connectionId, tenantId);
-        } else {
-          // Direct bank provider
-          normalizedAccounts = await normalizationService.normalizeDirectBankAccounts(connectionId, providerId);
-        }
-
-        metadata.steps.push({
-          step: 3,
-          name: 'normalize_accounts',
-          duration: Date.now() - step3Start,
-          normalizedCount: normalizedAccounts.length,
-        });
-
-        console.log(`[SyncOrchestrator] STEP 4: Saving ${normalizedAccounts.length} accounts to accounts table...`);
-        const step4Start = Date.now();
-
-        const batchResult = await batchCreateOrUpdateAccounts(
-          tenantId,
-          connectionId,
-          providerId,
-          normalizedAccounts,
-          userId
+        normalizedAccounts = await runStep(
+          'normalize_accounts',
+          () => strategy.normalizeAccounts(context, dryRun ? rawAccountsResponse : undefined),
+          (accounts) => ({ count: accounts.length })
         );
 
-        accountsSynced = batchResult.summary.total;
-
-        // Update observability metrics for Xero
-        if (providerId === 'xero' && syncId) {
-          await updateSyncMetrics(syncId, {
-            accountsCreated: batchResult.summary.created,
-            accountsUpdated: batchResult.summary.updated,
-          });
-        }
-
-        metadata.steps.push({
-          step: 4,
-          name: 'save_accounts',
-          duration: Date.now() - step4Start,
-          savedCount: accountsSynced,
-          batchResult: batchResult.summary,
-        });
-
-        console.log(`[SyncOrchestrator] Accounts sync complete: ${accountsSynced} accounts`);
-
-        // 4.5 Sync Historical Balances (Specific to providers with historical balance support)
-        if (providerId === 'xero') {
-          console.log('[SyncOrchestrator] STEP 4.5: Syncing historical balances to statements...');
-          const balanceStart = Date.now();
-          const syncedStatements = await syncHistoricalBalances(tenantId, connectionId, providerId);
-          
-          metadata.steps.push({
-            step: 4.5,
-            name: 'sync_historical_balances',
-            duration: Date.now() - balanceStart,
-            statementsSynced: syncedStatements
-          });
+        // Dry runs stop here; the diff is built once transactions are normalized too
+        if (!dryRun) {
+          console.log(`[SyncOrchestrator] STEP 4: Saving ${normalizedAccounts.length} accounts to accounts table...`);
+          const batchResult = await runStep(
+            'save_accounts',
+            () => batchCreateOrUpdateAccounts(tenantId, connectionId, providerId, normalizedAccounts, userId),
+            (result) => ({
+              count: result.summary.total,
+              created: result.summary.created,
+              updated: result.summary.updated,
+            })
+          );
+
+          accountsSynced = batchResult.summary.total;
+          accountSummary = { created: batchResult.summary.created, updated: batchResult.summary.updated };
+
+          console.log(`[SyncOrchestrator] Accounts sync complete: ${accountsSynced} accounts`);
+
+          // 4.5 Sync Historical Balances (providers with historical balance support)
+          if (strategy.syncHistoricalBalances) {
+            console.log('[SyncOrchestrator] STEP 4.5: Syncing historical balances to statements...');
+            await runStep(
+              'sync_historical_balances',
+              () => strategy.syncHistoricalBalances!(context),
+              (statements) => ({ count: statements })
+            );
+          }
         }
 
       } catch (error) {
         const errorMsg = `Account sync failed: ${error instanceof Error ? error.message : String(error)}`;
         errors.push(errorMsg);
         console.error('[SyncOrchestrator] Account sync error:', error);
-        
-        // Update observability metrics for Xero
-        if (providerId === 'xero' && syncId) {
-          await updateSyncMetrics(syncId, {
-            errors: [errorMsg],
-          });
-        }
       }
     }
 
     // ==========================================
-    // STEP 5: Fetch Raw Transactions
+    // STEPS 5-7: Transactions
     // ==========================================
 
     if (syncTransactions && normalizedAccounts.length > 0) {
       try {
         console.log(`[SyncOrchestrator] STEP 5: Fetching raw transactions from provider API...`);
-        const step5Start = Date.now();
 
         // Determine which accounts to sync transactions for
         const accountsToSync = accountIds || normalizedAccounts.map(acc => acc.externalAccountId);
-        let totalTransactionsFetched = 0;
+
+        // Cursor for incremental sync, for providers that page by cursor. Dry runs fetch
+        // in full: they normalize only what they fetch, so a page of changes would
+        // leave every other saved transaction looking missing
+        const useCursor = !!strategy.getTransactionCursor && !dryRun;
+        const cursor = useCursor ? await strategy.getTransactionCursor!(context) : undefined;
+        if (useCursor) {
+          console.log(cursor
+            ? `[SyncOrchestrator] Using ${providerId} cursor for incremental sync: ${cursor.substring(0, 20)}...`
+            : `[SyncOrchestrator] No ${providerId} cursor found - performing full sync`);
+        }
+
+        // Dry runs keep the fetched responses to normalize in memory
+        const fetchedTransactions: RawTransactionsResponse[] = [];
 
         for (const accountId of accountsToSync) {
           try {
             console.log(`[SyncOrchestrator] Fetching transactions for account ${accountId}...`);
-
-            // Get cursor for incremental sync (Plaid only)
-            let cursor: string | undefined;
-            if (providerId === 'plaid') {
-              cursor = await rawStorageService.getPlaidCursor(connectionId);
-              if (cursor) {
-                console.log(`[SyncOrchestrator] Using Plaid cursor for incremental sync: ${cursor.substring(0, 20)}...`);
-              } else {
-                console.log('[SyncOrchestrator] No Plaid cursor found - performing full sync');
-              }
-            }
-
-            const rawTxResponse = await provider.fetchRawTransactions(
-              credentials,
-              accountId,
-              {
+            const rawTxResponse = await runStep(
+              'fetch_raw_transactions',
+              () => provider.fetchRawTransactions(credentials, accountId, {
                 startDate,
                 endDate,
                 cursor, // Pass cursor for incremental sync
                 modifiedSince, // For incremental sync (webhook-triggered)
-              }
+              }),
+              (response) => ({ count: response.transactionCount }),
+              { accountId }
             );
 
-            totalTransactionsFetched += rawTxResponse.transactionCount;
-
-            // Update observability metrics for Xero
-            if (providerId === 'xero' && syncId) {
-              await updateSyncMetrics(syncId, {
-                transactionsFetched: totalTransactionsFetched,
-              });
+            if (dryRun) {
+              fetchedTransactions.push(rawTxResponse);
+              fetchedAccountIds.push(accountId);
+              continue;
             }
 
-            // Store raw transaction data based on provider
             console.log(`[SyncOrchestrator] Storing ${rawTxResponse.transactionCount} raw transactions for account ${accountId}...`);
-            if (providerId === 'plaid') {
-              await rawStorageService.storePlaidTransactions(rawTxResponse);
-              console.log(`[SyncOrchestrator] Stored raw Plaid transactions successfully`);
-            } else if (providerId === 'tink') {
-              await rawStorageService.storeTinkTransactions(rawTxResponse);
-              console.log(`[SyncOrchestrator] Stored raw Tink transactions successfully`);
-            } else if (providerId === 'xero') {
-              await rawStorageService.storeXeroTransactions(rawTxResponse);
-              console.log(`[SyncOrchestrator] Stored raw Xero transactions successfully`);
-            } else {
-              // Direct bank provider
-              await rawStorageService.storeDirectBankTransactions(rawTxResponse, providerId);
-              console.log(`[SyncOrchestrator] Stored raw ${providerId} transactions successfully`);
-            }
+            await runStep(
+              'store_raw_transactions',
+              () => strategy.storeRawTransactions(rawTxResponse),
+              () => ({ count: rawTxResponse.transactionCount }),
+              { accountId }
+            );
 
           } catch (accountError) {
             console.error(`[SyncOrchestrator] Failed to sync transactions for account ${accountId}:`, accountError);
-            // Continue with other accounts
+            // Continue with other accounts; a preview missing one must not look complete
+            if (dryRun) {
+              errors.push(
+                `Failed to fetch transactions for account ${accountId}: ${
+                  accountError instanceof Error ? accountError.message : String(accountError)
+                }`
+              );
+            }
           }
         }
 
-        metadata.steps.push({
-          step: 5,
-          name: 'fetch_raw_transactions',
-          duration: Date.now() - step5Start,
-          accountsProcessed: accountsToSync.length,
-          totalTransactionsFetched,
-        });
-
         console.log('[SyncOrchestrator] STEP 6: Normalizing transactions to standard schema...');
-        const step6Start = Date.now();
-
-        // Normalize transactions based on provider
-        let normalizedTxs: any[] = [];
-        if (providerId === 'plaid') {
-          normalizedTxs = await normalizationService.normalizePlaidTransactions(connectionId);
-        } else if (providerId === 'tink') {
-          normalizedTxs = await normalizationService.normalizeTinkTransactions(connectionId);
-        } else if (providerId === 'xero') {
-          normalizedTxs = await normalizationService.normalizeXeroTransactions(connectionId);
-        } else {
-          // Direct bank provider
-          normalizedTxs = await normalizationService.normalizeDirectBankTransactions(connectionId, providerId);
-        }
-
-        metadata.steps.push({
-          step: 6,
-          name: 'normalize_transactions',
-          duration: Date.now() - step6Start,
-          normalizedCount: normalizedTxs.length,
-        });
-
-        console.log(`[SyncOrchestrator] STEP 7: Saving ${normalizedTxs.length} transactions to transactions table...`);
-        const step7Start = Date.now();
-
-        // Save transactions to standard table
-        console.log(`[SyncOrchestrator] About to batch save ${normalizedTxs.length} transactions...`);
-        console.log(`[SyncOrchestrator] Sample transaction:`, normalizedTxs[0] ? {
-          externalTransactionId: normalizedTxs[0].externalTransactionId,
-          accountId: normalizedTxs[0].accountId,
-          amount: normalizedTxs[0].amount,
-          description: normalizedTxs[0].description?.substring(0, 50)
-        } : 'No transactions');
-
-        const txBatchResult = await batchCreateOrUpdateTransactions(
-          tenantId,
-          connectionId,
-          providerId,
-          normalizedTxs,
-          userId
+        normalizedTxs = await runStep(
+          'normalize_transactions',
+          () => strategy.normalizeTransactions(context, dryRun ? fetchedTransactions : undefined),
+          (transactions) => ({ count: transactions.length })
         );
 
-        console.log(`[SyncOrchestrator] Batch result:`, txBatchResult);
-        transactionsSynced = txBatchResult.summary.total;
+        if (!dryRun) {
+          console.log(`[SyncOrchestrator] STEP 7: Saving ${normalizedTxs.length} transactions to transactions table...`);
+          const txBatchResult = await runStep(
+            'save_transactions',
+            () => batchCreateOrUpdateTransactions(tenantId, connectionId, providerId, normalizedTxs, userId),
+            (result) => ({
+              count: result.summary.total,
+              created: result.summary.created,
+              updated: result.summary.updated,
+            })
+          );
+
+          console.log(`[SyncOrchestrator] Batch result:`, txBatchResult);
+          transactionsSynced = txBatchResult.summary.total;
+          transactionSummary = { created: txBatchResult.summary.created, updated: txBatchResult.summary.updated };
+
+          // Tenant categorization rules override provider categories
+          try {
+            const categorized = await applyCategorizationRules(tenantId, {
+              transactionIds: normalizedTxs.map((tx) => tx.externalTransactionId),
+            });
+            if (categorized.updated > 0) {
+              console.log(`[SyncOrchestrator] Categorization rules updated ${categorized.updated} transactions`);
+            }
+          } catch (ruleError) {
+            console.error('[SyncOrchestrator] Categorization rules failed:', ruleError);
+          }
 
-        // Update observability metrics for Xero
-        if (providerId === 'xero' && syncId) {
-          await updateSyncMetrics(syncId, {
-            transactionsCreated: txBatchResult.summary.created,
-            transactionsUpdated: txBatchResult.summary.updated,
-          });
+          console.log(`[SyncOrchestrator] Transactions sync complete: ${transactionsSynced} transactions`);
         }
 
-        metadata.steps.push({
-          step: 7,
-          name: 'save_transactions',
-          duration: Date.now() - step7Start,
-          savedCount: transactionsSynced,
-          batchResult: txBatchResult.summary,
-        });
-
-        console.log(`[SyncOrchestrator] Transactions sync complete: ${transactionsSynced} transactions`);
-
       } catch (error) {
         const errorMsg = `Transaction sync failed: ${error instanceof Error ? error.message : String(error)}`;
         errors.push(errorMsg);
         console.error('[SyncOrchestrator] Transaction sync error:', error);
-        
-        // Update observability metrics for Xero
-        if (providerId === 'xero' && syncId) {
-          await updateSyncMetrics(syncId, {
-            errors: errors,
-          });
-        }
+      }
+    }
+
+    // ==========================================
+    // Dry run: diff instead of saving
+    // ==========================================
+
+    if (dryRun) {
+      console.log('[SyncOrchestrator] Dry run: comparing normalized data with saved accounts and transactions...');
+      const diff = await previewSyncChanges(
+        tenantId,
+        connectionId,
+        providerId,
+        normalizedAccounts,
+        normalizedTxs,
+        fetchedAccountIds
+      );
+
+      return {
+        success: errors.length === 0,
+        accountsSynced: 0,
+        transactionsSynced: 0,
+        errors,
+        duration: Date.now() - startTime,
+        provider: providerId,
+        connectionId,
+        metadata: { ...metadata, dryRun: true },
+        diff,
+      };
+    }
+
+    // Provider extras, e.g. Plaid investment holdings. Failures don't fail the sync.
+    if (strategy.syncSupplementaryData && syncAccounts) {
+      try {
+        const records = await runStep(
+          'sync_supplementary_data',
+          () => strategy.syncSupplementaryData!(context),
+          (count) => ({ count })
+        );
+        console.log(`[SyncOrchestrator] Supplementary ${providerId} data synced: ${records} records`);
+      } catch (supplementaryError) {
+        console.error('[SyncOrchestrator] Supplementary data sync failed:', supplementaryError);
       }
     }
 
@@ -400,10 +397,10 @@ export async function orchestrateSync(options: SyncOptions): Promise<SyncResult>
           sync_summary: {
             accounts_synced: accountsSynced,
             transactions_synced: transactionsSynced,
-            accounts_created: metadata.steps?.find((s: any) => s.name === 'save_accounts')?.batchResult?.created || 0,
-            accounts_updated: metadata.steps?.find((s: any) => s.name === 'save_accounts')?.batchResult?.updated || 0,
-            transactions_created: metadata.steps?.find((s: any) => s.name === 'save_transactions')?.batchResult?.created || 0,
-            transactions_updated: metadata.steps?.find((s: any) => s.name === 'save_transactions')?.batchResult?.updated || 0,
+            accounts_created: accountSummary.created,
+            accounts_updated: accountSummary.updated,
+            transactions_created: transactionSummary.created,
+            transactions_updated: transactionSummary.updated,
             sync_duration_ms: Date.now() - startTime,
             errors: errors,
             warnings: [],
@@ -426,18 +423,16 @@ export async function orchestrateSync(options: SyncOptions): Promise<SyncResult>
 
     const totalDuration = Date.now() - startTime;
 
-    // Complete observability tracking for Xero
-    if (providerId === 'xero' && syncId) {
-      const finalStatus: 'completed' | 'failed' | 'partial' = 
-        errors.length === 0 ? 'completed' : 
-        errors.length < (accountsSynced + transactionsSynced) ? 'partial' : 'failed';
-      
-      await completeSyncTracking(syncId, finalStatus, {
-        accountsFetched: accountsSynced,
-        transactionsFetched: transactionsSynced,
-        errors: errors,
-      });
-    }
+    const outcome: SyncOutcome = {
+      status:
+        errors.length === 0 ? 'completed' :
+        errors.length < (accountsSynced + transactionsSynced) ? 'partial' : 'failed',
+      accountsSynced,
+      transactionsSynced,
+      errors,
+      durationMs: totalDuration,
+    };
+    await notify(hooks, (hook) => hook.onComplete?.(outcome));
 
     console.log(`[SyncOrchestrator] Sync orchestration complete for ${providerId}!`);
     console.log(`[SyncOrchestrator] Duration: ${totalDuration}ms`);
@@ -463,12 +458,13 @@ export async function orchestrateSync(options: SyncOptions): Promise<SyncResult>
 
     console.error('[SyncOrchestrator] Fatal error:', fatalError);
 
-    // Complete observability tracking for Xero (failed status)
-    if (providerId === 'xero' && syncId) {
-      await completeSyncTracking(syncId, 'failed', {
-        errors: [errorMsg],
-      });
-    }
+    await notify(hooks, (hook) => hook.onComplete?.({
+      status: 'failed',
+      accountsSynced: 0,
+      transactionsSynced: 0,
+      errors: [errorMsg],
+      durationMs: totalDuration,
+    }));
 
     // Update connection with failure status
     try {
@@ -539,7 +535,7 @@ export async function bulkOrchestrateSyncs(
     connectionId: string;
     tenantId: string;
     credentials: ConnectionCredentials;
-    userId: string;
+    userId: string | null;
     syncAccounts?: boolean;
     syncTransactions?: boolean;
   }>
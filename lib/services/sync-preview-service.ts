@@ -0,0 +1,132 @@
+/**
+ * Sync Preview Service
+ * Looks up what a dry-run sync's normalized accounts and transactions would
+ * overwrite, and diffs them, without writing anything
+ */
+
+import { supabase } from '@/lib/supabase';
+import { findExistingAccount } from './account-service';
+import { buildSyncDiff, transactionDateRange } from '@/lib/sync/diff';
+import { chunk } from '@/lib/utils';
+import type { SavedAccount, SavedTransaction } from '@/lib/sync/diff';
+import type { ProviderAccount, ProviderTransaction } from '@/lib/banking-providers/base-provider';
+import type { SyncDiff } from '@/lib/types/sync-diff';
+
+// =====================================================
+// Configuration
+// =====================================================
+
+const PAGE_SIZE = 1000;
+
+const TRANSACTION_COLUMNS = 'transaction_id, account_id, date, amount, currency, description, type';
+
+// =====================================================
+// Lookups
+// =====================================================
+
+/**
+ * The account each provider account would update, matched the way the sync
+ * matches (IBAN, then account number, then provider account id)
+ */
+async function matchSavedAccounts(
+  tenantId: string,
+  providerId: string,
+  accounts: ProviderAccount[]
+): Promise<Array<{ account: ProviderAccount; saved: SavedAccount | null }>> {
+  const matches: Array<{ account: ProviderAccount; saved: SavedAccount | null }> = [];
+
+  for (const account of accounts) {
+    const { account: saved } = await findExistingAccount(tenantId, {
+      iban: account.iban,
+      accountNumber: account.accountNumber,
+      externalAccountId: account.externalAccountId,
+      bankName: providerId,
+    });
+    matches.push({ account, saved: saved ? { ...saved, account_id: saved.account_id || saved.id } : null });
+  }
+
+  return matches;
+}
+
+// Transaction ids are globally unique, so a fetched transaction may be saved under another connection
+async function getSavedTransactionsById(ids: string[]): Promise<Map<string, SavedTransaction>> {
+  const saved = new Map<string, SavedTransaction>();
+
+  for (const idChunk of chunk(ids)) {
+    const { data, error } = await supabase.from('transactions').select(TRANSACTION_COLUMNS).in('transaction_id', idChunk);
+
+    if (error) throw error;
+    for (const row of data || []) saved.set(row.transaction_id, row as SavedTransaction);
+  }
+
+  return saved;
+}
+
+// Only accounts whose transactions were fetched: another account's saved rows aren't missing
+async function getSavedTransactionsInRange(
+  connectionId: string,
+  accountIds: string[],
+  from: string,
+  to: string
+): Promise<SavedTransaction[]> {
+  const saved: SavedTransaction[] = [];
+
+  for (const ids of chunk(accountIds)) {
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select(TRANSACTION_COLUMNS)
+        .eq('connection_id', connectionId)
+        .in('account_id', ids)
+        .gte('date', from)
+        .lte('date', to)
+        .order('date')
+        .order('transaction_id')
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) throw error;
+      saved.push(...((data || []) as SavedTransaction[]));
+
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+  }
+
+  return saved;
+}
+
+// =====================================================
+// Preview
+// =====================================================
+
+/**
+ * Diff of what saving these normalized accounts and transactions would change.
+ * `fetchedAccountIds` are the provider account ids whose transactions were
+ * fetched; saved transactions of other accounts are never reported missing.
+ */
+export async function previewSyncChanges(
+  tenantId: string,
+  connectionId: string,
+  providerId: string,
+  accounts: ProviderAccount[],
+  transactions: ProviderTransaction[],
+  fetchedAccountIds: string[]
+): Promise<SyncDiff> {
+  const range = transactionDateRange(transactions);
+
+  const [accountMatches, savedById] = await Promise.all([
+    matchSavedAccounts(tenantId, providerId, accounts),
+    getSavedTransactionsById(transactions.map((transaction) => transaction.externalTransactionId)),
+  ]);
+
+  const fetched = new Set(fetchedAccountIds);
+  const savedAccountIds = accountMatches
+    .filter(({ account, saved }) => saved && fetched.has(account.externalAccountId))
+    .map(({ saved }) => saved!.account_id);
+
+  const savedInRange =
+    range && savedAccountIds.length > 0
+      ? await getSavedTransactionsInRange(connectionId, savedAccountIds, range.from, range.to)
+      : [];
+
+  return buildSyncDiff({ accounts: accountMatches, transactions, savedById, savedInRange });
+}
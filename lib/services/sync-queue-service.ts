@@ -0,0 +1,526 @@
+/**
+ * Sync Queue Service
+ * Postgres-backed queue of provider syncs. Cron schedules, admins and provider
+ * webhooks enqueue jobs; the sync worker leases them with a visibility timeout, heartbeats
+ * while orchestrateSync runs, and retries failures with exponential backoff
+ * until they succeed or are dead-lettered
+ */
+
+import { randomUUID } from 'crypto';
+import { supabase, createIngestionJob, updateIngestionJob } from '../supabase';
+import { getProvider } from '../banking-providers/provider-registry';
+import { orchestrateSync } from './sync-orchestrator';
+import { tokenRefreshService } from './token-refresh-service';
+import { getConnectionsReadyForSync, recordSyncResult } from './orchestration-service';
+import { DEFAULT_PROVIDER_CONCURRENCY, PROVIDER_CONCURRENCY, decideRetry, mergeSyncScopes } from '../sync/queue';
+import { chunk } from '../utils';
+import type {
+  DrainResult,
+  EnqueueResult,
+  EnqueueSyncJobInput,
+  SyncJob,
+  SyncJobOptions,
+  SyncJobResultSummary,
+} from '../types/sync-job';
+
+// =====================================================
+// Configuration
+// =====================================================
+
+// Supabase has a request size limit, so rows are written in chunks
+const BATCH_SIZE = 500;
+
+// A lease not renewed within this long is treated as a dead worker
+const LEASE_SECONDS = 120;
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+// Syncs a single worker runs at once, before per-provider limits
+const WORKER_CAPACITY = 8;
+
+const UNIQUE_VIOLATION = '23505';
+
+// Failures retrying won't fix: the job is dead-lettered on the first attempt
+class PermanentSyncError extends Error {}
+
+// =====================================================
+// Enqueue
+// =====================================================
+
+function toJobRow(input: EnqueueSyncJobInput) {
+  return {
+    tenant_id: input.tenantId,
+    connection_id: input.connectionId,
+    provider: input.provider,
+    source: input.source,
+    schedule: input.schedule || null,
+    options: input.options || {},
+    priority: input.priority ?? 50,
+    max_attempts: input.maxAttempts ?? 5,
+    created_by: input.createdBy || null,
+  };
+}
+
+async function getOpenJob(connectionId: string): Promise<SyncJob | null> {
+  const { data, error } = await supabase
+    .from('sync_jobs')
+    .select('*')
+    .eq('connection_id', connectionId)
+    .in('status', ['queued', 'running'])
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as SyncJob | null;
+}
+
+/**
+ * Widen a queued job to also cover the accounts of a request it absorbed
+ */
+async function widenQueuedJob(job: SyncJob, requested: SyncJobOptions): Promise<SyncJob> {
+  const options = mergeSyncScopes(job.options || {}, requested);
+  if (JSON.stringify(options) === JSON.stringify(job.options || {})) return job;
+
+  const { data, error } = await supabase
+    .from('sync_jobs')
+    .update({ options })
+    .eq('id', job.id)
+    .eq('status', 'queued')
+    .select('*')
+    .maybeSingle();
+
+  if (error) throw error;
+  // Leased in the meantime: the running job keeps its scope
+  return (data as SyncJob | null) || job;
+}
+
+/**
+ * Queue a sync for one connection. A connection has at most one open job, so
+ * if one is already queued or running that job is returned instead, widened
+ * to the requested accounts if it hasn't started yet.
+ */
+export async function enqueueSyncJob(input: EnqueueSyncJobInput): Promise<{ job: SyncJob; created: boolean }> {
+  const { data, error } = await supabase.from('sync_jobs').insert(toJobRow(input)).select('*').single();
+
+  if (error) {
+    if (error.code !== UNIQUE_VIOLATION) throw error;
+
+    const existing = await getOpenJob(input.connectionId);
+    if (!existing) throw error;
+    if (existing.status !== 'queued') return { job: existing, created: false };
+    return { job: await widenQueuedJob(existing, input.options || {}), created: false };
+  }
+
+  return { job: data as SyncJob, created: true };
+}
+
+/**
+ * Queue a sync for every connection due on a cron schedule
+ */
+export async function enqueueScheduledSyncs(schedule: string): Promise<EnqueueResult> {
+  const connections = await getConnectionsReadyForSync(schedule);
+  const result: EnqueueResult = { enqueued: 0, already_queued: 0 };
+  if (connections.length === 0) return result;
+
+  const open = new Set<string>();
+  const connectionIds = connections.map((conn) => conn.connection_id);
+  for (const ids of chunk(connectionIds)) {
+    const { data, error } = await supabase
+      .from('sync_jobs')
+      .select('connection_id')
+      .in('connection_id', ids)
+      .in('status', ['queued', 'running']);
+    if (error) throw error;
+    for (const row of data || []) open.add(row.connection_id);
+  }
+
+  const rows = connections
+    .filter((conn) => !open.has(conn.connection_id))
+    .map((conn) =>
+      toJobRow({
+        tenantId: conn.tenant_id,
+        connectionId: conn.connection_id,
+        provider: conn.provider,
+        source: 'schedule',
+        schedule,
+      })
+    );
+  result.already_queued = connections.length - rows.length;
+
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    const batch = rows.slice(i, i + BATCH_SIZE);
+    const { error } = await supabase.from('sync_jobs').insert(batch);
+
+    if (!error) {
+      result.enqueued += batch.length;
+      continue;
+    }
+    if (error.code !== UNIQUE_VIOLATION) throw error;
+
+    // Someone queued one of these since we looked; fall back to one at a time
+    for (const row of batch) {
+      const { error: rowError } = await supabase.from('sync_jobs').insert(row);
+      if (!rowError) result.enqueued++;
+      else if (rowError.code === UNIQUE_VIOLATION) result.already_queued++;
+      else throw rowError;
+    }
+  }
+
+  return result;
+}
+
+// =====================================================
+// Leasing
+// =====================================================
+
+/**
+ * Put jobs whose worker stopped heartbeating back on the queue, or dead-letter
+ * them if that was their last attempt
+ */
+export async function reclaimExpiredLeases(): Promise<number> {
+  const now = new Date();
+  const { data, error } = await supabase
+    .from('sync_jobs')
+    .select('*')
+    .eq('status', 'running')
+    .lt('lease_expires_at', now.toISOString());
+
+  if (error) throw error;
+
+  let reclaimed = 0;
+  for (const job of (data || []) as SyncJob[]) {
+    const decision = decideRetry(job, now);
+    const { data: updated, error: updateError } = await supabase
+      .from('sync_jobs')
+      .update({
+        status: decision.status,
+        run_after: decision.run_after || job.run_after,
+        leased_by: null,
+        lease_expires_at: null,
+        finished_at: decision.status === 'dead' ? now.toISOString() : null,
+        last_error: 'Lease expired before the sync finished',
+      })
+      .eq('id', job.id)
+      .eq('status', 'running')
+      .lt('lease_expires_at', now.toISOString())
+      .select('id');
+
+    if (updateError) throw updateError;
+    if (!updated || updated.length === 0) continue;
+
+    reclaimed++;
+    if (decision.status === 'dead') {
+      await recordSyncResult(job.connection_id, {
+        connection_id: job.connection_id,
+        status: 'failed',
+        message: 'Lease expired before the sync finished',
+      });
+    }
+  }
+
+  return reclaimed;
+}
+
+/**
+ * Lease up to `capacity` due jobs to a worker, keeping each provider within
+ * its concurrency limit across all workers
+ */
+export async function leaseSyncJobs(workerId: string, capacity: number): Promise<SyncJob[]> {
+  if (capacity <= 0) return [];
+
+  const { data, error } = await supabase.rpc('lease_sync_jobs', {
+    p_worker_id: workerId,
+    p_capacity: capacity,
+    p_lease_seconds: LEASE_SECONDS,
+    p_provider_limits: PROVIDER_CONCURRENCY,
+    p_default_limit: DEFAULT_PROVIDER_CONCURRENCY,
+  });
+
+  if (error) throw error;
+  return (data || []) as SyncJob[];
+}
+
+/**
+ * Extend a job's lease. Returns false if the worker no longer holds it.
+ */
+export async function heartbeatSyncJob(jobId: string, workerId: string): Promise<boolean> {
+  const now = Date.now();
+  const { data, error } = await supabase
+    .from('sync_jobs')
+    .update({
+      heartbeat_at: new Date(now).toISOString(),
+      lease_expires_at: new Date(now + LEASE_SECONDS * 1000).toISOString(),
+    })
+    .eq('id', jobId)
+    .eq('leased_by', workerId)
+    .eq('status', 'running')
+    .select('id');
+
+  if (error) throw error;
+  return !!data && data.length > 0;
+}
+
+// =====================================================
+// Completion
+// =====================================================
+
+// Writes are conditional on still holding the lease, so a worker that lost
+// its job to reclaim can't overwrite the next attempt
+async function finishSyncJob(job: SyncJob, workerId: string, updates: Record<string, unknown>): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('sync_jobs')
+    .update({ ...updates, leased_by: null, lease_expires_at: null })
+    .eq('id', job.id)
+    .eq('leased_by', workerId)
+    .eq('status', 'running')
+    .select('id');
+
+  if (error) throw error;
+  return !!data && data.length > 0;
+}
+
+export async function completeSyncJob(
+  job: SyncJob,
+  workerId: string,
+  summary: SyncJobResultSummary
+): Promise<boolean> {
+  const finished = await finishSyncJob(job, workerId, {
+    status: 'succeeded',
+    finished_at: new Date().toISOString(),
+    last_error: null,
+    result: summary,
+  });
+
+  if (finished) {
+    await recordSyncResult(job.connection_id, {
+      connection_id: job.connection_id,
+      status: 'success',
+      message: 'Sync completed successfully',
+      duration_ms: summary.duration_ms,
+      records_synced: summary.transactions_synced,
+    });
+  }
+
+  return finished;
+}
+
+/**
+ * Record a failed attempt: back on the queue with backoff, or dead-lettered
+ * when out of attempts or the failure isn't retryable. Connection health is
+ * only marked failed once the job is dead.
+ */
+export async function failSyncJob(
+  job: SyncJob,
+  workerId: string,
+  message: string,
+  options: { retryable?: boolean; summary?: SyncJobResultSummary } = {}
+): Promise<'queued' | 'dead' | null> {
+  const now = new Date();
+  const decision = decideRetry(job, now, { retryable: options.retryable });
+
+  const finished = await finishSyncJob(job, workerId, {
+    status: decision.status,
+    run_after: decision.run_after || job.run_after,
+    finished_at: decision.status === 'dead' ? now.toISOString() : null,
+    last_error: message,
+    result: options.summary || null,
+  });
+
+  if (!finished) return null;
+
+  if (decision.status === 'dead') {
+    await recordSyncResult(job.connection_id, {
+      connection_id: job.connection_id,
+      status: 'failed',
+      message,
+    });
+  }
+
+  return decision.status;
+}
+
+// =====================================================
+// Worker
+// =====================================================
+
+async function loadSyncCredentials(job: SyncJob) {
+  const { data: connection, error } = await supabase
+    .from('connections')
+    .select('id, status, provider')
+    .eq('id', job.connection_id)
+    .eq('tenant_id', job.tenant_id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!connection || connection.provider !== job.provider) {
+    throw new PermanentSyncError('Connection not found');
+  }
+  if (connection.status !== 'active') {
+    throw new PermanentSyncError(`Connection is ${connection.status}`);
+  }
+
+  let provider;
+  try {
+    provider = getProvider(job.provider);
+  } catch (providerError) {
+    throw new PermanentSyncError(providerError instanceof Error ? providerError.message : 'Unknown provider');
+  }
+
+  const tokenResult = await tokenRefreshService.getValidAccessToken(job.connection_id, job.provider, (refreshToken) =>
+    provider.refreshAccessToken(refreshToken)
+  );
+
+  if (!tokenResult.success || !tokenResult.tokens) {
+    const message = tokenResult.error || 'OAuth token not found';
+    // Without a token (or a refresh token) the connection has to be reconnected
+    const retryable = !/no active token|no refresh token/i.test(message);
+    if (!retryable) throw new PermanentSyncError(`${message}. Please reconnect the account.`);
+    throw new Error(message);
+  }
+
+  const tokenRecord = await tokenRefreshService.getTokenRecord(job.connection_id, job.provider);
+
+  return {
+    provider,
+    credentials: {
+      connectionId: job.connection_id,
+      tenantId: job.tenant_id,
+      tokens: tokenResult.tokens,
+      // Include provider metadata (e.g., xeroTenantId for Xero)
+      metadata: tokenRecord?.provider_metadata || {},
+    },
+  };
+}
+
+/**
+ * Run one leased job through the sync orchestrator, heartbeating while it
+ * runs. Never throws: every outcome is written back to the job.
+ */
+export async function runSyncJob(job: SyncJob, workerId: string): Promise<'succeeded' | 'queued' | 'dead' | null> {
+  const heartbeat = setInterval(() => {
+    heartbeatSyncJob(job.id, workerId)
+      .then((held) => {
+        if (!held) console.warn(`[SyncQueue] Lost lease on job ${job.id}`);
+      })
+      .catch((error) => console.error(`[SyncQueue] Heartbeat failed for job ${job.id}:`, error));
+  }, HEARTBEAT_INTERVAL_MS);
+
+  let ingestionJobId: string | null = null;
+
+  try {
+    const { provider, credentials } = await loadSyncCredentials(job);
+
+    const ingestionJob = await createIngestionJob({
+      tenant_id: job.tenant_id,
+      connection_id: job.connection_id,
+      job_type: `${job.provider}_sync`,
+      status: 'running',
+    });
+    ingestionJobId = ingestionJob.id;
+
+    const result = await orchestrateSync({
+      provider,
+      connectionId: job.connection_id,
+      tenantId: job.tenant_id,
+      credentials,
+      syncAccounts: true,
+      syncTransactions: true,
+      accountIds: job.options?.accountIds,
+      userId: job.created_by, // Null when system-triggered; created_by references auth.users
+    });
+
+    const summary: SyncJobResultSummary = {
+      accounts_synced: result.accountsSynced,
+      transactions_synced: result.transactionsSynced,
+      duration_ms: result.duration,
+      errors: result.errors,
+    };
+
+    await updateIngestionJob(ingestionJob.id, {
+      status: result.success ? 'completed' : 'completed_with_errors',
+      records_fetched: result.accountsSynced + result.transactionsSynced,
+      records_imported: result.accountsSynced + result.transactionsSynced,
+      records_failed: result.errors.length,
+      completed_at: new Date().toISOString(),
+      summary: { ...summary, sync_job_id: job.id, attempt: job.attempts },
+    });
+
+    if (!result.success) {
+      return await failSyncJob(job, workerId, result.errors[0] || 'Sync failed', { summary });
+    }
+
+    return (await completeSyncJob(job, workerId, summary)) ? 'succeeded' : null;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[SyncQueue] Job ${job.id} (${job.provider}) failed on attempt ${job.attempts}:`, message);
+
+    try {
+      if (ingestionJobId) {
+        await updateIngestionJob(ingestionJobId, {
+          status: 'failed',
+          error_message: message,
+          completed_at: new Date().toISOString(),
+        });
+      }
+      return await failSyncJob(job, workerId, message, { retryable: !(error instanceof PermanentSyncError) });
+    } catch (failError) {
+      // The lease will expire and the job be reclaimed
+      console.error(`[SyncQueue] Could not record failure for job ${job.id}:`, failError);
+      return null;
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Drain the queue until it is empty or `budgetMs` has passed. Jobs already
+ * running when the budget runs out are finished; anything cut off by the
+ * platform time limit is reclaimed by the next worker once its lease expires.
+ */
+export async function drainSyncQueue(options: { budgetMs: number; capacity?: number }): Promise<DrainResult> {
+  const startTime = Date.now();
+  const deadline = startTime + options.budgetMs;
+  const capacity = options.capacity ?? WORKER_CAPACITY;
+  const workerId = `worker-${randomUUID()}`;
+
+  const result: DrainResult = {
+    worker_id: workerId,
+    reclaimed: await reclaimExpiredLeases(),
+    leased: 0,
+    succeeded: 0,
+    retried: 0,
+    dead: 0,
+    duration_ms: 0,
+  };
+
+  const inFlight = new Set<Promise<void>>();
+
+  while (true) {
+    if (Date.now() < deadline && inFlight.size < capacity) {
+      let jobs: SyncJob[];
+      try {
+        jobs = await leaseSyncJobs(workerId, capacity - inFlight.size);
+      } catch (error) {
+        // Let running syncs record their outcome before the drain fails
+        await Promise.allSettled(inFlight);
+        throw error;
+      }
+      result.leased += jobs.length;
+
+      for (const job of jobs) {
+        const run: Promise<void> = runSyncJob(job, workerId).then((outcome) => {
+          if (outcome === 'succeeded') result.succeeded++;
+          else if (outcome === 'queued') result.retried++;
+          else if (outcome === 'dead') result.dead++;
+          inFlight.delete(run);
+        });
+        inFlight.add(run);
+      }
+    }
+
+    if (inFlight.size === 0) break;
+    await Promise.race(inFlight);
+  }
+
+  result.duration_ms = Date.now() - startTime;
+  return result;
+}
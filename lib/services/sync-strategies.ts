@@ -0,0 +1,279 @@
+/**
+ * Sync Strategies
+ *
+ * Each banking provider registers a strategy telling the sync orchestrator how
+ * to store its raw responses, normalize them, and which observers to notify as
+ * the pipeline runs. Providers without a strategy use the direct bank one.
+ *
+ * Adding a provider means registering a strategy here, not editing the
+ * orchestrator.
+ */
+
+import type { ProviderAccount, ProviderTransaction } from '@/lib/banking-providers/base-provider';
+import type {
+  ConnectionCredentials,
+  RawAccountsResponse,
+  RawTransactionsResponse,
+} from '@/lib/banking-providers/raw-types';
+import { rawStorageService } from './raw-storage-service';
+import { normalizationService } from './normalization-service';
+import { syncHistoricalBalances } from './account-service';
+import { syncPlaidHoldings } from './investment-service';
+import {
+  startSyncTracking,
+  updateSyncMetrics,
+  completeSyncTracking,
+} from './xero-observability-service';
+
+// =====================================================
+// Types
+// =====================================================
+
+// Pipeline steps, in the order the orchestrator runs them. Transaction fetch
+// and store steps run once per account.
+export type SyncStep =
+  | 'fetch_raw_accounts'
+  | 'store_raw_accounts'
+  | 'normalize_accounts'
+  | 'save_accounts'
+  | 'sync_historical_balances'
+  | 'fetch_raw_transactions'
+  | 'store_raw_transactions'
+  | 'normalize_transactions'
+  | 'save_transactions'
+  | 'sync_supplementary_data';
+
+export interface SyncContext {
+  providerId: string;
+  connectionId: string;
+  tenantId: string;
+  credentials: ConnectionCredentials;
+}
+
+export interface SyncStepCounts {
+  count?: number;
+  created?: number;
+  updated?: number;
+}
+
+export interface SyncStepEvent extends SyncStepCounts {
+  step: SyncStep;
+  accountId?: string;
+  durationMs: number;
+  error?: string;
+}
+
+export interface SyncOutcome {
+  status: 'completed' | 'partial' | 'failed';
+  accountsSynced: number;
+  transactionsSynced: number;
+  errors: string[];
+  durationMs: number;
+}
+
+/**
+ * Per-run hooks. Hook failures are logged and never fail the sync.
+ */
+export interface SyncHooks {
+  onStart?(): Promise<void>;
+  beforeStep?(step: SyncStep, detail: { accountId?: string }): Promise<void>;
+  afterStep?(event: SyncStepEvent): Promise<void>;
+  onComplete?(outcome: SyncOutcome): Promise<void>;
+}
+
+// Creates the hooks for one run, so observers can keep per-run state
+export type SyncObserver = (context: SyncContext) => SyncHooks;
+
+export interface ProviderSyncStrategy {
+  providerId: string;
+  storeRawAccounts(response: RawAccountsResponse): Promise<void>;
+  storeRawTransactions(response: RawTransactionsResponse): Promise<void>;
+  // Normalize the stored raw data, or the fetched responses when given (dry runs store nothing)
+  normalizeAccounts(context: SyncContext, fetched?: RawAccountsResponse): Promise<ProviderAccount[]>;
+  normalizeTransactions(context: SyncContext, fetched?: RawTransactionsResponse[]): Promise<ProviderTransaction[]>;
+  // Cursor for incremental transaction fetches, for providers that page by cursor
+  getTransactionCursor?(context: SyncContext): Promise<string | undefined>;
+  // Runs after accounts are saved; returns the number of statements written
+  syncHistoricalBalances?(context: SyncContext): Promise<number>;
+  // Runs after transactions, when accounts were synced; returns the number of records written
+  syncSupplementaryData?(context: SyncContext): Promise<number>;
+  // Provider-specific observers, notified alongside the generic sync run tracking
+  observers?: SyncObserver[];
+}
+
+// =====================================================
+// Observers
+// =====================================================
+
+/**
+ * Keeps xero_sync_metrics, which the Xero observability dashboard reads
+ */
+const xeroMetricsObserver: SyncObserver = ({ connectionId, tenantId }) => {
+  let syncId: string | null = null;
+  let transactionsFetched = 0;
+  const errors: string[] = [];
+
+  return {
+    async onStart() {
+      syncId = await startSyncTracking(connectionId, tenantId);
+      console.log(`[SyncStrategies] Started Xero sync tracking: ${syncId}`);
+    },
+
+    async afterStep(event) {
+      if (!syncId) return;
+
+      if (event.error) {
+        // Per-account fetch failures are skipped by the orchestrator, not sync errors
+        if (event.accountId) return;
+        errors.push(event.error);
+        await updateSyncMetrics(syncId, { errors });
+        return;
+      }
+
+      if (event.step === 'fetch_raw_accounts') {
+        await updateSyncMetrics(syncId, { accountsFetched: event.count });
+      } else if (event.step === 'save_accounts') {
+        await updateSyncMetrics(syncId, { accountsCreated: event.created, accountsUpdated: event.updated });
+      } else if (event.step === 'fetch_raw_transactions') {
+        transactionsFetched += event.count || 0;
+        await updateSyncMetrics(syncId, { transactionsFetched });
+      } else if (event.step === 'save_transactions') {
+        await updateSyncMetrics(syncId, {
+          transactionsCreated: event.created,
+          transactionsUpdated: event.updated,
+        });
+      }
+    },
+
+    async onComplete(outcome) {
+      if (!syncId) return;
+      await completeSyncTracking(syncId, outcome.status, {
+        accountsFetched: outcome.accountsSynced,
+        transactionsFetched: outcome.transactionsSynced,
+        errors: outcome.errors,
+      });
+    },
+  };
+};
+
+// =====================================================
+// Strategies
+// =====================================================
+
+// Raw rows for fetched responses, or undefined to normalize the stored rows
+function fetchedAccountRows(providerId: string, fetched?: RawAccountsResponse) {
+  return fetched && rawStorageService.rawAccountRows(providerId, fetched);
+}
+
+function fetchedTransactionRows(providerId: string, fetched?: RawTransactionsResponse[]) {
+  return fetched && fetched.flatMap((response) => rawStorageService.rawTransactionRows(providerId, response));
+}
+
+const plaidStrategy: ProviderSyncStrategy = {
+  providerId: 'plaid',
+  storeRawAccounts: (response) => rawStorageService.storePlaidAccounts(response),
+  storeRawTransactions: (response) => rawStorageService.storePlaidTransactions(response),
+  normalizeAccounts: ({ connectionId, tenantId }, fetched) =>
+    normalizationService.normalizePlaidAccounts(connectionId, tenantId, fetchedAccountRows('plaid', fetched)),
+  normalizeTransactions: ({ connectionId }, fetched) =>
+    normalizationService.normalizePlaidTransactions(connectionId, fetchedTransactionRows('plaid', fetched)),
+  getTransactionCursor: ({ connectionId }) => rawStorageService.getPlaidCursor(connectionId),
+  // Plaid investment accounts also carry holdings (funds, deposits, securities)
+  async syncSupplementaryData({ connectionId, tenantId, credentials }) {
+    const holdings = await syncPlaidHoldings(tenantId, null, { connectionId, credentials });
+    holdings.errors.forEach((error) => console.warn('[SyncStrategies] Investment holdings not synced:', error));
+    return holdings.holdings;
+  },
+};
+
+const tinkStrategy: ProviderSyncStrategy = {
+  providerId: 'tink',
+  storeRawAccounts: (response) => rawStorageService.storeTinkAccounts(response),
+  storeRawTransactions: (response) => rawStorageService.storeTinkTransactions(response),
+  normalizeAccounts: ({ connectionId, tenantId }, fetched) =>
+    normalizationService.normalizeTinkAccounts(connectionId, tenantId, fetchedAccountRows('tink', fetched)),
+  normalizeTransactions: ({ connectionId }, fetched) =>
+    normalizationService.normalizeTinkTransactions(connectionId, fetchedTransactionRows('tink', fetched)),
+};
+
+const xeroStrategy: ProviderSyncStrategy = {
+  providerId: 'xero',
+  storeRawAccounts: (response) => rawStorageService.storeXeroAccounts(response),
+  storeRawTransactions: (response) => rawStorageService.storeXeroTransactions(response),
+  normalizeAccounts: ({ connectionId, tenantId }, fetched) =>
+    normalizationService.normalizeXeroAccounts(
+      connectionId,
+      tenantId,
+      fetchedAccountRows('xero', fetched),
+      fetched && rawStorageService.xeroBalanceRows(fetched)
+    ),
+  normalizeTransactions: ({ connectionId }, fetched) =>
+    normalizationService.normalizeXeroTransactions(connectionId, fetchedTransactionRows('xero', fetched)),
+  syncHistoricalBalances: ({ connectionId, tenantId, providerId }) =>
+    syncHistoricalBalances(tenantId, connectionId, providerId),
+  observers: [xeroMetricsObserver],
+};
+
+/**
+ * Direct bank providers share generic raw storage and normalization keyed by provider id
+ */
+export function directBankStrategy(providerId: string): ProviderSyncStrategy {
+  return {
+    providerId,
+    storeRawAccounts: (response) => rawStorageService.storeDirectBankAccounts(response, providerId),
+    storeRawTransactions: (response) => rawStorageService.storeDirectBankTransactions(response, providerId),
+    normalizeAccounts: ({ connectionId }, fetched) =>
+      normalizationService.normalizeDirectBankAccounts(connectionId, providerId, fetchedAccountRows(providerId, fetched)),
+    normalizeTransactions: ({ connectionId }, fetched) =>
+      normalizationService.normalizeDirectBankTransactions(
+        connectionId,
+        providerId,
+        fetchedTransactionRows(providerId, fetched)
+      ),
+  };
+}
+
+// =====================================================
+// Registry
+// =====================================================
+
+/**
+ * Registry of sync strategies by provider id
+ */
+class SyncStrategyRegistry {
+  private strategies: Map<string, ProviderSyncStrategy> = new Map();
+
+  constructor() {
+    this.register(plaidStrategy);
+    this.register(tinkStrategy);
+    this.register(xeroStrategy);
+  }
+
+  /**
+   * Register a provider's strategy, replacing any registered before
+   */
+  register(strategy: ProviderSyncStrategy): void {
+    this.strategies.set(strategy.providerId, strategy);
+  }
+
+  /**
+   * Get a provider's strategy, falling back to the direct bank one
+   */
+  get(providerId: string): ProviderSyncStrategy {
+    return this.strategies.get(providerId) || directBankStrategy(providerId);
+  }
+
+  has(providerId: string): boolean {
+    return this.strategies.has(providerId);
+  }
+}
+
+export const syncStrategyRegistry = new SyncStrategyRegistry();
+
+export function getSyncStrategy(providerId: string): ProviderSyncStrategy {
+  return syncStrategyRegistry.get(providerId);
+}
+
+export function registerSyncStrategy(strategy: ProviderSyncStrategy): void {
+  syncStrategyRegistry.register(strategy);
+}
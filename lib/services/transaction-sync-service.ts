@@ -4,6 +4,8 @@
  */
 
 import { supabase } from '../supabase';
+import { normalizerVersion } from '../sync/replay';
+import { ASSIGNED_CATEGORY_SOURCES } from '../categorization/rules-engine';
 
 export interface SyncDateRange {
   startDate: Date;
@@ -271,6 +273,23 @@ export function formatSyncMetrics(metrics: SyncMetrics): string {
   return `📊 Sync: ${days} days, ~${calls} API call(s), reason: ${reason} ${optimization}`;
 }
 
+/**
+ * Categories and counterparty names assigned by rules, AI or reviewers on
+ * already-saved transactions, which a sync must not reset to the provider's
+ */
+async function findAssignedCategories(
+  transactionIds: string[]
+): Promise<Map<string, { category: string; counterparty_name: string | null }>> {
+  const { data, error } = await supabase
+    .from('transactions')
+    .select('transaction_id, category, counterparty_name')
+    .in('transaction_id', transactionIds)
+    .in('category_source', [...ASSIGNED_CATEGORY_SOURCES]);
+
+  if (error) throw error;
+  return new Map((data || []).map((row) => [row.transaction_id, row]));
+}
+
 /**
  * Batch create or update transactions with upsert logic
  * Handles large volumes of transactions efficiently
@@ -293,7 +312,7 @@ export async function batchCreateOrUpdateTransactions(
     category?: string;
     metadata?: Record<string, any>;
   }>,
-  userId: string
+  userId: string | null
 ): Promise<{
   summary: {
     total: number;
@@ -325,30 +344,37 @@ export async function batchCreateOrUpdateTransactions(
     const batch = transactions.slice(i, i + BATCH_SIZE);
 
     try {
+      const assigned = await findAssignedCategories(batch.map((tx) => tx.externalTransactionId));
+
       // Prepare batch data for upsert
-      const batchData = batch.map((tx) => ({
-        tenant_id: tenantId,
-        connection_id: connectionId,
-        provider_id: providerId,
-        transaction_id: tx.externalTransactionId,
-        account_id: tx.accountId,
-        date: tx.date.toISOString().split('T')[0], // Store as date string
-        amount: tx.amount,
-        currency: tx.currency,
-        description: tx.description,
-        type: tx.type,
-        counterparty_name: tx.counterpartyName,
-        counterparty_account: tx.counterpartyAccount,
-        reference: tx.reference,
-        category: (() => {
-          const finalCategory = tx.category || 'Uncategorized';
-          console.log(`[TransactionSync] Transaction ${tx.externalTransactionId}: final category =`, finalCategory);
-          return finalCategory;
-        })(),
-        metadata: tx.metadata || {},
-        created_by: userId,
-        updated_at: new Date().toISOString(),
-      }));
+      const batchData = batch.map((tx) => {
+        // Rule, AI and reviewer categories outlive the provider's, along with their counterparty names
+        const kept = assigned.get(tx.externalTransactionId);
+        const finalCategory = kept ? kept.category : tx.category || 'Uncategorized';
+        console.log(`[TransactionSync] Transaction ${tx.externalTransactionId}: final category =`, finalCategory);
+
+        return {
+          tenant_id: tenantId,
+          connection_id: connectionId,
+          provider_id: providerId,
+          transaction_id: tx.externalTransactionId,
+          account_id: tx.accountId,
+          date: tx.date.toISOString().split('T')[0], // Store as date string
+          amount: tx.amount,
+          currency: tx.currency,
+          description: tx.description,
+          type: tx.type,
+          counterparty_name: kept ? kept.counterparty_name : tx.counterpartyName,
+          counterparty_account: tx.counterpartyAccount,
+          reference: tx.reference,
+          category: finalCategory,
+          provider_category: tx.category || null,
+          metadata: tx.metadata || {},
+          normalizer_version: normalizerVersion(providerId),
+          created_by: userId,
+          updated_at: new Date().toISOString(),
+        };
+      });
 
       // Use upsert to handle both create and update
       // Since transaction_id is the primary key (globally unique), use it for conflict resolution
@@ -387,7 +413,9 @@ export async function batchCreateOrUpdateTransactions(
                 counterparty_account: txData.counterparty_account,
                 reference: txData.reference,
                 category: txData.category,
+                provider_category: txData.provider_category,
                 metadata: txData.metadata,
+                normalizer_version: txData.normalizer_version,
                 created_by: txData.created_by,
                 updated_at: txData.updated_at,
               })
@@ -0,0 +1,390 @@
+/**
+ * Treasury Query Service
+ * Answers natural-language treasury questions: the model turns the question
+ * into a whitelisted query plan, which is executed here with tenant scoping
+ * enforced server-side. No model-generated SQL ever reaches the database.
+ */
+
+import { supabase } from '../supabase';
+import { errors } from '../security/error-handler';
+import { GeminiService } from './gemini-service';
+import { buildPlannerPrompt, plannerSchema, validatePlan } from '../treasury-query/planner';
+import { aggregateRecords, buildChartSpec, summarizeAnswer } from '../treasury-query/results';
+import { chunk, getSignedAmount, shiftDate } from '../utils';
+import type {
+  QueryRecord,
+  TreasuryAnswer,
+  TreasuryQueryContext,
+  TreasuryQueryPlan,
+} from '../types/treasury-query';
+
+const MIN_QUESTION_LENGTH = 3;
+const MAX_QUESTION_LENGTH = 500;
+
+const PAGE_SIZE = 1000;
+const MAX_TRANSACTION_ROWS = 10000;
+
+// Statements older than this before the as-of date are not treated as its balance
+const STATEMENT_LOOKBACK_DAYS = 45;
+const DEFAULT_FX_RANGE_DAYS = 30;
+
+export interface TreasuryQueryPlanner {
+  plan(question: string, context: TreasuryQueryContext): Promise<unknown>;
+}
+
+interface ScopeAccount {
+  id: string;
+  account_id: string;
+  account_name: string;
+  currency?: string | null;
+  entity_id?: string | null;
+  bank_name?: string | null;
+  current_balance?: number | null;
+}
+
+function defaultPlanner(): TreasuryQueryPlanner {
+  let service: GeminiService;
+  try {
+    service = GeminiService.getInstance();
+  } catch (error) {
+    throw errors.badRequest(
+      error instanceof Error ? error.message : 'Gemini is not configured',
+      'Treasury questions are not configured for this environment'
+    );
+  }
+
+  return {
+    plan: (question, context) => service.generateJson(buildPlannerPrompt(question, context), plannerSchema()),
+  };
+}
+
+// =====================================================
+// Context
+// =====================================================
+
+async function loadContext(
+  tenantId: string
+): Promise<{ context: TreasuryQueryContext; accounts: ScopeAccount[]; entityNames: Map<string, string> }> {
+  const [accountsResult, entitiesResult, categoriesResult] = await Promise.all([
+    supabase
+      .from('accounts')
+      .select('id, account_id, account_name, currency, entity_id, bank_name, current_balance')
+      .eq('tenant_id', tenantId),
+    supabase.from('entities').select('entity_id, entity_name, jurisdiction').eq('tenant_id', tenantId),
+    supabase.from('transaction_categories').select('category_code').eq('is_active', true),
+  ]);
+
+  if (accountsResult.error) throw accountsResult.error;
+  if (entitiesResult.error) throw entitiesResult.error;
+  if (categoriesResult.error) throw categoriesResult.error;
+
+  const accounts = (accountsResult.data || []) as ScopeAccount[];
+  const entities = entitiesResult.data || [];
+
+  return {
+    accounts,
+    entityNames: new Map(entities.map((entity) => [entity.entity_id, entity.entity_name])),
+    context: {
+      today: new Date().toISOString().split('T')[0],
+      entities,
+      accounts: accounts.map((account) => ({
+        account_id: account.account_id,
+        account_name: account.account_name,
+        currency: account.currency,
+        entity_id: account.entity_id,
+        bank_name: account.bank_name,
+      })),
+      currencies: Array.from(new Set(accounts.map((account) => account.currency).filter(Boolean) as string[])).sort(),
+      categories: (categoriesResult.data || []).map((category) => category.category_code),
+    },
+  };
+}
+
+function scopeAccounts(accounts: ScopeAccount[], plan: TreasuryQueryPlan): ScopeAccount[] {
+  const { accountIds, entityIds, currencies } = plan.filters;
+  return accounts.filter(
+    (account) =>
+      (accountIds.length === 0 || accountIds.includes(account.account_id)) &&
+      (entityIds.length === 0 || (!!account.entity_id && entityIds.includes(account.entity_id))) &&
+      (currencies.length === 0 || currencies.includes((account.currency || '').toUpperCase()))
+  );
+}
+
+function accountRecord(account: ScopeAccount, entityNames: Map<string, string>): Omit<QueryRecord, 'value'> {
+  return {
+    currency: account.currency,
+    account_id: account.account_id,
+    account_name: account.account_name,
+    entity_id: account.entity_id,
+    entity_name: account.entity_id ? entityNames.get(account.entity_id) || account.entity_id : null,
+    bank_name: account.bank_name,
+  };
+}
+
+// =====================================================
+// Datasets
+// All reads are scoped to the tenant here, whatever the plan says
+// =====================================================
+
+async function fetchBalances(
+  tenantId: string,
+  plan: TreasuryQueryPlan,
+  accounts: ScopeAccount[],
+  entityNames: Map<string, string>,
+  warnings: string[]
+): Promise<QueryRecord[]> {
+  const asOf = plan.filters.asOfDate;
+  if (plan.dataset === 'accounts' || !asOf) {
+    return accounts.map((account) => ({
+      ...accountRecord(account, entityNames),
+      value: Number(account.current_balance) || 0,
+    }));
+  }
+
+  const byId = new Map(accounts.map((account) => [account.id, account]));
+  const latest = new Map<string, { statement_date: string; ending_balance: number; currency: string }>();
+
+  for (const ids of chunk(Array.from(byId.keys()))) {
+    const { data, error } = await supabase
+      .from('account_statements')
+      .select('account_id, statement_date, ending_balance, currency')
+      .eq('tenant_id', tenantId)
+      .in('account_id', ids)
+      .lte('statement_date', asOf)
+      .gte('statement_date', shiftDate(asOf, -STATEMENT_LOOKBACK_DAYS))
+      .order('statement_date', { ascending: false });
+
+    if (error) throw error;
+    for (const row of data || []) {
+      if (!latest.has(row.account_id)) latest.set(row.account_id, row);
+    }
+  }
+
+  const missing = accounts.filter((account) => !latest.has(account.id));
+  if (missing.length > 0) {
+    warnings.push(
+      `No statement within ${STATEMENT_LOOKBACK_DAYS} days before ${asOf} for ${missing.length} account(s): ` +
+        missing
+          .slice(0, 5)
+          .map((account) => account.account_name)
+          .join(', ')
+    );
+  }
+
+  return Array.from(latest.entries()).map(([id, statement]) => ({
+    ...accountRecord(byId.get(id)!, entityNames),
+    date: statement.statement_date,
+    currency: statement.currency,
+    value: Number(statement.ending_balance),
+  }));
+}
+
+async function fetchTransactions(
+  tenantId: string,
+  plan: TreasuryQueryPlan,
+  scoped: ScopeAccount[],
+  scope: { accounts: ScopeAccount[]; entityNames: Map<string, string> },
+  warnings: string[]
+): Promise<QueryRecord[]> {
+  const { filters } = plan;
+  const narrowed = filters.accountIds.length > 0 || filters.entityIds.length > 0;
+  const scopedIds = scoped.map((account) => account.account_id);
+  const byAccountId = new Map(scope.accounts.map((account) => [account.account_id, account]));
+  const records: QueryRecord[] = [];
+
+  for (let offset = 0; offset < MAX_TRANSACTION_ROWS; offset += PAGE_SIZE) {
+    let query = supabase
+      .from('transactions')
+      .select('transaction_id, account_id, date, amount, type, currency, category, description')
+      .eq('tenant_id', tenantId)
+      .order('date', { ascending: false })
+      .order('transaction_id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (narrowed) query = query.in('account_id', scopedIds);
+    if (filters.currencies.length > 0) query = query.in('currency', filters.currencies);
+    if (filters.categories.length > 0) query = query.in('category', filters.categories);
+    if (filters.startDate) query = query.gte('date', filters.startDate);
+    if (filters.endDate) query = query.lte('date', filters.endDate);
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    for (const tx of data || []) {
+      const value = getSignedAmount(tx.amount, tx.type);
+      if (filters.direction === 'credit' && value < 0) continue;
+      if (filters.direction === 'debit' && value >= 0) continue;
+
+      const account = byAccountId.get(tx.account_id);
+      records.push({
+        ...(account ? accountRecord(account, scope.entityNames) : { account_id: tx.account_id }),
+        date: tx.date,
+        currency: tx.currency,
+        category: tx.category,
+        description: tx.description,
+        value,
+      });
+    }
+
+    if ((data || []).length < PAGE_SIZE) return records;
+  }
+
+  warnings.push(
+    `Only the latest ${MAX_TRANSACTION_ROWS} transactions were included; narrow the dates for a complete answer`
+  );
+  return records;
+}
+
+/**
+ * Daily rates for the pair, triangulated through the USD-based rows
+ */
+async function fetchFxRates(plan: TreasuryQueryPlan): Promise<QueryRecord[]> {
+  const from = plan.filters.fxFrom!;
+  const to = plan.filters.fxTo!;
+  const endDate = plan.filters.endDate || new Date().toISOString().split('T')[0];
+  const startDate = plan.filters.startDate || shiftDate(endDate, -DEFAULT_FX_RANGE_DAYS);
+
+  const { data, error } = await supabase
+    .from('fx_rates')
+    .select('currency_to, date, rate')
+    .is('tenant_id', null)
+    .eq('currency_from', 'USD')
+    .eq('rate_type', 'SPOT')
+    .in('currency_to', Array.from(new Set([from, to])))
+    .gte('date', startDate)
+    .lte('date', endDate)
+    .order('date', { ascending: true });
+
+  if (error) throw error;
+
+  const byDate = new Map<string, Record<string, number>>();
+  for (const row of data || []) {
+    const rates = byDate.get(row.date) || { USD: 1 };
+    rates[row.currency_to] = Number(row.rate);
+    byDate.set(row.date, rates);
+  }
+
+  const records: QueryRecord[] = [];
+  for (const [date, rates] of Array.from(byDate.entries())) {
+    if (rates[from] && rates[to]) records.push({ date, value: rates[to] / rates[from] });
+  }
+  return records;
+}
+
+// =====================================================
+// Reporting currency
+// =====================================================
+
+async function usdRate(currency: string, date: string): Promise<number | null> {
+  if (currency === 'USD') return 1;
+  const { data } = await supabase.rpc('get_fx_rate', {
+    p_currency_from: 'USD',
+    p_currency_to: currency,
+    p_date: date,
+    p_rate_type: 'SPOT',
+  });
+  return data != null ? Number(data) : null;
+}
+
+/**
+ * Convert records into the reporting currency at one rate date (the as-of
+ * or end date), dropping any currency without a rate
+ */
+async function convertRecords(
+  records: QueryRecord[],
+  plan: TreasuryQueryPlan,
+  warnings: string[]
+): Promise<QueryRecord[]> {
+  const target = plan.reportingCurrency!;
+  const rateDate = plan.filters.asOfDate || plan.filters.endDate || new Date().toISOString().split('T')[0];
+  const targetRate = await usdRate(target, rateDate);
+
+  if (!targetRate) {
+    warnings.push(`No ${target} rate on or before ${rateDate}; amounts are shown in their own currencies`);
+    return records;
+  }
+
+  const currencies = Array.from(new Set(records.map((record) => (record.currency || '').toUpperCase())));
+  const factors = new Map<string, number | null>();
+  for (const currency of currencies) {
+    const rate = currency ? await usdRate(currency, rateDate) : null;
+    factors.set(currency, rate ? targetRate / rate : null);
+  }
+
+  const unconvertible = currencies.filter((currency) => !factors.get(currency));
+  if (unconvertible.length > 0) {
+    warnings.push(`Excluded amounts with no ${target} rate: ${unconvertible.map((c) => c || 'unknown').join(', ')}`);
+  }
+  if (currencies.length > 1 || currencies[0] !== target) {
+    warnings.push(`Converted to ${target} at rates as of ${rateDate}`);
+  }
+
+  return records.flatMap((record) => {
+    const factor = factors.get((record.currency || '').toUpperCase());
+    return factor ? [{ ...record, value: record.value * factor, currency: target }] : [];
+  });
+}
+
+// =====================================================
+// Questions
+// =====================================================
+
+async function executePlan(
+  tenantId: string,
+  plan: TreasuryQueryPlan,
+  scope: { accounts: ScopeAccount[]; entityNames: Map<string, string> },
+  warnings: string[] = []
+): Promise<QueryRecord[]> {
+  if (plan.dataset === 'fx_rates') return fetchFxRates(plan);
+
+  const accounts = scopeAccounts(scope.accounts, plan);
+  const narrowed = plan.filters.entityIds.length > 0 || plan.filters.accountIds.length > 0;
+  if (accounts.length === 0 && (plan.dataset !== 'transactions' || narrowed)) return [];
+
+  const records =
+    plan.dataset === 'transactions'
+      ? await fetchTransactions(tenantId, plan, accounts, scope, warnings)
+      : await fetchBalances(tenantId, plan, accounts, scope.entityNames, warnings);
+
+  return plan.reportingCurrency ? convertRecords(records, plan, warnings) : records;
+}
+
+export async function askTreasuryQuestion(
+  tenantId: string,
+  question: string,
+  planner?: TreasuryQueryPlanner
+): Promise<TreasuryAnswer> {
+  const trimmed = (question || '').trim();
+  if (trimmed.length < MIN_QUESTION_LENGTH || trimmed.length > MAX_QUESTION_LENGTH) {
+    throw errors.badRequest(
+      'Invalid question length',
+      `Questions must be between ${MIN_QUESTION_LENGTH} and ${MAX_QUESTION_LENGTH} characters`
+    );
+  }
+
+  const { context, accounts, entityNames } = await loadContext(tenantId);
+  const raw = await (planner || defaultPlanner()).plan(trimmed, context);
+
+  const { plan, problems, warnings } = validatePlan(raw, context);
+  if (!plan) {
+    throw errors.badRequest(
+      `Invalid query plan: ${problems.join('; ')}`,
+      `That question can't be answered: ${problems.join('. ')}`
+    );
+  }
+
+  const records = await executePlan(tenantId, plan, { accounts, entityNames }, warnings);
+  const rows = aggregateRecords(records, plan);
+
+  return {
+    question: trimmed,
+    answer: summarizeAnswer(plan, rows, records.length),
+    plan,
+    rows,
+    records: records.slice(0, plan.limit),
+    record_count: records.length,
+    truncated: records.length > plan.limit,
+    chart: buildChartSpec(plan, rows),
+    warnings,
+  };
+}
@@ -0,0 +1,358 @@
+/**
+ * Webhook Service
+ * Ingests provider webhooks received on /api/banking/[provider]/webhook:
+ * verifies the provider's signature, stores each event once in
+ * webhook_events, resolves the connection it concerns and routes it to a
+ * targeted sync on the sync job queue or a connection status change
+ */
+
+import type { JsonWebKey } from 'crypto';
+import { supabase } from '@/lib/supabase';
+import { plaidClient } from '@/lib/plaid';
+import { errors } from '@/lib/security/error-handler';
+import {
+  verifyPlaidWebhook,
+  verifyTinkWebhook,
+  webhookIdempotencyKey,
+  WEBHOOK_DEDUP_WINDOW_SECONDS,
+} from '@/lib/webhooks/signatures';
+import { isWebhookEventStale, parsePlaidWebhook, parseTinkWebhook } from '@/lib/webhooks/events';
+import { enqueueSyncJob } from './sync-queue-service';
+import type {
+  ParsedWebhookEvent,
+  WebhookEventRecord,
+  WebhookIngestResult,
+  WebhookOutcome,
+  WebhookVerification,
+} from '@/lib/types/webhook';
+
+// =====================================================
+// Configuration
+// =====================================================
+
+// Between admin "sync now" (100) and scheduled syncs (50)
+const WEBHOOK_SYNC_PRIORITY = 75;
+
+// Plaid rotates signing keys rarely; refetch now and then to notice expired ones
+const PLAID_KEY_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+const UNIQUE_VIOLATION = '23505';
+
+// =====================================================
+// Provider Handlers
+// =====================================================
+
+export interface ProviderWebhookHandler {
+  providerId: string;
+  verify(rawBody: string, headers: Headers): Promise<WebhookVerification>;
+  parse(payload: any): ParsedWebhookEvent;
+}
+
+const plaidKeyCache = new Map<string, { key: JsonWebKey; fetchedAt: number }>();
+
+/**
+ * Plaid webhook signing key by key id, cached per process
+ */
+async function getPlaidVerificationKey(keyId: string): Promise<JsonWebKey | null> {
+  const cached = plaidKeyCache.get(keyId);
+  if (cached && Date.now() - cached.fetchedAt < PLAID_KEY_CACHE_TTL_MS) return cached.key;
+
+  try {
+    const response = await plaidClient.webhookVerificationKeyGet({ key_id: keyId });
+    const { kty, crv, x, y, expired_at } = response.data.key;
+    if (expired_at) {
+      plaidKeyCache.delete(keyId);
+      return null;
+    }
+
+    const key: JsonWebKey = { kty, crv, x, y };
+    plaidKeyCache.set(keyId, { key, fetchedAt: Date.now() });
+    return key;
+  } catch (error) {
+    console.error(`[Webhooks] Failed to fetch Plaid verification key ${keyId}:`, error);
+    return null;
+  }
+}
+
+const plaidWebhookHandler: ProviderWebhookHandler = {
+  providerId: 'plaid',
+  verify: (rawBody, headers) =>
+    verifyPlaidWebhook(rawBody, headers.get('plaid-verification'), getPlaidVerificationKey),
+  parse: parsePlaidWebhook,
+};
+
+const tinkWebhookHandler: ProviderWebhookHandler = {
+  providerId: 'tink',
+  async verify(rawBody, headers) {
+    const secret = process.env.TINK_WEBHOOK_SECRET;
+    if (!secret) {
+      console.error('[Webhooks] TINK_WEBHOOK_SECRET not configured');
+      return { valid: false, reason: 'Webhook secret not configured' };
+    }
+    return verifyTinkWebhook(rawBody, headers.get('x-tink-signature'), secret);
+  },
+  parse: parseTinkWebhook,
+};
+
+const webhookHandlers = new Map<string, ProviderWebhookHandler>();
+
+/**
+ * Register a provider's webhook handler, replacing any registered before
+ */
+export function registerWebhookHandler(handler: ProviderWebhookHandler): void {
+  webhookHandlers.set(handler.providerId, handler);
+}
+
+export function getWebhookHandler(providerId: string): ProviderWebhookHandler | undefined {
+  return webhookHandlers.get(providerId);
+}
+
+registerWebhookHandler(plaidWebhookHandler);
+registerWebhookHandler(tinkWebhookHandler);
+
+// =====================================================
+// Routing
+// =====================================================
+
+interface WebhookConnection {
+  connection_id: string;
+  tenant_id: string;
+}
+
+/**
+ * The connection whose token was issued for the provider user (Plaid item,
+ * Tink user) the event is about
+ */
+async function resolveConnection(providerId: string, providerUserId: string | null): Promise<WebhookConnection | null> {
+  if (!providerUserId) return null;
+
+  const { data, error } = await supabase
+    .from('provider_tokens')
+    .select('connection_id, tenant_id')
+    .eq('provider_id', providerId)
+    .eq('provider_user_id', providerUserId)
+    .neq('status', 'revoked')
+    .order('updated_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as WebhookConnection | null;
+}
+
+/**
+ * When we last changed the connection's status from a webhook, and when the
+ * latest successful sync started, for discarding events that arrive late
+ */
+async function getLatestActivity(connectionId: string): Promise<{ statusChangedAt: Date | null; syncStartedAt: Date | null }> {
+  const [statusResult, syncResult] = await Promise.all([
+    supabase
+      .from('webhook_events')
+      .select('occurred_at')
+      .eq('connection_id', connectionId)
+      .eq('outcome', 'connection_updated')
+      .order('occurred_at', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    supabase
+      .from('sync_jobs')
+      .select('started_at')
+      .eq('connection_id', connectionId)
+      .eq('status', 'succeeded')
+      .order('started_at', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  if (statusResult.error) throw statusResult.error;
+  if (syncResult.error) throw syncResult.error;
+
+  return {
+    statusChangedAt: statusResult.data?.occurred_at ? new Date(statusResult.data.occurred_at) : null,
+    syncStartedAt: syncResult.data?.started_at ? new Date(syncResult.data.started_at) : null,
+  };
+}
+
+async function updateConnectionStatus(connectionId: string, updates: Record<string, unknown>): Promise<void> {
+  const { error } = await supabase
+    .from('connections')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', connectionId);
+
+  if (error) throw error;
+}
+
+async function queueWebhookSync(
+  providerId: string,
+  connection: WebhookConnection,
+  accountIds?: string[]
+): Promise<string> {
+  const { job } = await enqueueSyncJob({
+    tenantId: connection.tenant_id,
+    connectionId: connection.connection_id,
+    provider: providerId,
+    source: 'webhook',
+    priority: WEBHOOK_SYNC_PRIORITY,
+    options: accountIds ? { accountIds } : {},
+  });
+  return job.id;
+}
+
+/**
+ * Act on a stored event and record what was done with it
+ */
+async function routeWebhookEvent(
+  event: WebhookEventRecord,
+  parsed: ParsedWebhookEvent,
+  occurredAt: Date
+): Promise<WebhookIngestResult> {
+  const { action } = parsed;
+  let outcome: WebhookOutcome;
+  let connection: WebhookConnection | null = null;
+  let syncJobId: string | null = null;
+
+  if (action.type === 'ignore') {
+    outcome = 'ignored';
+  } else {
+    connection = await resolveConnection(event.provider, parsed.providerUserId);
+
+    if (!connection) {
+      outcome = 'unmatched';
+    } else if (isWebhookEventStale(action, occurredAt, await getLatestActivity(connection.connection_id))) {
+      outcome = 'stale';
+    } else if (action.type === 'sync') {
+      syncJobId = await queueWebhookSync(event.provider, connection, action.accountIds);
+      outcome = 'sync_queued';
+    } else if (action.type === 'reconnect_required') {
+      await updateConnectionStatus(connection.connection_id, {
+        status: 'error',
+        last_error: action.message,
+        last_error_at: new Date().toISOString(),
+      });
+      outcome = 'connection_updated';
+    } else {
+      await updateConnectionStatus(connection.connection_id, {
+        status: 'active',
+        last_error: null,
+        last_error_at: null,
+        consecutive_failures: 0,
+      });
+      // Catch up on whatever the provider couldn't fetch while disconnected
+      syncJobId = await queueWebhookSync(event.provider, connection);
+      outcome = 'connection_updated';
+    }
+  }
+
+  const { error } = await supabase
+    .from('webhook_events')
+    .update({
+      processed: true,
+      processed_at: new Date().toISOString(),
+      processing_error: action.type === 'ignore' ? action.reason : null,
+      outcome,
+      connection_id: connection?.connection_id || null,
+      tenant_id: connection?.tenant_id || null,
+      sync_job_id: syncJobId,
+    })
+    .eq('id', event.id);
+
+  if (error) throw error;
+
+  console.log(`[Webhooks] ${event.provider} ${parsed.eventType}: ${outcome}`, {
+    connectionId: connection?.connection_id,
+    syncJobId,
+  });
+
+  return {
+    eventId: event.id,
+    duplicate: false,
+    outcome,
+    connectionId: connection?.connection_id || null,
+    syncJobId,
+  };
+}
+
+// =====================================================
+// Ingestion
+// =====================================================
+
+/**
+ * Release a body hash key stored before the dedup window, so an identical
+ * body received now is stored as a new event
+ */
+async function releaseExpiredBodyKey(providerId: string, idempotencyKey: string): Promise<void> {
+  const cutoff = new Date(Date.now() - WEBHOOK_DEDUP_WINDOW_SECONDS * 1000).toISOString();
+
+  const { error } = await supabase
+    .from('webhook_events')
+    .update({ idempotency_key: null })
+    .eq('provider', providerId)
+    .eq('idempotency_key', idempotencyKey)
+    .lt('received_at', cutoff);
+
+  if (error) throw error;
+}
+
+/**
+ * Verify, store and route one webhook request. Redeliveries of an event
+ * already stored are acknowledged without acting on them again.
+ */
+export async function ingestWebhook(providerId: string, rawBody: string, headers: Headers): Promise<WebhookIngestResult> {
+  const handler = getWebhookHandler(providerId);
+  if (!handler) throw errors.notFound('Webhook provider');
+
+  const verification = await handler.verify(rawBody, headers);
+  if (!verification.valid) {
+    console.warn(`[Webhooks] Rejected ${providerId} webhook: ${verification.reason}`);
+    throw errors.unauthorized(`Invalid webhook signature: ${verification.reason}`);
+  }
+
+  let payload: any;
+  try {
+    payload = JSON.parse(rawBody);
+  } catch {
+    throw errors.badRequest('Invalid JSON payload');
+  }
+
+  const parsed = handler.parse(payload);
+
+  const idempotencyKey = webhookIdempotencyKey(rawBody, parsed.eventId);
+  if (!parsed.eventId) await releaseExpiredBodyKey(providerId, idempotencyKey);
+
+  const { data, error } = await supabase
+    .from('webhook_events')
+    .insert({
+      provider: providerId,
+      event_type: parsed.eventType,
+      event_category: parsed.eventCategory,
+      resource_id: parsed.resourceId,
+      payload,
+      raw_payload: rawBody,
+      idempotency_key: idempotencyKey,
+      occurred_at: verification.signedAt.toISOString(),
+      received_at: new Date().toISOString(),
+      processed: false,
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    if (error.code !== UNIQUE_VIOLATION) throw error;
+    console.log(`[Webhooks] Ignoring redelivered ${providerId} ${parsed.eventType}`);
+    return { eventId: null, duplicate: true, outcome: null, connectionId: null, syncJobId: null };
+  }
+
+  const event = data as WebhookEventRecord;
+
+  try {
+    return await routeWebhookEvent(event, parsed, verification.signedAt);
+  } catch (routingError) {
+    const message = routingError instanceof Error ? routingError.message : 'Unknown error';
+    // Release the idempotency key so the provider's retry is processed
+    await supabase
+      .from('webhook_events')
+      .update({ processing_error: message, idempotency_key: null })
+      .eq('id', event.id);
+    throw routingError;
+  }
+}
@@ -691,6 +691,8 @@ export async function importTransactions(transactions: Array<{
   currency?: string
   description: string
   transaction_type: string
+  category?: string
+  provider_category?: string
   connection_id: string
   external_transaction_id?: string
   source_type: string
@@ -768,6 +770,7 @@ export interface Account {
   account_type: string
   account_status?: string
   bank_name?: string
+  financial_institution_id?: string | null // financial_institutions dimension
   bank_identifier?: string
   branch_name?: string
   branch_code?: string
@@ -775,7 +778,8 @@ export interface Account {
   balance?: number // Shorthand for current_balance (backward compatibility)
   opening_date?: string
   closing_date?: string
-  interest_rate?: number
+  interest_rate?: number // Annual, as a fraction
+  day_count_convention?: 'ACT/360' | 'ACT/365' | '30/360' | null
   current_balance?: number
   available_balance?: number
   ledger_balance?: number
@@ -995,23 +999,3 @@ export async function deleteAccount(tenantId: string, accountId: string) {
     throw error
   }
 }
-
-// Get accounts summary with transaction counts and balances
-export async function getAccountsSummary(tenantId: string) {
-  try {
-    const { data, error } = await supabase
-      .from('accounts')
-      .select(`
-        *,
-        transactions:transactions(count)
-      `)
-      .eq('tenant_id', tenantId)
-      .order('account_name')
-
-    if (error) throw error
-    return data || []
-  } catch (error) {
-    console.error('Error fetching accounts summary:', error)
-    throw error
-  }
-}
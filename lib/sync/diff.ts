@@ -0,0 +1,196 @@
+// Sync dry-run diff
+// Compares normalized provider data with what is already saved, field by
+// field, using the same matching and the same fields the sync would write.
+// Transactions saved within the fetched date range that the provider no
+// longer returns are reported as missing; the sync itself never deletes them.
+
+import { toDateString } from '../utils';
+import type { ProviderAccount, ProviderTransaction } from '../banking-providers/base-provider';
+import type {
+  AccountDiffEntry,
+  FieldChange,
+  SyncDiff,
+  TransactionDiffEntry,
+} from '../types/sync-diff';
+
+// Entries listed per category; beyond this only the summary counts them
+export const MAX_DIFF_ENTRIES = 200;
+
+// Amounts within this of each other are unchanged
+const AMOUNT_TOLERANCE = 0.005;
+
+export interface SavedAccount {
+  account_id: string;
+  account_name: string | null;
+  current_balance: number | string | null;
+  account_status: string | null;
+  iban: string | null;
+  bic: string | null;
+  bank_name: string | null;
+}
+
+export interface SavedTransaction {
+  transaction_id: string;
+  account_id: string;
+  date: string;
+  amount: number | string;
+  currency: string;
+  description: string | null;
+  type: string | null;
+}
+
+function compareField(
+  changes: FieldChange[],
+  field: string,
+  before: string | number | null | undefined,
+  after: string | number | null | undefined
+): void {
+  if ((before ?? null) !== (after ?? null)) changes.push({ field, before: before ?? null, after: after ?? null });
+}
+
+function compareAmount(changes: FieldChange[], field: string, before: number | string | null, after: number): void {
+  const previous = before === null ? null : Number(before);
+  if (previous === null || Math.abs(previous - after) > AMOUNT_TOLERANCE) {
+    changes.push({ field, before: previous, after });
+  }
+}
+
+/**
+ * Changes saving a provider account would make to the account it matched.
+ * Optional provider fields only overwrite when the provider sends them.
+ */
+export function diffAccount(account: ProviderAccount, saved: SavedAccount | null): AccountDiffEntry {
+  const changes: FieldChange[] = [];
+
+  if (saved) {
+    compareAmount(changes, 'current_balance', saved.current_balance, account.balance);
+    compareField(changes, 'account_status', saved.account_status, account.status);
+    if (account.iban) compareField(changes, 'iban', saved.iban, account.iban);
+    if (account.bic) compareField(changes, 'bic', saved.bic, account.bic);
+    if (account.institutionName) compareField(changes, 'bank_name', saved.bank_name, account.institutionName);
+  }
+
+  return {
+    externalAccountId: account.externalAccountId,
+    accountName: saved?.account_name || account.accountName,
+    currency: account.currency,
+    accountId: saved?.account_id || null,
+    changes,
+  };
+}
+
+function fetchedEntry(transaction: ProviderTransaction, changes: FieldChange[] = []): TransactionDiffEntry {
+  return {
+    transactionId: transaction.externalTransactionId,
+    accountId: transaction.accountId,
+    date: toDateString(transaction.date),
+    amount: transaction.amount,
+    currency: transaction.currency,
+    description: transaction.description,
+    changes,
+  };
+}
+
+function savedEntry(saved: SavedTransaction): TransactionDiffEntry {
+  return {
+    transactionId: saved.transaction_id,
+    accountId: saved.account_id,
+    date: toDateString(saved.date),
+    amount: Number(saved.amount),
+    currency: saved.currency,
+    description: saved.description || '',
+    changes: [],
+  };
+}
+
+export function diffTransaction(transaction: ProviderTransaction, saved: SavedTransaction): FieldChange[] {
+  const changes: FieldChange[] = [];
+  compareAmount(changes, 'amount', saved.amount, transaction.amount);
+  compareField(changes, 'type', saved.type, transaction.type);
+  compareField(changes, 'date', toDateString(saved.date), toDateString(transaction.date));
+  compareField(changes, 'currency', saved.currency, transaction.currency);
+  compareField(changes, 'description', saved.description, transaction.description);
+  return changes;
+}
+
+/**
+ * Earliest and latest date among fetched transactions, the range in which a
+ * saved transaction the provider didn't return counts as missing
+ */
+export function transactionDateRange(transactions: ProviderTransaction[]): { from: string; to: string } | null {
+  if (transactions.length === 0) return null;
+
+  const dates = transactions.map((transaction) => toDateString(transaction.date)).sort();
+  return { from: dates[0], to: dates[dates.length - 1] };
+}
+
+/**
+ * Diff of a dry run. `savedById` holds saved transactions with the fetched
+ * ids; `savedInRange` holds the fetched accounts' saved transactions within
+ * transactionDateRange().
+ */
+export function buildSyncDiff(input: {
+  accounts: Array<{ account: ProviderAccount; saved: SavedAccount | null }>;
+  transactions: ProviderTransaction[];
+  savedById: Map<string, SavedTransaction>;
+  savedInRange: SavedTransaction[];
+  limit?: number;
+}): SyncDiff {
+  const limit = input.limit ?? MAX_DIFF_ENTRIES;
+
+  const accounts = { new: [] as AccountDiffEntry[], updated: [] as AccountDiffEntry[], unchanged: [] as AccountDiffEntry[] };
+  for (const { account, saved } of input.accounts) {
+    const entry = diffAccount(account, saved);
+    if (!saved) accounts.new.push(entry);
+    else if (entry.changes.length > 0) accounts.updated.push(entry);
+    else accounts.unchanged.push(entry);
+  }
+
+  const fetchedIds = new Set<string>();
+  const newTransactions: TransactionDiffEntry[] = [];
+  const changedTransactions: TransactionDiffEntry[] = [];
+  let unchangedTransactions = 0;
+
+  for (const transaction of input.transactions) {
+    fetchedIds.add(transaction.externalTransactionId);
+    const saved = input.savedById.get(transaction.externalTransactionId);
+
+    if (!saved) {
+      newTransactions.push(fetchedEntry(transaction));
+      continue;
+    }
+
+    const changes = diffTransaction(transaction, saved);
+    if (changes.length > 0) changedTransactions.push(fetchedEntry(transaction, changes));
+    else unchangedTransactions++;
+  }
+
+  const missingTransactions = input.savedInRange
+    .filter((saved) => !fetchedIds.has(saved.transaction_id))
+    .map(savedEntry);
+
+  const lists = [accounts.new, accounts.updated, accounts.unchanged, newTransactions, changedTransactions, missingTransactions];
+
+  return {
+    summary: {
+      accounts_new: accounts.new.length,
+      accounts_updated: accounts.updated.length,
+      accounts_unchanged: accounts.unchanged.length,
+      transactions_new: newTransactions.length,
+      transactions_changed: changedTransactions.length,
+      transactions_unchanged: unchangedTransactions,
+      transactions_missing: missingTransactions.length,
+    },
+    accounts: {
+      new: accounts.new.slice(0, limit),
+      updated: accounts.updated.slice(0, limit),
+      unchanged: accounts.unchanged.slice(0, limit),
+    },
+    transactions: {
+      new: newTransactions.slice(0, limit),
+      changed: changedTransactions.slice(0, limit),
+      missing: missingTransactions.slice(0, limit),
+    },
+    truncated: lists.some((list) => list.length > limit),
+  };
+}
@@ -0,0 +1,60 @@
+// Sync job queue
+// Retry backoff, dead-lettering and per-provider concurrency for the sync
+// worker. Providers rate limit per client, so each gets its own cap on syncs
+// running at once across all workers.
+
+import type { RetryDecision, SyncJob, SyncJobOptions } from '../types/sync-job';
+
+// Most syncs a single provider may have running at once, across all workers.
+// Passed to lease_sync_jobs, which counts running jobs and leases in one transaction.
+export const PROVIDER_CONCURRENCY: Record<string, number> = {
+  plaid: 4,
+  tink: 2,
+  xero: 2,
+};
+
+export const DEFAULT_PROVIDER_CONCURRENCY = 2;
+
+// First retry waits a minute, doubling each attempt up to an hour
+export const RETRY_BASE_SECONDS = 60;
+export const RETRY_MAX_SECONDS = 60 * 60;
+
+// Spread retries by up to this fraction so a provider outage doesn't retry in lockstep
+const RETRY_JITTER = 0.2;
+
+/**
+ * Seconds to wait before retrying a job that has failed `attempts` times
+ */
+export function retryDelaySeconds(attempts: number, random: () => number = Math.random): number {
+  const exponential = RETRY_BASE_SECONDS * 2 ** Math.max(0, attempts - 1);
+  const delay = Math.min(RETRY_MAX_SECONDS, exponential);
+  return Math.round(delay * (1 + RETRY_JITTER * random()));
+}
+
+/**
+ * Whether a failed job goes back on the queue with backoff or to the dead letter state
+ */
+export function decideRetry(
+  job: Pick<SyncJob, 'attempts' | 'max_attempts'>,
+  now: Date,
+  options: { retryable?: boolean; random?: () => number } = {}
+): RetryDecision {
+  const { retryable = true, random } = options;
+
+  if (!retryable || job.attempts >= job.max_attempts) {
+    return { status: 'dead', run_after: null };
+  }
+
+  const runAfter = new Date(now.getTime() + retryDelaySeconds(job.attempts, random) * 1000);
+  return { status: 'queued', run_after: runAfter.toISOString() };
+}
+
+/**
+ * Scope of a queued job after another sync of the same connection is requested.
+ * Account-scoped requests are combined; if either covers every account, so
+ * does the result.
+ */
+export function mergeSyncScopes(current: SyncJobOptions, requested: SyncJobOptions): SyncJobOptions {
+  if (!current.accountIds || !requested.accountIds) return {};
+  return { accountIds: Array.from(new Set([...current.accountIds, ...requested.accountIds])) };
+}
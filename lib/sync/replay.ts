@@ -0,0 +1,203 @@
+// Normalization replay
+// Versions of each provider's normalizer, and the plan for re-normalizing a
+// connection's stored raw transactions: which rows to create, which fields
+// change on existing rows, and which rows only need the current version
+// stamped. Categories and counterparties assigned by rules, AI or by hand are
+// left alone.
+
+import { isCategoryAssigned } from '../categorization/rules-engine';
+import type { ProviderTransaction } from '../banking-providers/base-provider';
+import type { FieldChange } from '../types/sync-diff';
+import type { NormalizationReplayScope, ReplayCounts, ReplayTransactionChange } from '../types/normalization-replay';
+
+// Bump a provider's version whenever its normalizer changes what it writes,
+// then replay its connections to bring saved rows up to date
+export const NORMALIZER_VERSIONS: Record<string, number> = {
+  plaid: 1,
+  tink: 1,
+  xero: 1,
+};
+
+// Direct bank providers share one normalizer
+export const DIRECT_BANK_NORMALIZER_VERSION = 1;
+
+// Changed transactions listed per connection; beyond this only the counts show them
+export const MAX_REPLAY_CHANGES = 200;
+
+const AMOUNT_TOLERANCE = 0.005;
+
+export function normalizerVersion(providerId: string): number {
+  return NORMALIZER_VERSIONS[providerId] ?? DIRECT_BANK_NORMALIZER_VERSION;
+}
+
+export interface SavedReplayTransaction {
+  transaction_id: string;
+  connection_id: string | null;
+  account_id: string;
+  date: string;
+  amount: number | string;
+  currency: string;
+  description: string | null;
+  type: string | null;
+  counterparty_name: string | null;
+  counterparty_account: string | null;
+  reference: string | null;
+  category: string | null;
+  provider_category: string | null;
+  category_source: string | null;
+  normalizer_version: number | null;
+}
+
+// The transaction columns normalization produces, as the sync writes them
+export interface NormalizedTransactionRow {
+  account_id: string;
+  date: string;
+  amount: number;
+  currency: string;
+  description: string;
+  type: 'credit' | 'debit';
+  counterparty_name?: string | null; // Omitted when an assigned category owns it
+  counterparty_account: string | null;
+  reference: string | null;
+  provider_category: string | null;
+  category?: string;
+  metadata: Record<string, any>;
+}
+
+export interface ReplayUpdate {
+  transactionId: string;
+  row: NormalizedTransactionRow;
+  changes: FieldChange[];
+}
+
+export interface ReplayPlan {
+  counts: ReplayCounts;
+  create: ProviderTransaction[];
+  update: ReplayUpdate[];
+  restamp: string[];
+  changes: ReplayTransactionChange[];
+}
+
+const COMPARED_FIELDS: Array<Exclude<keyof NormalizedTransactionRow, 'metadata' | 'amount'>> = [
+  'account_id',
+  'date',
+  'currency',
+  'description',
+  'type',
+  'counterparty_name',
+  'counterparty_account',
+  'reference',
+  'provider_category',
+  'category',
+];
+
+export function toNormalizedRow(transaction: ProviderTransaction): NormalizedTransactionRow {
+  return {
+    account_id: transaction.accountId,
+    date: transaction.date.toISOString().split('T')[0],
+    amount: transaction.amount,
+    currency: transaction.currency,
+    description: transaction.description,
+    type: transaction.type,
+    counterparty_name: transaction.counterpartyName ?? null,
+    counterparty_account: transaction.counterpartyAccount ?? null,
+    reference: transaction.reference ?? null,
+    provider_category: transaction.category || null,
+    metadata: transaction.metadata || {},
+  };
+}
+
+/**
+ * Fields re-normalizing would change on a saved row. Metadata is rewritten
+ * with the row but not compared.
+ */
+export function diffNormalizedRow(saved: SavedReplayTransaction, row: NormalizedTransactionRow): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  const savedAmount = Number(saved.amount);
+  if (Math.abs(savedAmount - row.amount) > AMOUNT_TOLERANCE) {
+    changes.push({ field: 'amount', before: savedAmount, after: row.amount });
+  }
+
+  for (const field of COMPARED_FIELDS) {
+    if (!(field in row)) continue;
+    const before = field === 'date' ? String(saved.date).slice(0, 10) : (saved[field] ?? null);
+    const after = row[field] ?? null;
+    if (before !== after) changes.push({ field, before, after });
+  }
+
+  return changes;
+}
+
+export function isInReplayRange(date: Date, scope: Pick<NormalizationReplayScope, 'startDate' | 'endDate'>): boolean {
+  const day = date.toISOString().split('T')[0];
+  if (scope.startDate && day < scope.startDate) return false;
+  if (scope.endDate && day > scope.endDate) return false;
+  return true;
+}
+
+/**
+ * What re-normalizing a connection's transactions would write. `saved` holds
+ * saved rows with the normalized transactions' ids, from any connection.
+ */
+export function planReplay(
+  transactions: ProviderTransaction[],
+  saved: Map<string, SavedReplayTransaction>,
+  options: {
+    connectionId: string;
+    version: number;
+    startDate?: string;
+    endDate?: string;
+    changeLimit?: number;
+  }
+): ReplayPlan {
+  const changeLimit = options.changeLimit ?? MAX_REPLAY_CHANGES;
+  const plan: ReplayPlan = {
+    counts: { examined: 0, created: 0, updated: 0, restamped: 0, unchanged: 0, skipped: 0 },
+    create: [],
+    update: [],
+    restamp: [],
+    changes: [],
+  };
+
+  for (const transaction of transactions) {
+    if (!isInReplayRange(transaction.date, options)) continue;
+    plan.counts.examined++;
+
+    const existing = saved.get(transaction.externalTransactionId);
+    if (!existing) {
+      plan.create.push(transaction);
+      plan.counts.created++;
+      continue;
+    }
+
+    // Transaction ids are globally unique; a row owned by another connection isn't ours to rewrite
+    if (existing.connection_id !== options.connectionId) {
+      plan.counts.skipped++;
+      continue;
+    }
+
+    const row = toNormalizedRow(transaction);
+    if (isCategoryAssigned(existing.category_source)) {
+      delete row.counterparty_name;
+    } else {
+      row.category = row.provider_category || 'Uncategorized';
+    }
+
+    const changes = diffNormalizedRow(existing, row);
+    if (changes.length > 0) {
+      plan.update.push({ transactionId: transaction.externalTransactionId, row, changes });
+      plan.counts.updated++;
+      if (plan.changes.length < changeLimit) {
+        plan.changes.push({ transactionId: transaction.externalTransactionId, changes });
+      }
+    } else if (existing.normalizer_version !== options.version) {
+      plan.restamp.push(transaction.externalTransactionId);
+      plan.counts.restamped++;
+    } else {
+      plan.counts.unchanged++;
+    }
+  }
+
+  return plan;
+}
@@ -4,6 +4,7 @@ import { createContext, useContext, useEffect, useState, useCallback } from 'rea
 import { useQueryClient } from '@tanstack/react-query'
 import { useAuth } from './auth-context'
 import { supabase } from './supabase-client'
+import type { TenantRole } from './types/payment'
 
 interface Tenant {
   id: string
@@ -19,7 +20,7 @@ interface Tenant {
 
 interface UserTenant {
   tenant_id: string
-  role: string
+  role: TenantRole
   tenants: Tenant
 }
 
@@ -29,7 +30,7 @@ interface TenantContextType {
   loading: boolean
   switchTenant: (tenantId: string) => void
   refreshTenants: () => Promise<void>
-  userRole: string | null
+  userRole: TenantRole | null
 }
 
 const TenantContext = createContext<TenantContextType | undefined>(undefined)
@@ -38,7 +39,7 @@ export function TenantProvider({ children }: { children: React.ReactNode }) {
   const [currentTenant, setCurrentTenant] = useState<Tenant | null>(null)
   const [userTenants, setUserTenants] = useState<UserTenant[]>([])
   const [loading, setLoading] = useState(true)
-  const [userRole, setUserRole] = useState<string | null>(null)
+  const [userRole, setUserRole] = useState<TenantRole | null>(null)
   const { user } = useAuth()
   const queryClient = useQueryClient()
 
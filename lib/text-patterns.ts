@@ -0,0 +1,63 @@
+// Text patterns
+// Tenant-entered bank fee patterns are literal text or globs, never regular
+// expressions, so no pattern can make matching backtrack for seconds per
+// transaction. Alternatives are separated by `|`. One without `*` matches
+// anywhere in the text; one with `*` must match the whole text, `*` standing
+// for any run of characters. Case is ignored.
+
+// Long patterns are almost always a paste error
+export const MAX_PATTERN_LENGTH = 500;
+
+export type TextPattern = (text: string) => boolean;
+
+function alternativesOf(pattern: string): string[] {
+  return pattern.split('|').map((alternative) => alternative.trim().toLowerCase());
+}
+
+/**
+ * Problem with a pattern before it is saved, or null when it is usable
+ */
+export function textPatternError(field: string, pattern?: string | null): string | null {
+  if (!pattern) return null;
+  if (pattern.length > MAX_PATTERN_LENGTH) return `${field} must be at most ${MAX_PATTERN_LENGTH} characters`;
+  if (alternativesOf(pattern).some((alternative) => !alternative.replace(/\*/g, '').trim())) {
+    return `${field} has an empty alternative, which would match every description`;
+  }
+  return null;
+}
+
+// Segments between the stars: the first must start the text, the last end it
+// and the rest appear in order between them. Taking each middle segment's
+// first occurrence leaves the most room for the next, so one pass decides it.
+function globMatches(segments: string[], text: string): boolean {
+  const first = segments[0];
+  const last = segments[segments.length - 1];
+  const end = text.length - last.length;
+  if (end < first.length || !text.startsWith(first) || !text.endsWith(last)) return false;
+
+  let position = first.length;
+  for (const segment of segments.slice(1, -1)) {
+    const found = text.indexOf(segment, position);
+    if (found < 0 || found + segment.length > end) return false;
+    position = found + segment.length;
+  }
+  return true;
+}
+
+/**
+ * Matcher for a pattern. Empty alternatives are ignored.
+ */
+export function compileTextPattern(pattern: string): TextPattern {
+  const matchers = alternativesOf(pattern)
+    .filter((alternative) => alternative.replace(/\*/g, ''))
+    .map((alternative): TextPattern => {
+      if (!alternative.includes('*')) return (text) => text.includes(alternative);
+      const segments = alternative.split('*');
+      return (text) => globMatches(segments, text);
+    });
+
+  return (text) => {
+    const lower = text.toLowerCase();
+    return matchers.some((matches) => matches(lower));
+  };
+}
@@ -0,0 +1,228 @@
+// Natural-language treasury question planner
+// Builds the prompt and response schema the model answers with, and validates
+// the plan it returns against a whitelist before anything touches the database
+
+import { SchemaType, type ResponseSchema } from '@google/generative-ai';
+import type {
+  ChartType,
+  QueryDataset,
+  QueryGroupBy,
+  QueryMetric,
+  TreasuryQueryContext,
+  TreasuryQueryPlan,
+} from '../types/treasury-query';
+
+export const DATASETS: QueryDataset[] = ['balances', 'transactions', 'accounts', 'fx_rates'];
+export const METRICS: QueryMetric[] = ['sum', 'count', 'average', 'min', 'max'];
+export const GROUP_BYS: QueryGroupBy[] = ['none', 'currency', 'entity', 'account', 'bank', 'category', 'day', 'month'];
+export const CHART_TYPES: ChartType[] = ['number', 'bar', 'line', 'pie', 'table'];
+
+// Groupings that make sense for each dataset
+const ALLOWED_GROUP_BY: Record<QueryDataset, QueryGroupBy[]> = {
+  balances: ['none', 'currency', 'entity', 'account', 'bank'],
+  accounts: ['none', 'currency', 'entity', 'account', 'bank'],
+  transactions: GROUP_BYS,
+  fx_rates: ['none', 'day', 'month'],
+};
+
+export const DEFAULT_RECORD_LIMIT = 100;
+
+// Keep the prompt bounded for tenants with many accounts
+const MAX_PROMPT_ACCOUNTS = 200;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+export interface PlanValidation {
+  plan: TreasuryQueryPlan | null;
+  problems: string[]; // The plan cannot run
+  warnings: string[]; // The plan runs, but something was dropped
+}
+
+// =====================================================
+// Prompt
+// =====================================================
+
+export function buildPlannerPrompt(question: string, context: TreasuryQueryContext): string {
+  const entities = context.entities.map(
+    (entity) => `- ${entity.entity_id}: ${entity.entity_name}${entity.jurisdiction ? ` (${entity.jurisdiction})` : ''}`
+  );
+  const accounts = context.accounts
+    .slice(0, MAX_PROMPT_ACCOUNTS)
+    .map(
+      (account) =>
+        `- ${account.account_id}: ${account.account_name} [${account.currency || '?'}]` +
+        `${account.entity_id ? ` entity=${account.entity_id}` : ''}${account.bank_name ? ` bank=${account.bank_name}` : ''}`
+    );
+
+  return [
+    'You translate treasury questions into a query plan. You never write SQL.',
+    `Today is ${context.today}. Resolve relative dates ("month end", "last quarter") to ISO dates.`,
+    'Datasets:',
+    '- balances: closing balance per account from bank statements; asOfDate picks the latest statement on or before it',
+    '- accounts: current balance per account',
+    '- transactions: signed amounts (inflows positive, outflows negative) between startDate and endDate',
+    '- fx_rates: daily rates for the fxFrom/fxTo pair between startDate and endDate',
+    'Only use entity and account ids from the lists below. Filter entities by jurisdiction when the question names a country.',
+    'Leave a filter empty when the question does not restrict it. Set reportingCurrency when amounts in several currencies must be added up.',
+    '',
+    'Entities:',
+    ...(entities.length > 0 ? entities : ['(none)']),
+    '',
+    'Accounts:',
+    ...(accounts.length > 0 ? accounts : ['(none)']),
+    '',
+    `Currencies in use: ${context.currencies.join(', ') || '(none)'}`,
+    `Transaction categories: ${context.categories.join(', ') || '(none)'}`,
+    '',
+    `Question: ${question}`,
+  ].join('\n');
+}
+
+export function plannerSchema(): ResponseSchema {
+  const stringArray = { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } } as const;
+  const nullableString = { type: SchemaType.STRING, nullable: true } as const;
+  const enumOf = (values: string[]) => ({ type: SchemaType.STRING, format: 'enum', enum: values }) as const;
+
+  return {
+    type: SchemaType.OBJECT,
+    properties: {
+      dataset: enumOf(DATASETS),
+      metric: enumOf(METRICS),
+      groupBy: enumOf(GROUP_BYS),
+      filters: {
+        type: SchemaType.OBJECT,
+        properties: {
+          currencies: stringArray,
+          entityIds: stringArray,
+          accountIds: stringArray,
+          categories: stringArray,
+          direction: { type: SchemaType.STRING, format: 'enum', enum: ['credit', 'debit'], nullable: true },
+          startDate: nullableString,
+          endDate: nullableString,
+          asOfDate: nullableString,
+          fxFrom: nullableString,
+          fxTo: nullableString,
+        },
+      },
+      reportingCurrency: nullableString,
+      chart: enumOf(CHART_TYPES),
+      title: { type: SchemaType.STRING },
+    },
+    required: ['dataset', 'metric', 'groupBy', 'filters', 'chart', 'title'],
+  };
+}
+
+// =====================================================
+// Validation
+// =====================================================
+
+function pick<T extends string>(value: unknown, allowed: T[], fallback: T): T {
+  return allowed.includes(value as T) ? (value as T) : fallback;
+}
+
+function strings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : [];
+}
+
+function currency(value: unknown): string | null {
+  const code = typeof value === 'string' ? value.trim().toUpperCase() : '';
+  return CURRENCY_CODE.test(code) ? code : null;
+}
+
+/**
+ * Keep only ids the tenant actually has. Dropping every requested id would
+ * silently widen the query to all of them, so that is a problem, not a warning.
+ */
+function whitelist(requested: string[], known: Set<string>, label: string, problems: string[], warnings: string[]) {
+  const kept = requested.filter((id) => known.has(id));
+  const dropped = requested.filter((id) => !known.has(id));
+
+  if (dropped.length > 0 && kept.length === 0) {
+    problems.push(`Unknown ${label}: ${dropped.join(', ')}`);
+  } else if (dropped.length > 0) {
+    warnings.push(`Ignored unknown ${label}: ${dropped.join(', ')}`);
+  }
+  return kept;
+}
+
+function date(value: unknown, label: string, problems: string[]): string | null {
+  if (value == null || value === '') return null;
+  if (typeof value !== 'string' || !ISO_DATE.test(value) || Number.isNaN(Date.parse(value))) {
+    problems.push(`${label} must be an ISO date`);
+    return null;
+  }
+  return value;
+}
+
+export function validatePlan(raw: unknown, context: TreasuryQueryContext): PlanValidation {
+  const problems: string[] = [];
+  const warnings: string[] = [];
+
+  if (!raw || typeof raw !== 'object') {
+    return { plan: null, problems: ['The question could not be turned into a query'], warnings };
+  }
+
+  const input = raw as Record<string, any>;
+  const filters = (input.filters && typeof input.filters === 'object' ? input.filters : {}) as Record<string, unknown>;
+
+  if (!DATASETS.includes(input.dataset)) {
+    problems.push(`Unsupported dataset: ${String(input.dataset)}`);
+  }
+  const dataset = pick(input.dataset, DATASETS, 'balances');
+
+  let groupBy = pick(input.groupBy, GROUP_BYS, 'none');
+  if (!ALLOWED_GROUP_BY[dataset].includes(groupBy)) {
+    warnings.push(`Grouping ${dataset} by ${groupBy} is not supported; showing totals instead`);
+    groupBy = 'none';
+  }
+
+  const currencies = strings(filters.currencies).map((code) => code.trim().toUpperCase());
+  const invalidCurrencies = currencies.filter((code) => !CURRENCY_CODE.test(code));
+  if (invalidCurrencies.length > 0) warnings.push(`Ignored invalid currencies: ${invalidCurrencies.join(', ')}`);
+
+  const startDate = date(filters.startDate, 'Start date', problems);
+  const endDate = date(filters.endDate, 'End date', problems);
+  const asOfDate = date(filters.asOfDate, 'As-of date', problems);
+  if (startDate && endDate && startDate > endDate) problems.push('Start date must be on or before end date');
+
+  const fxFrom = currency(filters.fxFrom);
+  const fxTo = currency(filters.fxTo);
+  if (dataset === 'fx_rates' && (!fxFrom || !fxTo)) problems.push('An FX question needs both currencies of the pair');
+
+  const plan: TreasuryQueryPlan = {
+    dataset,
+    metric: pick(input.metric, METRICS, dataset === 'fx_rates' ? 'average' : 'sum'),
+    groupBy,
+    filters: {
+      currencies: currencies.filter((code) => CURRENCY_CODE.test(code)),
+      entityIds: whitelist(
+        strings(filters.entityIds),
+        new Set(context.entities.map((entity) => entity.entity_id)),
+        'entities',
+        problems,
+        warnings
+      ),
+      accountIds: whitelist(
+        strings(filters.accountIds),
+        new Set(context.accounts.map((account) => account.account_id)),
+        'accounts',
+        problems,
+        warnings
+      ),
+      categories: strings(filters.categories),
+      direction: filters.direction === 'credit' || filters.direction === 'debit' ? filters.direction : null,
+      startDate,
+      endDate,
+      asOfDate,
+      fxFrom,
+      fxTo,
+    },
+    reportingCurrency: currency(input.reportingCurrency),
+    chart: pick(input.chart, CHART_TYPES, groupBy === 'none' ? 'number' : 'bar'),
+    title: typeof input.title === 'string' && input.title.trim() ? input.title.trim().slice(0, 200) : 'Answer',
+    limit: DEFAULT_RECORD_LIMIT,
+  };
+
+  return { plan: problems.length > 0 ? null : plan, problems, warnings };
+}
@@ -0,0 +1,157 @@
+// Treasury question results
+// Aggregates the records a plan returned, and turns them into a chart spec the
+// dashboard renders with recharts and a one-line answer built from the numbers
+// (the model never writes the figures in the answer)
+
+import { formatCurrency } from '../utils';
+import type {
+  ChartSpec,
+  QueryRecord,
+  QueryResultRow,
+  TreasuryQueryPlan,
+} from '../types/treasury-query';
+
+const METRIC_LABELS: Record<TreasuryQueryPlan['metric'], string> = {
+  sum: 'Total',
+  count: 'Count',
+  average: 'Average',
+  min: 'Minimum',
+  max: 'Maximum',
+};
+
+function groupLabel(record: QueryRecord, groupBy: TreasuryQueryPlan['groupBy']): string {
+  switch (groupBy) {
+    case 'currency':
+      return record.currency || 'Unknown';
+    case 'entity':
+      return record.entity_name || record.entity_id || 'Unassigned';
+    case 'account':
+      return record.account_name || record.account_id || 'Unknown account';
+    case 'bank':
+      return record.bank_name || 'Unknown bank';
+    case 'category':
+      return record.category || 'Uncategorized';
+    case 'day':
+      return (record.date || '').slice(0, 10) || 'Unknown';
+    case 'month':
+      return (record.date || '').slice(0, 7) || 'Unknown';
+    default:
+      return 'Total';
+  }
+}
+
+function applyMetric(values: number[], metric: TreasuryQueryPlan['metric']): number {
+  if (values.length === 0) return 0;
+  switch (metric) {
+    case 'count':
+      return values.length;
+    case 'average':
+      return values.reduce((sum, value) => sum + value, 0) / values.length;
+    case 'min':
+      return Math.min(...values);
+    case 'max':
+      return Math.max(...values);
+    default:
+      return values.reduce((sum, value) => sum + value, 0);
+  }
+}
+
+/**
+ * Aggregate records by the plan's grouping. Without a reporting currency,
+ * amounts in different currencies are never added together: each group is
+ * split per currency instead.
+ */
+export function aggregateRecords(records: QueryRecord[], plan: TreasuryQueryPlan): QueryResultRow[] {
+  const splitByCurrency = plan.dataset !== 'fx_rates' && !plan.reportingCurrency && plan.groupBy !== 'currency';
+  const groups = new Map<string, { group: string; currency: string | null; values: number[] }>();
+
+  for (const record of records) {
+    const group = groupLabel(record, plan.groupBy);
+    const currency = plan.dataset === 'fx_rates' ? null : plan.reportingCurrency || record.currency || null;
+    const key = splitByCurrency ? `${group}|${currency}` : group;
+
+    const entry = groups.get(key) || { group, currency, values: [] };
+    entry.values.push(record.value);
+    groups.set(key, entry);
+  }
+
+  const rows: QueryResultRow[] = Array.from(groups.values()).map((entry) => ({
+    group: entry.group,
+    currency: splitByCurrency || plan.groupBy === 'currency' || plan.reportingCurrency ? entry.currency : null,
+    value: Math.round(applyMetric(entry.values, plan.metric) * 1e6) / 1e6,
+    count: entry.values.length,
+  }));
+
+  if (plan.groupBy === 'day' || plan.groupBy === 'month') {
+    return rows.sort((a, b) => a.group.localeCompare(b.group));
+  }
+  return rows.sort((a, b) => b.value - a.value || a.group.localeCompare(b.group));
+}
+
+function singleCurrency(rows: QueryResultRow[]): string | null {
+  const currencies = new Set(rows.map((row) => row.currency).filter(Boolean));
+  return currencies.size === 1 ? (Array.from(currencies)[0] as string) : null;
+}
+
+export function buildChartSpec(plan: TreasuryQueryPlan, rows: QueryResultRow[]): ChartSpec {
+  let type = plan.chart;
+  const timeSeries = plan.groupBy === 'day' || plan.groupBy === 'month';
+
+  if (type === 'number' && rows.length > 1) type = timeSeries ? 'line' : 'bar';
+  if (type === 'pie' && rows.some((row) => row.value < 0)) type = 'bar';
+  if (type === 'line' && !timeSeries) type = 'bar';
+
+  const multiCurrency = !singleCurrency(rows) && rows.some((row) => row.currency);
+
+  return {
+    type,
+    title: plan.title,
+    xKey: 'group',
+    series: [{ key: 'value', label: METRIC_LABELS[plan.metric] }],
+    data: rows.map((row) => ({
+      group: multiCurrency && row.currency ? `${row.group} (${row.currency})` : row.group,
+      value: row.value,
+      count: row.count,
+      currency: row.currency ?? null,
+    })),
+    currency: plan.metric === 'count' ? null : singleCurrency(rows),
+  };
+}
+
+function formatValue(plan: TreasuryQueryPlan, row: QueryResultRow): string {
+  if (plan.metric === 'count') return String(row.value);
+  if (plan.dataset === 'fx_rates') return row.value.toFixed(4);
+  const formatted = row.currency ? formatCurrency(row.value, row.currency) : row.value.toFixed(2);
+  return row.value < 0 ? `-${formatted}` : formatted;
+}
+
+function recordNoun(plan: TreasuryQueryPlan, count: number): string {
+  const noun = { balances: 'account', accounts: 'account', transactions: 'transaction', fx_rates: 'rate' }[plan.dataset];
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * A plain-language answer stitched together from the aggregated rows
+ */
+export function summarizeAnswer(plan: TreasuryQueryPlan, rows: QueryResultRow[], recordCount: number): string {
+  if (rows.length === 0) return 'No matching data was found for this question.';
+
+  const asOf =
+    plan.dataset === 'balances' && plan.filters.asOfDate
+      ? ` as of ${plan.filters.asOfDate}`
+      : plan.filters.startDate || plan.filters.endDate
+        ? ` (${plan.filters.startDate || '…'} to ${plan.filters.endDate || 'today'})`
+        : '';
+
+  if (rows.length === 1) {
+    return `${plan.title}${asOf}: ${formatValue(plan, rows[0])} across ${recordNoun(plan, recordCount)}.`;
+  }
+
+  const perCurrency = plan.groupBy !== 'currency' && !plan.reportingCurrency && !singleCurrency(rows);
+  const lines = rows
+    .slice(0, 5)
+    .map((row) => `${row.group}${perCurrency && row.currency ? ` (${row.currency})` : ''}: ${formatValue(plan, row)}`);
+  const more = rows.length > 5 ? `, and ${rows.length - 5} more` : '';
+
+  return `${plan.title}${asOf}, across ${recordNoun(plan, recordCount)}: ${lines.join('; ')}${more}.`;
+}
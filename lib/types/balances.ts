@@ -0,0 +1,86 @@
+/**
+ * Daily balance TypeScript interfaces
+ * Daily balances are rebuilt per account from the nearest reported statement
+ * and consolidated into cash series by entity, currency or bank
+ */
+
+import type { ReportingContext } from './fx';
+import type { LiquidityBreakdown } from './investment';
+
+export interface BalanceActor {
+  userId: string;
+  role: string; // user_tenants.role
+}
+
+export type StatementSource = 'synced' | 'calculated' | 'manual' | 'imported';
+
+export type BalanceConfidence = 'high' | 'medium' | 'low';
+
+/**
+ * A balance the bank, provider or user reported for the end of a day
+ */
+export interface BalanceAnchor {
+  date: string; // YYYY-MM-DD
+  balance: number;
+  source: Exclude<StatementSource, 'calculated'>;
+}
+
+export interface DailyBalance {
+  date: string; // YYYY-MM-DD
+  balance: number; // End of day
+  source: StatementSource; // 'calculated' unless a balance was reported for this day
+  confidence: BalanceConfidence;
+  anchor_date: string | null; // Reported balance rolled from; on reported days, the previous one it was checked against
+  reported_balance: number | null;
+  reconstructed_balance: number | null; // Previous anchor rolled forward by transactions, on reported days
+  discrepancy: number | null; // reported_balance - reconstructed_balance, when they disagree
+}
+
+export interface AccountBalanceSeries {
+  account_id: string; // accounts.id
+  account_name: string;
+  entity_id: string | null;
+  bank_name: string | null;
+  currency: string;
+  days: DailyBalance[]; // Empty when the account has no reported balance to roll from
+}
+
+export interface BalanceDiscrepancy {
+  account_id: string; // accounts.id
+  account_name: string;
+  date: string;
+  reported_balance: number;
+  reconstructed_balance: number;
+  difference: number;
+  previous_anchor_date: string;
+}
+
+export type CashSeriesGrouping = 'entity' | 'currency' | 'bank';
+
+export interface CashSeriesPoint {
+  date: string;
+  amount: number; // In the reporting currency
+  confidence: BalanceConfidence; // Lowest across the accounts in the point
+  accounts: number;
+  calculated_accounts: number; // Accounts whose balance that day was reconstructed
+}
+
+export interface CashSeries {
+  key: string;
+  label: string;
+  points: CashSeriesPoint[];
+}
+
+export interface ConsolidatedCashReport {
+  start_date: string;
+  end_date: string;
+  group_by: CashSeriesGrouping;
+  reporting: ReportingContext;
+  rate_date: string | null; // Oldest rate used; every day is converted at the end date's rates
+  unconverted: string[]; // Currencies with no rate, left out of the amounts
+  series: CashSeries[];
+  total: CashSeriesPoint[];
+  discrepancies: BalanceDiscrepancy[];
+  unanchored_accounts: string[]; // Account names with no reported balance in range, left out
+  liquidity: LiquidityBreakdown; // End date balances and investment holdings by liquidity bucket
+}
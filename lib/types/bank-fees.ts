@@ -0,0 +1,157 @@
+/**
+ * Bank fee TypeScript interfaces
+ * Fee patterns, account analysis statement lines, and the per bank / entity /
+ * fee type monthly cost report built from them
+ */
+
+import type { RateType } from '../currency';
+
+export interface BankFeeActor {
+  userId: string;
+  role: string; // user_tenants.role
+}
+
+export type BankFeeType =
+  | 'maintenance'
+  | 'wire'
+  | 'ach'
+  | 'card'
+  | 'check'
+  | 'fx'
+  | 'overdraft'
+  | 'analysis'
+  | 'other';
+
+export interface BankFeePattern {
+  id: string;
+  tenant_id: string | null; // NULL = curated
+  institution_id: string | null; // financial_institutions; NULL = any bank
+  fee_type: BankFeeType;
+  pattern: string; // Case-insensitive text or glob on the description (lib/text-patterns.ts)
+  description: string | null;
+  is_active: boolean;
+  created_at: string;
+}
+
+export interface CreateBankFeePatternInput {
+  institution_id?: string | null;
+  fee_type: BankFeeType;
+  pattern: string;
+  description?: string | null;
+}
+
+export interface FinancialInstitution {
+  institution_id: string;
+  institution_name: string;
+  short_name: string | null;
+}
+
+export interface BankFeeStatementLine {
+  id: string;
+  account_id: string; // accounts.id
+  period_month: string; // YYYY-MM-01
+  service_code: string;
+  description: string | null;
+  fee_type: BankFeeType;
+  volume: number | null;
+  unit_price: number | null;
+  fee_amount: number;
+  currency: string;
+}
+
+export interface ImportStatementLineInput {
+  period_month: string; // YYYY-MM or YYYY-MM-DD
+  service_code: string;
+  description?: string | null;
+  fee_type?: BankFeeType;
+  volume?: number | null;
+  unit_price?: number | null;
+  fee_amount: number;
+  currency?: string; // Defaults to the account currency
+}
+
+// =====================================================
+// Detection
+// =====================================================
+
+/**
+ * The transaction fields fee detection reads
+ */
+export interface FeeCandidateTransaction {
+  transaction_id: string;
+  account_id: string; // accounts.account_id
+  date: string;
+  description?: string | null;
+  amount: number;
+  type?: string | null;
+  currency?: string | null;
+  category?: string | null;
+  provider_category?: string | null;
+}
+
+export interface FeeAccount {
+  id: string; // accounts.id
+  account_id: string; // accounts.account_id
+  account_name: string;
+  entity_id: string | null;
+  currency: string;
+  institution_id: string | null; // Resolved financial_institutions id
+  bank_name: string;
+}
+
+export type FeeMatch = 'institution_pattern' | 'pattern' | 'category' | 'statement';
+
+export interface DetectedFee {
+  source: 'transaction' | 'analysis_statement';
+  reference: string; // transaction_id or statement line id
+  account_id: string; // accounts.id
+  institution_id: string | null;
+  bank_name: string;
+  entity_id: string | null;
+  month: string; // YYYY-MM
+  fee_type: BankFeeType;
+  amount: number; // Positive cost, in the account currency
+  currency: string;
+  reporting_amount: number | null; // In the report currency; null without a rate
+  description: string;
+  matched_by: FeeMatch;
+}
+
+// =====================================================
+// Report
+// =====================================================
+
+export type BankFeeDimension = 'bank' | 'entity' | 'fee_type';
+
+export interface BankFeeRow {
+  key: string;
+  label: string;
+  months: Record<string, number>; // YYYY-MM -> amount in the report currency
+  total: number;
+}
+
+export interface BankFeeIncrease {
+  dimension: BankFeeDimension;
+  key: string;
+  label: string;
+  month: string;
+  previous_amount: number;
+  amount: number;
+  change_pct: number | null; // null when the cost is new this month
+}
+
+export interface BankFeeReport {
+  currency: string;
+  rate_type: RateType;
+  rate_date: string | null;
+  months: string[];
+  total: number;
+  by_bank: BankFeeRow[];
+  by_entity: BankFeeRow[];
+  by_fee_type: BankFeeRow[];
+  threshold_pct: number;
+  increases: BankFeeIncrease[];
+  fees: DetectedFee[]; // Largest first
+  unconverted: string[]; // Currencies without a rate, left out of totals
+  unlinked_accounts: Array<Pick<FeeAccount, 'account_id' | 'account_name' | 'bank_name'>>; // Only generic patterns apply
+}
@@ -0,0 +1,118 @@
+/**
+ * Cash pool TypeScript interfaces
+ * Physical and notional pools over a header account and participant
+ * accounts, and the sweeps, interest and intercompany loans a pool would
+ * have produced over historical daily balances
+ */
+
+export interface CashPoolActor {
+  userId: string;
+  role: string; // user_tenants.role
+}
+
+export type CashPoolType = 'physical' | 'notional';
+
+export type SweepRule = 'zero_balancing' | 'target_balancing';
+
+export interface CashPoolParticipant {
+  id: string;
+  pool_id: string;
+  account_id: string; // accounts.id
+  target_balance: number;
+  created_at: string;
+}
+
+export interface CashPool {
+  id: string;
+  tenant_id: string;
+  name: string;
+  description: string | null;
+  pool_type: CashPoolType;
+  sweep_rule: SweepRule;
+  header_account_id: string; // accounts.id
+  currency: string;
+  credit_rate: number; // Annual, as a fraction
+  debit_rate: number;
+  day_count: 360 | 365;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  participants: CashPoolParticipant[];
+}
+
+export interface CreateCashPoolInput {
+  name: string;
+  description?: string | null;
+  pool_type: CashPoolType;
+  sweep_rule?: SweepRule;
+  header_account_id: string;
+  currency?: string; // Defaults to the header account's currency
+  credit_rate?: number;
+  debit_rate?: number;
+  day_count?: 360 | 365;
+  is_active?: boolean;
+  participants: Array<{ account_id: string; target_balance?: number }>;
+}
+
+// =====================================================
+// Simulation
+// =====================================================
+
+export interface PoolAccountBalances {
+  account_id: string; // accounts.id
+  account_name: string;
+  entity_id: string | null;
+  balances: Array<{ date: string; balance: number }>; // Historical end-of-day, without sweeps
+}
+
+export interface CashPoolSweep {
+  account_id: string;
+  amount: number; // Positive: participant to header; negative: header funds participant
+}
+
+export interface CashPoolDay {
+  date: string;
+  header_balance: number; // After sweeps
+  pool_balance: number; // Header plus participants
+  sweeps: CashPoolSweep[]; // Physical pools only
+  interest: number; // Pool interest for the day; negative when the pool pays
+}
+
+export interface CashPoolParticipantResult {
+  account_id: string;
+  account_name: string;
+  entity_id: string | null;
+  target_balance: number;
+  swept_to_header: number;
+  swept_from_header: number;
+  closing_position: number; // Physical: net lent to the header; notional: own balance
+  interest_allocated: number; // Negative when the participant pays
+}
+
+export interface CashPoolLoan {
+  lender_entity_id: string;
+  borrower_entity_id: string;
+  amount: number;
+}
+
+export interface CashPoolSimulation {
+  pool_id: string;
+  pool_name: string;
+  pool_type: CashPoolType;
+  sweep_rule: SweepRule;
+  currency: string;
+  start_date: string;
+  end_date: string;
+  days: CashPoolDay[];
+  header: {
+    account_id: string;
+    account_name: string;
+    entity_id: string | null;
+    interest_retained: number; // Pool interest not allocated to participants
+  };
+  participants: CashPoolParticipantResult[];
+  pool_interest: number;
+  loans: CashPoolLoan[]; // Closing intercompany positions between entities, netted per pair
+  warnings: string[];
+}
@@ -0,0 +1,149 @@
+/**
+ * Categorization rule TypeScript interfaces
+ * Tenant-defined rules assign category, GL code and cost center to transactions
+ */
+
+export type RuleDirection = 'credit' | 'debit';
+
+export type CategorySource = 'provider' | 'rule' | 'ai' | 'manual';
+
+export interface CategorizationRule {
+  id: string;
+  tenant_id: string;
+  name: string;
+  description?: string | null;
+  priority: number; // Lower runs first
+  is_active: boolean;
+  description_pattern?: string | null; // Case-insensitive regex without nested quantifiers
+  counterparty_pattern?: string | null; // Case-insensitive regex
+  amount_min?: number | null; // Absolute amount, inclusive
+  amount_max?: number | null;
+  direction?: RuleDirection | null;
+  account_ids: string[]; // accounts.account_id; empty = any
+  currencies: string[]; // empty = any
+  category_code?: string | null; // transaction_categories.category_code
+  gl_code?: string | null;
+  cost_center?: string | null;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateCategorizationRuleInput {
+  name: string;
+  description?: string | null;
+  priority?: number;
+  is_active?: boolean;
+  description_pattern?: string | null;
+  counterparty_pattern?: string | null;
+  amount_min?: number | null;
+  amount_max?: number | null;
+  direction?: RuleDirection | null;
+  account_ids?: string[];
+  currencies?: string[];
+  category_code?: string | null;
+  gl_code?: string | null;
+  cost_center?: string | null;
+}
+
+/**
+ * The transaction fields rules read and write
+ */
+export interface CategorizableTransaction {
+  transaction_id: string;
+  account_id: string;
+  description?: string | null;
+  counterparty_name?: string | null;
+  merchant_name?: string | null;
+  amount: number;
+  type?: string | null;
+  currency?: string | null;
+  category?: string | null;
+  provider_category?: string | null;
+  category_source?: CategorySource | null;
+  gl_code?: string | null;
+  cost_center?: string | null;
+  categorization_rule_id?: string | null;
+}
+
+export interface CategoryAssignment {
+  category: string | null;
+  gl_code: string | null;
+  cost_center: string | null;
+  categorization_rule_id: string | null;
+  category_source: 'provider' | 'rule';
+}
+
+export interface CategorizationChange {
+  transaction_id: string;
+  description?: string | null;
+  amount: number;
+  before: Pick<CategoryAssignment, 'category' | 'gl_code' | 'cost_center' | 'categorization_rule_id'>;
+  after: CategoryAssignment;
+  rule_name?: string | null;
+}
+
+export interface CategorizationPreview {
+  scanned: number;
+  changed: number;
+  matched_by_rule: Record<string, number>; // rule id -> transactions matched
+  changes: CategorizationChange[]; // Capped sample of the changes
+}
+
+export interface CategorizationRuleRun {
+  id: string;
+  tenant_id: string;
+  status: 'running' | 'completed' | 'failed';
+  scope: { startDate?: string; endDate?: string; accountId?: string };
+  transactions_scanned: number;
+  transactions_updated: number;
+  error_message?: string | null;
+  created_by?: string | null;
+  started_at: string;
+  completed_at?: string | null;
+}
+
+/**
+ * AI categorization: model output for one normalized description
+ */
+export interface AiCategoryResult {
+  category_code: string; // transaction_categories.category_code
+  counterparty_name: string | null; // Cleaned-up merchant / counterparty
+  confidence: number; // 0-1
+}
+
+export type AiSuggestionStatus = 'pending' | 'applied' | 'accepted' | 'rejected';
+
+/**
+ * One transaction's AI suggestion. High-confidence suggestions are applied
+ * straight away; the rest wait in the review queue.
+ */
+export interface AiCategorizationSuggestion extends AiCategoryResult {
+  id: string;
+  tenant_id: string;
+  transaction_id: string;
+  description_key: string;
+  status: AiSuggestionStatus;
+  rule_id?: string | null; // Rule created when the suggestion was accepted
+  reviewed_by?: string | null;
+  reviewed_at?: string | null;
+  created_at: string;
+  updated_at: string;
+  transaction?: {
+    date: string;
+    description?: string | null;
+    amount: number;
+    currency?: string | null;
+    counterparty_name?: string | null;
+  } | null;
+}
+
+export interface AiCategorizationRunResult {
+  scanned: number;
+  cache_hits: number; // Transactions answered from the description cache
+  descriptions_sent: number; // Distinct descriptions sent to the model
+  model_calls: number;
+  applied: number;
+  queued_for_review: number;
+  errors: string[];
+}
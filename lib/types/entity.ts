@@ -8,6 +8,8 @@ export interface Entity {
   entity_name: string; // Display name
   type: EntityType; // Legal entity type
   jurisdiction: string; // State/country of incorporation
+  functional_currency?: string | null; // ISO 4217; FX exposure is measured against it
+  reporting_currency?: string | null; // ISO 4217; overrides the tenant's reporting currency for this entity's totals
   tax_id?: string | null; // Tax ID / EIN
   status: EntityStatus;
   contact_email?: string | null;
@@ -38,6 +40,8 @@ export interface CreateEntityInput {
   entity_name: string;
   type: EntityType;
   jurisdiction: string;
+  functional_currency?: string;
+  reporting_currency?: string | null;
   tax_id?: string;
   contact_email?: string;
   description?: string;
@@ -52,6 +56,8 @@ export interface UpdateEntityInput {
   entity_name?: string;
   type?: EntityType;
   jurisdiction?: string;
+  functional_currency?: string;
+  reporting_currency?: string | null;
   tax_id?: string;
   status?: EntityStatus;
   contact_email?: string;
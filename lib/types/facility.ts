@@ -0,0 +1,176 @@
+/**
+ * Facility TypeScript interfaces
+ * Debt facilities with their loan accounts and repayment schedules, and the
+ * financial covenants tested against them each period
+ */
+
+export interface FacilityActor {
+  userId: string;
+  role: string; // user_tenants.role
+}
+
+export type FacilityType = 'term_loan' | 'revolving_credit' | 'overdraft' | 'bond' | 'other';
+
+export type FacilityStatus = 'active' | 'repaid' | 'cancelled';
+
+export interface FacilityRepayment {
+  id: string;
+  facility_id: string;
+  due_date: string;
+  principal_amount: number;
+  status: 'scheduled' | 'paid';
+  created_at: string;
+}
+
+export interface Facility {
+  id: string;
+  tenant_id: string;
+  entity_id: string; // Borrower
+  name: string;
+  facility_type: FacilityType;
+  lender: string;
+  currency: string;
+  commitment_amount: number;
+  drawn_amount: number; // Entered by hand; see FacilityPosition for the effective figure
+  signing_date: string | null;
+  maturity_date: string;
+  reference_rate: string; // SOFR, EURIBOR, SONIA, ... or FIXED
+  reference_rate_value: number | null; // Annual, as a fraction
+  margin: number;
+  rate_floor: number | null;
+  commitment_fee: number | null;
+  status: FacilityStatus;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  accounts: Array<{ id: string; facility_id: string; account_id: string }>; // accounts.id
+  repayments: FacilityRepayment[];
+}
+
+export interface FacilityPosition {
+  drawn: number;
+  drawn_source: 'accounts' | 'manual';
+  available: number; // Undrawn commitment
+  utilization: number | null; // Drawn over commitment
+  all_in_rate: number | null; // Reference rate (floored) plus margin
+  next_repayment: { due_date: string; principal_amount: number } | null;
+  days_to_maturity: number;
+}
+
+export interface FacilityWithPosition extends Facility {
+  position: FacilityPosition;
+}
+
+export interface CreateFacilityInput {
+  entity_id: string;
+  name: string;
+  facility_type: FacilityType;
+  lender: string;
+  currency: string;
+  commitment_amount: number;
+  drawn_amount?: number;
+  signing_date?: string | null;
+  maturity_date: string;
+  reference_rate?: string;
+  reference_rate_value?: number | null;
+  margin?: number;
+  rate_floor?: number | null;
+  commitment_fee?: number | null;
+  status?: FacilityStatus;
+  notes?: string | null;
+  account_ids?: string[]; // accounts.id
+}
+
+export interface RepaymentInput {
+  due_date: string;
+  principal_amount: number;
+  status?: 'scheduled' | 'paid';
+}
+
+export type RepaymentFrequency = 'monthly' | 'quarterly' | 'semiannual' | 'annual';
+
+// =====================================================
+// Covenants
+// =====================================================
+
+export type CovenantMetric = 'minimum_liquidity' | 'net_leverage' | 'gross_leverage' | 'interest_cover';
+
+export type CovenantInputKey = 'ebitda' | 'interest_expense' | 'total_debt' | 'cash';
+
+export type CovenantTestStatus = 'compliant' | 'near_breach' | 'breach' | 'insufficient_data';
+
+export interface Covenant {
+  id: string;
+  tenant_id: string;
+  facility_id: string;
+  name: string;
+  metric: CovenantMetric;
+  threshold: number; // Amount for liquidity, multiple for ratios
+  entity_id: string | null; // NULL tests the whole group
+  test_frequency: RepaymentFrequency;
+  warning_headroom_pct: number;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateCovenantInput {
+  facility_id: string;
+  name: string;
+  metric: CovenantMetric;
+  threshold: number;
+  entity_id?: string | null;
+  test_frequency?: RepaymentFrequency;
+  warning_headroom_pct?: number;
+  is_active?: boolean;
+}
+
+export interface CovenantInputValue {
+  entity_id: string; // '' for the group
+  period_end: string;
+  input_key: CovenantInputKey;
+  value: number;
+  currency: string;
+}
+
+export interface CovenantFigures {
+  currency: string;
+  cash: number | null;
+  total_debt: number | null;
+  undrawn_revolving: number | null;
+  ebitda: number | null; // Last twelve months
+  interest_expense: number | null;
+}
+
+export interface CovenantEvaluation {
+  value: number | null;
+  headroom_pct: number | null; // Distance from the threshold, as a percentage of it
+  status: CovenantTestStatus;
+  note: string | null;
+}
+
+export interface CovenantTest extends CovenantEvaluation {
+  id: string;
+  tenant_id: string;
+  covenant_id: string;
+  period_end: string;
+  threshold: number;
+  figures: CovenantFigures;
+  acknowledged_by: string | null;
+  acknowledged_at: string | null;
+  tested_at: string;
+}
+
+export interface CovenantWithLatestTest extends Covenant {
+  facility_name: string;
+  latest_test: CovenantTest | null;
+}
+
+export interface CovenantEvaluationRun {
+  period_end: string;
+  tests: Array<CovenantTest & { covenant_name: string; facility_name: string }>;
+  alerts: number; // New breaches and near breaches
+  warnings: string[];
+}
@@ -0,0 +1,251 @@
+/**
+ * FX TypeScript interfaces
+ * Rate sources and precedence, reporting currency, exposure of each entity's
+ * positions against its functional currency, and period-end revaluation
+ */
+
+import type { RateType } from '../currency';
+
+// =====================================================
+// Rate Sources
+// =====================================================
+
+export interface FxActor {
+  userId: string;
+  role: string; // user_tenants.role
+}
+
+/**
+ * Rates quoted by one source for one day: 1 unit of `base` = rates[currency]
+ */
+export interface RateSnapshot {
+  source: string;
+  base: string;
+  date: string; // YYYY-MM-DD
+  rates: Record<string, number>;
+}
+
+/**
+ * One rate row from a tenant upload
+ */
+export interface UploadedRate {
+  currency_from: string;
+  currency_to: string;
+  date: string;
+  rate: number;
+  rate_type: RateType;
+}
+
+export interface FxSourcePreference {
+  id: string;
+  tenant_id: string;
+  currency_from: string; // '*' = any currency
+  currency_to: string;
+  sources: string[]; // First source with a rate wins
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * A rate together with the source and date it was actually taken from
+ */
+export interface ResolvedRate {
+  rate: number;
+  source: string;
+  date: string;
+}
+
+// =====================================================
+// Reporting Currency
+// =====================================================
+
+export type ReportingCurrencySource = 'entity' | 'user' | 'tenant' | 'default';
+
+export interface ReportingContext {
+  currency: string;
+  source: ReportingCurrencySource;
+  rate_type: RateType;
+  as_of: string;
+}
+
+/**
+ * An aggregate converted into one reporting currency
+ */
+export interface ReportingAmount {
+  amount: number;
+  currency: string;
+  rate_type: RateType;
+  rate_date: string | null; // Oldest rate date used; null when nothing needed converting
+  unconverted: string[]; // Currencies with no rate, left out of amount
+}
+
+/**
+ * Rate converting one unit of `from` into `to`, or null when unknown
+ */
+export type ReportingRateLookup = (from: string, to: string) => ResolvedRate | null;
+
+export interface ReportingPreferences {
+  tenant_currency: string | null;
+  user_currency: string | null;
+}
+
+export interface ReportingBalances {
+  context: ReportingContext;
+  total: ReportingAmount;
+  entities: Record<string, ReportingAmount>; // Keyed by entity_id, in each entity's reporting currency
+}
+
+// =====================================================
+// Exposure
+// =====================================================
+
+export type ExposureSource = 'balance' | 'forecast' | 'payment';
+
+export type ExposureTenor = 'spot' | '0-1M' | '1-3M' | '3-6M' | '6-12M' | '12M+';
+
+/**
+ * One amount that will be held or moved in a currency by an entity
+ */
+export interface ExposureItem {
+  entity_id: string;
+  currency: string;
+  source: ExposureSource;
+  amount: number; // Signed: inflows and holdings positive
+  date: string; // Value date; the as-of date for balances
+}
+
+export interface ExposureEntity {
+  entity_id: string;
+  entity_name: string;
+  functional_currency: string;
+}
+
+/**
+ * Returns the rate converting one unit of `from` into `to`, or null when unknown
+ */
+export type ExposureRateLookup = (from: string, to: string, type: RateType) => number | null;
+
+export interface FxExposurePosition {
+  entity_id: string;
+  entity_name: string;
+  functional_currency: string;
+  currency: string;
+  tenor: ExposureTenor;
+  balances: number; // In `currency`
+  forecast_flows: number;
+  open_payments: number;
+  net_amount: number;
+  exposed: boolean; // Currency differs from the functional currency
+  translated: Record<RateType, number | null>; // Net amount in the functional currency
+}
+
+/**
+ * Change in functional-currency value of one entity's net position in a
+ * currency when that currency moves by each shock against the functional one
+ */
+export interface FxSensitivityRow {
+  entity_id: string;
+  functional_currency: string;
+  currency: string;
+  net_amount: number; // All tenors, in `currency`
+  spot_value: number | null; // In the functional currency
+  impacts: Record<string, number | null>; // Keyed by shock label, e.g. "-10%"
+}
+
+export interface FxCurrencyExposure {
+  currency: string;
+  reporting_value: number; // Net exposed value in the reporting currency at SPOT
+  impacts: Record<string, number>;
+}
+
+export interface FxExposureReport {
+  as_of: string;
+  horizon_days: number;
+  reporting_currency: string;
+  shocks: string[];
+  positions: FxExposurePosition[];
+  sensitivities: FxSensitivityRow[];
+  by_currency: FxCurrencyExposure[];
+  missing_rates: string[]; // "FROM/TO" pairs with no SPOT rate
+}
+
+// =====================================================
+// Revaluation
+// =====================================================
+
+/**
+ * One foreign-currency account's balances and flows for a period, in the
+ * account currency
+ */
+export interface RevaluationAccountInput {
+  account_id: string; // accounts.id
+  account_name: string;
+  entity_id: string;
+  currency: string;
+  gl_account_code: string | null;
+  opening_balance: number; // At the prior period end
+  closing_balance: number; // At the period end
+  inflows: number; // Positive
+  outflows: number; // Positive
+  unexplained_flow: number; // Balance change not covered by transactions, included in the flows above
+}
+
+/**
+ * Account currency -> functional currency
+ */
+export interface RevaluationRates {
+  opening: number; // Prior period end
+  closing: number; // Period end
+  average: number; // Monthly average, used as the rate for flows during the period
+}
+
+export interface FxRevaluationLine extends RevaluationAccountInput {
+  functional_currency: string;
+  opening_rate: number;
+  closing_rate: number;
+  average_rate: number;
+  opening_value: number; // In the functional currency
+  closing_value: number;
+  realized_gain_loss: number; // On amounts that left the account, gains positive
+  unrealized_gain_loss: number; // On the balance still held at the period end
+  total_gain_loss: number;
+}
+
+export interface FxEntityRevaluation {
+  entity_id: string;
+  entity_name: string;
+  functional_currency: string;
+  accounts: number;
+  realized_gain_loss: number;
+  unrealized_gain_loss: number;
+  total_gain_loss: number;
+}
+
+export type FxJournalLineType = 'account' | 'realized' | 'unrealized';
+
+/**
+ * One side of a balanced revaluation entry, in the entity's functional currency
+ */
+export interface FxJournalRow {
+  journal_date: string;
+  entity_id: string;
+  account_id: string; // Account being revalued
+  line_type: FxJournalLineType;
+  gl_account_code: string | null;
+  description: string;
+  currency: string;
+  debit: number;
+  credit: number;
+}
+
+export interface FxRevaluationReport {
+  period_start: string;
+  period_end: string;
+  opening_date: string; // Prior period end
+  lines: FxRevaluationLine[];
+  entities: FxEntityRevaluation[];
+  journal: FxJournalRow[];
+  missing_rates: string[]; // "FROM/TO" pairs; those accounts are not revalued
+  warnings: string[];
+}
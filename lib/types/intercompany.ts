@@ -0,0 +1,91 @@
+/**
+ * Intercompany TypeScript interfaces
+ * Transfers between accounts of different entities in the same tenant are
+ * paired, tagged and excluded from consolidated cash flow
+ */
+
+export interface IntercompanyActor {
+  userId: string;
+  role: string; // user_tenants.role
+}
+
+export interface IntercompanyLeg {
+  transaction_id: string;
+  account_id: string; // accounts.account_id
+  entity_id: string;
+  date: string; // YYYY-MM-DD
+  amount: number; // Signed: outflows negative
+  currency: string;
+  description?: string | null;
+  counterparty_name?: string | null;
+  reference?: string | null;
+}
+
+/**
+ * A detected pair, not yet persisted
+ */
+export interface IntercompanyPairSuggestion {
+  outgoing: IntercompanyLeg;
+  incoming: IntercompanyLeg;
+  score: number; // 0-1
+  reasons: string[];
+  date_gap_days: number;
+  expected_incoming_amount: number; // Outgoing converted into the incoming currency
+  difference: number; // Expected minus received, in the incoming currency (fees, FX slippage)
+}
+
+export interface IntercompanyMatch {
+  id: string;
+  tenant_id: string;
+  status: 'active' | 'reversed';
+  match_type: 'auto' | 'manual';
+  score?: number | null;
+  reasons: string[];
+  outgoing_transaction_id: string;
+  incoming_transaction_id: string;
+  from_entity_id: string;
+  to_entity_id: string;
+  from_account_id: string;
+  to_account_id: string;
+  outgoing_date: string;
+  incoming_date: string;
+  outgoing_amount: number; // Absolute
+  outgoing_currency: string;
+  incoming_amount: number; // Absolute
+  incoming_currency: string;
+  difference?: number | null;
+  matched_by?: string | null;
+  reversed_by?: string | null;
+  reversed_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Gross flows between entities for one period, in the reporting currency.
+ * flows[from][to] is what `from` sent to `to`.
+ */
+export interface IntercompanyMatrix {
+  period: string; // YYYY-MM
+  currency: string;
+  entities: string[];
+  flows: Record<string, Record<string, number>>;
+  net_positions: Record<string, number>; // Sent minus received; positive = owed by the group
+}
+
+export interface NettingSettlement {
+  period: string;
+  from_entity_id: string; // Pays
+  to_entity_id: string; // Receives
+  amount: number;
+  currency: string;
+}
+
+export interface IntercompanyReport {
+  start_date: string;
+  end_date: string;
+  currency: string;
+  matrices: IntercompanyMatrix[];
+  settlements: NettingSettlement[];
+  unconverted_currencies: string[]; // Matches left out for lack of a rate
+}
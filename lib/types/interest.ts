@@ -0,0 +1,85 @@
+/**
+ * Interest TypeScript interfaces
+ * Daily accruals on deposit and loan accounts, their reconciliation against
+ * interest postings, and yield / cost of funds per entity and currency
+ */
+
+export interface InterestActor {
+  userId: string;
+  role: string; // user_tenants.role
+}
+
+export type DayCountConvention = 'ACT/360' | 'ACT/365' | '30/360';
+
+export type InterestAccountKind = 'deposit' | 'loan';
+
+export interface InterestAccrualDay {
+  date: string;
+  balance: number; // End of day, as reported or reconstructed
+  principal: number; // Balance interest accrues on: positive deposits, drawn loan amount
+  accrual: number; // Unrounded expected interest for the day
+}
+
+export type InterestCheckStatus = 'matched' | 'mismatch' | 'missing_posting' | 'unexpected_posting' | 'partial';
+
+export interface InterestMonthCheck {
+  month: string; // YYYY-MM
+  expected: number; // Positive: interest received on deposits / paid on loans
+  posted: number; // Same sign convention as expected
+  difference: number; // posted - expected
+  status: InterestCheckStatus;
+  posting_ids: string[]; // transactions.transaction_id
+}
+
+export interface LimitBreach {
+  date: string;
+  balance: number;
+  limit: number;
+}
+
+export interface InterestAccountResult {
+  account_id: string; // accounts.id
+  account_name: string;
+  entity_id: string | null;
+  currency: string;
+  kind: InterestAccountKind;
+  interest_rate: number;
+  day_count_convention: DayCountConvention;
+  days: number;
+  average_principal: number;
+  expected_interest: number;
+  posted_interest: number;
+  realized_rate: number | null; // Posted interest annualized over the average principal
+  months: InterestMonthCheck[];
+  limit: number | null; // credit_limit on loans, overdraft_limit on deposits
+  limit_breaches: LimitBreach[];
+}
+
+export interface InterestSummaryRow {
+  entity_id: string | null;
+  currency: string;
+  kind: InterestAccountKind;
+  accounts: number;
+  average_principal: number;
+  expected_interest: number;
+  posted_interest: number;
+  weighted_rate: number; // Contract rates weighted by average principal: yield on deposits, cost of funds on loans
+  realized_rate: number | null;
+}
+
+export interface InterestReport {
+  start_date: string;
+  end_date: string;
+  tolerance_pct: number;
+  accounts: InterestAccountResult[];
+  summary: InterestSummaryRow[];
+  discrepancies: number; // Months flagged mismatch, missing_posting or unexpected_posting
+  warnings: string[];
+}
+
+export interface UpdateInterestTermsInput {
+  interest_rate?: number | null;
+  day_count_convention?: DayCountConvention | null;
+  credit_limit?: number | null;
+  overdraft_limit?: number | null;
+}
@@ -0,0 +1,139 @@
+/**
+ * Investment TypeScript interfaces
+ * Money market fund, deposit and security holdings, their maturity ladder and
+ * the liquidity buckets cash and holdings fall into
+ */
+
+import type { ReportingContext } from './fx';
+
+export interface InvestmentActor {
+  userId: string;
+  role: string; // user_tenants.role
+}
+
+export type InstrumentType =
+  | 'money_market_fund'
+  | 'term_deposit'
+  | 'treasury_bill'
+  | 'commercial_paper'
+  | 'bond'
+  | 'equity'
+  | 'cash'
+  | 'other';
+
+export type HoldingSource = 'plaid' | 'import' | 'manual';
+
+export type HoldingStatus = 'active' | 'matured' | 'closed';
+
+export type LiquidityBucket = 'same_day' | 't_plus_1' | 'under_3_months' | 'longer';
+
+export interface InvestmentHolding {
+  id: string;
+  tenant_id: string;
+  account_id: string | null; // accounts.id
+  entity_id: string | null;
+  source: HoldingSource;
+  external_id: string | null;
+  instrument_name: string;
+  instrument_type: InstrumentType;
+  isin: string | null;
+  ticker: string | null;
+  currency: string;
+  units: number;
+  price: number;
+  market_value: number; // Units at price, excluding accrued interest
+  accrued_interest: number;
+  interest_rate: number | null; // Annual fraction
+  start_date: string | null;
+  maturity_date: string | null;
+  settlement_days: number | null; // NULL uses the instrument type default
+  price_date: string | null;
+  status: HoldingStatus;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface HoldingInput {
+  account_id?: string | null;
+  entity_id?: string | null;
+  instrument_name: string;
+  instrument_type: InstrumentType;
+  isin?: string | null;
+  ticker?: string | null;
+  currency: string;
+  units: number;
+  price: number;
+  market_value?: number | null; // Defaults to units x price
+  accrued_interest?: number | null;
+  interest_rate?: number | null;
+  start_date?: string | null;
+  maturity_date?: string | null;
+  settlement_days?: number | null;
+  price_date?: string | null;
+  status?: HoldingStatus;
+  notes?: string | null;
+}
+
+/**
+ * A holding parsed from an import or provider, before accounts are resolved
+ */
+export interface HoldingRow extends HoldingInput {
+  external_id: string;
+  account_ref?: string | null; // Account number, id or name from the file
+}
+
+export interface HoldingWithLiquidity extends InvestmentHolding {
+  account_name: string | null;
+  value: number; // Market value plus accrued interest
+  days_to_maturity: number | null;
+  liquidity_bucket: LiquidityBucket;
+}
+
+export interface MaturityLadderRung {
+  key: string;
+  label: string;
+  max_days: number | null; // Upper bound of the band; null for open-ended holdings
+  amount: number; // In the reporting currency
+  holdings: number;
+  average_rate: number | null; // Value-weighted, over holdings with a rate
+}
+
+export interface LiquidityBucketTotal {
+  bucket: LiquidityBucket;
+  label: string;
+  amount: number; // In the reporting currency
+  holdings: number;
+  accounts: number;
+}
+
+export interface LiquidityBreakdown {
+  as_of: string;
+  currency: string;
+  buckets: LiquidityBucketTotal[];
+  total: number;
+  rate_date: string | null;
+  unconverted: string[]; // Currencies with no rate, left out of the amounts
+}
+
+export interface InvestmentPortfolio {
+  as_of: string;
+  reporting: ReportingContext;
+  holdings: HoldingWithLiquidity[];
+  ladder: MaturityLadderRung[];
+  liquidity: LiquidityBreakdown; // Holdings only
+  warnings: string[];
+}
+
+export interface HoldingImportResult {
+  imported: number;
+  errors: string[];
+}
+
+export interface PlaidHoldingsSyncResult {
+  connections: number;
+  holdings: number;
+  closed: number; // Previously synced holdings no longer reported
+  errors: string[];
+}
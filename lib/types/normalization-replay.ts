@@ -0,0 +1,63 @@
+/**
+ * Normalization replay TypeScript interfaces
+ * Re-normalizing stored raw provider transactions without calling the
+ * provider, and the record each replay leaves
+ */
+
+import type { FieldChange } from './sync-diff';
+
+export type NormalizationReplayStatus = 'running' | 'completed' | 'failed';
+
+export type NormalizationReplaySource = 'api' | 'cli';
+
+// A replay covers one connection, or every connection of a provider, optionally within a date range
+export interface NormalizationReplayScope {
+  connectionId?: string;
+  provider?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface ReplayCounts {
+  examined: number;
+  created: number;
+  updated: number;
+  restamped: number;
+  unchanged: number;
+  skipped: number;
+}
+
+export interface ReplayTransactionChange {
+  transactionId: string;
+  changes: FieldChange[];
+}
+
+export interface ConnectionReplayResult extends ReplayCounts {
+  connectionId: string;
+  provider: string;
+  normalizerVersion: number;
+  // Capped; `updated` counts every changed transaction
+  changes: ReplayTransactionChange[];
+  error?: string;
+}
+
+export interface NormalizationReplay {
+  id: string;
+  status: NormalizationReplayStatus;
+  scope: NormalizationReplayScope;
+  dry_run: boolean;
+  source: NormalizationReplaySource;
+  normalizer_versions: Record<string, number>;
+  connections_replayed: number;
+  transactions_examined: number;
+  transactions_created: number;
+  transactions_updated: number;
+  transactions_restamped: number;
+  transactions_unchanged: number;
+  transactions_skipped: number;
+  results: ConnectionReplayResult[];
+  error_message: string | null;
+  created_by: string | null;
+  started_at: string;
+  completed_at: string | null;
+}
@@ -0,0 +1,146 @@
+/**
+ * Payment TypeScript interfaces
+ * Payments move through an approval workflow before release to the bank
+ */
+
+export type PaymentStatus =
+  | 'Draft'
+  | 'Pending Approval'
+  | 'Approved'
+  | 'Rejected'
+  | 'Scheduled'
+  | 'Completed'
+  | 'Failed'
+  | 'Cancelled';
+
+export type PaymentPriority = 'Low' | 'Medium' | 'High' | 'Urgent';
+
+export type TenantRole = 'owner' | 'admin' | 'editor' | 'viewer';
+
+export interface ApprovalStep {
+  name: string; // e.g. "Treasury review", "CFO sign-off"
+  roles: TenantRole[]; // Roles allowed to approve this step
+  approvals: number; // Distinct approvers required
+}
+
+export interface ApprovalPolicy {
+  id: string;
+  tenant_id: string;
+  name: string;
+  currency?: string | null; // null = applies to all currencies
+  min_amount: number;
+  max_amount?: number | null; // null = no upper bound
+  steps: ApprovalStep[];
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PaymentApproval {
+  id: string;
+  tenant_id: string;
+  payment_id: string;
+  user_id: string;
+  user_email?: string | null;
+  role: TenantRole;
+  step_index: number;
+  decision: 'approved' | 'rejected';
+  comment?: string | null;
+  created_at: string;
+}
+
+export interface Payment {
+  payment_id: string;
+  tenant_id: string;
+  from_account: string; // accounts.account_id
+  to_entity: string; // Beneficiary name
+  amount: number;
+  currency: string;
+  scheduled_date: string;
+  status: PaymentStatus;
+  approver?: string | null;
+  description: string;
+  payment_type: string;
+  priority: PaymentPriority;
+  beneficiary_iban?: string | null;
+  beneficiary_bic?: string | null;
+  beneficiary_account_number?: string | null;
+  beneficiary_bank_name?: string | null;
+  beneficiary_routing_number?: string | null; // US ABA routing number (NACHA)
+  beneficiary_account_type?: 'checking' | 'savings' | null;
+  reference?: string | null;
+  payment_file_id?: string | null;
+  approval_policy_id?: string | null;
+  approval_chain?: ApprovalStep[] | null;
+  created_by?: string | null;
+  submitted_at?: string | null;
+  approved_at?: string | null;
+  rejected_at?: string | null;
+  rejection_reason?: string | null;
+  cancelled_at?: string | null;
+  released_at?: string | null;
+  completed_at?: string | null;
+  failure_reason?: string | null;
+  metadata?: Record<string, any>;
+  created_at: string;
+  updated_at: string;
+  approvals?: PaymentApproval[];
+}
+
+export interface CreatePaymentInput {
+  tenant_id: string;
+  from_account: string;
+  to_entity: string;
+  amount: number;
+  currency: string;
+  scheduled_date: string;
+  description: string;
+  payment_type: string;
+  priority?: PaymentPriority;
+  beneficiary_iban?: string;
+  beneficiary_bic?: string;
+  beneficiary_account_number?: string;
+  beneficiary_bank_name?: string;
+  beneficiary_routing_number?: string;
+  beneficiary_account_type?: 'checking' | 'savings';
+  reference?: string;
+  metadata?: Record<string, any>;
+  submit?: boolean; // Submit for approval immediately
+}
+
+export type PaymentAction = 'submit' | 'approve' | 'reject' | 'cancel' | 'release' | 'complete' | 'fail';
+
+export interface PaymentActionInput {
+  tenantId: string;
+  comment?: string;
+}
+
+export type PaymentFileFormat = 'pain.001.001.09' | 'nacha';
+
+export type PaymentFileStatus = 'generated' | 'downloaded' | 'transmitted' | 'void';
+
+export interface PaymentFile {
+  id: string;
+  tenant_id: string;
+  entity_id?: string | null;
+  format: PaymentFileFormat;
+  file_name: string;
+  content?: string; // Omitted from list responses
+  sha256: string;
+  message_id: string;
+  payment_count: number;
+  batch_count: number;
+  control_sum: number;
+  currency?: string | null;
+  status: PaymentFileStatus;
+  payment_ids: string[];
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreatePaymentFileInput {
+  tenantId: string;
+  paymentIds: string[];
+  format: PaymentFileFormat;
+}
@@ -0,0 +1,91 @@
+/**
+ * Reconciliation TypeScript interfaces
+ * Bank-feed transactions are matched to accounting ledger entries per account
+ */
+
+export type ReconciliationSide = 'bank' | 'ledger';
+
+export type ReconciliationMatchType = 'auto' | 'manual';
+
+export interface ReconciliationActor {
+  userId: string;
+  role: string; // user_tenants.role
+}
+
+export interface ReconciliationItem {
+  transaction_id: string;
+  side: ReconciliationSide;
+  date: string; // YYYY-MM-DD
+  amount: number; // Signed: debits negative
+  currency?: string | null;
+  description?: string | null;
+  reference?: string | null;
+  counterparty_name?: string | null;
+  provider_id?: string | null;
+}
+
+export interface ReconciliationMatch {
+  id: string;
+  tenant_id: string;
+  account_id: string; // accounts.account_id
+  match_type: ReconciliationMatchType;
+  status: 'active' | 'reversed';
+  score?: number | null;
+  reasons: string[];
+  bank_transaction_ids: string[];
+  ledger_transaction_ids: string[];
+  bank_amount: number;
+  ledger_amount: number;
+  currency?: string | null;
+  matched_by?: string | null;
+  matched_at: string;
+  reversed_by?: string | null;
+  reversed_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ReconciliationMatchWithItems extends ReconciliationMatch {
+  bank_items: ReconciliationItem[];
+  ledger_items: ReconciliationItem[];
+}
+
+/**
+ * A candidate match proposed by the engine, not yet persisted
+ */
+export interface MatchSuggestion {
+  bank_transaction_ids: string[];
+  ledger_transaction_ids: string[];
+  score: number; // 0-1
+  reasons: string[];
+}
+
+export interface ReconciliationSummary {
+  bank_count: number;
+  ledger_count: number;
+  matched_bank_count: number;
+  matched_ledger_count: number;
+  unmatched_bank_total: number;
+  unmatched_ledger_total: number;
+}
+
+export interface AccountReconciliation {
+  account_id: string;
+  account_name?: string | null;
+  currency?: string | null;
+  start_date: string;
+  end_date: string;
+  matches: ReconciliationMatchWithItems[];
+  unmatched_bank: ReconciliationItem[];
+  unmatched_ledger: ReconciliationItem[];
+  suggestions: MatchSuggestion[];
+  counterparts: ReconciliationItem[]; // Items just outside the period that suggestions refer to
+  summary: ReconciliationSummary;
+}
+
+export interface CreateReconciliationMatchInput {
+  tenantId: string;
+  accountId: string;
+  bankTransactionIds: string[];
+  ledgerTransactionIds: string[];
+}
@@ -0,0 +1,56 @@
+/**
+ * Sync dry-run TypeScript interfaces
+ * What a provider sync would change in accounts and transactions, computed
+ * from fetched and normalized data without saving it
+ */
+
+export interface FieldChange {
+  field: string;
+  before: string | number | null;
+  after: string | number | null;
+}
+
+export interface AccountDiffEntry {
+  externalAccountId: string;
+  accountName: string;
+  currency: string;
+  accountId: string | null; // Existing Stratiri account the provider account matched
+  changes: FieldChange[];
+}
+
+export interface TransactionDiffEntry {
+  transactionId: string;
+  accountId: string;
+  date: string;
+  amount: number;
+  currency: string;
+  description: string;
+  changes: FieldChange[];
+}
+
+export interface SyncDiffSummary {
+  accounts_new: number;
+  accounts_updated: number;
+  accounts_unchanged: number;
+  transactions_new: number;
+  transactions_changed: number;
+  transactions_unchanged: number;
+  transactions_missing: number;
+}
+
+export interface SyncDiff {
+  summary: SyncDiffSummary;
+  accounts: {
+    new: AccountDiffEntry[];
+    updated: AccountDiffEntry[];
+    unchanged: AccountDiffEntry[];
+  };
+  transactions: {
+    new: TransactionDiffEntry[];
+    changed: TransactionDiffEntry[];
+    // Saved for a fetched account within the fetched date range, but no longer returned by the provider
+    missing: TransactionDiffEntry[];
+  };
+  // Entry lists are capped; the summary counts everything
+  truncated: boolean;
+}
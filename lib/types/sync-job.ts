@@ -0,0 +1,79 @@
+/**
+ * Sync job queue TypeScript interfaces
+ * Provider syncs queued by cron schedules, admins and provider webhooks,
+ * leased and drained by the sync worker
+ */
+
+export type SyncJobStatus = 'queued' | 'running' | 'succeeded' | 'dead';
+
+export type SyncJobSource = 'schedule' | 'manual' | 'webhook';
+
+// Scope of a sync; empty means every account on the connection
+export interface SyncJobOptions {
+  accountIds?: string[]; // Provider account ids whose transactions to fetch
+}
+
+export interface SyncJobResultSummary {
+  accounts_synced: number;
+  transactions_synced: number;
+  duration_ms: number;
+  errors: string[];
+}
+
+export interface SyncJob {
+  id: string;
+  tenant_id: string;
+  connection_id: string;
+  provider: string;
+  source: SyncJobSource;
+  schedule: string | null;
+  options: SyncJobOptions;
+  priority: number;
+  status: SyncJobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  leased_by: string | null;
+  lease_expires_at: string | null;
+  heartbeat_at: string | null;
+  started_at: string | null;
+  finished_at: string | null;
+  last_error: string | null;
+  result: SyncJobResultSummary | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface EnqueueSyncJobInput {
+  tenantId: string;
+  connectionId: string;
+  provider: string;
+  source: SyncJobSource;
+  schedule?: string;
+  options?: SyncJobOptions;
+  priority?: number;
+  maxAttempts?: number;
+  createdBy?: string;
+}
+
+export interface EnqueueResult {
+  enqueued: number;
+  already_queued: number;
+}
+
+// What the worker does with a job after an attempt fails
+export interface RetryDecision {
+  status: Extract<SyncJobStatus, 'queued' | 'dead'>;
+  run_after: string | null;
+}
+
+export interface DrainResult {
+  worker_id: string;
+  reclaimed: number;
+  leased: number;
+  succeeded: number;
+  retried: number;
+  dead: number;
+  duration_ms: number;
+}
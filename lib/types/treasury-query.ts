@@ -0,0 +1,98 @@
+/**
+ * Natural-language treasury Q&A TypeScript interfaces
+ * The model only produces a query plan; the server validates it against a
+ * whitelist and runs it with tenant scoping
+ */
+
+export type QueryDataset = 'balances' | 'transactions' | 'accounts' | 'fx_rates';
+
+export type QueryMetric = 'sum' | 'count' | 'average' | 'min' | 'max';
+
+export type QueryGroupBy = 'none' | 'currency' | 'entity' | 'account' | 'bank' | 'category' | 'day' | 'month';
+
+export type ChartType = 'number' | 'bar' | 'line' | 'pie' | 'table';
+
+export interface TreasuryQueryFilters {
+  currencies: string[];
+  entityIds: string[]; // entities.entity_id
+  accountIds: string[]; // accounts.account_id
+  categories: string[];
+  direction?: 'credit' | 'debit' | null;
+  startDate?: string | null;
+  endDate?: string | null;
+  asOfDate?: string | null; // Balances: latest statement on or before this date
+  fxFrom?: string | null;
+  fxTo?: string | null;
+}
+
+export interface TreasuryQueryPlan {
+  dataset: QueryDataset;
+  metric: QueryMetric;
+  groupBy: QueryGroupBy;
+  filters: TreasuryQueryFilters;
+  reportingCurrency?: string | null; // Convert amounts before aggregating
+  chart: ChartType;
+  title: string;
+  limit: number;
+}
+
+/**
+ * What the planner is told about the tenant, and what plan ids are checked against
+ */
+export interface TreasuryQueryContext {
+  today: string;
+  entities: Array<{ entity_id: string; entity_name: string; jurisdiction?: string | null }>;
+  accounts: Array<{
+    account_id: string;
+    account_name: string;
+    currency?: string | null;
+    entity_id?: string | null;
+    bank_name?: string | null;
+  }>;
+  currencies: string[];
+  categories: string[];
+}
+
+/**
+ * One normalized record before aggregation
+ */
+export interface QueryRecord {
+  date?: string | null;
+  value: number; // Signed amount, balance or rate
+  currency?: string | null;
+  account_id?: string | null;
+  account_name?: string | null;
+  entity_id?: string | null;
+  entity_name?: string | null;
+  bank_name?: string | null;
+  category?: string | null;
+  description?: string | null;
+}
+
+export interface QueryResultRow {
+  group: string;
+  currency?: string | null;
+  value: number;
+  count: number;
+}
+
+export interface ChartSpec {
+  type: ChartType;
+  title: string;
+  xKey: string;
+  series: Array<{ key: string; label: string }>;
+  data: Array<Record<string, string | number | null>>;
+  currency?: string | null;
+}
+
+export interface TreasuryAnswer {
+  question: string;
+  answer: string;
+  plan: TreasuryQueryPlan;
+  rows: QueryResultRow[]; // Aggregated result
+  records: QueryRecord[]; // Underlying rows, capped at plan.limit
+  record_count: number;
+  truncated: boolean;
+  chart: ChartSpec;
+  warnings: string[];
+}
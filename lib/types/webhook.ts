@@ -0,0 +1,60 @@
+/**
+ * Provider webhook TypeScript interfaces
+ * Events pushed by Plaid, Tink and other providers, verified and routed to
+ * targeted syncs or connection status changes
+ */
+
+export type WebhookOutcome = 'sync_queued' | 'connection_updated' | 'ignored' | 'stale' | 'unmatched';
+
+// What an event asks us to do with the connection it concerns
+export type WebhookAction =
+  | { type: 'sync'; accountIds?: string[] }
+  | { type: 'reconnect_required'; message: string }
+  | { type: 'connection_restored' }
+  | { type: 'ignore'; reason: string };
+
+// A provider event reduced to what routing needs
+export interface ParsedWebhookEvent {
+  // Provider's id for the event, the same on every redelivery; null when the provider has none
+  eventId: string | null;
+  eventType: string;
+  eventCategory: string | null;
+  // Provider id the connection's token is stored under (provider_tokens.provider_user_id)
+  providerUserId: string | null;
+  resourceId: string | null;
+  action: WebhookAction;
+}
+
+// Result of signature verification; the signed time orders events and bounds replays
+export type WebhookVerification =
+  | { valid: true; signedAt: Date }
+  | { valid: false; reason: string };
+
+export interface WebhookEventRecord {
+  id: string;
+  provider: string;
+  event_type: string;
+  event_category: string | null;
+  resource_id: string | null;
+  payload: Record<string, unknown>;
+  raw_payload: string | null;
+  processed: boolean;
+  processed_at: string | null;
+  processing_error: string | null;
+  connection_id: string | null;
+  tenant_id: string | null;
+  idempotency_key: string | null;
+  occurred_at: string | null;
+  outcome: WebhookOutcome | null;
+  sync_job_id: string | null;
+  received_at: string;
+  created_at: string;
+}
+
+export interface WebhookIngestResult {
+  eventId: string | null;
+  duplicate: boolean;
+  outcome: WebhookOutcome | null;
+  connectionId: string | null;
+  syncJobId: string | null;
+}
@@ -70,3 +70,58 @@ export function convertToUSD(amount: number, currency: string): number {
   return amount * (exchangeRates[currency] || 1)
 }
 
+
+export function getSignedAmount(amount: number | string, type?: string | null): number {
+  // Provider syncs store absolute amounts with a credit/debit type, manual
+  // imports store signed amounts - normalize both to inflow-positive.
+  const value = Number(amount) || 0
+  const normalizedType = type?.toLowerCase()
+  if (normalizedType === 'debit') return -Math.abs(value)
+  if (normalizedType === 'credit') return Math.abs(value)
+  return value
+}
+
+// An account's balance as every total shows it: the current (ledger) balance,
+// else available, else the legacy balance column
+export function accountBalance(account: {
+  current_balance?: number | string | null
+  available_balance?: number | string | null
+  balance?: number | string | null
+}): number {
+  return Number(account.current_balance ?? account.available_balance ?? account.balance ?? 0) || 0
+}
+
+// PostgREST URL length limits how many ids fit in one .in() filter
+const ID_CHUNK_SIZE = 200
+
+export function chunk<T>(values: T[], size = ID_CHUNK_SIZE): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < values.length; i += size) chunks.push(values.slice(i, i + size))
+  return chunks
+}
+
+export function round(value: number, places = 2): number {
+  const factor = 10 ** places
+  return Math.round(value * factor) / factor
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Midnight UTC of a YYYY-MM-DD date, or of the date part of a timestamp
+function utcDay(date: string): number {
+  return Date.parse(`${date.slice(0, 10)}T00:00:00Z`)
+}
+
+// YYYY-MM-DD in UTC
+export function toDateString(date: Date | string): string {
+  return typeof date === 'string' ? date.slice(0, 10) : date.toISOString().split('T')[0]
+}
+
+export function shiftDate(date: string, days: number): string {
+  return toDateString(new Date(utcDay(date) + days * DAY_MS))
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((utcDay(to) - utcDay(from)) / DAY_MS)
+}
+
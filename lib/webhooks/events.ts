@@ -0,0 +1,152 @@
+// Webhook event routing
+// Reduces Plaid and Tink webhook payloads to the action they ask for: a sync
+// (of specific accounts where the provider says which), flagging the
+// connection for reconnection, or clearing that flag. Providers don't
+// guarantee delivery order, so events older than what we've already acted on
+// are discarded.
+
+import type { ParsedWebhookEvent, WebhookAction } from '../types/webhook';
+
+// =====================================================
+// Plaid
+// =====================================================
+
+export interface PlaidWebhookPayload {
+  webhook_type?: string;
+  webhook_code?: string;
+  item_id?: string;
+  account_id?: string;
+  error?: { error_code?: string; error_message?: string; display_message?: string | null } | null;
+}
+
+// Product updates that mean new or changed data is ready to fetch
+const PLAID_SYNC_CODES: Record<string, string[]> = {
+  TRANSACTIONS: ['SYNC_UPDATES_AVAILABLE', 'DEFAULT_UPDATE', 'INITIAL_UPDATE', 'HISTORICAL_UPDATE', 'TRANSACTIONS_REMOVED'],
+  HOLDINGS: ['DEFAULT_UPDATE'],
+  INVESTMENTS_TRANSACTIONS: ['DEFAULT_UPDATE', 'HISTORICAL_UPDATE'],
+  ITEM: ['NEW_ACCOUNTS_AVAILABLE'],
+};
+
+// Item events after which Plaid stops returning data until the user goes through Link again
+const PLAID_RECONNECT_CODES: Record<string, string> = {
+  PENDING_EXPIRATION: 'Bank consent is about to expire. Please reconnect the account.',
+  PENDING_DISCONNECT: 'Bank connection is about to be disconnected. Please reconnect the account.',
+  USER_PERMISSION_REVOKED: 'Access was revoked at the bank. Please reconnect the account.',
+  USER_ACCOUNT_REVOKED: 'Access to an account was revoked at the bank. Please reconnect the account.',
+};
+
+function plaidAction(payload: PlaidWebhookPayload): WebhookAction {
+  const type = payload.webhook_type || '';
+  const code = payload.webhook_code || '';
+
+  if (PLAID_SYNC_CODES[type]?.includes(code)) return { type: 'sync' };
+
+  if (type === 'ITEM') {
+    if (code === 'LOGIN_REPAIRED') return { type: 'connection_restored' };
+    if (PLAID_RECONNECT_CODES[code]) return { type: 'reconnect_required', message: PLAID_RECONNECT_CODES[code] };
+    if (code === 'ERROR' && payload.error?.error_code === 'ITEM_LOGIN_REQUIRED') {
+      return {
+        type: 'reconnect_required',
+        message: payload.error.display_message || 'Bank login details have changed. Please reconnect the account.',
+      };
+    }
+  }
+
+  return { type: 'ignore', reason: `Unhandled Plaid webhook ${type}.${code}` };
+}
+
+export function parsePlaidWebhook(payload: PlaidWebhookPayload): ParsedWebhookEvent {
+  return {
+    eventId: null, // Plaid events carry no id
+    eventType: payload.webhook_code || 'unknown',
+    eventCategory: payload.webhook_type || null,
+    providerUserId: payload.item_id || null, // Plaid item id, stored as the token's provider user id
+    resourceId: payload.account_id || payload.item_id || null,
+    action: plaidAction(payload),
+  };
+}
+
+// =====================================================
+// Tink
+// =====================================================
+
+export interface TinkWebhookPayload {
+  id?: string;
+  event?: string;
+  context?: { userId?: string; externalUserId?: string };
+  content?: {
+    account?: { id?: string };
+    credentialsId?: string;
+    credentialsStatus?: string;
+    detailedError?: { displayMessage?: string } | null;
+  };
+}
+
+// Credentials states that need the user to authenticate with their bank again
+const TINK_RECONNECT_STATUSES = ['AUTHENTICATION_ERROR', 'SESSION_EXPIRED', 'DELETED'];
+
+// Events about a single account's data
+const TINK_ACCOUNT_EVENTS = [
+  'account:created',
+  'account:updated',
+  'account-transactions:modified',
+  'account-booked-transactions:modified',
+];
+
+function tinkAction(payload: TinkWebhookPayload): WebhookAction {
+  const event = payload.event || '';
+  const content = payload.content || {};
+
+  if (TINK_ACCOUNT_EVENTS.includes(event)) {
+    return content.account?.id ? { type: 'sync', accountIds: [content.account.id] } : { type: 'sync' };
+  }
+
+  if (event === 'refresh:finished') {
+    const status = content.credentialsStatus || '';
+    if (status === 'UPDATED') return { type: 'sync' };
+    if (TINK_RECONNECT_STATUSES.includes(status)) {
+      return {
+        type: 'reconnect_required',
+        message: content.detailedError?.displayMessage || 'Bank session has expired. Please reconnect the account.',
+      };
+    }
+    // Temporary errors are retried by Tink's next refresh
+    return { type: 'ignore', reason: `Refresh finished with status ${status || 'unknown'}` };
+  }
+
+  return { type: 'ignore', reason: `Unhandled Tink webhook ${event || 'unknown'}` };
+}
+
+export function parseTinkWebhook(payload: TinkWebhookPayload): ParsedWebhookEvent {
+  return {
+    eventId: payload.id || null,
+    eventType: payload.event || 'unknown',
+    eventCategory: payload.event?.split(':')[0] || null,
+    providerUserId: payload.context?.userId || null,
+    resourceId: payload.content?.account?.id || payload.content?.credentialsId || null,
+    action: tinkAction(payload),
+  };
+}
+
+// =====================================================
+// Ordering
+// =====================================================
+
+/**
+ * Whether an event arrived after we already acted on something newer: a later
+ * status change for status events, or a successful sync started after the
+ * event for sync requests
+ */
+export function isWebhookEventStale(
+  action: WebhookAction,
+  occurredAt: Date,
+  latest: { statusChangedAt?: Date | null; syncStartedAt?: Date | null }
+): boolean {
+  if (action.type === 'reconnect_required' || action.type === 'connection_restored') {
+    return !!latest.statusChangedAt && latest.statusChangedAt > occurredAt;
+  }
+  if (action.type === 'sync') {
+    return !!latest.syncStartedAt && latest.syncStartedAt > occurredAt;
+  }
+  return false;
+}
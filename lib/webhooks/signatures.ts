@@ -0,0 +1,141 @@
+// Webhook signature verification
+// Plaid signs each webhook with an ES256 JWT carrying the SHA-256 of the body;
+// Tink signs `timestamp.body` with an HMAC shared secret. Both are rejected
+// once older than the replay window, so a captured request can't be resent.
+// Redeliveries are signed afresh, so events are deduplicated on their content.
+
+import { createHash, createHmac, createPublicKey, timingSafeEqual, verify } from 'crypto';
+import type { JsonWebKey } from 'crypto';
+import type { WebhookVerification } from '../types/webhook';
+
+// Signed events older (or further in the future) than this are treated as replays
+export const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+// An identical body received within this window is a redelivery; after it, a new
+// event (Plaid sends the same body for every SYNC_UPDATES_AVAILABLE on an item)
+export const WEBHOOK_DEDUP_WINDOW_SECONDS = 15 * 60;
+
+function sha256Hex(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function withinTolerance(signedAt: Date, now: Date): boolean {
+  return Math.abs(now.getTime() - signedAt.getTime()) <= WEBHOOK_TOLERANCE_SECONDS * 1000;
+}
+
+function decodeSegment<T>(segment: string): T | null {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Key for storing an event once. Events with a provider id are keyed on it;
+ * others on the body hash, which only holds within WEBHOOK_DEDUP_WINDOW_SECONDS.
+ */
+export function webhookIdempotencyKey(rawBody: string, eventId: string | null): string {
+  return eventId ? `event:${eventId}` : `body:${sha256Hex(rawBody)}`;
+}
+
+// =====================================================
+// Plaid
+// =====================================================
+
+interface PlaidJwtHeader {
+  alg?: string;
+  kid?: string;
+}
+
+interface PlaidJwtClaims {
+  iat?: number;
+  request_body_sha256?: string;
+}
+
+/**
+ * Verify the `Plaid-Verification` JWT. `getKey` resolves the signing key by
+ * key id, returning null for unknown or expired keys.
+ *
+ * @see https://plaid.com/docs/api/webhooks/webhook-verification/
+ */
+export async function verifyPlaidWebhook(
+  rawBody: string,
+  token: string | null,
+  getKey: (keyId: string) => Promise<JsonWebKey | null>,
+  now: Date = new Date()
+): Promise<WebhookVerification> {
+  if (!token) return { valid: false, reason: 'Missing Plaid-Verification header' };
+
+  const [encodedHeader, encodedClaims, encodedSignature] = token.split('.');
+  const header = encodedHeader ? decodeSegment<PlaidJwtHeader>(encodedHeader) : null;
+  const claims = encodedClaims ? decodeSegment<PlaidJwtClaims>(encodedClaims) : null;
+  if (!header || !claims || !encodedSignature) return { valid: false, reason: 'Malformed verification token' };
+
+  // Plaid only signs with ES256; anything else (including "none") is rejected
+  if (header.alg !== 'ES256' || !header.kid) return { valid: false, reason: 'Unsupported signing algorithm' };
+
+  const jwk = await getKey(header.kid);
+  if (!jwk) return { valid: false, reason: `Unknown signing key ${header.kid}` };
+
+  const signatureValid = verify(
+    'sha256',
+    Buffer.from(`${encodedHeader}.${encodedClaims}`),
+    { key: createPublicKey({ key: jwk, format: 'jwk' }), dsaEncoding: 'ieee-p1363' },
+    Buffer.from(encodedSignature, 'base64url')
+  );
+  if (!signatureValid) return { valid: false, reason: 'Invalid signature' };
+
+  if (typeof claims.iat !== 'number') return { valid: false, reason: 'Missing issued-at claim' };
+  const signedAt = new Date(claims.iat * 1000);
+  if (!withinTolerance(signedAt, now)) return { valid: false, reason: 'Signature outside replay window' };
+
+  if (!claims.request_body_sha256 || !safeEqual(claims.request_body_sha256, sha256Hex(rawBody))) {
+    return { valid: false, reason: 'Body does not match signature' };
+  }
+
+  return { valid: true, signedAt };
+}
+
+// =====================================================
+// Tink
+// =====================================================
+
+/**
+ * Verify the `X-Tink-Signature` header (`t=<unix seconds>,v1=<hex hmac>`)
+ *
+ * @see https://docs.tink.com/resources/webhooks
+ */
+export function verifyTinkWebhook(
+  rawBody: string,
+  header: string | null,
+  secret: string,
+  now: Date = new Date()
+): WebhookVerification {
+  if (!header) return { valid: false, reason: 'Missing X-Tink-Signature header' };
+
+  const parts = Object.fromEntries(
+    header.split(',').map((part) => {
+      const [key, ...value] = part.trim().split('=');
+      return [key, value.join('=')];
+    })
+  );
+  const timestamp = Number(parts.t);
+  if (!parts.t || !Number.isFinite(timestamp) || !parts.v1) {
+    return { valid: false, reason: 'Malformed signature header' };
+  }
+
+  const expected = createHmac('sha256', secret).update(`${parts.t}.${rawBody}`).digest('hex');
+  if (!safeEqual(parts.v1, expected)) return { valid: false, reason: 'Invalid signature' };
+
+  const signedAt = new Date(timestamp * 1000);
+  if (!withinTolerance(signedAt, now)) return { valid: false, reason: 'Signature outside replay window' };
+
+  return { valid: true, signedAt };
+}
@@ -0,0 +1,45 @@
+-- Migration 56: Rolling Cash Forecasts
+-- Extends the legacy forecasts table so the forecast service can write
+-- 13-week rolling projections per entity/currency with confidence bands,
+-- and backfill actual balances from account_statements.
+
+-- =====================================================
+-- Forecast columns
+-- =====================================================
+
+ALTER TABLE forecasts
+  ADD COLUMN IF NOT EXISTS lower_bound DECIMAL(15, 2),
+  ADD COLUMN IF NOT EXISTS upper_bound DECIMAL(15, 2),
+  ADD COLUMN IF NOT EXISTS horizon_week INTEGER,
+  ADD COLUMN IF NOT EXISTS opening_balance DECIMAL(15, 2),
+  ADD COLUMN IF NOT EXISTS predicted_inflows DECIMAL(15, 2),
+  ADD COLUMN IF NOT EXISTS predicted_outflows DECIMAL(15, 2),
+  ADD COLUMN IF NOT EXISTS method TEXT NOT NULL DEFAULT 'manual',
+  ADD COLUMN IF NOT EXISTS generated_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS actuals_updated_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS metadata JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- =====================================================
+-- Indexes
+-- =====================================================
+
+-- One rolling forecast point per entity/currency/date, category and horizon,
+-- so later runs don't overwrite what earlier runs predicted for the same date
+CREATE UNIQUE INDEX IF NOT EXISTS idx_forecasts_rolling_point
+  ON forecasts (tenant_id, entity_id, currency, category, date, horizon_week);
+
+-- Finding forecast points that still need actuals
+CREATE INDEX IF NOT EXISTS idx_forecasts_pending_actuals
+  ON forecasts (tenant_id, date)
+  WHERE actual_balance IS NULL;
+
+-- =====================================================
+-- Comments
+-- =====================================================
+
+COMMENT ON COLUMN forecasts.lower_bound IS 'Lower edge of the forecast confidence band';
+COMMENT ON COLUMN forecasts.upper_bound IS 'Upper edge of the forecast confidence band';
+COMMENT ON COLUMN forecasts.horizon_week IS 'Weeks ahead of the generation date (1-13) for rolling forecasts; each horizon keeps its own prediction for a date';
+COMMENT ON COLUMN forecasts.method IS 'How the row was produced: manual, rolling_13_week';
+COMMENT ON COLUMN forecasts.metadata IS 'Recurring flows and residual statistics used for the projection';
+COMMENT ON COLUMN forecasts.actuals_updated_at IS 'When actual_balance/variance were last backfilled from account_statements';
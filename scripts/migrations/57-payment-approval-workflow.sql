@@ -0,0 +1,147 @@
+-- Migration 57: Payment Approval Workflow
+-- Extends payments with workflow state and beneficiary details, and adds
+-- tenant-configurable approval policies plus an approval decision log.
+
+-- =====================================================
+-- Payments: workflow columns
+-- =====================================================
+
+ALTER TABLE payments
+  ADD COLUMN IF NOT EXISTS beneficiary_iban TEXT,
+  ADD COLUMN IF NOT EXISTS beneficiary_bic TEXT,
+  ADD COLUMN IF NOT EXISTS beneficiary_account_number TEXT,
+  ADD COLUMN IF NOT EXISTS beneficiary_bank_name TEXT,
+  ADD COLUMN IF NOT EXISTS reference TEXT,
+  ADD COLUMN IF NOT EXISTS approval_policy_id UUID,
+  ADD COLUMN IF NOT EXISTS approval_chain JSONB,
+  ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS approved_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS rejected_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS rejection_reason TEXT,
+  ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS released_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS failure_reason TEXT,
+  ADD COLUMN IF NOT EXISTS metadata JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Allow the new workflow states
+ALTER TABLE payments DROP CONSTRAINT IF EXISTS payments_status_check;
+ALTER TABLE payments
+  ADD CONSTRAINT payments_status_check CHECK (status IN (
+    'Draft',
+    'Pending Approval',
+    'Approved',
+    'Rejected',
+    'Scheduled',
+    'Completed',
+    'Failed',
+    'Cancelled'
+  ));
+
+ALTER TABLE payments ALTER COLUMN status SET DEFAULT 'Draft';
+
+CREATE INDEX IF NOT EXISTS idx_payments_tenant_status
+  ON payments (tenant_id, status, scheduled_date);
+
+-- =====================================================
+-- Approval Policies
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS payment_approval_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  currency TEXT, -- NULL = all currencies
+  min_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  max_amount DECIMAL(15, 2), -- NULL = no upper bound
+  steps JSONB NOT NULL DEFAULT '[{"name":"Approval","roles":["admin","owner"],"approvals":1}]'::jsonb,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT payment_approval_policies_amount_range CHECK (max_amount IS NULL OR max_amount > min_amount)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_approval_policies_tenant
+  ON payment_approval_policies (tenant_id, is_active, min_amount);
+
+ALTER TABLE payments
+  DROP CONSTRAINT IF EXISTS payments_approval_policy_id_fkey;
+ALTER TABLE payments
+  ADD CONSTRAINT payments_approval_policy_id_fkey
+  FOREIGN KEY (approval_policy_id) REFERENCES payment_approval_policies(id) ON DELETE SET NULL;
+
+-- =====================================================
+-- Approval Decisions
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS payment_approvals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  payment_id TEXT NOT NULL REFERENCES payments(payment_id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  user_email TEXT,
+  role TEXT NOT NULL,
+  step_index INTEGER NOT NULL,
+  decision TEXT NOT NULL CHECK (decision IN ('approved', 'rejected')),
+  comment TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- Each user decides at most once per payment
+  CONSTRAINT payment_approvals_payment_user_unique UNIQUE (payment_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_approvals_payment
+  ON payment_approvals (payment_id, step_index);
+
+-- =====================================================
+-- Triggers
+-- =====================================================
+
+DROP TRIGGER IF EXISTS update_payment_approval_policies_updated_at ON payment_approval_policies;
+CREATE TRIGGER update_payment_approval_policies_updated_at
+  BEFORE UPDATE ON payment_approval_policies
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- RLS Policies
+-- =====================================================
+
+ALTER TABLE payment_approval_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_approvals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their tenant's approval policies"
+ON payment_approval_policies FOR SELECT
+USING (
+  tenant_id IN (
+    SELECT tenant_id FROM user_tenants WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Admins can manage approval policies"
+ON payment_approval_policies FOR ALL
+USING (
+  tenant_id IN (
+    SELECT tenant_id FROM user_tenants
+    WHERE user_id = auth.uid() AND role IN ('owner', 'admin')
+  )
+);
+
+CREATE POLICY "Users can view their tenant's payment approvals"
+ON payment_approvals FOR SELECT
+USING (
+  tenant_id IN (
+    SELECT tenant_id FROM user_tenants WHERE user_id = auth.uid()
+  )
+);
+
+-- Approvals are written by the API (service role) after workflow checks
+
+-- =====================================================
+-- Comments
+-- =====================================================
+
+COMMENT ON TABLE payment_approval_policies IS 'Amount/currency-based approval chains for payments';
+COMMENT ON COLUMN payment_approval_policies.steps IS 'Ordered approval steps: [{name, roles, approvals}]';
+COMMENT ON TABLE payment_approvals IS 'Approve/reject decisions recorded against payments';
+COMMENT ON COLUMN payments.approval_chain IS 'Snapshot of the approval steps applied when the payment was submitted';
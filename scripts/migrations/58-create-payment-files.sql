@@ -0,0 +1,86 @@
+-- Migration 58: Payment Files
+-- Stores generated bank payment files (ISO 20022 pain.001, NACHA) with a
+-- content hash, and links exported payments back to the file they went out in.
+
+-- =====================================================
+-- Payments: file linkage and US beneficiary details
+-- =====================================================
+
+ALTER TABLE payments
+  ADD COLUMN IF NOT EXISTS beneficiary_routing_number TEXT,
+  ADD COLUMN IF NOT EXISTS beneficiary_account_type TEXT
+    CHECK (beneficiary_account_type IS NULL OR beneficiary_account_type IN ('checking', 'savings')),
+  ADD COLUMN IF NOT EXISTS payment_file_id UUID;
+
+-- =====================================================
+-- Payment Files
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS payment_files (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  entity_id TEXT,
+  format TEXT NOT NULL CHECK (format IN ('pain.001.001.09', 'nacha')),
+  file_name TEXT NOT NULL,
+  content TEXT NOT NULL,
+  sha256 TEXT NOT NULL,
+  message_id TEXT NOT NULL,
+  payment_count INTEGER NOT NULL,
+  batch_count INTEGER NOT NULL,
+  control_sum DECIMAL(18, 2) NOT NULL,
+  currency TEXT,
+  status TEXT NOT NULL DEFAULT 'generated' CHECK (status IN ('generated', 'downloaded', 'transmitted', 'void')),
+  payment_ids TEXT[] NOT NULL DEFAULT '{}',
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- The same bytes must never be generated (and sent) twice
+  CONSTRAINT payment_files_tenant_sha256_unique UNIQUE (tenant_id, sha256)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_files_tenant_created
+  ON payment_files (tenant_id, created_at DESC);
+
+ALTER TABLE payments
+  DROP CONSTRAINT IF EXISTS payments_payment_file_id_fkey;
+ALTER TABLE payments
+  ADD CONSTRAINT payments_payment_file_id_fkey
+  FOREIGN KEY (payment_file_id) REFERENCES payment_files(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_payments_payment_file
+  ON payments (payment_file_id)
+  WHERE payment_file_id IS NOT NULL;
+
+-- =====================================================
+-- Triggers
+-- =====================================================
+
+DROP TRIGGER IF EXISTS update_payment_files_updated_at ON payment_files;
+CREATE TRIGGER update_payment_files_updated_at
+  BEFORE UPDATE ON payment_files
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- RLS Policies
+-- =====================================================
+
+ALTER TABLE payment_files ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their tenant's payment files"
+ON payment_files FOR SELECT
+USING (
+  tenant_id IN (
+    SELECT tenant_id FROM user_tenants WHERE user_id = auth.uid()
+  )
+);
+
+-- Files are written by the API (service role) after validation
+
+-- =====================================================
+-- Comments
+-- =====================================================
+
+COMMENT ON TABLE payment_files IS 'Generated bank payment files (pain.001 XML, NACHA ACH)';
+COMMENT ON COLUMN payment_files.sha256 IS 'SHA-256 of the file content, for integrity checks against what the bank received';
+COMMENT ON COLUMN payment_files.control_sum IS 'Sum of instructed amounts in the file';
+COMMENT ON COLUMN payments.payment_file_id IS 'Payment file this payment was exported in';
@@ -0,0 +1,96 @@
+-- Migration 59: Bank Reconciliation
+-- Persists matches between bank-feed transactions and accounting ledger
+-- entries (Xero) on the same account. A match can pair one-to-one,
+-- one-to-many or many-to-one; each transaction sits in at most one active match.
+
+-- =====================================================
+-- Reconciliation Matches
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS reconciliation_matches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  account_id TEXT NOT NULL, -- accounts.account_id
+  match_type TEXT NOT NULL CHECK (match_type IN ('auto', 'manual')),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'reversed')),
+  score DECIMAL(5, 4), -- Engine confidence 0-1; NULL for manual matches
+  reasons TEXT[] NOT NULL DEFAULT '{}',
+  bank_transaction_ids TEXT[] NOT NULL,
+  ledger_transaction_ids TEXT[] NOT NULL,
+  bank_amount DECIMAL(18, 2) NOT NULL,
+  ledger_amount DECIMAL(18, 2) NOT NULL,
+  currency TEXT,
+  matched_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  matched_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  reversed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reversed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_matches_account
+  ON reconciliation_matches (tenant_id, account_id, status);
+
+-- =====================================================
+-- Match Items
+-- One row per transaction in an active match; removed on unmatch so the
+-- unique index guarantees a transaction is never matched twice
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS reconciliation_match_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  match_id UUID NOT NULL REFERENCES reconciliation_matches(id) ON DELETE CASCADE,
+  account_id TEXT NOT NULL,
+  transaction_id TEXT NOT NULL REFERENCES transactions(transaction_id) ON DELETE CASCADE,
+  side TEXT NOT NULL CHECK (side IN ('bank', 'ledger')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT reconciliation_match_items_transaction_unique UNIQUE (tenant_id, transaction_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_match_items_match
+  ON reconciliation_match_items (match_id);
+CREATE INDEX IF NOT EXISTS idx_reconciliation_match_items_account
+  ON reconciliation_match_items (tenant_id, account_id);
+
+-- =====================================================
+-- Triggers
+-- =====================================================
+
+DROP TRIGGER IF EXISTS update_reconciliation_matches_updated_at ON reconciliation_matches;
+CREATE TRIGGER update_reconciliation_matches_updated_at
+  BEFORE UPDATE ON reconciliation_matches
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- RLS Policies
+-- =====================================================
+
+ALTER TABLE reconciliation_matches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reconciliation_match_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their tenant's reconciliation matches"
+ON reconciliation_matches FOR SELECT
+USING (
+  tenant_id IN (
+    SELECT tenant_id FROM user_tenants WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can view their tenant's reconciliation match items"
+ON reconciliation_match_items FOR SELECT
+USING (
+  tenant_id IN (
+    SELECT tenant_id FROM user_tenants WHERE user_id = auth.uid()
+  )
+);
+
+-- Matches are written by the API (service role) after validation
+
+-- =====================================================
+-- Comments
+-- =====================================================
+
+COMMENT ON TABLE reconciliation_matches IS 'Bank-to-ledger reconciliation matches; reversed matches are kept for audit';
+COMMENT ON COLUMN reconciliation_matches.score IS 'Matching engine score (amount, date, reference, counterparty) for auto matches';
+COMMENT ON TABLE reconciliation_match_items IS 'Transactions in active reconciliation matches';
@@ -0,0 +1,124 @@
+-- Migration 60: Categorization Rules
+-- Tenant-defined rules that assign a normalized category (transaction_categories),
+-- GL code and cost center to transactions after each sync. Rules are evaluated
+-- in priority order and the first match wins.
+
+-- =====================================================
+-- Categorization Rules
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS categorization_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  priority INTEGER NOT NULL DEFAULT 100, -- Lower runs first
+  is_active BOOLEAN NOT NULL DEFAULT true,
+
+  -- Conditions (all set conditions must hold)
+  description_pattern TEXT, -- Case-insensitive regular expression, no nested quantifiers
+  counterparty_pattern TEXT, -- Case-insensitive regular expression, no nested quantifiers
+  amount_min DECIMAL(18, 2), -- Absolute amount, inclusive
+  amount_max DECIMAL(18, 2),
+  direction TEXT CHECK (direction IS NULL OR direction IN ('credit', 'debit')),
+  account_ids TEXT[] NOT NULL DEFAULT '{}', -- accounts.account_id; empty = any
+  currencies TEXT[] NOT NULL DEFAULT '{}', -- empty = any
+
+  -- Assignments
+  category_code VARCHAR(50) REFERENCES transaction_categories(category_code),
+  gl_code TEXT,
+  cost_center TEXT,
+
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT categorization_rules_assigns_something
+    CHECK (category_code IS NOT NULL OR gl_code IS NOT NULL OR cost_center IS NOT NULL),
+  CONSTRAINT categorization_rules_amount_range
+    CHECK (amount_min IS NULL OR amount_max IS NULL OR amount_min <= amount_max)
+);
+
+CREATE INDEX IF NOT EXISTS idx_categorization_rules_tenant_priority
+  ON categorization_rules (tenant_id, priority, created_at)
+  WHERE is_active = true;
+
+-- =====================================================
+-- Re-apply Runs
+-- Bulk re-application of the rule set to historical transactions
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS categorization_rule_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  scope JSONB NOT NULL DEFAULT '{}', -- { startDate, endDate, accountId }
+  transactions_scanned INTEGER NOT NULL DEFAULT 0,
+  transactions_updated INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_categorization_rule_runs_tenant
+  ON categorization_rule_runs (tenant_id, started_at DESC);
+
+-- =====================================================
+-- Transactions: rule assignments
+-- =====================================================
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS provider_category TEXT,
+  ADD COLUMN IF NOT EXISTS gl_code TEXT,
+  ADD COLUMN IF NOT EXISTS cost_center TEXT,
+  ADD COLUMN IF NOT EXISTS category_source TEXT
+    CHECK (category_source IS NULL OR category_source IN ('provider', 'rule', 'manual')),
+  ADD COLUMN IF NOT EXISTS categorization_rule_id UUID REFERENCES categorization_rules(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS categorized_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_categorization_rule
+  ON transactions (categorization_rule_id)
+  WHERE categorization_rule_id IS NOT NULL;
+
+-- =====================================================
+-- Triggers
+-- =====================================================
+
+DROP TRIGGER IF EXISTS update_categorization_rules_updated_at ON categorization_rules;
+CREATE TRIGGER update_categorization_rules_updated_at
+  BEFORE UPDATE ON categorization_rules
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- RLS Policies
+-- =====================================================
+
+ALTER TABLE categorization_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE categorization_rule_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their tenant's categorization rules"
+ON categorization_rules FOR SELECT
+USING (
+  tenant_id IN (
+    SELECT tenant_id FROM user_tenants WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can view their tenant's categorization rule runs"
+ON categorization_rule_runs FOR SELECT
+USING (
+  tenant_id IN (
+    SELECT tenant_id FROM user_tenants WHERE user_id = auth.uid()
+  )
+);
+
+-- Rules and runs are written by the API (service role) after validation
+
+-- =====================================================
+-- Comments
+-- =====================================================
+
+COMMENT ON TABLE categorization_rules IS 'Tenant-defined transaction categorization rules, first match by priority wins';
+COMMENT ON COLUMN transactions.provider_category IS 'Category as sent by the provider, restored when no rule matches any more';
+COMMENT ON COLUMN transactions.category_source IS 'provider, rule or manual; rules never overwrite manual categories';
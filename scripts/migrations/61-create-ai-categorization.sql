@@ -0,0 +1,110 @@
+-- Migration 61: AI Categorization
+-- Uncategorized transactions are sent to the model in batches, keyed by a
+-- normalized description so the same merchant is never sent twice. High-confidence
+-- suggestions are applied; the rest wait in a review queue, and accepted ones
+-- can be turned into deterministic categorization rules.
+
+-- =====================================================
+-- Description Cache
+-- One model answer (or human-confirmed answer) per normalized description
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS ai_categorization_cache (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  description_key TEXT NOT NULL, -- Lower case, digits and punctuation stripped
+  category_code VARCHAR(50) NOT NULL REFERENCES transaction_categories(category_code),
+  counterparty_name TEXT,
+  confidence DECIMAL(4, 3) NOT NULL CHECK (confidence >= 0 AND confidence <= 1),
+  source TEXT NOT NULL DEFAULT 'model' CHECK (source IN ('model', 'review')),
+  model TEXT, -- Model that produced the answer; NULL when confirmed by a reviewer
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT ai_categorization_cache_unique_key UNIQUE (tenant_id, description_key)
+);
+
+-- =====================================================
+-- Suggestions / Review Queue
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS ai_categorization_suggestions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  transaction_id TEXT NOT NULL REFERENCES transactions(transaction_id) ON DELETE CASCADE,
+  description_key TEXT NOT NULL,
+  category_code VARCHAR(50) NOT NULL REFERENCES transaction_categories(category_code),
+  counterparty_name TEXT,
+  confidence DECIMAL(4, 3) NOT NULL CHECK (confidence >= 0 AND confidence <= 1),
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'applied', 'accepted', 'rejected')),
+  rule_id UUID REFERENCES categorization_rules(id) ON DELETE SET NULL,
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT ai_categorization_suggestions_unique_tx UNIQUE (tenant_id, transaction_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_categorization_suggestions_queue
+  ON ai_categorization_suggestions (tenant_id, status, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_ai_categorization_suggestions_key
+  ON ai_categorization_suggestions (tenant_id, description_key)
+  WHERE status = 'pending';
+
+-- =====================================================
+-- Transactions: AI as a category source
+-- =====================================================
+
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_category_source_check;
+ALTER TABLE transactions ADD CONSTRAINT transactions_category_source_check
+  CHECK (category_source IS NULL OR category_source IN ('provider', 'rule', 'ai', 'manual'));
+
+-- =====================================================
+-- Triggers
+-- =====================================================
+
+DROP TRIGGER IF EXISTS update_ai_categorization_cache_updated_at ON ai_categorization_cache;
+CREATE TRIGGER update_ai_categorization_cache_updated_at
+  BEFORE UPDATE ON ai_categorization_cache
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_ai_categorization_suggestions_updated_at ON ai_categorization_suggestions;
+CREATE TRIGGER update_ai_categorization_suggestions_updated_at
+  BEFORE UPDATE ON ai_categorization_suggestions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- RLS Policies
+-- =====================================================
+
+ALTER TABLE ai_categorization_cache ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ai_categorization_suggestions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their tenant's AI categorization cache"
+ON ai_categorization_cache FOR SELECT
+USING (
+  tenant_id IN (
+    SELECT tenant_id FROM user_tenants WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can view their tenant's AI categorization suggestions"
+ON ai_categorization_suggestions FOR SELECT
+USING (
+  tenant_id IN (
+    SELECT tenant_id FROM user_tenants WHERE user_id = auth.uid()
+  )
+);
+
+-- Cache entries and suggestions are written by the API (service role)
+
+-- =====================================================
+-- Comments
+-- =====================================================
+
+COMMENT ON TABLE ai_categorization_cache IS 'Model categorization answers per normalized description; a hit skips the model call';
+COMMENT ON TABLE ai_categorization_suggestions IS 'Per-transaction AI suggestions; pending rows are the human review queue';
+COMMENT ON COLUMN transactions.category_source IS 'provider, rule, ai or manual; rules override ai but never manual categories';
@@ -0,0 +1,94 @@
+-- Migration 62: Intercompany Transfers
+-- Pairs an outgoing transaction on one entity's account with the incoming one on
+-- another entity's account. Both legs are tagged so consolidated cash-flow figures
+-- can leave them out, and the pairs feed the intercompany balance matrix.
+
+-- =====================================================
+-- Intercompany Matches
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS intercompany_matches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'reversed')),
+  match_type TEXT NOT NULL CHECK (match_type IN ('auto', 'manual')),
+  score DECIMAL(4, 3),
+  reasons TEXT[] NOT NULL DEFAULT '{}',
+
+  outgoing_transaction_id TEXT NOT NULL REFERENCES transactions(transaction_id) ON DELETE CASCADE,
+  incoming_transaction_id TEXT NOT NULL REFERENCES transactions(transaction_id) ON DELETE CASCADE,
+  from_entity_id TEXT NOT NULL,
+  to_entity_id TEXT NOT NULL,
+  from_account_id TEXT NOT NULL, -- accounts.account_id
+  to_account_id TEXT NOT NULL,
+  outgoing_date DATE NOT NULL,
+  incoming_date DATE NOT NULL,
+  outgoing_amount DECIMAL(18, 2) NOT NULL, -- Absolute
+  outgoing_currency TEXT NOT NULL,
+  incoming_amount DECIMAL(18, 2) NOT NULL, -- Absolute
+  incoming_currency TEXT NOT NULL,
+  difference DECIMAL(18, 2), -- Expected minus received, incoming currency (fees, FX slippage)
+
+  matched_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reversed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reversed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT intercompany_matches_distinct_entities CHECK (from_entity_id <> to_entity_id)
+);
+
+-- A transaction belongs to at most one active intercompany pair
+CREATE UNIQUE INDEX IF NOT EXISTS idx_intercompany_matches_outgoing_active
+  ON intercompany_matches (tenant_id, outgoing_transaction_id)
+  WHERE status = 'active';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_intercompany_matches_incoming_active
+  ON intercompany_matches (tenant_id, incoming_transaction_id)
+  WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS idx_intercompany_matches_tenant_date
+  ON intercompany_matches (tenant_id, status, outgoing_date);
+
+-- =====================================================
+-- Transactions: intercompany tag
+-- =====================================================
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS intercompany_match_id UUID REFERENCES intercompany_matches(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_intercompany_match
+  ON transactions (intercompany_match_id)
+  WHERE intercompany_match_id IS NOT NULL;
+
+-- =====================================================
+-- Triggers
+-- =====================================================
+
+DROP TRIGGER IF EXISTS update_intercompany_matches_updated_at ON intercompany_matches;
+CREATE TRIGGER update_intercompany_matches_updated_at
+  BEFORE UPDATE ON intercompany_matches
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- RLS Policies
+-- =====================================================
+
+ALTER TABLE intercompany_matches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their tenant's intercompany matches"
+ON intercompany_matches FOR SELECT
+USING (
+  tenant_id IN (
+    SELECT tenant_id FROM user_tenants WHERE user_id = auth.uid()
+  )
+);
+
+-- Matches are written by the API (service role) after validation
+
+-- =====================================================
+-- Comments
+-- =====================================================
+
+COMMENT ON TABLE intercompany_matches IS 'Transfers between entities of the same tenant; reversed matches are kept for audit';
+COMMENT ON COLUMN transactions.intercompany_match_id IS 'Active intercompany pair; tagged legs are excluded from consolidated cash flow';
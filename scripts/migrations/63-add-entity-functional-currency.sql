@@ -0,0 +1,13 @@
+-- Migration 63: Entity Functional Currency
+-- FX exposure is measured against the currency an entity reports in. Entities
+-- without one are treated as USD, matching the existing consolidation.
+
+ALTER TABLE entities
+  ADD COLUMN IF NOT EXISTS functional_currency TEXT
+  CHECK (functional_currency IS NULL OR functional_currency ~ '^[A-Z]{3}$');
+
+-- =====================================================
+-- Comments
+-- =====================================================
+
+COMMENT ON COLUMN entities.functional_currency IS 'ISO 4217 code the entity reports in; NULL = USD';
@@ -0,0 +1,201 @@
+-- Migration 64: FX Rate Sources
+-- Rates can come from several sources (Open Exchange Rates, ECB reference rates,
+-- tenant uploads of official central bank rates). fx_rates keeps one row per
+-- source, tenant uploads are private to the tenant, and each tenant sets which
+-- source wins for a currency pair.
+
+-- =====================================================
+-- fx_rates: one row per source, tenant-scoped uploads
+-- =====================================================
+
+ALTER TABLE public.fx_rates
+  ADD COLUMN IF NOT EXISTS tenant_id UUID REFERENCES tenants(id) ON DELETE CASCADE; -- NULL = shared market feed
+
+ALTER TABLE public.fx_rates
+DROP CONSTRAINT IF EXISTS fx_rates_unique_entry;
+
+ALTER TABLE public.fx_rates
+ADD CONSTRAINT fx_rates_unique_entry
+  UNIQUE NULLS NOT DISTINCT (currency_from, currency_to, date, rate_type, source, tenant_id);
+
+CREATE INDEX IF NOT EXISTS idx_fx_rates_tenant
+  ON public.fx_rates (tenant_id)
+  WHERE tenant_id IS NOT NULL;
+
+-- Shared rates stay public; uploads are visible to their tenant only
+DROP POLICY IF EXISTS "Everyone can view fx rates" ON public.fx_rates;
+
+CREATE POLICY "Users can view shared and their tenant's fx rates"
+ON public.fx_rates FOR SELECT
+USING (
+  tenant_id IS NULL OR tenant_id IN (
+    SELECT tenant_id FROM user_tenants WHERE user_id = auth.uid()
+  )
+);
+
+-- =====================================================
+-- Source precedence per tenant and currency pair
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS fx_source_preferences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  currency_from TEXT NOT NULL DEFAULT '*', -- '*' = any currency
+  currency_to TEXT NOT NULL DEFAULT '*',
+  sources TEXT[] NOT NULL, -- First source with a rate wins
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT fx_source_preferences_pair_unique UNIQUE (tenant_id, currency_from, currency_to),
+  CONSTRAINT fx_source_preferences_sources_not_empty CHECK (cardinality(sources) > 0)
+);
+
+DROP TRIGGER IF EXISTS update_fx_source_preferences_updated_at ON fx_source_preferences;
+CREATE TRIGGER update_fx_source_preferences_updated_at
+  BEFORE UPDATE ON fx_source_preferences
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE fx_source_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their tenant's fx source preferences"
+ON fx_source_preferences FOR SELECT
+USING (
+  tenant_id IN (
+    SELECT tenant_id FROM user_tenants WHERE user_id = auth.uid()
+  )
+);
+
+-- Preferences are written by the API (service role) after validation
+
+-- =====================================================
+-- Functions
+-- =====================================================
+
+-- Shared-feed lookup, now deterministic when several sources have the same
+-- date: direct quotes win over calculated inverses
+CREATE OR REPLACE FUNCTION public.get_fx_rate(
+  p_currency_from TEXT,
+  p_currency_to TEXT,
+  p_date DATE DEFAULT CURRENT_DATE,
+  p_rate_type TEXT DEFAULT 'SPOT'
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_rate NUMERIC;
+BEGIN
+  SELECT rate INTO v_rate
+  FROM public.fx_rates
+  WHERE currency_from = p_currency_from
+    AND currency_to = p_currency_to
+    AND tenant_id IS NULL
+    AND date <= p_date
+    AND date >= (p_date - INTERVAL '2 years')
+    AND rate_type = p_rate_type
+  ORDER BY date DESC, (source LIKE '%\_calculated') ASC, source ASC
+  LIMIT 1;
+
+  RETURN v_rate;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_monthly_average(
+  p_currency_from TEXT,
+  p_currency_to TEXT,
+  p_month_date DATE
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_avg_rate NUMERIC;
+BEGIN
+  -- One rate per day, picked the same way get_fx_rate does
+  SELECT AVG(daily.rate) INTO v_avg_rate
+  FROM (
+    SELECT DISTINCT ON (date) rate
+    FROM public.fx_rates
+    WHERE currency_from = p_currency_from
+      AND currency_to = p_currency_to
+      AND tenant_id IS NULL
+      AND date_trunc('month', date) = date_trunc('month', p_month_date)
+      AND rate_type = 'SPOT'
+    ORDER BY date, (source LIKE '%\_calculated') ASC, source ASC
+  ) daily;
+
+  RETURN v_avg_rate;
+END;
+$$;
+
+-- Tenant lookup: walks the tenant's source precedence for the pair (most
+-- specific preference first) and returns the rate with the source and date it
+-- came from. A source matches its own quotes and the inverses calculated from
+-- them. Falls back to any shared source when no preferred source has a rate.
+CREATE OR REPLACE FUNCTION public.get_fx_rate_for_tenant(
+  p_tenant_id UUID,
+  p_currency_from TEXT,
+  p_currency_to TEXT,
+  p_date DATE DEFAULT CURRENT_DATE,
+  p_rate_type TEXT DEFAULT 'SPOT'
+)
+RETURNS TABLE (rate NUMERIC, source TEXT, rate_date DATE)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_sources TEXT[];
+  v_source TEXT;
+BEGIN
+  SELECT p.sources INTO v_sources
+  FROM public.fx_source_preferences p
+  WHERE p.tenant_id = p_tenant_id
+    AND p.currency_from IN (p_currency_from, '*')
+    AND p.currency_to IN (p_currency_to, '*')
+  ORDER BY (p.currency_from = '*') ASC, (p.currency_to = '*') ASC
+  LIMIT 1;
+
+  FOREACH v_source IN ARRAY COALESCE(v_sources, ARRAY[]::TEXT[]) LOOP
+    RETURN QUERY
+      SELECT r.rate, r.source, r.date
+      FROM public.fx_rates r
+      WHERE r.currency_from = p_currency_from
+        AND r.currency_to = p_currency_to
+        AND (r.tenant_id IS NULL OR r.tenant_id = p_tenant_id)
+        AND r.source IN (v_source, v_source || '_calculated')
+        AND r.date <= p_date
+        AND r.date >= (p_date - INTERVAL '2 years')
+        AND r.rate_type = p_rate_type
+      ORDER BY r.date DESC, (r.source = v_source) DESC, (r.tenant_id IS NULL) ASC
+      LIMIT 1;
+
+    IF FOUND THEN
+      RETURN;
+    END IF;
+  END LOOP;
+
+  RETURN QUERY
+    SELECT r.rate, r.source, r.date
+    FROM public.fx_rates r
+    WHERE r.currency_from = p_currency_from
+      AND r.currency_to = p_currency_to
+      AND r.tenant_id IS NULL
+      AND r.date <= p_date
+      AND r.date >= (p_date - INTERVAL '2 years')
+      AND r.rate_type = p_rate_type
+    ORDER BY r.date DESC, (r.source LIKE '%\_calculated') ASC, r.source ASC
+    LIMIT 1;
+END;
+$$;
+
+-- =====================================================
+-- Comments
+-- =====================================================
+
+COMMENT ON COLUMN public.fx_rates.source IS 'Adapter that produced the rate (open_exchange_rates, ecb, an upload label); inverses carry a _calculated suffix';
+COMMENT ON COLUMN public.fx_rates.tenant_id IS 'Set for tenant uploads, which only that tenant can use; NULL for shared feeds';
+COMMENT ON TABLE fx_source_preferences IS 'Per-tenant source precedence for a currency pair; * matches any currency';
+COMMENT ON FUNCTION public.get_fx_rate_for_tenant IS 'Rate for a pair following the tenant''s source precedence, with the source and date actually used';
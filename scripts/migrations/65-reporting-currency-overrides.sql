@@ -0,0 +1,21 @@
+-- Migration 65: Reporting Currency Overrides
+-- The tenant reporting currency is tenants.settings.currency. An entity can
+-- report its own figures in another currency, and a user can view the
+-- consolidated figures in a currency of their choice.
+
+ALTER TABLE entities
+  ADD COLUMN IF NOT EXISTS reporting_currency TEXT
+  CHECK (reporting_currency IS NULL OR reporting_currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE user_tenants
+  ADD COLUMN IF NOT EXISTS reporting_currency TEXT
+  CHECK (reporting_currency IS NULL OR reporting_currency ~ '^[A-Z]{3}$');
+
+-- User overrides are written by the API (service role)
+
+-- =====================================================
+-- Comments
+-- =====================================================
+
+COMMENT ON COLUMN entities.reporting_currency IS 'ISO 4217 code for this entity''s own totals; NULL = the viewer''s reporting currency';
+COMMENT ON COLUMN user_tenants.reporting_currency IS 'ISO 4217 code this user sees consolidated totals in; NULL = tenants.settings.currency';
@@ -0,0 +1,90 @@
+-- Migration 66: Cash Pools
+-- A pool has a header account and participant accounts in the same currency.
+-- Physical pools sweep each participant to its target balance (zero or target
+-- balancing) every day; notional pools leave balances in place and net them for
+-- interest. Sweeps and allocations are simulated from daily balances, not posted.
+
+-- =====================================================
+-- Cash Pools
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS cash_pools (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  pool_type TEXT NOT NULL CHECK (pool_type IN ('physical', 'notional')),
+  sweep_rule TEXT NOT NULL DEFAULT 'zero_balancing' CHECK (sweep_rule IN ('zero_balancing', 'target_balancing')),
+  header_account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE RESTRICT,
+  currency TEXT NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+  credit_rate DECIMAL(9, 6) NOT NULL DEFAULT 0, -- Annual, as a fraction: 0.025 = 2.5%
+  debit_rate DECIMAL(9, 6) NOT NULL DEFAULT 0,
+  day_count INTEGER NOT NULL DEFAULT 360 CHECK (day_count IN (360, 365)),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT cash_pools_tenant_name_unique UNIQUE (tenant_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS cash_pool_participants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pool_id UUID NOT NULL REFERENCES cash_pools(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  target_balance DECIMAL(18, 2) NOT NULL DEFAULT 0, -- Used by target balancing
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT cash_pool_participants_unique UNIQUE (pool_id, account_id)
+);
+
+-- An account participates in at most one pool
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cash_pool_participants_account
+  ON cash_pool_participants (account_id);
+
+CREATE INDEX IF NOT EXISTS idx_cash_pools_tenant
+  ON cash_pools (tenant_id, is_active);
+
+-- =====================================================
+-- Triggers
+-- =====================================================
+
+DROP TRIGGER IF EXISTS update_cash_pools_updated_at ON cash_pools;
+CREATE TRIGGER update_cash_pools_updated_at
+  BEFORE UPDATE ON cash_pools
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- RLS Policies
+-- =====================================================
+
+ALTER TABLE cash_pools ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cash_pool_participants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their tenant's cash pools"
+ON cash_pools FOR SELECT
+USING (
+  tenant_id IN (
+    SELECT tenant_id FROM user_tenants WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can view their tenant's cash pool participants"
+ON cash_pool_participants FOR SELECT
+USING (
+  tenant_id IN (
+    SELECT tenant_id FROM user_tenants WHERE user_id = auth.uid()
+  )
+);
+
+-- Pools are written by the API (service role) after validation
+
+-- =====================================================
+-- Comments
+-- =====================================================
+
+COMMENT ON TABLE cash_pools IS 'Physical or notional cash pools over a header account and participant accounts';
+COMMENT ON COLUMN cash_pools.credit_rate IS 'Annual rate paid on positive positions, as a fraction';
+COMMENT ON COLUMN cash_pools.debit_rate IS 'Annual rate charged on negative positions, as a fraction';
+COMMENT ON COLUMN cash_pool_participants.target_balance IS 'Balance left on the account after each sweep under target balancing';
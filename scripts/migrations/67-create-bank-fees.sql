@@ -0,0 +1,148 @@
+-- Migration 67: Bank Fees
+-- Bank charges are found in transactions by category and by description
+-- patterns. Curated patterns (tenant_id NULL) ship with the app, per institution
+-- where banks word charges their own way; tenants add their own. Account
+-- analysis statements list the charges behind a bank's monthly analysis debit.
+
+-- =====================================================
+-- Accounts: institution link
+-- =====================================================
+
+ALTER TABLE accounts
+  ADD COLUMN IF NOT EXISTS financial_institution_id TEXT
+  REFERENCES financial_institutions(institution_id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_accounts_financial_institution
+  ON accounts (financial_institution_id)
+  WHERE financial_institution_id IS NOT NULL;
+
+INSERT INTO transaction_categories (category_code, category_name, parent_category, category_type, display_order, color_code) VALUES
+  ('expense_bank_fees', 'Bank Fees', 'expense', 'Expense', 31, '#7f1d1d')
+ON CONFLICT (category_code) DO NOTHING;
+
+-- =====================================================
+-- Fee Patterns
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS bank_fee_patterns (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID REFERENCES tenants(id) ON DELETE CASCADE, -- NULL = curated
+  institution_id TEXT REFERENCES financial_institutions(institution_id) ON DELETE CASCADE, -- NULL = any bank
+  fee_type TEXT NOT NULL CHECK (fee_type IN (
+    'maintenance', 'wire', 'ach', 'card', 'check', 'fx', 'overdraft', 'analysis', 'other'
+  )),
+  pattern TEXT NOT NULL, -- Case-insensitive text or glob on the description, alternatives separated by |
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_fee_patterns_tenant
+  ON bank_fee_patterns (tenant_id)
+  WHERE is_active = true;
+
+-- Keeps the curated seed idempotent
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bank_fee_patterns_unique
+  ON bank_fee_patterns (COALESCE(tenant_id::text, ''), COALESCE(institution_id, ''), pattern);
+
+INSERT INTO bank_fee_patterns (tenant_id, institution_id, fee_type, pattern, description) VALUES
+  -- Any bank
+  (NULL, NULL, 'maintenance', 'monthly maintenance fee|monthly maintenance charge|monthly service fee|monthly service charge|account maintenance fee|account maintenance charge|account service fee|account service charge', 'Account maintenance'),
+  (NULL, NULL, 'wire', 'wire fee|wire charge|wire comm|wire transfer fee|wire transfer charge|wire transfer comm|swift fee|swift charge|swift comm|swift transfer fee|swift transfer charge|telex fee|telex charge', 'Wire fees'),
+  (NULL, NULL, 'ach', 'ach fee|ach charge|ach item fee|ach item charge|ach batch fee|ach batch charge|sepa fee|sepa charge|sepa item fee|sepa batch fee|bacs fee|bacs charge|bacs item fee|bacs batch fee', 'Low-value payment fees'),
+  (NULL, NULL, 'card', 'card fee|card charge|merchant fee|merchant charge|interchange fee|interchange charge', 'Card fees'),
+  (NULL, NULL, 'check', 'cheque fee|cheque charge|cheque book|check fee|check charge|check book', 'Check fees'),
+  (NULL, NULL, 'fx', 'foreign exchange fee|foreign exchange charge|foreign exchange commission|fx fee|fx charge|fx commission|currency conversion fee|currency conversion charge|currency conversion commission|non-sterling fee|non-sterling charge|non-sterling commission', 'FX fees'),
+  (NULL, NULL, 'overdraft', 'overdraft fee|overdraft charge|overdraft interest|nsf fee|nsf charge|returned item fee', 'Overdraft and NSF'),
+  (NULL, NULL, 'analysis', 'account analysis|analysis charge|analysis service charge', 'Monthly analysis charge'),
+  (NULL, NULL, 'other', 'bank fee|bank charge|service charge', 'Other bank charges'),
+  -- Institution wording
+  (NULL, 'chase', 'analysis', 'acct analysis|commercial analysis', 'Chase analysis debit'),
+  (NULL, 'chase', 'wire', 'domestic wire fee|intl wire fee|online domestic wire transfer fee|online international wire transfer fee', 'Chase wire fees'),
+  (NULL, 'bofa', 'analysis', 'analysis serv chg|analysis svc chg', 'BofA analysis debit'),
+  (NULL, 'wells_fargo', 'analysis', 'client analysis srvc chrg', 'Wells Fargo analysis debit'),
+  (NULL, 'hsbc', 'maintenance', 'account fee|tariff', 'HSBC tariff charges'),
+  (NULL, 'barclays', 'maintenance', 'commission charges|service charges', 'Barclays commission'),
+  (NULL, 'deutsche', 'maintenance', 'entgelt|kontoführung|abschluss', 'Deutsche Bank account charges'),
+  (NULL, 'ing', 'maintenance', 'kosten|rente en kosten|pakketkosten', 'ING package costs'),
+  (NULL, 'rabobank', 'maintenance', 'kosten rabo|rabo bankieren|rabo direct bankieren', 'Rabobank package costs'),
+  (NULL, 'bnp_paribas', 'maintenance', 'frais|commission', 'BNP Paribas charges')
+ON CONFLICT DO NOTHING;
+
+-- =====================================================
+-- Account Analysis Statements
+-- One row per service line per account per month
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS bank_fee_statement_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  period_month DATE NOT NULL CHECK (EXTRACT(DAY FROM period_month) = 1),
+  service_code TEXT NOT NULL, -- AFP service code or the bank's own
+  description TEXT,
+  fee_type TEXT NOT NULL DEFAULT 'other' CHECK (fee_type IN (
+    'maintenance', 'wire', 'ach', 'card', 'check', 'fx', 'overdraft', 'analysis', 'other'
+  )),
+  volume DECIMAL(18, 4),
+  unit_price DECIMAL(18, 6),
+  fee_amount DECIMAL(18, 2) NOT NULL,
+  currency TEXT NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+  imported_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT bank_fee_statement_lines_unique UNIQUE (account_id, period_month, service_code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_fee_statement_lines_tenant_month
+  ON bank_fee_statement_lines (tenant_id, period_month);
+
+-- =====================================================
+-- Triggers
+-- =====================================================
+
+DROP TRIGGER IF EXISTS update_bank_fee_patterns_updated_at ON bank_fee_patterns;
+CREATE TRIGGER update_bank_fee_patterns_updated_at
+  BEFORE UPDATE ON bank_fee_patterns
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_bank_fee_statement_lines_updated_at ON bank_fee_statement_lines;
+CREATE TRIGGER update_bank_fee_statement_lines_updated_at
+  BEFORE UPDATE ON bank_fee_statement_lines
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- RLS Policies
+-- =====================================================
+
+ALTER TABLE bank_fee_patterns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bank_fee_statement_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view curated and their tenant's bank fee patterns"
+ON bank_fee_patterns FOR SELECT
+USING (
+  tenant_id IS NULL OR tenant_id IN (
+    SELECT tenant_id FROM user_tenants WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can view their tenant's bank fee statement lines"
+ON bank_fee_statement_lines FOR SELECT
+USING (
+  tenant_id IN (
+    SELECT tenant_id FROM user_tenants WHERE user_id = auth.uid()
+  )
+);
+
+-- Patterns and statement lines are written by the API (service role)
+
+-- =====================================================
+-- Comments
+-- =====================================================
+
+COMMENT ON COLUMN accounts.financial_institution_id IS 'financial_institutions dimension; when NULL the bank is matched by name';
+COMMENT ON TABLE bank_fee_patterns IS 'Description patterns that identify bank fee transactions; tenant_id NULL = curated';
+COMMENT ON TABLE bank_fee_statement_lines IS 'Account analysis statement lines; replace the matching month''s analysis debit in fee reports';
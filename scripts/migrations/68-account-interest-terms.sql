@@ -0,0 +1,19 @@
+-- Migration 68: Account Interest Terms
+-- Deposit and loan accounts accrue interest daily at accounts.interest_rate
+-- under a day-count convention. Accruals are computed from daily balances and
+-- compared with the interest postings seen in transactions; nothing is stored.
+
+ALTER TABLE accounts
+  ADD COLUMN IF NOT EXISTS day_count_convention TEXT
+  CHECK (day_count_convention IS NULL OR day_count_convention IN ('ACT/360', 'ACT/365', '30/360'));
+
+-- Interest terms are written by the API (service role)
+
+-- =====================================================
+-- Comments
+-- =====================================================
+
+COMMENT ON COLUMN accounts.interest_rate IS 'Annual rate as a fraction: 0.0450 = 4.5%. Credit rate on deposits, debit rate on loans';
+COMMENT ON COLUMN accounts.day_count_convention IS 'ACT/360, ACT/365 or 30/360; NULL = the currency''s market convention';
+COMMENT ON COLUMN accounts.credit_limit IS 'Facility limit on loan and credit accounts; drawn balances above it are flagged';
+COMMENT ON COLUMN accounts.overdraft_limit IS 'Overdraft allowed on deposit accounts; balances below minus this are flagged';
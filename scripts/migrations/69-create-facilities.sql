@@ -0,0 +1,221 @@
+-- Migration 69: Debt Facilities and Covenants
+-- A register of loans and credit facilities per entity, with the loan accounts
+-- that track their drawdowns and a repayment schedule. Covenants are tested
+-- against each period's figures: balances from the platform, EBITDA and interest
+-- expense entered by hand. Test results are kept so breaches can be alerted on
+-- and reviewed later.
+
+-- =====================================================
+-- Facilities
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS facilities (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  entity_id TEXT NOT NULL, -- Borrower, entities.entity_id
+  name TEXT NOT NULL,
+  facility_type TEXT NOT NULL CHECK (facility_type IN ('term_loan', 'revolving_credit', 'overdraft', 'bond', 'other')),
+  lender TEXT NOT NULL,
+  currency TEXT NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+  commitment_amount DECIMAL(18, 2) NOT NULL CHECK (commitment_amount >= 0),
+  drawn_amount DECIMAL(18, 2) NOT NULL DEFAULT 0, -- Used when no loan account is linked
+  signing_date DATE,
+  maturity_date DATE NOT NULL,
+  reference_rate TEXT NOT NULL DEFAULT 'FIXED', -- SOFR, EURIBOR, SONIA, ... or FIXED
+  reference_rate_value DECIMAL(9, 6), -- Current fixing, annual fraction
+  margin DECIMAL(9, 6) NOT NULL DEFAULT 0, -- Annual fraction: 0.0175 = 175 bps
+  rate_floor DECIMAL(9, 6),
+  commitment_fee DECIMAL(9, 6), -- On undrawn commitments, annual fraction
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'repaid', 'cancelled')),
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT facilities_tenant_name_unique UNIQUE (tenant_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS facility_accounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  facility_id UUID NOT NULL REFERENCES facilities(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- A loan account tracks the drawdowns of one facility
+CREATE UNIQUE INDEX IF NOT EXISTS idx_facility_accounts_account
+  ON facility_accounts (account_id);
+
+CREATE INDEX IF NOT EXISTS idx_facility_accounts_facility
+  ON facility_accounts (facility_id);
+
+CREATE TABLE IF NOT EXISTS facility_repayments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  facility_id UUID NOT NULL REFERENCES facilities(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  due_date DATE NOT NULL,
+  principal_amount DECIMAL(18, 2) NOT NULL CHECK (principal_amount >= 0),
+  status TEXT NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'paid')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT facility_repayments_unique UNIQUE (facility_id, due_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_facilities_tenant
+  ON facilities (tenant_id, status, maturity_date);
+
+-- =====================================================
+-- Covenants
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS covenants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  facility_id UUID NOT NULL REFERENCES facilities(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  metric TEXT NOT NULL CHECK (metric IN ('minimum_liquidity', 'net_leverage', 'gross_leverage', 'interest_cover')),
+  threshold DECIMAL(18, 4) NOT NULL, -- Amount for liquidity, multiple for ratios
+  entity_id TEXT, -- Group tested; NULL tests every entity
+  test_frequency TEXT NOT NULL DEFAULT 'quarterly' CHECK (test_frequency IN ('monthly', 'quarterly', 'semiannual', 'annual')),
+  warning_headroom_pct DECIMAL(6, 2) NOT NULL DEFAULT 10 CHECK (warning_headroom_pct >= 0),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT covenants_facility_name_unique UNIQUE (facility_id, name)
+);
+
+-- Figures the platform cannot derive, per period end and entity ('' = group)
+CREATE TABLE IF NOT EXISTS covenant_inputs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  entity_id TEXT NOT NULL DEFAULT '',
+  period_end DATE NOT NULL,
+  input_key TEXT NOT NULL CHECK (input_key IN ('ebitda', 'interest_expense', 'total_debt', 'cash')),
+  value DECIMAL(18, 2) NOT NULL,
+  currency TEXT NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT covenant_inputs_unique UNIQUE (tenant_id, entity_id, period_end, input_key)
+);
+
+CREATE TABLE IF NOT EXISTS covenant_tests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  covenant_id UUID NOT NULL REFERENCES covenants(id) ON DELETE CASCADE,
+  period_end DATE NOT NULL,
+  value DECIMAL(18, 4),
+  threshold DECIMAL(18, 4) NOT NULL,
+  headroom_pct DECIMAL(9, 2),
+  status TEXT NOT NULL CHECK (status IN ('compliant', 'near_breach', 'breach', 'insufficient_data')),
+  figures JSONB NOT NULL DEFAULT '{}', -- Cash, debt, EBITDA, ... the value was computed from
+  note TEXT,
+  acknowledged_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  acknowledged_at TIMESTAMPTZ,
+  tested_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT covenant_tests_unique UNIQUE (covenant_id, period_end)
+);
+
+-- Open alerts: breaches and near-breaches nobody has acknowledged
+CREATE INDEX IF NOT EXISTS idx_covenant_tests_alerts
+  ON covenant_tests (tenant_id, period_end DESC)
+  WHERE status IN ('breach', 'near_breach') AND acknowledged_at IS NULL;
+
+-- =====================================================
+-- Triggers
+-- =====================================================
+
+DROP TRIGGER IF EXISTS update_facilities_updated_at ON facilities;
+CREATE TRIGGER update_facilities_updated_at
+  BEFORE UPDATE ON facilities
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_covenants_updated_at ON covenants;
+CREATE TRIGGER update_covenants_updated_at
+  BEFORE UPDATE ON covenants
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_covenant_inputs_updated_at ON covenant_inputs;
+CREATE TRIGGER update_covenant_inputs_updated_at
+  BEFORE UPDATE ON covenant_inputs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- RLS Policies
+-- =====================================================
+
+ALTER TABLE facilities ENABLE ROW LEVEL SECURITY;
+ALTER TABLE facility_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE facility_repayments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE covenants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE covenant_inputs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE covenant_tests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their tenant's facilities"
+ON facilities FOR SELECT
+USING (
+  tenant_id IN (
+    SELECT tenant_id FROM user_tenants WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can view their tenant's facility accounts"
+ON facility_accounts FOR SELECT
+USING (
+  tenant_id IN (
+    SELECT tenant_id FROM user_tenants WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can view their tenant's facility repayments"
+ON facility_repayments FOR SELECT
+USING (
+  tenant_id IN (
+    SELECT tenant_id FROM user_tenants WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can view their tenant's covenants"
+ON covenants FOR SELECT
+USING (
+  tenant_id IN (
+    SELECT tenant_id FROM user_tenants WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can view their tenant's covenant inputs"
+ON covenant_inputs FOR SELECT
+USING (
+  tenant_id IN (
+    SELECT tenant_id FROM user_tenants WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can view their tenant's covenant tests"
+ON covenant_tests FOR SELECT
+USING (
+  tenant_id IN (
+    SELECT tenant_id FROM user_tenants WHERE user_id = auth.uid()
+  )
+);
+
+-- Facilities and covenants are written by the API (service role) after validation
+
+-- =====================================================
+-- Comments
+-- =====================================================
+
+COMMENT ON TABLE facilities IS 'Loans, revolving credit facilities, overdrafts and bonds per borrowing entity';
+COMMENT ON COLUMN facilities.drawn_amount IS 'Drawn balance entered by hand; linked loan accounts take precedence';
+COMMENT ON COLUMN facilities.margin IS 'Annual margin over the reference rate, as a fraction';
+COMMENT ON TABLE facility_accounts IS 'Loan accounts whose balances are the drawn amount of a facility';
+COMMENT ON TABLE facility_repayments IS 'Scheduled principal repayments per facility';
+COMMENT ON TABLE covenants IS 'Financial covenants tested each period against a facility';
+COMMENT ON COLUMN covenants.warning_headroom_pct IS 'Headroom under which a compliant test is flagged as a near breach';
+COMMENT ON TABLE covenant_inputs IS 'Manual figures per period end: LTM EBITDA, interest expense, debt or cash overrides';
+COMMENT ON TABLE covenant_tests IS 'Covenant test results per period end; breaches and near breaches are alerts until acknowledged';
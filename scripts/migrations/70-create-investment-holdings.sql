@@ -0,0 +1,85 @@
+-- Migration 70: Investment Holdings
+-- Money market funds, term deposits and securities that excess cash is held
+-- in. Holdings come from Plaid investment accounts, CSV imports or manual
+-- entry, and carry what is needed to place them on a maturity ladder and in a
+-- liquidity bucket: units, price, accrued interest, maturity and redemption
+-- notice.
+
+-- =====================================================
+-- Holdings
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS investment_holdings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  account_id UUID REFERENCES accounts(id) ON DELETE SET NULL, -- Investment account holding it, if on the platform
+  entity_id TEXT, -- entities.entity_id; taken from the account when linked
+  source TEXT NOT NULL CHECK (source IN ('plaid', 'import', 'manual')),
+  external_id TEXT, -- Stable key for synced and imported rows so reloads update in place
+  instrument_name TEXT NOT NULL,
+  instrument_type TEXT NOT NULL CHECK (instrument_type IN (
+    'money_market_fund', 'term_deposit', 'treasury_bill', 'commercial_paper', 'bond', 'equity', 'cash', 'other'
+  )),
+  isin TEXT CHECK (isin IS NULL OR isin ~ '^[A-Z]{2}[A-Z0-9]{9}[0-9]$'),
+  ticker TEXT,
+  currency TEXT NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+  units DECIMAL(20, 6) NOT NULL CHECK (units >= 0),
+  price DECIMAL(20, 8) NOT NULL CHECK (price >= 0),
+  market_value DECIMAL(18, 2) NOT NULL,
+  accrued_interest DECIMAL(18, 2) NOT NULL DEFAULT 0,
+  interest_rate DECIMAL(9, 6), -- Yield or deposit rate, annual fraction
+  start_date DATE,
+  maturity_date DATE, -- NULL for open-ended funds and equities
+  settlement_days INTEGER CHECK (settlement_days IS NULL OR settlement_days BETWEEN 0 AND 365),
+  price_date DATE,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'matured', 'closed')),
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT investment_holdings_external_unique UNIQUE (tenant_id, external_id),
+  CONSTRAINT investment_holdings_dates CHECK (start_date IS NULL OR maturity_date IS NULL OR start_date <= maturity_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_investment_holdings_tenant
+  ON investment_holdings (tenant_id, status, maturity_date);
+
+CREATE INDEX IF NOT EXISTS idx_investment_holdings_account
+  ON investment_holdings (account_id)
+  WHERE account_id IS NOT NULL;
+
+-- =====================================================
+-- Triggers
+-- =====================================================
+
+DROP TRIGGER IF EXISTS update_investment_holdings_updated_at ON investment_holdings;
+CREATE TRIGGER update_investment_holdings_updated_at
+  BEFORE UPDATE ON investment_holdings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- RLS Policies
+-- =====================================================
+
+ALTER TABLE investment_holdings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their tenant's investment holdings"
+ON investment_holdings FOR SELECT
+USING (
+  tenant_id IN (
+    SELECT tenant_id FROM user_tenants WHERE user_id = auth.uid()
+  )
+);
+
+-- Holdings are written by the API (service role) after validation
+
+-- =====================================================
+-- Comments
+-- =====================================================
+
+COMMENT ON TABLE investment_holdings IS 'Money market fund, deposit and security holdings from Plaid, CSV import or manual entry';
+COMMENT ON COLUMN investment_holdings.external_id IS 'plaid:<account>:<security> for synced rows, import:<account>:<instrument>:<maturity> for imported rows';
+COMMENT ON COLUMN investment_holdings.market_value IS 'Units at price, excluding accrued interest';
+COMMENT ON COLUMN investment_holdings.settlement_days IS 'Business days from redemption request to cash; NULL uses the instrument type default';
+COMMENT ON COLUMN investment_holdings.status IS 'Matured and closed holdings are kept for history and left out of liquidity';
@@ -0,0 +1,157 @@
+-- Migration 71: Sync Job Queue
+-- Durable queue for provider syncs. Cron schedules only enqueue jobs; a worker
+-- leases them with a visibility timeout, heartbeats while the sync runs, and
+-- either completes the job or puts it back with exponential backoff. Jobs that
+-- run out of attempts are dead-lettered for an operator to look at.
+
+-- =====================================================
+-- Jobs
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS sync_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  connection_id UUID NOT NULL REFERENCES connections(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('schedule', 'manual')),
+  schedule TEXT, -- connections.sync_schedule that enqueued it, for scheduled jobs
+  priority INTEGER NOT NULL DEFAULT 50,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5 CHECK (max_attempts > 0),
+  run_after TIMESTAMPTZ NOT NULL DEFAULT NOW(), -- Not leased before this; pushed out on retry
+  leased_by TEXT, -- Worker id holding the lease
+  lease_expires_at TIMESTAMPTZ, -- Visibility timeout; an expired lease means the worker died
+  heartbeat_at TIMESTAMPTZ,
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  last_error TEXT,
+  result JSONB, -- Accounts and transactions synced, duration, errors
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- A connection has at most one open job, so repeated cron runs don't pile up
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sync_jobs_open_connection
+  ON sync_jobs (connection_id)
+  WHERE status IN ('queued', 'running');
+
+CREATE INDEX IF NOT EXISTS idx_sync_jobs_queued
+  ON sync_jobs (priority DESC, run_after)
+  WHERE status = 'queued';
+
+CREATE INDEX IF NOT EXISTS idx_sync_jobs_running
+  ON sync_jobs (provider, lease_expires_at)
+  WHERE status = 'running';
+
+CREATE INDEX IF NOT EXISTS idx_sync_jobs_tenant
+  ON sync_jobs (tenant_id, created_at DESC);
+
+-- =====================================================
+-- Leasing
+-- =====================================================
+
+-- Leases the given queued jobs to a worker. Rows another worker has locked or
+-- already leased are skipped, so two workers picking the same candidates never
+-- both run a job.
+CREATE OR REPLACE FUNCTION lease_sync_jobs(
+  p_job_ids UUID[],
+  p_worker_id TEXT,
+  p_lease_seconds INTEGER
+)
+RETURNS SETOF sync_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE sync_jobs j
+  SET
+    status = 'running',
+    attempts = j.attempts + 1,
+    leased_by = p_worker_id,
+    lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+    heartbeat_at = NOW(),
+    started_at = NOW(),
+    updated_at = NOW()
+  WHERE j.id IN (
+    SELECT id FROM sync_jobs
+    WHERE id = ANY(p_job_ids)
+      AND status = 'queued'
+      AND run_after <= NOW()
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$;
+
+COMMENT ON FUNCTION lease_sync_jobs IS 'Atomically leases queued sync jobs to a worker, skipping rows locked by another worker';
+
+-- Only the service role leases jobs
+REVOKE EXECUTE ON FUNCTION lease_sync_jobs FROM PUBLIC, anon, authenticated;
+
+-- Scheduled connections are enqueued rather than synced inline, so the
+-- batch limit that kept the old cron routes inside their time limit is gone
+CREATE OR REPLACE FUNCTION get_connections_ready_for_sync(p_schedule TEXT)
+RETURNS TABLE (
+  connection_id UUID,
+  tenant_id UUID,
+  provider TEXT,
+  name TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id as connection_id,
+    c.tenant_id,
+    c.provider,
+    c.name
+  FROM connections c
+  WHERE c.sync_enabled = true
+    AND c.status = 'active'
+    AND c.sync_schedule = p_schedule
+    AND c.provider IS NOT NULL
+    AND (c.next_sync_at IS NULL OR c.next_sync_at <= NOW())
+  ORDER BY c.sync_priority DESC, c.last_sync_at ASC NULLS FIRST;
+END;
+$$;
+
+-- =====================================================
+-- Triggers
+-- =====================================================
+
+DROP TRIGGER IF EXISTS update_sync_jobs_updated_at ON sync_jobs;
+CREATE TRIGGER update_sync_jobs_updated_at
+  BEFORE UPDATE ON sync_jobs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- RLS Policies
+-- =====================================================
+
+ALTER TABLE sync_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their tenant's sync jobs"
+ON sync_jobs FOR SELECT
+USING (
+  tenant_id IN (
+    SELECT tenant_id FROM user_tenants WHERE user_id = auth.uid()
+  )
+);
+
+-- Jobs are written by the API (service role): cron enqueues and the sync worker
+
+-- =====================================================
+-- Comments
+-- =====================================================
+
+COMMENT ON TABLE sync_jobs IS 'Durable queue of provider syncs, leased and drained by the sync worker';
+COMMENT ON COLUMN sync_jobs.status IS 'queued (waiting or backing off), running (leased), succeeded, or dead (out of attempts or not retryable)';
+COMMENT ON COLUMN sync_jobs.attempts IS 'Number of times the job has been leased';
+COMMENT ON COLUMN sync_jobs.run_after IS 'Earliest time the job may be leased; pushed out with exponential backoff on failure';
+COMMENT ON COLUMN sync_jobs.lease_expires_at IS 'Visibility timeout, extended by heartbeats; expired leases are reclaimed by the next worker';
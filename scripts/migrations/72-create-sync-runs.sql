@@ -0,0 +1,68 @@
+-- Migration 72: Sync Runs
+-- Step-level tracking of every provider sync. Each run of the sync
+-- orchestrator records its status, counts and the duration, size and error of
+-- each pipeline step (fetch, store, normalize, persist), whichever provider it
+-- was for. Xero additionally keeps its own xero_sync_metrics.
+
+-- =====================================================
+-- Runs
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS sync_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  connection_id UUID NOT NULL REFERENCES connections(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed', 'partial', 'failed')),
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  duration_ms INTEGER,
+  accounts_synced INTEGER NOT NULL DEFAULT 0,
+  transactions_synced INTEGER NOT NULL DEFAULT 0,
+  steps JSONB NOT NULL DEFAULT '[]'::JSONB, -- [{ step, accountId, durationMs, count, created, updated, error }]
+  errors JSONB NOT NULL DEFAULT '[]'::JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_runs_connection
+  ON sync_runs (connection_id, started_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_sync_runs_provider_status
+  ON sync_runs (provider, status, started_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_sync_runs_tenant
+  ON sync_runs (tenant_id, started_at DESC);
+
+-- =====================================================
+-- Triggers
+-- =====================================================
+
+DROP TRIGGER IF EXISTS update_sync_runs_updated_at ON sync_runs;
+CREATE TRIGGER update_sync_runs_updated_at
+  BEFORE UPDATE ON sync_runs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- RLS Policies
+-- =====================================================
+
+ALTER TABLE sync_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their tenant's sync runs"
+ON sync_runs FOR SELECT
+USING (
+  tenant_id IN (
+    SELECT tenant_id FROM user_tenants WHERE user_id = auth.uid()
+  )
+);
+
+-- Runs are written by the API (service role) from the sync orchestrator
+
+-- =====================================================
+-- Comments
+-- =====================================================
+
+COMMENT ON TABLE sync_runs IS 'One row per sync orchestrator run, for every provider, with step-level timings';
+COMMENT ON COLUMN sync_runs.steps IS 'Pipeline steps in the order they ran; transaction fetch and store steps are per account';
+COMMENT ON COLUMN sync_runs.status IS 'completed (no errors), partial (some errors), failed (fatal error or nothing synced)';
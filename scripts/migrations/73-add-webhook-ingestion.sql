@@ -0,0 +1,44 @@
+-- Migration 73: Webhook Ingestion
+-- Provider webhooks (Plaid, Tink, ...) received on /api/banking/[provider]/webhook
+-- are verified, stored once per idempotency key and routed to the connection
+-- they concern: a targeted sync is queued, or the connection is flagged for
+-- reconnection. Webhook-triggered syncs go through the sync job queue.
+
+-- =====================================================
+-- Webhook Events
+-- =====================================================
+
+ALTER TABLE webhook_events ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+ALTER TABLE webhook_events ADD COLUMN IF NOT EXISTS occurred_at TIMESTAMPTZ;
+ALTER TABLE webhook_events ADD COLUMN IF NOT EXISTS outcome TEXT
+  CHECK (outcome IN ('sync_queued', 'connection_updated', 'ignored', 'stale', 'unmatched'));
+ALTER TABLE webhook_events ADD COLUMN IF NOT EXISTS sync_job_id UUID REFERENCES sync_jobs(id) ON DELETE SET NULL;
+
+-- A redelivered or replayed event is rejected on insert
+CREATE UNIQUE INDEX IF NOT EXISTS idx_webhook_events_idempotency
+  ON webhook_events (provider, idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
+
+-- Latest status change per connection, for discarding status events that arrive out of order
+CREATE INDEX IF NOT EXISTS idx_webhook_events_connection_outcome
+  ON webhook_events (connection_id, outcome, occurred_at DESC);
+
+-- =====================================================
+-- Sync Jobs
+-- =====================================================
+
+ALTER TABLE sync_jobs DROP CONSTRAINT IF EXISTS sync_jobs_source_check;
+ALTER TABLE sync_jobs
+  ADD CONSTRAINT sync_jobs_source_check
+  CHECK (source IN ('schedule', 'manual', 'webhook'));
+
+ALTER TABLE sync_jobs ADD COLUMN IF NOT EXISTS options JSONB NOT NULL DEFAULT '{}'::JSONB;
+
+-- =====================================================
+-- Comments
+-- =====================================================
+
+COMMENT ON COLUMN webhook_events.idempotency_key IS 'Provider event id, or body hash released after the dedup window; unique per provider so redeliveries are stored once';
+COMMENT ON COLUMN webhook_events.occurred_at IS 'When the provider signed the event, used to order events that arrive out of order';
+COMMENT ON COLUMN webhook_events.outcome IS 'sync_queued, connection_updated, ignored (not actionable), stale (superseded by a newer event or sync), unmatched (no connection)';
+COMMENT ON COLUMN sync_jobs.options IS 'Sync scope, e.g. { "accountIds": [...] } for a webhook about specific provider accounts; empty means a full sync';
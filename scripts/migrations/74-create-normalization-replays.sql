@@ -0,0 +1,62 @@
+-- Migration 74: Normalization Replays
+-- Re-running normalization over the raw provider tables (plaid_transactions,
+-- tink_transactions, xero_transactions, direct_bank_transactions) without
+-- calling the provider, to fix rows written by a normalizer bug. Each
+-- transaction records the normalizer version that produced it; each replay
+-- records its scope, counts and field-level changes.
+
+-- =====================================================
+-- Transactions: normalizer version
+-- =====================================================
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS normalizer_version INTEGER;
+
+-- Finding rows produced by an older normalizer
+CREATE INDEX IF NOT EXISTS idx_transactions_provider_normalizer_version
+  ON transactions (provider_id, normalizer_version);
+
+-- =====================================================
+-- Replays
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS normalization_replays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  scope JSONB NOT NULL DEFAULT '{}', -- { connectionId, provider, startDate, endDate }
+  dry_run BOOLEAN NOT NULL DEFAULT FALSE,
+  source TEXT NOT NULL DEFAULT 'api' CHECK (source IN ('api', 'cli')),
+  normalizer_versions JSONB NOT NULL DEFAULT '{}', -- { provider: version } used by this replay
+  connections_replayed INTEGER NOT NULL DEFAULT 0,
+  transactions_examined INTEGER NOT NULL DEFAULT 0,
+  transactions_created INTEGER NOT NULL DEFAULT 0,
+  transactions_updated INTEGER NOT NULL DEFAULT 0,
+  transactions_restamped INTEGER NOT NULL DEFAULT 0,
+  transactions_unchanged INTEGER NOT NULL DEFAULT 0,
+  transactions_skipped INTEGER NOT NULL DEFAULT 0,
+  results JSONB NOT NULL DEFAULT '[]', -- Per connection: counts and field-level changes
+  error_message TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_normalization_replays_started
+  ON normalization_replays (started_at DESC);
+
+-- =====================================================
+-- RLS Policies
+-- =====================================================
+
+-- Replays can span tenants, so they are only visible through the admin API
+ALTER TABLE normalization_replays ENABLE ROW LEVEL SECURITY;
+
+-- Replays are written by the API (service role) and the replay command
+
+-- =====================================================
+-- Comments
+-- =====================================================
+
+COMMENT ON COLUMN transactions.normalizer_version IS 'Version of the provider normalizer that produced this row; NULL for rows written before versioning';
+COMMENT ON TABLE normalization_replays IS 'Re-normalization runs over stored raw provider data, by connection, provider and date range';
+COMMENT ON COLUMN normalization_replays.transactions_restamped IS 'Rows whose values were already correct, only stamped with the current normalizer version';
+COMMENT ON COLUMN normalization_replays.transactions_skipped IS 'Rows saved under another connection, which a replay of this one does not overwrite';
@@ -0,0 +1,88 @@
+-- Migration 75: Lease Sync Jobs Within Provider Limits
+-- Moves the per-provider concurrency check into lease_sync_jobs. Counting
+-- running jobs in the worker and leasing in a second call let two workers
+-- both see a provider under its limit and both lease past it; now the count,
+-- the choice of jobs and the lease happen in one transaction, one worker at
+-- a time.
+
+-- =====================================================
+-- Leasing
+-- =====================================================
+
+DROP FUNCTION IF EXISTS lease_sync_jobs(UUID[], TEXT, INTEGER);
+
+-- Leases up to p_capacity due jobs to a worker in priority and queue order,
+-- skipping jobs of providers already running their limit across all workers.
+-- p_provider_limits maps provider ids to limits; other providers get
+-- p_default_limit.
+CREATE OR REPLACE FUNCTION lease_sync_jobs(
+  p_worker_id TEXT,
+  p_capacity INTEGER,
+  p_lease_seconds INTEGER,
+  p_provider_limits JSONB,
+  p_default_limit INTEGER
+)
+RETURNS SETOF sync_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_running JSONB;
+  v_job RECORD;
+  v_selected UUID[] := '{}';
+  v_count INTEGER;
+BEGIN
+  IF p_capacity <= 0 THEN
+    RETURN;
+  END IF;
+
+  -- Held until commit, so the next worker counts the jobs leased here
+  PERFORM pg_advisory_xact_lock(hashtext('lease_sync_jobs'));
+
+  SELECT COALESCE(jsonb_object_agg(provider, running), '{}'::JSONB)
+  INTO v_running
+  FROM (
+    SELECT provider, COUNT(*) AS running
+    FROM sync_jobs
+    WHERE status = 'running'
+      AND lease_expires_at > NOW()
+    GROUP BY provider
+  ) counts;
+
+  FOR v_job IN
+    SELECT id, provider
+    FROM sync_jobs
+    WHERE status = 'queued'
+      AND run_after <= NOW()
+    ORDER BY priority DESC, run_after
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    EXIT WHEN cardinality(v_selected) >= p_capacity;
+
+    v_count := COALESCE((v_running ->> v_job.provider)::INTEGER, 0);
+    CONTINUE WHEN v_count >= COALESCE((p_provider_limits ->> v_job.provider)::INTEGER, p_default_limit);
+
+    v_running := jsonb_set(v_running, ARRAY[v_job.provider], to_jsonb(v_count + 1));
+    v_selected := v_selected || v_job.id;
+  END LOOP;
+
+  RETURN QUERY
+  UPDATE sync_jobs j
+  SET
+    status = 'running',
+    attempts = j.attempts + 1,
+    leased_by = p_worker_id,
+    lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+    heartbeat_at = NOW(),
+    started_at = NOW(),
+    updated_at = NOW()
+  WHERE j.id = ANY(v_selected)
+  RETURNING j.*;
+END;
+$$;
+
+COMMENT ON FUNCTION lease_sync_jobs IS 'Atomically leases due sync jobs to a worker, keeping each provider within its concurrency limit across workers';
+
+-- Only the service role leases jobs
+REVOKE EXECUTE ON FUNCTION lease_sync_jobs FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,71 @@
+-- Migration 76: Save Calculated Statements
+-- Reconstructed daily balances are written with source = 'calculated'. A
+-- plain upsert on (account_id, statement_date) would replace a synced, manual
+-- or imported statement that arrived after the reconstruction read its
+-- anchors, so saving goes through a function that only ever inserts new days
+-- or updates rows that are themselves calculated.
+
+-- =====================================================
+-- Saving
+-- =====================================================
+
+-- Inserts or refreshes calculated statements. Days that already hold a
+-- reported statement are left alone. Returns the number of rows written.
+CREATE OR REPLACE FUNCTION save_calculated_statements(p_rows JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_saved INTEGER;
+BEGIN
+  INSERT INTO account_statements AS s (
+    tenant_id,
+    account_id,
+    statement_date,
+    ending_balance,
+    currency,
+    source,
+    confidence,
+    metadata,
+    ingested_at
+  )
+  SELECT
+    r.tenant_id,
+    r.account_id,
+    r.statement_date,
+    r.ending_balance,
+    r.currency,
+    'calculated',
+    r.confidence,
+    COALESCE(r.metadata, '{}'::JSONB),
+    NOW()
+  FROM jsonb_to_recordset(p_rows) AS r(
+    tenant_id UUID,
+    account_id UUID,
+    statement_date DATE,
+    ending_balance NUMERIC,
+    currency TEXT,
+    confidence TEXT,
+    metadata JSONB
+  )
+  ON CONFLICT (account_id, statement_date) DO UPDATE
+  SET
+    ending_balance = EXCLUDED.ending_balance,
+    currency = EXCLUDED.currency,
+    confidence = EXCLUDED.confidence,
+    metadata = EXCLUDED.metadata,
+    ingested_at = EXCLUDED.ingested_at
+  WHERE s.source = 'calculated'
+    AND s.tenant_id = EXCLUDED.tenant_id;
+
+  GET DIAGNOSTICS v_saved = ROW_COUNT;
+  RETURN v_saved;
+END;
+$$;
+
+COMMENT ON FUNCTION save_calculated_statements IS 'Upserts reconstructed balances without replacing synced, manual or imported statements';
+
+-- Only the service role saves reconstructed balances
+REVOKE EXECUTE ON FUNCTION save_calculated_statements FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,123 @@
+-- Migration 77: FX Source Freshness
+-- get_fx_rate_for_tenant used the first preferred source with any rate in
+-- the last two years, so a stale preferred rate beat a fresh one from the next
+-- source. Each source now has a maximum age for spot rates; an older rate is
+-- skipped and the next source is tried. Only when no source has a fresh rate
+-- does the lookup fall back to the latest rate it can find.
+
+-- =====================================================
+-- Maximum rate age per source
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS fx_source_freshness (
+  source TEXT PRIMARY KEY, -- fx_rates.source, without the _calculated suffix
+  max_age_days INTEGER NOT NULL CHECK (max_age_days > 0),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Daily feeds; a week covers weekends and bank holiday closures
+INSERT INTO fx_source_freshness (source, max_age_days) VALUES
+  ('open_exchange_rates', 7),
+  ('ecb', 7)
+ON CONFLICT (source) DO NOTHING;
+
+DROP TRIGGER IF EXISTS update_fx_source_freshness_updated_at ON fx_source_freshness;
+CREATE TRIGGER update_fx_source_freshness_updated_at
+  BEFORE UPDATE ON fx_source_freshness
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE fx_source_freshness ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view fx source freshness"
+ON fx_source_freshness FOR SELECT
+USING (true);
+
+-- =====================================================
+-- Functions
+-- =====================================================
+
+-- Tenant lookup: walks the tenant's source precedence for the pair (most
+-- specific preference first) and returns the first source's latest rate that
+-- is within that source's maximum age. Sources without a row in
+-- fx_source_freshness, such as tenant uploads of monthly official rates, get
+-- 45 days. Average and month-end rates are only published monthly, so only
+-- spot lookups are limited. With no fresh preferred rate, the latest shared or
+-- preferred rate from the last two years is used.
+CREATE OR REPLACE FUNCTION public.get_fx_rate_for_tenant(
+  p_tenant_id UUID,
+  p_currency_from TEXT,
+  p_currency_to TEXT,
+  p_date DATE DEFAULT CURRENT_DATE,
+  p_rate_type TEXT DEFAULT 'SPOT'
+)
+RETURNS TABLE (rate NUMERIC, source TEXT, rate_date DATE)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_default_max_age_days CONSTANT INTEGER := 45;
+  v_sources TEXT[];
+  v_source TEXT;
+  v_oldest DATE;
+BEGIN
+  SELECT p.sources INTO v_sources
+  FROM public.fx_source_preferences p
+  WHERE p.tenant_id = p_tenant_id
+    AND p.currency_from IN (p_currency_from, '*')
+    AND p.currency_to IN (p_currency_to, '*')
+  ORDER BY (p.currency_from = '*') ASC, (p.currency_to = '*') ASC
+  LIMIT 1;
+
+  v_sources := COALESCE(v_sources, ARRAY[]::TEXT[]);
+
+  FOREACH v_source IN ARRAY v_sources LOOP
+    IF p_rate_type = 'SPOT' THEN
+      v_oldest := p_date - COALESCE(
+        (SELECT f.max_age_days FROM public.fx_source_freshness f WHERE f.source = v_source),
+        v_default_max_age_days
+      );
+    ELSE
+      v_oldest := (p_date - INTERVAL '2 years')::DATE;
+    END IF;
+
+    RETURN QUERY
+      SELECT r.rate, r.source, r.date
+      FROM public.fx_rates r
+      WHERE r.currency_from = p_currency_from
+        AND r.currency_to = p_currency_to
+        AND (r.tenant_id IS NULL OR r.tenant_id = p_tenant_id)
+        AND r.source IN (v_source, v_source || '_calculated')
+        AND r.date <= p_date
+        AND r.date >= v_oldest
+        AND r.rate_type = p_rate_type
+      ORDER BY r.date DESC, (r.source = v_source) DESC, (r.tenant_id IS NULL) ASC
+      LIMIT 1;
+
+    IF FOUND THEN
+      RETURN;
+    END IF;
+  END LOOP;
+
+  RETURN QUERY
+    SELECT r.rate, r.source, r.date
+    FROM public.fx_rates r
+    WHERE r.currency_from = p_currency_from
+      AND r.currency_to = p_currency_to
+      AND (
+        r.tenant_id IS NULL
+        OR (r.tenant_id = p_tenant_id AND regexp_replace(r.source, '_calculated$', '') = ANY(v_sources))
+      )
+      AND r.date <= p_date
+      AND r.date >= (p_date - INTERVAL '2 years')
+      AND r.rate_type = p_rate_type
+    ORDER BY r.date DESC, (r.source LIKE '%\_calculated') ASC, (r.tenant_id IS NULL) ASC, r.source ASC
+    LIMIT 1;
+END;
+$$;
+
+-- =====================================================
+-- Comments
+-- =====================================================
+
+COMMENT ON TABLE fx_source_freshness IS 'Oldest spot rate, in days before the lookup date, that get_fx_rate_for_tenant takes from a source before trying the next';
+COMMENT ON FUNCTION public.get_fx_rate_for_tenant IS 'Rate for a pair following the tenant''s source precedence, skipping sources whose latest rate is too old, with the source and date actually used';
@@ -0,0 +1,61 @@
+/**
+ * Re-normalize stored raw provider transactions without calling the provider
+ * Run: npx tsx scripts/utilities/replay-normalization.ts --connection=<id> [--from=YYYY-MM-DD] [--to=YYYY-MM-DD] [--dry-run]
+ *      npx tsx scripts/utilities/replay-normalization.ts --provider=plaid [--from=...] [--to=...] [--dry-run]
+ */
+
+import { replayNormalization } from '@/lib/services/normalization-replay-service';
+
+function readArg(name: string): string | undefined {
+  const prefix = `--${name}=`;
+  const arg = process.argv.slice(2).find((value) => value.startsWith(prefix));
+  return arg ? arg.slice(prefix.length) : undefined;
+}
+
+async function main() {
+  const scope = {
+    connectionId: readArg('connection'),
+    provider: readArg('provider'),
+    startDate: readArg('from'),
+    endDate: readArg('to'),
+  };
+  const dryRun = process.argv.includes('--dry-run');
+
+  if (!scope.connectionId && !scope.provider) {
+    console.error('❌ Pass --connection=<id> or --provider=<id>');
+    process.exit(1);
+  }
+
+  console.log(`🔁 Replaying normalization${dryRun ? ' (dry run)' : ''}...`, scope);
+
+  const replay = await replayNormalization(scope, { dryRun, source: 'cli' });
+
+  for (const result of replay.results) {
+    if (result.error) {
+      console.log(`\n❌ ${result.provider} ${result.connectionId}: ${result.error}`);
+      continue;
+    }
+
+    console.log(`\n📋 ${result.provider} ${result.connectionId} (normalizer v${result.normalizerVersion})`);
+    console.log(
+      `   Examined ${result.examined}: ${result.created} created, ${result.updated} updated, ` +
+        `${result.restamped} restamped, ${result.unchanged} unchanged, ${result.skipped} skipped`
+    );
+    for (const change of result.changes) {
+      const fields = change.changes.map((c) => `${c.field}: ${c.before} → ${c.after}`).join(', ');
+      console.log(`   • ${change.transactionId}: ${fields}`);
+    }
+    if (result.changes.length < result.updated) {
+      console.log(`   … ${result.updated - result.changes.length} more changed transactions`);
+    }
+  }
+
+  console.log(`\n✅ Replay ${replay.id} ${replay.status}${dryRun ? ' - nothing was written' : ''}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('❌ Replay failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,160 @@
+/**
+ * Test: AI-assisted categorization pipeline
+ * Priority: HIGH - Model answers are applied to transactions without review
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildRuleFromSuggestion,
+  categorizeTransactions,
+  normalizeDescription,
+  sanitizeResult,
+  type CategorizationModel,
+  type CategoryOption,
+  type ModelRequestItem,
+  type ModelResponseItem,
+} from '@/lib/categorization/ai-categorizer';
+import { compileRules, findMatchingRule } from '@/lib/categorization/rules-engine';
+import type { AiCategoryResult, CategorizableTransaction, CategorizationRule } from '@/lib/types/categorization';
+
+const categories: CategoryOption[] = [
+  { code: 'expense_technology', name: 'Technology', type: 'Expense' },
+  { code: 'expense_travel', name: 'Travel', type: 'Expense' },
+  { code: 'uncategorized', name: 'Uncategorized', type: 'Expense' },
+];
+
+function tx(id: string, description: string, overrides: Partial<CategorizableTransaction> = {}): CategorizableTransaction {
+  return { transaction_id: id, account_id: 'ACC-1', description, amount: -25, currency: 'EUR', ...overrides };
+}
+
+/**
+ * Stub model: answers from a lookup on the description and records every call
+ */
+function stubModel(answers: Record<string, Omit<ModelResponseItem, 'id'>>) {
+  const calls: ModelRequestItem[][] = [];
+  const model: CategorizationModel = {
+    name: 'stub',
+    async categorize(items) {
+      calls.push(items);
+      return items
+        .filter((item) => answers[item.description])
+        .map((item) => ({ id: item.id, ...answers[item.description] }));
+    },
+  };
+  return { model, calls };
+}
+
+describe('AI categorizer', () => {
+  describe('normalizeDescription', () => {
+    it('should drop numbers, references and punctuation so merchant variants share a key', () => {
+      expect(normalizeDescription('STARBUCKS#1234 LONDON 12/03')).toBe('starbucks london');
+      expect(normalizeDescription('Starbucks #88 London')).toBe('starbucks london');
+      expect(normalizeDescription('  AWS   EMEA  inv-2024-001 ')).toBe('aws emea inv');
+      expect(normalizeDescription('123456')).toBe('123456');
+    });
+  });
+
+  describe('categorizeTransactions', () => {
+    it('should send each distinct description once and answer repeats from the same call', async () => {
+      const { model, calls } = stubModel({
+        'STARBUCKS#1234 LONDON': { category_code: 'expense_travel', counterparty_name: 'Starbucks', confidence: 0.9 },
+      });
+
+      const outcome = await categorizeTransactions(
+        [tx('t1', 'STARBUCKS#1234 LONDON'), tx('t2', 'STARBUCKS #88 LONDON'), tx('t3', 'Starbucks 77 london')],
+        { model, categories, cache: new Map() }
+      );
+
+      expect(calls).toHaveLength(1);
+      expect(calls[0]).toHaveLength(1);
+      expect(calls[0][0]).toMatchObject({ id: '1', direction: 'debit' });
+      expect(outcome.results.get('t3')).toEqual({
+        category_code: 'expense_travel',
+        counterparty_name: 'Starbucks',
+        confidence: 0.9,
+      });
+      expect(outcome.fresh.get('starbucks london')).toBeDefined();
+      expect(outcome.descriptionsSent).toBe(1);
+    });
+
+    it('should not call the model for cached descriptions', async () => {
+      const { model, calls } = stubModel({});
+      const cache = new Map<string, AiCategoryResult>([
+        ['aws emea', { category_code: 'expense_technology', counterparty_name: 'Amazon Web Services', confidence: 1 }],
+      ]);
+
+      const outcome = await categorizeTransactions([tx('t1', 'AWS EMEA 2024-03')], { model, categories, cache });
+
+      expect(calls).toHaveLength(0);
+      expect(outcome.cacheHits).toBe(1);
+      expect(outcome.results.get('t1')?.category_code).toBe('expense_technology');
+      expect(outcome.fresh.size).toBe(0);
+    });
+
+    it('should batch, and leave a failed batch uncached so it is retried', async () => {
+      let call = 0;
+      const model: CategorizationModel = {
+        name: 'flaky',
+        async categorize(items) {
+          call++;
+          if (call === 2) throw new Error('quota exceeded');
+          return items.map((item) => ({ id: item.id, category_code: 'expense_technology', confidence: 0.6 }));
+        },
+      };
+
+      const cache = new Map<string, AiCategoryResult>();
+      const outcome = await categorizeTransactions(
+        [tx('t1', 'alpha'), tx('t2', 'beta'), tx('t3', 'gamma')],
+        { model, categories, cache, batchSize: 2 }
+      );
+
+      expect(outcome.modelCalls).toBe(2);
+      expect(outcome.errors).toEqual(['quota exceeded']);
+      expect(Array.from(cache.keys())).toEqual(['alpha', 'beta']);
+      expect(outcome.results.has('t3')).toBe(false);
+    });
+  });
+
+  describe('sanitizeResult', () => {
+    it('should clamp confidence and zero out categories outside the list', () => {
+      const allowed = new Set(categories.map((category) => category.code));
+
+      expect(sanitizeResult({ id: '1', category_code: 'expense_travel', confidence: 1.7 }, allowed)).toEqual({
+        category_code: 'expense_travel',
+        counterparty_name: null,
+        confidence: 1,
+      });
+      expect(
+        sanitizeResult({ id: '1', category_code: 'made_up', counterparty_name: '  Acme   Ltd ', confidence: 0.99 }, allowed)
+      ).toEqual({ category_code: 'uncategorized', counterparty_name: 'Acme Ltd', confidence: 0 });
+    });
+  });
+
+  describe('buildRuleFromSuggestion', () => {
+    it('should produce a rule that matches the same description variants', () => {
+      const input = buildRuleFromSuggestion({
+        description_key: 'starbucks london',
+        category_code: 'expense_travel',
+        counterparty_name: 'Starbucks',
+      });
+
+      expect(input).toMatchObject({ name: 'Starbucks', description_pattern: 'starbucks.*london' });
+
+      const rules = compileRules([
+        {
+          ...input,
+          id: 'r1',
+          tenant_id: 'tenant-1',
+          priority: 100,
+          is_active: true,
+          account_ids: [],
+          currencies: [],
+          created_at: '2025-01-01T00:00:00Z',
+          updated_at: '2025-01-01T00:00:00Z',
+        } as CategorizationRule,
+      ]);
+      expect(findMatchingRule(rules, tx('t1', 'STARBUCKS #88 LONDON'))).not.toBeNull();
+      expect(findMatchingRule(rules, tx('t2', 'Costa London'))).toBeNull();
+    });
+  });
+});
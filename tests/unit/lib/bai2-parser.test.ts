@@ -0,0 +1,112 @@
+/**
+ * Test: BAI2 parser
+ * Priority: HIGH - BAI2 files feed US balances and transactions directly
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseBai2, bai2Direction } from '@/lib/parsers/bai2-parser';
+import { detectBankStatementFormat, parseBankStatementFile, toStatementInputs } from '@/lib/parsers/bank-statement-parser';
+
+function bai2({ closing = '130000', groupControl = '425000', modifier = '2' } = {}) {
+  return [
+    '01,BANKSENDER,CUSTRECV,250303,0600,FILE1,,,2/',
+    `02,CUSTRECV,BANKID,1,250303,,USD,${modifier}/`,
+    `03,123456789,USD,010,100000,,,015,${closing},,,045,125000,,/`,
+    '16,142,50000,0,BANKREF1,INV1001,ACH credit from/',
+    '88,Customer Co',
+    '16,698,10000,,BANKREF2,,Monthly fees/',
+    '16,495,10000,V,250303,1200,WIRE1,,Wire out/',
+    `49,${Number(closing) + 295000},6/`,
+    `98,${groupControl},1,8/`,
+    `99,${groupControl},1,10/`,
+  ].join('\n');
+}
+
+describe('BAI2 parser', () => {
+  it('should parse summaries and detail records', () => {
+    const result = parseBai2(bai2());
+
+    expect(result.success).toBe(true);
+    expect(result.fileId).toBe('FILE1');
+    expect(result.summary.validRows).toBe(3);
+
+    const [statement] = result.statements;
+    expect(statement.account.accountNumber).toBe('123456789');
+    expect(statement.openingBalance).toEqual({ amount: 1000, date: '2025-03-03', currency: 'USD' });
+    expect(statement.closingBalance?.amount).toBe(1300);
+    expect(statement.closingAvailableBalance?.amount).toBe(1250);
+
+    expect(statement.transactions.map((t) => t.amount)).toEqual([500, -100, -100]);
+    expect(statement.transactions[0]).toMatchObject({
+      type: 'credit',
+      description: 'ACH credit from Customer Co',
+      reference: 'BANKREF1',
+      category: 'income_business',
+      rowNumber: 4,
+    });
+    expect(statement.transactions[1].category).toBe('expense_taxes');
+    expect(statement.transactions[2].metadata).toMatchObject({ bankReference: 'WIRE1', valueDate: '2025-03-03' });
+  });
+
+  it('should fold continued references into their fields rather than the text', () => {
+    const file = bai2()
+      .replace('16,698,10000,,BANKREF2,,Monthly fees/', '16,698,10000,,BANKREF2/\n88,FEES-0325,Monthly/\n88,fees')
+      // Two more physical records in the account, group and file counts
+      .replace(/(49,\d+),6\//, '$1,8/')
+      .replace(/,1,10\/$/, ',1,12/')
+      .replace(',1,8/', ',1,10/');
+    const result = parseBai2(file);
+
+    expect(result.success).toBe(true);
+    expect(result.statements[0].transactions[1]).toMatchObject({
+      description: 'Monthly fees',
+      reference: 'BANKREF2',
+      metadata: { bankReference: 'BANKREF2', customerReference: 'FEES-0325' },
+    });
+  });
+
+  it('should map type code ranges to a direction', () => {
+    expect(bai2Direction('142')).toBe('credit');
+    expect(bai2Direction('915')).toBe('credit');
+    expect(bai2Direction('475')).toBe('debit');
+    expect(bai2Direction('950')).toBe('debit');
+    expect(bai2Direction('720')).toBeNull();
+  });
+
+  it('should report control total mismatches with the line number', () => {
+    const result = parseBai2(bai2({ groupControl: '425001' }));
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toContainEqual(
+      expect.objectContaining({ row: 9, field: 'group_control_total', value: '425001' })
+    );
+  });
+
+  it('should report a bad detail amount in the CSV error style', () => {
+    const result = parseBai2(bai2().replace('16,698,10000', '16,698,10A00'));
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toMatchObject({ row: 6, field: 'amount', value: '10A00' });
+  });
+
+  it('should import through the bank statement dispatcher with a tie-out check', () => {
+    expect(detectBankStatementFormat(bai2())).toBe('bai2');
+    expect(parseBankStatementFile(bai2()).success).toBe(true);
+
+    // Closing ledger that does not match opening + details (control totals still balance)
+    const result = parseBankStatementFile(bai2({ closing: '140000', groupControl: '435000' }));
+    expect(result.success).toBe(false);
+    expect(result.errors[0].message).toContain('does not tie out');
+  });
+
+  it('should store same-day reports as medium-confidence balances', () => {
+    const [statement] = parseBai2(bai2({ modifier: '3' })).statements;
+    const inputs = toStatementInputs(statement, 'tenant-1', 'account-uuid');
+
+    expect(statement.intraday).toBe(true);
+    expect(inputs.map((i) => [i.statementDate, i.endingBalance, i.confidence])).toEqual([
+      ['2025-03-02', 1000, 'high'],
+      ['2025-03-03', 1300, 'medium'],
+    ]);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Test: Daily balance reconstruction
+ * Priority: HIGH - Dashboard trends and saved statements depend on it
+ */
+
+import { describe, it, expect } from 'vitest';
+import { consolidateCashSeries, reconstructDailyBalances } from '@/lib/balances/reconstruction';
+import type { AccountBalanceSeries } from '@/lib/types/balances';
+
+describe('reconstructDailyBalances', () => {
+  it('rolls forward from the previous anchor and backward from the next', () => {
+    const days = reconstructDailyBalances({
+      startDate: '2025-06-01',
+      endDate: '2025-06-05',
+      anchors: [{ date: '2025-06-05', balance: 1000, source: 'synced' }],
+      flows: [
+        { date: '2025-06-02', amount: 200 },
+        { date: '2025-06-04', amount: -50 },
+      ],
+    });
+
+    expect(days.map((day) => day.balance)).toEqual([850, 1050, 1050, 1000, 1000]);
+    expect(days[4]).toMatchObject({ source: 'synced', confidence: 'high', reported_balance: 1000 });
+    expect(days[0]).toMatchObject({ source: 'calculated', confidence: 'medium', anchor_date: '2025-06-05' });
+  });
+
+  it('uses the nearest anchor, preferring the earlier one on ties', () => {
+    const days = reconstructDailyBalances({
+      startDate: '2025-06-02',
+      endDate: '2025-06-04',
+      anchors: [
+        { date: '2025-06-01', balance: 100, source: 'imported' },
+        { date: '2025-06-05', balance: 130, source: 'manual' },
+      ],
+      flows: [
+        { date: '2025-06-02', amount: 10 },
+        { date: '2025-06-03', amount: 10 },
+        { date: '2025-06-04', amount: 10 },
+      ],
+    });
+
+    expect(days.map((day) => [day.balance, day.anchor_date])).toEqual([
+      [110, '2025-06-01'],
+      [120, '2025-06-01'],
+      [130, '2025-06-05'],
+    ]);
+    expect(days.every((day) => day.discrepancy === null)).toBe(true);
+  });
+
+  it('flags a reported balance the transactions do not explain and lowers confidence around it', () => {
+    const days = reconstructDailyBalances({
+      startDate: '2025-06-01',
+      endDate: '2025-06-03',
+      anchors: [
+        { date: '2025-06-01', balance: 500, source: 'synced' },
+        { date: '2025-06-03', balance: 400, source: 'synced' },
+      ],
+      flows: [{ date: '2025-06-02', amount: -60 }],
+    });
+
+    expect(days[2]).toMatchObject({
+      reported_balance: 400,
+      reconstructed_balance: 440,
+      discrepancy: -40,
+      anchor_date: '2025-06-01',
+    });
+    expect(days[1]).toMatchObject({ source: 'calculated', confidence: 'low' });
+  });
+
+  it('marks days far from any anchor as low confidence and returns nothing without anchors', () => {
+    const days = reconstructDailyBalances({
+      startDate: '2025-06-01',
+      endDate: '2025-06-20',
+      anchors: [{ date: '2025-06-20', balance: 10, source: 'synced' }],
+      flows: [],
+    });
+
+    expect(days[0].confidence).toBe('low');
+    expect(days[19 - 7].confidence).toBe('medium');
+    expect(reconstructDailyBalances({ startDate: '2025-06-01', endDate: '2025-06-02', anchors: [], flows: [] })).toEqual(
+      []
+    );
+  });
+});
+
+describe('consolidateCashSeries', () => {
+  it('sums accounts per group in the reporting currency with the lowest confidence', () => {
+    const account = (id: string, entity: string, currency: string, balances: number[]): AccountBalanceSeries => ({
+      account_id: id,
+      account_name: id,
+      entity_id: entity,
+      bank_name: null,
+      currency,
+      days: balances.map((balance, index) => ({
+        date: `2025-06-0${index + 1}`,
+        balance,
+        source: index === 0 ? 'synced' : 'calculated',
+        confidence: index === 0 ? 'high' : 'medium',
+        anchor_date: index === 0 ? null : '2025-06-01',
+        reported_balance: index === 0 ? balance : null,
+        reconstructed_balance: null,
+        discrepancy: null,
+      })),
+    });
+
+    const result = consolidateCashSeries({
+      accounts: [account('a', 'US', 'USD', [100, 150]), account('b', 'UK', 'GBP', [100, 200])],
+      groupBy: 'entity',
+      labels: { US: 'Acme US', UK: 'Acme UK' },
+      currency: 'USD',
+      rateType: 'SPOT',
+      rates: (from, to) => (from === 'GBP' && to === 'USD' ? { rate: 1.25, date: '2025-06-02', source: 'oxr' } : null),
+    });
+
+    expect(result.series.map((series) => series.label)).toEqual(['Acme UK', 'Acme US']);
+    expect(result.total.map((point) => point.amount)).toEqual([225, 400]);
+    expect(result.total[1]).toMatchObject({ confidence: 'medium', accounts: 2, calculated_accounts: 2 });
+    expect(result.rate_date).toBe('2025-06-02');
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Test: Bank fee detection and analysis
+ * Priority: MEDIUM - Drives per-bank cost reporting and increase alerts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildFeeRows,
+  compileFeePatterns,
+  detectFee,
+  findFeeIncreases,
+  mergeStatementFees,
+  resolveInstitution,
+  validateFeePattern,
+  validateStatementLines,
+} from '@/lib/bank-fees/detection';
+import type { BankFeePattern, DetectedFee } from '@/lib/types/bank-fees';
+
+function pattern(overrides: Partial<BankFeePattern>): BankFeePattern {
+  return {
+    id: overrides.pattern || 'p',
+    tenant_id: null,
+    institution_id: null,
+    fee_type: 'other',
+    pattern: 'service charge',
+    description: null,
+    is_active: true,
+    created_at: '2025-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function fee(overrides: Partial<DetectedFee>): DetectedFee {
+  return {
+    source: 'transaction',
+    reference: 'tx',
+    account_id: 'acc-1',
+    institution_id: 'chase',
+    bank_name: 'JPMorgan Chase Bank',
+    entity_id: 'ACME-US',
+    month: '2025-05',
+    fee_type: 'wire',
+    amount: 10,
+    currency: 'USD',
+    reporting_amount: 10,
+    description: 'WIRE FEE',
+    matched_by: 'pattern',
+    ...overrides,
+  };
+}
+
+const patterns = compileFeePatterns([
+  pattern({ pattern: 'analysis charge|analysis service charge', fee_type: 'analysis' }),
+  pattern({ pattern: 'service charge', fee_type: 'other' }),
+  pattern({ pattern: 'acct analysis', fee_type: 'analysis', institution_id: 'chase' }),
+  pattern({ pattern: 'wire', fee_type: 'wire', tenant_id: 'tenant-1', institution_id: 'bofa' }),
+  pattern({ pattern: 'lockbox*fee', fee_type: 'other', tenant_id: 'tenant-1' }),
+]);
+
+describe('detectFee', () => {
+  it("uses the bank's own wording first, then generic patterns, then the category", () => {
+    const tx = { transaction_id: 't1', account_id: 'a', date: '2025-05-02', amount: 250, type: 'debit' };
+
+    expect(detectFee({ ...tx, description: 'ACCT ANALYSIS SERVICE CHARGE' }, 'chase', patterns)).toEqual({
+      fee_type: 'analysis',
+      matched_by: 'institution_pattern',
+    });
+    expect(detectFee({ ...tx, description: 'MONTHLY SERVICE CHARGE' }, 'chase', patterns)).toEqual({
+      fee_type: 'other',
+      matched_by: 'pattern',
+    });
+    expect(detectFee({ ...tx, description: 'Lockbox item fee' }, 'chase', patterns)).toEqual({
+      fee_type: 'other',
+      matched_by: 'pattern',
+    });
+    // A Bank of America pattern doesn't apply to a Chase account
+    expect(detectFee({ ...tx, description: 'OUTGOING WIRE' }, 'chase', patterns)).toBeNull();
+    expect(detectFee({ ...tx, description: 'Misc', provider_category: 'BANK_FEES' }, 'chase', patterns)).toEqual({
+      fee_type: 'other',
+      matched_by: 'category',
+    });
+    // Refunds are credits and are not costs
+    expect(detectFee({ ...tx, type: 'credit', description: 'SERVICE CHARGE REVERSAL' }, 'chase', patterns)).toBeNull();
+  });
+});
+
+describe('resolveInstitution', () => {
+  const institutions = [
+    { institution_id: 'citi', institution_name: 'Citibank', short_name: 'Citi' },
+    { institution_id: 'ing', institution_name: 'ING Bank', short_name: 'ING' },
+    { institution_id: 'chase', institution_name: 'JPMorgan Chase Bank', short_name: 'Chase' },
+  ];
+
+  it('prefers the explicit link and otherwise matches the bank name', () => {
+    expect(resolveInstitution({ financial_institution_id: 'ing', bank_name: 'Chase' }, institutions)).toBe('ing');
+    expect(resolveInstitution({ bank_name: 'Chase Business Checking' }, institutions)).toBe('chase');
+    expect(resolveInstitution({ institution_name: 'Citibank N.A.' }, institutions)).toBe('citi');
+    expect(resolveInstitution({ bank_name: 'Local Credit Union' }, institutions)).toBeNull();
+  });
+});
+
+describe('mergeStatementFees', () => {
+  it('replaces the analysis debit with statement lines only for itemised account months', () => {
+    const merged = mergeStatementFees(
+      [
+        fee({ reference: 'debit-may', fee_type: 'analysis', amount: 300 }),
+        fee({ reference: 'debit-jun', fee_type: 'analysis', month: '2025-06', amount: 320 }),
+        fee({ reference: 'wire-may' }),
+      ],
+      [
+        fee({ source: 'analysis_statement', reference: 'line-1', fee_type: 'ach', amount: 120 }),
+        fee({ source: 'analysis_statement', reference: 'line-2', fee_type: 'maintenance', amount: 180 }),
+      ]
+    );
+
+    expect(merged.map((item) => item.reference)).toEqual(['debit-jun', 'wire-may', 'line-1', 'line-2']);
+  });
+});
+
+describe('buildFeeRows / findFeeIncreases', () => {
+  it('totals by dimension and flags month-on-month increases over the threshold', () => {
+    const months = ['2025-04', '2025-05', '2025-06'];
+    const fees = [
+      fee({ month: '2025-04', reporting_amount: 100 }),
+      fee({ month: '2025-05', reporting_amount: 110 }),
+      fee({ month: '2025-06', reporting_amount: 150 }),
+      fee({ month: '2025-06', fee_type: 'fx', reporting_amount: 80 }),
+      fee({ month: '2025-06', fee_type: 'card', reporting_amount: 5 }),
+      fee({ month: '2025-06', fee_type: 'check', reporting_amount: null }), // No rate
+    ];
+
+    const byType = buildFeeRows(fees, 'fee_type', months);
+    expect(byType.map((row) => [row.key, row.total])).toEqual([
+      ['wire', 360],
+      ['fx', 80],
+      ['card', 5],
+    ]);
+    expect(byType[0].months).toEqual({ '2025-04': 100, '2025-05': 110, '2025-06': 150 });
+
+    const increases = findFeeIncreases(byType, 'fee_type', months, 20, 50);
+    expect(increases).toEqual([
+      { dimension: 'fee_type', key: 'fx', label: 'fx', month: '2025-06', previous_amount: 0, amount: 80, change_pct: null },
+    ]);
+    expect(findFeeIncreases(byType, 'fee_type', months, 20).map((increase) => [increase.key, increase.change_pct])).toEqual([
+      ['wire', 36.4],
+    ]);
+  });
+});
+
+describe('validation', () => {
+  it('rejects invalid patterns and statement lines', () => {
+    expect(validateFeePattern({ fee_type: 'wire', pattern: 'wire fee|*' })[0]).toMatch(/empty alternative/);
+    expect(validateFeePattern({ fee_type: 'wire', pattern: 'wire fee' })).toEqual([]);
+    expect(
+      validateStatementLines([
+        { period_month: '2025-05', service_code: '01 0000', fee_amount: 25 },
+        { period_month: 'May', service_code: '', fee_amount: Number.NaN, currency: 'EURO' },
+      ])
+    ).toEqual([
+      'Line 2: period must be YYYY-MM',
+      'Line 2: service code is required',
+      'Line 2: fee amount must be a number',
+      'Line 2: currency must be a 3-letter code',
+    ]);
+  });
+});
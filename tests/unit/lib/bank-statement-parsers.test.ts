@@ -0,0 +1,222 @@
+/**
+ * Test: camt.053/camt.052 and MT940/MT942 statement parsers
+ * Priority: HIGH - Statement files feed balances and transactions directly
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  detectBankStatementFormat,
+  parseBankStatementFile,
+  statementTransactionKeys,
+  toStatementInputs,
+} from '@/lib/parsers/bank-statement-parser';
+import { parseCamt } from '@/lib/parsers/camt-parser';
+import { parseMt940 } from '@/lib/parsers/mt940-parser';
+
+function camt053(closing = '1300.00') {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.08">
+  <BkToCstmrStmt>
+    <GrpHdr><MsgId>MSG-1</MsgId><CreDtTm>2025-03-04T06:00:00</CreDtTm></GrpHdr>
+    <Stmt>
+      <Id>STMT-20250303</Id>
+      <ElctrncSeqNb>62</ElctrncSeqNb>
+      <Acct>
+        <Id><IBAN>DE89370400440532013000</IBAN></Id>
+        <Ccy>EUR</Ccy>
+        <Svcr><FinInstnId><BICFI>COBADEFFXXX</BICFI></FinInstnId></Svcr>
+      </Acct>
+      <Bal>
+        <Tp><CdOrPrtry><Cd>OPBD</Cd></CdOrPrtry></Tp>
+        <Amt Ccy="EUR">1000.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Dt><Dt>2025-03-03</Dt></Dt>
+      </Bal>
+      <Bal>
+        <Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp>
+        <Amt Ccy="EUR">${closing}</Amt><CdtDbtInd>CRDT</CdtDbtInd><Dt><Dt>2025-03-03</Dt></Dt>
+      </Bal>
+      <TxsSummry>
+        <TtlCdtNtries><NbOfNtries>1</NbOfNtries><Sum>500.00</Sum></TtlCdtNtries>
+        <TtlDbtNtries><NbOfNtries>1</NbOfNtries><Sum>200.00</Sum></TtlDbtNtries>
+      </TxsSummry>
+      <Ntry>
+        <NtryRef>1</NtryRef>
+        <Amt Ccy="EUR">500.00</Amt><CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts><Cd>BOOK</Cd></Sts>
+        <BookgDt><Dt>2025-03-03</Dt></BookgDt><ValDt><Dt>2025-03-03</Dt></ValDt>
+        <AcctSvcrRef>BANK-REF-1</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <Refs><EndToEndId>INV-1001</EndToEndId></Refs>
+          <RltdPties><Dbtr><Pty><Nm>Customer &amp; Co</Nm></Pty></Dbtr></RltdPties>
+          <RmtInf><Ustrd>Invoice 1001</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">200.00</Amt><CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts><Cd>BOOK</Cd></Sts>
+        <BookgDt><Dt>2025-03-03</Dt></BookgDt>
+        <AcctSvcrRef>BANK-REF-2</AcctSvcrRef>
+        <AddtlNtryInf>Card settlement</AddtlNtryInf>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">75.00</Amt><CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts><Cd>PDNG</Cd></Sts>
+        <BookgDt><Dt>2025-03-04</Dt></BookgDt>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+}
+
+const camt052 = `<?xml version="1.0"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.052.001.02">
+  <BkToCstmrAcctRpt>
+    <Rpt>
+      <Id>RPT-1</Id>
+      <Acct><Id><IBAN>DE89370400440532013000</IBAN></Id><Ccy>EUR</Ccy></Acct>
+      <Ntry>
+        <Amt Ccy="EUR">42.10</Amt><CdtDbtInd>DBIT</CdtDbtInd><Sts>BOOK</Sts>
+        <BookgDt><Dt>2025-03-04</Dt></BookgDt>
+      </Ntry>
+    </Rpt>
+  </BkToCstmrAcctRpt>
+</Document>`;
+
+const mt940 = `{1:F01COBADEFFAXXX0000000000}{2:O9400000250304COBADEFFAXXX00000000002503040000N}{4:
+:20:STMT250303
+:25:DE89370400440532013000
+:28C:62/1
+:60F:C250303EUR1000,00
+:61:2503030303C500,00NTRFINV-1001//BANK-REF-1
+:86:166?00SEPA CREDIT?20Invoice 1001?32Customer Co
+:61:2503030303D200,00NMSCNONREF//BANK-REF-2
+:86:Card settlement
+:62F:C250303EUR1300,00
+:64:C250303EUR1300,00
+-}`;
+
+const mt942 = `:20:INTRA1
+:25:DE89370400440532013000
+:28C:1/1
+:34F:EURD0,
+:13D:2503041200+0100
+:61:250304D42,10NTRFNONREF
+:86:Transfer
+:90D:1EUR42,10
+:90C:0EUR0,
+-`;
+
+describe('Bank statement parsers', () => {
+  describe('detectBankStatementFormat', () => {
+    it('should recognise each supported format', () => {
+      expect(detectBankStatementFormat(camt053())).toBe('camt.053');
+      expect(detectBankStatementFormat(camt052)).toBe('camt.052');
+      expect(detectBankStatementFormat(mt940)).toBe('mt940');
+      expect(detectBankStatementFormat(mt942)).toBe('mt942');
+      expect(detectBankStatementFormat('date,amount\n2025-01-01,10')).toBeNull();
+    });
+  });
+
+  describe('camt.053', () => {
+    it('should parse balances and booked entries', () => {
+      const result = parseCamt(camt053());
+
+      expect(result.success).toBe(true);
+      expect(result.format).toBe('camt.053');
+
+      const [statement] = result.statements;
+      expect(statement.account.iban).toBe('DE89370400440532013000');
+      expect(statement.openingBalance?.amount).toBe(1000);
+      expect(statement.closingBalance?.amount).toBe(1300);
+      expect(statement.pendingCount).toBe(1);
+      expect(statement.transactions).toHaveLength(2);
+      expect(statement.transactions[0]).toMatchObject({
+        amount: 500,
+        type: 'credit',
+        reference: 'BANK-REF-1',
+        description: 'Invoice 1001',
+      });
+      expect(statement.transactions[0].metadata.counterparty).toBe('Customer & Co');
+      expect(statement.transactions[1].amount).toBe(-200);
+      expect(result.warnings.some((w) => w.includes('pending'))).toBe(true);
+    });
+
+    it('should reject a statement whose running balance does not tie out', () => {
+      const result = parseCamt(camt053('1350.00'));
+
+      expect(result.success).toBe(false);
+      expect(result.errors[0].message).toContain('does not tie out');
+    });
+
+    it('should accept intraday reports without balances', () => {
+      const result = parseCamt(camt052);
+
+      expect(result.success).toBe(true);
+      expect(result.format).toBe('camt.052');
+      expect(result.statements[0].transactions[0].amount).toBe(-42.1);
+      expect(result.warnings[0]).toContain('could not be verified');
+    });
+  });
+
+  describe('MT940', () => {
+    it('should parse a FIN-wrapped statement', () => {
+      const result = parseMt940(mt940);
+
+      expect(result.success).toBe(true);
+      const [statement] = result.statements;
+      expect(statement.statementId).toBe('STMT250303');
+      expect(statement.account.iban).toBe('DE89370400440532013000');
+      expect(statement.openingBalance).toEqual({ amount: 1000, date: '2025-03-03', currency: 'EUR' });
+      expect(statement.transactions.map((t) => t.amount)).toEqual([500, -200]);
+      expect(statement.transactions[0]).toMatchObject({
+        description: 'Invoice 1001',
+        reference: 'BANK-REF-1',
+      });
+      expect(statement.transactions[0].metadata.counterparty).toBe('Customer Co');
+      expect(statement.transactions[1].description).toBe('Card settlement');
+    });
+
+    it('should reject a statement that does not tie out', () => {
+      const result = parseMt940(mt940.replace(':62F:C250303EUR1300,00', ':62F:C250303EUR1299,00'));
+      expect(result.success).toBe(false);
+    });
+
+    it('should check MT942 entries against the declared totals', () => {
+      expect(parseBankStatementFile(mt942).success).toBe(true);
+
+      const result = parseBankStatementFile(mt942.replace(':90D:1EUR42,10', ':90D:2EUR84,20'));
+      expect(result.success).toBe(false);
+      expect(result.errors[0].field).toBe('declaredTotals');
+    });
+  });
+
+  describe('toStatementInputs', () => {
+    it('should store the opening balance as the prior day close', () => {
+      const [statement] = parseCamt(camt053()).statements;
+      const inputs = toStatementInputs(statement, 'tenant-1', 'account-uuid');
+
+      expect(inputs.map((i) => [i.statementDate, i.endingBalance])).toEqual([
+        ['2025-03-02', 1000],
+        ['2025-03-03', 1300],
+      ]);
+      expect(inputs.every((i) => i.source === 'imported' && i.accountId === 'account-uuid')).toBe(true);
+    });
+  });
+
+  describe('statementTransactionKeys', () => {
+    it('should key on the bank reference, falling back to the entry position', () => {
+      const [statement] = parseMt940(mt942).statements;
+      expect(statementTransactionKeys(parseCamt(camt053()).statements[0])).toEqual(['ref:BANK-REF-1', 'ref:BANK-REF-2']);
+      expect(statementTransactionKeys(statement)).toEqual([`mt942:${statement.statementId}:1`]);
+    });
+
+    it('should not trust a bank reference that repeats within the statement', () => {
+      const [statement] = parseCamt(camt053()).statements;
+      statement.transactions.forEach((tx) => (tx.metadata.bankReference = 'NOTUNIQUE'));
+
+      expect(statementTransactionKeys(statement)).toEqual([
+        `camt.053:${statement.statementId}:1`,
+        `camt.053:${statement.statementId}:2`,
+      ]);
+    });
+  });
+});
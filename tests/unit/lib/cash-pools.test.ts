@@ -0,0 +1,132 @@
+/**
+ * Test: Cash pool simulation
+ * Priority: HIGH - Sweeps and interest allocation drive intercompany positions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildPoolLoans, simulateCashPool, validateCashPool } from '@/lib/cash-pools/simulation';
+import type { PoolAccountBalances } from '@/lib/types/cash-pool';
+
+// 3.6% credit and 7.2% debit on ACT/360: 0.0001 and 0.0002 per day
+const rates = { creditRate: 0.036, debitRate: 0.072, dayCount: 360 };
+
+function account(
+  accountId: string,
+  entityId: string | null,
+  balances: Record<string, number>
+): PoolAccountBalances {
+  return {
+    account_id: accountId,
+    account_name: accountId,
+    entity_id: entityId,
+    balances: Object.entries(balances).map(([date, balance]) => ({ date, balance })),
+  };
+}
+
+const header = account('header', 'ACME-US', { '2025-06-01': 100000, '2025-06-02': 100000 });
+
+describe('validateCashPool', () => {
+  it('rejects a header listed as a participant, duplicates and percentage rates', () => {
+    const problems = validateCashPool({
+      name: 'EUR Pool',
+      pool_type: 'physical',
+      header_account_id: 'header',
+      credit_rate: 2.5,
+      participants: [{ account_id: 'header' }, { account_id: 'a' }, { account_id: 'a' }],
+    });
+
+    expect(problems).toEqual([
+      'The header account cannot also be a participant',
+      'Each account can be a participant once',
+      'Credit rate must be an annual fraction, e.g. 0.025 for 2.5%',
+    ]);
+    expect(
+      validateCashPool({ name: 'EUR Pool', pool_type: 'notional', header_account_id: 'header', participants: [] })
+    ).toEqual(['At least one participant account is required']);
+  });
+});
+
+describe('simulateCashPool', () => {
+  it('zero balances participants into the header and allocates interest on positions', () => {
+    const result = simulateCashPool({
+      poolType: 'physical',
+      sweepRule: 'zero_balancing',
+      ...rates,
+      header,
+      participants: [
+        { ...account('a', 'ACME-DE', { '2025-06-01': 50000, '2025-06-02': 80000 }), target_balance: 5000 },
+        { ...account('b', 'ACME-US', { '2025-06-01': -20000, '2025-06-02': -20000 }), target_balance: 0 },
+      ],
+    });
+
+    expect(result.days.map((day) => day.sweeps)).toEqual([
+      [
+        { account_id: 'a', amount: 50000 },
+        { account_id: 'b', amount: -20000 },
+      ],
+      [{ account_id: 'a', amount: 30000 }],
+    ]);
+    expect(result.days.map((day) => day.header_balance)).toEqual([130000, 160000]);
+    expect(result.days.map((day) => day.interest)).toEqual([13, 16]);
+
+    const [a, b] = result.participants;
+    expect(a).toMatchObject({ target_balance: 0, swept_to_header: 80000, closing_position: 80000, interest_allocated: 13 });
+    expect(b).toMatchObject({ swept_from_header: 20000, closing_position: -20000, interest_allocated: -8 });
+    expect(result.pool_interest).toBe(29);
+    expect(result.interest_retained).toBe(24);
+  });
+
+  it('funds a participant back up to its target when its balance falls below it', () => {
+    const result = simulateCashPool({
+      poolType: 'physical',
+      sweepRule: 'target_balancing',
+      ...rates,
+      header: account('header', 'ACME-US', { '2025-06-01': 0, '2025-06-02': 0, '2025-06-03': 0 }),
+      participants: [
+        {
+          ...account('a', 'ACME-DE', { '2025-06-01': 50000, '2025-06-02': 80000, '2025-06-03': 5000 }),
+          target_balance: 10000,
+        },
+      ],
+    });
+
+    expect(result.days.map((day) => day.sweeps[0].amount)).toEqual([40000, 30000, -75000]);
+    expect(result.participants[0]).toMatchObject({
+      swept_to_header: 70000,
+      swept_from_header: 75000,
+      closing_position: -5000,
+    });
+  });
+
+  it('nets notional balances for interest without sweeping, on days every account reported', () => {
+    const result = simulateCashPool({
+      poolType: 'notional',
+      sweepRule: 'zero_balancing',
+      ...rates,
+      header,
+      participants: [{ ...account('a', 'ACME-DE', { '2025-06-02': -30000 }), target_balance: 0 }],
+    });
+
+    expect(result.days).toEqual([
+      { date: '2025-06-02', header_balance: 100000, pool_balance: 70000, sweeps: [], interest: 7 },
+    ]);
+    expect(result.participants[0].interest_allocated).toBe(-6);
+    expect(result.interest_retained).toBe(13);
+  });
+});
+
+describe('buildPoolLoans', () => {
+  it('nets positions per entity and skips participants in the header entity', () => {
+    const loans = buildPoolLoans('ACME-US', [
+      { entity_id: 'ACME-DE', closing_position: 80000 },
+      { entity_id: 'ACME-DE', closing_position: -30000 },
+      { entity_id: 'ACME-UK', closing_position: -12000 },
+      { entity_id: 'ACME-US', closing_position: -20000 },
+    ]);
+
+    expect(loans).toEqual([
+      { lender_entity_id: 'ACME-DE', borrower_entity_id: 'ACME-US', amount: 50000 },
+      { lender_entity_id: 'ACME-US', borrower_entity_id: 'ACME-UK', amount: 12000 },
+    ]);
+  });
+});
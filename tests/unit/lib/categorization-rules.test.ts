@@ -0,0 +1,158 @@
+/**
+ * Test: Categorization rules engine
+ * Priority: HIGH - Rules rewrite categories and GL codes in bulk
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compileRules, findMatchingRule, hasNestedQuantifier, resolveAssignment, validateRule } from '@/lib/categorization/rules-engine';
+import type { CategorizableTransaction, CategorizationRule } from '@/lib/types/categorization';
+
+function rule(overrides: Partial<CategorizationRule>): CategorizationRule {
+  return {
+    id: overrides.id || 'rule-1',
+    tenant_id: 'tenant-1',
+    name: 'Rule',
+    priority: 100,
+    is_active: true,
+    account_ids: [],
+    currencies: [],
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function tx(overrides: Partial<CategorizableTransaction> = {}): CategorizableTransaction {
+  return {
+    transaction_id: 'tx-1',
+    account_id: 'ACC-1',
+    description: 'AWS EMEA invoice 123',
+    counterparty_name: 'Amazon Web Services',
+    amount: -1250,
+    currency: 'EUR',
+    category: 'Uncategorized',
+    provider_category: 'Uncategorized',
+    ...overrides,
+  };
+}
+
+describe('Categorization rules engine', () => {
+  describe('validateRule', () => {
+    it('should reject invalid regexes, empty conditions and missing assignments', () => {
+      expect(validateRule({ name: 'Bad', description_pattern: '(unclosed', category_code: 'expense_other' })[0]).toContain(
+        'not a valid regular expression'
+      );
+      expect(validateRule({ name: 'No condition', category_code: 'expense_other' })).toContain(
+        'At least one condition is required'
+      );
+      expect(validateRule({ name: 'No assignment', direction: 'debit' })).toContain(
+        'A rule must assign a category, GL code or cost center'
+      );
+      expect(validateRule({ name: 'Range', amount_min: 10, amount_max: 5, gl_code: '6000' })).toContain(
+        'Minimum amount must not exceed maximum amount'
+      );
+    });
+
+    it('should reject nested quantifiers that make matching backtrack, and skip saved rules that use them', () => {
+      expect(hasNestedQuantifier('(a+)+$')).toBe(true);
+      expect(hasNestedQuantifier('^(\\w+\\s?)*$')).toBe(true);
+      expect(hasNestedQuantifier('((ab)*c)+')).toBe(true);
+      expect(hasNestedQuantifier('^aws (eu|us)-[a-z]+\\d*')).toBe(false);
+      expect(hasNestedQuantifier('[(+)]+')).toBe(false);
+
+      expect(validateRule({ name: 'Slow', description_pattern: '(a+)+$', category_code: 'expense_other' })[0]).toContain(
+        'repeats a group'
+      );
+      expect(compileRules([rule({ description_pattern: '(a+)+$' })])).toEqual([]);
+    });
+  });
+
+  describe('matching', () => {
+    it('should match on description, counterparty, amount range, direction, account and currency', () => {
+      const compiled = compileRules([
+        rule({
+          description_pattern: '^aws',
+          counterparty_pattern: 'amazon',
+          amount_min: 1000,
+          amount_max: 5000,
+          direction: 'debit',
+          account_ids: ['ACC-1'],
+          currencies: ['eur'],
+          category_code: 'expense_technology',
+        }),
+      ]);
+
+      expect(findMatchingRule(compiled, tx())).not.toBeNull();
+      expect(findMatchingRule(compiled, tx({ amount: 1250 }))).toBeNull(); // credit
+      expect(findMatchingRule(compiled, tx({ amount: -50 }))).toBeNull();
+      expect(findMatchingRule(compiled, tx({ currency: 'USD' }))).toBeNull();
+      expect(findMatchingRule(compiled, tx({ account_id: 'ACC-2' }))).toBeNull();
+      // Provider syncs store absolute amounts with a type
+      expect(findMatchingRule(compiled, tx({ amount: 1250, type: 'debit' }))).not.toBeNull();
+    });
+
+    it('should use priority order with first match winning and skip inactive rules', () => {
+      const compiled = compileRules([
+        rule({ id: 'broad', priority: 50, description_pattern: 'invoice', category_code: 'expense_other' }),
+        rule({ id: 'specific', priority: 10, description_pattern: 'aws', category_code: 'expense_technology' }),
+        rule({ id: 'off', priority: 1, is_active: false, description_pattern: '.*', category_code: 'expense_rent' }),
+      ]);
+
+      expect(findMatchingRule(compiled, tx())?.id).toBe('specific');
+    });
+  });
+
+  describe('resolveAssignment', () => {
+    const compiled = compileRules([
+      rule({
+        id: 'aws',
+        description_pattern: 'aws',
+        category_code: 'expense_technology',
+        gl_code: '6420',
+        cost_center: 'ENG',
+      }),
+    ]);
+
+    it('should assign category, GL code and cost center from the matching rule', () => {
+      expect(resolveAssignment(compiled, tx())).toEqual({
+        category: 'expense_technology',
+        gl_code: '6420',
+        cost_center: 'ENG',
+        categorization_rule_id: 'aws',
+        category_source: 'rule',
+      });
+    });
+
+    it('should leave manual categories and unchanged rows alone', () => {
+      expect(resolveAssignment(compiled, tx({ category_source: 'manual', category: 'expense_travel' }))).toBeNull();
+      expect(
+        resolveAssignment(
+          compiled,
+          tx({ category: 'expense_technology', gl_code: '6420', cost_center: 'ENG', categorization_rule_id: 'aws' })
+        )
+      ).toBeNull();
+      expect(resolveAssignment(compiled, tx({ description: 'Office rent' }))).toBeNull();
+    });
+
+    it('should fall back to the provider category when the rule no longer matches', () => {
+      const assignment = resolveAssignment(
+        compiled,
+        tx({
+          description: 'Office rent',
+          category: 'expense_technology',
+          provider_category: 'RENT_AND_UTILITIES',
+          category_source: 'rule',
+          categorization_rule_id: 'aws',
+          gl_code: '6420',
+        })
+      );
+
+      expect(assignment).toMatchObject({
+        category: 'RENT_AND_UTILITIES',
+        gl_code: null,
+        categorization_rule_id: null,
+        category_source: 'provider',
+      });
+    });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Test: Facility register and covenant testing
+ * Priority: HIGH - Covenant breaches are reported to lenders
+ */
+
+import { describe, it, expect } from 'vitest';
+import { allInRate, facilityPosition, generateRepaymentSchedule } from '@/lib/facilities/register';
+import { evaluateCovenant, isNewAlert, isTestPeriodEnd } from '@/lib/facilities/covenants';
+import type { CovenantFigures } from '@/lib/types/facility';
+
+function figures(overrides: Partial<CovenantFigures> = {}): CovenantFigures {
+  return {
+    currency: 'USD',
+    cash: 2_000_000,
+    total_debt: 10_000_000,
+    undrawn_revolving: 5_000_000,
+    ebitda: 3_000_000,
+    interest_expense: 600_000,
+    ...overrides,
+  };
+}
+
+describe('generateRepaymentSchedule', () => {
+  it('keeps month-end anchors, ends on maturity and leaves the balloon for last', () => {
+    const schedule = generateRepaymentSchedule({
+      amount: 1_000_000,
+      firstDueDate: '2025-01-31',
+      maturityDate: '2025-12-31',
+      frequency: 'quarterly',
+      balloonPct: 40,
+    });
+
+    expect(schedule.map((row) => row.due_date)).toEqual(['2025-01-31', '2025-04-30', '2025-07-31', '2025-10-31', '2025-12-31']);
+    expect(schedule.slice(0, 4).map((row) => row.principal_amount)).toEqual([120_000, 120_000, 120_000, 120_000]);
+    expect(schedule[4].principal_amount).toBe(520_000);
+    expect(schedule.reduce((sum, row) => sum + row.principal_amount, 0)).toBe(1_000_000);
+  });
+});
+
+describe('facilityPosition', () => {
+  it('prefers linked account balances and floors the reference rate', () => {
+    const facility = {
+      commitment_amount: 5_000_000,
+      drawn_amount: 1_000_000,
+      maturity_date: '2026-06-30',
+      reference_rate: 'SOFR',
+      reference_rate_value: 0.001,
+      margin: 0.0175,
+      rate_floor: 0.005,
+      repayments: [
+        { id: 'r1', facility_id: 'f1', due_date: '2025-03-31', principal_amount: 250_000, status: 'paid' as const, created_at: '' },
+        { id: 'r2', facility_id: 'f1', due_date: '2025-09-30', principal_amount: 250_000, status: 'scheduled' as const, created_at: '' },
+      ],
+    };
+
+    const position = facilityPosition(facility, -2_000_000, '2025-06-30');
+    expect(position).toMatchObject({
+      drawn: 2_000_000,
+      drawn_source: 'accounts',
+      available: 3_000_000,
+      utilization: 0.4,
+      all_in_rate: 0.0225,
+      next_repayment: { due_date: '2025-09-30', principal_amount: 250_000 },
+      days_to_maturity: 365,
+    });
+    expect(facilityPosition(facility, null, '2025-06-30').drawn).toBe(1_000_000);
+    expect(allInRate({ reference_rate: 'FIXED', reference_rate_value: null, margin: 0.045, rate_floor: null })).toBe(0.045);
+  });
+});
+
+describe('isTestPeriodEnd', () => {
+  it('matches calendar period ends for the test frequency', () => {
+    expect(isTestPeriodEnd('2025-06-30', 'quarterly')).toBe(true);
+    expect(isTestPeriodEnd('2025-05-31', 'quarterly')).toBe(false);
+    expect(isTestPeriodEnd('2025-05-31', 'monthly')).toBe(true);
+    expect(isTestPeriodEnd('2025-06-29', 'monthly')).toBe(false);
+    expect(isTestPeriodEnd('2025-12-31', 'annual')).toBe(true);
+  });
+});
+
+describe('evaluateCovenant', () => {
+  it('grades ratios against the threshold and the warning headroom', () => {
+    // Net leverage (10m - 2m) / 3m = 2.67x
+    expect(evaluateCovenant({ metric: 'net_leverage', threshold: 3.5, warning_headroom_pct: 10 }, figures())).toMatchObject({
+      value: 2.67,
+      status: 'compliant',
+    });
+    expect(evaluateCovenant({ metric: 'net_leverage', threshold: 2.8, warning_headroom_pct: 10 }, figures())).toMatchObject({
+      status: 'near_breach',
+      headroom_pct: 4.64,
+    });
+    expect(evaluateCovenant({ metric: 'gross_leverage', threshold: 3, warning_headroom_pct: 10 }, figures()).status).toBe(
+      'breach'
+    );
+    // Liquidity counts undrawn revolving commitments
+    expect(
+      evaluateCovenant({ metric: 'minimum_liquidity', threshold: 5_000_000, warning_headroom_pct: 10 }, figures())
+    ).toMatchObject({ value: 7_000_000, headroom_pct: 40, status: 'compliant' });
+  });
+
+  it('reports missing figures and treats non-positive EBITDA as a leverage breach', () => {
+    const covenant = { metric: 'net_leverage' as const, threshold: 3.5, warning_headroom_pct: 10 };
+
+    expect(evaluateCovenant(covenant, figures({ ebitda: null }))).toMatchObject({ status: 'insufficient_data', value: null });
+    expect(evaluateCovenant(covenant, figures({ ebitda: -100 }))).toMatchObject({ status: 'breach', value: null });
+    expect(
+      evaluateCovenant({ metric: 'interest_cover', threshold: 4, warning_headroom_pct: 10 }, figures({ interest_expense: 0 }))
+        .status
+    ).toBe('compliant');
+
+    expect(isNewAlert(undefined, 'breach')).toBe(true);
+    expect(isNewAlert('near_breach', 'breach')).toBe(true);
+    expect(isNewAlert('breach', 'breach')).toBe(false);
+    expect(isNewAlert('breach', 'compliant')).toBe(false);
+  });
+});
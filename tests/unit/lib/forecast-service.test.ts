@@ -0,0 +1,153 @@
+/**
+ * Test: Rolling cash forecast engine
+ * Priority: HIGH - Forecasts drive liquidity decisions
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: { from: vi.fn() },
+}));
+
+import {
+  detectRecurringFlows,
+  summarizeResidualFlows,
+  buildWeeklyForecast,
+  normalizeFlowKey,
+  type ForecastTransaction,
+} from '@/lib/services/forecast-service';
+
+const monthlyRent: ForecastTransaction[] = [
+  { date: '2025-01-01', amount: 5000, type: 'debit', description: 'Office rent INV-1001' },
+  { date: '2025-02-01', amount: 5000, type: 'debit', description: 'Office rent INV-1002' },
+  { date: '2025-03-01', amount: 5000, type: 'debit', description: 'Office rent INV-1003' },
+  { date: '2025-04-01', amount: 5000, type: 'debit', description: 'Office rent INV-1004' },
+];
+
+const weeklyReceipts: ForecastTransaction[] = [
+  { date: '2025-03-07', amount: 1000, type: 'credit', counterparty_name: 'Acme Corp' },
+  { date: '2025-03-14', amount: 1100, type: 'credit', counterparty_name: 'Acme Corp' },
+  { date: '2025-03-21', amount: 900, type: 'credit', counterparty_name: 'Acme Corp' },
+  { date: '2025-03-28', amount: 1000, type: 'credit', counterparty_name: 'Acme Corp' },
+];
+
+describe('Forecast Service', () => {
+  describe('normalizeFlowKey', () => {
+    it('should strip numbers and punctuation', () => {
+      expect(normalizeFlowKey('Office rent INV-1001')).toBe('office rent inv');
+      expect(normalizeFlowKey('Office rent INV-1002')).toBe('office rent inv');
+    });
+
+    it('should handle empty values', () => {
+      expect(normalizeFlowKey(null)).toBe('');
+    });
+  });
+
+  describe('detectRecurringFlows', () => {
+    it('should detect a monthly outflow from debit-typed absolute amounts', () => {
+      const flows = detectRecurringFlows(monthlyRent, '2025-04-10');
+
+      expect(flows).toHaveLength(1);
+      expect(flows[0].cadence).toBe('monthly');
+      expect(flows[0].direction).toBe('outflow');
+      expect(flows[0].averageAmount).toBe(-5000);
+      expect(flows[0].amountStdDev).toBe(0);
+    });
+
+    it('should detect a weekly inflow keyed by counterparty', () => {
+      const flows = detectRecurringFlows(weeklyReceipts, '2025-04-01');
+
+      expect(flows).toHaveLength(1);
+      expect(flows[0].cadence).toBe('weekly');
+      expect(flows[0].direction).toBe('inflow');
+      expect(flows[0].averageAmount).toBe(1000);
+    });
+
+    it('should ignore flows with too few occurrences', () => {
+      const flows = detectRecurringFlows(monthlyRent.slice(0, 2), '2025-02-10');
+      expect(flows).toHaveLength(0);
+    });
+
+    it('should treat flows that stopped occurring as lapsed', () => {
+      const flows = detectRecurringFlows(monthlyRent, '2025-08-01');
+      expect(flows).toHaveLength(0);
+    });
+
+    it('should ignore irregular flows', () => {
+      const irregular: ForecastTransaction[] = [
+        { date: '2025-01-01', amount: -200, description: 'Taxi' },
+        { date: '2025-01-04', amount: -200, description: 'Taxi' },
+        { date: '2025-02-20', amount: -200, description: 'Taxi' },
+        { date: '2025-03-01', amount: -200, description: 'Taxi' },
+      ];
+      expect(detectRecurringFlows(irregular, '2025-03-05')).toHaveLength(0);
+    });
+  });
+
+  describe('summarizeResidualFlows', () => {
+    it('should exclude recurring flows from the residual', () => {
+      const oneOff: ForecastTransaction = {
+        date: '2025-03-30',
+        amount: -700,
+        description: 'Conference tickets',
+      };
+      const transactions = [...monthlyRent, oneOff];
+      const flows = detectRecurringFlows(transactions, '2025-04-10');
+      const residual = summarizeResidualFlows(transactions, flows, '2025-04-10', 28);
+
+      expect(residual.historyWeeks).toBe(4);
+      expect(residual.weeklyMean).toBe(-175);
+    });
+  });
+
+  describe('buildWeeklyForecast', () => {
+    it('should produce 13 weekly points with projected recurring flows', () => {
+      const flows = detectRecurringFlows(monthlyRent, '2025-04-10');
+      const points = buildWeeklyForecast({
+        asOf: '2025-04-10',
+        openingBalance: 50000,
+        flows,
+        residual: { weeklyMean: 0, weeklyStdDev: 0, historyWeeks: 26 },
+      });
+
+      expect(points).toHaveLength(13);
+      expect(points[0].date).toBe('2025-04-17');
+      expect(points[12].date).toBe('2025-07-10');
+
+      // Rent lands on May 1st, June 1st and July 1st
+      expect(points[12].predictedBalance).toBe(35000);
+      const totalOutflows = points.reduce((sum, point) => sum + point.predictedOutflows, 0);
+      expect(totalOutflows).toBe(-15000);
+    });
+
+    it('should widen the confidence band with the horizon', () => {
+      const points = buildWeeklyForecast({
+        asOf: '2025-04-10',
+        openingBalance: 10000,
+        flows: [],
+        residual: { weeklyMean: 100, weeklyStdDev: 500, historyWeeks: 26 },
+      });
+
+      const firstWidth = points[0].upperBound - points[0].lowerBound;
+      const lastWidth = points[12].upperBound - points[12].lowerBound;
+
+      expect(points[0].predictedBalance).toBe(10100);
+      expect(lastWidth).toBeGreaterThan(firstWidth);
+      expect(points[12].confidence).toBeLessThan(points[0].confidence);
+    });
+
+    it('should report full confidence when there is no volatility', () => {
+      const points = buildWeeklyForecast({
+        asOf: '2025-04-10',
+        openingBalance: 10000,
+        flows: [],
+        residual: { weeklyMean: 0, weeklyStdDev: 0, historyWeeks: 26 },
+        weeks: 4,
+      });
+
+      expect(points).toHaveLength(4);
+      expect(points.every((point) => point.confidence === 100)).toBe(true);
+      expect(points[3].lowerBound).toBe(10000);
+    });
+  });
+});
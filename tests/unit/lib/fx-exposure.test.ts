@@ -0,0 +1,124 @@
+/**
+ * Test: FX exposure aggregation and sensitivity
+ * Priority: HIGH - Hedging decisions are taken from these figures
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildExposurePositions,
+  buildSensitivityTable,
+  exposureTenor,
+  formatShock,
+  summarizeByCurrency,
+} from '@/lib/fx/exposure';
+import type { ExposureEntity, ExposureItem, ExposureRateLookup } from '@/lib/types/fx';
+
+const AS_OF = '2025-06-30';
+
+const entities: ExposureEntity[] = [
+  { entity_id: 'ACME-US', entity_name: 'Acme Inc', functional_currency: 'USD' },
+  { entity_id: 'ACME-DE', entity_name: 'Acme GmbH', functional_currency: 'EUR' },
+];
+
+// USD per unit: EUR 1.10 spot, 1.08 at the prior month end, 1.09 monthly average; GBP 1.25 spot only
+const usdPerUnit: Record<string, Record<string, number>> = {
+  USD: { SPOT: 1, EOM: 1, AVG: 1 },
+  EUR: { SPOT: 1.1, EOM: 1.08, AVG: 1.09 },
+  GBP: { SPOT: 1.25 },
+};
+
+const rates: ExposureRateLookup = (from, to, type) => {
+  const fromUsd = usdPerUnit[from]?.[type];
+  const toUsd = usdPerUnit[to]?.[type];
+  return fromUsd && toUsd ? fromUsd / toUsd : null;
+};
+
+function item(overrides: Partial<ExposureItem>): ExposureItem {
+  return { entity_id: 'ACME-US', currency: 'EUR', source: 'balance', amount: 1000, date: AS_OF, ...overrides };
+}
+
+describe('exposureTenor', () => {
+  it('keeps balances at spot and buckets flows by value date', () => {
+    expect(exposureTenor({ source: 'balance', date: '2026-01-01' }, AS_OF)).toBe('spot');
+    expect(exposureTenor({ source: 'payment', date: '2025-06-01' }, AS_OF)).toBe('0-1M');
+    expect(exposureTenor({ source: 'forecast', date: '2025-07-31' }, AS_OF)).toBe('0-1M');
+    expect(exposureTenor({ source: 'forecast', date: '2025-09-15' }, AS_OF)).toBe('1-3M');
+    expect(exposureTenor({ source: 'forecast', date: '2026-03-01' }, AS_OF)).toBe('6-12M');
+    expect(exposureTenor({ source: 'forecast', date: '2026-09-01' }, AS_OF)).toBe('12M+');
+  });
+});
+
+describe('buildExposurePositions', () => {
+  it('nets sources per entity, currency and tenor and translates at each rate type', () => {
+    const positions = buildExposurePositions(
+      [
+        item({ amount: 100000 }),
+        item({ source: 'forecast', amount: 20000, date: '2025-07-07' }),
+        item({ source: 'payment', amount: -50000, date: '2025-07-10' }),
+        item({ currency: 'USD', amount: 250000 }),
+      ],
+      entities,
+      rates,
+      AS_OF
+    );
+
+    const spotEur = positions.find((p) => p.currency === 'EUR' && p.tenor === 'spot')!;
+    expect(spotEur.exposed).toBe(true);
+    expect(spotEur.translated).toEqual({ SPOT: 110000, EOM: 108000, AVG: 109000 });
+
+    const forwardEur = positions.find((p) => p.currency === 'EUR' && p.tenor === '0-1M')!;
+    expect(forwardEur.forecast_flows).toBe(20000);
+    expect(forwardEur.open_payments).toBe(-50000);
+    expect(forwardEur.net_amount).toBe(-30000);
+
+    const usd = positions.find((p) => p.currency === 'USD')!;
+    expect(usd.exposed).toBe(false);
+    expect(usd.translated.SPOT).toBe(250000);
+  });
+
+  it('leaves translation empty when a rate type is missing', () => {
+    const [position] = buildExposurePositions([item({ currency: 'GBP', amount: 1000 })], entities, rates, AS_OF);
+
+    expect(position.translated.SPOT).toBe(1250);
+    expect(position.translated.EOM).toBeNull();
+    expect(position.translated.AVG).toBeNull();
+  });
+});
+
+describe('sensitivity', () => {
+  it('applies each shock to the spot value across tenors', () => {
+    const positions = buildExposurePositions(
+      [item({ amount: 100000 }), item({ source: 'payment', amount: -20000, date: '2025-08-15' })],
+      entities,
+      rates,
+      AS_OF
+    );
+
+    const [row] = buildSensitivityTable(positions, [-0.1, 0.05]);
+
+    expect(row.net_amount).toBe(80000);
+    expect(row.spot_value).toBe(88000);
+    expect(row.impacts).toEqual({ '-10%': -8800, '+5%': 4400 });
+    expect(formatShock(-0.2)).toBe('-20%');
+  });
+
+  it('shows offsetting exposures across entities in the reporting currency', () => {
+    const positions = buildExposurePositions(
+      [
+        item({ entity_id: 'ACME-US', currency: 'GBP', amount: 10000 }),
+        item({ entity_id: 'ACME-DE', currency: 'GBP', amount: -4400 }),
+        item({ entity_id: 'ACME-DE', currency: 'USD', amount: 5500 }),
+      ],
+      entities,
+      rates,
+      AS_OF
+    );
+
+    const totals = summarizeByCurrency(buildSensitivityTable(positions, [0.1]), rates, 'USD');
+
+    expect(totals.map((total) => total.currency)).toEqual(['GBP', 'USD']);
+    expect(totals[0].reporting_value).toBe(7000);
+    expect(totals[0].impacts['+10%']).toBe(700);
+    expect(totals[1].reporting_value).toBe(5500);
+  });
+});
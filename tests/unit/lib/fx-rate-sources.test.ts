@@ -0,0 +1,108 @@
+/**
+ * Test: FX rate source adapters and tenant rate uploads
+ * Priority: HIGH - Every converted amount depends on which rates are stored
+ */
+
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { parseEcbXml } from '@/lib/fx/sources/ecb-source';
+import { openExchangeRatesSource } from '@/lib/fx/sources/oxr-source';
+import { isValidUploadSource, parseRateUpload } from '@/lib/fx/sources/upload-source';
+
+const ECB_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<gesmes:Envelope xmlns:gesmes="http://www.gesmes.org/xml/2002-08-01" xmlns="http://www.ecb.int/vocabulary/2002-08-01/eurofxref">
+  <gesmes:subject>Reference rates</gesmes:subject>
+  <Cube>
+    <Cube time="2025-06-30">
+      <Cube currency="USD" rate="1.1720"/>
+      <Cube currency="GBP" rate="0.85550"/>
+    </Cube>
+    <Cube time="2025-06-27">
+      <Cube currency="USD" rate="1.1702"/>
+    </Cube>
+  </Cube>
+</gesmes:Envelope>`;
+
+describe('parseEcbXml', () => {
+  it('returns one EUR-based snapshot per day, newest first', () => {
+    const snapshots = parseEcbXml(ECB_XML);
+
+    expect(snapshots).toHaveLength(2);
+    expect(snapshots[0]).toEqual({
+      source: 'ecb',
+      base: 'EUR',
+      date: '2025-06-30',
+      rates: { USD: 1.172, GBP: 0.8555 },
+    });
+    expect(snapshots[1].date).toBe('2025-06-27');
+  });
+});
+
+describe('openExchangeRatesSource', () => {
+  const original = process.env.OPEN_EXCHANGE_RATES_APP_ID;
+
+  afterEach(() => {
+    if (original === undefined) delete process.env.OPEN_EXCHANGE_RATES_APP_ID;
+    else process.env.OPEN_EXCHANGE_RATES_APP_ID = original;
+    vi.restoreAllMocks();
+  });
+
+  it('requires an app id instead of falling back to a built-in one', async () => {
+    delete process.env.OPEN_EXCHANGE_RATES_APP_ID;
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+
+    await expect(openExchangeRatesSource.fetchLatest()).rejects.toThrow('OPEN_EXCHANGE_RATES_APP_ID is not set');
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe('parseRateUpload', () => {
+  it('accepts column aliases in CSV and reports invalid rows', () => {
+    const csv = [
+      'Date,Base,Quote,Rate,Type',
+      '2025-06-30,usd,BRL,5.46,SPOT',
+      '2025-06-30,USD,BRL,5.47,SPOT',
+      '2025-06-30,USD,BRL,-1,EOM',
+      '30/06/2025,USD,MXN,18.9,SPOT',
+      '2025-06-30,USD,ARS,1180.5,',
+    ].join('\n');
+
+    const result = parseRateUpload(csv, 'csv');
+
+    expect(result.rates).toEqual([
+      { currency_from: 'USD', currency_to: 'BRL', date: '2025-06-30', rate: 5.46, rate_type: 'SPOT' },
+      { currency_from: 'USD', currency_to: 'ARS', date: '2025-06-30', rate: 1180.5, rate_type: 'SPOT' },
+    ]);
+    expect(result.errors).toEqual([
+      'Row 3: duplicate USD/BRL rate for 2025-06-30',
+      'Row 4: rate must be a positive number',
+      'Row 5: date must be YYYY-MM-DD',
+    ]);
+  });
+
+  it('expands JSON snapshots into one rate per currency', () => {
+    const json = JSON.stringify([{ base: 'EUR', date: '2025-06-30', rates: { PLN: 4.24, CZK: 24.7 } }]);
+
+    const result = parseRateUpload(json, 'json');
+
+    expect(result.errors).toEqual([]);
+    expect(result.rates.map((rate) => `${rate.currency_from}/${rate.currency_to}=${rate.rate}`)).toEqual([
+      'EUR/PLN=4.24',
+      'EUR/CZK=24.7',
+    ]);
+  });
+
+  it('rejects malformed JSON without throwing', () => {
+    expect(parseRateUpload('{not json', 'json')).toEqual({ rates: [], errors: ['File is not valid JSON'] });
+  });
+});
+
+describe('isValidUploadSource', () => {
+  it('reserves built-in feeds and the _calculated suffix', () => {
+    const reserved = ['open_exchange_rates', 'ecb'];
+
+    expect(isValidUploadSource('bcb_ptax', reserved)).toBe(true);
+    expect(isValidUploadSource('ecb', reserved)).toBe(false);
+    expect(isValidUploadSource('bcb_ptax_calculated', reserved)).toBe(false);
+    expect(isValidUploadSource('USD', reserved)).toBe(false);
+  });
+});
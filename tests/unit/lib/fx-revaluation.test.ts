@@ -0,0 +1,116 @@
+/**
+ * Test: Period-end FX revaluation
+ * Priority: HIGH - Journal rows are posted to the general ledger
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildRevaluationJournal,
+  isMonthEnd,
+  reconcileFlows,
+  revalueAccount,
+  summarizeRevaluationByEntity,
+} from '@/lib/fx/revaluation';
+import type { RevaluationAccountInput } from '@/lib/types/fx';
+
+// EUR -> USD: 1.08 at the prior period end, 1.09 on average, 1.10 at the period end
+const rates = { opening: 1.08, closing: 1.1, average: 1.09 };
+
+function account(overrides: Partial<RevaluationAccountInput> = {}): RevaluationAccountInput {
+  return {
+    account_id: 'acc-eur',
+    account_name: 'EUR Operating',
+    entity_id: 'ACME-US',
+    currency: 'EUR',
+    gl_account_code: '1020',
+    opening_balance: 1000,
+    closing_balance: 1000,
+    inflows: 0,
+    outflows: 0,
+    unexplained_flow: 0,
+    ...overrides,
+  };
+}
+
+describe('isMonthEnd', () => {
+  it('accepts only the last day of the month, including leap years', () => {
+    expect(isMonthEnd('2024-02-29')).toBe(true);
+    expect(isMonthEnd('2025-02-28')).toBe(true);
+    expect(isMonthEnd('2025-06-30')).toBe(true);
+    expect(isMonthEnd('2025-06-29')).toBe(false);
+  });
+});
+
+describe('reconcileFlows', () => {
+  it('adds any balance change not covered by transactions to the matching side', () => {
+    expect(reconcileFlows(1000, 1250, [400, -100])).toEqual({ inflows: 400, outflows: 150, unexplained_flow: -50 });
+    expect(reconcileFlows(1000, 900, [])).toEqual({ inflows: 0, outflows: 100, unexplained_flow: -100 });
+  });
+});
+
+describe('revalueAccount', () => {
+  it('treats a balance held all period as unrealized only', () => {
+    const line = revalueAccount(account(), rates, 'USD');
+
+    expect(line.opening_value).toBe(1080);
+    expect(line.closing_value).toBe(1100);
+    expect(line.realized_gain_loss).toBe(0);
+    expect(line.unrealized_gain_loss).toBe(20);
+  });
+
+  it('realizes gain on outflows against the weighted carrying rate', () => {
+    // Pool: 1000 @ 1.08 + 1000 @ 1.09 = 2170 for 2000 EUR, i.e. 1.085
+    const line = revalueAccount(account({ inflows: 1000, outflows: 500, closing_balance: 1500 }), rates, 'USD');
+
+    expect(line.realized_gain_loss).toBe(2.5); // 500 x (1.09 - 1.085)
+    expect(line.unrealized_gain_loss).toBe(22.5); // 1650 - 1500 x 1.085
+    // Total equals closing value less opening value less net flows at the average rate
+    expect(line.total_gain_loss).toBe(Math.round((1650 - 1080 - 500 * 1.09) * 100) / 100);
+  });
+});
+
+describe('buildRevaluationJournal', () => {
+  it('produces a balanced entry per account coded to its GL account', () => {
+    const lines = [
+      revalueAccount(account({ inflows: 1000, outflows: 500, closing_balance: 1500 }), rates, 'USD'),
+      revalueAccount(
+        account({ account_id: 'acc-gbp', account_name: 'GBP Payroll', currency: 'GBP', gl_account_code: null }),
+        { opening: 1.3, closing: 1.25, average: 1.27 },
+        'USD'
+      ),
+    ];
+
+    const journal = buildRevaluationJournal(lines, {
+      journalDate: '2025-06-30',
+      realizedGlCode: '7100',
+      unrealizedGlCode: '7110',
+    });
+
+    const eur = journal.filter((row) => row.account_id === 'acc-eur');
+    expect(eur.map((row) => [row.gl_account_code, row.debit, row.credit])).toEqual([
+      ['1020', 25, 0],
+      ['7100', 0, 2.5],
+      ['7110', 0, 22.5],
+    ]);
+
+    const gbp = journal.filter((row) => row.account_id === 'acc-gbp');
+    expect(gbp.map((row) => [row.gl_account_code, row.debit, row.credit])).toEqual([
+      [null, 0, 50],
+      ['7110', 50, 0],
+    ]);
+
+    const totalDebits = journal.reduce((sum, row) => sum + row.debit, 0);
+    const totalCredits = journal.reduce((sum, row) => sum + row.credit, 0);
+    expect(totalDebits).toBeCloseTo(totalCredits, 2);
+
+    const [entity] = summarizeRevaluationByEntity(lines, [
+      { entity_id: 'ACME-US', entity_name: 'Acme Inc', functional_currency: 'USD' },
+    ]);
+    expect(entity).toMatchObject({
+      accounts: 2,
+      realized_gain_loss: 2.5,
+      unrealized_gain_loss: -27.5,
+      total_gain_loss: -25,
+    });
+  });
+});
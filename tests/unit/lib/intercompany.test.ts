@@ -0,0 +1,112 @@
+/**
+ * Test: Intercompany transfer detection and netting
+ * Priority: HIGH - Tagged legs are removed from consolidated cash flow
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  AUTO_TAG_THRESHOLD,
+  findIntercompanyPairs,
+  scoreIntercompanyPair,
+  type CurrencyConverter,
+} from '@/lib/intercompany/matching';
+import { buildIntercompanyMatrices, suggestNettingSettlements } from '@/lib/intercompany/netting';
+import type { IntercompanyLeg } from '@/lib/types/intercompany';
+
+const entityNames = { 'ENT-US': 'Acme Inc', 'ENT-DE': 'Acme Deutschland GmbH', 'ENT-UK': 'Acme UK Ltd' };
+
+// 1 EUR = 1.10 USD
+const convert: CurrencyConverter = (amount, from, to) => {
+  const usd: Record<string, number> = { USD: 1, EUR: 1.1 };
+  if (!usd[from] || !usd[to]) return null;
+  return (amount * usd[from]) / usd[to];
+};
+
+function leg(id: string, entity: string, date: string, amount: number, overrides: Partial<IntercompanyLeg> = {}): IntercompanyLeg {
+  return { transaction_id: id, account_id: `ACC-${entity}`, entity_id: entity, date, amount, currency: 'USD', ...overrides };
+}
+
+describe('scoreIntercompanyPair', () => {
+  it('tags an exact same-day transfer between entities', () => {
+    const pair = scoreIntercompanyPair(
+      leg('T1', 'ENT-US', '2025-03-03', -50000),
+      leg('T2', 'ENT-UK', '2025-03-03', 50000),
+      convert,
+      entityNames
+    );
+
+    expect(pair).not.toBeNull();
+    expect(pair!.score).toBeGreaterThanOrEqual(AUTO_TAG_THRESHOLD);
+    expect(pair!.reasons).toContain('Exact amount');
+  });
+
+  it('tolerates a wire fee and a few days in transit, but not a larger receipt', () => {
+    const outgoing = leg('T1', 'ENT-US', '2025-03-03', -50000, { description: 'Transfer to Acme UK' });
+    const pair = scoreIntercompanyPair(outgoing, leg('T2', 'ENT-UK', '2025-03-05', 49975), convert, entityNames);
+
+    expect(pair!.difference).toBe(25);
+    expect(pair!.date_gap_days).toBe(2);
+    expect(pair!.reasons).toContain('Payment names Acme UK Ltd');
+
+    expect(scoreIntercompanyPair(outgoing, leg('T3', 'ENT-UK', '2025-03-03', 50100), convert, entityNames)).toBeNull();
+    expect(scoreIntercompanyPair(outgoing, leg('T4', 'ENT-UK', '2025-03-12', 50000), convert, entityNames)).toBeNull();
+  });
+
+  it('converts across currencies within the FX tolerance', () => {
+    const outgoing = leg('T1', 'ENT-DE', '2025-03-03', -100000, { currency: 'EUR' });
+
+    const pair = scoreIntercompanyPair(outgoing, leg('T2', 'ENT-US', '2025-03-04', 109200), convert, entityNames);
+    expect(pair!.expected_incoming_amount).toBe(110000);
+    expect(pair!.difference).toBe(800);
+
+    expect(scoreIntercompanyPair(outgoing, leg('T3', 'ENT-US', '2025-03-04', 100000), convert, entityNames)).toBeNull();
+  });
+
+  it('ignores transfers within one entity', () => {
+    expect(
+      scoreIntercompanyPair(leg('T1', 'ENT-US', '2025-03-03', -500), leg('T2', 'ENT-US', '2025-03-03', 500), convert)
+    ).toBeNull();
+  });
+});
+
+describe('findIntercompanyPairs', () => {
+  it('uses each transaction once, preferring the closest match', () => {
+    const legs = [
+      leg('OUT-1', 'ENT-US', '2025-03-03', -10000),
+      leg('IN-LATE', 'ENT-UK', '2025-03-06', 10000),
+      leg('IN-SAME', 'ENT-UK', '2025-03-03', 10000),
+      leg('IN-OTHER', 'ENT-DE', '2025-03-10', 1234, { currency: 'EUR' }),
+    ];
+
+    const pairs = findIntercompanyPairs(legs, convert, entityNames);
+
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0].outgoing.transaction_id).toBe('OUT-1');
+    expect(pairs[0].incoming.transaction_id).toBe('IN-SAME');
+  });
+});
+
+describe('intercompany matrix and netting', () => {
+  it('nets positions per period into the fewest settlements', () => {
+    const matrices = buildIntercompanyMatrices(
+      [
+        { period: '2025-03', from_entity_id: 'ENT-US', to_entity_id: 'ENT-UK', amount: 100 },
+        { period: '2025-03', from_entity_id: 'ENT-UK', to_entity_id: 'ENT-DE', amount: 60 },
+        { period: '2025-03', from_entity_id: 'ENT-DE', to_entity_id: 'ENT-US', amount: 30 },
+        { period: '2025-04', from_entity_id: 'ENT-DE', to_entity_id: 'ENT-US', amount: 10 },
+      ],
+      'USD'
+    );
+
+    expect(matrices.map((matrix) => matrix.period)).toEqual(['2025-03', '2025-04']);
+
+    const march = matrices[0];
+    expect(march.flows['ENT-US']['ENT-UK']).toBe(100);
+    expect(march.net_positions).toEqual({ 'ENT-DE': -30, 'ENT-UK': -40, 'ENT-US': 70 });
+
+    expect(suggestNettingSettlements(march)).toEqual([
+      { period: '2025-03', from_entity_id: 'ENT-UK', to_entity_id: 'ENT-US', amount: 40, currency: 'USD' },
+      { period: '2025-03', from_entity_id: 'ENT-DE', to_entity_id: 'ENT-US', amount: 30, currency: 'USD' },
+    ]);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Test: Interest accrual and posting reconciliation
+ * Priority: HIGH - Missing or wrong bank interest is flagged from these numbers
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  accrueInterest,
+  findLimitBreaches,
+  reconcileInterestPostings,
+  summarizeInterest,
+  yearFraction,
+} from '@/lib/interest/accrual';
+import type { InterestAccountResult } from '@/lib/types/interest';
+
+function days(start: string, count: number, balance: number) {
+  return Array.from({ length: count }, (_, i) => {
+    const d = new Date(`${start}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + i);
+    return { date: d.toISOString().split('T')[0], balance };
+  });
+}
+
+function result(overrides: Partial<InterestAccountResult> = {}): InterestAccountResult {
+  return {
+    account_id: 'acc-1',
+    account_name: 'Operating',
+    entity_id: 'ACME-US',
+    currency: 'USD',
+    kind: 'deposit',
+    interest_rate: 0.04,
+    day_count_convention: 'ACT/360',
+    days: 365,
+    average_principal: 100_000,
+    expected_interest: 4055.56,
+    posted_interest: 4000,
+    realized_rate: 0.04,
+    months: [],
+    limit: null,
+    limit_breaches: [],
+    ...overrides,
+  };
+}
+
+describe('yearFraction', () => {
+  it('counts actual days for ACT conventions and 30-day months for 30/360', () => {
+    expect(yearFraction('2025-01-01', '2025-01-02', 'ACT/360')).toBeCloseTo(1 / 360, 10);
+    expect(yearFraction('2025-01-01', '2025-01-02', 'ACT/365')).toBeCloseTo(1 / 365, 10);
+    // February is a full 30-day month under 30/360, and the 31st adds nothing
+    expect(yearFraction('2025-02-01', '2025-03-01', '30/360')).toBeCloseTo(30 / 360, 10);
+    expect(yearFraction('2025-01-30', '2025-01-31', '30/360')).toBe(0);
+  });
+});
+
+describe('accrueInterest', () => {
+  it('accrues deposits on positive balances and loans on the drawn amount', () => {
+    const deposit = accrueInterest({
+      balances: [
+        { date: '2025-03-01', balance: 36_000 },
+        { date: '2025-03-02', balance: -500 },
+      ],
+      rate: 0.05,
+      convention: 'ACT/360',
+      kind: 'deposit',
+    });
+    expect(deposit.map((day) => day.principal)).toEqual([36_000, 0]);
+    expect(deposit[0].accrual).toBeCloseTo(5, 10);
+    expect(deposit[1].accrual).toBe(0);
+
+    const [loan] = accrueInterest({
+      balances: [{ date: '2025-03-01', balance: -73_000 }],
+      rate: 0.06,
+      convention: 'ACT/365',
+      kind: 'loan',
+    });
+    expect(loan.principal).toBe(73_000);
+    expect(loan.accrual).toBeCloseTo(12, 10);
+  });
+});
+
+describe('reconcileInterestPostings', () => {
+  it('attributes early-month postings to the prior month and flags each month', () => {
+    // 36,000 at 5% ACT/360 earns 5.00 a day
+    const accruals = accrueInterest({
+      balances: days('2025-03-15', 17 + 30 + 31, 36_000),
+      rate: 0.05,
+      convention: 'ACT/360',
+      kind: 'deposit',
+    });
+
+    const months = reconcileInterestPostings({
+      accruals,
+      postings: [
+        { transaction_id: 'tx-mar', date: '2025-04-02', amount: 85 },
+        { transaction_id: 'tx-apr', date: '2025-05-03', amount: 151 },
+      ],
+      kind: 'deposit',
+      startDate: '2025-03-15',
+      endDate: '2025-05-31',
+      tolerancePct: 5,
+    });
+
+    expect(months.map((month) => [month.month, month.expected, month.posted, month.status])).toEqual([
+      ['2025-03', 85, 85, 'partial'],
+      ['2025-04', 150, 151, 'matched'],
+      ['2025-05', 155, 0, 'missing_posting'],
+    ]);
+    expect(months[1].posting_ids).toEqual(['tx-apr']);
+  });
+
+  it('treats loan debits as interest charged and flags differences over the tolerance', () => {
+    const accruals = accrueInterest({
+      balances: days('2025-04-01', 30, -36_000),
+      rate: 0.05,
+      convention: 'ACT/360',
+      kind: 'loan',
+    });
+
+    const [april] = reconcileInterestPostings({
+      accruals,
+      postings: [{ transaction_id: 'tx-1', date: '2025-04-30', amount: -180 }],
+      kind: 'loan',
+      startDate: '2025-04-01',
+      endDate: '2025-04-30',
+      tolerancePct: 5,
+    });
+
+    expect(april).toMatchObject({ expected: 150, posted: 180, difference: 30, status: 'mismatch' });
+  });
+});
+
+describe('findLimitBreaches and summarizeInterest', () => {
+  it('lists days beyond the limit and weights rates by average balance', () => {
+    const accruals = accrueInterest({
+      balances: [
+        { date: '2025-04-01', balance: -900 },
+        { date: '2025-04-02', balance: -1200 },
+      ],
+      rate: 0.05,
+      convention: 'ACT/360',
+      kind: 'deposit',
+    });
+    expect(findLimitBreaches(accruals, 'deposit', 1000)).toEqual([
+      { date: '2025-04-02', balance: -1200, limit: 1000 },
+    ]);
+    expect(findLimitBreaches(accruals, 'deposit', null)).toEqual([]);
+
+    const [row] = summarizeInterest([
+      result(),
+      result({ account_id: 'acc-2', interest_rate: 0.01, average_principal: 300_000, posted_interest: 2000 }),
+    ]);
+    expect(row).toMatchObject({ accounts: 2, average_principal: 400_000, posted_interest: 6000 });
+    expect(row.weighted_rate).toBeCloseTo(0.0175, 6); // (100k x 4% + 300k x 1%) / 400k
+    expect(row.realized_rate).toBeCloseTo(0.015, 6);
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Test: Investment holdings and liquidity buckets
+ * Priority: HIGH - Liquidity buckets feed the consolidated cash position
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mapPlaidHoldings, parseHoldingsCsv } from '@/lib/investments/holdings';
+import { buildLiquidityBreakdown, buildMaturityLadder, liquidityBucket } from '@/lib/investments/liquidity';
+import { YieldRateType } from 'plaid';
+import type { InvestmentHolding } from '@/lib/types/investment';
+
+const AS_OF = '2025-06-30';
+
+// EUR -> USD at 1.10; GBP has no rate
+const rates = (from: string, to: string) =>
+  from === 'EUR' && to === 'USD' ? { rate: 1.1, source: 'ecb', date: '2025-06-30' } : null;
+
+function holding(overrides: Partial<InvestmentHolding> = {}): InvestmentHolding {
+  return {
+    id: 'h1',
+    tenant_id: 't1',
+    account_id: null,
+    entity_id: null,
+    source: 'manual',
+    external_id: null,
+    instrument_name: 'USD Treasury MMF',
+    instrument_type: 'money_market_fund',
+    isin: null,
+    ticker: null,
+    currency: 'USD',
+    units: 1000,
+    price: 1,
+    market_value: 1000,
+    accrued_interest: 0,
+    interest_rate: null,
+    start_date: null,
+    maturity_date: null,
+    settlement_days: null,
+    price_date: null,
+    status: 'active',
+    notes: null,
+    created_by: null,
+    created_at: '',
+    updated_at: '',
+    ...overrides,
+  };
+}
+
+describe('liquidityBucket', () => {
+  it('uses the sooner of maturity and redemption notice, defaulting by instrument type', () => {
+    expect(liquidityBucket(holding(), AS_OF)).toBe('t_plus_1');
+    expect(liquidityBucket(holding({ settlement_days: 0 }), AS_OF)).toBe('same_day');
+    expect(liquidityBucket(holding({ instrument_type: 'cash' }), AS_OF)).toBe('same_day');
+
+    const deposit = { instrument_type: 'term_deposit' as const, settlement_days: null };
+    expect(liquidityBucket({ ...deposit, maturity_date: '2025-07-01' }, AS_OF)).toBe('t_plus_1');
+    expect(liquidityBucket({ ...deposit, maturity_date: '2025-09-29' }, AS_OF)).toBe('under_3_months');
+    expect(liquidityBucket({ ...deposit, maturity_date: '2025-12-31' }, AS_OF)).toBe('longer');
+    // A breakable deposit is as liquid as its notice period
+    expect(liquidityBucket({ ...deposit, maturity_date: '2025-12-31', settlement_days: 32 }, AS_OF)).toBe('under_3_months');
+    expect(liquidityBucket({ instrument_type: 'other', maturity_date: null, settlement_days: null }, AS_OF)).toBe('longer');
+  });
+});
+
+describe('buildLiquidityBreakdown', () => {
+  it('counts cash as same-day and converts holdings with accrued interest into the reporting currency', () => {
+    const breakdown = buildLiquidityBreakdown({
+      cash: [
+        { amount: 5000, currency: 'USD' },
+        { amount: 1000, currency: 'EUR' },
+        { amount: 700, currency: 'USD', bucket: 'longer' },
+        { amount: 300, currency: 'GBP' },
+      ],
+      holdings: [
+        holding({ currency: 'EUR', market_value: 2000, accrued_interest: 10 }),
+        holding({ instrument_type: 'term_deposit', maturity_date: '2025-08-15', market_value: 50_000 }),
+      ],
+      asOf: AS_OF,
+      currency: 'USD',
+      rateType: 'SPOT',
+      rates,
+    });
+
+    expect(breakdown.buckets.map((bucket) => [bucket.bucket, bucket.amount])).toEqual([
+      ['same_day', 6100],
+      ['t_plus_1', 2211],
+      ['under_3_months', 50_000],
+      ['longer', 700],
+    ]);
+    expect(breakdown.buckets[0]).toMatchObject({ accounts: 3, holdings: 0 });
+    expect(breakdown.total).toBe(59_011);
+    expect(breakdown.unconverted).toEqual(['GBP']);
+    expect(breakdown.rate_date).toBe('2025-06-30');
+  });
+});
+
+describe('buildMaturityLadder', () => {
+  it('bands holdings by time to maturity with a value-weighted rate', () => {
+    const ladder = buildMaturityLadder({
+      holdings: [
+        holding(),
+        holding({ instrument_type: 'term_deposit', maturity_date: '2025-07-05', market_value: 30_000, interest_rate: 0.04 }),
+        holding({ instrument_type: 'term_deposit', maturity_date: '2025-07-07', market_value: 10_000, interest_rate: 0.05 }),
+        holding({ instrument_type: 'bond', maturity_date: '2027-06-30', market_value: 20_000 }),
+      ],
+      asOf: AS_OF,
+      currency: 'USD',
+      rateType: 'SPOT',
+      rates,
+    });
+
+    expect(ladder.map((rung) => [rung.key, rung.holdings, rung.amount])).toEqual([
+      ['open', 1, 1000],
+      ['0-7d', 2, 40_000],
+      ['1y+', 1, 20_000],
+    ]);
+    expect(ladder[1].average_rate).toBe(0.0425);
+    expect(ladder[2]).toMatchObject({ max_days: null, average_rate: null });
+  });
+});
+
+describe('parseHoldingsCsv', () => {
+  it('accepts column aliases, percentage rates and deposits entered by principal', () => {
+    const csv = [
+      'Account,Instrument,Type,Currency,Quantity,NAV,Principal,Rate_pct,Maturity',
+      'MMF-001,Sterling Liquidity Fund,mmf,GBP,250000,1.0002,,4.6,',
+      'DEP-9,3M Deposit,TD,EUR,,,500000,3.25,2025-09-30',
+      'DEP-9,Bad Row,swap,EUR,1,1,,,',
+      'DEP-9,3M Deposit,TD,EUR,,,500000,3.25,2025-09-30',
+      ',No Amounts,bond,USD,,,,,',
+    ].join('\n');
+
+    const { rows, errors } = parseHoldingsCsv(csv);
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({
+      account_ref: 'MMF-001',
+      instrument_type: 'money_market_fund',
+      units: 250_000,
+      price: 1.0002,
+      market_value: 250_050,
+      interest_rate: 0.046,
+      external_id: 'import:MMF-001:sterling liquidity fund:',
+    });
+    expect(rows[1]).toMatchObject({
+      instrument_type: 'term_deposit',
+      units: 500_000,
+      price: 1,
+      market_value: 500_000,
+      interest_rate: 0.0325,
+      maturity_date: '2025-09-30',
+    });
+    expect(errors).toEqual([
+      'Row 4: unknown instrument type swap',
+      'Row 5: duplicate of an earlier row for 3M Deposit',
+      'Row 6: needs units and price, or a market value',
+    ]);
+  });
+});
+
+describe('mapPlaidHoldings', () => {
+  it('maps cash-equivalent funds and fixed income, skipping accounts not synced', () => {
+    const rows = mapPlaidHoldings(
+      [
+        {
+          account_id: 'plaid-acc-1',
+          security_id: 'sec-mmf',
+          quantity: 12_000,
+          institution_price: 1,
+          institution_price_as_of: '2025-06-29',
+          institution_value: 12_000,
+          iso_currency_code: 'USD',
+        },
+        {
+          account_id: 'plaid-acc-1',
+          security_id: 'sec-bill',
+          quantity: 100,
+          institution_price: 98.5,
+          institution_value: 9850,
+          iso_currency_code: null,
+        },
+        {
+          account_id: 'plaid-acc-other',
+          security_id: 'sec-mmf',
+          quantity: 1,
+          institution_price: 1,
+          institution_value: 1,
+          iso_currency_code: 'USD',
+        },
+      ],
+      [
+        {
+          security_id: 'sec-mmf',
+          isin: null,
+          name: 'Government Money Market Fund',
+          ticker_symbol: 'GMMXX',
+          is_cash_equivalent: true,
+          type: 'mutual fund',
+          iso_currency_code: 'USD',
+          fixed_income: null,
+        },
+        {
+          security_id: 'sec-bill',
+          isin: 'US912797KX44',
+          name: 'US Treasury Bill',
+          ticker_symbol: null,
+          is_cash_equivalent: false,
+          type: 'fixed income',
+          iso_currency_code: 'USD',
+          fixed_income: {
+            yield_rate: { percentage: 4.9, type: YieldRateType.Discount },
+            maturity_date: '2025-09-25',
+            issue_date: '2025-03-27',
+            face_value: 10_000,
+          },
+        },
+      ],
+      new Map([['plaid-acc-1', 'acc-uuid-1']])
+    );
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({
+      external_id: 'plaid:plaid-acc-1:sec-mmf',
+      account_id: 'acc-uuid-1',
+      instrument_type: 'money_market_fund',
+      ticker: 'GMMXX',
+      price_date: '2025-06-29',
+    });
+    expect(rows[1]).toMatchObject({
+      instrument_type: 'bond',
+      isin: 'US912797KX44',
+      currency: 'USD',
+      market_value: 9850,
+      interest_rate: 0.049,
+      maturity_date: '2025-09-25',
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Test: Normalization replay planning
+ * Priority: HIGH - Replays rewrite saved transactions and must be safe to re-run
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffNormalizedRow, normalizerVersion, planReplay, toNormalizedRow } from '@/lib/sync/replay';
+import type { SavedReplayTransaction } from '@/lib/sync/replay';
+import type { ProviderTransaction } from '@/lib/banking-providers/base-provider';
+
+const tx = (id: string, date: string, amount: number, overrides: Partial<ProviderTransaction> = {}): ProviderTransaction => ({
+  externalTransactionId: id,
+  accountId: 'acc-1',
+  date: new Date(`${date}T00:00:00.000Z`),
+  amount,
+  currency: 'EUR',
+  description: `Payment ${id}`,
+  type: 'debit',
+  category: 'Travel',
+  ...overrides,
+});
+
+const saved = (id: string, overrides: Partial<SavedReplayTransaction> = {}): SavedReplayTransaction => ({
+  transaction_id: id,
+  connection_id: 'conn-1',
+  account_id: 'acc-1',
+  date: '2025-06-01',
+  amount: '50.00',
+  currency: 'EUR',
+  description: `Payment ${id}`,
+  type: 'debit',
+  counterparty_name: null,
+  counterparty_account: null,
+  reference: null,
+  category: 'Travel',
+  provider_category: 'Travel',
+  category_source: 'provider',
+  normalizer_version: 1,
+  ...overrides,
+});
+
+describe('normalizerVersion', () => {
+  it('uses the registered version, falling back to the direct bank normalizer', () => {
+    expect(normalizerVersion('plaid')).toBe(1);
+    expect(normalizerVersion('some-direct-bank')).toBe(1);
+  });
+});
+
+describe('diffNormalizedRow', () => {
+  it('lists changed fields and tolerates stored amount formatting', () => {
+    const row = { ...toNormalizedRow(tx('t1', '2025-06-01', 50, { type: 'credit' })), category: 'Travel' };
+    expect(diffNormalizedRow(saved('t1'), row)).toEqual([{ field: 'type', before: 'debit', after: 'credit' }]);
+    expect(diffNormalizedRow(saved('t1', { amount: '-50.00', type: 'credit' }), row)).toEqual([
+      { field: 'amount', before: -50, after: 50 },
+    ]);
+  });
+});
+
+describe('planReplay', () => {
+  it('sorts transactions in range into created, updated, restamped, unchanged and skipped', () => {
+    const transactions = [
+      tx('new', '2025-06-01', 10),
+      tx('fixed', '2025-06-01', 50, { description: 'Corrected' }),
+      tx('legacy', '2025-06-01', 50),
+      tx('same', '2025-06-01', 50),
+      tx('other', '2025-06-01', 50),
+      tx('old', '2025-05-01', 50),
+    ];
+    const savedById = new Map([
+      ['fixed', saved('fixed')],
+      ['legacy', saved('legacy', { normalizer_version: null })],
+      ['same', saved('same')],
+      ['other', saved('other', { connection_id: 'conn-2' })],
+      ['old', saved('old', { date: '2025-05-01', amount: 1 })],
+    ]);
+
+    const plan = planReplay(transactions, savedById, { connectionId: 'conn-1', version: 1, startDate: '2025-06-01' });
+
+    expect(plan.counts).toEqual({ examined: 5, created: 1, updated: 1, restamped: 1, unchanged: 1, skipped: 1 });
+    expect(plan.create.map((t) => t.externalTransactionId)).toEqual(['new']);
+    expect(plan.restamp).toEqual(['legacy']);
+    expect(plan.changes).toEqual([
+      { transactionId: 'fixed', changes: [{ field: 'description', before: 'Payment fixed', after: 'Corrected' }] },
+    ]);
+  });
+
+  it('keeps rule and manual categories but follows provider category changes', () => {
+    const transactions = [tx('ruled', '2025-06-01', 50, { category: 'Meals' }), tx('provided', '2025-06-01', 50, { category: 'Meals' })];
+    const savedById = new Map([
+      ['ruled', saved('ruled', { category: 'Client entertainment', category_source: 'rule' })],
+      ['provided', saved('provided')],
+    ]);
+
+    const plan = planReplay(transactions, savedById, { connectionId: 'conn-1', version: 1 });
+
+    expect(plan.update.find((u) => u.transactionId === 'ruled')?.row.category).toBeUndefined();
+    expect(plan.changes).toEqual([
+      { transactionId: 'ruled', changes: [{ field: 'provider_category', before: 'Travel', after: 'Meals' }] },
+      {
+        transactionId: 'provided',
+        changes: [
+          { field: 'provider_category', before: 'Travel', after: 'Meals' },
+          { field: 'category', before: 'Travel', after: 'Meals' },
+        ],
+      },
+    ]);
+  });
+
+  it('keeps AI categories and the counterparty names cleaned with them', () => {
+    const transactions = [tx('ai', '2025-06-01', 50, { category: 'Meals', counterpartyName: 'SQ *BLUE BOTTLE 0423' })];
+    const savedById = new Map([
+      ['ai', saved('ai', { category: 'Coffee & snacks', category_source: 'ai', counterparty_name: 'Blue Bottle Coffee' })],
+    ]);
+
+    const plan = planReplay(transactions, savedById, { connectionId: 'conn-1', version: 1 });
+
+    expect(plan.update[0].row).not.toHaveProperty('category');
+    expect(plan.update[0].row).not.toHaveProperty('counterparty_name');
+    expect(plan.changes).toEqual([
+      { transactionId: 'ai', changes: [{ field: 'provider_category', before: 'Travel', after: 'Meals' }] },
+    ]);
+  });
+
+  it('finds nothing to do once a replay has been written', () => {
+    const transactions = [tx('t1', '2025-06-01', 50)];
+    const plan = planReplay(transactions, new Map([['t1', saved('t1')]]), { connectionId: 'conn-1', version: 1 });
+
+    expect(plan.counts).toMatchObject({ examined: 1, unchanged: 1 });
+    expect(plan.update).toEqual([]);
+    expect(plan.restamp).toEqual([]);
+  });
+});
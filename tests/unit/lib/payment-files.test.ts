@@ -0,0 +1,163 @@
+/**
+ * Test: Payment file generation (pain.001, NACHA)
+ * Priority: HIGH - Malformed bank files are rejected or, worse, pay the wrong amounts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { isValidAbaRouting, isValidBic, isValidIban, sanitizeBankText } from '@/lib/payment-files/validation';
+import { buildPain001, validatePain001Document } from '@/lib/payment-files/pain001';
+import { buildNachaFile, validateNachaFile, NACHA_RECORD_LENGTH } from '@/lib/payment-files/nacha';
+import type { PaymentFileDebtorGroup, PaymentFileParty } from '@/lib/payment-files/types';
+
+const createdAt = new Date('2025-03-03T09:30:00Z');
+
+const party: PaymentFileParty = {
+  name: 'Acme Europe GmbH',
+  taxId: '12-3456789',
+  address: 'Hauptstrasse 1, 10115 Berlin',
+  country: 'DE',
+};
+
+const sepaGroup: PaymentFileDebtorGroup = {
+  account: { accountId: 'ACC-EUR', iban: 'DE89370400440532013000', bic: 'DEUTDEFF', currency: 'EUR' },
+  payments: [
+    {
+      paymentId: 'PAY-1',
+      amount: 1250.1,
+      currency: 'EUR',
+      executionDate: '2025-03-05',
+      creditorName: 'Müller & Söhne',
+      creditorIban: 'GB82WEST12345698765432',
+      creditorBic: 'NWBKGB2L',
+      remittanceInfo: 'Invoice 1001',
+    },
+    {
+      paymentId: 'PAY-2',
+      amount: 0.2,
+      currency: 'EUR',
+      executionDate: '2025-03-05',
+      creditorName: 'Supplier B',
+      creditorIban: 'DE89370400440532013000',
+    },
+  ],
+};
+
+const achGroup: PaymentFileDebtorGroup = {
+  account: { accountId: 'ACC-USD', accountNumber: '123456789', routingNumber: '021000021', currency: 'USD', bankName: 'JPMorgan Chase' },
+  payments: [
+    {
+      paymentId: 'PAY-K7ABC123-XY12',
+      amount: 100.25,
+      currency: 'USD',
+      executionDate: '2025-03-04',
+      creditorName: 'Vendor One',
+      creditorAccountNumber: '000111222',
+      creditorRoutingNumber: '011000015',
+    },
+    {
+      paymentId: 'PAY-K7ABC124-XY13',
+      amount: 2000,
+      currency: 'USD',
+      executionDate: '2025-03-04',
+      creditorName: 'Vendor Two',
+      creditorAccountNumber: '999888',
+      creditorRoutingNumber: '021000021',
+      creditorAccountType: 'savings',
+    },
+  ],
+};
+
+describe('Payment Files', () => {
+  describe('validation', () => {
+    it('should validate IBAN checksums', () => {
+      expect(isValidIban('DE89 3704 0044 0532 0130 00')).toBe(true);
+      expect(isValidIban('DE89370400440532013001')).toBe(false);
+      expect(isValidIban('GB82WEST1234569876543')).toBe(false); // wrong length
+    });
+
+    it('should validate BIC format', () => {
+      expect(isValidBic('DEUTDEFF')).toBe(true);
+      expect(isValidBic('DEUTDEFF500')).toBe(true);
+      expect(isValidBic('DEUT1EFF')).toBe(false);
+    });
+
+    it('should validate ABA routing checksums', () => {
+      expect(isValidAbaRouting('021000021')).toBe(true);
+      expect(isValidAbaRouting('021000022')).toBe(false);
+    });
+
+    it('should transliterate text to the bank character set', () => {
+      expect(sanitizeBankText('Müller & Söhne', 140)).toBe('Muller Sohne');
+    });
+  });
+
+  describe('pain.001', () => {
+    it('should produce matching group and payment information totals', () => {
+      const file = buildPain001({ messageId: 'MSG-1', createdAt, initiatingParty: party, groups: [sepaGroup] });
+
+      expect(file.issues).toEqual([]);
+      expect(file.transactionCount).toBe(2);
+      expect(file.controlSum).toBe(1250.3);
+      expect(file.content).toContain('<NbOfTxs>2</NbOfTxs><CtrlSum>1250.30</CtrlSum>');
+      expect(file.content).toContain('<SvcLvl><Cd>SEPA</Cd></SvcLvl>');
+      expect(file.content).toContain('<ChrgBr>SLEV</ChrgBr>');
+      expect(file.content).toContain('<InstdAmt Ccy="EUR">0.20</InstdAmt>');
+      expect(file.content).toContain('<Nm>Muller Sohne</Nm>');
+    });
+
+    it('should report invalid creditor details', () => {
+      const file = buildPain001({
+        messageId: 'MSG-2',
+        createdAt,
+        initiatingParty: party,
+        groups: [{ ...sepaGroup, payments: [{ ...sepaGroup.payments[0], creditorIban: 'DE00370400440532013000' }] }],
+      });
+
+      expect(file.issues.map((i) => i.field)).toContain('creditorIban');
+    });
+
+    it('should detect tampered control sums', () => {
+      const file = buildPain001({ messageId: 'MSG-3', createdAt, initiatingParty: party, groups: [sepaGroup] });
+      const tampered = file.content.replace('<InstdAmt Ccy="EUR">0.20</InstdAmt>', '<InstdAmt Ccy="EUR">2.00</InstdAmt>');
+
+      expect(validatePain001Document(tampered).map((i) => i.field)).toEqual(['GrpHdr.CtrlSum', 'PmtInf.CtrlSum']);
+    });
+  });
+
+  describe('NACHA', () => {
+    it('should build 94-character records padded to full blocks', () => {
+      const file = buildNachaFile({ createdAt, originator: party, groups: [achGroup] });
+      const lines = file.content.trimEnd().split('\n');
+
+      expect(file.issues).toEqual([]);
+      expect(lines.every((line) => line.length === NACHA_RECORD_LENGTH)).toBe(true);
+      expect(lines.length % 10).toBe(0);
+      expect(lines[1].slice(50, 53)).toBe('CCD');
+      expect(lines[3].slice(1, 3)).toBe('32');
+    });
+
+    it('should compute batch and file control totals', () => {
+      const file = buildNachaFile({ createdAt, originator: party, groups: [achGroup] });
+      const lines = file.content.split('\n');
+      const fileControl = lines.find((line) => line.startsWith('9') && !/^9+$/.test(line))!;
+
+      // Entry hash: 01100001 + 02100002
+      expect(fileControl.slice(21, 31)).toBe('0003200003');
+      expect(Number(fileControl.slice(43, 55))).toBe(210025);
+      expect(file.controlSum).toBe(2100.25);
+    });
+
+    it('should reject non-USD payments and detect altered entries', () => {
+      const eur = buildNachaFile({
+        createdAt,
+        originator: party,
+        groups: [{ ...achGroup, payments: [{ ...achGroup.payments[0], currency: 'EUR' }] }],
+      });
+      expect(eur.issues.map((i) => i.field)).toContain('currency');
+
+      const file = buildNachaFile({ createdAt, originator: party, groups: [achGroup] });
+      const tampered = file.content.replace('0000010025', '0000010026');
+      expect(validateNachaFile(tampered).length).toBeGreaterThan(0);
+    });
+  });
+});
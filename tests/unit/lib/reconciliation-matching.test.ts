@@ -0,0 +1,87 @@
+/**
+ * Test: Bank-to-ledger reconciliation matching engine
+ * Priority: HIGH - Auto matches are persisted without review
+ */
+
+import { describe, it, expect } from 'vitest';
+import { AUTO_MATCH_THRESHOLD, findMatches, scoreMatch } from '@/lib/reconciliation/matching';
+import type { ReconciliationItem } from '@/lib/types/reconciliation';
+
+function bank(id: string, date: string, amount: number, extra: Partial<ReconciliationItem> = {}): ReconciliationItem {
+  return { transaction_id: id, side: 'bank', date, amount, ...extra };
+}
+
+function ledger(id: string, date: string, amount: number, extra: Partial<ReconciliationItem> = {}): ReconciliationItem {
+  return { transaction_id: id, side: 'ledger', date, amount, ...extra };
+}
+
+describe('Reconciliation matching', () => {
+  describe('scoreMatch', () => {
+    it('should reject pairs whose amounts differ', () => {
+      expect(scoreMatch([bank('b1', '2025-03-03', -100)], [ledger('l1', '2025-03-03', -100.01)])).toBeNull();
+    });
+
+    it('should reject pairs outside the date tolerance', () => {
+      expect(scoreMatch([bank('b1', '2025-03-01', -100)], [ledger('l1', '2025-03-05', -100)])).toBeNull();
+    });
+
+    it('should score reference and counterparty agreement higher', () => {
+      const plain = scoreMatch([bank('b1', '2025-03-03', 500)], [ledger('l1', '2025-03-04', 500)])!;
+      const strong = scoreMatch(
+        [bank('b1', '2025-03-03', 500, { description: 'INV-1001 ACME CORP', counterparty_name: 'Acme Corp' })],
+        [ledger('l1', '2025-03-04', 500, { reference: 'INV-1001', counterparty_name: 'ACME Corp Ltd' })]
+      )!;
+
+      expect(strong.score).toBeGreaterThan(plain.score);
+      expect(strong.reasons).toEqual(expect.arrayContaining(['amount', 'date_within_1_days', 'reference', 'counterparty']));
+    });
+  });
+
+  describe('findMatches', () => {
+    it('should auto-match a unique same-day pair and leave ambiguous ones for review', () => {
+      const matches = findMatches(
+        [bank('b1', '2025-03-03', -250), bank('b2', '2025-03-03', -40), bank('b3', '2025-03-04', -40)],
+        [ledger('l1', '2025-03-03', -250), ledger('l2', '2025-03-04', -40)]
+      );
+
+      const unique = matches.find((m) => m.bank_transaction_ids[0] === 'b1')!;
+      expect(unique.ledger_transaction_ids).toEqual(['l1']);
+      expect(unique.reasons).toContain('unique_candidate');
+      expect(unique.score).toBeGreaterThanOrEqual(AUTO_MATCH_THRESHOLD);
+
+      // Two bank lines compete for l2: the closer date wins, but it is not auto-matched
+      const ambiguous = matches.find((m) => m.ledger_transaction_ids[0] === 'l2')!;
+      expect(ambiguous.bank_transaction_ids).toEqual(['b3']);
+      expect(ambiguous.score).toBeLessThan(AUTO_MATCH_THRESHOLD);
+    });
+
+    it('should find one-to-many and many-to-one matches', () => {
+      const matches = findMatches(
+        [bank('deposit', '2025-03-03', 1500), bank('fee-1', '2025-03-05', -10), bank('fee-2', '2025-03-06', -15)],
+        [
+          ledger('inv-1', '2025-03-02', 1000),
+          ledger('inv-2', '2025-03-03', 500),
+          ledger('inv-3', '2025-03-03', 75),
+          ledger('fees', '2025-03-06', -25),
+        ]
+      );
+
+      const deposit = matches.find((m) => m.bank_transaction_ids.includes('deposit'))!;
+      expect(deposit.ledger_transaction_ids.sort()).toEqual(['inv-1', 'inv-2']);
+      expect(deposit.reasons).toContain('one_to_many');
+
+      const fees = matches.find((m) => m.ledger_transaction_ids.includes('fees'))!;
+      expect(fees.bank_transaction_ids.sort()).toEqual(['fee-1', 'fee-2']);
+      expect(fees.reasons).toContain('many_to_one');
+    });
+
+    it('should never use a transaction in more than one match', () => {
+      const matches = findMatches(
+        [bank('b1', '2025-03-03', 100), bank('b2', '2025-03-03', 100)],
+        [ledger('l1', '2025-03-03', 100)]
+      );
+
+      expect(matches).toHaveLength(1);
+    });
+  });
+});
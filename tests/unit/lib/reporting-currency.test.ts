@@ -0,0 +1,83 @@
+/**
+ * Test: Reporting currency resolution and conversion
+ * Priority: HIGH - Consolidated totals on the dashboard depend on it
+ */
+
+import { describe, it, expect } from 'vitest';
+import { resolveReportingCurrency, sumInReportingCurrency } from '@/lib/fx/reporting';
+import type { ReportingRateLookup, ResolvedRate } from '@/lib/types/fx';
+
+function lookup(rates: Record<string, Pick<ResolvedRate, 'rate' | 'date'>>): ReportingRateLookup {
+  return (from, to) => {
+    const rate = rates[`${from}/${to}`];
+    return rate ? { ...rate, source: 'oxr' } : null;
+  };
+}
+
+describe('resolveReportingCurrency', () => {
+  it('prefers the entity override, then the user, then the tenant', () => {
+    expect(resolveReportingCurrency({ entity: 'gbp', user: 'EUR', tenant: 'CHF' })).toEqual({
+      currency: 'GBP',
+      source: 'entity',
+    });
+    expect(resolveReportingCurrency({ user: 'EUR', tenant: 'CHF' })).toEqual({ currency: 'EUR', source: 'user' });
+    expect(resolveReportingCurrency({ user: null, tenant: 'CHF' })).toEqual({ currency: 'CHF', source: 'tenant' });
+  });
+
+  it('falls back to USD when nothing is configured', () => {
+    expect(resolveReportingCurrency({})).toEqual({ currency: 'USD', source: 'default' });
+  });
+});
+
+describe('sumInReportingCurrency', () => {
+  it('converts each amount and reports the oldest rate date used', () => {
+    const rates = lookup({
+      'USD/EUR': { rate: 0.9, date: '2025-06-30' },
+      'GBP/EUR': { rate: 1.2, date: '2025-06-27' },
+    });
+
+    const total = sumInReportingCurrency(
+      [
+        { amount: 1000, currency: 'EUR' },
+        { amount: 1000, currency: 'usd' },
+        { amount: 500, currency: 'GBP' },
+      ],
+      'EUR',
+      'EOM',
+      rates
+    );
+
+    expect(total).toEqual({
+      amount: 2500,
+      currency: 'EUR',
+      rate_type: 'EOM',
+      rate_date: '2025-06-27',
+      unconverted: [],
+    });
+  });
+
+  it('leaves out currencies without a rate instead of adding them at par', () => {
+    const rates = lookup({ 'EUR/USD': { rate: 1.1, date: '2025-06-30' } });
+
+    const total = sumInReportingCurrency(
+      [
+        { amount: 100, currency: 'EUR' },
+        { amount: 5000, currency: 'JPY' },
+        { amount: 50, currency: null },
+      ],
+      'USD',
+      'SPOT',
+      rates
+    );
+
+    expect(total.amount).toBe(160);
+    expect(total.unconverted).toEqual(['JPY']);
+  });
+
+  it('has no rate date when everything is already in the reporting currency', () => {
+    const total = sumInReportingCurrency([{ amount: 10.006, currency: 'CHF' }], 'CHF', 'AVG', lookup({}));
+
+    expect(total.rate_date).toBeNull();
+    expect(total.amount).toBe(10.01);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Test: Sync dry-run diff
+ * Priority: MEDIUM - Previews must match what the sync would actually write
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildSyncDiff, diffAccount, transactionDateRange } from '@/lib/sync/diff';
+import type { SavedTransaction } from '@/lib/sync/diff';
+import type { ProviderAccount, ProviderTransaction } from '@/lib/banking-providers/base-provider';
+
+const account = (overrides: Partial<ProviderAccount> = {}): ProviderAccount => ({
+  externalAccountId: 'ext-1',
+  accountName: 'Operating',
+  accountType: 'checking',
+  currency: 'EUR',
+  balance: 1000,
+  status: 'active',
+  ...overrides,
+});
+
+const saved = {
+  account_id: 'acc-1',
+  account_name: 'Operating EUR',
+  current_balance: '1000.00',
+  account_status: 'active',
+  iban: 'NL91ABNA0417164300',
+  bic: null,
+  bank_name: 'ABN AMRO',
+};
+
+const tx = (id: string, date: string, amount: number, overrides: Partial<ProviderTransaction> = {}): ProviderTransaction => ({
+  externalTransactionId: id,
+  accountId: 'acc-1',
+  date: new Date(`${date}T00:00:00.000Z`),
+  amount,
+  currency: 'EUR',
+  description: `Payment ${id}`,
+  type: 'debit',
+  ...overrides,
+});
+
+const savedTx = (id: string, date: string, amount: number | string, description = `Payment ${id}`): SavedTransaction => ({
+  transaction_id: id,
+  account_id: 'acc-1',
+  date,
+  amount,
+  currency: 'EUR',
+  description,
+  type: 'debit',
+});
+
+describe('diffAccount', () => {
+  it('compares the fields a sync writes, ignoring optional fields the provider left out', () => {
+    expect(diffAccount(account(), saved).changes).toEqual([]);
+    expect(diffAccount(account({ balance: 1250.5, bic: 'ABNANL2A' }), saved).changes).toEqual([
+      { field: 'current_balance', before: 1000, after: 1250.5 },
+      { field: 'bic', before: null, after: 'ABNANL2A' },
+    ]);
+    expect(diffAccount(account(), null)).toMatchObject({ accountId: null, accountName: 'Operating', changes: [] });
+  });
+});
+
+describe('buildSyncDiff', () => {
+  it('sorts accounts and transactions into new, changed, unchanged and missing', () => {
+    const transactions = [
+      tx('t1', '2025-06-01', 50),
+      tx('t2', '2025-06-02', 75),
+      tx('t3', '2025-06-05', 20, { type: 'credit' }),
+      tx('t4', '2025-06-06', 10),
+    ];
+    const savedById = new Map([
+      ['t1', savedTx('t1', '2025-06-01', '50.00')],
+      ['t2', savedTx('t2', '2025-06-03', 75)],
+      ['t3', savedTx('t3', '2025-06-05', 20)],
+    ]);
+    const savedInRange = [...savedById.values(), savedTx('t9', '2025-06-04', 99)];
+
+    const diff = buildSyncDiff({
+      accounts: [
+        { account: account(), saved },
+        { account: account({ externalAccountId: 'ext-2', accountName: 'Payroll' }), saved: null },
+      ],
+      transactions,
+      savedById,
+      savedInRange,
+    });
+
+    expect(diff.summary).toEqual({
+      accounts_new: 1,
+      accounts_updated: 0,
+      accounts_unchanged: 1,
+      transactions_new: 1,
+      transactions_changed: 2,
+      transactions_unchanged: 1,
+      transactions_missing: 1,
+    });
+    expect(diff.transactions.changed.map((entry) => entry.changes)).toEqual([
+      [{ field: 'date', before: '2025-06-03', after: '2025-06-02' }],
+      [{ field: 'type', before: 'debit', after: 'credit' }],
+    ]);
+    expect(diff.transactions.new[0]).toMatchObject({ transactionId: 't4', date: '2025-06-06', amount: 10 });
+    expect(diff.transactions.missing[0]).toMatchObject({ transactionId: 't9', amount: 99 });
+    expect(diff.truncated).toBe(false);
+  });
+
+  it('caps entry lists but keeps full counts', () => {
+    const transactions = ['a', 'b', 'c'].map((id) => tx(id, '2025-06-01', 1));
+    const diff = buildSyncDiff({ accounts: [], transactions, savedById: new Map(), savedInRange: [], limit: 2 });
+
+    expect(diff.summary.transactions_new).toBe(3);
+    expect(diff.transactions.new).toHaveLength(2);
+    expect(diff.truncated).toBe(true);
+  });
+});
+
+describe('transactionDateRange', () => {
+  it('spans the earliest to latest fetched transaction', () => {
+    expect(transactionDateRange([tx('a', '2025-06-09', 1), tx('b', '2025-05-30', 1), tx('c', '2025-06-01', 1)])).toEqual({
+      from: '2025-05-30',
+      to: '2025-06-09',
+    });
+    expect(transactionDateRange([])).toBeNull();
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Test: Sync preview lookups
+ * Priority: MEDIUM - A partial preview must not report other accounts' transactions as missing
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+type Row = Record<string, any>;
+
+const savedTransactions: Row[] = [
+  { transaction_id: 't1', account_id: 'acc-1', connection_id: 'conn-1', date: '2025-06-02', amount: 10 },
+  { transaction_id: 't-gone', account_id: 'acc-1', connection_id: 'conn-1', date: '2025-06-03', amount: 20 },
+  { transaction_id: 't-other', account_id: 'acc-2', connection_id: 'conn-1', date: '2025-06-03', amount: 30 },
+].map((row) => ({ currency: 'EUR', description: `Payment ${row.transaction_id}`, type: 'debit', ...row }));
+
+// Applies the filters the service uses to the saved rows
+function query(rows: Row[]) {
+  let result = rows;
+  const builder: any = {
+    select: () => builder,
+    eq: (column: string, value: unknown) => ((result = result.filter((row) => row[column] === value)), builder),
+    in: (column: string, values: unknown[]) => ((result = result.filter((row) => values.includes(row[column]))), builder),
+    gte: (column: string, value: string) => ((result = result.filter((row) => row[column] >= value)), builder),
+    lte: (column: string, value: string) => ((result = result.filter((row) => row[column] <= value)), builder),
+    order: () => builder,
+    range: async (from: number, to: number) => ({ data: result.slice(from, to + 1), error: null }),
+    then: (resolve: (value: unknown) => void) => resolve({ data: result, error: null }),
+  };
+  return builder;
+}
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: { from: vi.fn(() => query(savedTransactions)) },
+}));
+vi.mock('@/lib/services/account-service', () => ({
+  findExistingAccount: vi.fn(async (_tenantId: string, { externalAccountId }: { externalAccountId: string }) => ({
+    account: { id: `uuid-${externalAccountId}`, account_id: externalAccountId === 'ext-1' ? 'acc-1' : 'acc-2' },
+  })),
+}));
+
+import { previewSyncChanges } from '@/lib/services/sync-preview-service';
+import type { ProviderAccount, ProviderTransaction } from '@/lib/banking-providers/base-provider';
+
+const account = (externalAccountId: string): ProviderAccount => ({
+  externalAccountId,
+  accountName: externalAccountId,
+  accountType: 'checking',
+  currency: 'EUR',
+  balance: 0,
+  status: 'active',
+});
+
+const fetched: ProviderTransaction = {
+  externalTransactionId: 't1',
+  accountId: 'acc-1',
+  date: new Date('2025-06-02T00:00:00.000Z'),
+  amount: 10,
+  currency: 'EUR',
+  description: 'Payment t1',
+  type: 'debit',
+};
+
+describe('previewSyncChanges', () => {
+  it('only reports saved transactions of the fetched accounts as missing', async () => {
+    const transactions = [fetched, { ...fetched, externalTransactionId: 't-new', date: new Date('2025-06-03T00:00:00.000Z') }];
+
+    const diff = await previewSyncChanges('tenant-1', 'conn-1', 'plaid', [account('ext-1'), account('ext-2')], transactions, [
+      'ext-1',
+    ]);
+
+    expect(diff.summary).toMatchObject({ transactions_new: 1, transactions_unchanged: 1, transactions_missing: 1 });
+    expect(diff.transactions.missing.map((entry) => entry.transactionId)).toEqual(['t-gone']);
+  });
+});
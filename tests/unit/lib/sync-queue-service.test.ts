@@ -0,0 +1,168 @@
+/**
+ * Test: Sync queue leasing and draining
+ * Priority: HIGH - Provider limits and lease expiry keep workers from overrunning providers or losing jobs
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { SyncJob } from '@/lib/types/sync-job';
+
+type Row = Record<string, any>;
+
+const rpc = vi.fn();
+const updates: Array<{ table: string; values: Row; filters: Row }> = [];
+let expiredJobs: Row[] = [];
+
+// Reads return the expired jobs (sync_jobs) or an active connection; updates report one row written
+function query(table: string) {
+  let values: Row | null = null;
+  const filters: Row = {};
+  const result = () => {
+    if (values) {
+      updates.push({ table, values, filters });
+      return { data: [{ id: filters.id }], error: null };
+    }
+    return { data: table === 'sync_jobs' ? expiredJobs : [], error: null };
+  };
+  const builder: any = {
+    select: () => builder,
+    update: (row: Row) => ((values = row), builder),
+    eq: (column: string, value: unknown) => ((filters[column] = value), builder),
+    lt: () => builder,
+    maybeSingle: async () => ({ data: { id: 'conn-1', status: 'active', provider: 'plaid' }, error: null }),
+    then: (resolve: (value: unknown) => void) => resolve(result()),
+  };
+  return builder;
+}
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: { from: vi.fn((table: string) => query(table)), rpc: (...args: unknown[]) => rpc(...args) },
+  createIngestionJob: vi.fn(async () => ({ id: 'ingestion-1' })),
+  updateIngestionJob: vi.fn(async () => undefined),
+}));
+vi.mock('@/lib/banking-providers/provider-registry', () => ({
+  getProvider: vi.fn(() => ({ refreshAccessToken: vi.fn() })),
+}));
+vi.mock('@/lib/services/token-refresh-service', () => ({
+  tokenRefreshService: {
+    getValidAccessToken: vi.fn(async () => ({ success: true, tokens: { accessToken: 'token' } })),
+    getTokenRecord: vi.fn(async () => null),
+  },
+}));
+vi.mock('@/lib/services/orchestration-service', () => ({
+  getConnectionsReadyForSync: vi.fn(),
+  recordSyncResult: vi.fn(async () => undefined),
+}));
+
+// Each sync stays in flight until the test finishes it
+const running = new Map<string, () => void>();
+vi.mock('@/lib/services/sync-orchestrator', () => ({
+  orchestrateSync: vi.fn(
+    ({ connectionId }: { connectionId: string }) =>
+      new Promise((resolve) =>
+        running.set(connectionId, () =>
+          resolve({ success: true, accountsSynced: 1, transactionsSynced: 2, duration: 5, errors: [] })
+        )
+      )
+  ),
+}));
+
+import { drainSyncQueue, leaseSyncJobs, reclaimExpiredLeases } from '@/lib/services/sync-queue-service';
+import { recordSyncResult } from '@/lib/services/orchestration-service';
+import { DEFAULT_PROVIDER_CONCURRENCY, PROVIDER_CONCURRENCY } from '@/lib/sync/queue';
+
+const job = (id: string, overrides: Partial<SyncJob> = {}) =>
+  ({
+    id,
+    tenant_id: 'tenant-1',
+    connection_id: `conn-${id}`,
+    provider: 'plaid',
+    options: {},
+    attempts: 1,
+    max_attempts: 5,
+    run_after: '2025-06-30T12:00:00.000Z',
+    created_by: null,
+    ...overrides,
+  }) as SyncJob;
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+beforeEach(() => {
+  rpc.mockReset();
+  updates.length = 0;
+  expiredJobs = [];
+  running.clear();
+  vi.mocked(recordSyncResult).mockClear();
+});
+
+describe('leaseSyncJobs', () => {
+  it('leases through lease_sync_jobs with the provider limits, and not at all without capacity', async () => {
+    rpc.mockResolvedValue({ data: [job('j1')], error: null });
+
+    expect(await leaseSyncJobs('worker-1', 3)).toEqual([job('j1')]);
+    expect(rpc).toHaveBeenCalledWith('lease_sync_jobs', {
+      p_worker_id: 'worker-1',
+      p_capacity: 3,
+      p_lease_seconds: 120,
+      p_provider_limits: PROVIDER_CONCURRENCY,
+      p_default_limit: DEFAULT_PROVIDER_CONCURRENCY,
+    });
+
+    rpc.mockClear();
+    expect(await leaseSyncJobs('worker-1', 0)).toEqual([]);
+    expect(rpc).not.toHaveBeenCalled();
+  });
+});
+
+describe('reclaimExpiredLeases', () => {
+  it('requeues jobs whose lease expired and dead-letters those out of attempts', async () => {
+    expiredJobs = [job('j1'), job('j2', { attempts: 5 })];
+
+    expect(await reclaimExpiredLeases()).toBe(2);
+    expect(updates.map((update) => [update.filters.id, update.values.status, update.values.leased_by])).toEqual([
+      ['j1', 'queued', null],
+      ['j2', 'dead', null],
+    ]);
+    expect(recordSyncResult).toHaveBeenCalledTimes(1);
+    expect(recordSyncResult).toHaveBeenCalledWith('conn-j2', expect.objectContaining({ status: 'failed' }));
+  });
+});
+
+describe('drainSyncQueue', () => {
+  it('only leases what the worker has room for while jobs are in flight', async () => {
+    rpc
+      .mockResolvedValueOnce({ data: [job('j1'), job('j2')], error: null })
+      .mockResolvedValue({ data: [], error: null });
+
+    const drain = drainSyncQueue({ budgetMs: 60_000, capacity: 2 });
+    await flush();
+    running.get('conn-j1')!();
+    await flush();
+    running.get('conn-j2')!();
+
+    expect(await drain).toMatchObject({ leased: 2, succeeded: 2 });
+    expect(rpc.mock.calls.map(([, params]) => params.p_capacity)).toEqual([2, 1, 2]);
+  });
+
+  it('lets in-flight jobs finish before failing on a lease error', async () => {
+    rpc
+      .mockResolvedValueOnce({ data: [job('j1'), job('j2')], error: null })
+      .mockResolvedValue({ data: null, error: new Error('lease failed') });
+
+    let settled = false;
+    const drain = drainSyncQueue({ budgetMs: 60_000, capacity: 2 }).finally(() => {
+      settled = true;
+    });
+    await flush();
+    running.get('conn-j1')!();
+    await flush();
+
+    expect(settled).toBe(false);
+
+    running.get('conn-j2')!();
+    await expect(drain).rejects.toThrow('lease failed');
+    expect(updates.filter((update) => update.values.status === 'succeeded').map((update) => update.filters.id)).toEqual([
+      'j1',
+      'j2',
+    ]);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Test: Sync job queue retry and concurrency rules
+ * Priority: HIGH - Decides when failed syncs retry and how many run per provider
+ */
+
+import { describe, it, expect } from 'vitest';
+import { decideRetry, mergeSyncScopes, retryDelaySeconds } from '@/lib/sync/queue';
+
+const NOW = new Date('2025-06-30T12:00:00.000Z');
+
+describe('retryDelaySeconds', () => {
+  it('doubles from a minute up to an hour, with up to 20% jitter', () => {
+    const noJitter = () => 0;
+    expect([1, 2, 3, 4, 5].map((attempts) => retryDelaySeconds(attempts, noJitter))).toEqual([60, 120, 240, 480, 960]);
+    expect(retryDelaySeconds(10, noJitter)).toBe(3600);
+    expect(retryDelaySeconds(1, () => 1)).toBe(72);
+  });
+});
+
+describe('decideRetry', () => {
+  it('requeues with backoff until attempts run out, then dead-letters', () => {
+    expect(decideRetry({ attempts: 2, max_attempts: 5 }, NOW, { random: () => 0 })).toEqual({
+      status: 'queued',
+      run_after: '2025-06-30T12:02:00.000Z',
+    });
+    expect(decideRetry({ attempts: 5, max_attempts: 5 }, NOW)).toEqual({ status: 'dead', run_after: null });
+  });
+
+  it('dead-letters failures that are not retryable on the first attempt', () => {
+    expect(decideRetry({ attempts: 1, max_attempts: 5 }, NOW, { retryable: false })).toEqual({
+      status: 'dead',
+      run_after: null,
+    });
+  });
+});
+
+describe('mergeSyncScopes', () => {
+  it('combines account-scoped requests and widens to a full sync when either is full', () => {
+    expect(mergeSyncScopes({ accountIds: ['a1'] }, { accountIds: ['a2', 'a1'] })).toEqual({ accountIds: ['a1', 'a2'] });
+    expect(mergeSyncScopes({ accountIds: ['a1'] }, {})).toEqual({});
+    expect(mergeSyncScopes({}, { accountIds: ['a1'] })).toEqual({});
+  });
+});
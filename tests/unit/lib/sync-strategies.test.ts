@@ -0,0 +1,255 @@
+/**
+ * Test: Sync orchestrator pipeline and provider strategies
+ * Priority: HIGH - Every provider sync runs through this pipeline
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+const update = vi.fn(() => ({ eq: vi.fn(async () => ({ error: null })) }));
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: { from: vi.fn(() => ({ update })) },
+}));
+vi.mock('@/lib/services/raw-storage-service', () => ({ rawStorageService: {} }));
+vi.mock('@/lib/services/normalization-service', () => ({ normalizationService: {} }));
+vi.mock('@/lib/services/investment-service', () => ({ syncPlaidHoldings: vi.fn() }));
+vi.mock('@/lib/services/xero-observability-service', () => ({
+  startSyncTracking: vi.fn(),
+  updateSyncMetrics: vi.fn(),
+  completeSyncTracking: vi.fn(),
+}));
+vi.mock('@/lib/services/sync-observability-service', () => ({
+  syncRunObserver: () => ({}),
+}));
+vi.mock('@/lib/services/sync-preview-service', () => ({
+  previewSyncChanges: vi.fn(async (_t: string, _c: string, _p: string, accounts: unknown[], txs: unknown[], _fetched: string[]) => ({
+    summary: { accounts_new: accounts.length, transactions_new: txs.length },
+  })),
+}));
+vi.mock('@/lib/services/connection-metadata-service', () => ({
+  refreshConnectionMetadata: vi.fn(async () => undefined),
+}));
+vi.mock('@/lib/services/categorization-service', () => ({
+  applyCategorizationRules: vi.fn(async () => ({ updated: 0 })),
+}));
+vi.mock('@/lib/services/account-service', () => ({
+  syncHistoricalBalances: vi.fn(),
+  batchCreateOrUpdateAccounts: vi.fn(async (_t: string, _c: string, _p: string, accounts: unknown[]) => ({
+    summary: { total: accounts.length, created: accounts.length, updated: 0 },
+  })),
+}));
+vi.mock('@/lib/services/transaction-sync-service', () => ({
+  batchCreateOrUpdateTransactions: vi.fn(async (_t: string, _c: string, _p: string, txs: unknown[]) => ({
+    summary: { total: txs.length, created: 1, updated: txs.length - 1 },
+  })),
+}));
+
+import { orchestrateSync } from '@/lib/services/sync-orchestrator';
+import { batchCreateOrUpdateAccounts } from '@/lib/services/account-service';
+import { batchCreateOrUpdateTransactions } from '@/lib/services/transaction-sync-service';
+import { previewSyncChanges } from '@/lib/services/sync-preview-service';
+import { getSyncStrategy, registerSyncStrategy, syncStrategyRegistry } from '@/lib/services/sync-strategies';
+import type { ProviderSyncStrategy, SyncStepEvent } from '@/lib/services/sync-strategies';
+import type { BankingProvider } from '@/lib/banking-providers/base-provider';
+
+const credentials = { connectionId: 'conn-1', tenantId: 'tenant-1', tokens: { accessToken: 'token' } };
+
+function fakeProvider(providerId: string, failAccount?: string) {
+  return {
+    config: { providerId },
+    fetchRawAccounts: vi.fn(async () => ({ accountCount: 2, rawData: [] })),
+    fetchRawTransactions: vi.fn(async (_credentials: unknown, accountId: string) => {
+      if (accountId === failAccount) throw new Error('Account locked');
+      return { transactionCount: 3, rawData: [] };
+    }),
+  } as unknown as BankingProvider;
+}
+
+function recordingStrategy(providerId: string, calls: string[], events: SyncStepEvent[]): ProviderSyncStrategy {
+  return {
+    providerId,
+    storeRawAccounts: async () => {
+      calls.push('storeRawAccounts');
+    },
+    storeRawTransactions: async () => {
+      calls.push('storeRawTransactions');
+    },
+    normalizeAccounts: async (_context, fetched) => {
+      if (fetched) calls.push('normalizeAccounts:fetched');
+      return [{ externalAccountId: 'a1' }, { externalAccountId: 'a2' }] as never;
+    },
+    normalizeTransactions: async (_context, fetched) => {
+      if (fetched) calls.push(`normalizeTransactions:fetched:${fetched.length}`);
+      return [{ externalTransactionId: 't1' }, { externalTransactionId: 't2' }, { externalTransactionId: 't3' }] as never;
+    },
+    observers: [
+      () => ({
+        onStart: async () => {
+          calls.push('onStart');
+        },
+        beforeStep: async (step, { accountId }) => {
+          calls.push(accountId ? `before:${step}:${accountId}` : `before:${step}`);
+        },
+        afterStep: async (event) => {
+          events.push(event);
+        },
+        onComplete: async (outcome) => {
+          calls.push(`onComplete:${outcome.status}`);
+        },
+      }),
+    ],
+  };
+}
+
+describe('sync strategy registry', () => {
+  it('has strategies for the aggregators and falls back to direct bank storage', () => {
+    expect(['plaid', 'tink', 'xero'].every((id) => syncStrategyRegistry.has(id))).toBe(true);
+    expect(getSyncStrategy('xero').syncHistoricalBalances).toBeDefined();
+    expect(getSyncStrategy('plaid').getTransactionCursor).toBeDefined();
+
+    const fallback = getSyncStrategy('standard_bank');
+    expect(fallback.providerId).toBe('standard_bank');
+    expect(syncStrategyRegistry.has('standard_bank')).toBe(false);
+  });
+});
+
+describe('orchestrateSync', () => {
+  it('runs a registered provider through every step, notifying its observers around each', async () => {
+    const calls: string[] = [];
+    const events: SyncStepEvent[] = [];
+    registerSyncStrategy(recordingStrategy('acme_bank', calls, events));
+
+    const result = await orchestrateSync({
+      provider: fakeProvider('acme_bank'),
+      connectionId: 'conn-1',
+      tenantId: 'tenant-1',
+      credentials,
+      userId: 'user-1',
+    });
+
+    expect(result).toMatchObject({ success: true, accountsSynced: 2, transactionsSynced: 3 });
+    expect(calls).toEqual([
+      'onStart',
+      'before:fetch_raw_accounts',
+      'before:store_raw_accounts',
+      'storeRawAccounts',
+      'before:normalize_accounts',
+      'before:save_accounts',
+      'before:fetch_raw_transactions:a1',
+      'before:store_raw_transactions:a1',
+      'storeRawTransactions',
+      'before:fetch_raw_transactions:a2',
+      'before:store_raw_transactions:a2',
+      'storeRawTransactions',
+      'before:normalize_transactions',
+      'before:save_transactions',
+      'onComplete:completed',
+    ]);
+    expect(events.find((event) => event.step === 'save_transactions')).toMatchObject({
+      count: 3,
+      created: 1,
+      updated: 2,
+    });
+    expect(result.metadata?.steps).toHaveLength(events.length);
+  });
+
+  it('skips an account whose fetch fails, reporting the failed step to observers', async () => {
+    const calls: string[] = [];
+    const events: SyncStepEvent[] = [];
+    registerSyncStrategy(recordingStrategy('acme_bank', calls, events));
+
+    const result = await orchestrateSync({
+      provider: fakeProvider('acme_bank', 'a1'),
+      connectionId: 'conn-1',
+      tenantId: 'tenant-1',
+      credentials,
+      userId: 'user-1',
+    });
+
+    expect(result.success).toBe(true);
+    expect(events.filter((event) => event.step === 'fetch_raw_transactions')).toEqual([
+      expect.objectContaining({ accountId: 'a1', error: 'Account locked' }),
+      expect.objectContaining({ accountId: 'a2', count: 3 }),
+    ]);
+    expect(calls.filter((call) => call === 'storeRawTransactions')).toHaveLength(1);
+  });
+
+  it('records a failed step as a sync error and keeps going when an observer throws', async () => {
+    const calls: string[] = [];
+    const events: SyncStepEvent[] = [];
+    const strategy = recordingStrategy('acme_bank', calls, events);
+    registerSyncStrategy({
+      ...strategy,
+      normalizeAccounts: async () => {
+        throw new Error('Bad raw payload');
+      },
+      observers: [
+        ...strategy.observers!,
+        () => ({
+          afterStep: async () => {
+            throw new Error('metrics store down');
+          },
+        }),
+      ],
+    });
+
+    const result = await orchestrateSync({
+      provider: fakeProvider('acme_bank'),
+      connectionId: 'conn-1',
+      tenantId: 'tenant-1',
+      credentials,
+      userId: 'user-1',
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual(['Account sync failed: Bad raw payload']);
+    expect(events.map((event) => event.step)).toEqual(['fetch_raw_accounts', 'store_raw_accounts', 'normalize_accounts']);
+    expect(events[2].error).toBe('Bad raw payload');
+    expect(calls[calls.length - 1]).toBe('onComplete:failed');
+  });
+
+  it('normalizes fetched data in memory on a dry run, returning a diff without storing, saving or notifying observers', async () => {
+    const calls: string[] = [];
+    const events: SyncStepEvent[] = [];
+    registerSyncStrategy(recordingStrategy('acme_bank', calls, events));
+    vi.mocked(batchCreateOrUpdateAccounts).mockClear();
+    vi.mocked(batchCreateOrUpdateTransactions).mockClear();
+    update.mockClear();
+
+    const result = await orchestrateSync({
+      provider: fakeProvider('acme_bank'),
+      connectionId: 'conn-1',
+      tenantId: 'tenant-1',
+      credentials,
+      userId: 'user-1',
+      dryRun: true,
+    });
+
+    expect(result).toMatchObject({ success: true, accountsSynced: 0, transactionsSynced: 0 });
+    expect(result.diff?.summary).toEqual({ accounts_new: 2, transactions_new: 3 });
+    expect(result.metadata?.steps.map((event: SyncStepEvent) => event.step)).not.toContain('save_transactions');
+    expect(batchCreateOrUpdateAccounts).not.toHaveBeenCalled();
+    expect(batchCreateOrUpdateTransactions).not.toHaveBeenCalled();
+    expect(update).not.toHaveBeenCalled();
+    expect(calls).toEqual(['normalizeAccounts:fetched', 'normalizeTransactions:fetched:2']);
+    expect(events).toEqual([]);
+  });
+
+  it('reports a failed account fetch on a dry run and previews only the fetched accounts', async () => {
+    registerSyncStrategy(recordingStrategy('acme_bank', [], []));
+    vi.mocked(previewSyncChanges).mockClear();
+
+    const result = await orchestrateSync({
+      provider: fakeProvider('acme_bank', 'a1'),
+      connectionId: 'conn-1',
+      tenantId: 'tenant-1',
+      credentials,
+      userId: 'user-1',
+      dryRun: true,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual(['Failed to fetch transactions for account a1: Account locked']);
+    expect(vi.mocked(previewSyncChanges).mock.calls[0][5]).toEqual(['a2']);
+  });
+});
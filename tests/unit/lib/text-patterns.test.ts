@@ -0,0 +1,43 @@
+/**
+ * Test: Text patterns for rules and bank fee detection
+ * Priority: HIGH - Tenant patterns run against every synced transaction
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compileTextPattern, textPatternError } from '@/lib/text-patterns';
+
+describe('compileTextPattern', () => {
+  it('matches literal alternatives anywhere and ignores case', () => {
+    const matches = compileTextPattern('wire fee | swift charge');
+    expect(matches('OUTGOING WIRE FEE 0423')).toBe(true);
+    expect(matches('Swift Charge')).toBe(true);
+    expect(matches('WIRE TRANSFER')).toBe(false);
+  });
+
+  it('matches globs against the whole text', () => {
+    expect(compileTextPattern('aws*')('AWS EMEA invoice')).toBe(true);
+    expect(compileTextPattern('aws*')('Paid AWS EMEA')).toBe(false);
+    expect(compileTextPattern('*starbucks*london')('STARBUCKS #88 LONDON')).toBe(true);
+    expect(compileTextPattern('*starbucks*london')('STARBUCKS #88 LONDON BRIDGE')).toBe(false);
+    expect(compileTextPattern('ab*ab')('ab')).toBe(false);
+    expect(compileTextPattern('a*b*a')('aba')).toBe(true);
+  });
+
+  it('treats regular expression syntax as text and stays fast on hostile input', () => {
+    expect(compileTextPattern('(a+)+$')('(a+)+$ literal')).toBe(true);
+    expect(compileTextPattern('(a+)+$')('aaaa')).toBe(false);
+
+    const started = Date.now();
+    expect(compileTextPattern('*a*a*a*a*a*a*a*a*b')('a'.repeat(10_000))).toBe(false);
+    expect(Date.now() - started).toBeLessThan(100);
+  });
+});
+
+describe('textPatternError', () => {
+  it('rejects long patterns and alternatives that would match everything', () => {
+    expect(textPatternError('Pattern', 'x'.repeat(501))).toBe('Pattern must be at most 500 characters');
+    expect(textPatternError('Pattern', 'fee||charge')).toMatch(/empty alternative/);
+    expect(textPatternError('Pattern', '**')).toMatch(/empty alternative/);
+    expect(textPatternError('Pattern', 'fee|*charge*')).toBeNull();
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Test: Transaction sync writes
+ * Priority: HIGH - Syncs must not undo categorization work
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const upsert = vi.fn();
+let assignedRows: Array<{ transaction_id: string; category: string; counterparty_name: string | null }> = [];
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: vi.fn(() => ({
+      select: () => ({ in: () => ({ in: async () => ({ data: assignedRows, error: null }) }) }),
+      upsert: (rows: any[]) => {
+        upsert(rows);
+        return { select: async () => ({ data: rows, error: null }) };
+      },
+    })),
+  },
+}));
+
+import { batchCreateOrUpdateTransactions } from '@/lib/services/transaction-sync-service';
+
+const tx = (id: string, category: string, counterpartyName: string) => ({
+  externalTransactionId: id,
+  accountId: 'acc-1',
+  date: new Date('2025-06-01T00:00:00.000Z'),
+  amount: 12.5,
+  currency: 'USD',
+  description: `Card payment ${id}`,
+  type: 'debit' as const,
+  counterpartyName,
+  category,
+});
+
+describe('batchCreateOrUpdateTransactions', () => {
+  beforeEach(() => {
+    upsert.mockClear();
+    assignedRows = [];
+  });
+
+  it('keeps rule, AI and reviewer categories and counterparties, refreshing only the provider category', async () => {
+    assignedRows = [{ transaction_id: 'ai-1', category: 'Coffee & snacks', counterparty_name: 'Blue Bottle Coffee' }];
+
+    await batchCreateOrUpdateTransactions(
+      'tenant-1',
+      'conn-1',
+      'plaid',
+      [tx('ai-1', 'FOOD_AND_DRINK', 'SQ *BLUE BOTTLE'), tx('new-1', 'TRAVEL', 'UBER TRIP')],
+      null
+    );
+
+    const [rows] = upsert.mock.calls[0];
+    expect(rows[0]).toMatchObject({
+      category: 'Coffee & snacks',
+      counterparty_name: 'Blue Bottle Coffee',
+      provider_category: 'FOOD_AND_DRINK',
+      created_by: null,
+    });
+    expect(rows[1]).toMatchObject({ category: 'TRAVEL', counterparty_name: 'UBER TRIP', provider_category: 'TRAVEL' });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Test: Natural-language treasury query planning and results
+ * Priority: HIGH - Model output decides what tenant data is read
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validatePlan } from '@/lib/treasury-query/planner';
+import { aggregateRecords, buildChartSpec, summarizeAnswer } from '@/lib/treasury-query/results';
+import type { QueryRecord, TreasuryQueryContext, TreasuryQueryPlan } from '@/lib/types/treasury-query';
+
+const context: TreasuryQueryContext = {
+  today: '2025-02-10',
+  entities: [
+    { entity_id: 'DE-GMBH', entity_name: 'Acme GmbH', jurisdiction: 'Germany' },
+    { entity_id: 'DE-HOLD', entity_name: 'Acme Holding', jurisdiction: 'Germany' },
+    { entity_id: 'US-INC', entity_name: 'Acme Inc', jurisdiction: 'Delaware' },
+  ],
+  accounts: [
+    { account_id: 'ACC-1', account_name: 'Deutsche Bank EUR', currency: 'EUR', entity_id: 'DE-GMBH' },
+    { account_id: 'ACC-2', account_name: 'Chase USD', currency: 'USD', entity_id: 'US-INC' },
+  ],
+  currencies: ['EUR', 'USD'],
+  categories: ['expense_payroll'],
+};
+
+function plan(overrides: Partial<TreasuryQueryPlan> = {}): TreasuryQueryPlan {
+  return {
+    dataset: 'balances',
+    metric: 'sum',
+    groupBy: 'none',
+    filters: { currencies: [], entityIds: [], accountIds: [], categories: [] },
+    chart: 'number',
+    title: 'EUR cash position',
+    limit: 100,
+    ...overrides,
+  };
+}
+
+describe('Treasury query planner', () => {
+  it('should accept a whitelisted plan and normalize its fields', () => {
+    const { plan: validated, problems } = validatePlan(
+      {
+        dataset: 'balances',
+        metric: 'sum',
+        groupBy: 'entity',
+        filters: { currencies: ['eur'], entityIds: ['DE-GMBH', 'DE-HOLD'], asOfDate: '2025-01-31' },
+        chart: 'bar',
+        title: 'EUR cash in Germany',
+      },
+      context
+    );
+
+    expect(problems).toEqual([]);
+    expect(validated).toMatchObject({
+      dataset: 'balances',
+      groupBy: 'entity',
+      filters: { currencies: ['EUR'], entityIds: ['DE-GMBH', 'DE-HOLD'], accountIds: [], asOfDate: '2025-01-31' },
+    });
+  });
+
+  it('should reject unsupported datasets, bad dates and ids the tenant does not have', () => {
+    expect(validatePlan({ dataset: 'users', filters: {} }, context).problems).toContain('Unsupported dataset: users');
+    expect(validatePlan({ dataset: 'balances', filters: { asOfDate: "2025-01-31'; drop table" } }, context).problems).toContain(
+      'As-of date must be an ISO date'
+    );
+
+    // Dropping every requested id would widen the query to the whole tenant
+    const foreign = validatePlan({ dataset: 'balances', filters: { entityIds: ['OTHER-TENANT'] } }, context);
+    expect(foreign.plan).toBeNull();
+    expect(foreign.problems).toContain('Unknown entities: OTHER-TENANT');
+
+    const partial = validatePlan({ dataset: 'balances', filters: { entityIds: ['DE-GMBH', 'OTHER'] } }, context);
+    expect(partial.plan?.filters.entityIds).toEqual(['DE-GMBH']);
+    expect(partial.warnings).toContain('Ignored unknown entities: OTHER');
+  });
+
+  it('should fall back to totals for groupings a dataset does not support', () => {
+    const result = validatePlan({ dataset: 'balances', groupBy: 'category', filters: {} }, context);
+    expect(result.plan?.groupBy).toBe('none');
+    expect(result.warnings[0]).toContain('not supported');
+
+    expect(validatePlan({ dataset: 'fx_rates', filters: { fxFrom: 'EUR' } }, context).problems).toContain(
+      'An FX question needs both currencies of the pair'
+    );
+  });
+});
+
+describe('Treasury query results', () => {
+  const records: QueryRecord[] = [
+    { value: 1000, currency: 'EUR', entity_id: 'DE-GMBH', entity_name: 'Acme GmbH', account_id: 'ACC-1' },
+    { value: 500, currency: 'EUR', entity_id: 'DE-HOLD', entity_name: 'Acme Holding', account_id: 'ACC-3' },
+    { value: 200, currency: 'USD', entity_id: 'DE-HOLD', entity_name: 'Acme Holding', account_id: 'ACC-4' },
+  ];
+
+  it('should never add different currencies together without a reporting currency', () => {
+    const rows = aggregateRecords(records, plan());
+    expect(rows).toEqual([
+      { group: 'Total', currency: 'EUR', value: 1500, count: 2 },
+      { group: 'Total', currency: 'USD', value: 200, count: 1 },
+    ]);
+
+    const chart = buildChartSpec(plan(), rows);
+    expect(chart.type).toBe('bar');
+    expect(chart.data.map((point) => point.group)).toEqual(['Total (EUR)', 'Total (USD)']);
+    expect(chart.currency).toBeNull();
+  });
+
+  it('should build a single-number answer with the as-of date', () => {
+    const eurPlan = plan({
+      filters: { currencies: ['EUR'], entityIds: ['DE-GMBH', 'DE-HOLD'], accountIds: [], categories: [], asOfDate: '2025-01-31' },
+    });
+    const rows = aggregateRecords(records.slice(0, 2), eurPlan);
+
+    expect(buildChartSpec(eurPlan, rows)).toMatchObject({ type: 'number', currency: 'EUR' });
+    expect(summarizeAnswer(eurPlan, rows, 2)).toBe('EUR cash position as of 2025-01-31: €1,500 across 2 accounts.');
+    expect(summarizeAnswer(eurPlan, [], 0)).toBe('No matching data was found for this question.');
+  });
+
+  it('should order time series by period and use a line chart', () => {
+    const monthly = plan({ dataset: 'transactions', groupBy: 'month', chart: 'number', title: 'Net flow' });
+    const rows = aggregateRecords(
+      [
+        { value: -50, currency: 'EUR', date: '2025-02-03' },
+        { value: 100, currency: 'EUR', date: '2025-01-15' },
+        { value: 25, currency: 'EUR', date: '2025-01-20' },
+      ],
+      monthly
+    );
+
+    expect(rows.map((row) => [row.group, row.value])).toEqual([
+      ['2025-01', 125],
+      ['2025-02', -50],
+    ]);
+    expect(buildChartSpec(monthly, rows).type).toBe('line');
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Test: Provider webhook verification and routing
+ * Priority: HIGH - Unverified webhooks could trigger syncs or disconnect accounts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createHash, createHmac, generateKeyPairSync, sign } from 'crypto';
+import { verifyPlaidWebhook, verifyTinkWebhook, webhookIdempotencyKey } from '@/lib/webhooks/signatures';
+import { isWebhookEventStale, parsePlaidWebhook, parseTinkWebhook } from '@/lib/webhooks/events';
+
+const NOW = new Date('2025-07-01T09:00:00.000Z');
+const NOW_SECONDS = NOW.getTime() / 1000;
+
+const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+const jwk = publicKey.export({ format: 'jwk' });
+
+function base64url(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function plaidToken(body: string, iat: number, header: object = { alg: 'ES256', kid: 'key-1', typ: 'JWT' }): string {
+  const claims = { iat, request_body_sha256: createHash('sha256').update(body).digest('hex') };
+  const signingInput = `${base64url(header)}.${base64url(claims)}`;
+  const signature = sign('sha256', Buffer.from(signingInput), { key: privateKey, dsaEncoding: 'ieee-p1363' });
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+const getKey = async (keyId: string) => (keyId === 'key-1' ? jwk : null);
+
+describe('verifyPlaidWebhook', () => {
+  const body = JSON.stringify({ webhook_type: 'TRANSACTIONS', webhook_code: 'SYNC_UPDATES_AVAILABLE', item_id: 'item-1' });
+
+  it('accepts a JWT signed by a Plaid key over this body', async () => {
+    const result = await verifyPlaidWebhook(body, plaidToken(body, NOW_SECONDS - 30), getKey, NOW);
+    expect(result).toEqual({ valid: true, signedAt: new Date((NOW_SECONDS - 30) * 1000) });
+  });
+
+  it('rejects a changed body, a replayed token, an unknown key and unsigned tokens', async () => {
+    const token = plaidToken(body, NOW_SECONDS);
+    expect(await verifyPlaidWebhook(body.replace('item-1', 'item-2'), token, getKey, NOW)).toMatchObject({
+      valid: false,
+      reason: 'Body does not match signature',
+    });
+    expect(await verifyPlaidWebhook(body, plaidToken(body, NOW_SECONDS - 600), getKey, NOW)).toMatchObject({
+      valid: false,
+      reason: 'Signature outside replay window',
+    });
+    expect(
+      await verifyPlaidWebhook(body, plaidToken(body, NOW_SECONDS, { alg: 'ES256', kid: 'key-2' }), getKey, NOW)
+    ).toMatchObject({ valid: false });
+    expect(
+      await verifyPlaidWebhook(body, plaidToken(body, NOW_SECONDS, { alg: 'none', kid: 'key-1' }), getKey, NOW)
+    ).toMatchObject({ valid: false, reason: 'Unsupported signing algorithm' });
+  });
+});
+
+describe('verifyTinkWebhook', () => {
+  const body = JSON.stringify({ event: 'refresh:finished', context: { userId: 'tink-user-1' } });
+  const signature = (secret: string, timestamp: number) =>
+    `t=${timestamp},v1=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+  it('checks the HMAC of timestamp and body and the replay window', () => {
+    expect(verifyTinkWebhook(body, signature('secret', NOW_SECONDS), 'secret', NOW)).toEqual({
+      valid: true,
+      signedAt: NOW,
+    });
+    expect(verifyTinkWebhook(body, signature('other', NOW_SECONDS), 'secret', NOW)).toMatchObject({ valid: false });
+    expect(verifyTinkWebhook(body, signature('secret', NOW_SECONDS - 301), 'secret', NOW)).toMatchObject({
+      valid: false,
+      reason: 'Signature outside replay window',
+    });
+    expect(verifyTinkWebhook(body, null, 'secret', NOW)).toMatchObject({ valid: false });
+  });
+
+  it('keys redeliveries on the event id, or on the body when the provider sends none', () => {
+    expect(webhookIdempotencyKey(body, 'evt-1')).toBe(webhookIdempotencyKey(body.replace('tink-user-1', 'x'), 'evt-1'));
+    expect(webhookIdempotencyKey(body, 'evt-1')).not.toBe(webhookIdempotencyKey(body, 'evt-2'));
+    expect(webhookIdempotencyKey(body, null)).toBe(webhookIdempotencyKey(body, null));
+    expect(webhookIdempotencyKey(body, null)).not.toBe(webhookIdempotencyKey(body.replace('tink-user-1', 'x'), null));
+  });
+});
+
+describe('webhook routing', () => {
+  it('maps Plaid events to syncs and connection status changes', () => {
+    expect(parsePlaidWebhook({ webhook_type: 'TRANSACTIONS', webhook_code: 'SYNC_UPDATES_AVAILABLE', item_id: 'item-1' }))
+      .toMatchObject({ providerUserId: 'item-1', action: { type: 'sync' } });
+    expect(
+      parsePlaidWebhook({
+        webhook_type: 'ITEM',
+        webhook_code: 'ERROR',
+        item_id: 'item-1',
+        error: { error_code: 'ITEM_LOGIN_REQUIRED', display_message: 'Login details changed' },
+      }).action
+    ).toEqual({ type: 'reconnect_required', message: 'Login details changed' });
+    expect(parsePlaidWebhook({ webhook_type: 'ITEM', webhook_code: 'LOGIN_REPAIRED' }).action).toEqual({
+      type: 'connection_restored',
+    });
+    expect(parsePlaidWebhook({ webhook_type: 'AUTH', webhook_code: 'AUTOMATICALLY_VERIFIED' }).action.type).toBe('ignore');
+  });
+
+  it('targets Tink syncs at the modified account and flags expired sessions', () => {
+    expect(
+      parseTinkWebhook({
+        event: 'account-transactions:modified',
+        context: { userId: 'tink-user-1' },
+        content: { account: { id: 'acc-9' } },
+      })
+    ).toMatchObject({ providerUserId: 'tink-user-1', action: { type: 'sync', accountIds: ['acc-9'] } });
+    expect(
+      parseTinkWebhook({ event: 'refresh:finished', content: { credentialsStatus: 'SESSION_EXPIRED' } }).action.type
+    ).toBe('reconnect_required');
+    expect(
+      parseTinkWebhook({ event: 'refresh:finished', content: { credentialsStatus: 'TEMPORARY_ERROR' } }).action.type
+    ).toBe('ignore');
+  });
+
+  it('discards events older than the status change or sync they would repeat', () => {
+    const earlier = new Date(NOW.getTime() - 60_000);
+    const later = new Date(NOW.getTime() + 60_000);
+    const reconnect = { type: 'reconnect_required' as const, message: 'Reconnect' };
+
+    // LOGIN_REPAIRED was processed before a delayed ITEM_LOGIN_REQUIRED from earlier arrived
+    expect(isWebhookEventStale(reconnect, NOW, { statusChangedAt: later })).toBe(true);
+    expect(isWebhookEventStale(reconnect, NOW, { statusChangedAt: earlier })).toBe(false);
+    expect(isWebhookEventStale({ type: 'sync' }, NOW, { syncStartedAt: later })).toBe(true);
+    expect(isWebhookEventStale({ type: 'sync' }, NOW, { syncStartedAt: earlier, statusChangedAt: later })).toBe(false);
+  });
+});